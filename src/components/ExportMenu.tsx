@@ -0,0 +1,67 @@
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+/**
+ * A single group of download links in the export menu.
+ * `params` are passed to GET /api/export as query parameters (format is added per link).
+ */
+export interface ExportOption {
+  label: string;
+  params: Record<string, string>;
+}
+
+interface ExportMenuProps {
+  options: ExportOption[];
+  label?: string;
+}
+
+/**
+ * Builds the download URL for the export endpoint.
+ */
+export function buildExportUrl(params: Record<string, string>, format: "csv" | "json"): string {
+  const searchParams = new URLSearchParams({ ...params, format });
+  return `/api/export?${searchParams.toString()}`;
+}
+
+/**
+ * ExportMenu component
+ * Dropdown with CSV and JSON download links for each export option
+ */
+export function ExportMenu({ options, label = "Export" }: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Download className="h-4 w-4" aria-hidden="true" />
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {options.map((option, index) => (
+          <div key={option.label}>
+            {index > 0 && <DropdownMenuSeparator />}
+            <DropdownMenuLabel>{option.label}</DropdownMenuLabel>
+            <DropdownMenuItem asChild>
+              <a href={buildExportUrl(option.params, "csv")} download>
+                CSV
+              </a>
+            </DropdownMenuItem>
+            <DropdownMenuItem asChild>
+              <a href={buildExportUrl(option.params, "json")} download>
+                JSON
+              </a>
+            </DropdownMenuItem>
+          </div>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
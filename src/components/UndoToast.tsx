@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+/**
+ * A deletion that can still be undone.
+ * `restoreUrl` is the restore endpoint of the deleted record (POST), the same one the trash uses.
+ */
+export interface UndoableDeletion {
+  message: string;
+  restoreUrl: string;
+}
+
+interface UndoToastProps {
+  deletion: UndoableDeletion;
+  onRestored: () => void;
+  onClose: () => void;
+  /** Milliseconds before the toast closes by itself */
+  duration?: number;
+}
+
+/**
+ * UndoToast component
+ * Notice shown after a delete with an Undo button that restores the record from the trash
+ */
+export function UndoToast({ deletion, onRestored, onClose, duration = 8000 }: UndoToastProps) {
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Close by itself after a while, unless a restore is running or failed
+  useEffect(() => {
+    if (isRestoring || error) return;
+
+    const timer = setTimeout(onClose, duration);
+    return () => clearTimeout(timer);
+  }, [deletion, duration, isRestoring, error, onClose]);
+
+  const handleUndo = async () => {
+    try {
+      setIsRestoring(true);
+      setError(null);
+
+      const response = await fetch(deletion.restoreUrl, { method: "POST" });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || "Failed to undo");
+      }
+
+      onRestored();
+      onClose();
+    } catch (err) {
+      console.error("Error undoing delete:", err);
+      setError(err instanceof Error ? err.message : "Failed to undo");
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 right-4 z-50 w-80 space-y-2 rounded-lg border bg-card p-4 text-sm shadow-lg"
+    >
+      <div className="flex items-center justify-between gap-3">
+        <span>{deletion.message}</span>
+        <div className="flex items-center gap-1">
+          <Button type="button" variant="outline" size="sm" onClick={handleUndo} disabled={isRestoring}>
+            {isRestoring ? "Restoring..." : "Undo"}
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={onClose}
+            disabled={isRestoring}
+          >
+            <X className="h-4 w-4" />
+            <span className="sr-only">Dismiss</span>
+          </Button>
+        </div>
+      </div>
+      {error && <p className="text-destructive">{error}</p>}
+    </div>
+  );
+}
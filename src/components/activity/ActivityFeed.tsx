@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { describeActivity, getActivityChanges } from "@/lib/activity";
+import type { ActivityEntityType, ActivityEntryDTO } from "@/types";
+
+const ENTITY_FILTER_OPTIONS: { value: ActivityEntityType | ""; label: string }[] = [
+  { value: "", label: "Everything" },
+  { value: "expense", label: "Expenses" },
+  { value: "month_budget", label: "Month budgets" },
+  { value: "stash", label: "Stashes" },
+  { value: "stash_transaction", label: "Stash transactions" },
+];
+
+interface ActivityFeedProps {
+  /** Limits the feed to one kind of record */
+  entityType?: ActivityEntityType;
+  /** Limits the feed to the history of one record (needs entityType) */
+  entityId?: string;
+  /** Shows a select for the kind of record */
+  showFilter?: boolean;
+  pageSize?: number;
+  refreshTrigger?: number;
+}
+
+const formatTimestamp = (value: string): string =>
+  new Date(value).toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+/**
+ * ActivityFeed component
+ * Audit log entries, newest first, with the columns each update changed and a button to load older entries
+ */
+export function ActivityFeed({
+  entityType,
+  entityId,
+  showFilter = false,
+  pageSize = 20,
+  refreshTrigger = 0,
+}: ActivityFeedProps) {
+  const [filter, setFilter] = useState<ActivityEntityType | "">(entityType ?? "");
+  const [entries, setEntries] = useState<ActivityEntryDTO[]>([]);
+  const [page, setPage] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Responses for a filter or page that is no longer current are dropped
+    let cancelled = false;
+
+    const fetchActivity = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const params = new URLSearchParams({ page: String(page), limit: String(pageSize) });
+        if (filter) {
+          params.set("entity_type", filter);
+        }
+        if (entityId) {
+          params.set("entity_id", entityId);
+        }
+
+        const response = await fetch(`/api/activity?${params.toString()}`);
+
+        if (!response.ok) {
+          if (response.status === 401) {
+            window.location.href = "/login";
+            return;
+          }
+
+          throw new Error("Failed to load activity");
+        }
+
+        const result = await response.json();
+        if (cancelled) return;
+
+        setEntries((prev) => (page === 1 ? result.data : [...prev, ...result.data]));
+        setTotal(result.pagination.total);
+      } catch (err) {
+        console.error("Error fetching activity:", err);
+        setError("Failed to load activity. Please try again.");
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchActivity();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [filter, entityId, page, pageSize, refreshTrigger]);
+
+  // Start over from the newest entries when the filter or the record changes
+  useEffect(() => {
+    setPage(1);
+  }, [filter, entityId, refreshTrigger]);
+
+  return (
+    <div className="space-y-4">
+      {showFilter && (
+        <div className="max-w-xs space-y-2">
+          <Label htmlFor="activity-entity-type">Show</Label>
+          <select
+            id="activity-entity-type"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as ActivityEntityType | "")}
+            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {ENTITY_FILTER_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading && entries.length === 0 && (
+        <div className="space-y-2">
+          <Skeleton className="h-12 w-full" />
+          <Skeleton className="h-12 w-full" />
+        </div>
+      )}
+
+      {!loading && !error && entries.length === 0 && <p className="text-sm text-muted-foreground">No activity yet</p>}
+
+      {entries.length > 0 && (
+        <ul className="divide-y divide-border">
+          {entries.map((entry) => {
+            const changes = getActivityChanges(entry);
+
+            return (
+              <li key={entry.id} className="space-y-1 py-3 text-sm">
+                <div className="flex items-baseline justify-between gap-4">
+                  <span className="font-medium">{describeActivity(entry)}</span>
+                  <time dateTime={entry.created_at} className="shrink-0 text-xs text-muted-foreground">
+                    {formatTimestamp(entry.created_at)}
+                  </time>
+                </div>
+                {changes.length > 0 && (
+                  <ul className="text-muted-foreground">
+                    {changes.map((change) => (
+                      <li key={change.field}>
+                        {change.field}: {change.from} → {change.to}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {entries.length < total && (
+        <Button type="button" variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={loading}>
+          {loading ? "Loading..." : "Load older activity"}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ActivityFeed } from "./ActivityFeed";
+import type { ActivityEntityType } from "@/types";
+
+interface ActivityHistoryPanelProps {
+  entityType: ActivityEntityType;
+  entityId: string;
+  refreshTrigger?: number;
+}
+
+/**
+ * ActivityHistoryPanel component
+ * Collapsible change history of a single record; the history is only loaded once the panel is opened
+ */
+export function ActivityHistoryPanel({ entityType, entityId, refreshTrigger }: ActivityHistoryPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="space-y-2">
+      <Button type="button" variant="ghost" size="sm" onClick={() => setIsOpen(!isOpen)} aria-expanded={isOpen}>
+        {isOpen ? "Hide history" : "Show history"}
+      </Button>
+      {isOpen && (
+        <ActivityFeed entityType={entityType} entityId={entityId} pageSize={5} refreshTrigger={refreshTrigger} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { ActivityFeed } from "../ActivityFeed";
+
+const createFetchResponse = <T,>(payload: T, init: { ok?: boolean; status?: number } = {}) => ({
+  ok: init.ok ?? true,
+  status: init.status ?? 200,
+  json: async () => payload,
+});
+
+const balanceChange = {
+  id: "entry-1",
+  actor_id: "user-1",
+  entity_type: "month_budget",
+  entity_id: "budget-1",
+  operation: "update",
+  old_values: { year_month: "2026-10", current_balance: 1500 },
+  new_values: { year_month: "2026-10", current_balance: 1457.5 },
+  created_at: "2026-10-05T12:00:00Z",
+};
+
+describe("ActivityFeed", () => {
+  const fetchMock = vi.fn<(url: string) => Promise<ReturnType<typeof createFetchResponse>>>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("shows what changed and filters by kind of record", async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        createFetchResponse({ data: [balanceChange], pagination: { page: 1, limit: 20, total: 1 } })
+      )
+      .mockResolvedValueOnce(createFetchResponse({ data: [], pagination: { page: 1, limit: 20, total: 0 } }));
+
+    render(<ActivityFeed showFilter />);
+
+    expect(await screen.findByText("Month budget 2026-10 updated")).toBeInTheDocument();
+    expect(screen.getByText("current balance: 1500 → 1457.5")).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith("/api/activity?page=1&limit=20");
+
+    fireEvent.change(screen.getByLabelText("Show"), { target: { value: "stash" } });
+
+    await screen.findByText("No activity yet");
+    expect(fetchMock).toHaveBeenLastCalledWith("/api/activity?page=1&limit=20&entity_type=stash");
+  });
+
+  it("loads the history of a single record", async () => {
+    fetchMock.mockResolvedValueOnce(
+      createFetchResponse({ data: [balanceChange], pagination: { page: 1, limit: 5, total: 6 } })
+    );
+
+    render(<ActivityFeed entityType="month_budget" entityId="budget-1" pageSize={5} />);
+
+    await waitFor(() =>
+      expect(fetchMock).toHaveBeenCalledWith("/api/activity?page=1&limit=5&entity_type=month_budget&entity_id=budget-1")
+    );
+    expect(await screen.findByRole("button", { name: "Load older activity" })).toBeInTheDocument();
+  });
+});
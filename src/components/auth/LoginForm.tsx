@@ -7,6 +7,7 @@ import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { AuthLinks } from "@/components/auth/AuthLinks";
 import { FormErrorAlert } from "@/components/auth/FormErrorAlert";
+import { MfaChallengeForm } from "@/components/auth/MfaChallengeForm";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 
@@ -17,7 +18,12 @@ const loginFormSchema = z.object({
 
 export type LoginFormValues = z.infer<typeof loginFormSchema>;
 
-export function LoginForm() {
+interface LoginFormProps {
+  /** "mfa" when the password was already accepted and only the second factor is missing */
+  initialStep?: "password" | "mfa";
+}
+
+export function LoginForm({ initialStep = "password" }: LoginFormProps) {
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginFormSchema),
     defaultValues: {
@@ -28,6 +34,7 @@ export function LoginForm() {
   });
 
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [step, setStep] = useState(initialStep);
 
   const handleSubmit = async (values: LoginFormValues) => {
     setErrorMessage(null);
@@ -56,6 +63,14 @@ export function LoginForm() {
         return;
       }
 
+      const data = await response.json();
+
+      // Two-factor authentication enabled - ask for the code before going on
+      if (data.mfaRequired) {
+        setStep("mfa");
+        return;
+      }
+
       // Successful login - redirect to dashboard
       window.location.assign("/app/dashboard");
     } catch (authError) {
@@ -64,6 +79,25 @@ export function LoginForm() {
     }
   };
 
+  if (step === "mfa") {
+    return (
+      <div className="space-y-6 rounded-xl border border-border/40 bg-background/80 p-8 shadow-lg shadow-black/5 backdrop-blur">
+        <div className="space-y-2 text-center">
+          <h2 className="text-2xl font-semibold tracking-tight">Two-factor authentication</h2>
+          <p className="text-sm text-muted-foreground">Confirm it's you to finish signing in.</p>
+        </div>
+
+        <MfaChallengeForm />
+
+        <form action="/api/auth/logout" method="POST" className="text-center">
+          <Button type="submit" variant="link" size="sm">
+            Sign in with a different account
+          </Button>
+        </form>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6 rounded-xl border border-border/40 bg-background/80 p-8 shadow-lg shadow-black/5 backdrop-blur">
       <div className="space-y-2 text-center">
@@ -0,0 +1,96 @@
+import { useState, type FormEvent } from "react";
+import { Loader2 } from "lucide-react";
+
+import { FormErrorAlert } from "@/components/auth/FormErrorAlert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+/**
+ * MfaChallengeForm component
+ * Second sign-in step: a code from the authenticator app, or one of the recovery codes
+ */
+export function MfaChallengeForm() {
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setErrorMessage(null);
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(useRecoveryCode ? "/api/auth/mfa/recover" : "/api/auth/mfa/verify", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ code: code.trim() }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+
+        if (response.status === 401) {
+          setErrorMessage("Your sign-in has expired. Reload the page and sign in again.");
+        } else if (response.status >= 500) {
+          setErrorMessage("We couldn't verify the code right now. Please try again later.");
+        } else {
+          setErrorMessage(errorData.errors?.code?.[0] ?? errorData.message ?? "Invalid code");
+        }
+
+        return;
+      }
+
+      // Recovery codes turn two-factor authentication off, so send the user to set it up again
+      window.location.assign(useRecoveryCode ? "/app/settings" : "/app/dashboard");
+    } catch (authError) {
+      console.error("Failed to verify two-factor code", authError);
+      setErrorMessage("We couldn't verify the code right now. Please try again later.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleMode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode("");
+    setErrorMessage(null);
+  };
+
+  return (
+    <form className="space-y-5" onSubmit={handleSubmit} noValidate>
+      <div className="space-y-2">
+        <Label htmlFor="mfa-code">{useRecoveryCode ? "Recovery code" : "Authentication code"}</Label>
+        <Input
+          id="mfa-code"
+          type="text"
+          inputMode={useRecoveryCode ? "text" : "numeric"}
+          autoComplete="one-time-code"
+          placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+          value={code}
+          onChange={(event) => setCode(event.target.value)}
+          autoFocus
+        />
+        <p className="text-xs text-muted-foreground">
+          {useRecoveryCode
+            ? "Each recovery code works once and turns two-factor authentication off until you set it up again."
+            : "Enter the 6-digit code from your authenticator app."}
+        </p>
+      </div>
+
+      <FormErrorAlert message={errorMessage} />
+
+      <Button type="submit" className="w-full" disabled={isSubmitting || !code.trim()}>
+        {isSubmitting && <Loader2 className="size-4 animate-spin" aria-hidden="true" />}
+        Verify
+      </Button>
+
+      <Button type="button" variant="link" className="w-full" onClick={toggleMode}>
+        {useRecoveryCode ? "Use your authenticator app" : "Use a recovery code"}
+      </Button>
+    </form>
+  );
+}
@@ -4,6 +4,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TagInput } from "./TagInput";
+import { ExpenseSplitEditor, toExpenseSplits } from "./ExpenseSplitEditor";
+import type { SplitLineInput } from "./ExpenseSplitEditor";
+import { splitsMatchAmount } from "@/lib/expense-split";
 import type { ExpenseCategoryDTO } from "@/types";
 
 interface AddExpenseFormProps {
@@ -26,6 +30,9 @@ export function AddExpenseForm({ yearMonth, onSuccess }: AddExpenseFormProps) {
   const [amount, setAmount] = useState<string>("");
   const [expenseDate, setExpenseDate] = useState<string>("");
   const [description, setDescription] = useState<string>("");
+  const [tags, setTags] = useState<string[]>([]);
+  const [isSplit, setIsSplit] = useState(false);
+  const [splitLines, setSplitLines] = useState<SplitLineInput[]>([]);
 
   // Load expense categories on mount
   useEffect(() => {
@@ -39,7 +46,8 @@ export function AddExpenseForm({ yearMonth, onSuccess }: AddExpenseFormProps) {
         }
 
         const result = await response.json();
-        setCategories(result.data || []);
+        // Archived categories stay on old expenses but can't be picked for new ones
+        setCategories((result.data || []).filter((category: ExpenseCategoryDTO) => !category.archived_at));
       } catch (err) {
         console.error("Error loading categories:", err);
       } finally {
@@ -58,6 +66,17 @@ export function AddExpenseForm({ yearMonth, onSuccess }: AddExpenseFormProps) {
     }
   }, [yearMonth, expenseDate]);
 
+  // Start a split with the chosen category holding the whole amount and an empty second line
+  const toggleSplit = () => {
+    if (!isSplit) {
+      setSplitLines([
+        { category_id: categoryId, amount },
+        { category_id: "", amount: "" },
+      ]);
+    }
+    setIsSplit(!isSplit);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -74,6 +93,16 @@ export function AddExpenseForm({ yearMonth, onSuccess }: AddExpenseFormProps) {
       return;
     }
 
+    const splits = isSplit ? toExpenseSplits(splitLines) : undefined;
+    if (splits && splits.some((line) => isNaN(line.amount) || line.amount <= 0)) {
+      setError("Each split line needs a positive amount");
+      return;
+    }
+    if (splits && !splitsMatchAmount(splits, amountNum)) {
+      setError("Split amounts must add up to the expense amount");
+      return;
+    }
+
     try {
       setIsSubmitting(true);
 
@@ -83,10 +112,12 @@ export function AddExpenseForm({ yearMonth, onSuccess }: AddExpenseFormProps) {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          category_id: categoryId || undefined,
+          category_id: (!isSplit && categoryId) || undefined,
           amount: amountNum,
           expense_date: expenseDate,
           description: description.trim(),
+          tags: tags.length > 0 ? tags : undefined,
+          splits,
         }),
       });
 
@@ -100,6 +131,9 @@ export function AddExpenseForm({ yearMonth, onSuccess }: AddExpenseFormProps) {
       setAmount("");
       setExpenseDate(`${yearMonth}-01`);
       setDescription("");
+      setTags([]);
+      setIsSplit(false);
+      setSplitLines([]);
 
       // Notify parent of success
       onSuccess();
@@ -157,19 +191,46 @@ export function AddExpenseForm({ yearMonth, onSuccess }: AddExpenseFormProps) {
       </div>
 
       <div className="space-y-2">
-        <Label htmlFor="category">Category</Label>
-        <Select value={categoryId} onValueChange={setCategoryId} disabled={isLoadingCategories || isSubmitting}>
-          <SelectTrigger id="category">
-            <SelectValue placeholder="Select a category (optional)" />
-          </SelectTrigger>
-          <SelectContent>
-            {categories.map((category) => (
-              <SelectItem key={category.id} value={category.id}>
-                {category.display_name}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="category">{isSplit ? "Split across categories" : "Category"}</Label>
+          <Button
+            type="button"
+            variant="link"
+            size="sm"
+            className="h-auto p-0"
+            onClick={toggleSplit}
+            disabled={isLoadingCategories || isSubmitting}
+          >
+            {isSplit ? "Use a single category" : "Split across categories"}
+          </Button>
+        </div>
+        {isSplit ? (
+          <ExpenseSplitEditor
+            categories={categories}
+            amount={parseFloat(amount)}
+            value={splitLines}
+            onChange={setSplitLines}
+            disabled={isSubmitting}
+          />
+        ) : (
+          <Select value={categoryId} onValueChange={setCategoryId} disabled={isLoadingCategories || isSubmitting}>
+            <SelectTrigger id="category">
+              <SelectValue placeholder="Select a category (optional)" />
+            </SelectTrigger>
+            <SelectContent>
+              {categories.map((category) => (
+                <SelectItem key={category.id} value={category.id}>
+                  {category.display_name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="tags">Tags</Label>
+        <TagInput id="tags" value={tags} onChange={setTags} disabled={isSubmitting} />
       </div>
 
       <div className="flex justify-end gap-2">
@@ -1,8 +1,10 @@
 import { useState, useEffect, useCallback } from "react";
-import type { MonthBudgetDTO, ErrorResponse } from "@/types";
+import type { MonthBudgetDetailsDTO, MonthBudgetCategoriesDTO, ErrorResponse } from "@/types";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
+import { BudgetBreakdownChart } from "@/components/dashboard/BudgetBreakdownChart";
+import { ActivityHistoryPanel } from "@/components/activity/ActivityHistoryPanel";
 
 interface BudgetDetailsProps {
   yearMonth: string;
@@ -14,9 +16,12 @@ interface BudgetDetailsProps {
  * Displays detailed information about a specific month's budget
  */
 export function BudgetDetails({ yearMonth, refreshTrigger = 0 }: BudgetDetailsProps) {
-  const [budget, setBudget] = useState<MonthBudgetDTO | null>(null);
+  const [budget, setBudget] = useState<MonthBudgetDetailsDTO | null>(null);
+  const [breakdown, setBreakdown] = useState<MonthBudgetCategoriesDTO | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [isClosing, setIsClosing] = useState<boolean>(false);
+  const [closeError, setCloseError] = useState<string | null>(null);
 
   // Format year-month to readable label
   const formatMonthLabel = (ym: string): string => {
@@ -44,6 +49,7 @@ export function BudgetDetails({ yearMonth, refreshTrigger = 0 }: BudgetDetailsPr
 
       if (response.status === 404) {
         setBudget(null);
+        setBreakdown(null);
         setError("No budget set for this month");
         return;
       }
@@ -59,8 +65,17 @@ export function BudgetDetails({ yearMonth, refreshTrigger = 0 }: BudgetDetailsPr
         return;
       }
 
-      const data = (await response.json()) as { data: MonthBudgetDTO };
+      const data = (await response.json()) as { data: MonthBudgetDetailsDTO };
       setBudget(data.data);
+
+      // Category breakdown is optional; the summary stays usable if it fails
+      const breakdownResponse = await fetch(`/api/month-budgets/${yearMonth}/categories`);
+      if (breakdownResponse.ok) {
+        const breakdownData = (await breakdownResponse.json()) as { data: MonthBudgetCategoriesDTO };
+        setBreakdown(breakdownData.data);
+      } else {
+        setBreakdown(null);
+      }
     } catch (err) {
       console.error("Error fetching budget details:", err);
       setError("Unable to connect. Please check your internet connection.");
@@ -78,11 +93,46 @@ export function BudgetDetails({ yearMonth, refreshTrigger = 0 }: BudgetDetailsPr
     fetchBudget();
   };
 
+  // Close the month (freeze its remainder) or reopen it
+  const handleToggleClosed = async () => {
+    if (!budget) return;
+
+    setIsClosing(true);
+    setCloseError(null);
+
+    try {
+      const response = await fetch(`/api/month-budgets/${yearMonth}/close`, {
+        method: budget.closed_at ? "DELETE" : "POST",
+      });
+
+      if (response.status === 401) {
+        window.location.href = "/login";
+        return;
+      }
+
+      if (!response.ok) {
+        const errorData = (await response.json()) as ErrorResponse;
+        setCloseError(errorData.message || "Failed to update month");
+        return;
+      }
+
+      const data = (await response.json()) as { data: MonthBudgetDetailsDTO };
+      setBudget(data.data);
+    } catch (err) {
+      console.error("Error closing month:", err);
+      setCloseError("Unable to connect. Please check your internet connection.");
+    } finally {
+      setIsClosing(false);
+    }
+  };
+
   // Calculate spent amount and percentage
-  // Note: current_balance = budget_set - total_expenses (from database trigger)
+  // Note: current_balance = budget_set - total_expenses (from database trigger);
+  // the effective budget adds the amount carried over from the previous month
   const budgetSpent = budget ? budget.budget_set - budget.current_balance : 0;
-  const remainingBudget = budget ? budget.current_balance : 0;
-  const percentageSpent = budget ? (budgetSpent / budget.budget_set) * 100 : 0;
+  const effectiveBudget = budget ? budget.budget_set + budget.carried_over : 0;
+  const remainingBudget = budget ? budget.current_balance + budget.carried_over : 0;
+  const percentageSpent = effectiveBudget > 0 ? (budgetSpent / effectiveBudget) * 100 : budgetSpent > 0 ? 101 : 0;
 
   return (
     <Card>
@@ -122,6 +172,15 @@ export function BudgetDetails({ yearMonth, refreshTrigger = 0 }: BudgetDetailsPr
                 <p className="text-2xl font-bold" data-testid="set-budget-amount">
                   {formatCurrency(budget.budget_set)}
                 </p>
+                {budget.rollover_enabled && (
+                  <p
+                    className={`text-xs ${budget.carried_over < 0 ? "text-destructive" : "text-muted-foreground"}`}
+                    data-testid="carried-over-amount"
+                  >
+                    {budget.carried_over >= 0 ? "+" : ""}
+                    {formatCurrency(budget.carried_over)} carried over
+                  </p>
+                )}
               </div>
               <div className="space-y-1">
                 <p className="text-sm text-muted-foreground">Spent</p>
@@ -171,11 +230,100 @@ export function BudgetDetails({ yearMonth, refreshTrigger = 0 }: BudgetDetailsPr
               </Alert>
             )}
 
+            {/* Category Breakdown */}
+            {breakdown && breakdown.categories.length > 0 && (
+              <div className="space-y-4 pt-4 border-t border-border">
+                <div className="flex items-baseline justify-between">
+                  <h3 className="text-sm font-semibold">Categories</h3>
+                  <span className="text-xs text-muted-foreground">
+                    Unallocated: {formatCurrency(breakdown.unallocated)}
+                  </span>
+                </div>
+
+                {breakdown.allocated_total > 0 && (
+                  <BudgetBreakdownChart
+                    budgetSet={breakdown.budget_set}
+                    totalExpenses={breakdown.total_spent}
+                    categories={breakdown.categories.filter((category) => category.allocated !== null)}
+                  />
+                )}
+
+                <ul className="space-y-3" data-testid="category-breakdown">
+                  {breakdown.categories.map((category) => {
+                    const categoryPercentage =
+                      category.allocated !== null ? (category.spent / category.allocated) * 100 : null;
+
+                    return (
+                      <li key={category.category_id ?? "uncategorized"} className="space-y-1">
+                        <div className="flex items-center justify-between gap-2 text-sm">
+                          <span className="flex min-w-0 items-center gap-2">
+                            <span
+                              className="h-2.5 w-2.5 shrink-0 rounded-full bg-muted-foreground/40"
+                              style={category.color ? { backgroundColor: category.color } : undefined}
+                              aria-hidden="true"
+                            />
+                            <span className="truncate">{category.category_name}</span>
+                          </span>
+                          <span
+                            className={`tabular-nums ${category.is_overspent ? "font-semibold text-destructive" : ""}`}
+                          >
+                            {formatCurrency(category.spent)}
+                            {category.allocated !== null && (
+                              <span className="text-muted-foreground"> / {formatCurrency(category.allocated)}</span>
+                            )}
+                          </span>
+                        </div>
+                        {categoryPercentage !== null && (
+                          <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+                            <div
+                              className={`h-full transition-all ${
+                                category.is_overspent
+                                  ? "bg-destructive"
+                                  : categoryPercentage > 80
+                                    ? "bg-yellow-500"
+                                    : "bg-green-500"
+                              }`}
+                              style={{ width: `${Math.min(categoryPercentage, 100)}%` }}
+                            />
+                          </div>
+                        )}
+                        {category.is_overspent && category.remaining !== null && (
+                          <p className="text-xs text-destructive">
+                            Over by {formatCurrency(Math.abs(category.remaining))}
+                          </p>
+                        )}
+                        {category.allocated === null && <p className="text-xs text-muted-foreground">No allocation</p>}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+
             {/* Metadata */}
-            <div className="pt-4 border-t border-border text-xs text-muted-foreground space-y-1">
-              <p>Created: {new Date(budget.created_at).toLocaleString("en-US")}</p>
-              <p>Last updated: {new Date(budget.updated_at).toLocaleString("en-US")}</p>
+            <div className="pt-4 border-t border-border flex flex-wrap items-end justify-between gap-4">
+              <div className="text-xs text-muted-foreground space-y-1">
+                <p>Created: {new Date(budget.created_at).toLocaleString("en-US")}</p>
+                <p>Last updated: {new Date(budget.updated_at).toLocaleString("en-US")}</p>
+                {budget.closed_at && budget.closing_balance !== null && (
+                  <p>
+                    Closed {new Date(budget.closed_at).toLocaleDateString("en-US")} with{" "}
+                    {formatCurrency(budget.closing_balance)} to carry over
+                  </p>
+                )}
+              </div>
+              <Button variant="outline" size="sm" onClick={handleToggleClosed} disabled={isClosing}>
+                {isClosing ? "Saving..." : budget.closed_at ? "Reopen Month" : "Close Month"}
+              </Button>
             </div>
+            {closeError && (
+              <Alert variant="destructive">
+                <p className="text-sm">{closeError}</p>
+              </Alert>
+            )}
+
+            {/* Change history (budget amount, balance, closing) */}
+            <ActivityHistoryPanel entityType="month_budget" entityId={budget.id} refreshTrigger={refreshTrigger} />
           </div>
         )}
       </CardContent>
@@ -97,8 +97,15 @@ export function BudgetHistoryList({ refreshTrigger = 0 }: BudgetHistoryListProps
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Budget History</CardTitle>
-        <CardDescription>View your past monthly budgets</CardDescription>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Budget History</CardTitle>
+            <CardDescription>View your past monthly budgets</CardDescription>
+          </div>
+          <a href={`/app/budget/year/${new Date().getFullYear()}`} className="text-sm text-primary hover:underline">
+            Year overview →
+          </a>
+        </div>
       </CardHeader>
       <CardContent>
         {/* Loading State */}
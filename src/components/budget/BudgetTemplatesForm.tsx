@@ -0,0 +1,429 @@
+import { useState, useEffect, useCallback } from "react";
+import { Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert } from "@/components/ui/alert";
+import type {
+  ApplyBudgetTemplateResultDTO,
+  BudgetTemplateDTO,
+  ErrorResponse,
+  ExpenseCategoryDTO,
+  SaveBudgetTemplateCommand,
+} from "@/types";
+
+interface BudgetTemplatesFormProps {
+  yearMonth: string;
+  onApplied: () => void;
+}
+
+/**
+ * BudgetTemplatesForm component
+ * Lists the user's budget templates and lets them create, edit, delete and apply them to a range of months
+ */
+export function BudgetTemplatesForm({ yearMonth, onApplied }: BudgetTemplatesFormProps) {
+  const [templates, setTemplates] = useState<BudgetTemplateDTO[]>([]);
+  const [categories, setCategories] = useState<ExpenseCategoryDTO[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  // Template form state; editingId is null while creating a new template
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [budgetSet, setBudgetSet] = useState("");
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+
+  // Apply form state
+  const [applyTemplateId, setApplyTemplateId] = useState("");
+  const [fromMonth, setFromMonth] = useState(yearMonth);
+  const [toMonth, setToMonth] = useState(yearMonth);
+
+  const fetchTemplates = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [templatesResponse, categoriesResponse] = await Promise.all([
+        fetch("/api/budget-templates"),
+        fetch("/api/expense-categories"),
+      ]);
+
+      if (templatesResponse.status === 401 || categoriesResponse.status === 401) {
+        window.location.href = "/login";
+        return;
+      }
+
+      if (!templatesResponse.ok || !categoriesResponse.ok) {
+        throw new Error("Failed to load budget templates");
+      }
+
+      const templatesResult = await templatesResponse.json();
+      const categoriesResult = await categoriesResponse.json();
+      setTemplates(templatesResult.data || []);
+      setCategories(categoriesResult.data || []);
+    } catch (err) {
+      console.error("Error loading budget templates:", err);
+      setError("Failed to load budget templates");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const formatAmount = (value: number) =>
+    new Intl.NumberFormat("pl-PL", {
+      style: "currency",
+      currency: "PLN",
+    }).format(value);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setBudgetSet("");
+    setAmounts({});
+  };
+
+  const handleEdit = (template: BudgetTemplateDTO) => {
+    setError(null);
+    setSuccessMessage(null);
+    setEditingId(template.id);
+    setName(template.name);
+    setBudgetSet(template.budget_set.toString());
+    setAmounts(
+      Object.fromEntries(
+        template.categories.map((allocation) => [allocation.category_id, allocation.amount.toString()])
+      )
+    );
+  };
+
+  // Archived categories are only listed while the edited template still allocates to them
+  const visibleCategories = categories.filter((category) => !category.archived_at || amounts[category.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSuccessMessage(null);
+
+    const budget = parseFloat(budgetSet);
+    if (!name.trim() || isNaN(budget) || budget <= 0) {
+      setError("Name and a positive budget amount are required");
+      return;
+    }
+
+    const allocations: SaveBudgetTemplateCommand["categories"] = [];
+    for (const [categoryId, value] of Object.entries(amounts)) {
+      if (!value.trim()) {
+        continue;
+      }
+
+      const amount = parseFloat(value);
+      if (isNaN(amount) || amount <= 0) {
+        setError("Allocations must be positive numbers");
+        return;
+      }
+
+      allocations.push({ category_id: categoryId, amount });
+    }
+
+    if (allocations.reduce((sum, allocation) => sum + allocation.amount, 0) > budget) {
+      setError(`Allocations exceed the budget of ${formatAmount(budget)}`);
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      const command: SaveBudgetTemplateCommand = { name: name.trim(), budget_set: budget, categories: allocations };
+      const response = await fetch(editingId ? `/api/budget-templates/${editingId}` : "/api/budget-templates", {
+        method: editingId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(command),
+      });
+
+      if (response.status === 401) {
+        window.location.href = "/login";
+        return;
+      }
+
+      if (!response.ok) {
+        const errorData = (await response.json()) as ErrorResponse;
+        throw new Error(errorData.message || "Failed to save budget template");
+      }
+
+      resetForm();
+      await fetchTemplates();
+    } catch (err) {
+      console.error("Error saving budget template:", err);
+      setError(err instanceof Error ? err.message : "Failed to save budget template");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (templateId: string) => {
+    setError(null);
+    setSuccessMessage(null);
+
+    try {
+      setIsSubmitting(true);
+      const response = await fetch(`/api/budget-templates/${templateId}`, { method: "DELETE" });
+
+      if (response.status === 401) {
+        window.location.href = "/login";
+        return;
+      }
+
+      if (!response.ok) {
+        const errorData = (await response.json()) as ErrorResponse;
+        throw new Error(errorData.message || "Failed to delete budget template");
+      }
+
+      if (editingId === templateId) {
+        resetForm();
+      }
+      if (applyTemplateId === templateId) {
+        setApplyTemplateId("");
+      }
+      await fetchTemplates();
+    } catch (err) {
+      console.error("Error deleting budget template:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete budget template");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleApply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSuccessMessage(null);
+
+    if (!applyTemplateId) {
+      setError("Choose a template to apply");
+      return;
+    }
+
+    if (!fromMonth || !toMonth || toMonth < fromMonth) {
+      setError("The last month cannot be before the first month");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      const response = await fetch(`/api/budget-templates/${applyTemplateId}/apply`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ from_month: fromMonth, to_month: toMonth }),
+      });
+
+      if (response.status === 401) {
+        window.location.href = "/login";
+        return;
+      }
+
+      if (!response.ok) {
+        const errorData = (await response.json()) as ErrorResponse;
+        throw new Error(errorData.message || "Failed to apply budget template");
+      }
+
+      const result = (await response.json()) as { data: ApplyBudgetTemplateResultDTO };
+      const count = result.data.months.length;
+      setSuccessMessage(`Template applied to ${count} ${count === 1 ? "month" : "months"}`);
+      onApplied();
+    } catch (err) {
+      console.error("Error applying budget template:", err);
+      setError(err instanceof Error ? err.message : "Failed to apply budget template");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <p className="text-sm">{error}</p>
+        </Alert>
+      )}
+
+      {successMessage && (
+        <Alert className="bg-green-50 dark:bg-green-950 border-green-200 dark:border-green-800">
+          <p className="text-sm text-green-800 dark:text-green-200">✓ {successMessage}</p>
+        </Alert>
+      )}
+
+      {/* Template list */}
+      <div className="space-y-2">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading templates...</p>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No templates yet</p>
+        ) : (
+          <ul className="max-h-48 divide-y overflow-y-auto rounded-md border">
+            {templates.map((template) => (
+              <li key={template.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-medium">{template.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatAmount(template.budget_set)} · {template.categories.length}{" "}
+                    {template.categories.length === 1 ? "category" : "categories"}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleEdit(template)}
+                    disabled={isSubmitting}
+                    aria-label={`Edit ${template.name}`}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(template.id)}
+                    disabled={isSubmitting}
+                    aria-label={`Delete ${template.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Apply template */}
+      {templates.length > 0 && (
+        <form onSubmit={handleApply} className="space-y-3 border-t pt-4" noValidate>
+          <h3 className="text-sm font-semibold">Apply to months</h3>
+          <div className="grid gap-3 sm:grid-cols-3">
+            <div className="space-y-1">
+              <Label htmlFor="apply-template">Template</Label>
+              <select
+                id="apply-template"
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                value={applyTemplateId}
+                onChange={(e) => setApplyTemplateId(e.target.value)}
+                disabled={isSubmitting}
+              >
+                <option value="">Choose...</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="apply-from">From</Label>
+              <Input
+                id="apply-from"
+                type="month"
+                value={fromMonth}
+                onChange={(e) => setFromMonth(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="apply-to">To</Label>
+              <Input
+                id="apply-to"
+                type="month"
+                value={toMonth}
+                onChange={(e) => setToMonth(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Overwrites the budget and category allocations of every month in the range
+          </p>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isSubmitting || !applyTemplateId}>
+              Apply Template
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {/* Create / edit template */}
+      <form onSubmit={handleSubmit} className="space-y-3 border-t pt-4" noValidate>
+        <h3 className="text-sm font-semibold">{editingId ? "Edit template" : "New template"}</h3>
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label htmlFor="template-name">Name</Label>
+            <Input
+              id="template-name"
+              value={name}
+              maxLength={100}
+              placeholder="e.g. Regular month"
+              onChange={(e) => setName(e.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="template-budget">Budget (PLN)</Label>
+            <Input
+              id="template-budget"
+              type="number"
+              step="0.01"
+              min="0.01"
+              placeholder="0.00"
+              value={budgetSet}
+              onChange={(e) => setBudgetSet(e.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+        </div>
+
+        {visibleCategories.length > 0 && (
+          <div className="max-h-56 space-y-2 overflow-y-auto pr-1">
+            {visibleCategories.map((category) => (
+              <div key={category.id} className="grid grid-cols-[1fr_9rem] items-center gap-4">
+                <Label htmlFor={`template-allocation-${category.id}`} className="flex items-center gap-2 font-normal">
+                  <span
+                    className="h-2.5 w-2.5 shrink-0 rounded-full bg-muted-foreground/40"
+                    style={category.color ? { backgroundColor: category.color } : undefined}
+                    aria-hidden="true"
+                  />
+                  {category.display_name}
+                  {category.archived_at && <span className="text-muted-foreground">(archived)</span>}
+                </Label>
+                <Input
+                  id={`template-allocation-${category.id}`}
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  placeholder="0.00"
+                  value={amounts[category.id] ?? ""}
+                  onChange={(e) => setAmounts((prev) => ({ ...prev, [category.id]: e.target.value }))}
+                  disabled={isSubmitting}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {editingId && (
+            <Button type="button" variant="outline" onClick={resetForm} disabled={isSubmitting}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Saving..." : editingId ? "Save Template" : "Create Template"}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
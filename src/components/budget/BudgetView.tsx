@@ -1,10 +1,16 @@
-import { useState } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { MonthBudgetSelector } from "./MonthBudgetSelector";
 import { BudgetDetails } from "./BudgetDetails";
 import { BudgetHistoryList } from "./BudgetHistoryList";
 import { SetBudgetForm } from "./SetBudgetForm";
 import { ExpenseList } from "./ExpenseList";
 import { AddExpenseForm } from "./AddExpenseForm";
+import { ImportExpensesForm } from "./ImportExpensesForm";
+import { ManageCategoriesForm } from "./ManageCategoriesForm";
+import { RecurringExpensesForm } from "./RecurringExpensesForm";
+import { CategoryAllocationsForm } from "./CategoryAllocationsForm";
+import { BudgetTemplatesForm } from "./BudgetTemplatesForm";
+import { ExportMenu } from "@/components/ExportMenu";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -32,6 +38,40 @@ export function BudgetView() {
   const [refreshTrigger, setRefreshTrigger] = useState<number>(0);
   const [isBudgetDialogOpen, setIsBudgetDialogOpen] = useState<boolean>(false);
   const [isExpenseDialogOpen, setIsExpenseDialogOpen] = useState<boolean>(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState<boolean>(false);
+  const [isCategoriesDialogOpen, setIsCategoriesDialogOpen] = useState<boolean>(false);
+  const [isRecurringDialogOpen, setIsRecurringDialogOpen] = useState<boolean>(false);
+  const [isAllocationsDialogOpen, setIsAllocationsDialogOpen] = useState<boolean>(false);
+  const [isTemplatesDialogOpen, setIsTemplatesDialogOpen] = useState<boolean>(false);
+
+  // Create the month's missing recurring expenses; refresh only when something was added
+  const materializeRecurringExpenses = useCallback(async (yearMonth: string) => {
+    try {
+      const response = await fetch("/api/recurring-expenses/materialize", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ year_month: yearMonth }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to create recurring expenses");
+      }
+
+      const result = await response.json();
+      if (result.data?.created > 0) {
+        setRefreshTrigger((prev) => prev + 1);
+      }
+    } catch (err) {
+      console.error("Error materializing recurring expenses:", err);
+    }
+  }, []);
+
+  // Fill in recurring expenses whenever a month is opened
+  useEffect(() => {
+    materializeRecurringExpenses(selectedMonth);
+  }, [selectedMonth, materializeRecurringExpenses]);
 
   const handleBudgetSuccess = () => {
     // Increment trigger to refresh components
@@ -47,6 +87,35 @@ export function BudgetView() {
     setIsExpenseDialogOpen(false);
   };
 
+  const handleImportSuccess = () => {
+    // Increment trigger to refresh components
+    setRefreshTrigger((prev) => prev + 1);
+    // Close dialog
+    setIsImportDialogOpen(false);
+  };
+
+  const handleCategoriesChange = () => {
+    // Increment trigger so expense lists pick up renamed, recolored or merged categories
+    setRefreshTrigger((prev) => prev + 1);
+  };
+
+  const handleRecurringChange = () => {
+    // A new or changed definition may apply to the month that's currently open
+    materializeRecurringExpenses(selectedMonth);
+  };
+
+  const handleAllocationsSuccess = () => {
+    // Increment trigger to refresh the category breakdown
+    setRefreshTrigger((prev) => prev + 1);
+    // Close dialog
+    setIsAllocationsDialogOpen(false);
+  };
+
+  const handleTemplateApplied = () => {
+    // Increment trigger to refresh budgets and allocations of the affected months
+    setRefreshTrigger((prev) => prev + 1);
+  };
+
   const handleExpenseDeleted = () => {
     // Increment trigger to refresh budget details
     setRefreshTrigger((prev) => prev + 1);
@@ -59,7 +128,80 @@ export function BudgetView() {
         <div className="flex-1 max-w-sm">
           <MonthBudgetSelector value={selectedMonth} onChange={setSelectedMonth} refreshTrigger={refreshTrigger} />
         </div>
-        <div className="flex gap-2">
+        <div className="flex flex-wrap gap-2">
+          <ExportMenu
+            options={[
+              { label: `Expenses (${selectedMonth})`, params: { scope: "expenses", yearMonth: selectedMonth } },
+              { label: "All budgets", params: { scope: "budgets" } },
+              { label: "All data", params: { scope: "all" } },
+            ]}
+          />
+          <Dialog open={isCategoriesDialogOpen} onOpenChange={setIsCategoriesDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline">Categories</Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-xl">
+              <DialogHeader>
+                <DialogTitle>Expense Categories</DialogTitle>
+                <DialogDescription>Create, rename, recolor, archive or merge your own categories</DialogDescription>
+              </DialogHeader>
+              <ManageCategoriesForm onChange={handleCategoriesChange} />
+            </DialogContent>
+          </Dialog>
+          <Dialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline">Import CSV</Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Import Expenses</DialogTitle>
+                <DialogDescription>
+                  Upload a CSV file, map its columns and review the rows before importing
+                </DialogDescription>
+              </DialogHeader>
+              <ImportExpensesForm onSuccess={handleImportSuccess} />
+            </DialogContent>
+          </Dialog>
+          <Dialog open={isRecurringDialogOpen} onOpenChange={setIsRecurringDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline">Recurring</Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-xl">
+              <DialogHeader>
+                <DialogTitle>Recurring Expenses</DialogTitle>
+                <DialogDescription>
+                  Recurring expenses are added automatically when a month is opened or its budget is saved
+                </DialogDescription>
+              </DialogHeader>
+              <RecurringExpensesForm yearMonth={selectedMonth} onChange={handleRecurringChange} />
+            </DialogContent>
+          </Dialog>
+          <Dialog open={isAllocationsDialogOpen} onOpenChange={setIsAllocationsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline">Allocate</Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-lg">
+              <DialogHeader>
+                <DialogTitle>Category Allocations</DialogTitle>
+                <DialogDescription>Split the budget for {selectedMonth} between expense categories</DialogDescription>
+              </DialogHeader>
+              <CategoryAllocationsForm yearMonth={selectedMonth} onSuccess={handleAllocationsSuccess} />
+            </DialogContent>
+          </Dialog>
+          <Dialog open={isTemplatesDialogOpen} onOpenChange={setIsTemplatesDialogOpen}>
+            <DialogTrigger asChild>
+              <Button variant="outline">Templates</Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-xl">
+              <DialogHeader>
+                <DialogTitle>Budget Templates</DialogTitle>
+                <DialogDescription>
+                  Save a budget with its allocations and apply it to a range of months
+                </DialogDescription>
+              </DialogHeader>
+              <BudgetTemplatesForm yearMonth={selectedMonth} onApplied={handleTemplateApplied} />
+            </DialogContent>
+          </Dialog>
           <Dialog open={isExpenseDialogOpen} onOpenChange={setIsExpenseDialogOpen}>
             <DialogTrigger asChild>
               <Button variant="outline">Add Expense</Button>
@@ -0,0 +1,204 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Sparkline } from "./Sparkline";
+import { CategoryMonthHeatmap } from "./CategoryMonthHeatmap";
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
+import type { BudgetYearMonthSummary, BudgetYearSummaryDTO } from "@/types";
+
+interface BudgetYearOverviewProps {
+  year: string;
+}
+
+const formatAmount = (amount: number) => formatMoney(amount, DEFAULT_CURRENCY);
+
+/**
+ * Format year-month as the month name, e.g. "January"
+ */
+const formatMonthName = (yearMonth: string) => {
+  const [year, month] = yearMonth.split("-");
+  return new Date(parseInt(year), parseInt(month) - 1, 1).toLocaleDateString("en-US", { month: "long" });
+};
+
+/**
+ * BudgetYearOverview component
+ * Shows the twelve months of a year side by side with year totals and a category-by-month heatmap
+ */
+export function BudgetYearOverview({ year }: BudgetYearOverviewProps) {
+  const [summary, setSummary] = useState<BudgetYearSummaryDTO | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSummary = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await fetch(`/api/month-budgets/year-summary?year=${encodeURIComponent(year)}`);
+
+        if (!response.ok) {
+          if (response.status === 401) {
+            window.location.href = "/login";
+            return;
+          }
+          throw new Error("Failed to fetch budget year summary");
+        }
+
+        const { data } = await response.json();
+        setSummary(data);
+      } catch (err) {
+        console.error("Error fetching budget year summary:", err);
+        setError("Failed to load the year overview. Please try again.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSummary();
+  }, [year]);
+
+  const previousYear = String(Number(year) - 1);
+  const nextYear = String(Number(year) + 1);
+
+  return (
+    <div className="space-y-6">
+      <nav className="flex items-center justify-between" aria-label="Year navigation">
+        <a href={`/app/budget/year/${previousYear}`} className="text-sm text-primary hover:underline">
+          ← {previousYear}
+        </a>
+        <a href={`/app/budget/year/${nextYear}`} className="text-sm text-primary hover:underline">
+          {nextYear} →
+        </a>
+      </nav>
+
+      {loading && <YearOverviewSkeleton />}
+
+      {error && !loading && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {summary && !loading && (
+        <>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Budgeted</CardDescription>
+                <CardTitle className="text-2xl">{formatAmount(summary.totals.budgetSet)}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Spent</CardDescription>
+                <CardTitle className="text-2xl">{formatAmount(summary.totals.spent)}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-xs text-muted-foreground">
+                {formatAmount(summary.totals.monthlyAverage)} per month on average
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Balance</CardDescription>
+                <CardTitle
+                  className={`text-2xl ${
+                    summary.totals.balance >= 0 ? "text-green-600 dark:text-green-400" : "text-destructive"
+                  }`}
+                >
+                  {formatAmount(summary.totals.balance)}
+                </CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Months Over Budget</CardDescription>
+                <CardTitle className="text-2xl">{summary.totals.monthsOverBudget}</CardTitle>
+              </CardHeader>
+            </Card>
+          </div>
+
+          <ul className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4 xl:grid-cols-6">
+            {summary.months.map((month) => (
+              <MonthCard key={month.yearMonth} month={month} />
+            ))}
+          </ul>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Spending by Category</CardTitle>
+              <CardDescription>Darker cells mean more was spent on the category that month</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CategoryMonthHeatmap categories={summary.categories} />
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * One month of the year overview
+ */
+function MonthCard({ month }: { month: BudgetYearMonthSummary }) {
+  const isOverspent = month.balance !== null && month.balance < 0;
+
+  return (
+    <li className="rounded-lg border border-border bg-card p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="font-medium text-sm">{formatMonthName(month.yearMonth)}</h3>
+        {month.isClosed && <span className="text-xs text-muted-foreground">Closed</span>}
+      </div>
+
+      <dl className="space-y-1 text-xs">
+        <div className="flex justify-between">
+          <dt className="text-muted-foreground">Budget</dt>
+          <dd>{month.budgetSet === null ? "—" : formatAmount(month.budgetSet)}</dd>
+        </div>
+        <div className="flex justify-between">
+          <dt className="text-muted-foreground">Spent</dt>
+          <dd>{formatAmount(month.spent)}</dd>
+        </div>
+        <div className="flex justify-between">
+          <dt className="text-muted-foreground">Balance</dt>
+          <dd className={isOverspent ? "text-destructive" : "text-green-600 dark:text-green-400"}>
+            {month.balance === null ? "—" : formatAmount(month.balance)}
+          </dd>
+        </div>
+        <div className="flex justify-between gap-2">
+          <dt className="text-muted-foreground">Top</dt>
+          <dd className="truncate">{month.topCategory?.name ?? "—"}</dd>
+        </div>
+      </dl>
+
+      <Sparkline
+        values={month.dailySpending}
+        color={isOverspent ? "#dc2626" : undefined}
+        label={`Daily spending in ${formatMonthName(month.yearMonth)}`}
+      />
+    </li>
+  );
+}
+
+/**
+ * Loading skeleton for the year overview
+ */
+function YearOverviewSkeleton() {
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {[...Array(4)].map((_, i) => (
+          <Skeleton key={i} className="h-24" />
+        ))}
+      </div>
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4 xl:grid-cols-6">
+        {[...Array(12)].map((_, i) => (
+          <Skeleton key={i} className="h-40" />
+        ))}
+      </div>
+    </div>
+  );
+}
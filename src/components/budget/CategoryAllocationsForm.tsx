@@ -0,0 +1,199 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert } from "@/components/ui/alert";
+import type { ExpenseCategoryDTO, ErrorResponse, MonthBudgetCategoriesDTO } from "@/types";
+
+interface CategoryAllocationsFormProps {
+  yearMonth: string;
+  onSuccess: () => void;
+}
+
+/**
+ * CategoryAllocationsForm component
+ * Splits the selected month's budget into per-category allocations
+ */
+export function CategoryAllocationsForm({ yearMonth, onSuccess }: CategoryAllocationsFormProps) {
+  const [categories, setCategories] = useState<ExpenseCategoryDTO[]>([]);
+  const [budgetSet, setBudgetSet] = useState<number | null>(null);
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load categories and the month's current allocations
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const [categoriesResponse, breakdownResponse] = await Promise.all([
+          fetch("/api/expense-categories"),
+          fetch(`/api/month-budgets/${yearMonth}/categories`),
+        ]);
+
+        if (categoriesResponse.status === 401 || breakdownResponse.status === 401) {
+          window.location.href = "/login";
+          return;
+        }
+
+        if (breakdownResponse.status === 404) {
+          setBudgetSet(null);
+          return;
+        }
+
+        if (!categoriesResponse.ok || !breakdownResponse.ok) {
+          throw new Error("Failed to load budget categories");
+        }
+
+        const categoriesResult = await categoriesResponse.json();
+        const breakdownResult = (await breakdownResponse.json()) as { data: MonthBudgetCategoriesDTO };
+
+        const initialAmounts: Record<string, string> = {};
+        breakdownResult.data.categories.forEach((item) => {
+          if (item.category_id && item.allocated !== null) {
+            initialAmounts[item.category_id] = item.allocated.toString();
+          }
+        });
+
+        setCategories(categoriesResult.data || []);
+        setBudgetSet(breakdownResult.data.budget_set);
+        setAmounts(initialAmounts);
+      } catch (err) {
+        console.error("Error loading budget categories:", err);
+        setError("Failed to load budget categories");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [yearMonth]);
+
+  const formatAmount = (value: number) =>
+    new Intl.NumberFormat("pl-PL", {
+      style: "currency",
+      currency: "PLN",
+    }).format(value);
+
+  // Archived categories are only listed while they still hold an allocation
+  const visibleCategories = categories.filter((category) => !category.archived_at || amounts[category.id]);
+
+  const allocatedTotal = Object.values(amounts).reduce((sum, value) => {
+    const amount = parseFloat(value);
+    return isNaN(amount) ? sum : sum + amount;
+  }, 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const allocations: { category_id: string; amount: number }[] = [];
+    for (const [categoryId, value] of Object.entries(amounts)) {
+      if (!value.trim()) {
+        continue;
+      }
+
+      const amount = parseFloat(value);
+      if (isNaN(amount) || amount <= 0) {
+        setError("Allocations must be positive numbers");
+        return;
+      }
+
+      allocations.push({ category_id: categoryId, amount });
+    }
+
+    if (budgetSet !== null && allocatedTotal > budgetSet) {
+      setError(`Allocations exceed the budget of ${formatAmount(budgetSet)}`);
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      const response = await fetch(`/api/month-budgets/${yearMonth}/categories`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ categories: allocations }),
+      });
+
+      if (response.status === 401) {
+        window.location.href = "/login";
+        return;
+      }
+
+      if (!response.ok) {
+        const errorData = (await response.json()) as ErrorResponse;
+        throw new Error(errorData.message || "Failed to save allocations");
+      }
+
+      onSuccess();
+    } catch (err) {
+      console.error("Error saving allocations:", err);
+      setError(err instanceof Error ? err.message : "Failed to save allocations");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading categories...</p>;
+  }
+
+  if (budgetSet === null && !error) {
+    return <p className="text-sm text-muted-foreground">Set a budget for this month before allocating it.</p>;
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4" noValidate>
+      {error && (
+        <Alert variant="destructive">
+          <p className="text-sm">{error}</p>
+        </Alert>
+      )}
+
+      <div className="max-h-80 space-y-2 overflow-y-auto pr-1">
+        {visibleCategories.map((category) => (
+          <div key={category.id} className="grid grid-cols-[1fr_9rem] items-center gap-4">
+            <Label htmlFor={`allocation-${category.id}`} className="flex items-center gap-2 font-normal">
+              <span
+                className="h-2.5 w-2.5 shrink-0 rounded-full bg-muted-foreground/40"
+                style={category.color ? { backgroundColor: category.color } : undefined}
+                aria-hidden="true"
+              />
+              {category.display_name}
+              {category.archived_at && <span className="text-muted-foreground">(archived)</span>}
+            </Label>
+            <Input
+              id={`allocation-${category.id}`}
+              type="number"
+              step="0.01"
+              min="0.01"
+              placeholder="0.00"
+              value={amounts[category.id] ?? ""}
+              onChange={(e) => setAmounts((prev) => ({ ...prev, [category.id]: e.target.value }))}
+              disabled={isSubmitting}
+            />
+          </div>
+        ))}
+      </div>
+
+      {budgetSet !== null && (
+        <div className="flex justify-between border-t pt-4 text-sm">
+          <span className="text-muted-foreground">Allocated</span>
+          <span className={`font-medium tabular-nums ${allocatedTotal > budgetSet ? "text-destructive" : ""}`}>
+            {formatAmount(allocatedTotal)} / {formatAmount(budgetSet)}
+          </span>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? "Saving..." : "Save Allocations"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,56 @@
+import type { CategoryTrend } from "@/types";
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
+
+interface CategoryMonthHeatmapProps {
+  categories: CategoryTrend[];
+}
+
+/**
+ * Grid of categories by month, shaded by how much was spent
+ * The darkest cell is the largest single month of any category
+ */
+export function CategoryMonthHeatmap({ categories }: CategoryMonthHeatmapProps) {
+  if (categories.length === 0) {
+    return <p className="text-sm text-muted-foreground">No expenses this year</p>;
+  }
+
+  const months = categories[0].months.map((month) => month.yearMonth);
+  const max = Math.max(...categories.flatMap((category) => category.months.map((month) => month.total)));
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-muted-foreground">
+            <th className="py-1 pr-2 text-left font-medium">Category</th>
+            {months.map((month) => (
+              <th key={month} className="px-0.5 py-1 font-medium">
+                {new Date(Number(month.slice(0, 4)), Number(month.slice(5, 7)) - 1, 1).toLocaleDateString("en-US", {
+                  month: "short",
+                })}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {categories.map((category) => (
+            <tr key={category.categoryKey}>
+              <td className="py-0.5 pr-2 whitespace-nowrap">{category.categoryName}</td>
+              {category.months.map((month) => (
+                <td key={month.yearMonth} className="px-0.5 py-0.5">
+                  <div
+                    className="h-6 min-w-8 rounded-sm border border-border"
+                    style={{
+                      backgroundColor: `rgba(14, 90, 138, ${month.total > 0 ? 0.15 + (month.total / max) * 0.85 : 0})`,
+                    }}
+                    title={`${category.categoryName}, ${month.yearMonth}: ${formatMoney(month.total, DEFAULT_CURRENCY)}`}
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
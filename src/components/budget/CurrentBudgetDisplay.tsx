@@ -1,8 +1,8 @@
-import type { MonthBudgetDTO } from "@/types";
+import type { MonthBudgetDetailsDTO } from "@/types";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 
 interface CurrentBudgetDisplayProps {
-  budget: MonthBudgetDTO | null;
+  budget: MonthBudgetDetailsDTO | null;
   isLoading: boolean;
 }
 
@@ -50,9 +50,11 @@ export function CurrentBudgetDisplay({ budget, isLoading }: CurrentBudgetDisplay
     );
   }
 
+  // Remaining includes the amount rolled over from the previous month
+  const remainingBalance = budget.current_balance + budget.carried_over;
+
   // Determine balance color
-  const balanceColor =
-    budget.current_balance >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400";
+  const balanceColor = remainingBalance >= 0 ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400";
 
   return (
     <Card>
@@ -65,12 +67,32 @@ export function CurrentBudgetDisplay({ budget, isLoading }: CurrentBudgetDisplay
           <span className="text-sm font-semibold">{formatCurrency(budget.budget_set)}</span>
         </div>
 
+        {budget.rollover_enabled && (
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-muted-foreground">Carried Over:</span>
+            <span
+              className={`text-sm font-semibold ${
+                budget.carried_over < 0 ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400"
+              }`}
+            >
+              {budget.carried_over > 0 ? "+" : ""}
+              {formatCurrency(budget.carried_over)}
+            </span>
+          </div>
+        )}
+
         <div className="flex justify-between items-center">
           <span className="text-sm text-muted-foreground">Remaining Balance:</span>
-          <span className={`text-sm font-semibold ${balanceColor}`}>{formatCurrency(budget.current_balance)}</span>
+          <span className={`text-sm font-semibold ${balanceColor}`}>{formatCurrency(remainingBalance)}</span>
         </div>
 
-        {budget.current_balance < 0 && (
+        {budget.closed_at && budget.closing_balance !== null && (
+          <p className="text-xs text-muted-foreground">
+            Closed - {formatCurrency(budget.closing_balance)} carried to the next month
+          </p>
+        )}
+
+        {remainingBalance < 0 && (
           <div className="mt-2 p-2 bg-destructive/10 rounded-md">
             <p className="text-xs text-destructive">⚠️ You've exceeded your budget</p>
           </div>
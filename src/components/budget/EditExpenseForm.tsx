@@ -4,6 +4,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TagInput } from "./TagInput";
+import { ExpenseSplitEditor, toExpenseSplits } from "./ExpenseSplitEditor";
+import type { SplitLineInput } from "./ExpenseSplitEditor";
+import { splitsMatchAmount } from "@/lib/expense-split";
 import type { ExpenseCategoryDTO, ExpenseListItemDTO } from "@/types";
 
 interface EditExpenseFormProps {
@@ -27,6 +31,11 @@ export function EditExpenseForm({ expense, onSuccess, onCancel }: EditExpenseFor
   const [amount, setAmount] = useState<string>(expense.amount.toString());
   const [expenseDate, setExpenseDate] = useState<string>(expense.expense_date);
   const [description, setDescription] = useState<string>(expense.description);
+  const [tags, setTags] = useState<string[]>(expense.tags);
+  const [isSplit, setIsSplit] = useState(expense.splits.length > 0);
+  const [splitLines, setSplitLines] = useState<SplitLineInput[]>(
+    expense.splits.map((line) => ({ category_id: line.category_id || "", amount: line.amount.toString() }))
+  );
 
   // Load expense categories on mount
   useEffect(() => {
@@ -40,7 +49,15 @@ export function EditExpenseForm({ expense, onSuccess, onCancel }: EditExpenseFor
         }
 
         const result = await response.json();
-        setCategories(result.data || []);
+        // Offer active categories plus the expense's current ones, even if they were archived since
+        setCategories(
+          (result.data || []).filter(
+            (category: ExpenseCategoryDTO) =>
+              !category.archived_at ||
+              category.id === expense.category_id ||
+              expense.splits.some((line) => line.category_id === category.id)
+          )
+        );
       } catch (err) {
         console.error("Error loading categories:", err);
         setError("Failed to load expense categories");
@@ -50,7 +67,18 @@ export function EditExpenseForm({ expense, onSuccess, onCancel }: EditExpenseFor
     };
 
     fetchCategories();
-  }, []);
+  }, [expense.category_id, expense.splits]);
+
+  // Start a split with the chosen category holding the whole amount and an empty second line
+  const toggleSplit = () => {
+    if (!isSplit) {
+      setSplitLines([
+        { category_id: categoryId, amount },
+        { category_id: "", amount: "" },
+      ]);
+    }
+    setIsSplit(!isSplit);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -68,13 +96,24 @@ export function EditExpenseForm({ expense, onSuccess, onCancel }: EditExpenseFor
       return;
     }
 
+    const splits = isSplit ? toExpenseSplits(splitLines) : [];
+    if (splits.some((line) => isNaN(line.amount) || line.amount <= 0)) {
+      setError("Each split line needs a positive amount");
+      return;
+    }
+    if (isSplit && !splitsMatchAmount(splits, amountNum)) {
+      setError("Split amounts must add up to the expense amount");
+      return;
+    }
+
     try {
       setIsSubmitting(true);
 
       // Build update payload with only changed fields
       const updates: Record<string, unknown> = {};
 
-      if (categoryId !== (expense.category_id || "")) {
+      // A split expense has no category of its own; the database clears it when splitting
+      if (!isSplit && categoryId !== (expense.category_id || "")) {
         // If categoryId is empty string, we want to clear it (set to null)
         // Otherwise, send the category ID
         updates.category_id = categoryId || null;
@@ -88,6 +127,14 @@ export function EditExpenseForm({ expense, onSuccess, onCancel }: EditExpenseFor
       if (description.trim() !== expense.description) {
         updates.description = description.trim();
       }
+      // Lines are replaced as a whole; [] turns a split expense back into a single one
+      if (JSON.stringify(splits) !== JSON.stringify(expense.splits)) {
+        updates.splits = splits;
+      }
+      if ([...tags].sort().join(",") !== [...expense.tags].sort().join(",")) {
+        // Tags are replaced as a whole
+        updates.tags = tags;
+      }
 
       // If nothing changed, just close the form
       if (Object.keys(updates).length === 0) {
@@ -164,24 +211,52 @@ export function EditExpenseForm({ expense, onSuccess, onCancel }: EditExpenseFor
       </div>
 
       <div className="space-y-2">
-        <Label htmlFor="edit-category">Category</Label>
-        <Select
-          value={categoryId || "none"}
-          onValueChange={(value) => setCategoryId(value === "none" ? "" : value)}
-          disabled={isLoadingCategories || isSubmitting}
-        >
-          <SelectTrigger id="edit-category">
-            <SelectValue placeholder="Select a category (optional)" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="none">None</SelectItem>
-            {categories.map((category) => (
-              <SelectItem key={category.id} value={category.id}>
-                {category.display_name}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="edit-category">{isSplit ? "Split across categories" : "Category"}</Label>
+          <Button
+            type="button"
+            variant="link"
+            size="sm"
+            className="h-auto p-0"
+            onClick={toggleSplit}
+            disabled={isLoadingCategories || isSubmitting}
+          >
+            {isSplit ? "Use a single category" : "Split across categories"}
+          </Button>
+        </div>
+        {isSplit ? (
+          <ExpenseSplitEditor
+            categories={categories}
+            amount={parseFloat(amount)}
+            value={splitLines}
+            onChange={setSplitLines}
+            disabled={isSubmitting}
+          />
+        ) : (
+          <Select
+            value={categoryId || "none"}
+            onValueChange={(value) => setCategoryId(value === "none" ? "" : value)}
+            disabled={isLoadingCategories || isSubmitting}
+          >
+            <SelectTrigger id="edit-category">
+              <SelectValue placeholder="Select a category (optional)" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              {categories.map((category) => (
+                <SelectItem key={category.id} value={category.id}>
+                  {category.display_name}
+                  {category.archived_at ? " (archived)" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="edit-tags">Tags</Label>
+        <TagInput id="edit-tags" value={tags} onChange={setTags} disabled={isSubmitting} />
       </div>
 
       <div className="flex justify-end gap-2">
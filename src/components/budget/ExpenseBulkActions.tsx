@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { BulkExpensesResultDTO, ExpenseCategoryDTO } from "@/types";
+
+interface ExpenseBulkActionsProps {
+  selectedIds: string[];
+  /** Categories that can be assigned (active ones) */
+  categories: ExpenseCategoryDTO[];
+  onComplete: (result: BulkExpensesResultDTO, action: "update" | "delete") => void;
+  onClearSelection: () => void;
+}
+
+/** Select value for making expenses uncategorized (the empty value means "nothing picked") */
+const UNCATEGORIZED = "none";
+
+/**
+ * ExpenseBulkActions component
+ * Toolbar for the expenses selected in ExpenseList: recategorize, move to another date or delete them
+ */
+export function ExpenseBulkActions({ selectedIds, categories, onComplete, onClearSelection }: ExpenseBulkActionsProps) {
+  const [categoryId, setCategoryId] = useState("");
+  const [expenseDate, setExpenseDate] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  const count = selectedIds.length;
+
+  const submit = async (method: "PATCH" | "DELETE", changes: Record<string, unknown> = {}) => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const response = await fetch("/api/expenses/bulk", {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ids: selectedIds, ...changes }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to update expenses");
+      }
+
+      const { data } = await response.json();
+      setCategoryId("");
+      setExpenseDate("");
+      setIsConfirmingDelete(false);
+      onComplete(data, method === "DELETE" ? "delete" : "update");
+    } catch (err) {
+      console.error("Error in bulk expense action:", err);
+      setError(err instanceof Error ? err.message : "Failed to update expenses");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border bg-muted/40 p-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">
+          {count} {count === 1 ? "expense" : "expenses"} selected
+        </span>
+        <Button type="button" variant="ghost" size="sm" onClick={onClearSelection} disabled={isSubmitting}>
+          Clear selection
+        </Button>
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        <div className="flex gap-2">
+          <select
+            value={categoryId}
+            onChange={(e) => setCategoryId(e.target.value)}
+            disabled={isSubmitting}
+            aria-label="New category"
+            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <option value="">Choose a category…</option>
+            <option value={UNCATEGORIZED}>Uncategorized</option>
+            {categories.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.display_name}
+              </option>
+            ))}
+          </select>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => submit("PATCH", { category_id: categoryId === UNCATEGORIZED ? null : categoryId })}
+            disabled={isSubmitting || !categoryId}
+          >
+            Recategorize
+          </Button>
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            type="date"
+            value={expenseDate}
+            onChange={(e) => setExpenseDate(e.target.value)}
+            disabled={isSubmitting}
+            aria-label="New date"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => submit("PATCH", { expense_date: expenseDate })}
+            disabled={isSubmitting || !expenseDate}
+          >
+            Move
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          variant="destructive"
+          size="sm"
+          onClick={() => {
+            setError(null);
+            setIsConfirmingDelete(true);
+          }}
+          disabled={isSubmitting}
+        >
+          Delete selected
+        </Button>
+      </div>
+
+      {error && !isConfirmingDelete && (
+        <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>
+      )}
+
+      <AlertDialog open={isConfirmingDelete} onOpenChange={setIsConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Expenses</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete {count} {count === 1 ? "expense" : "expenses"}?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {error && <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>}
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSubmitting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                // Keep the dialog open until the request finishes
+                e.preventDefault();
+                submit("DELETE");
+              }}
+              disabled={isSubmitting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isSubmitting ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
-import { useState, useEffect } from "react";
-import { Trash2, Pencil } from "lucide-react";
+import { useState, useEffect, useCallback } from "react";
+import { Trash2, Pencil, Repeat } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import {
@@ -14,7 +14,11 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { EditExpenseForm } from "./EditExpenseForm";
-import type { ExpenseListItemDTO, ExpenseCategoryDTO } from "@/types";
+import { ExpenseBulkActions } from "./ExpenseBulkActions";
+import { UndoToast } from "@/components/UndoToast";
+import type { UndoableDeletion } from "@/components/UndoToast";
+import { TRASH_RETENTION_DAYS } from "@/types";
+import type { BulkExpensesResultDTO, ExpenseListItemDTO, ExpenseCategoryDTO } from "@/types";
 
 interface ExpenseListProps {
   yearMonth: string;
@@ -24,7 +28,8 @@ interface ExpenseListProps {
 
 /**
  * ExpenseList component
- * Displays a list of expenses for the selected month with delete functionality
+ * Displays a list of expenses for the selected month with delete functionality.
+ * Clicking a tag narrows the list to expenses with that tag; selected expenses can be changed together.
  */
 export function ExpenseList({ yearMonth, refreshTrigger, onExpenseDeleted }: ExpenseListProps) {
   const [expenses, setExpenses] = useState<ExpenseListItemDTO[]>([]);
@@ -35,8 +40,12 @@ export function ExpenseList({ yearMonth, refreshTrigger, onExpenseDeleted }: Exp
   const [isDeleting, setIsDeleting] = useState(false);
   const [deleteError, setDeleteError] = useState<string | null>(null);
   const [editExpense, setEditExpense] = useState<ExpenseListItemDTO | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkNotice, setBulkNotice] = useState<string | null>(null);
+  const [undoDeletion, setUndoDeletion] = useState<UndoableDeletion | null>(null);
 
-  // Load expense categories
+  // Load expense categories (reloaded on refresh so renamed or recolored categories show up)
   useEffect(() => {
     const fetchCategories = async () => {
       try {
@@ -58,7 +67,7 @@ export function ExpenseList({ yearMonth, refreshTrigger, onExpenseDeleted }: Exp
     };
 
     fetchCategories();
-  }, []);
+  }, [refreshTrigger]);
 
   // Load expenses for the selected month
   useEffect(() => {
@@ -73,6 +82,9 @@ export function ExpenseList({ yearMonth, refreshTrigger, onExpenseDeleted }: Exp
           sort: "expense_date",
           order: "desc",
         });
+        if (tagFilter) {
+          params.set("tags", tagFilter);
+        }
 
         const response = await fetch(`/api/expenses?${params}`);
 
@@ -82,6 +94,7 @@ export function ExpenseList({ yearMonth, refreshTrigger, onExpenseDeleted }: Exp
 
         const result = await response.json();
         setExpenses(result.data || []);
+        setSelectedIds(new Set());
       } catch (err) {
         console.error("Error loading expenses:", err);
         setError("Failed to load expenses");
@@ -91,7 +104,7 @@ export function ExpenseList({ yearMonth, refreshTrigger, onExpenseDeleted }: Exp
     };
 
     fetchExpenses();
-  }, [yearMonth, refreshTrigger]);
+  }, [yearMonth, refreshTrigger, tagFilter]);
 
   const handleDeleteClick = (expenseId: string) => {
     // Clear any previous delete errors when opening dialog
@@ -132,9 +145,10 @@ export function ExpenseList({ yearMonth, refreshTrigger, onExpenseDeleted }: Exp
       const deletedId = deleteExpenseId;
       setExpenses((prev) => prev.filter((exp) => exp.id !== deletedId));
 
-      // Close the dialog
+      // Close the dialog and offer to undo the delete
       setDeleteExpenseId(null);
       setDeleteError(null);
+      setUndoDeletion({ message: "Expense deleted", restoreUrl: `/api/expenses/${deletedId}/restore` });
 
       // Notify parent component to refresh budget details
       // This will also trigger a re-fetch of expenses to ensure consistency
@@ -150,6 +164,51 @@ export function ExpenseList({ yearMonth, refreshTrigger, onExpenseDeleted }: Exp
     }
   };
 
+  const toggleSelected = (expenseId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(expenseId)) {
+        next.delete(expenseId);
+      } else {
+        next.add(expenseId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllSelected = () => {
+    setSelectedIds(selectedIds.size === expenses.length ? new Set() : new Set(expenses.map((expense) => expense.id)));
+  };
+
+  const handleBulkComplete = (result: BulkExpensesResultDTO, action: "update" | "delete") => {
+    if (action === "delete") {
+      const deletedIds = new Set(result.results.filter((r) => r.status === "deleted").map((r) => r.id));
+      setExpenses((prev) => prev.filter((exp) => !deletedIds.has(exp.id)));
+    }
+    setSelectedIds(new Set());
+
+    // Expenses removed elsewhere (e.g. in another tab) are reported instead of failing the whole change
+    setBulkNotice(
+      result.not_found > 0
+        ? `${result.not_found} of ${result.total} expenses could not be found and were skipped.`
+        : null
+    );
+
+    // Notify parent component to refresh budget details and expenses list
+    if (onExpenseDeleted) {
+      onExpenseDeleted();
+    }
+  };
+
+  const handleUndoClose = useCallback(() => setUndoDeletion(null), []);
+
+  const handleUndoRestored = () => {
+    // Notify parent component to refresh budget details and expenses list
+    if (onExpenseDeleted) {
+      onExpenseDeleted();
+    }
+  };
+
   const handleEditClick = (expense: ExpenseListItemDTO) => {
     console.log("Edit clicked for expense:", expense.id);
     console.log("Setting editExpense state to:", expense);
@@ -219,12 +278,43 @@ export function ExpenseList({ yearMonth, refreshTrigger, onExpenseDeleted }: Exp
     <>
       <Card>
         <CardHeader>
-          <CardTitle>Expenses</CardTitle>
+          <div className="flex items-center justify-between">
+            <CardTitle>Expenses</CardTitle>
+            {expenses.length > 0 && (
+              <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 accent-primary"
+                  checked={selectedIds.size === expenses.length}
+                  onChange={toggleAllSelected}
+                />
+                Select all
+              </label>
+            )}
+          </div>
           <CardDescription>
             {expenses.length} {expenses.length === 1 ? "expense" : "expenses"} this month
+            {tagFilter && (
+              <>
+                {" "}
+                tagged #{tagFilter} ·{" "}
+                <button type="button" onClick={() => setTagFilter(null)} className="text-primary hover:underline">
+                  Show all
+                </button>
+              </>
+            )}
           </CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          {bulkNotice && <div className="rounded-md bg-muted p-3 text-sm text-muted-foreground">{bulkNotice}</div>}
+          {selectedIds.size > 0 && (
+            <ExpenseBulkActions
+              selectedIds={[...selectedIds]}
+              categories={[...categories.values()].filter((category) => !category.archived_at)}
+              onComplete={handleBulkComplete}
+              onClearSelection={() => setSelectedIds(new Set())}
+            />
+          )}
           {expenses.length === 0 ? (
             <p className="text-sm text-muted-foreground">No expenses recorded for this month.</p>
           ) : (
@@ -234,13 +324,72 @@ export function ExpenseList({ yearMonth, refreshTrigger, onExpenseDeleted }: Exp
                   key={expense.id}
                   className="flex items-center justify-between rounded-lg border p-3 hover:bg-accent/50 transition-colors"
                 >
+                  <input
+                    type="checkbox"
+                    className="mr-3 h-4 w-4 shrink-0 accent-primary"
+                    checked={selectedIds.has(expense.id)}
+                    onChange={() => toggleSelected(expense.id)}
+                    aria-label={`Select ${expense.description}`}
+                  />
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2">
                       <span className="font-medium text-base">{expense.description}</span>
+                      {expense.recurring_expense_id && (
+                        <Repeat className="h-3.5 w-3.5 text-muted-foreground" aria-label="Recurring expense" />
+                      )}
                       <span className="text-sm text-muted-foreground">{formatDate(expense.expense_date)}</span>
                     </div>
                     {expense.category_id && (
-                      <p className="text-sm text-muted-foreground mt-1">{getCategoryName(expense.category_id)}</p>
+                      <p className="flex items-center gap-1.5 text-sm text-muted-foreground mt-1">
+                        {categories.get(expense.category_id)?.color && (
+                          <span
+                            className="inline-block h-2.5 w-2.5 rounded-full"
+                            style={{ backgroundColor: categories.get(expense.category_id)?.color ?? undefined }}
+                            aria-hidden="true"
+                          />
+                        )}
+                        {getCategoryName(expense.category_id)}
+                      </p>
+                    )}
+                    {expense.splits.length > 0 && (
+                      <ul
+                        className="flex flex-wrap gap-x-3 gap-y-1 text-sm text-muted-foreground mt-1"
+                        aria-label="Split"
+                      >
+                        {expense.splits.map((line) => (
+                          <li key={line.category_id ?? "uncategorized"} className="flex items-center gap-1.5">
+                            {line.category_id && categories.get(line.category_id)?.color && (
+                              <span
+                                className="inline-block h-2.5 w-2.5 rounded-full"
+                                style={{ backgroundColor: categories.get(line.category_id)?.color ?? undefined }}
+                                aria-hidden="true"
+                              />
+                            )}
+                            {getCategoryName(line.category_id) || "Uncategorized"} {formatAmount(line.amount)}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {expense.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1.5 mt-1">
+                        {expense.tags.map((tag) => (
+                          <button
+                            key={tag}
+                            type="button"
+                            onClick={() => setTagFilter(tag)}
+                            className="rounded-full bg-secondary px-2 py-0.5 text-xs font-medium text-secondary-foreground hover:bg-secondary/80"
+                            aria-label={`Show expenses tagged ${tag}`}
+                          >
+                            #{tag}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {expense.added_by && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Added by{" "}
+                        {expense.added_by.is_current_user ? "you" : (expense.added_by.email ?? "a former member")}
+                      </p>
                     )}
                   </div>
                   <div className="flex items-center gap-3 ml-4">
@@ -305,7 +454,8 @@ export function ExpenseList({ yearMonth, refreshTrigger, onExpenseDeleted }: Exp
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Expense</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this expense? This action cannot be undone.
+              Are you sure you want to delete this expense? You can restore it from the trash for {TRASH_RETENTION_DAYS}{" "}
+              days.
             </AlertDialogDescription>
           </AlertDialogHeader>
           {deleteError && (
@@ -323,6 +473,8 @@ export function ExpenseList({ yearMonth, refreshTrigger, onExpenseDeleted }: Exp
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {undoDeletion && <UndoToast deletion={undoDeletion} onRestored={handleUndoRestored} onClose={handleUndoClose} />}
     </>
   );
 }
@@ -0,0 +1,111 @@
+import { Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
+import { splitTotal } from "@/lib/expense-split";
+import { MAX_EXPENSE_SPLITS } from "@/types";
+import type { ExpenseCategoryDTO, ExpenseSplitDTO } from "@/types";
+
+/**
+ * One line of the split editor, with the amount as typed
+ */
+export interface SplitLineInput {
+  category_id: string;
+  amount: string;
+}
+
+interface ExpenseSplitEditorProps {
+  categories: ExpenseCategoryDTO[];
+  /** The expense amount the lines must add up to (NaN while not entered) */
+  amount: number;
+  value: SplitLineInput[];
+  onChange: (lines: SplitLineInput[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Converts editor lines to split lines for the API ("" category means uncategorized)
+ */
+export const toExpenseSplits = (lines: SplitLineInput[]): ExpenseSplitDTO[] =>
+  lines.map((line) => ({ category_id: line.category_id || null, amount: parseFloat(line.amount) }));
+
+/**
+ * ExpenseSplitEditor component
+ * Category lines of a split expense with the amount still left to assign
+ */
+export function ExpenseSplitEditor({ categories, amount, value, onChange, disabled }: ExpenseSplitEditorProps) {
+  const assigned = splitTotal(value.map((line) => ({ amount: parseFloat(line.amount) || 0 })));
+  const remaining = isNaN(amount) ? null : Math.round((amount - assigned) * 100) / 100;
+
+  const updateLine = (index: number, changes: Partial<SplitLineInput>) => {
+    onChange(value.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((line, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <select
+            value={line.category_id}
+            onChange={(e) => updateLine(index, { category_id: e.target.value })}
+            disabled={disabled}
+            aria-label={`Category of line ${index + 1}`}
+            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <option value="">Uncategorized</option>
+            {categories.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.display_name}
+              </option>
+            ))}
+          </select>
+          <Input
+            type="number"
+            step="0.01"
+            min="0.01"
+            placeholder="0.00"
+            value={line.amount}
+            onChange={(e) => updateLine(index, { amount: e.target.value })}
+            disabled={disabled}
+            aria-label={`Amount of line ${index + 1}`}
+            className="w-32 shrink-0"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            disabled={disabled || value.length <= 2}
+            className="h-8 w-8 shrink-0 text-destructive hover:text-destructive hover:bg-destructive/10"
+          >
+            <Trash2 className="h-4 w-4" />
+            <span className="sr-only">Remove line {index + 1}</span>
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            onChange([...value, { category_id: "", amount: remaining && remaining > 0 ? String(remaining) : "" }])
+          }
+          disabled={disabled || value.length >= MAX_EXPENSE_SPLITS}
+        >
+          Add line
+        </Button>
+        {remaining !== null && (
+          <span className={`text-sm ${remaining === 0 ? "text-muted-foreground" : "text-destructive"}`}>
+            {remaining === 0
+              ? "Fully assigned"
+              : remaining > 0
+                ? `${formatMoney(remaining, DEFAULT_CURRENCY)} left to assign`
+                : `${formatMoney(-remaining, DEFAULT_CURRENCY)} over the amount`}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert } from "@/components/ui/alert";
+import { parseCsv } from "@/lib/csv";
+import {
+  buildExpenseImportRows,
+  guessExpenseImportMapping,
+  type ExpenseImportField,
+  type ExpenseImportMapping,
+} from "@/lib/expense-import";
+import type { ExpenseCategoryDTO, ImportExpensesResultDTO, ErrorResponse } from "@/types";
+
+interface ImportExpensesFormProps {
+  onSuccess: (result: ImportExpensesResultDTO) => void;
+}
+
+type ImportStep = "upload" | "map" | "preview";
+
+const FIELD_LABELS: Record<ExpenseImportField, string> = {
+  description: "Description *",
+  amount: "Amount *",
+  expense_date: "Date *",
+  category_id: "Category",
+};
+
+const EMPTY_MAPPING: ExpenseImportMapping = {
+  amount: null,
+  expense_date: null,
+  description: null,
+  category_id: null,
+};
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50";
+
+/**
+ * ImportExpensesForm component
+ * Multi-step form for importing expenses from a CSV file:
+ * upload -> column mapping -> dry-run preview -> import
+ */
+export function ImportExpensesForm({ onSuccess }: ImportExpensesFormProps) {
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [categories, setCategories] = useState<ExpenseCategoryDTO[]>([]);
+  const [hasHeaderRow, setHasHeaderRow] = useState<boolean>(true);
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ExpenseImportMapping>(EMPTY_MAPPING);
+  const [preview, setPreview] = useState<ImportExpensesResultDTO | null>(null);
+  const [skippedCredits, setSkippedCredits] = useState<number[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load expense categories on mount (used to resolve category names)
+  useEffect(() => {
+    const fetchCategories = async () => {
+      try {
+        const response = await fetch("/api/expense-categories");
+
+        if (!response.ok) {
+          throw new Error("Failed to load expense categories");
+        }
+
+        const result = await response.json();
+        setCategories((result.data || []).filter((category: ExpenseCategoryDTO) => !category.archived_at));
+      } catch (err) {
+        console.error("Error loading categories:", err);
+      }
+    };
+
+    fetchCategories();
+  }, []);
+
+  const header = hasHeaderRow ? (csvRows[0] ?? []) : [];
+  const dataRows = hasHeaderRow ? csvRows.slice(1) : csvRows;
+  // Position of each submitted row in the file, so the preview numbers skip the credits
+  const submittedRowPositions = dataRows
+    .map((_, index) => index + 1)
+    .filter((position) => !skippedCredits.includes(position));
+  const columnCount = csvRows.reduce((max, row) => Math.max(max, row.length), 0);
+  const columnOptions = Array.from({ length: columnCount }, (_, index) => ({
+    value: index,
+    label: header[index]?.trim() || `Column ${index + 1}`,
+  }));
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    setError(null);
+    const file = e.target.files?.[0];
+
+    if (!file) {
+      return;
+    }
+
+    try {
+      const text = await file.text();
+      const rows = parseCsv(text);
+
+      if (rows.length === 0) {
+        setError("The selected file is empty");
+        return;
+      }
+
+      setCsvRows(rows);
+      setMapping(hasHeaderRow ? guessExpenseImportMapping(rows[0]) : EMPTY_MAPPING);
+      setStep("map");
+    } catch (err) {
+      console.error("Error reading CSV file:", err);
+      setError("Unable to read the selected file");
+    }
+  };
+
+  const handleMappingChange = (field: ExpenseImportField, value: string) => {
+    setMapping((prev) => ({ ...prev, [field]: value === "" ? null : Number(value) }));
+  };
+
+  const submitImport = async (dryRun: boolean) => {
+    setError(null);
+
+    if (mapping.amount === null || mapping.expense_date === null || mapping.description === null) {
+      setError("Please map the description, amount and date columns");
+      return;
+    }
+
+    const { rows, skippedCredits: credits } = buildExpenseImportRows(dataRows, mapping, categories);
+
+    if (rows.length === 0) {
+      setError("The file doesn't contain any expense rows");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      const response = await fetch("/api/expenses/import", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          rows,
+          dry_run: dryRun,
+        }),
+      });
+
+      if (response.status === 401) {
+        window.location.href = "/login";
+        return;
+      }
+
+      if (!response.ok) {
+        const errorData = (await response.json()) as ErrorResponse;
+        throw new Error(errorData.message || "Failed to import expenses");
+      }
+
+      const result = (await response.json()) as { data: ImportExpensesResultDTO };
+
+      if (dryRun) {
+        setPreview(result.data);
+        setSkippedCredits(credits);
+        setStep("preview");
+        return;
+      }
+
+      onSuccess(result.data);
+    } catch (err) {
+      console.error("Error importing expenses:", err);
+      setError(err instanceof Error ? err.message : "Failed to import expenses");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const formatErrors = (errors: Record<string, string[]>) =>
+    Object.entries(errors)
+      .map(([field, messages]) => `${field}: ${messages.join(", ")}`)
+      .join("; ");
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <p className="text-sm">{error}</p>
+        </Alert>
+      )}
+
+      {step === "upload" && (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="import-file">CSV file</Label>
+            <Input id="import-file" type="file" accept=".csv,text/csv" onChange={handleFileChange} />
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={hasHeaderRow} onChange={(e) => setHasHeaderRow(e.target.checked)} />
+            First row contains column names
+          </label>
+        </div>
+      )}
+
+      {step === "map" && (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {dataRows.length} {dataRows.length === 1 ? "row" : "rows"} found. Choose which column holds each field.
+          </p>
+
+          {(Object.keys(FIELD_LABELS) as ExpenseImportField[]).map((field) => (
+            <div key={field} className="space-y-2">
+              <Label htmlFor={`import-map-${field}`}>{FIELD_LABELS[field]}</Label>
+              <select
+                id={`import-map-${field}`}
+                value={mapping[field] ?? ""}
+                onChange={(e) => handleMappingChange(field, e.target.value)}
+                disabled={isSubmitting}
+                className={selectClassName}
+              >
+                <option value="">Not mapped</option>
+                {columnOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setStep("upload")} disabled={isSubmitting}>
+              Back
+            </Button>
+            <Button type="button" onClick={() => submitImport(true)} disabled={isSubmitting}>
+              {isSubmitting ? "Checking..." : "Preview"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {step === "preview" && preview && (
+        <div className="space-y-4">
+          <p className="text-sm">
+            <span className="font-medium text-green-600 dark:text-green-400">{preview.valid} valid</span>
+            {" · "}
+            <span className={preview.invalid > 0 ? "font-medium text-destructive" : "text-muted-foreground"}>
+              {preview.invalid} invalid
+            </span>
+            {preview.months.length > 0 && (
+              <span className="text-muted-foreground"> · months: {preview.months.join(", ")}</span>
+            )}
+          </p>
+
+          {skippedCredits.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Skipped {skippedCredits.length} {skippedCredits.length === 1 ? "credit" : "credits"} (positive amounts in
+              a file where expenses are negative): {skippedCredits.length === 1 ? "row" : "rows"}{" "}
+              {skippedCredits.join(", ")}
+            </p>
+          )}
+
+          <div className="max-h-64 overflow-y-auto rounded-md border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50 text-left">
+                <tr>
+                  <th className="px-2 py-1 font-medium">#</th>
+                  <th className="px-2 py-1 font-medium">Status</th>
+                  <th className="px-2 py-1 font-medium">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.map((row) => (
+                  <tr key={row.row} className="border-t">
+                    <td className="px-2 py-1 tabular-nums">{submittedRowPositions[row.row - 1] ?? row.row}</td>
+                    <td
+                      className={`px-2 py-1 ${row.valid ? "text-green-600 dark:text-green-400" : "text-destructive"}`}
+                    >
+                      {row.valid ? "OK" : "Error"}
+                    </td>
+                    <td className="px-2 py-1 break-words">
+                      {row.valid && row.data
+                        ? `${row.data.expense_date} · ${row.data.description} · ${row.data.amount}`
+                        : formatErrors(row.errors)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setStep("map")} disabled={isSubmitting}>
+              Back
+            </Button>
+            <Button type="button" onClick={() => submitImport(false)} disabled={isSubmitting || preview.valid === 0}>
+              {isSubmitting
+                ? "Importing..."
+                : `Import ${preview.valid} ${preview.valid === 1 ? "expense" : "expenses"}`}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
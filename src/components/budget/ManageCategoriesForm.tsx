@@ -0,0 +1,353 @@
+import { useState, useEffect, useCallback } from "react";
+import { Archive, ArchiveRestore, Check, GitMerge, Pencil, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert } from "@/components/ui/alert";
+import type { ExpenseCategoryDTO, ErrorResponse, MergeExpenseCategoriesResultDTO } from "@/types";
+
+interface ManageCategoriesFormProps {
+  onChange: () => void;
+}
+
+const DEFAULT_COLOR = "#64748b";
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50";
+
+/**
+ * ManageCategoriesForm component
+ * Lists default and user-defined expense categories and lets the user
+ * create, rename, recolor, archive/restore and merge their own categories
+ */
+export function ManageCategoriesForm({ onChange }: ManageCategoriesFormProps) {
+  const [categories, setCategories] = useState<ExpenseCategoryDTO[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // New category form
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState(DEFAULT_COLOR);
+
+  // Inline rename / merge state
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+
+  const fetchCategories = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch("/api/expense-categories");
+
+      if (response.status === 401) {
+        window.location.href = "/login";
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error("Failed to load expense categories");
+      }
+
+      const result = await response.json();
+      setCategories(result.data || []);
+    } catch (err) {
+      console.error("Error loading categories:", err);
+      setError("Failed to load expense categories");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCategories();
+  }, [fetchCategories]);
+
+  /**
+   * Sends a request to the categories API and refreshes the list on success.
+   * Returns the parsed response body, or null when the request failed.
+   */
+  const sendRequest = async <T,>(url: string, method: string, body: unknown): Promise<T | null> => {
+    setError(null);
+    setMessage(null);
+
+    try {
+      setIsSubmitting(true);
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (response.status === 401) {
+        window.location.href = "/login";
+        return null;
+      }
+
+      if (!response.ok) {
+        const errorData = (await response.json()) as ErrorResponse;
+        throw new Error(errorData.message || "Failed to save category");
+      }
+
+      const result = (await response.json()) as { data: T };
+      await fetchCategories();
+      onChange();
+      return result.data;
+    } catch (err) {
+      console.error("Error saving category:", err);
+      setError(err instanceof Error ? err.message : "Failed to save category");
+      return null;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!newName.trim()) {
+      setError("Please enter a category name");
+      return;
+    }
+
+    const created = await sendRequest<ExpenseCategoryDTO>("/api/expense-categories", "POST", {
+      name: newName.trim(),
+      color: newColor,
+    });
+
+    if (created) {
+      setNewName("");
+      setNewColor(DEFAULT_COLOR);
+    }
+  };
+
+  const handleRename = async (categoryId: string) => {
+    if (!editingName.trim()) {
+      setError("Please enter a category name");
+      return;
+    }
+
+    const updated = await sendRequest<ExpenseCategoryDTO>(`/api/expense-categories/${categoryId}`, "PATCH", {
+      name: editingName.trim(),
+    });
+
+    if (updated) {
+      setEditingId(null);
+    }
+  };
+
+  const handleMerge = async (categoryId: string) => {
+    if (!mergeTargetId) {
+      setError("Please choose the category to merge into");
+      return;
+    }
+
+    const result = await sendRequest<MergeExpenseCategoriesResultDTO>(
+      `/api/expense-categories/${categoryId}/merge`,
+      "POST",
+      { target_category_id: mergeTargetId }
+    );
+
+    if (result) {
+      setMergingId(null);
+      setMergeTargetId("");
+      setMessage(`Moved ${result.moved_expenses} ${result.moved_expenses === 1 ? "expense" : "expenses"}`);
+    }
+  };
+
+  const ownCategories = categories.filter((category) => category.user_id !== null);
+  const defaultCategories = categories.filter((category) => category.user_id === null);
+  const activeCategories = categories.filter((category) => !category.archived_at);
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <p className="text-sm">{error}</p>
+        </Alert>
+      )}
+      {message && <p className="text-sm text-muted-foreground">{message}</p>}
+
+      <form onSubmit={handleCreate} className="flex items-end gap-2" noValidate>
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="new-category-name">New category</Label>
+          <Input
+            id="new-category-name"
+            placeholder="e.g. Pets"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            disabled={isSubmitting}
+            maxLength={100}
+          />
+        </div>
+        <Input
+          type="color"
+          aria-label="New category color"
+          value={newColor}
+          onChange={(e) => setNewColor(e.target.value)}
+          disabled={isSubmitting}
+          className="h-10 w-12 p-1"
+        />
+        <Button type="submit" disabled={isSubmitting}>
+          Add
+        </Button>
+      </form>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Your categories</h3>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading categories...</p>
+        ) : ownCategories.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You haven&apos;t created any categories yet.</p>
+        ) : (
+          <ul className="max-h-72 space-y-2 overflow-y-auto">
+            {ownCategories.map((category) => (
+              <li key={category.id} className="space-y-2 rounded-md border p-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="color"
+                    aria-label={`Color of ${category.display_name}`}
+                    key={category.color ?? DEFAULT_COLOR}
+                    defaultValue={category.color ?? DEFAULT_COLOR}
+                    onBlur={(e) => {
+                      // Save once the picker is closed instead of on every intermediate color
+                      if (e.target.value !== (category.color ?? DEFAULT_COLOR)) {
+                        sendRequest(`/api/expense-categories/${category.id}`, "PATCH", { color: e.target.value });
+                      }
+                    }}
+                    disabled={isSubmitting}
+                    className="h-8 w-10 p-1"
+                  />
+
+                  {editingId === category.id ? (
+                    <>
+                      <Input
+                        aria-label="Category name"
+                        value={editingName}
+                        onChange={(e) => setEditingName(e.target.value)}
+                        disabled={isSubmitting}
+                        maxLength={100}
+                        className="h-8 flex-1"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => handleRename(category.id)}
+                        disabled={isSubmitting}
+                      >
+                        <Check className="h-4 w-4" />
+                        <span className="sr-only">Save name</span>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setEditingId(null)}
+                        disabled={isSubmitting}
+                      >
+                        <X className="h-4 w-4" />
+                        <span className="sr-only">Cancel rename</span>
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <span
+                        className={`flex-1 text-sm ${category.archived_at ? "text-muted-foreground line-through" : ""}`}
+                      >
+                        {category.display_name}
+                        {category.archived_at && <span className="ml-1 no-underline">(archived)</span>}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => {
+                          setEditingId(category.id);
+                          setEditingName(category.name);
+                        }}
+                        disabled={isSubmitting}
+                      >
+                        <Pencil className="h-4 w-4" />
+                        <span className="sr-only">Rename category</span>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() =>
+                          sendRequest(`/api/expense-categories/${category.id}`, "PATCH", {
+                            archived: !category.archived_at,
+                          })
+                        }
+                        disabled={isSubmitting}
+                      >
+                        {category.archived_at ? (
+                          <ArchiveRestore className="h-4 w-4" />
+                        ) : (
+                          <Archive className="h-4 w-4" />
+                        )}
+                        <span className="sr-only">
+                          {category.archived_at ? "Restore category" : "Archive category"}
+                        </span>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => {
+                          setMergingId(mergingId === category.id ? null : category.id);
+                          setMergeTargetId("");
+                        }}
+                        disabled={isSubmitting}
+                      >
+                        <GitMerge className="h-4 w-4" />
+                        <span className="sr-only">Merge category</span>
+                      </Button>
+                    </>
+                  )}
+                </div>
+
+                {mergingId === category.id && (
+                  <div className="flex items-center gap-2">
+                    <select
+                      aria-label="Merge into"
+                      value={mergeTargetId}
+                      onChange={(e) => setMergeTargetId(e.target.value)}
+                      disabled={isSubmitting}
+                      className={selectClassName}
+                    >
+                      <option value="">Merge into...</option>
+                      {activeCategories
+                        .filter((target) => target.id !== category.id)
+                        .map((target) => (
+                          <option key={target.id} value={target.id}>
+                            {target.display_name}
+                          </option>
+                        ))}
+                    </select>
+                    <Button size="sm" onClick={() => handleMerge(category.id)} disabled={isSubmitting}>
+                      Merge
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Default categories</h3>
+        <p className="text-sm text-muted-foreground">
+          {defaultCategories.map((category) => category.display_name).join(", ")}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+import { useState, useEffect, useCallback } from "react";
+import { Square, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert } from "@/components/ui/alert";
+import type { ExpenseCategoryDTO, ErrorResponse, RecurringExpenseDTO } from "@/types";
+
+interface RecurringExpensesFormProps {
+  yearMonth: string;
+  onChange: () => void;
+}
+
+const INTERVAL_OPTIONS = [
+  { value: 1, label: "Every month" },
+  { value: 2, label: "Every 2 months" },
+  { value: 3, label: "Every quarter" },
+  { value: 6, label: "Every 6 months" },
+  { value: 12, label: "Every year" },
+];
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50";
+
+/**
+ * RecurringExpensesForm component
+ * Lists the user's recurring expenses and lets them add, end or delete definitions
+ */
+export function RecurringExpensesForm({ yearMonth, onChange }: RecurringExpensesFormProps) {
+  const [recurringExpenses, setRecurringExpenses] = useState<RecurringExpenseDTO[]>([]);
+  const [categories, setCategories] = useState<ExpenseCategoryDTO[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Form state
+  const [description, setDescription] = useState("");
+  const [amount, setAmount] = useState("");
+  const [categoryId, setCategoryId] = useState("");
+  const [dayOfMonth, setDayOfMonth] = useState("1");
+  const [intervalMonths, setIntervalMonths] = useState("1");
+  const [startMonth, setStartMonth] = useState(yearMonth);
+  const [endMonth, setEndMonth] = useState("");
+
+  const fetchRecurringExpenses = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch("/api/recurring-expenses");
+
+      if (response.status === 401) {
+        window.location.href = "/login";
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error("Failed to load recurring expenses");
+      }
+
+      const result = await response.json();
+      setRecurringExpenses(result.data || []);
+    } catch (err) {
+      console.error("Error loading recurring expenses:", err);
+      setError("Failed to load recurring expenses");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Load definitions and categories on mount
+  useEffect(() => {
+    const fetchCategories = async () => {
+      try {
+        const response = await fetch("/api/expense-categories");
+
+        if (!response.ok) {
+          throw new Error("Failed to load expense categories");
+        }
+
+        const result = await response.json();
+        setCategories(result.data || []);
+      } catch (err) {
+        console.error("Error loading categories:", err);
+      }
+    };
+
+    fetchRecurringExpenses();
+    fetchCategories();
+  }, [fetchRecurringExpenses]);
+
+  /**
+   * Sends a change to the recurring expenses API and reloads the list on success.
+   */
+  const sendRequest = async (url: string, method: string, body?: unknown): Promise<boolean> => {
+    setError(null);
+
+    try {
+      setIsSubmitting(true);
+
+      const response = await fetch(url, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+      if (response.status === 401) {
+        window.location.href = "/login";
+        return false;
+      }
+
+      if (!response.ok) {
+        const errorData = (await response.json()) as ErrorResponse;
+        throw new Error(errorData.message || "Failed to save recurring expense");
+      }
+
+      await fetchRecurringExpenses();
+      onChange();
+      return true;
+    } catch (err) {
+      console.error("Error saving recurring expense:", err);
+      setError(err instanceof Error ? err.message : "Failed to save recurring expense");
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!description.trim() || !amount || !startMonth) {
+      setError("Please fill in all required fields");
+      return;
+    }
+
+    const amountNum = parseFloat(amount);
+    if (isNaN(amountNum) || amountNum <= 0) {
+      setError("Amount must be a positive number");
+      return;
+    }
+
+    const saved = await sendRequest("/api/recurring-expenses", "POST", {
+      description: description.trim(),
+      amount: amountNum,
+      category_id: categoryId || null,
+      day_of_month: Number(dayOfMonth),
+      start_month: startMonth,
+      end_month: endMonth || null,
+      interval_months: Number(intervalMonths),
+    });
+
+    if (saved) {
+      setDescription("");
+      setAmount("");
+      setCategoryId("");
+      setEndMonth("");
+    }
+  };
+
+  const formatAmount = (value: number) =>
+    new Intl.NumberFormat("pl-PL", {
+      style: "currency",
+      currency: "PLN",
+    }).format(value);
+
+  const describeSchedule = (definition: RecurringExpenseDTO) => {
+    const interval =
+      INTERVAL_OPTIONS.find((option) => option.value === definition.interval_months)?.label ??
+      `Every ${definition.interval_months} months`;
+    const range = definition.end_month
+      ? `${definition.start_month} – ${definition.end_month}`
+      : `from ${definition.start_month}`;
+    return `${interval}, day ${definition.day_of_month}, ${range}`;
+  };
+
+  const categoryName = (id: string | null) =>
+    id ? categories.find((category) => category.id === id)?.display_name : null;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <p className="text-sm">{error}</p>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading recurring expenses...</p>
+        ) : recurringExpenses.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No recurring expenses yet.</p>
+        ) : (
+          <ul className="max-h-60 space-y-2 overflow-y-auto">
+            {recurringExpenses.map((definition) => (
+              <li key={definition.id} className="flex items-center justify-between rounded-md border p-2">
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium">
+                    {definition.description}
+                    {categoryName(definition.category_id) && (
+                      <span className="ml-2 text-muted-foreground">{categoryName(definition.category_id)}</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{describeSchedule(definition)}</p>
+                </div>
+                <span className="ml-2 text-sm font-semibold tabular-nums">{formatAmount(definition.amount)}</span>
+                {(!definition.end_month || definition.end_month > yearMonth) && definition.start_month <= yearMonth && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() =>
+                      sendRequest(`/api/recurring-expenses/${definition.id}`, "PATCH", { end_month: yearMonth })
+                    }
+                    disabled={isSubmitting}
+                  >
+                    <Square className="h-4 w-4" />
+                    <span className="sr-only">End after {yearMonth}</span>
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+                  onClick={() => sendRequest(`/api/recurring-expenses/${definition.id}`, "DELETE")}
+                  disabled={isSubmitting}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Delete recurring expense</span>
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4 border-t pt-4" noValidate>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="recurring-description">Description *</Label>
+            <Input
+              id="recurring-description"
+              placeholder="e.g. Rent"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              disabled={isSubmitting}
+              maxLength={500}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recurring-amount">Amount *</Label>
+            <Input
+              id="recurring-amount"
+              type="number"
+              step="0.01"
+              min="0.01"
+              placeholder="0.00"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recurring-category">Category</Label>
+            <select
+              id="recurring-category"
+              value={categoryId}
+              onChange={(e) => setCategoryId(e.target.value)}
+              disabled={isSubmitting}
+              className={selectClassName}
+            >
+              <option value="">None</option>
+              {categories
+                .filter((category) => !category.archived_at)
+                .map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.display_name}
+                  </option>
+                ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recurring-day">Day of month *</Label>
+            <Input
+              id="recurring-day"
+              type="number"
+              min="1"
+              max="31"
+              value={dayOfMonth}
+              onChange={(e) => setDayOfMonth(e.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recurring-interval">Repeats</Label>
+            <select
+              id="recurring-interval"
+              value={intervalMonths}
+              onChange={(e) => setIntervalMonths(e.target.value)}
+              disabled={isSubmitting}
+              className={selectClassName}
+            >
+              {INTERVAL_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recurring-start">Start month *</Label>
+            <Input
+              id="recurring-start"
+              type="month"
+              value={startMonth}
+              onChange={(e) => setStartMonth(e.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="recurring-end">End month</Label>
+            <Input
+              id="recurring-end"
+              type="month"
+              value={endMonth}
+              onChange={(e) => setEndMonth(e.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Saving..." : "Add Recurring Expense"}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
 import { useState, useEffect, useCallback } from "react";
-import type { MonthBudgetDTO, UpsertBudgetCommand, ErrorResponse, ValidationErrorResponse } from "@/types";
+import type { MonthBudgetDetailsDTO, UpsertBudgetCommand, ErrorResponse, ValidationErrorResponse } from "@/types";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Alert } from "@/components/ui/alert";
 import { MonthSelector } from "./MonthSelector";
 import { CurrentBudgetDisplay } from "./CurrentBudgetDisplay";
+import { getPreviousYearMonth } from "@/lib/budget-rollover";
 
 interface SetBudgetFormProps {
   onSuccess?: () => void;
@@ -27,9 +28,11 @@ export function SetBudgetForm({ onSuccess }: SetBudgetFormProps) {
   // State management
   const [selectedMonth, setSelectedMonth] = useState<string>(getCurrentMonth());
   const [budgetAmount, setBudgetAmount] = useState<string>("");
-  const [currentBudget, setCurrentBudget] = useState<MonthBudgetDTO | null>(null);
+  const [currentBudget, setCurrentBudget] = useState<MonthBudgetDetailsDTO | null>(null);
+  const [rolloverEnabled, setRolloverEnabled] = useState<boolean>(false);
   const [isLoadingCurrent, setIsLoadingCurrent] = useState<boolean>(false);
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [isCopying, setIsCopying] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
@@ -43,9 +46,17 @@ export function SetBudgetForm({ onSuccess }: SetBudgetFormProps) {
       const response = await fetch(`/api/month-budgets/${yearMonth}`);
 
       if (response.status === 404) {
-        // No budget exists for this month
+        // No budget exists for this month; suggest the previous month's rollover mode
         setCurrentBudget(null);
         setBudgetAmount("");
+
+        const previousResponse = await fetch(`/api/month-budgets/${getPreviousYearMonth(yearMonth)}`);
+        if (previousResponse.ok) {
+          const previous = (await previousResponse.json()) as { data: MonthBudgetDetailsDTO };
+          setRolloverEnabled(previous.data.rollover_enabled);
+        } else {
+          setRolloverEnabled(false);
+        }
         return;
       }
 
@@ -60,9 +71,10 @@ export function SetBudgetForm({ onSuccess }: SetBudgetFormProps) {
         return;
       }
 
-      const data = (await response.json()) as { data: MonthBudgetDTO };
+      const data = (await response.json()) as { data: MonthBudgetDetailsDTO };
       setCurrentBudget(data.data);
       setBudgetAmount(data.data.budget_set.toString());
+      setRolloverEnabled(data.data.rollover_enabled);
     } catch (err) {
       console.error("Error fetching current budget:", err);
       setError("Unable to connect. Please check your internet connection.");
@@ -137,6 +149,7 @@ export function SetBudgetForm({ onSuccess }: SetBudgetFormProps) {
     try {
       const command: UpsertBudgetCommand = {
         budget_set: parseFloat(budgetAmount),
+        rollover_enabled: rolloverEnabled,
       };
 
       const response = await fetch(`/api/month-budgets/${selectedMonth}`, {
@@ -169,8 +182,9 @@ export function SetBudgetForm({ onSuccess }: SetBudgetFormProps) {
         return;
       }
 
-      const data = (await response.json()) as { data: MonthBudgetDTO };
+      const data = (await response.json()) as { data: MonthBudgetDetailsDTO };
       setCurrentBudget(data.data);
+      setRolloverEnabled(data.data.rollover_enabled);
       setSuccessMessage(currentBudget ? "Budget updated successfully!" : "Budget created successfully!");
 
       // Call success callback
@@ -185,6 +199,49 @@ export function SetBudgetForm({ onSuccess }: SetBudgetFormProps) {
     }
   };
 
+  // Copy budget, rollover mode and allocations of the previous month into the selected month
+  const handleCopyPrevious = async () => {
+    setError(null);
+    setSuccessMessage(null);
+    setFieldErrors({});
+    setIsCopying(true);
+
+    const previousMonth = getPreviousYearMonth(selectedMonth);
+
+    try {
+      const response = await fetch(`/api/month-budgets/${selectedMonth}/copy-from/${previousMonth}`, {
+        method: "POST",
+      });
+
+      if (response.status === 401) {
+        window.location.href = "/login";
+        return;
+      }
+
+      if (!response.ok) {
+        const errorData = (await response.json()) as ErrorResponse;
+        setError(errorData.message || "Failed to copy the previous month's budget");
+        return;
+      }
+
+      const data = (await response.json()) as { data: MonthBudgetDetailsDTO };
+      setCurrentBudget(data.data);
+      setBudgetAmount(data.data.budget_set.toString());
+      setRolloverEnabled(data.data.rollover_enabled);
+      setSuccessMessage(`Budget copied from ${previousMonth}!`);
+
+      // Call success callback
+      if (onSuccess) {
+        onSuccess();
+      }
+    } catch (err) {
+      console.error("Error copying budget:", err);
+      setError("Unable to connect. Please check your internet connection.");
+    } finally {
+      setIsCopying(false);
+    }
+  };
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       {/* Month Selector */}
@@ -216,6 +273,24 @@ export function SetBudgetForm({ onSuccess }: SetBudgetFormProps) {
         )}
       </div>
 
+      {/* Rollover Mode */}
+      <div className="flex items-start gap-2">
+        <input
+          id="budget-rollover"
+          type="checkbox"
+          className="mt-1 h-4 w-4 rounded border-input"
+          checked={rolloverEnabled}
+          onChange={(e) => setRolloverEnabled(e.target.checked)}
+          disabled={isSubmitting}
+        />
+        <div className="space-y-1">
+          <Label htmlFor="budget-rollover">Roll over from previous month</Label>
+          <p className="text-xs text-muted-foreground">
+            Adds last month&apos;s unspent budget to this month, or subtracts its overspend
+          </p>
+        </div>
+      </div>
+
       {/* Success Message */}
       {successMessage && (
         <Alert className="bg-green-50 dark:bg-green-950 border-green-200 dark:border-green-800">
@@ -230,10 +305,21 @@ export function SetBudgetForm({ onSuccess }: SetBudgetFormProps) {
         </Alert>
       )}
 
-      {/* Submit Button */}
-      <Button type="submit" disabled={isSubmitting || !budgetAmount} className="w-full">
-        {isSubmitting ? "Saving..." : currentBudget ? "Update Budget" : "Set Budget"}
-      </Button>
+      {/* Actions */}
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleCopyPrevious}
+          disabled={isSubmitting || isCopying}
+          className="sm:flex-1"
+        >
+          {isCopying ? "Copying..." : "Copy from previous month"}
+        </Button>
+        <Button type="submit" disabled={isSubmitting || isCopying || !budgetAmount} className="sm:flex-1">
+          {isSubmitting ? "Saving..." : currentBudget ? "Update Budget" : "Set Budget"}
+        </Button>
+      </div>
     </form>
   );
 }
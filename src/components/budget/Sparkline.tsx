@@ -0,0 +1,34 @@
+import { useMemo } from "react";
+import { Line, LineChart, ResponsiveContainer, YAxis } from "recharts";
+
+interface SparklineProps {
+  values: number[];
+  color?: string;
+  /** Accessible description of what the line shows */
+  label: string;
+}
+
+/**
+ * Small line chart without axes, for a trend at a glance
+ */
+export function Sparkline({ values, color = "#0e5a8a", label }: SparklineProps) {
+  const chartData = useMemo(() => values.map((value, index) => ({ index, value })), [values]);
+
+  return (
+    <div className="h-10 w-full" role="img" aria-label={label}>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={chartData} margin={{ top: 2, right: 2, bottom: 2, left: 2 }}>
+          <YAxis hide domain={[0, "dataMax"]} />
+          <Line
+            type="monotone"
+            dataKey="value"
+            stroke={color}
+            strokeWidth={1.5}
+            dot={false}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useId, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { MAX_EXPENSE_TAGS } from "@/types";
+import type { TagDTO } from "@/types";
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Normalize a tag the way the server stores it (trimmed, lower case, no commas)
+ */
+const normalizeTag = (tag: string) => tag.replace(/,/g, "").trim().toLowerCase().slice(0, 50);
+
+/**
+ * TagInput component
+ * Tags shown as removable chips; Enter or comma adds the typed tag, Backspace on an empty field removes the last one.
+ * Existing tags are suggested once the field is first focused.
+ */
+export function TagInput({ id, value, onChange, disabled }: TagInputProps) {
+  const [draft, setDraft] = useState("");
+  const [suggestions, setSuggestions] = useState<string[] | null>(null);
+  const listId = useId();
+
+  const loadSuggestions = async () => {
+    if (suggestions) return;
+
+    try {
+      setSuggestions([]);
+      const response = await fetch("/api/tags");
+
+      if (!response.ok) {
+        throw new Error("Failed to load tags");
+      }
+
+      const result = await response.json();
+      setSuggestions((result.data || []).map((tag: TagDTO) => tag.name));
+    } catch (err) {
+      console.error("Error loading tags:", err);
+    }
+  };
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    setDraft("");
+
+    if (!tag || value.includes(tag) || value.length >= MAX_EXPENSE_TAGS) return;
+    onChange([...value, tag]);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter((existing) => existing !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === "Backspace" && !draft && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <ul className="flex flex-wrap gap-1.5" aria-label="Selected tags">
+          {value.map((tag) => (
+            <li
+              key={tag}
+              className="inline-flex items-center gap-1 rounded-full bg-secondary px-2 py-0.5 text-xs font-medium text-secondary-foreground"
+            >
+              #{tag}
+              <button
+                type="button"
+                onClick={() => removeTag(tag)}
+                disabled={disabled}
+                className="rounded-full px-1 hover:bg-background/60 disabled:opacity-50"
+                aria-label={`Remove tag ${tag}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <Input
+        id={id}
+        list={listId}
+        placeholder={
+          value.length >= MAX_EXPENSE_TAGS ? `At most ${MAX_EXPENSE_TAGS} tags` : "Add a tag and press Enter"
+        }
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onFocus={loadSuggestions}
+        onBlur={() => draft && addTag(draft)}
+        disabled={disabled || value.length >= MAX_EXPENSE_TAGS}
+        maxLength={50}
+      />
+      <datalist id={listId}>
+        {(suggestions || [])
+          .filter((tag) => !value.includes(tag))
+          .map((tag) => (
+            <option key={tag} value={tag} />
+          ))}
+      </datalist>
+    </div>
+  );
+}
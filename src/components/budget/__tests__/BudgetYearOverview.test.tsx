@@ -0,0 +1,69 @@
+import { render, screen } from "@testing-library/react";
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { BudgetYearOverview } from "../BudgetYearOverview";
+
+const createFetchResponse = <T,>(payload: T, init: { ok?: boolean; status?: number } = {}) => ({
+  ok: init.ok ?? true,
+  status: init.status ?? 200,
+  json: async () => payload,
+});
+
+const emptyMonth = (month: number) => ({
+  yearMonth: `2026-${String(month).padStart(2, "0")}`,
+  budgetSet: null,
+  spent: 0,
+  balance: null,
+  usedPercent: null,
+  isClosed: false,
+  topCategory: null,
+  dailySpending: [0, 0, 0],
+});
+
+describe("BudgetYearOverview", () => {
+  const fetchMock = vi.fn<(url: string) => Promise<ReturnType<typeof createFetchResponse>>>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("shows year totals and every month of the year", async () => {
+    const summary = {
+      year: "2026",
+      totals: { budgetSet: 2000, spent: 2300, balance: -300, monthlyAverage: 191.67, monthsOverBudget: 1 },
+      months: [
+        {
+          ...emptyMonth(1),
+          budgetSet: 2000,
+          spent: 2300,
+          balance: -300,
+          usedPercent: 115,
+          isClosed: true,
+          topCategory: { key: "cat-1", name: "Groceries", color: null, total: 1800 },
+        },
+        ...Array.from({ length: 11 }, (_, index) => emptyMonth(index + 2)),
+      ],
+      categories: [],
+    };
+
+    fetchMock.mockResolvedValueOnce(createFetchResponse({ data: summary }));
+
+    render(<BudgetYearOverview year="2026" />);
+
+    await screen.findByText("Months Over Budget");
+
+    expect(fetchMock).toHaveBeenCalledWith("/api/month-budgets/year-summary?year=2026");
+    expect(screen.getAllByText("2000,00 zł")).toHaveLength(2);
+    expect(screen.getByText("Groceries")).toBeInTheDocument();
+    expect(screen.getByText("Closed")).toBeInTheDocument();
+    expect(screen.getByText("December")).toBeInTheDocument();
+    expect(screen.getByText("No expenses this year")).toBeInTheDocument();
+    expect(screen.getByRole("link", { name: "← 2025" })).toHaveAttribute("href", "/app/budget/year/2025");
+  });
+});
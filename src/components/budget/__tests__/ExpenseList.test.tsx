@@ -1,4 +1,4 @@
-import { render, screen, waitFor } from "@testing-library/react";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
 import React from "react";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
@@ -42,7 +42,9 @@ describe("ExpenseList", () => {
       year_month: "2025-01",
       description: "Groceries",
       created_at: "2025-01-15T10:00:00Z",
-    } as const;
+      tags: ["weekly"],
+      splits: [],
+    };
 
     fetchMock
       .mockResolvedValueOnce(createFetchResponse({ data: [category] }))
@@ -55,6 +57,7 @@ describe("ExpenseList", () => {
     expect(screen.getByText("Groceries")).toBeInTheDocument();
     expect(screen.getByText("Jan 15, 2025")).toBeInTheDocument();
     expect(screen.getByText("Food")).toBeInTheDocument();
+    expect(screen.getByText("#weekly")).toBeInTheDocument();
     expect(screen.getByText(/123,45/)).toHaveTextContent("123,45");
 
     expect(fetchMock).toHaveBeenCalledTimes(2);
@@ -62,6 +65,143 @@ describe("ExpenseList", () => {
     expect(fetchMock.mock.calls[1][0]).toContain("/api/expenses?");
   });
 
+  it("reloads the expenses filtered by a tag when the tag is clicked", async () => {
+    const expense = {
+      id: "exp-1",
+      category_id: null,
+      amount: 80,
+      expense_date: "2025-01-20",
+      year_month: "2025-01",
+      description: "Train tickets",
+      created_at: "2025-01-20T10:00:00Z",
+      tags: ["vacation"],
+      splits: [],
+    };
+
+    fetchMock
+      .mockResolvedValueOnce(createFetchResponse({ data: [] }))
+      .mockResolvedValueOnce(createFetchResponse({ data: [expense] }))
+      .mockResolvedValueOnce(createFetchResponse({ data: [expense] }));
+
+    render(<ExpenseList yearMonth="2025-01" refreshTrigger={0} />);
+
+    fireEvent.click(await screen.findByRole("button", { name: "Show expenses tagged vacation" }));
+
+    expect(await screen.findByRole("button", { name: "Show all" })).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(fetchMock).toHaveBeenLastCalledWith(expect.stringContaining("tags=vacation"));
+  });
+
+  it("lists the category lines of a split expense", async () => {
+    const categories = [
+      { id: "cat-1", display_name: "Groceries", color: null },
+      { id: "cat-2", display_name: "Household", color: null },
+    ];
+    const expense = {
+      id: "exp-1",
+      category_id: null,
+      amount: 100,
+      expense_date: "2025-01-10",
+      year_month: "2025-01",
+      description: "Supermarket",
+      created_at: "2025-01-10T10:00:00Z",
+      tags: [],
+      splits: [
+        { category_id: "cat-1", amount: 60 },
+        { category_id: "cat-2", amount: 40 },
+      ],
+    };
+
+    fetchMock
+      .mockResolvedValueOnce(createFetchResponse({ data: categories }))
+      .mockResolvedValueOnce(createFetchResponse({ data: [expense] }));
+
+    render(<ExpenseList yearMonth="2025-01" refreshTrigger={0} />);
+
+    await screen.findByText("1 expense this month");
+
+    expect(screen.getAllByText("Supermarket")).toHaveLength(1);
+    expect(screen.getByText(/Groceries 60,00/)).toBeInTheDocument();
+    expect(screen.getByText(/Household 40,00/)).toBeInTheDocument();
+  });
+
+  it("shows which household member added each expense", async () => {
+    const expenses = [
+      { email: "me@example.com", is_current_user: true },
+      { email: "partner@example.com", is_current_user: false },
+      { email: null, is_current_user: false },
+    ].map((addedBy, index) => ({
+      id: `exp-${index + 1}`,
+      category_id: null,
+      amount: 10,
+      expense_date: "2025-01-10",
+      year_month: "2025-01",
+      description: `Expense ${index + 1}`,
+      created_at: "2025-01-10T10:00:00Z",
+      tags: [],
+      splits: [],
+      added_by: addedBy,
+    }));
+
+    fetchMock
+      .mockResolvedValueOnce(createFetchResponse({ data: [] }))
+      .mockResolvedValueOnce(createFetchResponse({ data: expenses }));
+
+    render(<ExpenseList yearMonth="2025-01" refreshTrigger={0} />);
+
+    expect(await screen.findByText("Added by you")).toBeInTheDocument();
+    expect(screen.getByText("Added by partner@example.com")).toBeInTheDocument();
+    expect(screen.getByText("Added by a former member")).toBeInTheDocument();
+  });
+
+  it("recategorizes the selected expenses and reports the ones that were not found", async () => {
+    const categories = [{ id: "cat-1", display_name: "Groceries", color: null, archived_at: null }];
+    const expenses = ["exp-1", "exp-2"].map((id, index) => ({
+      id,
+      category_id: null,
+      amount: 10,
+      expense_date: "2025-01-10",
+      year_month: "2025-01",
+      description: `Expense ${index + 1}`,
+      created_at: "2025-01-10T10:00:00Z",
+      tags: [],
+      splits: [],
+    }));
+
+    fetchMock
+      .mockResolvedValueOnce(createFetchResponse({ data: categories }))
+      .mockResolvedValueOnce(createFetchResponse({ data: expenses }))
+      .mockResolvedValueOnce(
+        createFetchResponse({
+          data: {
+            total: 2,
+            succeeded: 1,
+            not_found: 1,
+            results: [
+              { id: "exp-1", status: "updated" },
+              { id: "exp-2", status: "not_found" },
+            ],
+          },
+        })
+      );
+
+    render(<ExpenseList yearMonth="2025-01" refreshTrigger={0} />);
+
+    fireEvent.click(await screen.findByRole("checkbox", { name: "Select all" }));
+    expect(screen.getByText("2 expenses selected")).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText("New category"), { target: { value: "cat-1" } });
+    fireEvent.click(screen.getByRole("button", { name: "Recategorize" }));
+
+    expect(await screen.findByText("1 of 2 expenses could not be found and were skipped.")).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenLastCalledWith("/api/expenses/bulk", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ids: ["exp-1", "exp-2"], category_id: "cat-1" }),
+    });
+    expect(screen.queryByText("2 expenses selected")).not.toBeInTheDocument();
+  });
+
   it("renders empty state when expenses fetch returns no data", async () => {
     fetchMock
       .mockResolvedValueOnce(createFetchResponse({ data: [] }))
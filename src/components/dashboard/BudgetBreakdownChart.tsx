@@ -1,19 +1,38 @@
 import { useMemo } from "react";
-import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer } from "recharts";
+import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Legend } from "recharts";
+import type { MonthBudgetCategoryBreakdownItemDTO } from "@/types";
 
 interface BudgetBreakdownChartProps {
   budgetSet: number;
   totalExpenses: number;
+  /**
+   * Optional per-category breakdown; when given, allocated vs spent is shown per category
+   */
+  categories?: MonthBudgetCategoryBreakdownItemDTO[];
 }
 
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pl-PL", {
+    style: "currency",
+    currency: "PLN",
+  }).format(value);
+
+const tooltipContentStyle = {
+  backgroundColor: "hsl(var(--background))",
+  border: "1px solid hsl(var(--border))",
+  borderRadius: "0.5rem",
+};
+
 /**
- * Donut chart component displaying budget usage breakdown
+ * Donut chart component displaying budget usage breakdown,
+ * or a bar chart of allocated vs spent per category when categories are given
  */
-export function BudgetBreakdownChart({ budgetSet, totalExpenses }: BudgetBreakdownChartProps) {
+export function BudgetBreakdownChart({ budgetSet, totalExpenses, categories }: BudgetBreakdownChartProps) {
   // Color palette - monochromatic shades of blue with high contrast (darkest first)
   const COLORS = {
     used: "rgba(0,31,63,0.16)", // blue-900 for expenses
     remaining: "#0e5a8a", // blue-300 for remaining budget
+    overspent: "#dc2626", // red-600 for categories over their allocation
   };
 
   const chartData = useMemo(() => {
@@ -32,6 +51,38 @@ export function BudgetBreakdownChart({ budgetSet, totalExpenses }: BudgetBreakdo
     ];
   }, [budgetSet, totalExpenses, COLORS.used, COLORS.remaining]);
 
+  const categoryData = useMemo(
+    () =>
+      (categories ?? []).map((category) => ({
+        name: category.category_name,
+        allocated: category.allocated ?? 0,
+        spent: category.spent,
+        isOverspent: category.is_overspent,
+      })),
+    [categories]
+  );
+
+  if (categoryData.length > 0) {
+    return (
+      <div className="w-full" style={{ height: Math.max(160, categoryData.length * 48 + 48) }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={categoryData} layout="vertical" margin={{ left: 8, right: 16 }}>
+            <XAxis type="number" hide />
+            <YAxis type="category" dataKey="name" width={110} tick={{ fontSize: 12 }} />
+            <Tooltip formatter={(value: number) => formatCurrency(value)} contentStyle={tooltipContentStyle} />
+            <Legend />
+            <Bar dataKey="allocated" name="Allocated" fill={COLORS.remaining} radius={[0, 4, 4, 0]} />
+            <Bar dataKey="spent" name="Spent" fill={COLORS.used} radius={[0, 4, 4, 0]}>
+              {categoryData.map((entry, index) => (
+                <Cell key={`spent-${index}`} fill={entry.isOverspent ? COLORS.overspent : COLORS.used} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    );
+  }
+
   return (
     <div className="w-full h-64">
       <ResponsiveContainer width="100%" height="100%">
@@ -41,19 +92,7 @@ export function BudgetBreakdownChart({ budgetSet, totalExpenses }: BudgetBreakdo
               <Cell key={`cell-${index}`} fill={entry.color} />
             ))}
           </Pie>
-          <Tooltip
-            formatter={(value: number) =>
-              `${new Intl.NumberFormat("pl-PL", {
-                style: "currency",
-                currency: "PLN",
-              }).format(value)}`
-            }
-            contentStyle={{
-              backgroundColor: "hsl(var(--background))",
-              border: "1px solid hsl(var(--border))",
-              borderRadius: "0.5rem",
-            }}
-          />
+          <Tooltip formatter={(value: number) => `${formatCurrency(value)}`} contentStyle={tooltipContentStyle} />
         </PieChart>
       </ResponsiveContainer>
     </div>
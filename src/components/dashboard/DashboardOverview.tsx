@@ -4,6 +4,12 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
 import { StashBreakdownChart } from "./StashBreakdownChart";
 import { BudgetBreakdownChart } from "./BudgetBreakdownChart";
+import { StashGoalProgress } from "@/components/stashes/StashGoalProgress";
+import { BalanceHistoryChart } from "@/components/stashes/BalanceHistoryChart";
+import { BaseCurrencySelect } from "@/components/stashes/BaseCurrencySelect";
+import { TagTotalsList } from "@/components/reports/TagTotalsList";
+import { useBaseCurrency } from "@/components/hooks/useBaseCurrency";
+import { formatMoney } from "@/lib/currency";
 import type { DashboardData } from "@/types";
 
 /**
@@ -13,17 +19,18 @@ export function DashboardOverview() {
   const [data, setData] = useState<DashboardData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { baseCurrency, setBaseCurrency } = useBaseCurrency();
 
   useEffect(() => {
-    fetchDashboardData();
-  }, []);
+    fetchDashboardData(baseCurrency);
+  }, [baseCurrency]);
 
-  const fetchDashboardData = async () => {
+  const fetchDashboardData = async (currency: string) => {
     try {
       setLoading(true);
       setError(null);
 
-      const response = await fetch("/api/dashboard");
+      const response = await fetch(`/api/dashboard?baseCurrency=${encodeURIComponent(currency)}`);
 
       if (!response.ok) {
         throw new Error("Failed to fetch dashboard data");
@@ -55,13 +62,19 @@ export function DashboardOverview() {
     return null;
   }
 
+  // Stash totals, net worth and goal totals are in the base currency
+  const formatBase = (amount: number) => formatMoney(amount, data.stashes.baseCurrency);
+
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
-        <p className="text-muted-foreground mt-2">
-          Overview of your stashes and budget for {formatYearMonth(data.budget.yearMonth)}
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
+          <p className="text-muted-foreground mt-2">
+            Overview of your stashes and budget for {formatYearMonth(data.budget.yearMonth)}
+          </p>
+        </div>
+        <BaseCurrencySelect value={baseCurrency} onChange={setBaseCurrency} />
       </div>
 
       <div className="grid gap-6 md:grid-cols-2">
@@ -85,8 +98,14 @@ export function DashboardOverview() {
             </div>
             <div className="flex items-center justify-between">
               <span className="text-sm font-medium text-muted-foreground">Total Balance</span>
-              <span className="text-2xl font-bold">{formatCurrency(data.stashes.totalBalance)}</span>
+              <span className="text-2xl font-bold">{formatBase(data.stashes.totalBalance)}</span>
             </div>
+            {data.stashes.missingRates.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Excludes stashes in {data.stashes.missingRates.join(", ")} (no exchange rate to{" "}
+                {data.stashes.baseCurrency})
+              </p>
+            )}
 
             {data.stashes.stashes.length > 0 ? (
               <div className="mt-6 space-y-3">
@@ -95,7 +114,9 @@ export function DashboardOverview() {
                   {data.stashes.stashes.slice(0, 5).map((stash) => (
                     <div key={stash.id} className="flex items-center justify-between rounded-lg border p-3">
                       <span className="text-sm font-medium">{stash.name}</span>
-                      <span className="text-sm font-semibold">{formatCurrency(stash.current_balance)}</span>
+                      <span className="text-sm font-semibold">
+                        {formatMoney(stash.current_balance, stash.currency)}
+                      </span>
                     </div>
                   ))}
                 </div>
@@ -151,6 +172,19 @@ export function DashboardOverview() {
                   <span className="text-sm font-medium text-muted-foreground">Budget Set</span>
                   <span className="text-2xl font-bold">{formatCurrency(data.budget.budgetSet ?? 0)}</span>
                 </div>
+                {!!data.budget.carriedOver && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-muted-foreground">Carried Over</span>
+                    <span
+                      className={`text-lg font-semibold ${
+                        data.budget.carriedOver > 0 ? "text-green-600 dark:text-green-400" : "text-destructive"
+                      }`}
+                    >
+                      {data.budget.carriedOver > 0 ? "+" : ""}
+                      {formatCurrency(data.budget.carriedOver)}
+                    </span>
+                  </div>
+                )}
                 <div className="flex items-center justify-between">
                   <span className="text-sm font-medium text-muted-foreground">Total Expenses</span>
                   <span className="text-2xl font-bold text-destructive">
@@ -161,10 +195,12 @@ export function DashboardOverview() {
                   <span className="text-sm font-medium text-muted-foreground">Remaining</span>
                   <span
                     className={`text-2xl font-bold ${
-                      (data.budget.currentBalance ?? 0) >= 0 ? "text-green-600 dark:text-green-400" : "text-destructive"
+                      (data.budget.currentBalance ?? 0) + (data.budget.carriedOver ?? 0) >= 0
+                        ? "text-green-600 dark:text-green-400"
+                        : "text-destructive"
                     }`}
                   >
-                    {formatCurrency(data.budget.currentBalance ?? 0)}
+                    {formatCurrency((data.budget.currentBalance ?? 0) + (data.budget.carriedOver ?? 0))}
                   </span>
                 </div>
               </>
@@ -195,7 +231,7 @@ export function DashboardOverview() {
               <CardDescription>Money distribution across your stashes</CardDescription>
             </CardHeader>
             <CardContent>
-              <StashBreakdownChart stashes={data.stashes.stashes} />
+              <StashBreakdownChart stashes={data.stashes.stashes} currency={data.stashes.baseCurrency} />
             </CardContent>
           </Card>
         )}
@@ -208,12 +244,80 @@ export function DashboardOverview() {
               <CardDescription>Budget usage for {formatYearMonth(data.budget.yearMonth)}</CardDescription>
             </CardHeader>
             <CardContent>
-              <BudgetBreakdownChart budgetSet={data.budget.budgetSet ?? 0} totalExpenses={data.budget.totalExpenses} />
+              <BudgetBreakdownChart
+                budgetSet={(data.budget.budgetSet ?? 0) + (data.budget.carriedOver ?? 0)}
+                totalExpenses={data.budget.totalExpenses}
+              />
             </CardContent>
           </Card>
         )}
       </div>
 
+      {/* Net Worth */}
+      {data.netWorth && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Net Worth</CardTitle>
+            <CardDescription>Total balance across all stashes over the last 12 months</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <BalanceHistoryChart
+              points={data.netWorth.points}
+              interval={data.netWorth.interval}
+              currency={data.stashes.baseCurrency}
+              emptyMessage="Add funds to a stash to start tracking your net worth"
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Tags */}
+      {data.tags && data.tags.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Spending by Tag</CardTitle>
+                <CardDescription>Tagged expenses in {formatYearMonth(data.budget.yearMonth)}</CardDescription>
+              </div>
+              <a href="/app/reports" className="text-sm text-primary hover:underline">
+                Reports →
+              </a>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <TagTotalsList tags={data.tags.slice(0, 5)} />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Savings Goals */}
+      {data.goals && data.goals.goals.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Savings Goals</CardTitle>
+            <CardDescription>
+              {formatBase(data.goals.totalSaved)} saved of {formatBase(data.goals.totalGoalAmount)}
+              {data.goals.totalMonthlyNeeded > 0 && (
+                <> · {formatBase(data.goals.totalMonthlyNeeded)} per month needed to stay on track</>
+              )}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-4">
+              {data.goals.goals.map((goal) => (
+                <li key={goal.stashId} className="space-y-1">
+                  <a href={`/app/stashes/${goal.stashId}`} className="text-sm font-medium hover:underline">
+                    {goal.name}
+                  </a>
+                  <StashGoalProgress progress={goal} currency={goal.currency} compact />
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Quick Actions */}
       <Card>
         <CardHeader>
@@ -1,15 +1,19 @@
 import { useMemo } from "react";
 import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer } from "recharts";
-import type { StashDTO } from "@/types";
+import type { StashListItemDTO } from "@/types";
+import { formatMoney } from "@/lib/currency";
 
 interface StashBreakdownChartProps {
-  stashes: StashDTO[];
+  stashes: StashListItemDTO[];
+  /** Base currency the converted balances are in */
+  currency: string;
 }
 
 /**
  * Donut chart component displaying the breakdown of money distribution across stashes
+ * Balances are compared in the base currency; stashes without an exchange rate are left out
  */
-export function StashBreakdownChart({ stashes }: StashBreakdownChartProps) {
+export function StashBreakdownChart({ stashes, currency }: StashBreakdownChartProps) {
   const chartData = useMemo(() => {
     // Color palette for the chart - monochromatic shades of blue with high contrast (darkest first)
     const COLORS = [
@@ -25,10 +29,10 @@ export function StashBreakdownChart({ stashes }: StashBreakdownChartProps) {
     ];
 
     return stashes
-      .filter((stash) => stash.current_balance > 0)
+      .filter((stash) => stash.converted_balance !== null && stash.converted_balance > 0)
       .map((stash, index) => ({
         name: stash.name,
-        value: Math.round(stash.current_balance * 100) / 100,
+        value: Math.round((stash.converted_balance ?? 0) * 100) / 100,
         color: COLORS[index % COLORS.length],
       }));
   }, [stashes]);
@@ -60,12 +64,7 @@ export function StashBreakdownChart({ stashes }: StashBreakdownChartProps) {
             ))}
           </Pie>
           <Tooltip
-            formatter={(value: number) =>
-              `${new Intl.NumberFormat("pl-PL", {
-                style: "currency",
-                currency: "PLN",
-              }).format(value)}`
-            }
+            formatter={(value: number) => formatMoney(value, currency)}
             contentStyle={{
               backgroundColor: "hsl(var(--background))",
               border: "1px solid hsl(var(--border))",
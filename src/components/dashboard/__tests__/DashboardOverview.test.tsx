@@ -25,11 +25,13 @@ describe("DashboardOverview", () => {
   it("displays dashboard summaries after a successful fetch", async () => {
     const dashboardPayload = {
       stashes: {
+        baseCurrency: "PLN",
+        missingRates: [],
         totalStashes: 2,
         totalBalance: 1500,
         stashes: [
-          { id: "stash-1", name: "Emergency Fund", current_balance: 1000 },
-          { id: "stash-2", name: "Vacation", current_balance: 500 },
+          { id: "stash-1", name: "Emergency Fund", current_balance: 1000, currency: "PLN", converted_balance: 1000 },
+          { id: "stash-2", name: "Vacation", current_balance: 500, currency: "PLN", converted_balance: 500 },
         ],
       },
       budget: {
@@ -59,7 +61,36 @@ describe("DashboardOverview", () => {
     expect(screen.getByText("1250,00 zł")).toBeInTheDocument();
     expect(screen.getByText("Budget Distribution")).toBeInTheDocument();
 
-    expect(fetchMock).toHaveBeenCalledWith("/api/dashboard");
+    expect(fetchMock).toHaveBeenCalledWith("/api/dashboard?baseCurrency=PLN");
+  });
+
+  it("shows the amount carried over from the previous month", async () => {
+    const dashboardPayload = {
+      stashes: {
+        baseCurrency: "PLN",
+        missingRates: [],
+        totalStashes: 0,
+        totalBalance: 0,
+        stashes: [],
+      },
+      budget: {
+        yearMonth: "2025-03",
+        budgetSet: 2000,
+        totalExpenses: 600,
+        currentBalance: 1400,
+        carriedOver: 150,
+        hasNoBudget: false,
+      },
+    } as const;
+
+    fetchMock.mockResolvedValueOnce(createFetchResponse(dashboardPayload));
+
+    render(<DashboardOverview />);
+
+    await screen.findByText("Carried Over");
+
+    expect(screen.getByText("+150,00 zł")).toBeInTheDocument();
+    expect(screen.getByText("1550,00 zł")).toBeInTheDocument();
   });
 
   it("renders an error alert when the dashboard request fails", async () => {
@@ -79,6 +110,8 @@ describe("DashboardOverview", () => {
   it("handles dashboards without an active budget but with expenses", async () => {
     const dashboardPayload = {
       stashes: {
+        baseCurrency: "PLN",
+        missingRates: [],
         totalStashes: 0,
         totalBalance: 0,
         stashes: [],
@@ -102,4 +135,87 @@ describe("DashboardOverview", () => {
     expect(screen.getByText("320,00 zł")).toBeInTheDocument();
     expect(screen.queryByText("Budget Set")).not.toBeInTheDocument();
   });
+
+  it("lists savings goals with the monthly amount needed to reach them", async () => {
+    const dashboardPayload = {
+      stashes: {
+        baseCurrency: "PLN",
+        missingRates: [],
+        totalStashes: 1,
+        totalBalance: 500,
+        stashes: [{ id: "stash-2", name: "Vacation", current_balance: 500, currency: "PLN", converted_balance: 500 }],
+      },
+      budget: {
+        yearMonth: "2025-01",
+        budgetSet: null,
+        totalExpenses: 0,
+        currentBalance: null,
+        hasNoBudget: true,
+      },
+      goals: {
+        totalGoalAmount: 2000,
+        totalSaved: 500,
+        totalMonthlyNeeded: 250,
+        goals: [
+          {
+            stashId: "stash-2",
+            name: "Vacation",
+            currency: "PLN",
+            currentBalance: 500,
+            goalAmount: 2000,
+            goalDate: "2025-07-15",
+            percentage: 25,
+            remaining: 1500,
+            monthsLeft: 6,
+            monthlyNeeded: 250,
+            isReached: false,
+            isOverdue: false,
+          },
+        ],
+      },
+    } as const;
+
+    fetchMock.mockResolvedValueOnce(createFetchResponse(dashboardPayload));
+
+    render(<DashboardOverview />);
+
+    await screen.findByText("Savings Goals");
+
+    expect(screen.getByRole("link", { name: "Vacation" })).toHaveAttribute("href", "/app/stashes/stash-2");
+    expect(screen.getByRole("progressbar", { name: "Savings goal progress" })).toHaveAttribute("aria-valuenow", "25");
+    expect(screen.getByText("1500,00 zł to go · 250,00 zł/month for 6 months")).toBeInTheDocument();
+  });
+
+  it("shows stashes in their own currency and notes currencies without an exchange rate", async () => {
+    const dashboardPayload = {
+      stashes: {
+        baseCurrency: "PLN",
+        totalStashes: 3,
+        totalBalance: 1430,
+        missingRates: ["BTC"],
+        stashes: [
+          { id: "stash-1", name: "Savings", current_balance: 1000, currency: "PLN", converted_balance: 1000 },
+          { id: "stash-2", name: "Euro Account", current_balance: 100, currency: "EUR", converted_balance: 430 },
+          { id: "stash-3", name: "Crypto", current_balance: 0.5, currency: "BTC", converted_balance: null },
+        ],
+      },
+      budget: {
+        yearMonth: "2025-01",
+        budgetSet: null,
+        totalExpenses: 0,
+        currentBalance: null,
+        hasNoBudget: true,
+      },
+    } as const;
+
+    fetchMock.mockResolvedValueOnce(createFetchResponse(dashboardPayload));
+
+    render(<DashboardOverview />);
+
+    await screen.findByRole("heading", { name: "Dashboard" });
+
+    expect(screen.getByText("1430,00 zł")).toBeInTheDocument();
+    expect(screen.getByText("100,00 €")).toBeInTheDocument();
+    expect(screen.getByText("Excludes stashes in BTC (no exchange rate to PLN)")).toBeInTheDocument();
+  });
 });
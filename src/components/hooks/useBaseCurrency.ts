@@ -0,0 +1,29 @@
+import { useState, useCallback } from "react";
+import { DEFAULT_CURRENCY } from "@/lib/currency";
+
+const STORAGE_KEY = "baseCurrency";
+
+interface UseBaseCurrencyReturn {
+  baseCurrency: string;
+  setBaseCurrency: (currency: string) => void;
+}
+
+/**
+ * The currency stash totals are shown in. Remembered in localStorage so the
+ * stashes page and the dashboard agree across visits.
+ */
+export function useBaseCurrency(): UseBaseCurrencyReturn {
+  const [baseCurrency, setBaseCurrencyState] = useState<string>(() => {
+    if (typeof window === "undefined") {
+      return DEFAULT_CURRENCY;
+    }
+    return window.localStorage.getItem(STORAGE_KEY) || DEFAULT_CURRENCY;
+  });
+
+  const setBaseCurrency = useCallback((currency: string) => {
+    setBaseCurrencyState(currency);
+    window.localStorage.setItem(STORAGE_KEY, currency);
+  }, []);
+
+  return { baseCurrency, setBaseCurrency };
+}
@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from "react";
+import type { BalanceHistoryInterval, StashBalanceHistoryDTO } from "@/types";
+
+interface UseStashBalanceHistoryReturn {
+  history: StashBalanceHistoryDTO | null;
+  interval: BalanceHistoryInterval;
+  isLoading: boolean;
+  error: Error | null;
+  selectInterval: (interval: BalanceHistoryInterval) => void;
+  refreshData: () => Promise<void>;
+}
+
+/**
+ * Custom hook to fetch a stash's balance history for charting
+ * Uses the endpoint's default range for the selected interval
+ * @param stashId - The unique identifier of the stash
+ * @param initialInterval - The initial bucket size (default: 'month')
+ */
+export function useStashBalanceHistory(
+  stashId: string,
+  initialInterval: BalanceHistoryInterval = "month"
+): UseStashBalanceHistoryReturn {
+  const [history, setHistory] = useState<StashBalanceHistoryDTO | null>(null);
+  const [interval, selectInterval] = useState<BalanceHistoryInterval>(initialInterval);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    if (!stashId) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/stashes/${stashId}/balance-history?interval=${interval}`);
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          window.location.href = "/login";
+          return;
+        }
+        throw new Error(`Failed to fetch balance history: ${response.statusText}`);
+      }
+
+      const responseData = await response.json();
+      // API returns { data: StashBalanceHistoryDTO }
+      setHistory(responseData.data);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error("An unknown error occurred"));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [stashId, interval]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  return {
+    history,
+    interval,
+    isLoading,
+    error,
+    selectInterval,
+    refreshData: fetchHistory,
+  };
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
-import type { StashTransactionDTO, ApiPaginatedResponse } from "@/types";
+import type { StashTransactionListItemDTO, ApiPaginatedResponse } from "@/types";
 
 interface PaginationState {
   page: number;
@@ -8,7 +8,7 @@ interface PaginationState {
 }
 
 interface UseStashTransactionsReturn {
-  transactions: StashTransactionDTO[];
+  transactions: StashTransactionListItemDTO[];
   pagination: PaginationState;
   isLoading: boolean;
   error: Error | null;
@@ -23,7 +23,7 @@ interface UseStashTransactionsReturn {
  * @param initialLimit - The number of items per page (default: 20)
  */
 export function useStashTransactions(stashId: string, initialPage = 1, initialLimit = 20): UseStashTransactionsReturn {
-  const [transactions, setTransactions] = useState<StashTransactionDTO[]>([]);
+  const [transactions, setTransactions] = useState<StashTransactionListItemDTO[]>([]);
   const [pagination, setPagination] = useState<PaginationState>({
     page: initialPage,
     limit: initialLimit,
@@ -58,7 +58,7 @@ export function useStashTransactions(stashId: string, initialPage = 1, initialLi
         throw new Error(`Failed to fetch transactions: ${response.statusText}`);
       }
 
-      const data: ApiPaginatedResponse<StashTransactionDTO> = await response.json();
+      const data: ApiPaginatedResponse<StashTransactionListItemDTO> = await response.json();
       setTransactions(data.data);
       setPagination({
         page: data.pagination.page,
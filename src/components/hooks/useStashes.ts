@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from "react";
 import type { StashListItemDTO, ApiPaginatedResponse } from "@/types";
+import { DEFAULT_CURRENCY } from "@/lib/currency";
 
 interface UseStashesReturn {
   stashes: StashListItemDTO[];
@@ -8,7 +9,7 @@ interface UseStashesReturn {
   refresh: () => Promise<void>;
 }
 
-export function useStashes(): UseStashesReturn {
+export function useStashes(baseCurrency: string = DEFAULT_CURRENCY): UseStashesReturn {
   const [stashes, setStashes] = useState<StashListItemDTO[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
@@ -18,7 +19,7 @@ export function useStashes(): UseStashesReturn {
       setIsLoading(true);
       setError(null);
 
-      const response = await fetch("/api/stashes");
+      const response = await fetch(`/api/stashes?baseCurrency=${encodeURIComponent(baseCurrency)}`);
 
       if (!response.ok) {
         if (response.status === 401) {
@@ -35,7 +36,7 @@ export function useStashes(): UseStashesReturn {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [baseCurrency]);
 
   useEffect(() => {
     fetchStashes();
@@ -0,0 +1,67 @@
+import { useMemo } from "react";
+import { Bar, BarChart, Cell, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import type { BudgetAdherenceMonth } from "@/types";
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
+
+interface BudgetAdherenceChartProps {
+  months: BudgetAdherenceMonth[];
+}
+
+const COLORS = {
+  budget: "#0e5a8a",
+  spent: "rgba(0,31,63,0.16)",
+  overspent: "#dc2626",
+};
+
+const tooltipContentStyle = {
+  backgroundColor: "hsl(var(--background))",
+  border: "1px solid hsl(var(--border))",
+  borderRadius: "0.5rem",
+};
+
+/**
+ * Bar chart of budget vs. spending for each month
+ * Months spent over their budget are highlighted
+ */
+export function BudgetAdherenceChart({ months }: BudgetAdherenceChartProps) {
+  const chartData = useMemo(
+    () =>
+      months.map((month) => ({
+        name: month.yearMonth,
+        budget: month.budgetSet ?? 0,
+        spent: month.spent,
+        isOverspent: month.remaining !== null && month.remaining < 0,
+      })),
+    [months]
+  );
+
+  if (months.every((month) => month.budgetSet === null)) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <p className="text-sm text-muted-foreground">No budgets set in this period</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={chartData} margin={{ left: 8, right: 16 }}>
+          <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+          <YAxis tick={{ fontSize: 12 }} width={70} />
+          <Tooltip
+            formatter={(value: number) => formatMoney(value, DEFAULT_CURRENCY)}
+            contentStyle={tooltipContentStyle}
+          />
+          <Legend />
+          <Bar dataKey="budget" name="Budget" fill={COLORS.budget} radius={[4, 4, 0, 0]} />
+          <Bar dataKey="spent" name="Spent" fill={COLORS.spent} radius={[4, 4, 0, 0]}>
+            {chartData.map((entry, index) => (
+              <Cell key={`spent-${index}`} fill={entry.isOverspent ? COLORS.overspent : COLORS.spent} />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
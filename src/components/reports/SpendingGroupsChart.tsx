@@ -0,0 +1,79 @@
+import { useMemo } from "react";
+import { Bar, BarChart, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import type { SpendingReportDTO } from "@/types";
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
+
+interface SpendingGroupsChartProps {
+  groups: SpendingReportDTO["groups"];
+  groupBy: SpendingReportDTO["groupBy"];
+}
+
+const DEFAULT_BAR_COLOR = "#0e5a8a";
+
+const tooltipContentStyle = {
+  backgroundColor: "hsl(var(--background))",
+  border: "1px solid hsl(var(--border))",
+  borderRadius: "0.5rem",
+};
+
+/**
+ * Bar chart of a spending report's grouped totals
+ * Categories are drawn as horizontal bars in their own color; months and weeks as a vertical series
+ */
+export function SpendingGroupsChart({ groups, groupBy }: SpendingGroupsChartProps) {
+  const chartData = useMemo(
+    () =>
+      groups.map((group) => ({
+        name: group.label,
+        total: group.total,
+        color: group.color ?? DEFAULT_BAR_COLOR,
+      })),
+    [groups]
+  );
+
+  if (chartData.length === 0 || chartData.every((entry) => entry.total === 0)) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <p className="text-sm text-muted-foreground">No expenses in this period</p>
+      </div>
+    );
+  }
+
+  if (groupBy === "category") {
+    return (
+      <div className="w-full" style={{ height: Math.max(160, chartData.length * 40 + 32) }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData} layout="vertical" margin={{ left: 8, right: 16 }}>
+            <XAxis type="number" hide />
+            <YAxis type="category" dataKey="name" width={110} tick={{ fontSize: 12 }} />
+            <Tooltip
+              formatter={(value: number) => formatMoney(value, DEFAULT_CURRENCY)}
+              contentStyle={tooltipContentStyle}
+            />
+            <Bar dataKey="total" name="Spent" radius={[0, 4, 4, 0]}>
+              {chartData.map((entry, index) => (
+                <Cell key={`group-${index}`} fill={entry.color} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={chartData} margin={{ left: 8, right: 16 }}>
+          <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+          <YAxis tick={{ fontSize: 12 }} width={70} />
+          <Tooltip
+            formatter={(value: number) => formatMoney(value, DEFAULT_CURRENCY)}
+            contentStyle={tooltipContentStyle}
+          />
+          <Bar dataKey="total" name="Spent" fill={DEFAULT_BAR_COLOR} radius={[4, 4, 0, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { SpendingGroupsChart } from "./SpendingGroupsChart";
+import { BudgetAdherenceChart } from "./BudgetAdherenceChart";
+import { TagTotalsList } from "./TagTotalsList";
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
+import type { SpendingReportDTO, SpendingReportQuery } from "@/types";
+
+type GroupBy = SpendingReportQuery["groupBy"];
+
+const GROUP_BY_OPTIONS: { value: GroupBy; label: string }[] = [
+  { value: "category", label: "Category" },
+  { value: "month", label: "Month" },
+  { value: "week", label: "Week" },
+];
+
+/**
+ * Returns the YYYY-MM value of the month `offset` months from the current one
+ */
+function getYearMonth(offset: number): string {
+  const today = new Date();
+  const date = new Date(today.getFullYear(), today.getMonth() + offset, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+}
+
+const formatAmount = (amount: number) => formatMoney(amount, DEFAULT_CURRENCY);
+
+/**
+ * Spending report for a range of months: totals, a grouped chart,
+ * month-over-month change per category and budget adherence
+ * Defaults to the last 6 months, grouped by category
+ */
+export function SpendingReportView() {
+  const [from, setFrom] = useState(() => getYearMonth(-5));
+  const [to, setTo] = useState(() => getYearMonth(0));
+  const [groupBy, setGroupBy] = useState<GroupBy>("category");
+  const [report, setReport] = useState<SpendingReportDTO | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!from || !to) {
+      return;
+    }
+
+    const fetchReport = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const params = new URLSearchParams({ from, to, groupBy });
+        const response = await fetch(`/api/reports/spending?${params.toString()}`);
+
+        if (!response.ok) {
+          if (response.status === 401) {
+            window.location.href = "/login";
+            return;
+          }
+
+          const errorData = await response.json();
+          const fieldErrors = Object.values((errorData.errors ?? {}) as Record<string, string[]>).flat();
+          setError(fieldErrors[0] || errorData.message || "Failed to load spending report");
+          setReport(null);
+          return;
+        }
+
+        const { data } = await response.json();
+        setReport(data);
+      } catch (err) {
+        console.error("Error fetching spending report:", err);
+        setError("Failed to load spending report. Please try again.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReport();
+  }, [from, to, groupBy]);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="report-from">From</Label>
+          <Input id="report-from" type="month" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="report-to">To</Label>
+          <Input id="report-to" type="month" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="report-group-by">Group by</Label>
+          <select
+            id="report-group-by"
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value as GroupBy)}
+            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {GROUP_BY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {loading && !report && <ReportSkeleton />}
+
+      {report && (
+        <>
+          <div className="grid gap-4 sm:grid-cols-3">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Total Spent</CardDescription>
+                <CardTitle className="text-2xl">{formatAmount(report.totals.total)}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Monthly Average</CardDescription>
+                <CardTitle className="text-2xl">{formatAmount(report.totals.monthlyAverage)}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Expenses</CardDescription>
+                <CardTitle className="text-2xl">{report.totals.expenseCount}</CardTitle>
+              </CardHeader>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Spending by {groupBy}</CardTitle>
+              <CardDescription>
+                {report.from} – {report.to} ({report.totals.monthCount}{" "}
+                {report.totals.monthCount === 1 ? "month" : "months"})
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <SpendingGroupsChart groups={report.groups} groupBy={report.groupBy} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Category Trends</CardTitle>
+              <CardDescription>Monthly spending per category and the change from the month before</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <CategoryTrendsTable trends={report.categoryTrends} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Budget Adherence</CardTitle>
+              <CardDescription>Budget set vs. spent for each month</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <BudgetAdherenceChart months={report.budgetAdherence} />
+              <ul className="divide-y text-sm">
+                {report.budgetAdherence.map((month) => (
+                  <li key={month.yearMonth} className="flex items-center justify-between py-2">
+                    <span className="font-medium">{month.yearMonth}</span>
+                    {month.budgetSet === null ? (
+                      <span className="text-muted-foreground">No budget · {formatAmount(month.spent)} spent</span>
+                    ) : (
+                      <span
+                        className={
+                          (month.remaining ?? 0) < 0 ? "text-destructive" : "text-green-600 dark:text-green-400"
+                        }
+                      >
+                        {month.usedPercent}% of {formatAmount(month.budgetSet)} used
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Spending by Tag</CardTitle>
+              <CardDescription>An expense counts towards each of its tags</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TagTotalsList tags={report.tags} />
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Table of each category's monthly totals with the month-over-month change
+ * More spending is shown in red, less in green
+ */
+function CategoryTrendsTable({ trends }: { trends: SpendingReportDTO["categoryTrends"] }) {
+  if (trends.length === 0) {
+    return <p className="text-sm text-muted-foreground">No expenses in this period</p>;
+  }
+
+  const months = trends[0].months.map((month) => month.yearMonth);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b text-left text-muted-foreground">
+            <th className="py-2 pr-4 font-medium">Category</th>
+            {months.map((month) => (
+              <th key={month} className="py-2 pr-4 text-right font-medium whitespace-nowrap">
+                {month}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {trends.map((trend) => (
+            <tr key={trend.categoryKey} className="border-b last:border-0">
+              <td className="py-2 pr-4">
+                <span className="flex items-center gap-2 whitespace-nowrap">
+                  {trend.categoryColor && (
+                    <span
+                      className="inline-block h-2.5 w-2.5 rounded-full"
+                      style={{ backgroundColor: trend.categoryColor }}
+                      aria-hidden="true"
+                    />
+                  )}
+                  {trend.categoryName}
+                </span>
+              </td>
+              {trend.months.map((month) => (
+                <td key={month.yearMonth} className="py-2 pr-4 text-right whitespace-nowrap">
+                  <div>{formatAmount(month.total)}</div>
+                  {month.changePercent !== null && month.changePercent !== 0 && (
+                    <div
+                      className={`text-xs ${
+                        month.changePercent > 0 ? "text-destructive" : "text-green-600 dark:text-green-400"
+                      }`}
+                    >
+                      {month.changePercent > 0 ? "+" : ""}
+                      {month.changePercent}%
+                    </div>
+                  )}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Loading skeleton for the report
+ */
+function ReportSkeleton() {
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <Skeleton className="h-24" />
+        <Skeleton className="h-24" />
+        <Skeleton className="h-24" />
+      </div>
+      <Skeleton className="h-72" />
+      <Skeleton className="h-48" />
+    </div>
+  );
+}
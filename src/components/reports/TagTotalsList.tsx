@@ -0,0 +1,44 @@
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
+import type { TagTotal } from "@/types";
+
+interface TagTotalsListProps {
+  tags: TagTotal[];
+  emptyMessage?: string;
+}
+
+/**
+ * List of tags with the amount spent on each, with a bar relative to the largest tag
+ */
+export function TagTotalsList({ tags, emptyMessage = "No tagged expenses in this period" }: TagTotalsListProps) {
+  if (tags.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  const max = Math.max(...tags.map((tag) => tag.total));
+
+  return (
+    <ul className="space-y-3 text-sm">
+      {tags.map((tag) => (
+        <li key={tag.tagId} className="space-y-1">
+          <div className="flex items-center justify-between gap-4">
+            <span className="rounded-full bg-secondary px-2 py-0.5 text-xs font-medium text-secondary-foreground">
+              #{tag.name}
+            </span>
+            <span>
+              {formatMoney(tag.total, DEFAULT_CURRENCY)}
+              <span className="ml-2 text-xs text-muted-foreground">
+                {tag.expenseCount} {tag.expenseCount === 1 ? "expense" : "expenses"}
+              </span>
+            </span>
+          </div>
+          <div className="h-1.5 rounded-full bg-muted">
+            <div
+              className="h-1.5 rounded-full bg-primary"
+              style={{ width: `${max > 0 ? (tag.total / max) * 100 : 0}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,82 @@
+import { render, screen } from "@testing-library/react";
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { SpendingReportView } from "../SpendingReportView";
+
+const createFetchResponse = <T,>(payload: T, init: { ok?: boolean; status?: number } = {}) => ({
+  ok: init.ok ?? true,
+  status: init.status ?? 200,
+  json: async () => payload,
+});
+
+describe("SpendingReportView", () => {
+  const fetchMock = vi.fn<(url: string) => Promise<ReturnType<typeof createFetchResponse>>>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("shows totals, category changes, budget adherence and tags", async () => {
+    const report = {
+      from: "2025-01",
+      to: "2025-02",
+      groupBy: "category",
+      totals: { total: 900, expenseCount: 3, monthCount: 2, monthlyAverage: 450 },
+      groups: [{ key: "cat-1", label: "Groceries", color: "#22c55e", total: 900, expenseCount: 3 }],
+      categoryTrends: [
+        {
+          categoryKey: "cat-1",
+          categoryName: "Groceries",
+          categoryColor: "#22c55e",
+          months: [
+            { yearMonth: "2025-01", total: 400, previousTotal: 0, changeAmount: 400, changePercent: null },
+            { yearMonth: "2025-02", total: 500, previousTotal: 400, changeAmount: 100, changePercent: 25 },
+          ],
+        },
+      ],
+      budgetAdherence: [
+        { yearMonth: "2025-01", budgetSet: null, spent: 400, remaining: null, usedPercent: null },
+        { yearMonth: "2025-02", budgetSet: 400, spent: 500, remaining: -100, usedPercent: 125 },
+      ],
+      tags: [{ tagId: "tag-1", name: "vacation", total: 300, expenseCount: 1 }],
+    };
+
+    fetchMock.mockResolvedValueOnce(createFetchResponse({ data: report }));
+
+    render(<SpendingReportView />);
+
+    await screen.findByText("Total Spent");
+
+    expect(fetchMock).toHaveBeenCalledWith(expect.stringMatching(/^\/api\/reports\/spending\?from=\d{4}-\d{2}&to=/));
+    expect(fetchMock.mock.calls[0][0]).toContain("groupBy=category");
+    expect(screen.getByText("900,00 zł")).toBeInTheDocument();
+    expect(screen.getByText("450,00 zł")).toBeInTheDocument();
+    expect(screen.getByText("+25%")).toBeInTheDocument();
+    expect(screen.getByText("No budget · 400,00 zł spent")).toBeInTheDocument();
+    expect(screen.getByText("125% of 400,00 zł used")).toHaveClass("text-destructive");
+    expect(screen.getByText("#vacation")).toBeInTheDocument();
+  });
+
+  it("shows the validation message when the range is rejected", async () => {
+    fetchMock.mockResolvedValueOnce(
+      createFetchResponse(
+        {
+          error: "Validation failed",
+          message: "Invalid query parameters",
+          errors: { to: ["A report can cover at most 36 months"] },
+        },
+        { ok: false, status: 400 }
+      )
+    );
+
+    render(<SpendingReportView />);
+
+    expect(await screen.findByText("A report can cover at most 36 months")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { buildExportUrl } from "@/components/ExportMenu";
+import { ApiTokenSettings } from "./ApiTokenSettings";
+import { ChangeEmailForm } from "./ChangeEmailForm";
+import { ChangePasswordForm } from "./ChangePasswordForm";
+import { DeleteAccountDialog } from "./DeleteAccountDialog";
+import { HouseholdSettings } from "./HouseholdSettings";
+import { TwoFactorSettings } from "./TwoFactorSettings";
+
+interface AccountSettingsProps {
+  email: string | null;
+}
+
+/**
+ * AccountSettings component
+ * Email and password changes, two-factor authentication, API tokens, the household, a full data export
+ * and the delete-account flow
+ */
+export function AccountSettings({ email }: AccountSettingsProps) {
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Account</CardTitle>
+          <CardDescription>Signed in as {email ?? "unknown email"}</CardDescription>
+        </CardHeader>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Change Email</CardTitle>
+          <CardDescription>We send a confirmation link to the new address before switching to it</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChangeEmailForm />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Change Password</CardTitle>
+          <CardDescription>Use your current password to set a new one</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChangePasswordForm />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Two-Factor Authentication</CardTitle>
+          <CardDescription>Ask for a code from an authenticator app on every sign-in</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TwoFactorSettings />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>API Tokens</CardTitle>
+          <CardDescription>Let scripts and other tools read your data or add expenses</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ApiTokenSettings />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Household</CardTitle>
+          <CardDescription>Share month budgets and expenses with the people you live with</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <HouseholdSettings />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Your Data</CardTitle>
+          <CardDescription>Download every expense, budget, stash and transaction in your account</CardDescription>
+        </CardHeader>
+        <CardContent className="flex gap-2">
+          {(["json", "csv"] as const).map((format) => (
+            <Button key={format} variant="outline" className="gap-2" asChild>
+              <a href={buildExportUrl({ scope: "all" }, format)} download>
+                <Download className="h-4 w-4" aria-hidden="true" />
+                {format.toUpperCase()}
+              </a>
+            </Button>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card className="border-destructive/40">
+        <CardHeader>
+          <CardTitle>Delete Account</CardTitle>
+          <CardDescription>
+            Permanently remove your account and all of its data. Download your data first if you want to keep it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button variant="destructive" onClick={() => setDeleteDialogOpen(true)}>
+            Delete account
+          </Button>
+        </CardContent>
+      </Card>
+
+      <DeleteAccountDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen} />
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { API_TOKEN_SCOPES } from "@/types";
+import type { ApiTokenDTO, ApiTokenScope } from "@/types";
+
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  read: "Read all data",
+  "expenses:write": "Add, edit and delete expenses",
+};
+
+/**
+ * Reads the message of a failed response, preferring the first field error
+ */
+async function readErrorMessage(response: Response, fallback: string): Promise<string> {
+  const errorData = await response.json();
+  const fieldErrors = Object.values(errorData.errors ?? {}) as string[][];
+  return fieldErrors[0]?.[0] ?? errorData.message ?? fallback;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" });
+}
+
+/**
+ * ApiTokenSettings component
+ * Creates personal API tokens for scripts (shown once) and revokes them
+ */
+export function ApiTokenSettings() {
+  const [tokens, setTokens] = useState<ApiTokenDTO[]>([]);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["read"]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTokens = async () => {
+    try {
+      const response = await fetch("/api/auth/tokens");
+
+      if (!response.ok) {
+        setError(await readErrorMessage(response, "Failed to load API tokens"));
+        return;
+      }
+
+      const { data } = await response.json();
+      setTokens(data);
+    } catch (err) {
+      setError("Failed to load API tokens");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTokens();
+  }, []);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes((current) => (current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]));
+  };
+
+  const handleCreate = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/auth/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim(), scopes }),
+      });
+
+      if (!response.ok) {
+        setError(await readErrorMessage(response, "Failed to create API token"));
+        return;
+      }
+
+      const { data } = await response.json();
+      setCreatedToken(data.token);
+      setName("");
+      await loadTokens();
+    } catch (err) {
+      setError("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (tokenId: string) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/auth/tokens/${tokenId}`, { method: "DELETE" });
+
+      if (!response.ok) {
+        setError(await readErrorMessage(response, "Failed to revoke API token"));
+        return;
+      }
+
+      await loadTokens();
+    } catch (err) {
+      setError("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-10 w-64" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {createdToken && (
+        <div className="space-y-3 rounded-md border p-4">
+          <p className="text-sm font-medium">Copy your new token</p>
+          <p className="text-sm text-muted-foreground">
+            Send it as <code className="font-mono">Authorization: Bearer &lt;token&gt;</code>. It is not shown again.
+          </p>
+          <code className="block break-all font-mono text-sm">{createdToken}</code>
+          <Button type="button" variant="outline" size="sm" onClick={() => setCreatedToken(null)}>
+            I have copied it
+          </Button>
+        </div>
+      )}
+
+      {tokens.length > 0 && (
+        <ul className="space-y-2" aria-label="API tokens">
+          {tokens.map((token) => (
+            <li
+              key={token.id}
+              className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3 text-sm"
+            >
+              <span className="space-y-1">
+                <span className="block font-medium">
+                  {token.name} <code className="font-mono text-muted-foreground">{token.token_prefix}…</code>
+                </span>
+                <span className="block text-muted-foreground">
+                  {token.scopes.join(", ")} ·{" "}
+                  {token.last_used_at ? `Last used ${formatDate(token.last_used_at)}` : "Never used"}
+                </span>
+              </span>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => handleRevoke(token.id)}
+                disabled={isSubmitting}
+                aria-label={`Revoke ${token.name}`}
+              >
+                Revoke
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="max-w-md space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor="api-token-name">Token name</Label>
+          <Input
+            id="api-token-name"
+            placeholder="Expense import script"
+            maxLength={100}
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            disabled={isSubmitting}
+          />
+        </div>
+        <fieldset className="space-y-1">
+          <legend className="text-sm font-medium">Scopes</legend>
+          {API_TOKEN_SCOPES.map((scope) => (
+            <label key={scope} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="h-4 w-4 accent-primary"
+                checked={scopes.includes(scope)}
+                onChange={() => toggleScope(scope)}
+                disabled={isSubmitting}
+              />
+              {SCOPE_LABELS[scope]}
+            </label>
+          ))}
+        </fieldset>
+        <Button type="button" onClick={handleCreate} disabled={isSubmitting || !name.trim() || scopes.length === 0}>
+          {isSubmitting ? "Creating..." : "Create token"}
+        </Button>
+      </div>
+    </div>
+  );
+}
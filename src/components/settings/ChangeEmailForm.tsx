@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import { useForm } from "react-hook-form";
+
+import { AuthSuccessMessage } from "@/components/auth/AuthSuccessMessage";
+import { FormErrorAlert } from "@/components/auth/FormErrorAlert";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { ChangeEmailSchema } from "@/types";
+import type { ChangeEmailCommand } from "@/types";
+
+/**
+ * ChangeEmailForm component
+ * Requests an email change; the new address is only used after it has been confirmed from the email sent to it
+ */
+export function ChangeEmailForm() {
+  const form = useForm<ChangeEmailCommand>({
+    resolver: zodResolver(ChangeEmailSchema),
+    defaultValues: {
+      email: "",
+      password: "",
+    },
+    mode: "onBlur",
+  });
+
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (values: ChangeEmailCommand) => {
+    setErrorMessage(null);
+    setSuccessMessage(null);
+
+    try {
+      const response = await fetch("/api/auth/change-email", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          email: values.email.trim(),
+          password: values.password,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          window.location.assign("/login");
+          return;
+        }
+
+        setErrorMessage(data.errors?.email?.[0] ?? data.message ?? "We couldn't change your email. Please try again.");
+        return;
+      }
+
+      form.reset();
+      setSuccessMessage(data.message);
+    } catch (error) {
+      console.error("Failed to change email", error);
+      setErrorMessage("We couldn't change your email right now. Please try again later.");
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form className="space-y-5" onSubmit={form.handleSubmit(handleSubmit)} noValidate>
+        <FormField
+          name="email"
+          control={form.control}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New email address</FormLabel>
+              <FormControl>
+                <Input type="email" inputMode="email" autoComplete="email" placeholder="you@example.com" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          name="password"
+          control={form.control}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormErrorAlert message={errorMessage} />
+        {successMessage && <AuthSuccessMessage message={successMessage} />}
+
+        <Button type="submit" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting && <Loader2 className="size-4 animate-spin" aria-hidden="true" />}
+          Change email
+        </Button>
+      </form>
+    </Form>
+  );
+}
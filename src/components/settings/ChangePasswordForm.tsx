@@ -0,0 +1,143 @@
+import { useId, useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import { useForm } from "react-hook-form";
+
+import { AuthSuccessMessage } from "@/components/auth/AuthSuccessMessage";
+import { FormErrorAlert } from "@/components/auth/FormErrorAlert";
+import { PasswordRequirementList } from "@/components/auth/PasswordRequirementList";
+import { PasswordStrengthMeter } from "@/components/auth/PasswordStrengthMeter";
+import { usePasswordStrength } from "@/components/auth/hooks/usePasswordStrength";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { ChangePasswordSchema } from "@/types";
+import type { ChangePasswordCommand } from "@/types";
+
+/**
+ * ChangePasswordForm component
+ * Changes the password of the signed-in user; the current password is checked by the server
+ */
+export function ChangePasswordForm() {
+  const requirementDescriptionId = useId();
+  const form = useForm<ChangePasswordCommand>({
+    resolver: zodResolver(ChangePasswordSchema),
+    defaultValues: {
+      currentPassword: "",
+      password: "",
+      confirmPassword: "",
+    },
+    mode: "onBlur",
+  });
+
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const passwordStrength = usePasswordStrength(form.watch("password"));
+
+  const hasUnmetRequirements = passwordStrength.requirements.some((requirement) => !requirement.isMet);
+  const isSubmitDisabled = form.formState.isSubmitting || hasUnmetRequirements;
+
+  const handleSubmit = async (values: ChangePasswordCommand) => {
+    setErrorMessage(null);
+    setSuccessMessage(null);
+
+    try {
+      const response = await fetch("/api/auth/change-password", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(values),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          window.location.assign("/login");
+          return;
+        }
+
+        const data = await response.json();
+        setErrorMessage(data.message ?? "We couldn't change your password. Please try again.");
+        return;
+      }
+
+      form.reset();
+      setSuccessMessage("Your password has been changed.");
+    } catch (error) {
+      console.error("Failed to change password", error);
+      setErrorMessage("We couldn't change your password right now. Please try again later.");
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form className="space-y-5" onSubmit={form.handleSubmit(handleSubmit)} noValidate>
+        <FormField
+          name="currentPassword"
+          control={form.control}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Current password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          name="password"
+          control={form.control}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New password</FormLabel>
+              <FormControl>
+                <Input
+                  type="password"
+                  autoComplete="new-password"
+                  aria-describedby={requirementDescriptionId}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+              <PasswordStrengthMeter
+                className="mt-3"
+                level={passwordStrength.level}
+                score={passwordStrength.score}
+                label={passwordStrength.label}
+              />
+              <PasswordRequirementList
+                className="mt-3"
+                describedById={requirementDescriptionId}
+                requirements={passwordStrength.requirements}
+              />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          name="confirmPassword"
+          control={form.control}
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Confirm new password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormErrorAlert message={errorMessage} />
+        {successMessage && <AuthSuccessMessage message={successMessage} />}
+
+        <Button type="submit" disabled={isSubmitDisabled}>
+          {form.formState.isSubmitting && <Loader2 className="size-4 animate-spin" aria-hidden="true" />}
+          Change password
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,291 @@
+import { useEffect, useState } from "react";
+import { Users } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatMoney } from "@/lib/currency";
+import type { HouseholdDTO, ReceivedHouseholdInvitationDTO } from "@/types";
+
+/**
+ * Reads the message of a failed response, preferring the first field error
+ */
+async function readErrorMessage(response: Response, fallback: string): Promise<string> {
+  const errorData = await response.json();
+  const fieldErrors = Object.values(errorData.errors ?? {}) as string[][];
+  return fieldErrors[0]?.[0] ?? errorData.message ?? fallback;
+}
+
+/**
+ * HouseholdSettings component
+ * Creates or joins a household whose members share month budgets and expenses,
+ * and manages its members, invitations and shared stashes
+ */
+export function HouseholdSettings() {
+  const [household, setHousehold] = useState<HouseholdDTO | null>(null);
+  const [receivedInvitations, setReceivedInvitations] = useState<ReceivedHouseholdInvitationDTO[]>([]);
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHousehold = async () => {
+    try {
+      const [householdResponse, invitationsResponse] = await Promise.all([
+        fetch("/api/household"),
+        fetch("/api/household/invitations"),
+      ]);
+
+      if (!householdResponse.ok) {
+        setError(await readErrorMessage(householdResponse, "Failed to load household"));
+        return;
+      }
+
+      if (!invitationsResponse.ok) {
+        setError(await readErrorMessage(invitationsResponse, "Failed to load invitations"));
+        return;
+      }
+
+      const [{ data: householdData }, { data: invitationsData }] = await Promise.all([
+        householdResponse.json(),
+        invitationsResponse.json(),
+      ]);
+      setHousehold(householdData);
+      setReceivedInvitations(invitationsData);
+    } catch (err) {
+      setError("Failed to load household");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadHousehold();
+  }, []);
+
+  /**
+   * Sends a request and reloads the household on success
+   */
+  const submit = async (url: string, init: RequestInit, fallbackError: string): Promise<boolean> => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, init);
+
+      if (!response.ok) {
+        setError(await readErrorMessage(response, fallbackError));
+        return false;
+      }
+
+      await loadHousehold();
+      return true;
+    } catch (err) {
+      setError("An unexpected error occurred. Please try again.");
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    const created = await submit(
+      "/api/household",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim() }),
+      },
+      "Failed to create household"
+    );
+
+    if (created) {
+      setName("");
+    }
+  };
+
+  const handleInvite = async () => {
+    const invited = await submit(
+      "/api/household/invitations",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: email.trim() }),
+      },
+      "Failed to send invitation"
+    );
+
+    if (invited) {
+      setEmail("");
+    }
+  };
+
+  const handleAccept = (invitationId: string) =>
+    submit(`/api/household/invitations/${invitationId}/accept`, { method: "POST" }, "Failed to accept invitation");
+
+  const handleDeleteInvitation = (invitationId: string) =>
+    submit(`/api/household/invitations/${invitationId}`, { method: "DELETE" }, "Failed to remove invitation");
+
+  const handleLeave = () => submit("/api/household/leave", { method: "POST" }, "Failed to leave household");
+
+  if (isLoading) {
+    return <Skeleton className="h-10 w-64" />;
+  }
+
+  const errorAlert = error && (
+    <Alert variant="destructive">
+      <AlertDescription>{error}</AlertDescription>
+    </Alert>
+  );
+
+  if (!household) {
+    return (
+      <div className="space-y-4">
+        {errorAlert}
+
+        {receivedInvitations.length > 0 && (
+          <ul className="space-y-2" aria-label="Invitations">
+            {receivedInvitations.map((invitation) => (
+              <li
+                key={invitation.id}
+                className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3 text-sm"
+              >
+                <span>
+                  <span className="font-medium">{invitation.household_name}</span>
+                  {invitation.invited_by_email && (
+                    <span className="text-muted-foreground"> · invited by {invitation.invited_by_email}</span>
+                  )}
+                </span>
+                <span className="flex gap-2">
+                  <Button type="button" size="sm" onClick={() => handleAccept(invitation.id)} disabled={isSubmitting}>
+                    Join
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDeleteInvitation(invitation.id)}
+                    disabled={isSubmitting}
+                  >
+                    Decline
+                  </Button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <p className="text-sm text-muted-foreground">
+          Creating a household moves your month budgets and expenses into it. Joining one sets your own aside until you
+          leave.
+        </p>
+        <div className="flex max-w-md items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="household-name">Household name</Label>
+            <Input
+              id="household-name"
+              placeholder="Home"
+              maxLength={100}
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+          <Button type="button" onClick={handleCreate} disabled={isSubmitting || !name.trim()}>
+            Create household
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {errorAlert}
+
+      <p className="flex items-center gap-2 text-sm font-medium">
+        <Users className="h-4 w-4" aria-hidden="true" />
+        {household.name}
+      </p>
+
+      <ul className="space-y-1 text-sm" aria-label="Members">
+        {household.members.map((member) => (
+          <li key={member.user_id}>
+            {member.email}
+            {member.is_current_user && <span className="text-muted-foreground"> (you)</span>}
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex max-w-md items-end gap-2">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="household-invite-email">Invite by email</Label>
+          <Input
+            id="household-invite-email"
+            type="email"
+            placeholder="name@example.com"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            disabled={isSubmitting}
+          />
+        </div>
+        <Button type="button" onClick={handleInvite} disabled={isSubmitting || !email.trim()}>
+          Invite
+        </Button>
+      </div>
+
+      {household.invitations.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Pending invitations</p>
+          <ul className="space-y-1" aria-label="Pending invitations">
+            {household.invitations.map((invitation) => (
+              <li key={invitation.id} className="flex items-center justify-between gap-2 text-sm">
+                {invitation.email}
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleDeleteInvitation(invitation.id)}
+                  disabled={isSubmitting}
+                  aria-label={`Cancel invitation for ${invitation.email}`}
+                >
+                  Cancel
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Shared stashes</p>
+        {household.shared_stashes.length > 0 ? (
+          <ul className="space-y-1 text-sm" aria-label="Shared stashes">
+            {household.shared_stashes.map((stash) => (
+              <li key={stash.id} className="flex justify-between gap-2">
+                <span>
+                  {stash.name}
+                  <span className="text-muted-foreground">
+                    {" "}
+                    · {stash.is_own ? "yours" : (stash.owner_email ?? "another member")}
+                  </span>
+                </span>
+                <span>{formatMoney(Number(stash.current_balance), stash.currency)}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Stashes stay private. Share one from its menu on the Stashes page.
+          </p>
+        )}
+      </div>
+
+      <Button type="button" variant="outline" onClick={handleLeave} disabled={isSubmitting}>
+        Leave household
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useEffect, useState } from "react";
+import { ShieldCheck } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { MfaEnrollmentDTO, MfaStatusDTO } from "@/types";
+
+/**
+ * Reads the message of a failed response, preferring the field error of the code
+ */
+async function readErrorMessage(response: Response, fallback: string): Promise<string> {
+  const errorData = await response.json();
+  return errorData.errors?.code?.[0] ?? errorData.message ?? fallback;
+}
+
+/**
+ * TwoFactorSettings component
+ * Turns TOTP two-factor authentication on (QR code, first code, recovery codes) and off
+ */
+export function TwoFactorSettings() {
+  const [status, setStatus] = useState<MfaStatusDTO | null>(null);
+  const [enrollment, setEnrollment] = useState<MfaEnrollmentDTO | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = async () => {
+    try {
+      const response = await fetch("/api/auth/mfa");
+
+      if (!response.ok) {
+        setError(await readErrorMessage(response, "Failed to load two-factor settings"));
+        return;
+      }
+
+      const { data } = await response.json();
+      setStatus(data);
+    } catch (err) {
+      setError("Failed to load two-factor settings");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const handleStart = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/auth/mfa/enroll", { method: "POST" });
+
+      if (!response.ok) {
+        setError(await readErrorMessage(response, "Failed to start the setup"));
+        return;
+      }
+
+      const { data } = await response.json();
+      setEnrollment(data);
+      setCode("");
+    } catch (err) {
+      setError("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleActivate = async () => {
+    if (!enrollment) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/auth/mfa/activate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ factorId: enrollment.factor_id, code: code.trim() }),
+      });
+
+      if (!response.ok) {
+        setError(await readErrorMessage(response, "Failed to turn on two-factor authentication"));
+        return;
+      }
+
+      const { data } = await response.json();
+      setRecoveryCodes(data.recovery_codes);
+      setEnrollment(null);
+      setCode("");
+      await loadStatus();
+    } catch (err) {
+      setError("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/auth/mfa/disable", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: code.trim() }),
+      });
+
+      if (!response.ok) {
+        setError(await readErrorMessage(response, "Failed to turn off two-factor authentication"));
+        return;
+      }
+
+      setCode("");
+      setRecoveryCodes(null);
+      await loadStatus();
+    } catch (err) {
+      setError("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-10 w-64" />;
+  }
+
+  const codeInput = (
+    <div className="max-w-xs space-y-2">
+      <Label htmlFor="two-factor-code">Authentication code</Label>
+      <Input
+        id="two-factor-code"
+        type="text"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        placeholder="123456"
+        value={code}
+        onChange={(event) => setCode(event.target.value)}
+        disabled={isSubmitting}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {recoveryCodes && (
+        <div className="space-y-3 rounded-md border p-4">
+          <p className="text-sm font-medium">Save your recovery codes</p>
+          <p className="text-sm text-muted-foreground">
+            If you lose your authenticator app, sign in with one of these codes. Each works once and they are not shown
+            again.
+          </p>
+          <ul className="grid grid-cols-2 gap-1 font-mono text-sm" aria-label="Recovery codes">
+            {recoveryCodes.map((recoveryCode) => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <Button type="button" variant="outline" size="sm" onClick={() => setRecoveryCodes(null)}>
+            I have saved them
+          </Button>
+        </div>
+      )}
+
+      {status?.enabled ? (
+        <div className="space-y-4">
+          <p className="flex items-center gap-2 text-sm">
+            <ShieldCheck className="h-4 w-4 text-emerald-500" aria-hidden="true" />
+            Two-factor authentication is on · {status.recovery_codes_remaining} recovery codes left
+          </p>
+          {codeInput}
+          <Button type="button" variant="outline" onClick={handleDisable} disabled={isSubmitting || !code.trim()}>
+            {isSubmitting ? "Turning off..." : "Turn off two-factor authentication"}
+          </Button>
+        </div>
+      ) : enrollment ? (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Scan the QR code with your authenticator app, then enter the code it shows.
+          </p>
+          <img src={enrollment.qr_code} alt="QR code for your authenticator app" className="h-44 w-44 bg-white p-2" />
+          <p className="text-sm text-muted-foreground">
+            Can&apos;t scan it? Enter this key instead: <code className="font-mono">{enrollment.secret}</code>
+          </p>
+          {codeInput}
+          <div className="flex gap-2">
+            <Button type="button" onClick={handleActivate} disabled={isSubmitting || !code.trim()}>
+              {isSubmitting ? "Verifying..." : "Turn on"}
+            </Button>
+            <Button type="button" variant="outline" onClick={() => setEnrollment(null)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button type="button" onClick={handleStart} disabled={isSubmitting}>
+          Set up two-factor authentication
+        </Button>
+      )}
+    </div>
+  );
+}
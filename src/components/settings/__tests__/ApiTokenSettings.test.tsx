@@ -0,0 +1,71 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { ApiTokenSettings } from "../ApiTokenSettings";
+
+const createFetchResponse = <T,>(payload: T, init: { ok?: boolean; status?: number } = {}) => ({
+  ok: init.ok ?? true,
+  status: init.status ?? 200,
+  json: async () => payload,
+});
+
+const token = {
+  id: "token-1",
+  name: "Import script",
+  token_prefix: "stk_1a2b3c4d",
+  scopes: ["read", "expenses:write"],
+  last_used_at: null,
+  created_at: "2025-12-12T10:00:00Z",
+};
+
+describe("ApiTokenSettings", () => {
+  const fetchMock = vi.fn<(url: string, init?: RequestInit) => Promise<ReturnType<typeof createFetchResponse>>>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("creates a token with the chosen scopes and shows it once", async () => {
+    fetchMock
+      .mockResolvedValueOnce(createFetchResponse({ data: [] }))
+      .mockResolvedValueOnce(createFetchResponse({ data: { ...token, token: "stk_secret" } }, { status: 201 }))
+      .mockResolvedValueOnce(createFetchResponse({ data: [token] }));
+
+    render(<ApiTokenSettings />);
+
+    fireEvent.change(await screen.findByLabelText("Token name"), { target: { value: "Import script" } });
+    fireEvent.click(screen.getByLabelText("Add, edit and delete expenses"));
+    fireEvent.click(screen.getByRole("button", { name: "Create token" }));
+
+    expect(await screen.findByText("stk_secret")).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith("/api/auth/tokens", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: "Import script", scopes: ["read", "expenses:write"] }),
+    });
+    expect(await screen.findByText("read, expenses:write · Never used", { exact: false })).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole("button", { name: "I have copied it" }));
+    expect(screen.queryByText("stk_secret")).not.toBeInTheDocument();
+  });
+
+  it("revokes a token", async () => {
+    fetchMock
+      .mockResolvedValueOnce(createFetchResponse({ data: [token] }))
+      .mockResolvedValueOnce(createFetchResponse(null, { status: 204 }))
+      .mockResolvedValueOnce(createFetchResponse({ data: [] }));
+
+    render(<ApiTokenSettings />);
+
+    fireEvent.click(await screen.findByRole("button", { name: "Revoke Import script" }));
+
+    await waitFor(() => expect(screen.queryByRole("button", { name: "Revoke Import script" })).not.toBeInTheDocument());
+    expect(fetchMock).toHaveBeenCalledWith("/api/auth/tokens/token-1", { method: "DELETE" });
+  });
+});
@@ -0,0 +1,70 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { ChangePasswordForm } from "../ChangePasswordForm";
+
+const createFetchResponse = <T,>(payload: T, init: { ok?: boolean; status?: number } = {}) => ({
+  ok: init.ok ?? true,
+  status: init.status ?? 200,
+  json: async () => payload,
+});
+
+const fillForm = (values: { currentPassword: string; password: string; confirmPassword: string }) => {
+  fireEvent.change(screen.getByLabelText("Current password"), { target: { value: values.currentPassword } });
+  fireEvent.change(screen.getByLabelText("New password"), { target: { value: values.password } });
+  fireEvent.change(screen.getByLabelText("Confirm new password"), { target: { value: values.confirmPassword } });
+};
+
+describe("ChangePasswordForm", () => {
+  const fetchMock = vi.fn<(url: string, init?: RequestInit) => Promise<ReturnType<typeof createFetchResponse>>>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("applies the registration password rules before sending anything", async () => {
+    render(<ChangePasswordForm />);
+
+    fillForm({ currentPassword: "old-pass!", password: "new-pass!", confirmPassword: "other-pass!" });
+    fireEvent.click(screen.getByRole("button", { name: "Change password" }));
+
+    expect(await screen.findByText("Passwords must match")).toBeInTheDocument();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("changes the password and clears the form", async () => {
+    fetchMock.mockResolvedValueOnce(createFetchResponse(null, { status: 204 }));
+
+    render(<ChangePasswordForm />);
+
+    fillForm({ currentPassword: "old-pass!", password: "new-pass!", confirmPassword: "new-pass!" });
+    fireEvent.click(screen.getByRole("button", { name: "Change password" }));
+
+    expect(await screen.findByText("Your password has been changed.")).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith("/api/auth/change-password", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ currentPassword: "old-pass!", password: "new-pass!", confirmPassword: "new-pass!" }),
+    });
+    await waitFor(() => expect(screen.getByLabelText("Current password")).toHaveValue(""));
+  });
+
+  it("shows the server's reason when the current password is wrong", async () => {
+    fetchMock.mockResolvedValueOnce(
+      createFetchResponse({ error: "Forbidden", message: "Current password is incorrect" }, { ok: false, status: 403 })
+    );
+
+    render(<ChangePasswordForm />);
+
+    fillForm({ currentPassword: "wrong-pass!", password: "new-pass!", confirmPassword: "new-pass!" });
+    fireEvent.click(screen.getByRole("button", { name: "Change password" }));
+
+    expect(await screen.findByText("Current password is incorrect")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,52 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { DeleteAccountDialog } from "../DeleteAccountDialog";
+
+const createFetchResponse = <T,>(payload: T, init: { ok?: boolean; status?: number } = {}) => ({
+  ok: init.ok ?? true,
+  status: init.status ?? 200,
+  json: async () => payload,
+});
+
+describe("DeleteAccountDialog", () => {
+  const fetchMock = vi.fn<(url: string, init?: RequestInit) => Promise<ReturnType<typeof createFetchResponse>>>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("offers the full export before deleting", () => {
+    render(<DeleteAccountDialog open onOpenChange={vi.fn()} />);
+
+    expect(screen.getByRole("link", { name: "Download all your data" })).toHaveAttribute(
+      "href",
+      "/api/export?scope=all&format=json"
+    );
+    expect(screen.getByRole("button", { name: "Delete my account" })).toBeDisabled();
+  });
+
+  it("sends the password and shows why the deletion was refused", async () => {
+    fetchMock.mockResolvedValueOnce(
+      createFetchResponse({ error: "Forbidden", message: "Password is incorrect" }, { ok: false, status: 403 })
+    );
+
+    render(<DeleteAccountDialog open onOpenChange={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText("Confirm your password"), { target: { value: "wrong-password" } });
+    fireEvent.click(screen.getByRole("button", { name: "Delete my account" }));
+
+    expect(await screen.findByText("Password is incorrect")).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith("/api/auth/delete-account", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ password: "wrong-password" }),
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { HouseholdSettings } from "../HouseholdSettings";
+
+const createFetchResponse = <T,>(payload: T, init: { ok?: boolean; status?: number } = {}) => ({
+  ok: init.ok ?? true,
+  status: init.status ?? 200,
+  json: async () => payload,
+});
+
+const household = {
+  id: "household-1",
+  name: "Home",
+  created_at: "2025-12-01T10:00:00Z",
+  members: [
+    { user_id: "user-1", email: "me@example.com", joined_at: "2025-12-01T10:00:00Z", is_current_user: true },
+    { user_id: "user-2", email: "partner@example.com", joined_at: "2025-12-02T10:00:00Z", is_current_user: false },
+  ],
+  invitations: [],
+  shared_stashes: [
+    { id: "stash-1", name: "Holidays", currency: "PLN", current_balance: 1500, owner_email: null, is_own: true },
+  ],
+};
+
+describe("HouseholdSettings", () => {
+  const fetchMock = vi.fn<(url: string, init?: RequestInit) => Promise<ReturnType<typeof createFetchResponse>>>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("joins a household from a received invitation", async () => {
+    fetchMock
+      .mockResolvedValueOnce(createFetchResponse({ data: null }))
+      .mockResolvedValueOnce(
+        createFetchResponse({
+          data: [
+            {
+              id: "invitation-1",
+              household_id: "household-1",
+              household_name: "Home",
+              invited_by_email: "partner@example.com",
+              created_at: "2025-12-02T09:00:00Z",
+            },
+          ],
+        })
+      )
+      .mockResolvedValueOnce(createFetchResponse({ data: household }))
+      .mockResolvedValueOnce(createFetchResponse({ data: household }))
+      .mockResolvedValueOnce(createFetchResponse({ data: [] }));
+
+    render(<HouseholdSettings />);
+
+    expect(await screen.findByText("· invited by partner@example.com", { exact: false })).toBeInTheDocument();
+    fireEvent.click(screen.getByRole("button", { name: "Join" }));
+
+    expect(await screen.findByText("partner@example.com")).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith("/api/household/invitations/invitation-1/accept", { method: "POST" });
+    expect(screen.getByText("Holidays")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Leave household" })).toBeInTheDocument();
+  });
+
+  it("shows why an invitation could not be sent", async () => {
+    fetchMock
+      .mockResolvedValueOnce(createFetchResponse({ data: household }))
+      .mockResolvedValueOnce(createFetchResponse({ data: [] }))
+      .mockResolvedValueOnce(
+        createFetchResponse(
+          { error: "Conflict", message: "partner@example.com is already a member of your household" },
+          { ok: false, status: 409 }
+        )
+      );
+
+    render(<HouseholdSettings />);
+
+    fireEvent.change(await screen.findByLabelText("Invite by email"), { target: { value: "partner@example.com" } });
+    fireEvent.click(screen.getByRole("button", { name: "Invite" }));
+
+    expect(await screen.findByText("partner@example.com is already a member of your household")).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenLastCalledWith("/api/household/invitations", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email: "partner@example.com" }),
+    });
+  });
+});
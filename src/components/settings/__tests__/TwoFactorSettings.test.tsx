@@ -0,0 +1,82 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { TwoFactorSettings } from "../TwoFactorSettings";
+
+const createFetchResponse = <T,>(payload: T, init: { ok?: boolean; status?: number } = {}) => ({
+  ok: init.ok ?? true,
+  status: init.status ?? 200,
+  json: async () => payload,
+});
+
+const disabledStatus = { enabled: false, factor_id: null, recovery_codes_remaining: 0 };
+const enabledStatus = { enabled: true, factor_id: "factor-1", recovery_codes_remaining: 2 };
+
+describe("TwoFactorSettings", () => {
+  const fetchMock = vi.fn<(url: string, init?: RequestInit) => Promise<ReturnType<typeof createFetchResponse>>>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("enrols with the QR code and shows the recovery codes once", async () => {
+    fetchMock
+      .mockResolvedValueOnce(createFetchResponse({ data: disabledStatus }))
+      .mockResolvedValueOnce(
+        createFetchResponse({
+          data: { factor_id: "factor-1", qr_code: "data:image/svg+xml;utf-8,<svg/>", secret: "JBSWY3DPEHPK3PXP" },
+        })
+      )
+      .mockResolvedValueOnce(createFetchResponse({ data: { recovery_codes: ["abcde-fghjk", "mnpqr-stuvw"] } }))
+      .mockResolvedValueOnce(createFetchResponse({ data: enabledStatus }));
+
+    render(<TwoFactorSettings />);
+
+    fireEvent.click(await screen.findByRole("button", { name: "Set up two-factor authentication" }));
+
+    expect(await screen.findByAltText("QR code for your authenticator app")).toHaveAttribute(
+      "src",
+      "data:image/svg+xml;utf-8,<svg/>"
+    );
+    expect(screen.getByText("JBSWY3DPEHPK3PXP")).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText("Authentication code"), { target: { value: "123456" } });
+    fireEvent.click(screen.getByRole("button", { name: "Turn on" }));
+
+    expect(await screen.findByText("abcde-fghjk")).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith("/api/auth/mfa/activate", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ factorId: "factor-1", code: "123456" }),
+    });
+    expect(
+      await screen.findByText("Two-factor authentication is on · 2 recovery codes left", { exact: false })
+    ).toBeInTheDocument();
+  });
+
+  it("shows why a code was rejected", async () => {
+    fetchMock
+      .mockResolvedValueOnce(createFetchResponse({ data: enabledStatus }))
+      .mockResolvedValueOnce(
+        createFetchResponse({ error: "Forbidden", message: "Invalid code" }, { ok: false, status: 403 })
+      );
+
+    render(<TwoFactorSettings />);
+
+    fireEvent.change(await screen.findByLabelText("Authentication code"), { target: { value: "000000" } });
+    fireEvent.click(screen.getByRole("button", { name: "Turn off two-factor authentication" }));
+
+    expect(await screen.findByText("Invalid code")).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenLastCalledWith("/api/auth/mfa/disable", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ code: "000000" }),
+    });
+  });
+});
@@ -11,11 +11,14 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { DEFAULT_CURRENCY, STASH_AMOUNT_STEP, formatMoney } from "@/lib/currency";
 
 interface AddTransactionDialogProps {
   stashId: string;
   transactionType: "deposit" | "withdrawal";
   currentBalance: number;
+  /** Currency of the stash, used for amount labels */
+  currency?: string;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSuccess?: () => void;
@@ -29,6 +32,7 @@ export function AddTransactionDialog({
   stashId,
   transactionType,
   currentBalance,
+  currency = DEFAULT_CURRENCY,
   open,
   onOpenChange,
   onSuccess,
@@ -149,13 +153,13 @@ export function AddTransactionDialog({
 
             <div className="space-y-2">
               <Label htmlFor="amount">
-                Amount (PLN) <span className="text-destructive">*</span>
+                Amount ({currency}) <span className="text-destructive">*</span>
               </Label>
               <Input
                 id="amount"
                 type="number"
-                step="0.01"
-                min="0.01"
+                step={STASH_AMOUNT_STEP}
+                min={STASH_AMOUNT_STEP}
                 placeholder="0.00"
                 value={amount}
                 onChange={(e) => setAmount(e.target.value)}
@@ -171,11 +175,7 @@ export function AddTransactionDialog({
               )}
               {!isDeposit && currentBalance > 0 && (
                 <p className="text-xs text-muted-foreground">
-                  Available balance:{" "}
-                  {new Intl.NumberFormat("pl-PL", {
-                    style: "currency",
-                    currency: "PLN",
-                  }).format(currentBalance)}
+                  Available balance: {formatMoney(currentBalance, currency)}
                 </p>
               )}
             </div>
@@ -0,0 +1,67 @@
+import { useMemo } from "react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import type { BalanceHistoryInterval, BalanceHistoryPointDTO } from "@/types";
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
+
+interface BalanceHistoryChartProps {
+  points: BalanceHistoryPointDTO[];
+  interval: BalanceHistoryInterval;
+  /** Currency the balances are in */
+  currency?: string;
+  /** Shown instead of the chart when every point is zero */
+  emptyMessage?: string;
+}
+
+/**
+ * Formats a point date for the axis: month and year for monthly series, day and month otherwise
+ */
+function formatPointDate(date: string, interval: BalanceHistoryInterval): string {
+  const options: Intl.DateTimeFormatOptions =
+    interval === "month" ? { month: "short", year: "2-digit" } : { month: "short", day: "numeric" };
+
+  return new Intl.DateTimeFormat("en-US", { ...options, timeZone: "UTC" }).format(new Date(`${date}T00:00:00Z`));
+}
+
+/**
+ * Line chart of a balance over time (a single stash or the net worth across all stashes)
+ */
+export function BalanceHistoryChart({
+  points,
+  interval,
+  currency = DEFAULT_CURRENCY,
+  emptyMessage = "No balance history to display",
+}: BalanceHistoryChartProps) {
+  const chartData = useMemo(
+    () => points.map((point) => ({ label: formatPointDate(point.date, interval), balance: point.balance })),
+    [points, interval]
+  );
+
+  if (points.every((point) => point.balance === 0)) {
+    return (
+      <div className="flex items-center justify-center h-64 text-center">
+        <p className="text-sm text-muted-foreground">{emptyMessage}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={chartData} margin={{ top: 8, right: 16, bottom: 0, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+          <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={16} />
+          <YAxis tick={{ fontSize: 12 }} width={72} tickFormatter={(value: number) => value.toLocaleString("pl-PL")} />
+          <Tooltip
+            formatter={(value: number) => [formatMoney(value, currency), "Balance"]}
+            contentStyle={{
+              backgroundColor: "hsl(var(--background))",
+              border: "1px solid hsl(var(--border))",
+              borderRadius: "0.5rem",
+            }}
+          />
+          <Line type="monotone" dataKey="balance" stroke="#2563eb" strokeWidth={2} dot={points.length <= 31} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
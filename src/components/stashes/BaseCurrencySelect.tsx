@@ -0,0 +1,30 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { COMMON_CURRENCIES } from "@/lib/currency";
+
+interface BaseCurrencySelectProps {
+  value: string;
+  onChange: (currency: string) => void;
+}
+
+/**
+ * BaseCurrencySelect component
+ * Picks the currency stash totals are converted into
+ */
+export function BaseCurrencySelect({ value, onChange }: BaseCurrencySelectProps) {
+  const options = COMMON_CURRENCIES.includes(value) ? COMMON_CURRENCIES : [value, ...COMMON_CURRENCIES];
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-[110px]" aria-label="Base currency">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((currency) => (
+          <SelectItem key={currency} value={currency}>
+            {currency}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
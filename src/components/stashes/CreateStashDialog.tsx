@@ -12,6 +12,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { COMMON_CURRENCIES, DEFAULT_CURRENCY } from "@/lib/currency";
 
 interface CreateStashDialogProps {
   onSuccess?: () => void;
@@ -21,6 +22,7 @@ interface CreateStashDialogProps {
 export function CreateStashDialog({ onSuccess, trigger }: CreateStashDialogProps) {
   const [open, setOpen] = useState(false);
   const [name, setName] = useState("");
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -37,6 +39,11 @@ export function CreateStashDialog({ onSuccess, trigger }: CreateStashDialogProps
       return;
     }
 
+    if (!/^[A-Z][A-Z0-9]{2,9}$/.test(currency)) {
+      setError("Currency must be a code like PLN, EUR or BTC");
+      return;
+    }
+
     setIsSubmitting(true);
     setError(null);
 
@@ -46,7 +53,7 @@ export function CreateStashDialog({ onSuccess, trigger }: CreateStashDialogProps
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ name: name.trim() }),
+        body: JSON.stringify({ name: name.trim(), currency }),
       });
 
       if (!response.ok) {
@@ -59,6 +66,8 @@ export function CreateStashDialog({ onSuccess, trigger }: CreateStashDialogProps
 
         if (errorData.errors?.name) {
           setError(errorData.errors.name[0]);
+        } else if (errorData.errors?.currency) {
+          setError(errorData.errors.currency[0]);
         } else {
           setError(errorData.message || "Failed to create stash");
         }
@@ -67,6 +76,7 @@ export function CreateStashDialog({ onSuccess, trigger }: CreateStashDialogProps
 
       // Success - close dialog and reset form
       setName("");
+      setCurrency(DEFAULT_CURRENCY);
       setOpen(false);
 
       // Call onSuccess callback if provided
@@ -88,6 +98,7 @@ export function CreateStashDialog({ onSuccess, trigger }: CreateStashDialogProps
     if (!newOpen) {
       // Reset form when closing
       setName("");
+      setCurrency(DEFAULT_CURRENCY);
       setError(null);
     }
   };
@@ -121,7 +132,9 @@ export function CreateStashDialog({ onSuccess, trigger }: CreateStashDialogProps
         <form onSubmit={handleSubmit}>
           <DialogHeader>
             <DialogTitle>Create New Stash</DialogTitle>
-            <DialogDescription>Enter a name for your new savings stash. You can change it later.</DialogDescription>
+            <DialogDescription>
+              Enter a name for your new savings stash. You can change the name later, but not the currency.
+            </DialogDescription>
           </DialogHeader>
           <div className="grid gap-4 py-4">
             {error && (
@@ -146,6 +159,24 @@ export function CreateStashDialog({ onSuccess, trigger }: CreateStashDialogProps
               />
               <p className="text-xs text-muted-foreground">{name.length}/100 characters</p>
             </div>
+            <div className="grid gap-2">
+              <Label htmlFor="currency">Currency</Label>
+              <Input
+                id="currency"
+                type="text"
+                list="stash-currencies"
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value.trim().toUpperCase())}
+                maxLength={10}
+                disabled={isSubmitting}
+              />
+              <datalist id="stash-currencies">
+                {COMMON_CURRENCIES.map((code) => (
+                  <option key={code} value={code} />
+                ))}
+              </datalist>
+              <p className="text-xs text-muted-foreground">ISO code (PLN, EUR, USD) or a crypto ticker (BTC)</p>
+            </div>
           </div>
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => setOpen(false)} disabled={isSubmitting}>
@@ -9,6 +9,7 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { TRASH_RETENTION_DAYS } from "@/types";
 
 interface DeleteStashDialogProps {
   stashId: string;
@@ -65,7 +66,8 @@ export function DeleteStashDialog({ stashId, stashName, open, onOpenChange, onSu
         <DialogHeader>
           <DialogTitle>Delete Stash</DialogTitle>
           <DialogDescription>
-            Are you sure you want to delete <strong>{stashName}</strong>? This action cannot be undone.
+            Are you sure you want to delete <strong>{stashName}</strong>? You can restore it with its transactions from
+            the trash for {TRASH_RETENTION_DAYS} days.
           </DialogDescription>
         </DialogHeader>
         {error && (
@@ -9,12 +9,14 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { TRASH_RETENTION_DAYS } from "@/types";
 
 interface DeleteTransactionDialogProps {
   transactionId: string;
   stashId: string;
   transactionAmount: string;
-  transactionType: "deposit" | "withdrawal";
+  transactionType: "deposit" | "withdrawal" | "adjustment";
+  transferStashName?: string | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSuccess?: () => void;
@@ -22,13 +24,14 @@ interface DeleteTransactionDialogProps {
 
 /**
  * Confirmation dialog for deleting a transaction
- * Reverses the transaction's impact on the stash balance
+ * Reverses the transaction's impact on the stash balance; for transfers, on both stashes
  */
 export function DeleteTransactionDialog({
   transactionId,
   stashId,
   transactionAmount,
   transactionType,
+  transferStashName,
   open,
   onOpenChange,
   onSuccess,
@@ -80,8 +83,21 @@ export function DeleteTransactionDialog({
         <DialogHeader>
           <DialogTitle>Delete Transaction</DialogTitle>
           <DialogDescription>
-            Are you sure you want to delete this {transactionType} of <strong>{transactionAmount}</strong>? This will
-            reverse its impact on your stash balance. This action cannot be undone.
+            {transferStashName ? (
+              <>
+                Are you sure you want to delete this transfer of <strong>{transactionAmount}</strong>{" "}
+                {transactionType === "deposit" ? "from" : "to"} <strong>{transferStashName}</strong>? Both sides will be
+                deleted and the balances of both stashes restored. You can restore it from the trash for{" "}
+                {TRASH_RETENTION_DAYS} days.
+              </>
+            ) : (
+              <>
+                Are you sure you want to delete this{" "}
+                {transactionType === "adjustment" ? "valuation adjustment" : transactionType} of{" "}
+                <strong>{transactionAmount}</strong>? This will reverse its impact on your stash balance. You can
+                restore it from the trash for {TRASH_RETENTION_DAYS} days.
+              </>
+            )}
           </DialogDescription>
         </DialogHeader>
         {error && (
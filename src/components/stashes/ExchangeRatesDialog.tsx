@@ -0,0 +1,351 @@
+import { useState, useEffect, useCallback } from "react";
+import { Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { COMMON_CURRENCIES, parseExchangeRatesCsv } from "@/lib/currency";
+import type { ErrorResponse, ExchangeRateDTO, ImportExchangeRatesResultDTO } from "@/types";
+
+interface ExchangeRatesDialogProps {
+  baseCurrency: string;
+  onChange?: () => void;
+}
+
+/**
+ * ExchangeRatesDialog component
+ * Lists the user's exchange rates and lets them add, delete and import rates from a CSV file
+ */
+export function ExchangeRatesDialog({ baseCurrency, onChange }: ExchangeRatesDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [rates, setRates] = useState<ExchangeRateDTO[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const [fromCurrency, setFromCurrency] = useState("");
+  const [toCurrency, setToCurrency] = useState(baseCurrency);
+  const [rate, setRate] = useState("");
+  const [rateDate, setRateDate] = useState("");
+
+  const fetchRates = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch("/api/exchange-rates");
+
+      if (response.status === 401) {
+        window.location.href = "/login";
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error("Failed to load exchange rates");
+      }
+
+      const result = await response.json();
+      setRates(result.data || []);
+    } catch (err) {
+      console.error("Error loading exchange rates:", err);
+      setError("Failed to load exchange rates");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      fetchRates();
+    }
+  }, [open, fetchRates]);
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setOpen(newOpen);
+    if (!newOpen) {
+      setError(null);
+      setSuccessMessage(null);
+    } else {
+      setToCurrency(baseCurrency);
+    }
+  };
+
+  const afterChange = async (message: string) => {
+    setSuccessMessage(message);
+    await fetchRates();
+    onChange?.();
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSuccessMessage(null);
+
+    try {
+      setIsSubmitting(true);
+
+      const response = await fetch("/api/exchange-rates", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from_currency: fromCurrency,
+          to_currency: toCurrency,
+          rate: rate.replace(",", "."),
+          rate_date: rateDate || undefined,
+        }),
+      });
+
+      if (response.status === 401) {
+        window.location.href = "/login";
+        return;
+      }
+
+      if (!response.ok) {
+        const errorData = (await response.json()) as ErrorResponse & { errors?: Record<string, string[]> };
+        const firstFieldError = errorData.errors ? Object.values(errorData.errors)[0]?.[0] : undefined;
+        throw new Error(firstFieldError || errorData.message || "Failed to save exchange rate");
+      }
+
+      setFromCurrency("");
+      setRate("");
+      setRateDate("");
+      await afterChange("Exchange rate saved");
+    } catch (err) {
+      console.error("Error saving exchange rate:", err);
+      setError(err instanceof Error ? err.message : "Failed to save exchange rate");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (rateId: string) => {
+    setError(null);
+    setSuccessMessage(null);
+
+    try {
+      setIsSubmitting(true);
+
+      const response = await fetch(`/api/exchange-rates/${rateId}`, { method: "DELETE" });
+
+      if (response.status === 401) {
+        window.location.href = "/login";
+        return;
+      }
+
+      if (!response.ok) {
+        const errorData = (await response.json()) as ErrorResponse;
+        throw new Error(errorData.message || "Failed to delete exchange rate");
+      }
+
+      await afterChange("Exchange rate deleted");
+    } catch (err) {
+      console.error("Error deleting exchange rate:", err);
+      setError(err instanceof Error ? err.message : "Failed to delete exchange rate");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    setError(null);
+    setSuccessMessage(null);
+    const file = e.target.files?.[0];
+    e.target.value = "";
+
+    if (!file) {
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+
+      const rows = parseExchangeRatesCsv(await file.text(), baseCurrency);
+
+      if (rows.length === 0) {
+        throw new Error("The selected file doesn't contain any rates");
+      }
+
+      const response = await fetch("/api/exchange-rates/import", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ rows }),
+      });
+
+      if (response.status === 401) {
+        window.location.href = "/login";
+        return;
+      }
+
+      if (!response.ok) {
+        const errorData = (await response.json()) as ErrorResponse;
+        throw new Error(errorData.message || "Failed to import exchange rates");
+      }
+
+      const result = (await response.json()) as { data: ImportExchangeRatesResultDTO };
+      const skipped = result.data.invalid > 0 ? `, ${result.data.invalid} invalid rows skipped` : "";
+      await afterChange(`Imported ${result.data.imported} ${result.data.imported === 1 ? "rate" : "rates"}${skipped}`);
+    } catch (err) {
+      console.error("Error importing exchange rates:", err);
+      setError(err instanceof Error ? err.message : "Failed to import exchange rates");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">Exchange Rates</Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Exchange Rates</DialogTitle>
+          <DialogDescription>
+            Rates are used to show stashes in other currencies in {baseCurrency}. The most recent rate of each pair is
+            used.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          {successMessage && (
+            <Alert>
+              <AlertDescription>{successMessage}</AlertDescription>
+            </Alert>
+          )}
+
+          <form onSubmit={handleAdd} className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            <datalist id="exchange-rate-currencies">
+              {COMMON_CURRENCIES.map((currency) => (
+                <option key={currency} value={currency} />
+              ))}
+            </datalist>
+            <div className="space-y-1">
+              <Label htmlFor="rate-from">1 unit of</Label>
+              <Input
+                id="rate-from"
+                list="exchange-rate-currencies"
+                placeholder="EUR"
+                value={fromCurrency}
+                onChange={(e) => setFromCurrency(e.target.value.toUpperCase())}
+                maxLength={10}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rate-value">equals</Label>
+              <Input
+                id="rate-value"
+                inputMode="decimal"
+                placeholder="4.30"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rate-to">of</Label>
+              <Input
+                id="rate-to"
+                list="exchange-rate-currencies"
+                value={toCurrency}
+                onChange={(e) => setToCurrency(e.target.value.toUpperCase())}
+                maxLength={10}
+                disabled={isSubmitting}
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rate-date">Date</Label>
+              <Input
+                id="rate-date"
+                type="date"
+                value={rateDate}
+                onChange={(e) => setRateDate(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="col-span-2 flex justify-end sm:col-span-4">
+              <Button type="submit" disabled={isSubmitting || !fromCurrency || !toCurrency || !rate}>
+                Save Rate
+              </Button>
+            </div>
+          </form>
+
+          <div className="space-y-2">
+            <Label htmlFor="rate-import-file">Import from CSV</Label>
+            <Input
+              id="rate-import-file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFileChange}
+              disabled={isSubmitting}
+            />
+            <p className="text-xs text-muted-foreground">
+              Columns: from, to, rate, date. Without a &quot;to&quot; column rates are read as {baseCurrency}.
+            </p>
+          </div>
+
+          <div className="max-h-64 overflow-y-auto rounded-md border">
+            {isLoading ? (
+              <p className="p-3 text-sm text-muted-foreground">Loading exchange rates...</p>
+            ) : rates.length === 0 ? (
+              <p className="p-3 text-sm text-muted-foreground">No exchange rates yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50 text-left">
+                  <tr>
+                    <th className="px-2 py-1 font-medium">Pair</th>
+                    <th className="px-2 py-1 font-medium">Rate</th>
+                    <th className="px-2 py-1 font-medium">Date</th>
+                    <th className="px-2 py-1" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {rates.map((exchangeRate) => (
+                    <tr key={exchangeRate.id} className="border-t">
+                      <td className="px-2 py-1">
+                        {exchangeRate.from_currency}/{exchangeRate.to_currency}
+                      </td>
+                      <td className="px-2 py-1 tabular-nums">{Number(exchangeRate.rate)}</td>
+                      <td className="px-2 py-1 tabular-nums">{exchangeRate.rate_date}</td>
+                      <td className="px-2 py-1 text-right">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(exchangeRate.id)}
+                          disabled={isSubmitting}
+                          aria-label={`Delete ${exchangeRate.from_currency}/${exchangeRate.to_currency} rate from ${exchangeRate.rate_date}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { DEFAULT_CURRENCY, STASH_AMOUNT_STEP, formatMoney, roundStashAmount } from "@/lib/currency";
+
+interface RecordValuationDialogProps {
+  stashId: string;
+  currentBalance: number;
+  currency?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+/**
+ * Dialog for recording the current market value of an investment stash
+ * The difference to the balance is stored as a valuation adjustment, not as a deposit or withdrawal
+ */
+export function RecordValuationDialog({
+  stashId,
+  currentBalance,
+  currency = DEFAULT_CURRENCY,
+  open,
+  onOpenChange,
+  onSuccess,
+}: RecordValuationDialogProps) {
+  const [marketValue, setMarketValue] = useState("");
+  const [description, setDescription] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (open) {
+      setMarketValue(currentBalance.toString());
+      setDescription("");
+      setError(null);
+      setFieldErrors({});
+    }
+  }, [open, currentBalance]);
+
+  const valueNum = parseFloat(marketValue);
+  const change = isNaN(valueNum) ? null : roundStashAmount(valueNum - currentBalance);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (isNaN(valueNum) || valueNum < 0) {
+      setFieldErrors({ market_value: "Market value must be zero or a positive number" });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    setFieldErrors({});
+
+    try {
+      const response = await fetch(`/api/stashes/${stashId}/valuations`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          market_value: valueNum,
+          description: description.trim() || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          window.location.href = "/login";
+          return;
+        }
+
+        const errorData = await response.json();
+        if (errorData.errors) {
+          const errors: Record<string, string> = {};
+          for (const [field, messages] of Object.entries(errorData.errors as Record<string, string[]>)) {
+            errors[field] = messages[0];
+          }
+          setFieldErrors(errors);
+        } else {
+          setError(errorData.message || "Failed to record valuation");
+        }
+        return;
+      }
+
+      onOpenChange(false);
+
+      if (onSuccess) {
+        onSuccess();
+      }
+    } catch {
+      setError("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <form onSubmit={handleSubmit} noValidate>
+          <DialogHeader>
+            <DialogTitle>Update Market Value</DialogTitle>
+            <DialogDescription>
+              Enter what this stash is worth today. The change is recorded as a gain or loss, not as a deposit or
+              withdrawal.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="market-value">
+                Market Value ({currency}) <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="market-value"
+                type="number"
+                step={STASH_AMOUNT_STEP}
+                min="0"
+                placeholder="0.00"
+                value={marketValue}
+                onChange={(e) => setMarketValue(e.target.value)}
+                disabled={isSubmitting}
+                aria-invalid={!!fieldErrors.market_value}
+                aria-describedby={fieldErrors.market_value ? "market-value-error" : undefined}
+                required
+              />
+              {fieldErrors.market_value && (
+                <p id="market-value-error" className="text-sm text-destructive">
+                  {fieldErrors.market_value}
+                </p>
+              )}
+              {change !== null && change !== 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {change > 0 ? "Gain" : "Loss"} of {formatMoney(Math.abs(change), currency)} since the last value
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="valuation-description">Description (optional)</Label>
+              <Input
+                id="valuation-description"
+                type="text"
+                placeholder="e.g., Broker statement"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                maxLength={1000}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Saving..." : "Save Value"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
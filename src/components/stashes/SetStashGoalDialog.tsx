@@ -0,0 +1,198 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { DEFAULT_CURRENCY, STASH_AMOUNT_STEP } from "@/lib/currency";
+
+interface SetStashGoalDialogProps {
+  stashId: string;
+  currentGoalAmount: number | null;
+  currentGoalDate: string | null;
+  /** Currency of the stash; the goal is set in it */
+  currency?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+/**
+ * Dialog for setting, changing or removing a stash's savings goal
+ */
+export function SetStashGoalDialog({
+  stashId,
+  currentGoalAmount,
+  currentGoalDate,
+  currency = DEFAULT_CURRENCY,
+  open,
+  onOpenChange,
+  onSuccess,
+}: SetStashGoalDialogProps) {
+  const [goalAmount, setGoalAmount] = useState("");
+  const [goalDate, setGoalDate] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (open) {
+      setGoalAmount(currentGoalAmount !== null ? currentGoalAmount.toString() : "");
+      setGoalDate(currentGoalDate ?? "");
+      setError(null);
+      setFieldErrors({});
+    }
+  }, [open, currentGoalAmount, currentGoalDate]);
+
+  const saveGoal = async (body: { goal_amount: number | null; goal_date: string | null }) => {
+    setIsSubmitting(true);
+    setError(null);
+    setFieldErrors({});
+
+    try {
+      const response = await fetch(`/api/stashes/${stashId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          window.location.href = "/login";
+          return;
+        }
+
+        const errorData = await response.json();
+        if (errorData.errors) {
+          const errors: Record<string, string> = {};
+          for (const [field, messages] of Object.entries(errorData.errors as Record<string, string[]>)) {
+            errors[field] = messages[0];
+          }
+          setFieldErrors(errors);
+        } else {
+          setError(errorData.message || "Failed to save goal");
+        }
+        return;
+      }
+
+      onOpenChange(false);
+
+      if (onSuccess) {
+        onSuccess();
+      }
+    } catch {
+      setError("An unexpected error occurred. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amountNum = parseFloat(goalAmount);
+    if (isNaN(amountNum) || amountNum <= 0) {
+      setFieldErrors({ goal_amount: "Goal amount must be a positive number" });
+      return;
+    }
+
+    await saveGoal({ goal_amount: amountNum, goal_date: goalDate || null });
+  };
+
+  const handleRemove = async () => {
+    await saveGoal({ goal_amount: null, goal_date: null });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <form onSubmit={handleSubmit} noValidate>
+          <DialogHeader>
+            <DialogTitle>Savings Goal</DialogTitle>
+            <DialogDescription>Set how much you want to save in this stash, and optionally by when.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="goal-amount">
+                Goal Amount ({currency}) <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="goal-amount"
+                type="number"
+                step={STASH_AMOUNT_STEP}
+                min={STASH_AMOUNT_STEP}
+                placeholder="0.00"
+                value={goalAmount}
+                onChange={(e) => setGoalAmount(e.target.value)}
+                disabled={isSubmitting}
+                aria-invalid={!!fieldErrors.goal_amount}
+                aria-describedby={fieldErrors.goal_amount ? "goal-amount-error" : undefined}
+                required
+              />
+              {fieldErrors.goal_amount && (
+                <p id="goal-amount-error" className="text-sm text-destructive">
+                  {fieldErrors.goal_amount}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="goal-date">Target Date (optional)</Label>
+              <Input
+                id="goal-date"
+                type="date"
+                value={goalDate}
+                onChange={(e) => setGoalDate(e.target.value)}
+                disabled={isSubmitting}
+                aria-invalid={!!fieldErrors.goal_date}
+                aria-describedby={fieldErrors.goal_date ? "goal-date-error" : undefined}
+              />
+              {fieldErrors.goal_date && (
+                <p id="goal-date-error" className="text-sm text-destructive">
+                  {fieldErrors.goal_date}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter className="gap-2">
+            {currentGoalAmount !== null && (
+              <Button
+                type="button"
+                variant="outline"
+                className="sm:mr-auto"
+                onClick={handleRemove}
+                disabled={isSubmitting}
+              >
+                Remove Goal
+              </Button>
+            )}
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Saving..." : "Save Goal"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
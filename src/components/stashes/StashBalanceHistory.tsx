@@ -0,0 +1,76 @@
+import type { BalanceHistoryInterval, StashBalanceHistoryDTO } from "@/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Skeleton } from "@/components/ui/skeleton";
+import { BalanceHistoryChart } from "./BalanceHistoryChart";
+
+interface StashBalanceHistoryProps {
+  history: StashBalanceHistoryDTO | null;
+  interval: BalanceHistoryInterval;
+  currency: string;
+  error: Error | null;
+  onIntervalChange: (interval: BalanceHistoryInterval) => void;
+}
+
+const INTERVAL_OPTIONS: { value: BalanceHistoryInterval; label: string; description: string }[] = [
+  { value: "day", label: "Daily", description: "Last 30 days" },
+  { value: "week", label: "Weekly", description: "Last 12 weeks" },
+  { value: "month", label: "Monthly", description: "Last 12 months" },
+];
+
+/**
+ * Card with the stash's balance over time and an interval picker
+ */
+export function StashBalanceHistory({
+  history,
+  interval,
+  currency,
+  error,
+  onIntervalChange,
+}: StashBalanceHistoryProps) {
+  const selected = INTERVAL_OPTIONS.find((option) => option.value === interval);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Balance History</CardTitle>
+            <CardDescription>{selected?.description}</CardDescription>
+          </div>
+          <div className="flex rounded-md border" role="group" aria-label="Balance history interval">
+            {INTERVAL_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => onIntervalChange(option.value)}
+                aria-pressed={option.value === interval}
+                className={`px-3 py-1 text-sm first:rounded-l-md last:rounded-r-md transition-colors ${
+                  option.value === interval ? "bg-primary text-primary-foreground" : "hover:bg-accent"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <Alert variant="destructive">
+            <AlertDescription>Failed to load balance history. Please try again.</AlertDescription>
+          </Alert>
+        ) : !history ? (
+          <Skeleton className="h-64 w-full" />
+        ) : (
+          <BalanceHistoryChart
+            points={history.points}
+            interval={history.interval}
+            currency={currency}
+            emptyMessage="No transactions in this period"
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,8 +2,15 @@ import { useState } from "react";
 import type { StashDetailsDTO } from "@/types";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { PlusCircle, MinusCircle } from "lucide-react";
+import { PlusCircle, MinusCircle, ArrowLeftRight, Target, LineChart } from "lucide-react";
 import { AddTransactionDialog } from "./AddTransactionDialog";
+import { TransferDialog } from "./TransferDialog";
+import { SetStashGoalDialog } from "./SetStashGoalDialog";
+import { RecordValuationDialog } from "./RecordValuationDialog";
+import { StashGoalProgress } from "./StashGoalProgress";
+import { computeStashGoalProgress } from "@/lib/stash-goal";
+import { ExportMenu } from "@/components/ExportMenu";
+import { formatMoney } from "@/lib/currency";
 
 interface StashDetailHeaderProps {
   stash: StashDetailsDTO;
@@ -12,11 +19,16 @@ interface StashDetailHeaderProps {
 
 /**
  * Displays stash name, current balance, and action buttons
- * Provides "Add Funds" and "Withdraw" functionality
+ * Provides "Add Funds", "Withdraw", "Transfer", "Update Value", "Goal" and "Export" functionality,
+ * splits the balance into contributed capital and unrealized gain once the stash has been revalued,
+ * and shows progress towards the savings goal when one is set
  */
 export function StashDetailHeader({ stash, onTransactionSuccess }: StashDetailHeaderProps) {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [transactionType, setTransactionType] = useState<"deposit" | "withdrawal">("deposit");
+  const [transferDialogOpen, setTransferDialogOpen] = useState(false);
+  const [goalDialogOpen, setGoalDialogOpen] = useState(false);
+  const [valuationDialogOpen, setValuationDialogOpen] = useState(false);
 
   const handleAddFunds = () => {
     setTransactionType("deposit");
@@ -33,11 +45,14 @@ export function StashDetailHeader({ stash, onTransactionSuccess }: StashDetailHe
     onTransactionSuccess();
   };
 
-  // Format balance as PLN currency
-  const formattedBalance = new Intl.NumberFormat("pl-PL", {
-    style: "currency",
-    currency: "PLN",
-  }).format(Number(stash.current_balance));
+  const handleTransferSuccess = () => {
+    setTransferDialogOpen(false);
+    onTransactionSuccess();
+  };
+
+  // Format balance in the stash's currency
+  const formattedBalance = formatMoney(Number(stash.current_balance), stash.currency);
+  const unrealizedGain = Number(stash.unrealized_gain);
 
   // Format creation date
   const formattedDate = new Intl.DateTimeFormat("en-US", {
@@ -46,6 +61,8 @@ export function StashDetailHeader({ stash, onTransactionSuccess }: StashDetailHe
     day: "numeric",
   }).format(new Date(stash.created_at));
 
+  const goalProgress = computeStashGoalProgress(stash);
+
   const isWithdrawDisabled = Number(stash.current_balance) <= 0;
 
   return (
@@ -58,6 +75,9 @@ export function StashDetailHeader({ stash, onTransactionSuccess }: StashDetailHe
               <p className="text-sm text-muted-foreground">Created on {formattedDate}</p>
             </div>
             <div className="flex gap-2">
+              <ExportMenu
+                options={[{ label: "Stash & transactions", params: { scope: "stashes", stashId: stash.id } }]}
+              />
               <Button onClick={handleAddFunds} size="sm" className="gap-2">
                 <PlusCircle className="h-4 w-4" aria-hidden="true" />
                 Add Funds
@@ -73,6 +93,25 @@ export function StashDetailHeader({ stash, onTransactionSuccess }: StashDetailHe
                 <MinusCircle className="h-4 w-4" aria-hidden="true" />
                 Withdraw
               </Button>
+              <Button
+                onClick={() => setTransferDialogOpen(true)}
+                size="sm"
+                variant="outline"
+                className="gap-2"
+                disabled={isWithdrawDisabled}
+                aria-label={isWithdrawDisabled ? "Cannot transfer from empty stash" : "Transfer funds"}
+              >
+                <ArrowLeftRight className="h-4 w-4" aria-hidden="true" />
+                Transfer
+              </Button>
+              <Button onClick={() => setValuationDialogOpen(true)} size="sm" variant="outline" className="gap-2">
+                <LineChart className="h-4 w-4" aria-hidden="true" />
+                Update Value
+              </Button>
+              <Button onClick={() => setGoalDialogOpen(true)} size="sm" variant="outline" className="gap-2">
+                <Target className="h-4 w-4" aria-hidden="true" />
+                {goalProgress ? "Edit Goal" : "Set Goal"}
+              </Button>
             </div>
           </div>
         </CardHeader>
@@ -81,6 +120,30 @@ export function StashDetailHeader({ stash, onTransactionSuccess }: StashDetailHe
             <p className="text-sm text-muted-foreground">Current Balance</p>
             <p className="text-4xl font-bold text-primary">{formattedBalance}</p>
           </div>
+          {unrealizedGain !== 0 && (
+            <dl className="mt-4 grid max-w-md grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <dt className="text-sm text-muted-foreground">Contributed</dt>
+                <dd className="text-lg font-semibold">{formatMoney(Number(stash.contributed), stash.currency)}</dd>
+              </div>
+              <div className="space-y-1">
+                <dt className="text-sm text-muted-foreground">Unrealized {unrealizedGain > 0 ? "Gain" : "Loss"}</dt>
+                <dd
+                  className={`text-lg font-semibold ${
+                    unrealizedGain > 0 ? "text-green-600 dark:text-green-500" : "text-red-600 dark:text-red-500"
+                  }`}
+                >
+                  {unrealizedGain > 0 ? "+" : "-"}
+                  {formatMoney(Math.abs(unrealizedGain), stash.currency)}
+                </dd>
+              </div>
+            </dl>
+          )}
+          {goalProgress && (
+            <div className="mt-6 max-w-xl">
+              <StashGoalProgress progress={goalProgress} currency={stash.currency} />
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -88,10 +151,39 @@ export function StashDetailHeader({ stash, onTransactionSuccess }: StashDetailHe
         stashId={stash.id}
         transactionType={transactionType}
         currentBalance={Number(stash.current_balance)}
+        currency={stash.currency}
         open={dialogOpen}
         onOpenChange={setDialogOpen}
         onSuccess={handleTransactionSuccess}
       />
+
+      <TransferDialog
+        stashId={stash.id}
+        currentBalance={Number(stash.current_balance)}
+        currency={stash.currency}
+        open={transferDialogOpen}
+        onOpenChange={setTransferDialogOpen}
+        onSuccess={handleTransferSuccess}
+      />
+
+      <RecordValuationDialog
+        stashId={stash.id}
+        currentBalance={Number(stash.current_balance)}
+        currency={stash.currency}
+        open={valuationDialogOpen}
+        onOpenChange={setValuationDialogOpen}
+        onSuccess={onTransactionSuccess}
+      />
+
+      <SetStashGoalDialog
+        stashId={stash.id}
+        currentGoalAmount={stash.goal_amount}
+        currentGoalDate={stash.goal_date}
+        currency={stash.currency}
+        open={goalDialogOpen}
+        onOpenChange={setGoalDialogOpen}
+        onSuccess={onTransactionSuccess}
+      />
     </>
   );
 }
@@ -1,10 +1,16 @@
-import { useCallback } from "react";
+import { useCallback, useState } from "react";
 import type { StashDetailsDTO } from "@/types";
 import { useStashDetail } from "@/components/hooks/useStashDetail";
 import { useStashTransactions } from "@/components/hooks/useStashTransactions";
+import { useStashBalanceHistory } from "@/components/hooks/useStashBalanceHistory";
 import { StashDetailHeader } from "./StashDetailHeader";
 import { TransactionList } from "./TransactionList";
+import { StashBalanceHistory } from "./StashBalanceHistory";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ActivityHistoryPanel } from "@/components/activity/ActivityHistoryPanel";
+import { UndoToast } from "@/components/UndoToast";
+import type { UndoableDeletion } from "@/components/UndoToast";
 
 interface StashDetailViewProps {
   initialStashData: StashDetailsDTO;
@@ -13,7 +19,7 @@ interface StashDetailViewProps {
 
 /**
  * Root component for the stash detail view
- * Orchestrates the header and transaction list components
+ * Orchestrates the header, balance history and transaction list components
  * Manages data refresh coordination between child components
  */
 export function StashDetailView({ initialStashData, stashId }: StashDetailViewProps) {
@@ -33,13 +39,41 @@ export function StashDetailView({ initialStashData, stashId }: StashDetailViewPr
     refreshData: refreshTransactions,
   } = useStashTransactions(stashId);
 
+  const {
+    history,
+    interval,
+    error: historyError,
+    selectInterval,
+    refreshData: refreshHistory,
+  } = useStashBalanceHistory(stashId);
+
+  const [undoDeletion, setUndoDeletion] = useState<UndoableDeletion | null>(null);
+  const [historyRefreshTrigger, setHistoryRefreshTrigger] = useState(0);
+
   /**
-   * Refresh both stash details and transactions
+   * Refresh stash details, balance history, transactions and the change history
    * Called after successful transaction creation or deletion
    */
   const handleDataRefresh = useCallback(async () => {
-    await Promise.all([refreshStash(), refreshTransactions()]);
-  }, [refreshStash, refreshTransactions]);
+    await Promise.all([refreshStash(), refreshTransactions(), refreshHistory()]);
+    setHistoryRefreshTrigger((prev) => prev + 1);
+  }, [refreshStash, refreshTransactions, refreshHistory]);
+
+  /**
+   * Refresh after a transaction was deleted and offer to undo the delete
+   */
+  const handleTransactionDeleted = useCallback(
+    (transactionId: string) => {
+      setUndoDeletion({
+        message: "Transaction deleted",
+        restoreUrl: `/api/stashes/${stashId}/transactions/${transactionId}/restore`,
+      });
+      handleDataRefresh();
+    },
+    [stashId, handleDataRefresh]
+  );
+
+  const handleUndoClose = useCallback(() => setUndoDeletion(null), []);
 
   // Show error if stash failed to load
   if (stashError) {
@@ -68,6 +102,14 @@ export function StashDetailView({ initialStashData, stashId }: StashDetailViewPr
     <div className="max-w-4xl mx-auto space-y-6">
       <StashDetailHeader stash={stash} onTransactionSuccess={handleDataRefresh} />
 
+      <StashBalanceHistory
+        history={history}
+        interval={interval}
+        currency={stash.currency}
+        error={historyError}
+        onIntervalChange={selectInterval}
+      />
+
       <TransactionList
         stashId={stashId}
         transactions={transactions}
@@ -75,8 +117,19 @@ export function StashDetailView({ initialStashData, stashId }: StashDetailViewPr
         isLoading={isLoadingTransactions}
         error={transactionsError}
         onPageChange={setPage}
-        onTransactionDeleted={handleDataRefresh}
+        onTransactionDeleted={handleTransactionDeleted}
       />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Change History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ActivityHistoryPanel entityType="stash" entityId={stashId} refreshTrigger={historyRefreshTrigger} />
+        </CardContent>
+      </Card>
+
+      {undoDeletion && <UndoToast deletion={undoDeletion} onRestored={handleDataRefresh} onClose={handleUndoClose} />}
     </div>
   );
 }
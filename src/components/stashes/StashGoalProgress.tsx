@@ -0,0 +1,67 @@
+import type { StashGoalProgressDTO } from "@/types";
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
+
+interface StashGoalProgressProps {
+  progress: StashGoalProgressDTO;
+  /** Currency of the goal amount (the stash's currency) */
+  currency?: string;
+  /** Smaller variant for list cards and the dashboard */
+  compact?: boolean;
+}
+
+function formatDate(date: string): string {
+  return new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  }).format(new Date(`${date}T00:00:00`));
+}
+
+/**
+ * Progress bar for a stash's savings goal with the remaining amount
+ * and the monthly deposit needed to reach it by the target date
+ */
+export function StashGoalProgress({ progress, currency = DEFAULT_CURRENCY, compact = false }: StashGoalProgressProps) {
+  const barColor = progress.isReached ? "bg-green-600" : progress.isOverdue ? "bg-destructive" : "bg-primary";
+
+  return (
+    <div className={compact ? "space-y-1" : "space-y-2"}>
+      <div className="flex items-baseline justify-between gap-2 text-sm">
+        <span className="text-muted-foreground">
+          Goal {formatMoney(progress.goalAmount, currency)}
+          {progress.goalDate && !compact && <> by {formatDate(progress.goalDate)}</>}
+        </span>
+        <span className="font-medium tabular-nums">{Math.floor(progress.percentage)}%</span>
+      </div>
+
+      <div
+        className={`w-full overflow-hidden rounded-full bg-muted ${compact ? "h-1.5" : "h-2.5"}`}
+        role="progressbar"
+        aria-valuenow={Math.floor(progress.percentage)}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-label="Savings goal progress"
+      >
+        <div className={`h-full ${barColor}`} style={{ width: `${progress.percentage}%` }} />
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {progress.isReached ? (
+          <span className="text-green-600 dark:text-green-500">Goal reached</span>
+        ) : (
+          <>
+            {formatMoney(progress.remaining, currency)} to go
+            {progress.isOverdue && <span className="text-destructive"> · target date passed</span>}
+            {progress.monthlyNeeded !== null && progress.monthsLeft !== null && (
+              <>
+                {" "}
+                · {formatMoney(progress.monthlyNeeded, currency)}/month for {progress.monthsLeft}{" "}
+                {progress.monthsLeft === 1 ? "month" : "months"}
+              </>
+            )}
+          </>
+        )}
+      </p>
+    </div>
+  );
+}
@@ -9,28 +9,66 @@ import {
 import { Button } from "@/components/ui/button";
 import { RenameStashDialog } from "./RenameStashDialog";
 import { DeleteStashDialog } from "./DeleteStashDialog";
+import { SetStashGoalDialog } from "./SetStashGoalDialog";
+import { StashGoalProgress } from "./StashGoalProgress";
+import type { StashGoalProgressDTO } from "@/types";
 
 interface StashListItemViewModel {
   id: string;
   name: string;
   balance: string;
+  currency: string;
+  baseCurrency: string;
+  convertedBalance: string | null;
+  missingRate: boolean;
   url: string;
+  goalAmount: number | null;
+  goalDate: string | null;
+  sharedWithHousehold: boolean;
+  goal: StashGoalProgressDTO | null;
 }
 
 interface StashListItemProps {
   stash: StashListItemViewModel;
   onMutate?: () => void;
+  /** Called instead of onMutate after the stash is deleted, e.g. to offer an undo */
+  onDeleted?: (stash: { id: string; name: string }) => void;
 }
 
-export function StashListItem({ stash, onMutate }: StashListItemProps) {
+export function StashListItem({ stash, onMutate, onDeleted }: StashListItemProps) {
   const [renameDialogOpen, setRenameDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [goalDialogOpen, setGoalDialogOpen] = useState(false);
+  const [shareError, setShareError] = useState<string | null>(null);
 
   const handleMenuClick = (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
   };
 
+  // Shared stashes are listed read-only in the household settings of the other members
+  const handleToggleShare = async () => {
+    setShareError(null);
+
+    try {
+      const response = await fetch(`/api/stashes/${stash.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ shared_with_household: !stash.sharedWithHousehold }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        setShareError(errorData.message || "Failed to update sharing");
+        return;
+      }
+
+      onMutate?.();
+    } catch (err) {
+      setShareError("An unexpected error occurred. Please try again.");
+    }
+  };
+
   return (
     <>
       <div className="relative group">
@@ -88,6 +126,57 @@ export function StashListItem({ stash, onMutate }: StashListItemProps) {
                     </svg>
                     Rename
                   </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setGoalDialogOpen(true);
+                    }}
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="mr-2"
+                      aria-hidden="true"
+                    >
+                      <circle cx="12" cy="12" r="10" />
+                      <circle cx="12" cy="12" r="6" />
+                      <circle cx="12" cy="12" r="2" />
+                    </svg>
+                    {stash.goal ? "Edit goal" : "Set goal"}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={(e) => {
+                      e.preventDefault();
+                      handleToggleShare();
+                    }}
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      className="mr-2"
+                      aria-hidden="true"
+                    >
+                      <path d="M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2" />
+                      <circle cx="9" cy="7" r="4" />
+                      <path d="M22 21v-2a4 4 0 0 0-3-3.87" />
+                      <path d="M16 3.13a4 4 0 0 1 0 7.75" />
+                    </svg>
+                    {stash.sharedWithHousehold ? "Stop sharing" : "Share with household"}
+                  </DropdownMenuItem>
                   <DropdownMenuItem
                     onClick={(e) => {
                       e.preventDefault();
@@ -122,7 +211,22 @@ export function StashListItem({ stash, onMutate }: StashListItemProps) {
               <div className="space-y-1">
                 <p className="text-sm text-muted-foreground">Current Balance</p>
                 <p className="text-2xl font-bold text-primary">{stash.balance}</p>
+                {stash.convertedBalance && <p className="text-sm text-muted-foreground">≈ {stash.convertedBalance}</p>}
+                {stash.missingRate && (
+                  <p className="text-xs text-muted-foreground">
+                    No {stash.currency}/{stash.baseCurrency} exchange rate
+                  </p>
+                )}
               </div>
+              {stash.sharedWithHousehold && (
+                <p className="mt-2 text-xs text-muted-foreground">Shared with your household</p>
+              )}
+              {shareError && <p className="mt-2 text-xs text-destructive">{shareError}</p>}
+              {stash.goal && (
+                <div className="mt-4">
+                  <StashGoalProgress progress={stash.goal} currency={stash.currency} compact />
+                </div>
+              )}
             </CardContent>
           </Card>
         </a>
@@ -136,12 +240,22 @@ export function StashListItem({ stash, onMutate }: StashListItemProps) {
         onSuccess={onMutate}
       />
 
+      <SetStashGoalDialog
+        stashId={stash.id}
+        currentGoalAmount={stash.goalAmount}
+        currentGoalDate={stash.goalDate}
+        currency={stash.currency}
+        open={goalDialogOpen}
+        onOpenChange={setGoalDialogOpen}
+        onSuccess={onMutate}
+      />
+
       <DeleteStashDialog
         stashId={stash.id}
         stashName={stash.name}
         open={deleteDialogOpen}
         onOpenChange={setDeleteDialogOpen}
-        onSuccess={onMutate}
+        onSuccess={onDeleted ? () => onDeleted({ id: stash.id, name: stash.name }) : onMutate}
       />
     </>
   );
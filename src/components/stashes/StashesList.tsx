@@ -1,37 +1,51 @@
 import { useMemo } from "react";
 import { useStashes } from "@/components/hooks/useStashes";
+import { useBaseCurrency } from "@/components/hooks/useBaseCurrency";
 import { StashListItem } from "./StashListItem";
 import { EmptyState } from "./EmptyState";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import type { StashListItemDTO } from "@/types";
+import type { StashGoalProgressDTO, StashListItemDTO } from "@/types";
+import { computeStashGoalProgress } from "@/lib/stash-goal";
+import { formatMoney } from "@/lib/currency";
 
 interface StashListItemViewModel {
   id: string;
   name: string;
   balance: string;
+  currency: string;
+  baseCurrency: string;
+  convertedBalance: string | null;
+  missingRate: boolean;
   url: string;
-}
-
-function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat("pl-PL", {
-    style: "currency",
-    currency: "PLN",
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(amount);
+  goalAmount: number | null;
+  goalDate: string | null;
+  sharedWithHousehold: boolean;
+  goal: StashGoalProgressDTO | null;
 }
 
 function transformToViewModel(stash: StashListItemDTO): StashListItemViewModel {
+  const isForeign = stash.currency !== stash.base_currency;
+
   return {
     id: stash.id,
     name: stash.name,
-    balance: formatCurrency(stash.current_balance),
+    balance: formatMoney(stash.current_balance, stash.currency),
+    currency: stash.currency,
+    baseCurrency: stash.base_currency,
+    convertedBalance:
+      isForeign && stash.converted_balance !== null ? formatMoney(stash.converted_balance, stash.base_currency) : null,
+    missingRate: isForeign && stash.converted_balance === null,
     url: `/app/stashes/${stash.id}`,
+    goalAmount: stash.goal_amount,
+    goalDate: stash.goal_date,
+    sharedWithHousehold: stash.shared_with_household,
+    goal: computeStashGoalProgress(stash),
   };
 }
 
 export default function StashesList() {
-  const { stashes, isLoading, error, refresh } = useStashes();
+  const { baseCurrency } = useBaseCurrency();
+  const { stashes, isLoading, error, refresh } = useStashes(baseCurrency);
 
   const viewModels = useMemo(() => {
     return stashes.map(transformToViewModel);
@@ -1,49 +1,88 @@
 import { useStashes } from "@/components/hooks/useStashes";
+import { useBaseCurrency } from "@/components/hooks/useBaseCurrency";
 import { CreateStashDialog } from "./CreateStashDialog";
 import { StashListItem } from "./StashListItem";
 import { EmptyState } from "./EmptyState";
+import { BaseCurrencySelect } from "./BaseCurrencySelect";
+import { ExchangeRatesDialog } from "./ExchangeRatesDialog";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { useMemo } from "react";
-import type { StashListItemDTO } from "@/types";
+import { UndoToast } from "@/components/UndoToast";
+import type { UndoableDeletion } from "@/components/UndoToast";
+import { useCallback, useMemo, useState } from "react";
+import type { StashGoalProgressDTO, StashListItemDTO } from "@/types";
+import { computeStashGoalProgress } from "@/lib/stash-goal";
+import { formatMoney } from "@/lib/currency";
 
 interface StashListItemViewModel {
   id: string;
   name: string;
   balance: string;
+  currency: string;
+  baseCurrency: string;
+  convertedBalance: string | null;
+  missingRate: boolean;
   url: string;
-}
-
-function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat("pl-PL", {
-    style: "currency",
-    currency: "PLN",
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(amount);
+  goalAmount: number | null;
+  goalDate: string | null;
+  sharedWithHousehold: boolean;
+  goal: StashGoalProgressDTO | null;
 }
 
 function transformToViewModel(stash: StashListItemDTO): StashListItemViewModel {
+  const isForeign = stash.currency !== stash.base_currency;
+
   return {
     id: stash.id,
     name: stash.name,
-    balance: formatCurrency(stash.current_balance),
+    balance: formatMoney(stash.current_balance, stash.currency),
+    currency: stash.currency,
+    baseCurrency: stash.base_currency,
+    convertedBalance:
+      isForeign && stash.converted_balance !== null ? formatMoney(stash.converted_balance, stash.base_currency) : null,
+    missingRate: isForeign && stash.converted_balance === null,
     url: `/app/stashes/${stash.id}`,
+    goalAmount: stash.goal_amount,
+    goalDate: stash.goal_date,
+    sharedWithHousehold: stash.shared_with_household,
+    goal: computeStashGoalProgress(stash),
   };
 }
 
 export default function StashesListWithCreate() {
-  const { stashes, isLoading, error, refresh } = useStashes();
+  const { baseCurrency, setBaseCurrency } = useBaseCurrency();
+  const { stashes, isLoading, error, refresh } = useStashes(baseCurrency);
+  const [undoDeletion, setUndoDeletion] = useState<UndoableDeletion | null>(null);
 
   const viewModels = useMemo(() => {
     return stashes.map(transformToViewModel);
   }, [stashes]);
 
+  const headerActions = (
+    <div className="flex items-center gap-2">
+      <BaseCurrencySelect value={baseCurrency} onChange={setBaseCurrency} />
+      <ExchangeRatesDialog baseCurrency={baseCurrency} onChange={refresh} />
+      <CreateStashDialog onSuccess={refresh} />
+    </div>
+  );
+
+  const handleStashDeleted = (stash: { id: string; name: string }) => {
+    setUndoDeletion({ message: `Deleted ${stash.name}`, restoreUrl: `/api/stashes/${stash.id}/restore` });
+    refresh();
+  };
+
+  const handleUndoClose = useCallback(() => setUndoDeletion(null), []);
+
+  // Kept outside the list so it survives the refresh after a delete
+  const undoToast = undoDeletion && (
+    <UndoToast deletion={undoDeletion} onRestored={refresh} onClose={handleUndoClose} />
+  );
+
   if (isLoading) {
     return (
       <div className="space-y-6">
         <div className="flex items-center justify-between">
           <h1 className="text-3xl font-bold tracking-tight">Your Stashes</h1>
-          <CreateStashDialog onSuccess={refresh} />
+          {headerActions}
         </div>
         <div className="flex items-center justify-center py-12">
           <div className="flex flex-col items-center gap-4">
@@ -55,6 +94,7 @@ export default function StashesListWithCreate() {
             <p className="text-sm text-muted-foreground">Loading your stashes...</p>
           </div>
         </div>
+        {undoToast}
       </div>
     );
   }
@@ -64,7 +104,7 @@ export default function StashesListWithCreate() {
       <div className="space-y-6">
         <div className="flex items-center justify-between">
           <h1 className="text-3xl font-bold tracking-tight">Your Stashes</h1>
-          <CreateStashDialog onSuccess={refresh} />
+          {headerActions}
         </div>
         <Alert variant="destructive">
           <AlertDescription>Could not load stashes. Please try again later.</AlertDescription>
@@ -78,9 +118,10 @@ export default function StashesListWithCreate() {
       <div className="space-y-6">
         <div className="flex items-center justify-between">
           <h1 className="text-3xl font-bold tracking-tight">Your Stashes</h1>
-          <CreateStashDialog onSuccess={refresh} />
+          {headerActions}
         </div>
         <EmptyState />
+        {undoToast}
       </div>
     );
   }
@@ -89,13 +130,14 @@ export default function StashesListWithCreate() {
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold tracking-tight">Your Stashes</h1>
-        <CreateStashDialog onSuccess={refresh} />
+        {headerActions}
       </div>
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
         {viewModels.map((stash) => (
-          <StashListItem key={stash.id} stash={stash} onMutate={refresh} />
+          <StashListItem key={stash.id} stash={stash} onMutate={refresh} onDeleted={handleStashDeleted} />
         ))}
       </div>
+      {undoToast}
     </div>
   );
 }
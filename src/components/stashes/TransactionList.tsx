@@ -1,4 +1,4 @@
-import type { StashTransactionDTO } from "@/types";
+import type { StashTransactionListItemDTO } from "@/types";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
@@ -13,12 +13,12 @@ interface PaginationState {
 
 interface TransactionListProps {
   stashId: string;
-  transactions: StashTransactionDTO[];
+  transactions: StashTransactionListItemDTO[];
   pagination: PaginationState;
   isLoading: boolean;
   error: Error | null;
   onPageChange: (page: number) => void;
-  onTransactionDeleted: () => void;
+  onTransactionDeleted: (transactionId: string) => void;
 }
 
 /**
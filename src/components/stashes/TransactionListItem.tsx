@@ -1,5 +1,5 @@
 import { useState } from "react";
-import type { StashTransactionDTO } from "@/types";
+import type { StashTransactionListItemDTO } from "@/types";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -7,30 +7,47 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
-import { ArrowUpCircle, ArrowDownCircle, MoreVertical, Trash2 } from "lucide-react";
+import {
+  ArrowUpCircle,
+  ArrowDownCircle,
+  ArrowLeftRight,
+  MoreVertical,
+  Trash2,
+  TrendingDown,
+  TrendingUp,
+} from "lucide-react";
 import { DeleteTransactionDialog } from "./DeleteTransactionDialog";
+import { formatMoney } from "@/lib/currency";
 
 interface TransactionListItemProps {
-  transaction: StashTransactionDTO;
+  transaction: StashTransactionListItemDTO;
   stashId: string;
-  onDeleteSuccess: () => void;
+  onDeleteSuccess: (transactionId: string) => void;
 }
 
 /**
  * Renders a single transaction item with type indicator, amount, description, and delete action
+ * Both sides of a transfer share a transfer_id and are shown as a single transfer to/from the other stash
+ * Valuation adjustments carry a signed amount (gain or loss) and are shown as a change in market value
  */
 export function TransactionListItem({ transaction, stashId, onDeleteSuccess }: TransactionListItemProps) {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
 
   const isDeposit = transaction.transaction_type === "deposit";
+  const isAdjustment = transaction.transaction_type === "adjustment";
+  const isTransfer = !!transaction.transfer_id;
+  const isIncrease = isDeposit || (isAdjustment && Number(transaction.amount) >= 0);
+  const transferStashName = transaction.transfer_stash?.name ?? "another stash";
+  const typeLabel = isTransfer
+    ? `Transfer ${isDeposit ? "from" : "to"} ${transferStashName}`
+    : isAdjustment
+      ? `Valuation ${isIncrease ? "gain" : "loss"}`
+      : transaction.transaction_type;
 
   // Format amount with sign and currency
-  const formattedAmount = new Intl.NumberFormat("pl-PL", {
-    style: "currency",
-    currency: "PLN",
-  }).format(Number(transaction.amount));
+  const formattedAmount = formatMoney(Math.abs(Number(transaction.amount)), transaction.currency);
 
-  const amountWithSign = isDeposit ? `+${formattedAmount}` : `-${formattedAmount}`;
+  const amountWithSign = isIncrease ? `+${formattedAmount}` : `-${formattedAmount}`;
 
   // Format date and time
   const formattedDate = new Intl.DateTimeFormat("en-US", {
@@ -52,10 +69,22 @@ export function TransactionListItem({ transaction, stashId, onDeleteSuccess }: T
         <div className="flex items-start gap-3 flex-1">
           {/* Transaction type icon */}
           <div
-            className={`mt-1 ${isDeposit ? "text-green-600 dark:text-green-500" : "text-red-600 dark:text-red-500"}`}
+            className={`mt-1 ${isIncrease ? "text-green-600 dark:text-green-500" : "text-red-600 dark:text-red-500"}`}
             aria-hidden="true"
           >
-            {isDeposit ? <ArrowUpCircle className="h-5 w-5" /> : <ArrowDownCircle className="h-5 w-5" />}
+            {isTransfer ? (
+              <ArrowLeftRight className="h-5 w-5" />
+            ) : isAdjustment ? (
+              isIncrease ? (
+                <TrendingUp className="h-5 w-5" />
+              ) : (
+                <TrendingDown className="h-5 w-5" />
+              )
+            ) : isDeposit ? (
+              <ArrowUpCircle className="h-5 w-5" />
+            ) : (
+              <ArrowDownCircle className="h-5 w-5" />
+            )}
           </div>
 
           {/* Transaction details */}
@@ -63,12 +92,12 @@ export function TransactionListItem({ transaction, stashId, onDeleteSuccess }: T
             <div className="flex items-baseline gap-2 flex-wrap">
               <span
                 className={`text-lg font-semibold ${
-                  isDeposit ? "text-green-600 dark:text-green-500" : "text-red-600 dark:text-red-500"
+                  isIncrease ? "text-green-600 dark:text-green-500" : "text-red-600 dark:text-red-500"
                 }`}
               >
                 {amountWithSign}
               </span>
-              <span className="text-xs text-muted-foreground capitalize">{transaction.transaction_type}</span>
+              <span className={`text-xs text-muted-foreground ${isTransfer ? "" : "capitalize"}`}>{typeLabel}</span>
             </div>
 
             {transaction.description && (
@@ -106,11 +135,12 @@ export function TransactionListItem({ transaction, stashId, onDeleteSuccess }: T
       <DeleteTransactionDialog
         transactionId={transaction.id}
         stashId={stashId}
-        transactionAmount={formattedAmount}
+        transactionAmount={isAdjustment ? amountWithSign : formattedAmount}
         transactionType={transaction.transaction_type}
+        transferStashName={isTransfer ? transferStashName : null}
         open={deleteDialogOpen}
         onOpenChange={setDeleteDialogOpen}
-        onSuccess={onDeleteSuccess}
+        onSuccess={() => onDeleteSuccess(transaction.id)}
       />
     </>
   );
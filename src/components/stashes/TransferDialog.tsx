@@ -0,0 +1,272 @@
+import { useState, useEffect } from "react";
+import type { ApiPaginatedResponse, StashListItemDTO } from "@/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { DEFAULT_CURRENCY, STASH_AMOUNT_STEP, formatMoney } from "@/lib/currency";
+
+interface TransferDialogProps {
+  stashId: string;
+  currentBalance: number;
+  /** Currency of the stash; only stashes in the same currency are offered as targets */
+  currency?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+/**
+ * Dialog for moving money from this stash to another one
+ * Both sides of the transfer are created at once by the API
+ */
+export function TransferDialog({
+  stashId,
+  currentBalance,
+  currency = DEFAULT_CURRENCY,
+  open,
+  onOpenChange,
+  onSuccess,
+}: TransferDialogProps) {
+  const [stashes, setStashes] = useState<StashListItemDTO[]>([]);
+  const [targetStashId, setTargetStashId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [description, setDescription] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  // Load the stashes money can be moved to whenever the dialog opens (same currency only)
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchStashes = async () => {
+      try {
+        const response = await fetch("/api/stashes?limit=100&sort=name&order=asc");
+
+        if (!response.ok) {
+          if (response.status === 401) {
+            window.location.href = "/login";
+            return;
+          }
+          throw new Error("Failed to load stashes");
+        }
+
+        const data: ApiPaginatedResponse<StashListItemDTO> = await response.json();
+        setStashes(data.data.filter((stash) => stash.id !== stashId && stash.currency === currency));
+      } catch {
+        setError("Failed to load stashes. Please try again.");
+      }
+    };
+
+    fetchStashes();
+  }, [open, stashId, currency]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    setFieldErrors({});
+
+    // Client-side validation
+    if (!targetStashId) {
+      setFieldErrors({ target_stash_id: "Choose a stash to transfer to" });
+      setIsSubmitting(false);
+      return;
+    }
+
+    const amountNum = parseFloat(amount);
+    if (isNaN(amountNum) || amountNum <= 0) {
+      setFieldErrors({ amount: "Amount must be a positive number" });
+      setIsSubmitting(false);
+      return;
+    }
+
+    if (amountNum > currentBalance) {
+      setFieldErrors({ amount: "Transfer amount cannot exceed current balance" });
+      setIsSubmitting(false);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/stashes/${stashId}/transfers`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          target_stash_id: targetStashId,
+          amount: amountNum,
+          description: description.trim() || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          window.location.href = "/login";
+          return;
+        }
+
+        if (response.status === 403) {
+          setError("Insufficient balance for transfer");
+          setIsSubmitting(false);
+          return;
+        }
+
+        if (response.status === 400 || response.status === 422) {
+          const errorData = await response.json();
+          if (errorData.errors) {
+            setFieldErrors(errorData.errors);
+          } else {
+            setError(errorData.message || "Validation failed");
+          }
+          setIsSubmitting(false);
+          return;
+        }
+
+        const errorData = await response.json();
+        setError(errorData.message || "Failed to create transfer");
+        setIsSubmitting(false);
+        return;
+      }
+
+      // Success - reset form and close dialog
+      setTargetStashId("");
+      setAmount("");
+      setDescription("");
+      setIsSubmitting(false);
+      onOpenChange(false);
+
+      if (onSuccess) {
+        onSuccess();
+      }
+    } catch {
+      setError("An unexpected error occurred. Please try again.");
+      setIsSubmitting(false);
+    }
+  };
+
+  // Reset form when dialog closes
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      setTargetStashId("");
+      setAmount("");
+      setDescription("");
+      setError(null);
+      setFieldErrors({});
+    }
+    onOpenChange(newOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <form onSubmit={handleSubmit} noValidate>
+          <DialogHeader>
+            <DialogTitle>Transfer Funds</DialogTitle>
+            <DialogDescription>Move money from this stash to another one</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="transfer-target">
+                To stash <span className="text-destructive">*</span>
+              </Label>
+              <select
+                id="transfer-target"
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                value={targetStashId}
+                onChange={(e) => setTargetStashId(e.target.value)}
+                disabled={isSubmitting}
+                aria-invalid={!!fieldErrors.target_stash_id}
+                aria-describedby={fieldErrors.target_stash_id ? "transfer-target-error" : undefined}
+              >
+                <option value="">Choose a stash...</option>
+                {stashes.map((stash) => (
+                  <option key={stash.id} value={stash.id}>
+                    {stash.name}
+                  </option>
+                ))}
+              </select>
+              {fieldErrors.target_stash_id && (
+                <p id="transfer-target-error" className="text-sm text-destructive">
+                  {fieldErrors.target_stash_id}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="transfer-amount">
+                Amount ({currency}) <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="transfer-amount"
+                type="number"
+                step={STASH_AMOUNT_STEP}
+                min={STASH_AMOUNT_STEP}
+                placeholder="0.00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                disabled={isSubmitting}
+                aria-invalid={!!fieldErrors.amount}
+                aria-describedby={fieldErrors.amount ? "transfer-amount-error" : undefined}
+                required
+              />
+              {fieldErrors.amount && (
+                <p id="transfer-amount-error" className="text-sm text-destructive">
+                  {fieldErrors.amount}
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Available balance: {formatMoney(currentBalance, currency)}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="transfer-description">Description (optional)</Label>
+              <Input
+                id="transfer-description"
+                type="text"
+                placeholder="Add a note..."
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                disabled={isSubmitting}
+                maxLength={1000}
+                aria-invalid={!!fieldErrors.description}
+                aria-describedby={fieldErrors.description ? "transfer-description-error" : undefined}
+              />
+              {fieldErrors.description && (
+                <p id="transfer-description-error" className="text-sm text-destructive">
+                  {fieldErrors.description}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Processing..." : "Transfer"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
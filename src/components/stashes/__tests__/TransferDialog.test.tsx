@@ -0,0 +1,77 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { TransferDialog } from "../TransferDialog";
+
+const createFetchResponse = <T,>(payload: T, init: { ok?: boolean; status?: number } = {}) => ({
+  ok: init.ok ?? true,
+  status: init.status ?? 200,
+  json: async () => payload,
+});
+
+const stashesResponse = {
+  data: [
+    { id: "stash-123", name: "Savings", current_balance: 500, currency: "PLN", created_at: "", updated_at: "" },
+    { id: "stash-456", name: "Broker", current_balance: 0, currency: "PLN", created_at: "", updated_at: "" },
+    { id: "stash-789", name: "Euro Account", current_balance: 100, currency: "EUR", created_at: "", updated_at: "" },
+  ],
+  pagination: { page: 1, limit: 100, total: 3 },
+};
+
+describe("TransferDialog", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("offers the other stashes in the same currency and submits a single transfer request", async () => {
+    const onOpenChange = vi.fn();
+    const onSuccess = vi.fn();
+
+    fetchMock.mockResolvedValueOnce(createFetchResponse(stashesResponse));
+    fetchMock.mockResolvedValueOnce(createFetchResponse({}, { status: 201 }));
+
+    render(
+      <TransferDialog stashId="stash-123" currentBalance={500} open onOpenChange={onOpenChange} onSuccess={onSuccess} />
+    );
+
+    await screen.findByRole("option", { name: "Broker" });
+    expect(screen.queryByRole("option", { name: "Savings" })).toBeNull();
+    expect(screen.queryByRole("option", { name: "Euro Account" })).toBeNull();
+
+    fireEvent.change(screen.getByLabelText(/To stash/), { target: { value: "stash-456" } });
+    fireEvent.change(screen.getByLabelText(/Amount/), { target: { value: "200" } });
+    fireEvent.click(screen.getByRole("button", { name: "Transfer" }));
+
+    await waitFor(() => {
+      expect(onSuccess).toHaveBeenCalledOnce();
+    });
+
+    const [url, requestInit] = fetchMock.mock.calls[1];
+    expect(url).toBe("/api/stashes/stash-123/transfers");
+    expect(JSON.parse(requestInit.body)).toEqual({ target_stash_id: "stash-456", amount: 200 });
+    expect(onOpenChange).toHaveBeenCalledWith(false);
+  });
+
+  it("rejects amounts above the current balance without calling the API", async () => {
+    fetchMock.mockResolvedValueOnce(createFetchResponse(stashesResponse));
+
+    render(<TransferDialog stashId="stash-123" currentBalance={100} open onOpenChange={vi.fn()} />);
+
+    await screen.findByRole("option", { name: "Broker" });
+
+    fireEvent.change(screen.getByLabelText(/To stash/), { target: { value: "stash-456" } });
+    fireEvent.change(screen.getByLabelText(/Amount/), { target: { value: "150" } });
+    fireEvent.click(screen.getByRole("button", { name: "Transfer" }));
+
+    expect(await screen.findByText("Transfer amount cannot exceed current balance")).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledOnce();
+  });
+});
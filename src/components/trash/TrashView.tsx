@@ -0,0 +1,216 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
+import type { TrashDTO } from "@/types";
+
+/**
+ * A deleted record as shown in the trash, with the endpoint that restores it
+ */
+interface TrashItem {
+  id: string;
+  title: string;
+  detail: string;
+  deletedAt: string | null;
+  restoreUrl: string;
+}
+
+const TRANSACTION_TYPE_LABELS: Record<string, string> = {
+  deposit: "Deposit",
+  withdrawal: "Withdrawal",
+  adjustment: "Valuation adjustment",
+};
+
+const formatDate = (value: string): string =>
+  new Date(value).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" });
+
+/**
+ * Converts the trash response into the three sections of the page
+ */
+function toSections(trash: TrashDTO): { title: string; items: TrashItem[] }[] {
+  return [
+    {
+      title: "Expenses",
+      items: trash.expenses.map((expense) => ({
+        id: expense.id,
+        title: expense.description,
+        detail: `${formatMoney(expense.amount, DEFAULT_CURRENCY)} · ${formatDate(expense.expense_date)}`,
+        deletedAt: expense.deleted_at,
+        restoreUrl: `/api/expenses/${expense.id}/restore`,
+      })),
+    },
+    {
+      title: "Stashes",
+      items: trash.stashes.map((stash) => ({
+        id: stash.id,
+        title: stash.name,
+        detail: `${stash.currency} · restored with its transactions`,
+        deletedAt: stash.deleted_at,
+        restoreUrl: `/api/stashes/${stash.id}/restore`,
+      })),
+    },
+    {
+      title: "Stash Transactions",
+      items: trash.transactions.map((transaction) => ({
+        id: transaction.id,
+        title: `${transaction.transfer_id ? "Transfer" : TRANSACTION_TYPE_LABELS[transaction.transaction_type]} · ${
+          transaction.stash_name
+        }`,
+        detail: `${formatMoney(Number(transaction.amount), transaction.currency)}${
+          transaction.description ? ` · ${transaction.description}` : ""
+        }`,
+        deletedAt: transaction.deleted_at,
+        restoreUrl: `/api/stashes/${transaction.stash_id}/transactions/${transaction.id}/restore`,
+      })),
+    },
+  ];
+}
+
+/**
+ * TrashView component
+ * Lists deleted expenses, stashes and stash transactions and restores them
+ */
+export function TrashView() {
+  const [trash, setTrash] = useState<TrashDTO | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+
+  const fetchTrash = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch("/api/trash");
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          window.location.href = "/login";
+          return;
+        }
+
+        throw new Error("Failed to load the trash");
+      }
+
+      const { data } = await response.json();
+      setTrash(data);
+    } catch (err) {
+      console.error("Error fetching trash:", err);
+      setError("Failed to load the trash. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Records past the retention period are removed for good when the page opens;
+  // if that fails they are only kept a little longer, so the trash still loads
+  const purgeExpired = async () => {
+    try {
+      await fetch("/api/trash/purge", { method: "POST" });
+    } catch (err) {
+      console.error("Error purging trash:", err);
+    }
+  };
+
+  useEffect(() => {
+    purgeExpired().then(fetchTrash);
+  }, []);
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      setRestoringId(item.id);
+      setRestoreError(null);
+
+      const response = await fetch(item.restoreUrl, { method: "POST" });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || "Failed to restore");
+      }
+
+      await fetchTrash();
+    } catch (err) {
+      console.error("Error restoring from trash:", err);
+      setRestoreError(err instanceof Error ? err.message : "Failed to restore");
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (loading && !trash) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-32 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !trash) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>{error || "Failed to load the trash. Please try again."}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const sections = toSections(trash).filter((section) => section.items.length > 0);
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Deleted items are kept for {trash.retention_days} days and then removed permanently.
+      </p>
+
+      {restoreError && (
+        <Alert variant="destructive">
+          <AlertDescription>{restoreError}</AlertDescription>
+        </Alert>
+      )}
+
+      {sections.length === 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>The trash is empty</CardTitle>
+            <CardDescription>Deleted expenses, stashes and transactions show up here.</CardDescription>
+          </CardHeader>
+        </Card>
+      )}
+
+      {sections.map((section) => (
+        <Card key={section.title}>
+          <CardHeader>
+            <CardTitle>{section.title}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y divide-border">
+              {section.items.map((item) => (
+                <li key={item.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0">
+                    <p className="truncate font-medium">{item.title}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {item.detail}
+                      {item.deletedAt && ` · deleted ${formatDate(item.deletedAt)}`}
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRestore(item)}
+                    disabled={restoringId !== null}
+                  >
+                    {restoringId === item.id ? "Restoring..." : "Restore"}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
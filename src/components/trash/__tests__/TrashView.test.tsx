@@ -0,0 +1,80 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { TrashView } from "../TrashView";
+
+const createFetchResponse = <T,>(payload: T, init: { ok?: boolean; status?: number } = {}) => ({
+  ok: init.ok ?? true,
+  status: init.status ?? 200,
+  json: async () => payload,
+});
+
+const trash = {
+  retention_days: 30,
+  expenses: [
+    {
+      id: "expense-1",
+      amount: 42.5,
+      description: "Groceries",
+      expense_date: "2026-10-01",
+      deleted_at: "2026-10-10T12:00:00Z",
+    },
+  ],
+  stashes: [{ id: "stash-1", name: "Holidays", currency: "PLN", deleted_at: "2026-10-11T12:00:00Z" }],
+  transactions: [],
+};
+
+describe("TrashView", () => {
+  const fetchMock = vi.fn<(url: string, init?: RequestInit) => Promise<ReturnType<typeof createFetchResponse>>>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("lists deleted records and restores one through its restore endpoint", async () => {
+    fetchMock
+      .mockResolvedValueOnce(createFetchResponse({ data: { purged: 0 } }))
+      .mockResolvedValueOnce(createFetchResponse({ data: trash }))
+      .mockResolvedValueOnce(createFetchResponse(null, { status: 204 }))
+      .mockResolvedValueOnce(createFetchResponse({ data: { ...trash, expenses: [] } }));
+
+    render(<TrashView />);
+
+    await screen.findByText("Groceries");
+    expect(screen.getByText("Holidays")).toBeInTheDocument();
+    expect(screen.getByText(/kept for 30 days/)).toBeInTheDocument();
+    expect(fetchMock.mock.calls[0]).toEqual(["/api/trash/purge", { method: "POST" }]);
+    expect(fetchMock.mock.calls[1]).toEqual(["/api/trash"]);
+
+    fireEvent.click(screen.getAllByRole("button", { name: "Restore" })[0]);
+
+    await waitFor(() => expect(screen.queryByText("Groceries")).not.toBeInTheDocument());
+    expect(fetchMock).toHaveBeenCalledWith("/api/expenses/expense-1/restore", { method: "POST" });
+  });
+
+  it("shows why a restore was refused", async () => {
+    fetchMock
+      .mockResolvedValueOnce(createFetchResponse({ data: { purged: 0 } }))
+      .mockResolvedValueOnce(createFetchResponse({ data: { ...trash, expenses: [] } }))
+      .mockResolvedValueOnce(
+        createFetchResponse(
+          { error: "Conflict", message: "An active stash with this name already exists. Rename it before restoring." },
+          { ok: false, status: 409 }
+        )
+      );
+
+    render(<TrashView />);
+
+    fireEvent.click(await screen.findByRole("button", { name: "Restore" }));
+
+    expect(await screen.findByText(/An active stash with this name already exists/)).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenLastCalledWith("/api/stashes/stash-1/restore", { method: "POST" });
+    expect(screen.getByText("Holidays")).toBeInTheDocument();
+  });
+});
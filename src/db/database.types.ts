@@ -8,131 +8,566 @@ export interface Database {
   };
   public: {
     Tables: {
+      api_tokens: {
+        Row: {
+          created_at: string;
+          id: string;
+          last_used_at: string | null;
+          name: string;
+          scopes: string[];
+          token_hash: string;
+          token_prefix: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          last_used_at?: string | null;
+          name: string;
+          scopes: string[];
+          token_hash: string;
+          token_prefix: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          last_used_at?: string | null;
+          name?: string;
+          scopes?: string[];
+          token_hash?: string;
+          token_prefix?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      audit_log: {
+        Row: {
+          actor_id: string | null;
+          created_at: string;
+          entity_id: string;
+          entity_type: string;
+          household_id: string | null;
+          id: string;
+          new_values: Json | null;
+          old_values: Json | null;
+          operation: string;
+          user_id: string;
+        };
+        Insert: {
+          actor_id?: string | null;
+          created_at?: string;
+          entity_id: string;
+          entity_type: string;
+          household_id?: string | null;
+          id?: string;
+          new_values?: Json | null;
+          old_values?: Json | null;
+          operation: string;
+          user_id: string;
+        };
+        Update: {
+          actor_id?: string | null;
+          created_at?: string;
+          entity_id?: string;
+          entity_type?: string;
+          household_id?: string | null;
+          id?: string;
+          new_values?: Json | null;
+          old_values?: Json | null;
+          operation?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      budget_template_categories: {
+        Row: {
+          amount: number;
+          category_id: string;
+          id: string;
+          template_id: string;
+          user_id: string;
+        };
+        Insert: {
+          amount: number;
+          category_id: string;
+          id?: string;
+          template_id: string;
+          user_id: string;
+        };
+        Update: {
+          amount?: number;
+          category_id?: string;
+          id?: string;
+          template_id?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      budget_templates: {
+        Row: {
+          budget_set: number;
+          created_at: string;
+          id: string;
+          name: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          budget_set: number;
+          created_at?: string;
+          id?: string;
+          name: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          budget_set?: number;
+          created_at?: string;
+          id?: string;
+          name?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      exchange_rates: {
+        Row: {
+          created_at: string;
+          from_currency: string;
+          id: string;
+          rate: number;
+          rate_date: string;
+          to_currency: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          from_currency: string;
+          id?: string;
+          rate: number;
+          rate_date?: string;
+          to_currency: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          from_currency?: string;
+          id?: string;
+          rate?: number;
+          rate_date?: string;
+          to_currency?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
       expense_categories: {
         Row: {
+          archived_at: string | null;
+          color: string | null;
           created_at: string;
           display_name: string;
           id: string;
           name: string;
           slug: string;
+          updated_at: string;
+          user_id: string | null;
         };
         Insert: {
+          archived_at?: string | null;
+          color?: string | null;
           created_at?: string;
           display_name: string;
           id?: string;
           name: string;
           slug: string;
+          updated_at?: string;
+          user_id?: string | null;
         };
         Update: {
+          archived_at?: string | null;
+          color?: string | null;
           created_at?: string;
           display_name?: string;
           id?: string;
           name?: string;
           slug?: string;
+          updated_at?: string;
+          user_id?: string | null;
         };
         Relationships: [];
       };
+      expense_splits: {
+        Row: {
+          amount: number;
+          category_id: string | null;
+          created_at: string;
+          expense_id: string;
+          id: string;
+          user_id: string;
+        };
+        Insert: {
+          amount: number;
+          category_id?: string | null;
+          created_at?: string;
+          expense_id: string;
+          id?: string;
+          user_id: string;
+        };
+        Update: {
+          amount?: number;
+          category_id?: string | null;
+          created_at?: string;
+          expense_id?: string;
+          id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "expense_splits_category_id_fkey";
+            columns: ["category_id"];
+            isOneToOne: false;
+            referencedRelation: "expense_categories";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "expense_splits_expense_id_fkey";
+            columns: ["expense_id"];
+            isOneToOne: false;
+            referencedRelation: "expenses";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      expense_tags: {
+        Row: {
+          created_at: string;
+          expense_id: string;
+          tag_id: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          expense_id: string;
+          tag_id: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          expense_id?: string;
+          tag_id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "expense_tags_expense_id_fkey";
+            columns: ["expense_id"];
+            isOneToOne: false;
+            referencedRelation: "expenses";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "expense_tags_tag_id_fkey";
+            columns: ["tag_id"];
+            isOneToOne: false;
+            referencedRelation: "tags";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       expenses: {
         Row: {
           amount: number;
-          category_id: string;
+          category_id: string | null;
           created_at: string;
           deleted_at: string | null;
-          description: string | null;
+          description: string;
           expense_date: string;
+          household_id: string | null;
           id: string;
+          recurring_expense_id: string | null;
+          scheduled_month: string | null;
           updated_at: string;
           user_id: string;
           year_month: string;
         };
         Insert: {
           amount: number;
-          category_id: string;
+          category_id?: string | null;
           created_at?: string;
           deleted_at?: string | null;
-          description?: string | null;
+          description: string;
           expense_date: string;
+          household_id?: string | null;
           id?: string;
+          recurring_expense_id?: string | null;
+          scheduled_month?: string | null;
           updated_at?: string;
           user_id: string;
-          year_month: string;
+          year_month?: string;
         };
         Update: {
           amount?: number;
-          category_id?: string;
+          category_id?: string | null;
           created_at?: string;
           deleted_at?: string | null;
-          description?: string | null;
+          description?: string;
           expense_date?: string;
+          household_id?: string | null;
           id?: string;
+          recurring_expense_id?: string | null;
+          scheduled_month?: string | null;
           updated_at?: string;
           user_id?: string;
           year_month?: string;
         };
         Relationships: [];
       };
+      household_invitations: {
+        Row: {
+          created_at: string;
+          email: string;
+          household_id: string;
+          id: string;
+          invited_by: string;
+        };
+        Insert: {
+          created_at?: string;
+          email: string;
+          household_id: string;
+          id?: string;
+          invited_by: string;
+        };
+        Update: {
+          created_at?: string;
+          email?: string;
+          household_id?: string;
+          id?: string;
+          invited_by?: string;
+        };
+        Relationships: [];
+      };
+      household_members: {
+        Row: {
+          household_id: string;
+          joined_at: string;
+          user_id: string;
+        };
+        Insert: {
+          household_id: string;
+          joined_at?: string;
+          user_id: string;
+        };
+        Update: {
+          household_id?: string;
+          joined_at?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      households: {
+        Row: {
+          created_at: string;
+          created_by: string | null;
+          id: string;
+          name: string;
+          updated_at: string;
+        };
+        Insert: {
+          created_at?: string;
+          created_by?: string | null;
+          id?: string;
+          name: string;
+          updated_at?: string;
+        };
+        Update: {
+          created_at?: string;
+          created_by?: string | null;
+          id?: string;
+          name?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string;
+          created_at: string;
+          id: string;
+          user_id: string;
+        };
+        Insert: {
+          code_hash: string;
+          created_at?: string;
+          id?: string;
+          user_id: string;
+        };
+        Update: {
+          code_hash?: string;
+          created_at?: string;
+          id?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
       month_budget: {
         Row: {
           budget_set: number;
+          closed_at: string | null;
+          closing_balance: number | null;
           created_at: string;
           current_balance: number;
           deleted_at: string | null;
+          household_id: string | null;
           id: string;
+          rollover_enabled: boolean;
           updated_at: string;
           user_id: string;
           year_month: string;
         };
         Insert: {
           budget_set: number;
+          closed_at?: string | null;
+          closing_balance?: number | null;
           created_at?: string;
           current_balance?: number;
           deleted_at?: string | null;
+          household_id?: string | null;
           id?: string;
+          rollover_enabled?: boolean;
           updated_at?: string;
           user_id: string;
           year_month: string;
         };
         Update: {
           budget_set?: number;
+          closed_at?: string | null;
+          closing_balance?: number | null;
           created_at?: string;
           current_balance?: number;
           deleted_at?: string | null;
+          household_id?: string | null;
           id?: string;
+          rollover_enabled?: boolean;
           updated_at?: string;
           user_id?: string;
           year_month?: string;
         };
         Relationships: [];
       };
+      month_budget_categories: {
+        Row: {
+          amount: number;
+          category_id: string;
+          created_at: string;
+          id: string;
+          month_budget_id: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          amount: number;
+          category_id: string;
+          created_at?: string;
+          id?: string;
+          month_budget_id: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          amount?: number;
+          category_id?: string;
+          created_at?: string;
+          id?: string;
+          month_budget_id?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      recurring_expenses: {
+        Row: {
+          amount: number;
+          category_id: string | null;
+          created_at: string;
+          day_of_month: number;
+          deleted_at: string | null;
+          description: string;
+          end_month: string | null;
+          id: string;
+          interval_months: number;
+          start_month: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          amount: number;
+          category_id?: string | null;
+          created_at?: string;
+          day_of_month: number;
+          deleted_at?: string | null;
+          description: string;
+          end_month?: string | null;
+          id?: string;
+          interval_months?: number;
+          start_month: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          amount?: number;
+          category_id?: string | null;
+          created_at?: string;
+          day_of_month?: number;
+          deleted_at?: string | null;
+          description?: string;
+          end_month?: string | null;
+          id?: string;
+          interval_months?: number;
+          start_month?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
       stash_transactions: {
         Row: {
           amount: number;
           created_at: string;
+          currency: string;
           deleted_at: string | null;
           description: string | null;
           id: string;
           stash_id: string;
           transaction_type: string;
+          transfer_id: string | null;
           user_id: string;
         };
         Insert: {
           amount: number;
           created_at?: string;
+          currency?: string;
           deleted_at?: string | null;
           description?: string | null;
           id?: string;
           stash_id: string;
           transaction_type: string;
+          transfer_id?: string | null;
           user_id: string;
         };
         Update: {
           amount?: number;
           created_at?: string;
+          currency?: string;
           deleted_at?: string | null;
           description?: string | null;
           id?: string;
           stash_id?: string;
           transaction_type?: string;
+          transfer_id?: string | null;
           user_id?: string;
         };
         Relationships: [
@@ -148,36 +583,134 @@ export interface Database {
       stashes: {
         Row: {
           created_at: string;
+          currency: string;
           current_balance: number;
           deleted_at: string | null;
+          goal_amount: number | null;
+          goal_date: string | null;
           id: string;
           name: string;
+          shared_with_household: boolean;
           updated_at: string;
           user_id: string;
         };
         Insert: {
           created_at?: string;
+          currency?: string;
           current_balance?: number;
           deleted_at?: string | null;
+          goal_amount?: number | null;
+          goal_date?: string | null;
           id?: string;
           name: string;
+          shared_with_household?: boolean;
           updated_at?: string;
           user_id: string;
         };
         Update: {
           created_at?: string;
+          currency?: string;
           current_balance?: number;
           deleted_at?: string | null;
+          goal_amount?: number | null;
+          goal_date?: string | null;
           id?: string;
           name?: string;
+          shared_with_household?: boolean;
           updated_at?: string;
           user_id?: string;
         };
         Relationships: [];
       };
+      tags: {
+        Row: {
+          created_at: string;
+          id: string;
+          name: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          name: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          name?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
     };
     Views: Record<never, never>;
     Functions: {
+      accept_household_invitation: {
+        Args: { target_invitation_id: string };
+        Returns: string;
+      };
+      apply_budget_template: {
+        Args: { source_template_id: string; from_month: string; to_month: string };
+        Returns: number;
+      };
+      apply_month_budget: {
+        Args: {
+          target_year_month: string;
+          new_budget_set: number;
+          new_rollover_enabled: boolean | null;
+          allocations: Json;
+        };
+        Returns: boolean;
+      };
+      authenticate_api_token: {
+        Args: { target_token_hash: string };
+        Returns: {
+          user_id: string;
+          email: string;
+          scopes: string[];
+        }[];
+      };
+      bulk_soft_delete_expenses: {
+        Args: { expense_ids: string[] };
+        Returns: {
+          expense_id: string;
+          status: string;
+        }[];
+      };
+      bulk_update_expenses: {
+        Args: {
+          expense_ids: string[];
+          update_category: boolean;
+          new_category_id: string | null;
+          new_expense_date: string | null;
+        };
+        Returns: {
+          expense_id: string;
+          status: string;
+        }[];
+      };
+      category_totals: {
+        Args: { target_year_month: string };
+        Returns: {
+          category_id: string | null;
+          total: number;
+          expense_count: number;
+        }[];
+      };
+      create_household: {
+        Args: { household_name: string };
+        Returns: string;
+      };
+      create_stash_transfer: {
+        Args: {
+          source_stash_id: string;
+          target_stash_id: string;
+          transfer_amount: number;
+          transfer_description: string | null;
+        };
+        Returns: string;
+      };
       delete_user_account: {
         Args: { target_user_id: string };
         Returns: undefined;
@@ -186,6 +719,138 @@ export interface Database {
         Args: { d: string };
         Returns: string;
       };
+      leave_household: {
+        Args: Record<PropertyKey, never>;
+        Returns: undefined;
+      };
+      list_household_invitations: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          id: string;
+          household_id: string;
+          household_name: string;
+          invited_by_email: string | null;
+          created_at: string;
+        }[];
+      };
+      list_household_members: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          user_id: string;
+          email: string;
+          joined_at: string;
+        }[];
+      };
+      merge_expense_categories: {
+        Args: { source_category_id: string; target_category_id: string };
+        Returns: number;
+      };
+      month_expense_totals: {
+        Args: { target_year_month: string };
+        Returns: {
+          total: number;
+          expense_count: number;
+        }[];
+      };
+      purge_deleted_items: {
+        Args: { retention_days: number };
+        Returns: number;
+      };
+      record_stash_valuation: {
+        Args: {
+          target_stash_id: string;
+          market_value: number;
+          valuation_description: string | null;
+        };
+        Returns: string;
+      };
+      report_budget_adherence: {
+        Args: { from_month: string; to_month: string };
+        Returns: {
+          year_month: string;
+          budget_set: number | null;
+          spent: number;
+          remaining: number | null;
+          used_percent: number | null;
+        }[];
+      };
+      report_category_trends: {
+        Args: { from_month: string; to_month: string };
+        Returns: {
+          category_key: string;
+          category_name: string;
+          category_color: string | null;
+          year_month: string;
+          total: number;
+          previous_total: number;
+          change_amount: number;
+          change_percent: number | null;
+        }[];
+      };
+      report_daily_totals: {
+        Args: { from_month: string; to_month: string };
+        Returns: {
+          expense_date: string;
+          total: number;
+        }[];
+      };
+      report_spending_groups: {
+        Args: { from_month: string; to_month: string; group_by: string };
+        Returns: {
+          group_key: string;
+          label: string;
+          color: string | null;
+          total: number;
+          expense_count: number;
+        }[];
+      };
+      report_spending_summary: {
+        Args: { from_month: string; to_month: string };
+        Returns: {
+          total: number;
+          expense_count: number;
+          month_count: number;
+          monthly_average: number;
+        }[];
+      };
+      report_tag_totals: {
+        Args: { from_month: string; to_month: string };
+        Returns: {
+          tag_id: string;
+          tag_name: string;
+          total: number;
+          expense_count: number;
+        }[];
+      };
+      restore_stash: {
+        Args: { target_stash_id: string };
+        Returns: number;
+      };
+      restore_stash_transaction: {
+        Args: { target_stash_id: string; target_transaction_id: string };
+        Returns: number;
+      };
+      save_budget_template: {
+        Args: {
+          target_template_id: string | null;
+          template_name: string;
+          template_budget_set: number;
+          allocations: Json;
+        };
+        Returns: string;
+      };
+      set_expense_splits: {
+        Args: { target_expense_id: string; lines: Json };
+        Returns: undefined;
+      };
+      set_expense_tags: {
+        Args: { target_expense_id: string; tag_names: string[] };
+        Returns: string[];
+      };
+      set_month_budget_categories: {
+        Args: { target_month_budget_id: string; allocations: Json };
+        Returns: undefined;
+      };
     };
     Enums: Record<never, never>;
     CompositeTypes: Record<never, never>;
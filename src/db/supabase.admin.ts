@@ -0,0 +1,28 @@
+import { createClient } from "@supabase/supabase-js";
+
+import type { Database } from "./database.types.ts";
+import type { SupabaseClient } from "./supabase.client.ts";
+
+/**
+ * Create a Supabase client authenticated with the service role key.
+ * The service role bypasses RLS and can use the Auth admin API, so this must only
+ * ever be called from server code (API routes). Reads process.env so the key is
+ * never inlined into a client bundle.
+ *
+ * @returns The admin client, or null when SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY are not configured
+ */
+export const createSupabaseAdminClient = (): SupabaseClient | null => {
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    return null;
+  }
+
+  return createClient<Database>(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  });
+};
@@ -62,3 +62,18 @@ export const createSupabaseServerInstance = (context: { headers: Headers; cookie
 
   return supabase;
 };
+
+/**
+ * Create a server-side Supabase client without cookies that never stores a session
+ * Without an access token it is anonymous: used to resolve API tokens and to check a password without
+ * replacing the request's session. With one it acts as that user (requests made with a personal API token)
+ */
+export const createSupabaseSessionlessInstance = (accessToken?: string): SupabaseClient => {
+  return createClient<Database>(supabaseUrl, supabaseKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+    global: accessToken ? { headers: { Authorization: `Bearer ${accessToken}` } } : undefined,
+  });
+};
@@ -10,6 +10,8 @@ declare global {
         id: string;
         email: string | null;
       };
+      /** Signed in with the password, but the user's TOTP factor has not been verified yet */
+      mfaPending?: boolean;
     }
   }
 }
@@ -17,6 +19,8 @@ declare global {
 interface ImportMetaEnv {
   readonly SUPABASE_URL: string;
   readonly SUPABASE_KEY: string;
+  readonly SUPABASE_SERVICE_ROLE_KEY: string;
+  readonly SUPABASE_JWT_SECRET: string;
   readonly OPENROUTER_API_KEY: string;
   // more env variables...
 }
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+
+import { describeActivity, getActivityChanges } from "../activity";
+import type { ActivityEntryDTO } from "@/types";
+
+const entry = (overrides: Partial<ActivityEntryDTO>): ActivityEntryDTO => ({
+  id: "entry-1",
+  actor_id: "user-1",
+  entity_type: "stash",
+  entity_id: "stash-1",
+  operation: "update",
+  old_values: null,
+  new_values: null,
+  created_at: "2026-10-01T12:00:00Z",
+  ...overrides,
+});
+
+describe("activity helpers", () => {
+  it("names the record and what happened to it", () => {
+    expect(
+      describeActivity(
+        entry({
+          entity_type: "expense",
+          operation: "soft_delete",
+          old_values: { description: "Groceries", amount: 42.5 },
+          new_values: { description: "Groceries", amount: 42.5 },
+        })
+      )
+    ).toBe('Expense "Groceries" (42.5) deleted');
+    expect(
+      describeActivity(
+        entry({ entity_type: "month_budget", operation: "insert", new_values: { year_month: "2026-10" } })
+      )
+    ).toBe("Month budget 2026-10 created");
+  });
+
+  it("lists the columns an update changed, without bookkeeping columns", () => {
+    const changes = getActivityChanges(
+      entry({
+        old_values: { name: "Holidays", current_balance: 100, updated_at: "2026-10-01T10:00:00Z" },
+        new_values: { name: "Holidays", current_balance: 150, updated_at: "2026-10-01T12:00:00Z" },
+      })
+    );
+
+    expect(changes).toEqual([{ field: "current balance", from: "100", to: "150" }]);
+  });
+
+  it("has no changes for inserts and deletes", () => {
+    expect(getActivityChanges(entry({ operation: "insert", new_values: { name: "Holidays" } }))).toEqual([]);
+    expect(getActivityChanges(entry({ operation: "delete", old_values: { name: "Holidays" } }))).toEqual([]);
+  });
+});
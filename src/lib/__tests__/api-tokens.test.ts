@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  generateApiToken,
+  getApiTokenPrefix,
+  hashApiToken,
+  parseBearerToken,
+  requiredApiTokenScope,
+  signSupabaseAccessToken,
+} from "../api-tokens";
+
+const decodeBase64Url = (value: string) => atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+
+describe("api token helpers", () => {
+  it("generates distinct prefixed tokens", () => {
+    const tokens = Array.from({ length: 10 }, generateApiToken);
+
+    expect(new Set(tokens).size).toBe(10);
+    tokens.forEach((token) => expect(token).toMatch(/^stk_[0-9a-f]{48}$/));
+    expect(getApiTokenPrefix(tokens[0])).toBe(tokens[0].slice(0, 12));
+  });
+
+  it("hashes tokens to hex SHA-256", async () => {
+    const hash = await hashApiToken("stk_abc");
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await hashApiToken("stk_abc")).toBe(hash);
+    expect(await hashApiToken("stk_abd")).not.toBe(hash);
+  });
+
+  it("only reads API tokens from bearer headers", () => {
+    expect(parseBearerToken("Bearer stk_abc")).toBe("stk_abc");
+    expect(parseBearerToken("bearer  stk_abc ")).toBe("stk_abc");
+    expect(parseBearerToken("Bearer eyJhbGciOiJIUzI1NiJ9.e30.sig")).toBeNull();
+    expect(parseBearerToken("Basic stk_abc")).toBeNull();
+    expect(parseBearerToken(null)).toBeNull();
+  });
+
+  it("requires read for reads and expenses:write for expense changes", () => {
+    expect(requiredApiTokenScope("GET", "/api/expenses")).toBe("read");
+    expect(requiredApiTokenScope("GET", "/api/stashes/abc")).toBe("read");
+    expect(requiredApiTokenScope("POST", "/api/expenses")).toBe("expenses:write");
+    expect(requiredApiTokenScope("PATCH", "/api/expenses/bulk")).toBe("expenses:write");
+    expect(requiredApiTokenScope("DELETE", "/api/stashes/abc")).toBeNull();
+    expect(requiredApiTokenScope("GET", "/api/auth/tokens")).toBeNull();
+  });
+
+  it("signs an HS256 access token for the user", async () => {
+    const jwt = await signSupabaseAccessToken(
+      { id: "user-1", email: "me@example.com" },
+      "secret",
+      new Date("2025-12-12T10:00:00Z")
+    );
+    const [header, payload, signature] = jwt.split(".");
+
+    expect(JSON.parse(decodeBase64Url(header))).toEqual({ alg: "HS256", typ: "JWT" });
+    expect(JSON.parse(decodeBase64Url(payload))).toEqual({
+      sub: "user-1",
+      email: "me@example.com",
+      role: "authenticated",
+      aud: "authenticated",
+      iat: 1765533600,
+      exp: 1765533900,
+    });
+
+    const key = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode("secret"),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["verify"]
+    );
+    const signatureBytes = Uint8Array.from(decodeBase64Url(signature), (char) => char.charCodeAt(0));
+
+    expect(
+      await crypto.subtle.verify("HMAC", key, signatureBytes, new TextEncoder().encode(`${header}.${payload}`))
+    ).toBe(true);
+  });
+});
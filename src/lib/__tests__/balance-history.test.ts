@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildBalanceHistory,
+  getBalanceHistoryDates,
+  resolveBalanceHistoryRange,
+  type BalanceHistoryTransaction,
+} from "../balance-history";
+
+describe("balance history helpers", () => {
+  it("lists the last day of each bucket, capped at the end of the range", () => {
+    expect(getBalanceHistoryDates("2025-01-30", "2025-02-02", "day")).toEqual([
+      "2025-01-30",
+      "2025-01-31",
+      "2025-02-01",
+      "2025-02-02",
+    ]);
+    // 2025-01-01 is a Wednesday; weeks end on Sunday
+    expect(getBalanceHistoryDates("2025-01-01", "2025-01-15", "week")).toEqual([
+      "2025-01-05",
+      "2025-01-12",
+      "2025-01-15",
+    ]);
+    expect(getBalanceHistoryDates("2024-12-10", "2025-02-14", "month")).toEqual([
+      "2024-12-31",
+      "2025-01-31",
+      "2025-02-14",
+    ]);
+  });
+
+  it("defaults the range to fit the interval", () => {
+    const today = new Date("2025-03-20T10:00:00Z");
+
+    expect(resolveBalanceHistoryRange({ interval: "day" }, today)).toEqual({
+      from: "2025-02-19",
+      to: "2025-03-20",
+      interval: "day",
+    });
+    expect(resolveBalanceHistoryRange({ interval: "month" }, today)).toEqual({
+      from: "2024-04-01",
+      to: "2025-03-20",
+      interval: "month",
+    });
+    expect(resolveBalanceHistoryRange({ from: "2025-01-01", interval: "week" }, today)).toEqual({
+      from: "2025-01-01",
+      to: "2025-03-20",
+      interval: "week",
+    });
+  });
+
+  it("rebuilds the running balance from deposits and withdrawals", () => {
+    const transactions: BalanceHistoryTransaction[] = [
+      { transaction_type: "deposit", amount: 500, created_at: "2024-12-20T12:00:00Z", deleted_at: null },
+      { transaction_type: "deposit", amount: 200.1, created_at: "2025-01-05T08:00:00Z", deleted_at: null },
+      { transaction_type: "withdrawal", amount: 50.05, created_at: "2025-01-31T23:30:00Z", deleted_at: null },
+    ];
+
+    expect(buildBalanceHistory(transactions, ["2024-12-31", "2025-01-31", "2025-02-14"])).toEqual([
+      { date: "2024-12-31", balance: 500 },
+      { date: "2025-01-31", balance: 650.05 },
+      { date: "2025-02-14", balance: 650.05 },
+    ]);
+  });
+
+  it("applies valuation adjustments with their sign", () => {
+    const transactions: BalanceHistoryTransaction[] = [
+      { transaction_type: "deposit", amount: 1000, created_at: "2025-01-02T10:00:00Z", deleted_at: null },
+      { transaction_type: "adjustment", amount: 150, created_at: "2025-01-03T10:00:00Z", deleted_at: null },
+      { transaction_type: "adjustment", amount: -400, created_at: "2025-01-04T10:00:00Z", deleted_at: null },
+    ];
+
+    expect(buildBalanceHistory(transactions, getBalanceHistoryDates("2025-01-02", "2025-01-04", "day"))).toEqual([
+      { date: "2025-01-02", balance: 1000 },
+      { date: "2025-01-03", balance: 1150 },
+      { date: "2025-01-04", balance: 750 },
+    ]);
+  });
+
+  it("counts soft-deleted transactions only until they were deleted", () => {
+    const transactions: BalanceHistoryTransaction[] = [
+      { transaction_type: "deposit", amount: 100, created_at: "2025-01-02T10:00:00Z", deleted_at: null },
+      {
+        transaction_type: "deposit",
+        amount: 300,
+        created_at: "2025-01-03T10:00:00Z",
+        deleted_at: "2025-01-05T09:00:00Z",
+      },
+    ];
+
+    expect(buildBalanceHistory(transactions, getBalanceHistoryDates("2025-01-01", "2025-01-05", "day"))).toEqual([
+      { date: "2025-01-01", balance: 0 },
+      { date: "2025-01-02", balance: 100 },
+      { date: "2025-01-03", balance: 400 },
+      { date: "2025-01-04", balance: 400 },
+      { date: "2025-01-05", balance: 100 },
+    ]);
+  });
+});
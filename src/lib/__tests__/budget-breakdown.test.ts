@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+
+import { buildMonthBudgetCategoryBreakdown } from "../budget-breakdown";
+
+const categories = [
+  { id: "groceries", display_name: "Groceries", color: "#22c55e" },
+  { id: "dining", display_name: "Dining out", color: null },
+  { id: "transport", display_name: "Transport", color: null },
+];
+
+describe("buildMonthBudgetCategoryBreakdown", () => {
+  it("compares spending with the allocation of each category", () => {
+    const breakdown = buildMonthBudgetCategoryBreakdown(
+      { year_month: "2025-11", budget_set: 2500 },
+      [
+        { category_id: "groceries", amount: 1500 },
+        { category_id: "dining", amount: 400 },
+      ],
+      [
+        { category_id: "groceries", total: 700.3 },
+        { category_id: "dining", total: 450 },
+      ],
+      categories
+    );
+
+    expect(breakdown.allocated_total).toBe(1900);
+    expect(breakdown.unallocated).toBe(600);
+    expect(breakdown.total_spent).toBe(1150.3);
+    expect(breakdown.categories).toEqual([
+      {
+        category_id: "dining",
+        category_name: "Dining out",
+        color: null,
+        allocated: 400,
+        spent: 450,
+        remaining: -50,
+        is_overspent: true,
+      },
+      {
+        category_id: "groceries",
+        category_name: "Groceries",
+        color: "#22c55e",
+        allocated: 1500,
+        spent: 700.3,
+        remaining: 799.7,
+        is_overspent: false,
+      },
+    ]);
+  });
+
+  it("lists spending without an allocation after the allocated categories", () => {
+    const breakdown = buildMonthBudgetCategoryBreakdown(
+      { year_month: "2025-11", budget_set: 1000 },
+      [{ category_id: "groceries", amount: 500 }],
+      [
+        { category_id: "transport", total: 80 },
+        { category_id: null, total: 20 },
+      ],
+      categories
+    );
+
+    expect(breakdown.categories.map((item) => [item.category_name, item.allocated, item.is_overspent])).toEqual([
+      ["Groceries", 500, false],
+      ["Transport", null, false],
+      ["Uncategorized", null, false],
+    ]);
+  });
+});
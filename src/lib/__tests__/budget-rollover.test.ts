@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+
+import { computeCarriedOver, getPreviousYearMonth } from "../budget-rollover";
+
+const openBudget = (year_month: string, current_balance: number, rollover_enabled = true) => ({
+  year_month,
+  current_balance,
+  rollover_enabled,
+  closed_at: null,
+  closing_balance: null,
+});
+
+describe("budget rollover helpers", () => {
+  it("steps back across year boundaries", () => {
+    expect(getPreviousYearMonth("2025-01")).toBe("2024-12");
+    expect(getPreviousYearMonth("2025-11")).toBe("2025-10");
+  });
+
+  it("carries nothing when rollover is off for the month", () => {
+    expect(computeCarriedOver({ year_month: "2025-03", rollover_enabled: false }, [openBudget("2025-02", 300)])).toBe(
+      0
+    );
+  });
+
+  it("chains remainders and overspends through consecutive rollover months", () => {
+    const earlier = [openBudget("2025-01", 200, false), openBudget("2025-02", -50.5)];
+
+    // March gets February's own balance plus what January carried into February
+    expect(computeCarriedOver({ year_month: "2025-03", rollover_enabled: true }, earlier)).toBe(149.5);
+  });
+
+  it("stops at a missing month", () => {
+    const earlier = [openBudget("2025-01", 200), openBudget("2025-03", 100)];
+
+    expect(computeCarriedOver({ year_month: "2025-04", rollover_enabled: true }, earlier)).toBe(100);
+  });
+
+  it("uses the frozen remainder of a closed month", () => {
+    const earlier = [
+      openBudget("2025-01", 999),
+      {
+        year_month: "2025-02",
+        current_balance: 10,
+        rollover_enabled: true,
+        closed_at: "2025-03-01",
+        closing_balance: 75,
+      },
+      openBudget("2025-03", 25),
+    ];
+
+    expect(computeCarriedOver({ year_month: "2025-04", rollover_enabled: true }, earlier)).toBe(100);
+  });
+});
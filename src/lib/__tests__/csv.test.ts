@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+
+import { detectCsvDelimiter, parseCsv, toCsvLine } from "../csv";
+
+describe("detectCsvDelimiter", () => {
+  it("prefers the delimiter that appears most often in the first line", () => {
+    expect(detectCsvDelimiter("date;amount;description\n2025-01-01;1,50;Bread")).toBe(";");
+    expect(detectCsvDelimiter("date,amount,description")).toBe(",");
+    expect(detectCsvDelimiter("date\tamount")).toBe("\t");
+  });
+
+  it("ignores delimiters inside quoted values", () => {
+    expect(detectCsvDelimiter('"a;b;c",d,e')).toBe(",");
+  });
+});
+
+describe("parseCsv", () => {
+  it("parses quoted cells with escaped quotes and line breaks", () => {
+    const text = 'description,amount\r\n"Milk, 2L",5.99\r\n"Say ""hi""\nto Bob",1\r\n';
+
+    expect(parseCsv(text)).toEqual([
+      ["description", "amount"],
+      ["Milk, 2L", "5.99"],
+      ['Say "hi"\nto Bob', "1"],
+    ]);
+  });
+
+  it("skips blank lines and strips the BOM", () => {
+    expect(parseCsv("﻿a;b\n\n1;2\n")).toEqual([
+      ["a", "b"],
+      ["1", "2"],
+    ]);
+  });
+
+  it("keeps empty cells", () => {
+    expect(parseCsv("a,,c")).toEqual([["a", "", "c"]]);
+  });
+});
+
+describe("toCsvLine", () => {
+  it("quotes values containing delimiters, quotes or line breaks", () => {
+    expect(toCsvLine(["plain", "a,b", 'say "hi"', "two\nlines", null, 12.5])).toBe(
+      'plain,"a,b","say ""hi""","two\nlines",,12.5\r\n'
+    );
+  });
+
+  it("round-trips through parseCsv", () => {
+    const values = ["Milk, 2L", 'He said "no"', ""];
+
+    expect(parseCsv(toCsvLine(values) + toCsvLine(["x", "y", "z"]))).toEqual([values, ["x", "y", "z"]]);
+  });
+});
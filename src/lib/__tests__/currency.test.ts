@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createCurrencyConverter,
+  currencyDecimals,
+  findExchangeRate,
+  formatMoney,
+  parseExchangeRatesCsv,
+} from "../currency";
+
+const rates = [
+  { from_currency: "EUR", to_currency: "PLN", rate: 4.3, rate_date: "2025-01-01" },
+  { from_currency: "EUR", to_currency: "PLN", rate: 4.25, rate_date: "2025-02-01" },
+  { from_currency: "PLN", to_currency: "USD", rate: 0.25, rate_date: "2025-02-01" },
+];
+
+describe("currency helpers", () => {
+  it("uses the most recent rate of a pair and inverts rates stored the other way round", () => {
+    expect(findExchangeRate(rates, "PLN", "PLN")).toBe(1);
+    expect(findExchangeRate(rates, "EUR", "PLN")).toBe(4.25);
+    expect(findExchangeRate(rates, "USD", "PLN")).toBe(4);
+    expect(findExchangeRate(rates, "GBP", "PLN")).toBeNull();
+  });
+
+  it("converts into the base currency and returns null without a rate", () => {
+    const convert = createCurrencyConverter(rates, "PLN");
+
+    expect(convert(100, "EUR")).toBe(425);
+    expect(convert(10.555, "PLN")).toBe(10.56);
+    expect(convert(1, "BTC")).toBeNull();
+  });
+
+  it("formats ISO currencies with Intl and falls back for other codes", () => {
+    // Intl separates the symbol with a non-breaking space
+    expect(formatMoney(1500, "PLN").replace(/\s/g, " ")).toBe("1500,00 zł");
+    expect(formatMoney(0.5, "USDT")).toBe("0,50 USDT");
+  });
+
+  it("keeps up to 8 decimal places for crypto and the minor units for ISO currencies", () => {
+    expect(currencyDecimals("PLN")).toBe(2);
+    expect(currencyDecimals("JPY")).toBe(0);
+    expect(currencyDecimals("BTC")).toBe(8);
+    expect(formatMoney(0.00012345, "BTC").replace(/\s/g, " ")).toBe("0,00012345 BTC");
+    expect(formatMoney(12.5, "EUR").replace(/\s/g, " ")).toBe("12,50 €");
+
+    const toBtc = createCurrencyConverter(
+      [{ from_currency: "BTC", to_currency: "PLN", rate: 400000, rate_date: "2025-02-01" }],
+      "BTC"
+    );
+    expect(toBtc(100, "PLN")).toBe(0.00025);
+  });
+
+  it("parses a rate file with a decimal comma, day-first dates and a default target currency", () => {
+    const csv = "Waluta;Kurs;Data\neur;4,2512;15.01.2025\nusd;abc;2025-01-15";
+
+    expect(parseExchangeRatesCsv(csv, "PLN")).toEqual([
+      { from_currency: "EUR", to_currency: "PLN", rate: 4.2512, rate_date: "2025-01-15" },
+      { from_currency: "USD", to_currency: "PLN", rate: "abc", rate_date: "2025-01-15" },
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildExpenseImportRows,
+  guessExpenseImportMapping,
+  normalizeImportAmount,
+  normalizeImportDate,
+} from "../expense-import";
+import type { ExpenseCategoryDTO } from "@/types";
+
+const categories: ExpenseCategoryDTO[] = [
+  {
+    id: "11111111-1111-4111-8111-111111111111",
+    name: "Groceries",
+    slug: "groceries",
+    display_name: "Jedzenie",
+    color: null,
+    user_id: null,
+    archived_at: null,
+    created_at: "2025-01-01T00:00:00Z",
+    updated_at: "2025-01-01T00:00:00Z",
+  },
+];
+
+describe("expense import helpers", () => {
+  it("normalizes amounts in Polish and English notation", () => {
+    expect(normalizeImportAmount("1 234,56")).toBe(1234.56);
+    expect(normalizeImportAmount("-45.10")).toBe(-45.1);
+    expect(normalizeImportAmount("+45.10")).toBe(45.1);
+    expect(normalizeImportAmount("12,00 zł")).toBe(12);
+    expect(normalizeImportAmount("abc")).toBe("abc");
+  });
+
+  it("normalizes day-first dates to ISO format", () => {
+    expect(normalizeImportDate("05.01.2025")).toBe("2025-01-05");
+    expect(normalizeImportDate("5/1/2025")).toBe("2025-01-05");
+    expect(normalizeImportDate("2025-01-05T10:00:00")).toBe("2025-01-05");
+    expect(normalizeImportDate("yesterday")).toBe("yesterday");
+  });
+
+  it("guesses the mapping from the header row", () => {
+    expect(guessExpenseImportMapping(["Data", "Opis", "Kwota", "Kategoria"])).toEqual({
+      expense_date: 0,
+      description: 1,
+      amount: 2,
+      category_id: 3,
+    });
+  });
+
+  it("builds API rows and resolves category names", () => {
+    const result = buildExpenseImportRows(
+      [
+        ["05.01.2025", "Bread", "4,50", "jedzenie"],
+        ["06.01.2025", "Bus", "3", ""],
+      ],
+      { expense_date: 0, description: 1, amount: 2, category_id: 3 },
+      categories
+    );
+
+    expect(result).toEqual({
+      rows: [
+        { expense_date: "2025-01-05", description: "Bread", amount: 4.5, category_id: categories[0].id },
+        { expense_date: "2025-01-06", description: "Bus", amount: 3 },
+      ],
+      skippedCredits: [],
+    });
+  });
+
+  it("imports the debits of a mixed-sign bank statement and skips the credits", () => {
+    const result = buildExpenseImportRows(
+      [
+        ["05.01.2025", "Bread", "-4,50"],
+        ["06.01.2025", "Salary", "5 000,00"],
+        ["07.01.2025", "Bus", "-3"],
+        ["08.01.2025", "Refund", "+12,99"],
+        ["09.01.2025", "Unknown", "n/a"],
+      ],
+      { expense_date: 0, description: 1, amount: 2, category_id: null },
+      categories
+    );
+
+    expect(result.rows).toEqual([
+      { expense_date: "2025-01-05", description: "Bread", amount: 4.5 },
+      { expense_date: "2025-01-07", description: "Bus", amount: 3 },
+      { expense_date: "2025-01-09", description: "Unknown", amount: "n/a" },
+    ]);
+    expect(result.skippedCredits).toEqual([2, 4]);
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+
+import { splitTotal, splitsMatchAmount } from "../expense-split";
+
+describe("expense split helpers", () => {
+  it("adds up line amounts without float drift", () => {
+    expect(splitTotal([{ amount: 0.1 }, { amount: 0.2 }])).toBe(0.3);
+    expect(splitTotal([])).toBe(0);
+  });
+
+  it("accepts lines that add up to the expense amount", () => {
+    expect(splitsMatchAmount([{ amount: 33.33 }, { amount: 33.33 }, { amount: 33.34 }], 100)).toBe(true);
+  });
+
+  it("rejects lines that are off by a cent", () => {
+    expect(splitsMatchAmount([{ amount: 33.33 }, { amount: 33.33 }, { amount: 33.33 }], 100)).toBe(false);
+  });
+});
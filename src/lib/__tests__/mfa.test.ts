@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+
+import { generateRecoveryCodes, hashRecoveryCode, normalizeRecoveryCode } from "../mfa";
+
+describe("mfa helpers", () => {
+  it("generates distinct codes in two groups of five", () => {
+    const codes = generateRecoveryCodes(10);
+
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    codes.forEach((code) => expect(code).toMatch(/^[2-9a-hjkmnp-z]{5}-[2-9a-hjkmnp-z]{5}$/));
+  });
+
+  it("ignores case, spaces and dashes when normalizing", () => {
+    expect(normalizeRecoveryCode(" AB3CD-EF4GH ")).toBe("ab3cdef4gh");
+    expect(normalizeRecoveryCode("ab3cd ef4gh")).toBe("ab3cdef4gh");
+  });
+
+  it("hashes the normalized code", async () => {
+    const hash = await hashRecoveryCode("ab3cd-ef4gh");
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await hashRecoveryCode("AB3CD EF4GH")).toBe(hash);
+    expect(await hashRecoveryCode("ab3cd-ef4gj")).not.toBe(hash);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+
+import { getRecurringOccurrenceDate, isRecurringExpenseDue, monthsBetween } from "../recurring-expense";
+
+describe("recurring expense helpers", () => {
+  it("counts months across year boundaries", () => {
+    expect(monthsBetween("2024-11", "2025-02")).toBe(3);
+    expect(monthsBetween("2025-02", "2025-02")).toBe(0);
+    expect(monthsBetween("2025-03", "2025-01")).toBe(-2);
+  });
+
+  it("respects the start and end month", () => {
+    const definition = { start_month: "2025-01", end_month: "2025-06", interval_months: 1 };
+
+    expect(isRecurringExpenseDue(definition, "2024-12")).toBe(false);
+    expect(isRecurringExpenseDue(definition, "2025-01")).toBe(true);
+    expect(isRecurringExpenseDue(definition, "2025-06")).toBe(true);
+    expect(isRecurringExpenseDue(definition, "2025-07")).toBe(false);
+  });
+
+  it("only matches months on the interval", () => {
+    const quarterly = { start_month: "2025-01", end_month: null, interval_months: 3 };
+
+    expect(isRecurringExpenseDue(quarterly, "2025-04")).toBe(true);
+    expect(isRecurringExpenseDue(quarterly, "2025-05")).toBe(false);
+    expect(isRecurringExpenseDue(quarterly, "2026-01")).toBe(true);
+  });
+
+  it("clamps the day to the length of the month", () => {
+    expect(getRecurringOccurrenceDate(31, "2025-02")).toBe("2025-02-28");
+    expect(getRecurringOccurrenceDate(31, "2024-02")).toBe("2024-02-29");
+    expect(getRecurringOccurrenceDate(5, "2025-04")).toBe("2025-04-05");
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+
+import { computeStashGoalProgress, countDepositMonths } from "../stash-goal";
+
+const today = new Date(2025, 10, 15); // 2025-11-15
+
+describe("stash goal helpers", () => {
+  it("counts monthly deposit days up to the target date", () => {
+    expect(countDepositMonths("2025-11-15", "2025-12-31")).toBe(2);
+    expect(countDepositMonths("2025-11-15", "2025-12-01")).toBe(1);
+    expect(countDepositMonths("2025-11-15", "2025-11-15")).toBe(1);
+    expect(countDepositMonths("2025-11-15", "2026-11-15")).toBe(13);
+    expect(countDepositMonths("2025-11-15", "2025-11-14")).toBe(0);
+  });
+
+  it("returns null for stashes without a goal", () => {
+    expect(computeStashGoalProgress({ current_balance: 100, goal_amount: null, goal_date: null }, today)).toBeNull();
+  });
+
+  it("splits the remaining amount over the months left", () => {
+    const progress = computeStashGoalProgress(
+      { current_balance: 250, goal_amount: 1000, goal_date: "2026-01-31" },
+      today
+    );
+
+    expect(progress).toMatchObject({
+      percentage: 25,
+      remaining: 750,
+      monthsLeft: 3,
+      monthlyNeeded: 250,
+      isReached: false,
+      isOverdue: false,
+    });
+  });
+
+  it("rounds the monthly deposit up to the next grosz", () => {
+    const progress = computeStashGoalProgress({ current_balance: 0, goal_amount: 100, goal_date: "2026-01-15" }, today);
+
+    expect(progress?.monthlyNeeded).toBe(33.34);
+  });
+
+  it("rounds the monthly deposit of a crypto goal to the satoshi", () => {
+    const progress = computeStashGoalProgress(
+      { current_balance: 0.0001, goal_amount: 0.001, goal_date: "2026-01-15", currency: "BTC" },
+      today
+    );
+
+    expect(progress?.remaining).toBe(0.0009);
+    expect(progress?.monthlyNeeded).toBe(0.0003);
+  });
+
+  it("marks reached and overdue goals", () => {
+    expect(
+      computeStashGoalProgress({ current_balance: 1200, goal_amount: 1000, goal_date: "2025-10-01" }, today)
+    ).toMatchObject({ percentage: 100, remaining: 0, monthlyNeeded: 0, isReached: true, isOverdue: false });
+
+    expect(
+      computeStashGoalProgress({ current_balance: 400, goal_amount: 1000, goal_date: "2025-10-01" }, today)
+    ).toMatchObject({ remaining: 600, monthlyNeeded: null, isReached: false, isOverdue: true });
+  });
+
+  it("has no monthly deposit without a target date", () => {
+    expect(computeStashGoalProgress({ current_balance: 10, goal_amount: 40, goal_date: null }, today)).toMatchObject({
+      percentage: 25,
+      remaining: 30,
+      monthsLeft: null,
+      monthlyNeeded: null,
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import type { ActivityEntityType, ActivityEntryDTO, ActivityOperation } from "@/types";
+
+/**
+ * A column whose value changed, formatted for display
+ */
+export interface ActivityChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+const ENTITY_LABELS: Record<ActivityEntityType, string> = {
+  expense: "Expense",
+  month_budget: "Month budget",
+  stash: "Stash",
+  stash_transaction: "Stash transaction",
+};
+
+const OPERATION_LABELS: Record<ActivityOperation, string> = {
+  insert: "created",
+  update: "updated",
+  soft_delete: "deleted",
+  restore: "restored",
+  delete: "permanently deleted",
+};
+
+/**
+ * Columns that change as a side effect of every write (or identify the row) and are not shown as changes
+ */
+const IGNORED_FIELDS = new Set(["id", "created_at", "updated_at", "deleted_at"]);
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Short name of the record an entry is about, e.g. the expense description or the stash name
+ */
+function recordName(entry: ActivityEntryDTO): string | null {
+  const values = entry.new_values ?? entry.old_values;
+  if (!values) return null;
+
+  switch (entry.entity_type) {
+    case "expense":
+      return values.description
+        ? `"${values.description}" (${formatValue(values.amount)})`
+        : formatValue(values.amount);
+    case "month_budget":
+      return formatValue(values.year_month);
+    case "stash":
+      return `"${formatValue(values.name)}"`;
+    case "stash_transaction":
+      return `${formatValue(values.transaction_type)} of ${formatValue(values.amount)}`;
+  }
+}
+
+/**
+ * Heading of an activity entry, e.g. `Stash "Holidays" updated`.
+ */
+export function describeActivity(entry: ActivityEntryDTO): string {
+  const name = recordName(entry);
+  return [ENTITY_LABELS[entry.entity_type], name, OPERATION_LABELS[entry.operation]].filter(Boolean).join(" ");
+}
+
+/**
+ * Columns changed by an update, in the order of the new row. Inserts and deletes have no changes.
+ */
+export function getActivityChanges(entry: ActivityEntryDTO): ActivityChange[] {
+  if (entry.operation !== "update" || !entry.old_values || !entry.new_values) {
+    return [];
+  }
+
+  const oldValues = entry.old_values;
+
+  return Object.entries(entry.new_values)
+    .filter(([field, value]) => !IGNORED_FIELDS.has(field) && formatValue(oldValues[field]) !== formatValue(value))
+    .map(([field, value]) => ({
+      field: field.replace(/_/g, " "),
+      from: formatValue(oldValues[field]),
+      to: formatValue(value),
+    }));
+}
@@ -0,0 +1,131 @@
+import type { ApiTokenScope } from "@/types";
+
+/**
+ * Marks personal API tokens so they are recognizable in scripts and secret scanners
+ */
+const API_TOKEN_PREFIX = "stk_";
+
+/**
+ * Random bytes in a token (hex encoded after the prefix)
+ */
+const API_TOKEN_BYTES = 24;
+
+/**
+ * Characters of a token kept in api_tokens.token_prefix to tell tokens apart in the settings
+ */
+const API_TOKEN_VISIBLE_LENGTH = 12;
+
+/**
+ * Lifetime of the access token signed for a request authenticated with an API token
+ */
+const ACCESS_TOKEN_TTL_SECONDS = 300;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Generates a new personal API token in the form `stk_<48 hex characters>`.
+ */
+export function generateApiToken(): string {
+  return `${API_TOKEN_PREFIX}${toHex(crypto.getRandomValues(new Uint8Array(API_TOKEN_BYTES)))}`;
+}
+
+/**
+ * The start of a token as stored in api_tokens.token_prefix.
+ */
+export function getApiTokenPrefix(token: string): string {
+  return token.slice(0, API_TOKEN_VISIBLE_LENGTH);
+}
+
+/**
+ * Hex SHA-256 hash of a token, as stored in api_tokens.token_hash.
+ * Tokens are random, so a plain (unsalted) hash is enough to make a leaked table useless.
+ */
+export async function hashApiToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return toHex(new Uint8Array(digest));
+}
+
+/**
+ * Reads a personal API token from an `Authorization: Bearer` header.
+ *
+ * @returns The token, or null when the header is missing or does not carry an API token
+ */
+export function parseBearerToken(header: string | null): string | null {
+  const match = header?.match(/^Bearer\s+(\S+)\s*$/i);
+
+  if (!match || !match[1].startsWith(API_TOKEN_PREFIX)) {
+    return null;
+  }
+
+  return match[1];
+}
+
+/**
+ * The scope a token needs for a request.
+ * Reads need `read`, changes to expenses need `expenses:write`; account endpoints
+ * (including token management) and every other change are not open to tokens.
+ *
+ * @returns The required scope, or null when no token may make the request
+ */
+export function requiredApiTokenScope(method: string, pathname: string): ApiTokenScope | null {
+  if (pathname.startsWith("/api/auth/")) {
+    return null;
+  }
+
+  if (method === "GET" || method === "HEAD") {
+    return "read";
+  }
+
+  if (pathname === "/api/expenses" || pathname.startsWith("/api/expenses/")) {
+    return "expenses:write";
+  }
+
+  return null;
+}
+
+/**
+ * Signs a short-lived Supabase access token (HS256 JWT) for a user, so requests made with
+ * an API token run under the user's row level security like a signed-in session.
+ *
+ * @param user - The token's owner
+ * @param secret - The JWT secret of the Supabase project
+ * @param now - Issue time (defaults to the current time)
+ */
+export async function signSupabaseAccessToken(
+  user: { id: string; email: string | null },
+  secret: string,
+  now: Date = new Date()
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const issuedAt = Math.floor(now.getTime() / 1000);
+
+  const header = toBase64Url(encoder.encode(JSON.stringify({ alg: "HS256", typ: "JWT" })));
+  const payload = toBase64Url(
+    encoder.encode(
+      JSON.stringify({
+        sub: user.id,
+        email: user.email ?? undefined,
+        role: "authenticated",
+        aud: "authenticated",
+        iat: issuedAt,
+        exp: issuedAt + ACCESS_TOKEN_TTL_SECONDS,
+      })
+    )
+  );
+
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+  ]);
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${header}.${payload}`));
+
+  return `${header}.${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
@@ -0,0 +1,164 @@
+import type { BalanceHistoryDTO, BalanceHistoryInterval, BalanceHistoryPointDTO, StashTransaction } from "@/types";
+import { roundStashAmount } from "./currency";
+
+/**
+ * Transaction fields needed to rebuild a running balance
+ */
+export type BalanceHistoryTransaction = Pick<
+  StashTransaction,
+  "transaction_type" | "amount" | "created_at" | "deleted_at"
+>;
+
+/**
+ * A resolved history range: both dates set, YYYY-MM-DD
+ */
+export type BalanceHistoryRange = Omit<BalanceHistoryDTO, "points">;
+
+/**
+ * Most points a single history request may return
+ */
+export const MAX_BALANCE_HISTORY_POINTS = 400;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  return formatDate(new Date(parseDate(date).getTime() + days * DAY_MS));
+}
+
+/**
+ * Last day of the week (Sunday) or month containing the given date.
+ */
+function endOfPeriod(date: string, interval: Exclude<BalanceHistoryInterval, "day">): string {
+  const d = parseDate(date);
+
+  if (interval === "week") {
+    // getUTCDay: 0 = Sunday ... 6 = Saturday
+    return addDays(date, (7 - d.getUTCDay()) % 7);
+  }
+
+  return formatDate(new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)));
+}
+
+/**
+ * Fills in the default range for a history request: up to today (UTC),
+ * starting 30 days, 12 weeks or 12 months back depending on the interval.
+ *
+ * @param query - The requested range; from/to are YYYY-MM-DD
+ * @param today - Reference date (defaults to now)
+ * @returns The resolved range
+ */
+export function resolveBalanceHistoryRange(
+  query: { from?: string; to?: string; interval: BalanceHistoryInterval },
+  today: Date = new Date()
+): BalanceHistoryRange {
+  const to = query.to ?? formatDate(today);
+
+  if (query.from) {
+    return { from: query.from, to, interval: query.interval };
+  }
+
+  let from: string;
+  if (query.interval === "day") {
+    from = addDays(to, -29);
+  } else if (query.interval === "week") {
+    from = addDays(to, -7 * 12 + 1);
+  } else {
+    const d = parseDate(to);
+    from = formatDate(new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() - 11, 1)));
+  }
+
+  return { from, to, interval: query.interval };
+}
+
+/**
+ * Lists the dates a balance is reported for: the last day of every day, week (Mon-Sun)
+ * or month that overlaps the range, with the final point capped at `to`.
+ *
+ * @param from - First day of the range (YYYY-MM-DD)
+ * @param to - Last day of the range (YYYY-MM-DD)
+ * @param interval - Bucket size
+ * @returns Point dates in ascending order
+ */
+export function getBalanceHistoryDates(from: string, to: string, interval: BalanceHistoryInterval): string[] {
+  const dates: string[] = [];
+  let current = from;
+
+  while (current <= to) {
+    const end = interval === "day" ? current : endOfPeriod(current, interval);
+    dates.push(end < to ? end : to);
+    current = addDays(end, 1);
+  }
+
+  return dates;
+}
+
+/**
+ * Rebuilds the balance at the end of each date from the transaction log.
+ * A transaction counts from its created_at; a soft-deleted one stops counting at its deleted_at,
+ * so the history shows what the balance really was on each day. Days are UTC.
+ *
+ * @param transactions - Every transaction that may affect the balance, including soft-deleted ones
+ * @param dates - Point dates in ascending order (see getBalanceHistoryDates)
+ * @returns One point per date
+ */
+export function buildBalanceHistory(
+  transactions: BalanceHistoryTransaction[],
+  dates: string[]
+): BalanceHistoryPointDTO[] {
+  const events: { at: number; change: number }[] = [];
+
+  for (const transaction of transactions) {
+    const amount = Number(transaction.amount);
+    // Valuation adjustments already carry their sign
+    const change = transaction.transaction_type === "withdrawal" ? -amount : amount;
+
+    events.push({ at: new Date(transaction.created_at).getTime(), change });
+    if (transaction.deleted_at) {
+      events.push({ at: new Date(transaction.deleted_at).getTime(), change: -change });
+    }
+  }
+
+  events.sort((a, b) => a.at - b.at);
+
+  const points: BalanceHistoryPointDTO[] = [];
+  let balance = 0;
+  let next = 0;
+
+  for (const date of dates) {
+    const endOfDay = parseDate(date).getTime() + DAY_MS;
+
+    while (next < events.length && events[next].at < endOfDay) {
+      balance += events[next].change;
+      next++;
+    }
+
+    points.push({ date, balance: roundStashAmount(balance) });
+  }
+
+  return points;
+}
+
+/**
+ * Lists the point dates for a range and rebuilds the balance at each of them.
+ *
+ * @param transactions - Every transaction that may affect the balance, including soft-deleted ones
+ * @param range - The resolved range (see resolveBalanceHistoryRange)
+ * @returns The history DTO
+ */
+export function computeBalanceHistory(
+  transactions: BalanceHistoryTransaction[],
+  range: BalanceHistoryRange
+): BalanceHistoryDTO {
+  return {
+    ...range,
+    points: buildBalanceHistory(transactions, getBalanceHistoryDates(range.from, range.to, range.interval)),
+  };
+}
@@ -0,0 +1,73 @@
+import type {
+  ExpenseCategoryDTO,
+  ExpenseSummaryDTO,
+  MonthBudgetCategoriesDTO,
+  MonthBudgetCategoryBreakdownItemDTO,
+} from "@/types";
+
+/**
+ * Rounds a money value to whole cents to avoid floating point noise in sums.
+ */
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Builds the spent-vs-allocated breakdown of a month's budget.
+ * Every allocated category is listed, plus categories (and uncategorized spending)
+ * that have expenses without an allocation. Allocated categories come first,
+ * ordered by name; the rest are ordered by amount spent.
+ *
+ * @param budget - The month and its budget_set
+ * @param allocations - Allocated amounts per category
+ * @param categoryTotals - The month's spending per category (see category_totals())
+ * @param categories - Categories available to the user, used for names and colors
+ */
+export function buildMonthBudgetCategoryBreakdown(
+  budget: { year_month: string; budget_set: number },
+  allocations: { category_id: string; amount: number }[],
+  categoryTotals: Pick<ExpenseSummaryDTO, "category_id" | "total">[],
+  categories: Pick<ExpenseCategoryDTO, "id" | "display_name" | "color">[]
+): MonthBudgetCategoriesDTO {
+  const spentByCategory = new Map(categoryTotals.map((item) => [item.category_id, Number(item.total)]));
+
+  const categoryById = new Map(categories.map((category) => [category.id, category]));
+
+  const toItem = (categoryId: string | null, allocated: number | null): MonthBudgetCategoryBreakdownItemDTO => {
+    const spent = roundMoney(spentByCategory.get(categoryId) ?? 0);
+    const category = categoryId ? categoryById.get(categoryId) : undefined;
+    const remaining = allocated === null ? null : roundMoney(allocated - spent);
+
+    return {
+      category_id: categoryId,
+      category_name: categoryId ? (category?.display_name ?? "Unknown category") : "Uncategorized",
+      color: category?.color ?? null,
+      allocated,
+      spent,
+      remaining,
+      is_overspent: remaining !== null && remaining < 0,
+    };
+  };
+
+  const allocatedItems = allocations
+    .map((allocation) => toItem(allocation.category_id, roundMoney(Number(allocation.amount))))
+    .sort((a, b) => a.category_name.localeCompare(b.category_name));
+
+  const allocatedIds = new Set(allocations.map((allocation) => allocation.category_id));
+  const unallocatedItems = [...spentByCategory.keys()]
+    .filter((categoryId) => categoryId === null || !allocatedIds.has(categoryId))
+    .map((categoryId) => toItem(categoryId, null))
+    .sort((a, b) => b.spent - a.spent);
+
+  const allocatedTotal = roundMoney(allocations.reduce((sum, allocation) => sum + Number(allocation.amount), 0));
+  const totalSpent = roundMoney(categoryTotals.reduce((sum, item) => sum + Number(item.total), 0));
+
+  return {
+    year_month: budget.year_month,
+    budget_set: Number(budget.budget_set),
+    allocated_total: allocatedTotal,
+    unallocated: roundMoney(Number(budget.budget_set) - allocatedTotal),
+    total_spent: totalSpent,
+    categories: [...allocatedItems, ...unallocatedItems],
+  };
+}
@@ -0,0 +1,64 @@
+import type { MonthBudgetDTO } from "@/types";
+
+/**
+ * Budget fields needed to work out rollover amounts
+ */
+export type RolloverBudget = Pick<
+  MonthBudgetDTO,
+  "year_month" | "current_balance" | "rollover_enabled" | "closed_at" | "closing_balance"
+>;
+
+/**
+ * Returns the month before the given one (YYYY-MM), e.g. 2025-01 -> 2024-12.
+ */
+export function getPreviousYearMonth(yearMonth: string): string {
+  const [year, month] = yearMonth.split("-").map(Number);
+  return month === 1 ? `${year - 1}-12` : `${year}-${String(month - 1).padStart(2, "0")}`;
+}
+
+/**
+ * Computes the amount carried into a month from the months before it.
+ *
+ *   carried(M)   = rollover_enabled(M) ? remainder(M - 1) : 0
+ *   remainder(M) = closed ? closing_balance : current_balance + carried(M)
+ *
+ * The chain stops at a closed month (its frozen remainder is used), at a month
+ * without rollover, or at a month without a budget. Negative values carry an overspend.
+ *
+ * @param budget - The month to compute the carried amount for
+ * @param earlierBudgets - The user's budgets before that month (any order)
+ */
+export function computeCarriedOver(
+  budget: Pick<RolloverBudget, "year_month" | "rollover_enabled">,
+  earlierBudgets: RolloverBudget[]
+): number {
+  const byMonth = new Map(earlierBudgets.map((item) => [item.year_month, item]));
+
+  // Walk back through open months until the chain ends
+  const openMonths: RolloverBudget[] = [];
+  let carried = 0;
+  let current: Pick<RolloverBudget, "year_month" | "rollover_enabled"> = budget;
+
+  while (current.rollover_enabled) {
+    const previous = byMonth.get(getPreviousYearMonth(current.year_month));
+
+    if (!previous) {
+      break;
+    }
+
+    if (previous.closed_at !== null) {
+      carried = Number(previous.closing_balance ?? 0);
+      break;
+    }
+
+    openMonths.push(previous);
+    current = previous;
+  }
+
+  // Then roll the remainders forward again, oldest month first
+  for (let i = openMonths.length - 1; i >= 0; i--) {
+    carried = Number(openMonths[i].current_balance) + carried;
+  }
+
+  return Math.round(carried * 100) / 100;
+}
@@ -0,0 +1,119 @@
+/**
+ * Delimiters recognised when auto-detecting the format of a CSV file.
+ * Polish bank exports commonly use semicolons because the comma is the decimal separator.
+ */
+const CANDIDATE_DELIMITERS = [",", ";", "\t"] as const;
+
+export type CsvDelimiter = (typeof CANDIDATE_DELIMITERS)[number];
+
+/**
+ * Guesses the delimiter by counting candidates in the first line, ignoring quoted sections.
+ * Falls back to a comma when nothing matches.
+ */
+export function detectCsvDelimiter(text: string): CsvDelimiter {
+  const counts = new Map<CsvDelimiter, number>(CANDIDATE_DELIMITERS.map((d) => [d, 0]));
+  let inQuotes = false;
+
+  for (const char of text) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+      continue;
+    }
+    if (!inQuotes && (char === "\n" || char === "\r")) {
+      break;
+    }
+    if (!inQuotes && counts.has(char as CsvDelimiter)) {
+      counts.set(char as CsvDelimiter, (counts.get(char as CsvDelimiter) ?? 0) + 1);
+    }
+  }
+
+  let best: CsvDelimiter = ",";
+  counts.forEach((count, delimiter) => {
+    if (count > (counts.get(best) ?? 0)) {
+      best = delimiter;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Parses CSV text into rows of raw string cells (RFC 4180 quoting rules).
+ * Blank lines are skipped. The delimiter is auto-detected unless provided.
+ */
+export function parseCsv(text: string, delimiter: CsvDelimiter = detectCsvDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  // Strip UTF-8 BOM that spreadsheet tools like to prepend
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const pushRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== "")) {
+      rows.push(row);
+    }
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n") {
+      pushRow();
+    } else if (char !== "\r") {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    pushRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Escapes a single value for CSV output, quoting it when it contains a delimiter,
+ * quote or line break.
+ */
+export function escapeCsvValue(value: unknown, delimiter: CsvDelimiter = ","): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  const text = String(value);
+
+  if (text.includes(delimiter) || text.includes('"') || text.includes("\n") || text.includes("\r")) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+
+  return text;
+}
+
+/**
+ * Serialises a list of values into a single CSV line terminated with CRLF.
+ */
+export function toCsvLine(values: unknown[], delimiter: CsvDelimiter = ","): string {
+  return values.map((value) => escapeCsvValue(value, delimiter)).join(delimiter) + "\r\n";
+}
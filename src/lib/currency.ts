@@ -0,0 +1,193 @@
+import type { ExchangeRate } from "@/types";
+import { normalizeImportDate } from "./expense-import";
+import { parseCsv } from "./csv";
+
+/**
+ * Currency of stashes created before multi-currency support, and the default base currency
+ */
+export const DEFAULT_CURRENCY = "PLN";
+
+/**
+ * Currencies suggested in pickers; any other valid code can be typed in
+ */
+export const COMMON_CURRENCIES = ["PLN", "EUR", "USD", "GBP", "CHF", "BTC", "ETH"];
+
+/**
+ * Decimal places stored for stash amounts (numeric(20,8)); enough for crypto down to 1 satoshi
+ */
+export const STASH_AMOUNT_DECIMALS = 8;
+
+/**
+ * Smallest stash amount, used as the step of amount inputs
+ */
+export const STASH_AMOUNT_STEP = "0.00000001";
+
+/**
+ * Exchange rate fields needed for conversion
+ */
+export type ExchangeRateFields = Pick<ExchangeRate, "from_currency" | "to_currency" | "rate" | "rate_date">;
+
+/**
+ * Converts an amount in the given currency into the converter's base currency,
+ * or returns null when no rate is known
+ */
+export type CurrencyConverter = (amount: number, currency: string) => number | null;
+
+/**
+ * Raw exchange rate row sent to POST /api/exchange-rates/import.
+ * Values that cannot be normalised are passed through unchanged so the API
+ * reports them with the regular validation messages.
+ */
+export interface ExchangeRateImportRow {
+  from_currency?: string;
+  to_currency?: string;
+  rate?: number | string;
+  rate_date?: string;
+}
+
+/**
+ * Formats an amount in any currency, keeping up to 8 decimal places for crypto (see currencyDecimals).
+ * Intl only knows three-letter codes, so longer tickers (e.g. USDT) fall back to "1 234,56 USDT".
+ */
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat("pl-PL", {
+      style: "currency",
+      currency,
+      maximumFractionDigits: currencyDecimals(currency),
+    }).format(amount);
+  } catch {
+    return `${new Intl.NumberFormat("pl-PL", { minimumFractionDigits: 2, maximumFractionDigits: STASH_AMOUNT_DECIMALS }).format(amount)} ${currency}`;
+  }
+}
+
+/**
+ * Decimal places shown and kept for an amount in the given currency: the minor units of
+ * ISO 4217 currencies (2 for PLN or EUR), and the full stash precision for crypto tickers
+ */
+export function currencyDecimals(currency: string): number {
+  if (!Intl.supportedValuesOf("currency").includes(currency)) {
+    return STASH_AMOUNT_DECIMALS;
+  }
+
+  return new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+/**
+ * Rounds a stash amount to the stored precision, dropping floating-point noise
+ */
+export function roundStashAmount(amount: number): number {
+  return Number(amount.toFixed(STASH_AMOUNT_DECIMALS));
+}
+
+/**
+ * Finds the rate that converts `from` into `to`.
+ * Uses the most recent rate of the pair; a rate stored the other way round counts too (inverted).
+ * When both directions exist, the more recent one wins.
+ *
+ * @returns The multiplier (1 for the same currency), or null when no rate is known
+ */
+export function findExchangeRate(rates: ExchangeRateFields[], from: string, to: string): number | null {
+  if (from === to) {
+    return 1;
+  }
+
+  let best: { rate: number; date: string } | null = null;
+
+  for (const rate of rates) {
+    let value: number | null = null;
+    if (rate.from_currency === from && rate.to_currency === to) {
+      value = Number(rate.rate);
+    } else if (rate.from_currency === to && rate.to_currency === from) {
+      value = 1 / Number(rate.rate);
+    }
+
+    if (value !== null && (!best || rate.rate_date > best.date)) {
+      best = { rate: value, date: rate.rate_date };
+    }
+  }
+
+  return best ? best.rate : null;
+}
+
+/**
+ * Builds a converter into the base currency from the user's exchange rates.
+ * Converted amounts are rounded to the decimal places of the base currency (see currencyDecimals).
+ */
+export function createCurrencyConverter(rates: ExchangeRateFields[], baseCurrency: string): CurrencyConverter {
+  const cache = new Map<string, number | null>();
+  const unit = 10 ** currencyDecimals(baseCurrency);
+
+  return (amount, currency) => {
+    if (!cache.has(currency)) {
+      cache.set(currency, findExchangeRate(rates, currency, baseCurrency));
+    }
+
+    const rate = cache.get(currency);
+    return rate === null || rate === undefined ? null : Math.round(amount * rate * unit) / unit;
+  };
+}
+
+/**
+ * Column name hints used to find the columns of an exchange rate file
+ */
+const HEADER_HINTS: Record<keyof ExchangeRateImportRow, string[]> = {
+  from_currency: ["from", "from_currency", "currency", "waluta", "base"],
+  to_currency: ["to", "to_currency", "quote", "target"],
+  rate: ["rate", "kurs", "value", "mid"],
+  rate_date: ["date", "data", "rate_date", "effective_date"],
+};
+
+/**
+ * Parses an exchange rate file into API rows.
+ * The first line must be a header naming the columns (e.g. "from,to,rate,date");
+ * rates may use a decimal comma and dates any format the expense import accepts.
+ *
+ * @param text - The file contents
+ * @param defaultToCurrency - Used when the file has no "to" column (e.g. a list of PLN rates)
+ * @returns One row per data line
+ */
+export function parseExchangeRatesCsv(text: string, defaultToCurrency?: string): ExchangeRateImportRow[] {
+  const [header, ...rows] = parseCsv(text);
+
+  if (!header) {
+    return [];
+  }
+
+  const normalized = header.map((column) => column.trim().toLowerCase());
+  const findColumn = (field: keyof ExchangeRateImportRow) => {
+    const index = normalized.findIndex((column) => HEADER_HINTS[field].includes(column));
+    return index === -1 ? null : index;
+  };
+
+  const columns = {
+    from_currency: findColumn("from_currency"),
+    to_currency: findColumn("to_currency"),
+    rate: findColumn("rate"),
+    rate_date: findColumn("rate_date"),
+  };
+
+  const cell = (row: string[], index: number | null) => (index === null ? "" : (row[index] ?? "").trim());
+
+  return rows.map((row) => {
+    const importRow: ExchangeRateImportRow = {};
+
+    if (columns.from_currency !== null) {
+      importRow.from_currency = cell(row, columns.from_currency).toUpperCase();
+    }
+    if (columns.to_currency !== null) {
+      importRow.to_currency = cell(row, columns.to_currency).toUpperCase();
+    } else if (defaultToCurrency) {
+      importRow.to_currency = defaultToCurrency;
+    }
+    if (columns.rate !== null) {
+      const rate = cell(row, columns.rate).replace(/\s/g, "");
+      importRow.rate = /^\d+([.,]\d+)?$/.test(rate) ? Number(rate.replace(",", ".")) : rate;
+    }
+    if (columns.rate_date !== null && cell(row, columns.rate_date)) {
+      importRow.rate_date = normalizeImportDate(cell(row, columns.rate_date));
+    }
+
+    return importRow;
+  });
+}
@@ -0,0 +1,173 @@
+import type { ExpenseCategoryDTO } from "@/types";
+
+/**
+ * Expense fields that can be filled from a CSV column
+ */
+export type ExpenseImportField = "amount" | "expense_date" | "description" | "category_id";
+
+/**
+ * Maps each expense field to a zero-based CSV column index (null = not mapped)
+ */
+export type ExpenseImportMapping = Record<ExpenseImportField, number | null>;
+
+/**
+ * Raw expense row sent to POST /api/expenses/import.
+ * Values that cannot be normalised are passed through unchanged so the API
+ * reports them with the regular validation messages.
+ */
+export interface ExpenseImportRow {
+  amount?: number | string;
+  expense_date?: string;
+  description?: string;
+  category_id?: string;
+}
+
+/**
+ * Column name hints used to pre-select a mapping from a header row
+ */
+const HEADER_HINTS: Record<ExpenseImportField, string[]> = {
+  amount: ["amount", "kwota", "value", "wartość"],
+  expense_date: ["date", "data", "expense_date", "data operacji", "data transakcji"],
+  description: ["description", "opis", "title", "tytuł", "details"],
+  category_id: ["category", "kategoria", "category_id"],
+};
+
+/**
+ * Suggests a column mapping based on the header row of the file.
+ */
+export function guessExpenseImportMapping(header: string[]): ExpenseImportMapping {
+  const normalized = header.map((column) => column.trim().toLowerCase());
+  const findColumn = (field: ExpenseImportField) => {
+    const index = normalized.findIndex((column) => HEADER_HINTS[field].includes(column));
+    return index === -1 ? null : index;
+  };
+
+  return {
+    amount: findColumn("amount"),
+    expense_date: findColumn("expense_date"),
+    description: findColumn("description"),
+    category_id: findColumn("category_id"),
+  };
+}
+
+/**
+ * Converts an amount cell into a number.
+ * Accepts both "1234.56" and "1 234,56" notations. The sign is kept, so that
+ * buildExpenseImportRows() can tell expenses from credits.
+ */
+export function normalizeImportAmount(value: string): number | string {
+  const compact = value.replace(/\s/g, "").replace(/(PLN|zł)$/i, "");
+
+  if (!/^[-+]?\d+([.,]\d+)?$/.test(compact)) {
+    return value.trim();
+  }
+
+  return Number(compact.replace(",", "."));
+}
+
+/**
+ * Converts a date cell into YYYY-MM-DD.
+ * Accepts ISO dates as well as DD.MM.YYYY, DD-MM-YYYY and DD/MM/YYYY.
+ */
+export function normalizeImportDate(value: string): string {
+  const trimmed = value.trim();
+
+  const isoMatch = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (isoMatch) {
+    return `${isoMatch[1]}-${isoMatch[2]}-${isoMatch[3]}`;
+  }
+
+  const dayFirstMatch = trimmed.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{4})$/);
+  if (dayFirstMatch) {
+    const [, day, month, year] = dayFirstMatch;
+    return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  }
+
+  return trimmed;
+}
+
+/**
+ * Resolves a category cell to a category ID.
+ * Matches the ID itself, slug, name or display name (case-insensitive).
+ */
+export function resolveImportCategory(value: string, categories: ExpenseCategoryDTO[]): string | undefined {
+  const needle = value.trim().toLowerCase();
+
+  if (!needle) {
+    return undefined;
+  }
+
+  const match = categories.find(
+    (category) =>
+      category.id.toLowerCase() === needle ||
+      category.slug.toLowerCase() === needle ||
+      category.name.toLowerCase() === needle ||
+      category.display_name.toLowerCase() === needle
+  );
+
+  return match ? match.id : value.trim();
+}
+
+/**
+ * API rows built from a CSV file, without the credits that were left out
+ */
+export interface ExpenseImportRows {
+  rows: ExpenseImportRow[];
+  /** 1-based positions (among the data rows) of the skipped credits */
+  skippedCredits: number[];
+}
+
+/**
+ * Builds API rows from parsed CSV data using the given column mapping.
+ *
+ * Sign convention: when any amount is negative, the file is read as a bank statement -
+ * negative amounts are expenses (imported as positive numbers) and positive amounts are
+ * credits such as refunds or income, which are skipped. When no amount is negative,
+ * every row is an expense.
+ */
+export function buildExpenseImportRows(
+  rows: string[][],
+  mapping: ExpenseImportMapping,
+  categories: ExpenseCategoryDTO[]
+): ExpenseImportRows {
+  const cell = (row: string[], index: number | null) => (index === null ? "" : (row[index] ?? ""));
+
+  const amounts = rows.map((row) =>
+    mapping.amount === null ? undefined : normalizeImportAmount(cell(row, mapping.amount))
+  );
+  const isBankStatement = amounts.some((amount) => typeof amount === "number" && amount < 0);
+
+  const importRows: ExpenseImportRow[] = [];
+  const skippedCredits: number[] = [];
+
+  rows.forEach((row, index) => {
+    const amount = amounts[index];
+
+    if (isBankStatement && typeof amount === "number" && amount > 0) {
+      skippedCredits.push(index + 1);
+      return;
+    }
+
+    const importRow: ExpenseImportRow = {};
+
+    if (amount !== undefined) {
+      importRow.amount = isBankStatement && typeof amount === "number" ? Math.abs(amount) : amount;
+    }
+    if (mapping.expense_date !== null) {
+      importRow.expense_date = normalizeImportDate(cell(row, mapping.expense_date));
+    }
+    if (mapping.description !== null) {
+      importRow.description = cell(row, mapping.description).trim();
+    }
+    if (mapping.category_id !== null) {
+      const categoryId = resolveImportCategory(cell(row, mapping.category_id), categories);
+      if (categoryId) {
+        importRow.category_id = categoryId;
+      }
+    }
+
+    importRows.push(importRow);
+  });
+
+  return { rows: importRows, skippedCredits };
+}
@@ -0,0 +1,13 @@
+/**
+ * Adds up the amounts of split lines, working in cents so that e.g. 0.1 + 0.2 is exactly 0.3.
+ */
+export function splitTotal(lines: { amount: number }[]): number {
+  return lines.reduce((sum, line) => sum + Math.round(line.amount * 100), 0) / 100;
+}
+
+/**
+ * Checks that split lines add up to the expense amount, to the cent.
+ */
+export function splitsMatchAmount(lines: { amount: number }[], amount: number): boolean {
+  return Math.round(splitTotal(lines) * 100) === Math.round(amount * 100);
+}
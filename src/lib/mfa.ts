@@ -0,0 +1,38 @@
+/**
+ * Letters and digits used in recovery codes, without the easily confused 0/o and 1/l/i
+ */
+const RECOVERY_CODE_ALPHABET = "23456789abcdefghjkmnpqrstuvwxyz";
+
+/**
+ * Length of each of the two dash-separated groups of a recovery code
+ */
+const RECOVERY_CODE_GROUP_LENGTH = 5;
+
+/**
+ * Generates random one-time recovery codes in the form `xxxxx-xxxxx`.
+ */
+export function generateRecoveryCodes(count: number): string[] {
+  return Array.from({ length: count }, () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(RECOVERY_CODE_GROUP_LENGTH * 2));
+    const characters = Array.from(bytes, (byte) => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]);
+    return `${characters.slice(0, RECOVERY_CODE_GROUP_LENGTH).join("")}-${characters
+      .slice(RECOVERY_CODE_GROUP_LENGTH)
+      .join("")}`;
+  });
+}
+
+/**
+ * Brings a recovery code as typed by the user into its stored form: lowercase, without spaces or dashes.
+ */
+export function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, "");
+}
+
+/**
+ * Hex SHA-256 hash of a normalized recovery code, as stored in mfa_recovery_codes.code_hash.
+ * The codes are random, so a plain (unsalted) hash is enough to make a leaked table useless.
+ */
+export async function hashRecoveryCode(code: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(normalizeRecoveryCode(code)));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
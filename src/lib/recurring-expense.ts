@@ -0,0 +1,45 @@
+import type { RecurringExpenseDTO } from "@/types";
+
+/**
+ * Number of whole months from `from` to `to` (both YYYY-MM). Negative when `to` is earlier.
+ */
+export function monthsBetween(from: string, to: string): number {
+  const [fromYear, fromMonth] = from.split("-").map(Number);
+  const [toYear, toMonth] = to.split("-").map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth);
+}
+
+/**
+ * Checks whether a recurring expense has an occurrence in the given month.
+ * The month must lie within start_month..end_month and be a multiple of
+ * interval_months away from start_month.
+ */
+export function isRecurringExpenseDue(
+  definition: Pick<RecurringExpenseDTO, "start_month" | "end_month" | "interval_months">,
+  yearMonth: string
+): boolean {
+  const offset = monthsBetween(definition.start_month, yearMonth);
+
+  if (offset < 0) {
+    return false;
+  }
+
+  if (definition.end_month && yearMonth > definition.end_month) {
+    return false;
+  }
+
+  return offset % definition.interval_months === 0;
+}
+
+/**
+ * Returns the occurrence date (YYYY-MM-DD) of a recurring expense in the given month.
+ * Days past the end of a shorter month are clamped, e.g. day 31 becomes 2025-02-28.
+ */
+export function getRecurringOccurrenceDate(dayOfMonth: number, yearMonth: string): string {
+  const [year, month] = yearMonth.split("-").map(Number);
+  // Day 0 of the next month is the last day of this month
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const day = Math.min(dayOfMonth, lastDay);
+
+  return `${yearMonth}-${String(day).padStart(2, "0")}`;
+}
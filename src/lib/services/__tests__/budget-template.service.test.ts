@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { SupabaseClient } from "@/db/supabase.client";
+
+const materializeRecurringExpenses = vi.fn();
+
+vi.mock("../recurring-expense.service", () => ({
+  materializeRecurringExpenses: (...args: unknown[]) => materializeRecurringExpenses(...args),
+}));
+
+import { applyBudgetTemplate, BudgetTemplateNotFoundError } from "../budget-template.service";
+import { CategoryNotFoundError } from "../expense.service";
+
+type Row = Record<string, unknown>;
+
+const TEMPLATE_ID = "template-1";
+const ARCHIVED_CATEGORY_ID = "category-archived";
+
+/**
+ * Minimal Supabase client: reads filter the given tables, rpc is a mock.
+ */
+function createSupabase(tables: Record<string, Row[]>, rpcResult: { data?: unknown; error: unknown }) {
+  const rpc = vi.fn(async () => ({ data: rpcResult.data ?? null, error: rpcResult.error }));
+
+  const from = (table: string) => {
+    let rows = [...(tables[table] ?? [])];
+    let columns: string[] = [];
+    // Only the selected columns are returned, like PostgREST does
+    const pick = (row: Row) =>
+      Object.fromEntries(columns.filter((column) => column in row).map((column) => [column, row[column]]));
+    const query = {
+      select: (selected: string) => {
+        columns = selected.split(",").map((column) => column.trim());
+        return query;
+      },
+      eq: (column: string, value: unknown) => {
+        rows = rows.filter((row) => row[column] === value);
+        return query;
+      },
+      order: () => query,
+      then: (resolve: (value: { data: Row[]; error: null }) => unknown) =>
+        resolve({ data: rows.map(pick), error: null }),
+    };
+    return query;
+  };
+
+  return { supabase: { from, rpc } as unknown as SupabaseClient, rpc };
+}
+
+const templateTables = {
+  budget_templates: [{ id: TEMPLATE_ID, user_id: "user-1", name: "Regular month", budget_set: 3000 }],
+  budget_template_categories: [
+    { template_id: TEMPLATE_ID, user_id: "user-1", category_id: "category-food", amount: 1200 },
+    { template_id: TEMPLATE_ID, user_id: "user-1", category_id: ARCHIVED_CATEGORY_ID, amount: 300 },
+  ],
+};
+
+describe("applyBudgetTemplate", () => {
+  beforeEach(() => {
+    materializeRecurringExpenses.mockReset().mockResolvedValue({ created: 0 });
+  });
+
+  it("overwrites every month of the range in a single database call", async () => {
+    const { supabase, rpc } = createSupabase(templateTables, { data: 3, error: null });
+
+    const result = await applyBudgetTemplate(supabase, "user-1", TEMPLATE_ID, {
+      from_month: "2025-11",
+      to_month: "2026-01",
+    });
+
+    expect(result).toEqual({ template_id: TEMPLATE_ID, months: ["2025-11", "2025-12", "2026-01"] });
+    // apply_budget_template replaces each month's budget and allocations with the template's
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(rpc).toHaveBeenCalledWith("apply_budget_template", {
+      source_template_id: TEMPLATE_ID,
+      from_month: "2025-11",
+      to_month: "2026-01",
+    });
+    expect(materializeRecurringExpenses.mock.calls.map(([, , month]) => month)).toEqual([
+      "2025-11",
+      "2025-12",
+      "2026-01",
+    ]);
+  });
+
+  it("applies allocations to archived categories the template still holds", async () => {
+    const { supabase, rpc } = createSupabase(templateTables, { data: 1, error: null });
+
+    await expect(
+      applyBudgetTemplate(supabase, "user-1", TEMPLATE_ID, { from_month: "2025-12", to_month: "2025-12" })
+    ).resolves.toEqual({ template_id: TEMPLATE_ID, months: ["2025-12"] });
+    expect(rpc).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports a template category that is no longer available", async () => {
+    const { supabase } = createSupabase(templateTables, {
+      error: { code: "23503", message: "Category not found" },
+    });
+
+    await expect(
+      applyBudgetTemplate(supabase, "user-1", TEMPLATE_ID, { from_month: "2025-12", to_month: "2025-12" })
+    ).rejects.toBeInstanceOf(CategoryNotFoundError);
+  });
+
+  it("rejects an unknown template before changing any month", async () => {
+    const { supabase, rpc } = createSupabase(templateTables, { data: 1, error: null });
+
+    await expect(
+      applyBudgetTemplate(supabase, "user-1", "template-2", { from_month: "2025-12", to_month: "2025-12" })
+    ).rejects.toBeInstanceOf(BudgetTemplateNotFoundError);
+    expect(materializeRecurringExpenses).not.toHaveBeenCalled();
+    expect(rpc).not.toHaveBeenCalled();
+  });
+});
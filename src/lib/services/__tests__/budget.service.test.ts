@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { SupabaseClient } from "@/db/supabase.client";
+
+const materializeRecurringExpenses = vi.fn();
+
+vi.mock("../recurring-expense.service", () => ({
+  materializeRecurringExpenses: (...args: unknown[]) => materializeRecurringExpenses(...args),
+}));
+
+import { copyMonthBudget, MonthBudgetNotFoundError } from "../budget.service";
+
+type Row = Record<string, unknown>;
+
+/**
+ * Minimal Supabase client: reads filter the given tables, rpc is a mock.
+ */
+function createSupabase(tables: Record<string, Row[]>) {
+  const rpc = vi.fn(async () => ({ data: false, error: null }));
+
+  const from = (table: string) => {
+    let rows = [...(tables[table] ?? [])];
+    let columns: string[] = [];
+    // Only the selected columns are returned, like PostgREST does
+    const pick = (row: Row) =>
+      Object.fromEntries(columns.filter((column) => column in row).map((column) => [column, row[column]]));
+    const query = {
+      select: (selected: string) => {
+        columns = selected.split(",").map((column) => column.trim());
+        return query;
+      },
+      eq: (column: string, value: unknown) => {
+        rows = rows.filter((row) => row[column] === value);
+        return query;
+      },
+      is: (column: string, value: unknown) => {
+        rows = rows.filter((row) => (row[column] ?? null) === value);
+        return query;
+      },
+      single: async () =>
+        rows.length === 1
+          ? { data: pick(rows[0]), error: null }
+          : { data: null, error: { code: "PGRST116", message: "No rows found" } },
+      then: (resolve: (value: { data: Row[]; error: null }) => unknown) =>
+        resolve({ data: rows.map(pick), error: null }),
+    };
+    return query;
+  };
+
+  return { supabase: { from, rpc } as unknown as SupabaseClient, rpc };
+}
+
+const budget = (id: string, yearMonth: string, budgetSet: number): Row => ({
+  id,
+  year_month: yearMonth,
+  budget_set: budgetSet,
+  current_balance: budgetSet,
+  rollover_enabled: false,
+  closed_at: null,
+  closing_balance: null,
+  deleted_at: null,
+});
+
+describe("copyMonthBudget", () => {
+  beforeEach(() => {
+    materializeRecurringExpenses.mockReset().mockResolvedValue({ created: 0 });
+  });
+
+  it("fails without changing anything when the source month has no budget", async () => {
+    const { supabase, rpc } = createSupabase({ month_budget: [budget("budget-dec", "2025-12", 2500)] });
+
+    await expect(copyMonthBudget(supabase, "user-1", "2025-12", "2025-11")).rejects.toBeInstanceOf(
+      MonthBudgetNotFoundError
+    );
+    expect(materializeRecurringExpenses).not.toHaveBeenCalled();
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it("replaces the target month's budget with the source's budget and allocations", async () => {
+    const { supabase, rpc } = createSupabase({
+      month_budget: [budget("budget-nov", "2025-11", 3000), budget("budget-dec", "2025-12", 2500)],
+      month_budget_categories: [
+        { month_budget_id: "budget-nov", category_id: "category-food", amount: 1200 },
+        { month_budget_id: "budget-nov", category_id: "category-home", amount: 800 },
+        { month_budget_id: "budget-dec", category_id: "category-fun", amount: 400 },
+      ],
+    });
+
+    const result = await copyMonthBudget(supabase, "user-1", "2025-12", "2025-11");
+
+    expect(rpc).toHaveBeenCalledWith("apply_month_budget", {
+      target_year_month: "2025-12",
+      new_budget_set: 3000,
+      new_rollover_enabled: false,
+      allocations: [
+        { category_id: "category-food", amount: 1200 },
+        { category_id: "category-home", amount: 800 },
+      ],
+    });
+    expect(materializeRecurringExpenses).toHaveBeenCalledWith(supabase, "user-1", "2025-12");
+    expect(result.created).toBe(false);
+  });
+});
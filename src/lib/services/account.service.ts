@@ -0,0 +1,57 @@
+import { createSupabaseSessionlessInstance } from "@/db/supabase.client";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+/**
+ * Re-checks the signed-in user's password before a sensitive account change.
+ * The check signs in on a separate client without cookies, so the request's session (and its
+ * two-factor level) is never replaced; the extra session is signed out again right away.
+ *
+ * @param email - The user's current email address
+ * @param password - The password to check
+ * @returns true if the password is correct
+ */
+export async function verifyPassword(email: string | null, password: string): Promise<boolean> {
+  if (!email) {
+    return false;
+  }
+
+  const checkClient = createSupabaseSessionlessInstance();
+  const { error } = await checkClient.auth.signInWithPassword({ email, password });
+
+  if (error) {
+    return false;
+  }
+
+  // Only revokes the session created for the check, not the user's other sessions
+  await checkClient.auth.signOut({ scope: "local" });
+
+  return true;
+}
+
+/**
+ * Permanently deletes a user's account: first all application data (expenses, month budgets,
+ * stashes, stash transactions and everything attached to them) via delete_user_account(),
+ * then the auth.users record itself.
+ *
+ * The caller must have re-verified the user's identity; this is not reversible.
+ *
+ * @param adminClient - Service role client (see createSupabaseAdminClient); the database function
+ *   and the Auth admin API are not available to the user's own session
+ * @param userId - The ID of the user whose account is deleted
+ * @throws Error if either step fails
+ */
+export async function deleteAccount(adminClient: SupabaseClient, userId: string): Promise<void> {
+  const { error: dataError } = await adminClient.rpc("delete_user_account", { target_user_id: userId });
+
+  if (dataError) {
+    console.error("deleteAccount service error:", { userId, code: dataError.code, message: dataError.message });
+    throw new Error("Failed to delete account data");
+  }
+
+  const { error: authError } = await adminClient.auth.admin.deleteUser(userId);
+
+  if (authError) {
+    console.error("deleteAccount service error:", { userId, code: authError.code, message: authError.message });
+    throw new Error("Failed to delete auth user");
+  }
+}
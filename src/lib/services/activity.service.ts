@@ -0,0 +1,55 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type { ActivityEntryDTO, ApiPaginatedResponse, ListActivityQuery } from "@/types";
+
+/**
+ * Columns returned for audit log entries (everything except user_id and household_id)
+ */
+const ACTIVITY_COLUMNS = "id, actor_id, entity_type, entity_id, operation, old_values, new_values, created_at";
+
+/**
+ * Retrieves a page of the user's audit log, newest first.
+ * RLS limits the entries to the user's own records and the records of their household,
+ * whichever member created them.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param query - Pagination and the optional entity_type / entity_id filters
+ * @returns Paginated response containing audit log entries and pagination metadata
+ * @throws Error if the database query fails
+ */
+export async function listActivity(
+  supabase: SupabaseClient,
+  userId: string,
+  query: ListActivityQuery
+): Promise<ApiPaginatedResponse<ActivityEntryDTO>> {
+  const { page, limit, entity_type, entity_id } = query;
+  const offset = (page - 1) * limit;
+
+  let queryBuilder = supabase.from("audit_log").select(ACTIVITY_COLUMNS, { count: "exact" });
+
+  if (entity_type) {
+    queryBuilder = queryBuilder.eq("entity_type", entity_type);
+  }
+
+  if (entity_id) {
+    queryBuilder = queryBuilder.eq("entity_id", entity_id);
+  }
+
+  const { data, error, count } = await queryBuilder
+    .order("created_at", { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    console.error("Error fetching activity:", { userId, error });
+    throw new Error("Failed to fetch activity");
+  }
+
+  return {
+    data: (data || []) as ActivityEntryDTO[],
+    pagination: {
+      page,
+      limit,
+      total: count || 0,
+    },
+  };
+}
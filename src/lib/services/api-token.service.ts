@@ -0,0 +1,135 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import { generateApiToken, getApiTokenPrefix, hashApiToken } from "@/lib/api-tokens";
+import type { ApiTokenDTO, ApiTokenScope, CreateApiTokenCommand, CreatedApiTokenDTO } from "@/types";
+
+/**
+ * Columns returned for API tokens (everything except user_id and token_hash)
+ */
+const API_TOKEN_COLUMNS = "id, name, token_prefix, scopes, last_used_at, created_at";
+
+/**
+ * Custom error class for API tokens that do not exist or belong to another user
+ */
+export class ApiTokenNotFoundError extends Error {
+  constructor(message = "API token not found") {
+    super(message);
+    this.name = "ApiTokenNotFoundError";
+  }
+}
+
+/**
+ * Resolves a personal API token to its owner and records that it was used.
+ *
+ * @param supabase - A Supabase client without a session
+ * @param token - The plain token from the Authorization header
+ * @returns The owner and the token's scopes, or null for an unknown or revoked token
+ * @throws Error if the database call fails
+ */
+export async function authenticateApiToken(
+  supabase: SupabaseClient,
+  token: string
+): Promise<{ userId: string; email: string | null; scopes: ApiTokenScope[] } | null> {
+  const { data, error } = await supabase.rpc("authenticate_api_token", {
+    target_token_hash: await hashApiToken(token),
+  });
+
+  if (error) {
+    console.error("Error authenticating API token:", { code: error.code, message: error.message });
+    throw new Error("Failed to authenticate API token");
+  }
+
+  const match = data?.[0];
+
+  if (!match) {
+    return null;
+  }
+
+  return { userId: match.user_id, email: match.email, scopes: match.scopes as ApiTokenScope[] };
+}
+
+/**
+ * Retrieves the user's API tokens.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @returns The tokens, newest first
+ * @throws Error if the database query fails
+ */
+export async function listApiTokens(supabase: SupabaseClient, userId: string): Promise<ApiTokenDTO[]> {
+  const { data, error } = await supabase
+    .from("api_tokens")
+    .select(API_TOKEN_COLUMNS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching API tokens:", { userId, error });
+    throw new Error("Failed to fetch API tokens");
+  }
+
+  return (data || []).map((token) => ({ ...token, scopes: token.scopes as ApiTokenScope[] }));
+}
+
+/**
+ * Creates an API token for the user.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param command - The token's name and scopes
+ * @returns The token including its plain value (only its hash is stored)
+ * @throws Error if the database operation fails
+ */
+export async function createApiToken(
+  supabase: SupabaseClient,
+  userId: string,
+  command: CreateApiTokenCommand
+): Promise<CreatedApiTokenDTO> {
+  const token = generateApiToken();
+
+  const { data, error } = await supabase
+    .from("api_tokens")
+    .insert({
+      user_id: userId,
+      name: command.name,
+      token_hash: await hashApiToken(token),
+      token_prefix: getApiTokenPrefix(token),
+      scopes: command.scopes,
+    })
+    .select(API_TOKEN_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error("createApiToken service error:", { userId, code: error.code, message: error.message });
+    throw new Error("Failed to create API token");
+  }
+
+  return { ...data, scopes: data.scopes as ApiTokenScope[], token };
+}
+
+/**
+ * Revokes an API token; requests made with it are rejected from then on.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param tokenId - The token to revoke
+ * @throws ApiTokenNotFoundError if the token does not exist or belongs to another user
+ * @throws Error if the database operation fails
+ */
+export async function deleteApiToken(supabase: SupabaseClient, userId: string, tokenId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from("api_tokens")
+    .delete()
+    .eq("id", tokenId)
+    .eq("user_id", userId)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    console.error("deleteApiToken service error:", { userId, tokenId, code: error.code, message: error.message });
+    throw new Error("Failed to revoke API token");
+  }
+
+  if (!data) {
+    throw new ApiTokenNotFoundError();
+  }
+}
@@ -0,0 +1,261 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type {
+  ApplyBudgetTemplateCommand,
+  ApplyBudgetTemplateResultDTO,
+  BudgetTemplateDTO,
+  SaveBudgetTemplateCommand,
+} from "@/types";
+import { monthsBetween } from "@/lib/recurring-expense";
+import { materializeRecurringExpenses } from "./recurring-expense.service";
+import { CategoryNotFoundError } from "./expense.service";
+
+/**
+ * Custom error class for budget template not found
+ */
+export class BudgetTemplateNotFoundError extends Error {
+  constructor(message = "Budget template not found") {
+    super(message);
+    this.name = "BudgetTemplateNotFoundError";
+  }
+}
+
+/**
+ * Custom error class for duplicate budget template names
+ */
+export class DuplicateBudgetTemplateError extends Error {
+  constructor(message = "A budget template with this name already exists") {
+    super(message);
+    this.name = "DuplicateBudgetTemplateError";
+  }
+}
+
+/**
+ * Lists every month from `from` to `to` (inclusive, YYYY-MM).
+ */
+function listYearMonths(from: string, to: string): string[] {
+  const [year, month] = from.split("-").map(Number);
+
+  return Array.from({ length: monthsBetween(from, to) + 1 }, (_, offset) => {
+    const date = new Date(Date.UTC(year, month - 1 + offset, 1));
+    return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+  });
+}
+
+/**
+ * Maps errors of the save_budget_template database function to domain errors.
+ */
+function mapSaveTemplateError(error: { code?: string; message?: string }): Error | null {
+  if (error.code === "23505") {
+    return new DuplicateBudgetTemplateError();
+  }
+
+  if (error.code === "23503") {
+    // Foreign key violation or category owned by another user
+    return new CategoryNotFoundError("One or more categories do not exist");
+  }
+
+  if (error.message?.includes("Budget template not found")) {
+    return new BudgetTemplateNotFoundError();
+  }
+
+  return null;
+}
+
+/**
+ * Retrieves all budget templates of a user with their category allocations.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @returns Templates ordered by name
+ * @throws Error if the database query fails
+ */
+export async function listBudgetTemplates(supabase: SupabaseClient, userId: string): Promise<BudgetTemplateDTO[]> {
+  const [templatesResult, categoriesResult] = await Promise.all([
+    supabase
+      .from("budget_templates")
+      .select("id, name, budget_set, created_at, updated_at")
+      .eq("user_id", userId)
+      .order("name", { ascending: true }),
+    supabase.from("budget_template_categories").select("template_id, category_id, amount").eq("user_id", userId),
+  ]);
+
+  if (templatesResult.error || categoriesResult.error) {
+    console.error("Error fetching budget templates:", templatesResult.error ?? categoriesResult.error);
+    throw new Error("Failed to fetch budget templates");
+  }
+
+  return (templatesResult.data || []).map((template) => ({
+    ...template,
+    categories: (categoriesResult.data || [])
+      .filter((allocation) => allocation.template_id === template.id)
+      .map(({ category_id, amount }) => ({ category_id, amount })),
+  }));
+}
+
+/**
+ * Retrieves a single budget template of a user.
+ */
+async function getBudgetTemplate(
+  supabase: SupabaseClient,
+  userId: string,
+  templateId: string
+): Promise<BudgetTemplateDTO> {
+  const templates = await listBudgetTemplates(supabase, userId);
+  const template = templates.find((item) => item.id === templateId);
+
+  if (!template) {
+    throw new BudgetTemplateNotFoundError();
+  }
+
+  return template;
+}
+
+/**
+ * Creates a budget template with its category allocations.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param command - Template name, budget_set and allocations
+ * @returns The created template
+ * @throws DuplicateBudgetTemplateError if the user already has a template with this name
+ * @throws CategoryNotFoundError if a category does not exist or isn't available to the user
+ * @throws Error if the database operation fails
+ */
+export async function createBudgetTemplate(
+  supabase: SupabaseClient,
+  userId: string,
+  command: SaveBudgetTemplateCommand
+): Promise<BudgetTemplateDTO> {
+  const { data: templateId, error } = await supabase.rpc("save_budget_template", {
+    target_template_id: null,
+    template_name: command.name,
+    template_budget_set: command.budget_set,
+    allocations: command.categories,
+  });
+
+  if (error) {
+    console.error("createBudgetTemplate service error:", error);
+    throw mapSaveTemplateError(error) ?? new Error("Failed to create budget template");
+  }
+
+  return getBudgetTemplate(supabase, userId, templateId);
+}
+
+/**
+ * Replaces a budget template: name, budget_set and all allocations.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param templateId - The template to replace
+ * @param command - Template name, budget_set and allocations
+ * @returns The updated template
+ * @throws BudgetTemplateNotFoundError if the template does not exist or doesn't belong to the user
+ * @throws DuplicateBudgetTemplateError if another template already has this name
+ * @throws CategoryNotFoundError if a category does not exist or isn't available to the user
+ * @throws Error if the database operation fails
+ */
+export async function updateBudgetTemplate(
+  supabase: SupabaseClient,
+  userId: string,
+  templateId: string,
+  command: SaveBudgetTemplateCommand
+): Promise<BudgetTemplateDTO> {
+  const { error } = await supabase.rpc("save_budget_template", {
+    target_template_id: templateId,
+    template_name: command.name,
+    template_budget_set: command.budget_set,
+    allocations: command.categories,
+  });
+
+  if (error) {
+    console.error("updateBudgetTemplate service error:", error);
+    throw mapSaveTemplateError(error) ?? new Error("Failed to update budget template");
+  }
+
+  return getBudgetTemplate(supabase, userId, templateId);
+}
+
+/**
+ * Deletes a budget template. Months it was applied to keep their budgets.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param templateId - The template to delete
+ * @throws BudgetTemplateNotFoundError if the template does not exist or doesn't belong to the user
+ * @throws Error if the database operation fails
+ */
+export async function deleteBudgetTemplate(
+  supabase: SupabaseClient,
+  userId: string,
+  templateId: string
+): Promise<void> {
+  const { data, error } = await supabase
+    .from("budget_templates")
+    .delete()
+    .eq("id", templateId)
+    .eq("user_id", userId)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    console.error("deleteBudgetTemplate service error:", error);
+    throw new Error("Failed to delete budget template");
+  }
+
+  if (!data) {
+    throw new BudgetTemplateNotFoundError();
+  }
+}
+
+/**
+ * Applies a budget template to every month of a range: sets budget_set and replaces the
+ * category allocations of each month, creating budgets where needed. The months are set
+ * in a single transaction by the apply_budget_template database function.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param templateId - The template to apply
+ * @param command - First and last month of the range (inclusive)
+ * @returns The template ID and the months that were set
+ * @throws BudgetTemplateNotFoundError if the template does not exist or doesn't belong to the user
+ * @throws CategoryNotFoundError if a template category is no longer available
+ * @throws Error if the database operation fails
+ */
+export async function applyBudgetTemplate(
+  supabase: SupabaseClient,
+  userId: string,
+  templateId: string,
+  command: ApplyBudgetTemplateCommand
+): Promise<ApplyBudgetTemplateResultDTO> {
+  // Fails early for unknown templates, before any recurring expenses are created
+  await getBudgetTemplate(supabase, userId, templateId);
+
+  const months = listYearMonths(command.from_month, command.to_month);
+
+  // Fill in each month's recurring expenses so they count towards the balances
+  for (const month of months) {
+    await materializeRecurringExpenses(supabase, userId, month);
+  }
+
+  const { error } = await supabase.rpc("apply_budget_template", {
+    source_template_id: templateId,
+    from_month: command.from_month,
+    to_month: command.to_month,
+  });
+
+  if (error) {
+    console.error("applyBudgetTemplate service error:", { userId, templateId, error });
+
+    if (error.code === "23503") {
+      throw new CategoryNotFoundError("One or more categories do not exist");
+    }
+
+    if (error.message?.includes("Budget template not found")) {
+      throw new BudgetTemplateNotFoundError();
+    }
+
+    throw new Error("Failed to apply budget template");
+  }
+
+  return { template_id: templateId, months };
+}
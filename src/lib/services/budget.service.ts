@@ -1,15 +1,63 @@
 import type { SupabaseClient } from "@/db/supabase.client";
 import type {
   ApiPaginatedResponse,
+  BudgetYearMonthSummary,
+  BudgetYearSummaryDTO,
+  ExpenseSummaryDTO,
   ListBudgetsQuery,
+  MonthBudgetCategoriesDTO,
+  MonthBudgetDetailsDTO,
   MonthBudgetListItemDTO,
   MonthBudgetDTO,
+  SetMonthBudgetCategoriesCommand,
   UpsertBudgetCommand,
 } from "@/types";
+import { buildMonthBudgetCategoryBreakdown } from "@/lib/budget-breakdown";
+import { computeCarriedOver, getPreviousYearMonth } from "@/lib/budget-rollover";
+import { materializeRecurringExpenses } from "./recurring-expense.service";
+import { listExpenseCategories } from "./expense-category.service";
+import { CategoryNotFoundError } from "./expense.service";
+import { getSpendingReport } from "./report.service";
+
+/**
+ * Custom error class for a month without a budget
+ */
+export class MonthBudgetNotFoundError extends Error {
+  constructor(message = "No budget found for this month") {
+    super(message);
+    this.name = "MonthBudgetNotFoundError";
+  }
+}
+
+/**
+ * Custom error class for closing a month that is already closed
+ */
+export class MonthBudgetAlreadyClosedError extends Error {
+  constructor(message = "This month is already closed") {
+    super(message);
+    this.name = "MonthBudgetAlreadyClosedError";
+  }
+}
+
+/**
+ * Custom error class for reopening a month that is not closed
+ */
+export class MonthBudgetNotClosedError extends Error {
+  constructor(message = "This month is not closed") {
+    super(message);
+    this.name = "MonthBudgetNotClosedError";
+  }
+}
+
+/**
+ * Columns returned for month budgets
+ */
+const MONTH_BUDGET_COLUMNS =
+  "id, year_month, budget_set, current_balance, rollover_enabled, closed_at, closing_balance, created_at, updated_at";
 
 /**
  * Retrieves the total expenses for a specific month and user.
- * Aggregates all non-deleted expenses for the given year_month.
+ * The sum is computed by the month_expense_totals() database function.
  *
  * @param supabase - The Supabase client instance
  * @param userId - The authenticated user's ID
@@ -17,30 +65,48 @@ import type {
  * @returns Total expenses amount (0 if no expenses found)
  * @throws Error if the database query fails
  */
-async function getTotalExpensesForMonth(supabase: SupabaseClient, userId: string, yearMonth: string): Promise<number> {
-  try {
-    const { data, error } = await supabase
-      .from("expenses")
-      .select("amount")
-      .eq("user_id", userId)
-      .eq("year_month", yearMonth)
-      .is("deleted_at", null);
-
-    if (error) {
-      console.error("Error fetching total expenses:", { userId, yearMonth, error });
-      throw new Error("Failed to calculate total expenses");
-    }
+export async function getTotalExpensesForMonth(
+  supabase: SupabaseClient,
+  userId: string,
+  yearMonth: string
+): Promise<number> {
+  const { data, error } = await supabase.rpc("month_expense_totals", { target_year_month: yearMonth });
 
-    // Calculate sum manually since Supabase JS client doesn't support aggregate functions directly
-    const total = data?.reduce((sum, expense) => sum + Number(expense.amount), 0) || 0;
-    return total;
-  } catch (e) {
-    if (e instanceof Error && e.message === "Failed to calculate total expenses") {
-      throw e;
-    }
-    console.error("Unexpected error in getTotalExpensesForMonth:", e);
+  if (error) {
+    console.error("Error fetching total expenses:", { userId, yearMonth, error });
     throw new Error("Failed to calculate total expenses");
   }
+
+  return Number(data?.[0]?.total ?? 0);
+}
+
+/**
+ * Retrieves a month's expense totals per category.
+ * The totals are computed by the category_totals() database function.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param yearMonth - The year-month string in YYYY-MM format
+ * @returns One entry per category with expenses in the month (category_id null for uncategorized)
+ * @throws Error if the database query fails
+ */
+export async function getCategoryTotals(
+  supabase: SupabaseClient,
+  userId: string,
+  yearMonth: string
+): Promise<ExpenseSummaryDTO[]> {
+  const { data, error } = await supabase.rpc("category_totals", { target_year_month: yearMonth });
+
+  if (error) {
+    console.error("Error fetching category totals:", { userId, yearMonth, error });
+    throw new Error("Failed to calculate category totals");
+  }
+
+  return (data || []).map((row) => ({
+    category_id: row.category_id,
+    total: Number(row.total),
+    expense_count: Number(row.expense_count),
+  }));
 }
 
 /**
@@ -60,8 +126,7 @@ export async function getBudgetByYearMonth(
   try {
     const { data, error } = await supabase
       .from("month_budget")
-      .select("id, year_month, budget_set, current_balance, created_at, updated_at")
-      .eq("user_id", userId)
+      .select(MONTH_BUDGET_COLUMNS)
       .eq("year_month", yearMonth)
       .is("deleted_at", null)
       .single();
@@ -109,8 +174,7 @@ export async function listMonthBudgets(
     // Build the base query with filters
     let queryBuilder = supabase
       .from("month_budget")
-      .select("id, year_month, budget_set, current_balance, created_at, updated_at", { count: "exact" })
-      .eq("user_id", userId)
+      .select(MONTH_BUDGET_COLUMNS, { count: "exact" })
       .is("deleted_at", null);
 
     // Optional year filter
@@ -150,15 +214,284 @@ export async function listMonthBudgets(
   }
 }
 
+/**
+ * Returns one zero per day of a YYYY-MM month.
+ */
+function emptyDailySpending(yearMonth: string): number[] {
+  const [year, month] = yearMonth.split("-").map(Number);
+  return new Array(new Date(Date.UTC(year, month, 0)).getUTCDate()).fill(0);
+}
+
+/**
+ * Builds the overview of a whole year: every month's budget, spending, balance,
+ * top category and daily spending, plus year totals and the monthly spending
+ * per category for a heatmap.
+ * Spending is aggregated by the report_* database functions (see getSpendingReport).
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param year - The year in YYYY format
+ * @returns The year summary with all twelve months
+ * @throws Error if a database query fails
+ */
+export async function getBudgetYearSummary(
+  supabase: SupabaseClient,
+  userId: string,
+  year: string
+): Promise<BudgetYearSummaryDTO> {
+  const from = `${year}-01`;
+  const to = `${year}-12`;
+
+  const [budgets, report, dailyResult] = await Promise.all([
+    listMonthBudgets(supabase, userId, { page: 1, limit: 12, year, order: "asc" }),
+    getSpendingReport(supabase, userId, { from, to, groupBy: "month" }),
+    supabase.rpc("report_daily_totals", { from_month: from, to_month: to }),
+  ]);
+
+  if (dailyResult.error) {
+    console.error("Error fetching daily expense totals:", { userId, year, error: dailyResult.error });
+    throw new Error("Failed to fetch budget year summary");
+  }
+
+  const budgetByMonth = new Map(budgets.data.map((budget) => [budget.year_month, budget]));
+
+  // Lay out each month's days, leaving days without expenses at 0
+  const dailyByMonth = new Map<string, number[]>();
+  for (const row of dailyResult.data || []) {
+    const yearMonth = row.expense_date.slice(0, 7);
+    let days = dailyByMonth.get(yearMonth);
+    if (!days) {
+      days = emptyDailySpending(yearMonth);
+      dailyByMonth.set(yearMonth, days);
+    }
+    days[Number(row.expense_date.slice(8, 10)) - 1] = Number(row.total);
+  }
+
+  const months = report.budgetAdherence.map((month) => {
+    const budget = budgetByMonth.get(month.yearMonth);
+
+    let topCategory: BudgetYearMonthSummary["topCategory"] = null;
+    for (const trend of report.categoryTrends) {
+      const entry = trend.months.find((item) => item.yearMonth === month.yearMonth);
+      if (entry && entry.total > 0 && (!topCategory || entry.total > topCategory.total)) {
+        topCategory = {
+          key: trend.categoryKey,
+          name: trend.categoryName,
+          color: trend.categoryColor,
+          total: entry.total,
+        };
+      }
+    }
+
+    return {
+      yearMonth: month.yearMonth,
+      budgetSet: month.budgetSet,
+      spent: month.spent,
+      balance: budget ? Number(budget.current_balance) : null,
+      usedPercent: month.usedPercent,
+      isClosed: !!budget?.closed_at,
+      topCategory,
+      dailySpending: dailyByMonth.get(month.yearMonth) ?? emptyDailySpending(month.yearMonth),
+    };
+  });
+
+  const budgeted = months.filter((month) => month.budgetSet !== null);
+
+  return {
+    year,
+    totals: {
+      budgetSet: Math.round(budgeted.reduce((sum, month) => sum + (month.budgetSet ?? 0), 0) * 100) / 100,
+      spent: report.totals.total,
+      balance: Math.round(budgeted.reduce((sum, month) => sum + (month.balance ?? 0), 0) * 100) / 100,
+      monthlyAverage: report.totals.monthlyAverage,
+      monthsOverBudget: budgeted.filter((month) => month.spent > (month.budgetSet ?? 0)).length,
+    },
+    months,
+    categories: report.categoryTrends,
+  };
+}
+
+/**
+ * Computes the amount carried into a month from the previous months (see computeCarriedOver).
+ * Returns 0 without querying when rollover is disabled for the month.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param budget - The month budget to compute the carried amount for
+ * @returns The carried amount (negative for a carried overspend)
+ * @throws Error if the database query fails
+ */
+export async function getCarriedOver(
+  supabase: SupabaseClient,
+  userId: string,
+  budget: Pick<MonthBudgetDTO, "year_month" | "rollover_enabled">
+): Promise<number> {
+  if (!budget.rollover_enabled) {
+    return 0;
+  }
+
+  const { data, error } = await supabase
+    .from("month_budget")
+    .select("year_month, current_balance, rollover_enabled, closed_at, closing_balance")
+    .lt("year_month", budget.year_month)
+    .is("deleted_at", null)
+    .order("year_month", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching budgets for rollover:", { userId, yearMonth: budget.year_month, error });
+    throw new Error("Failed to calculate carried over budget");
+  }
+
+  return computeCarriedOver(budget, data || []);
+}
+
+/**
+ * Adds the carried over amount to a month budget.
+ */
+async function withCarriedOver(
+  supabase: SupabaseClient,
+  userId: string,
+  budget: MonthBudgetDTO
+): Promise<MonthBudgetDetailsDTO> {
+  return { ...budget, carried_over: await getCarriedOver(supabase, userId, budget) };
+}
+
+/**
+ * Retrieves a month budget together with the amount carried over from the previous month.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param yearMonth - The year-month string in YYYY-MM format
+ * @returns The budget with carried_over, or null if not found
+ * @throws Error if a database query fails
+ */
+export async function getMonthBudgetDetails(
+  supabase: SupabaseClient,
+  userId: string,
+  yearMonth: string
+): Promise<MonthBudgetDetailsDTO | null> {
+  const budget = await getBudgetByYearMonth(supabase, userId, yearMonth);
+
+  if (!budget) {
+    return null;
+  }
+
+  return withCarriedOver(supabase, userId, budget);
+}
+
+/**
+ * Closes a month: freezes its remainder (current_balance + carried_over) in closing_balance.
+ * Later months with rollover receive the frozen value, so editing an expense of the closed
+ * month afterwards no longer shifts them.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param yearMonth - The year-month string in YYYY-MM format
+ * @returns The closed budget with carried_over
+ * @throws MonthBudgetNotFoundError if no budget is set for the month
+ * @throws MonthBudgetAlreadyClosedError if the month is already closed
+ * @throws Error if a database operation fails
+ */
+export async function closeMonthBudget(
+  supabase: SupabaseClient,
+  userId: string,
+  yearMonth: string
+): Promise<MonthBudgetDetailsDTO> {
+  const budget = await getBudgetByYearMonth(supabase, userId, yearMonth);
+
+  if (!budget) {
+    throw new MonthBudgetNotFoundError();
+  }
+
+  if (budget.closed_at) {
+    throw new MonthBudgetAlreadyClosedError();
+  }
+
+  const carriedOver = await getCarriedOver(supabase, userId, budget);
+  const closingBalance = Math.round((Number(budget.current_balance) + carriedOver) * 100) / 100;
+
+  const { data, error } = await supabase
+    .from("month_budget")
+    .update({
+      closed_at: new Date().toISOString(),
+      closing_balance: closingBalance,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", budget.id)
+    .is("closed_at", null)
+    .select(MONTH_BUDGET_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error closing month budget:", { userId, yearMonth, error });
+    throw new Error("Failed to close month budget");
+  }
+
+  if (!data) {
+    // Closed concurrently
+    throw new MonthBudgetAlreadyClosedError();
+  }
+
+  return { ...(data as MonthBudgetDTO), carried_over: carriedOver };
+}
+
+/**
+ * Reopens a closed month. Later months with rollover follow its live remainder again.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param yearMonth - The year-month string in YYYY-MM format
+ * @returns The reopened budget with carried_over
+ * @throws MonthBudgetNotFoundError if no budget is set for the month
+ * @throws MonthBudgetNotClosedError if the month is not closed
+ * @throws Error if a database operation fails
+ */
+export async function reopenMonthBudget(
+  supabase: SupabaseClient,
+  userId: string,
+  yearMonth: string
+): Promise<MonthBudgetDetailsDTO> {
+  const budget = await getBudgetByYearMonth(supabase, userId, yearMonth);
+
+  if (!budget) {
+    throw new MonthBudgetNotFoundError();
+  }
+
+  if (!budget.closed_at) {
+    throw new MonthBudgetNotClosedError();
+  }
+
+  const { data, error } = await supabase
+    .from("month_budget")
+    .update({
+      closed_at: null,
+      closing_balance: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", budget.id)
+    .select(MONTH_BUDGET_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error("Error reopening month budget:", { userId, yearMonth, error });
+    throw new Error("Failed to reopen month budget");
+  }
+
+  return withCarriedOver(supabase, userId, data as MonthBudgetDTO);
+}
+
 /**
  * Creates or updates a monthly budget for a user with UPSERT semantics.
- * Recalculates current_balance based on budget_set and total expenses for the month.
+ * Materializes the month's recurring expenses first, then recalculates current_balance
+ * based on budget_set and total expenses for the month.
+ * A new budget inherits rollover_enabled from the previous month unless the command sets it.
  *
  * @param supabase - The Supabase client instance
  * @param userId - The authenticated user's ID
  * @param yearMonth - The year-month string in YYYY-MM format
- * @param command - The budget data containing budget_set
- * @returns Object containing the budget item and a flag indicating if it was created
+ * @param command - The budget data containing budget_set and optional rollover_enabled
+ * @returns Object containing the budget item (with carried_over) and a flag indicating if it was created
+ * @throws Error if the new budget_set is below the month's category allocations ("Validation failed")
  * @throws Error if the database operation fails
  */
 export async function upsertMonthBudget(
@@ -166,8 +499,11 @@ export async function upsertMonthBudget(
   userId: string,
   yearMonth: string,
   command: UpsertBudgetCommand
-): Promise<{ item: MonthBudgetDTO; created: boolean }> {
+): Promise<{ item: MonthBudgetDetailsDTO; created: boolean }> {
   try {
+    // Step 0: Fill in the month's recurring expenses so they count towards the balance
+    await materializeRecurringExpenses(supabase, userId, yearMonth);
+
     // Step 1: Get total expenses for the month
     const totalExpenses = await getTotalExpensesForMonth(supabase, userId, yearMonth);
 
@@ -184,24 +520,36 @@ export async function upsertMonthBudget(
         .update({
           budget_set: command.budget_set,
           current_balance: currentBalance,
+          ...(command.rollover_enabled !== undefined && { rollover_enabled: command.rollover_enabled }),
           updated_at: new Date().toISOString(),
         })
-        .eq("user_id", userId)
         .eq("year_month", yearMonth)
         .is("deleted_at", null)
-        .select("id, year_month, budget_set, current_balance, created_at, updated_at")
+        .select(MONTH_BUDGET_COLUMNS)
         .single();
 
       if (error) {
         console.error("Error updating month budget:", { userId, yearMonth, error });
+
+        if (error.code === "23514") {
+          // Raised by check_month_budget_allocations()
+          throw new Error("Validation failed: Budget cannot be lower than its category allocations");
+        }
+
         throw new Error("Failed to upsert month budget");
       }
 
       return {
-        item: data as MonthBudgetDTO,
+        item: await withCarriedOver(supabase, userId, data as MonthBudgetDTO),
         created: false,
       };
     } else {
+      // New budgets keep the rollover mode of the previous month unless it is given explicitly
+      const rolloverEnabled =
+        command.rollover_enabled ??
+        (await getBudgetByYearMonth(supabase, userId, getPreviousYearMonth(yearMonth)))?.rollover_enabled ??
+        false;
+
       // Insert new budget
       const { data, error } = await supabase
         .from("month_budget")
@@ -210,8 +558,9 @@ export async function upsertMonthBudget(
           year_month: yearMonth,
           budget_set: command.budget_set,
           current_balance: currentBalance,
+          rollover_enabled: rolloverEnabled,
         })
-        .select("id, year_month, budget_set, current_balance, created_at, updated_at")
+        .select(MONTH_BUDGET_COLUMNS)
         .single();
 
       if (error) {
@@ -224,21 +573,26 @@ export async function upsertMonthBudget(
             .update({
               budget_set: command.budget_set,
               current_balance: currentBalance,
+              ...(command.rollover_enabled !== undefined && { rollover_enabled: command.rollover_enabled }),
               updated_at: new Date().toISOString(),
             })
-            .eq("user_id", userId)
             .eq("year_month", yearMonth)
             .is("deleted_at", null)
-            .select("id, year_month, budget_set, current_balance, created_at, updated_at")
+            .select(MONTH_BUDGET_COLUMNS)
             .single();
 
           if (retryError) {
             console.error("Error on retry update:", { userId, yearMonth, retryError });
+
+            if (retryError.code === "23514") {
+              throw new Error("Validation failed: Budget cannot be lower than its category allocations");
+            }
+
             throw new Error("Failed to upsert month budget");
           }
 
           return {
-            item: retryData as MonthBudgetDTO,
+            item: await withCarriedOver(supabase, userId, retryData as MonthBudgetDTO),
             created: false,
           };
         }
@@ -248,15 +602,182 @@ export async function upsertMonthBudget(
       }
 
       return {
-        item: data as MonthBudgetDTO,
+        item: await withCarriedOver(supabase, userId, data as MonthBudgetDTO),
         created: true,
       };
     }
   } catch (e) {
-    if (e instanceof Error && e.message === "Failed to upsert month budget") {
+    if (
+      e instanceof Error &&
+      (e.message === "Failed to upsert month budget" || e.message.startsWith("Validation failed"))
+    ) {
       throw e;
     }
     console.error("Unexpected error in upsertMonthBudget:", { userId, yearMonth, error: e });
     throw new Error("Failed to upsert month budget");
   }
 }
+
+/**
+ * Copies a month's budget to another month: budget_set, rollover mode and category allocations.
+ * An existing budget in the target month is overwritten (its allocations are replaced);
+ * the whole copy runs in the apply_month_budget database function.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param yearMonth - The target year-month string in YYYY-MM format
+ * @param sourceYearMonth - The year-month to copy from
+ * @returns Object containing the target budget (with carried_over) and a flag indicating if it was created
+ * @throws MonthBudgetNotFoundError if the source month has no budget
+ * @throws CategoryNotFoundError if a copied category is no longer available
+ * @throws Error if a database operation fails
+ */
+export async function copyMonthBudget(
+  supabase: SupabaseClient,
+  userId: string,
+  yearMonth: string,
+  sourceYearMonth: string
+): Promise<{ item: MonthBudgetDetailsDTO; created: boolean }> {
+  const source = await getBudgetByYearMonth(supabase, userId, sourceYearMonth);
+
+  if (!source) {
+    throw new MonthBudgetNotFoundError(`No budget found for ${sourceYearMonth}`);
+  }
+
+  const { data: allocations, error: allocationsError } = await supabase
+    .from("month_budget_categories")
+    .select("category_id, amount")
+    .eq("month_budget_id", source.id);
+
+  if (allocationsError) {
+    console.error("Error fetching allocations to copy:", { userId, sourceYearMonth, error: allocationsError });
+    throw new Error("Failed to copy month budget");
+  }
+
+  // Fill in the target month's recurring expenses so they count towards the balance
+  await materializeRecurringExpenses(supabase, userId, yearMonth);
+
+  const { data: created, error } = await supabase.rpc("apply_month_budget", {
+    target_year_month: yearMonth,
+    new_budget_set: source.budget_set,
+    new_rollover_enabled: source.rollover_enabled,
+    allocations: allocations || [],
+  });
+
+  if (error) {
+    console.error("Error copying month budget:", { userId, yearMonth, sourceYearMonth, error });
+
+    if (error.code === "23503") {
+      throw new CategoryNotFoundError("One or more categories do not exist");
+    }
+
+    throw new Error("Failed to copy month budget");
+  }
+
+  const item = await getMonthBudgetDetails(supabase, userId, yearMonth);
+
+  if (!item) {
+    throw new Error("Failed to copy month budget");
+  }
+
+  return { item, created: !!created };
+}
+
+/**
+ * Retrieves the per-category breakdown of a month's budget: the allocation of every
+ * category next to what was spent on it, plus spending in categories without an allocation.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param yearMonth - The year-month string in YYYY-MM format
+ * @returns The breakdown with allocated, unallocated and spent totals
+ * @throws MonthBudgetNotFoundError if no budget is set for the month
+ * @throws Error if a database query fails
+ */
+export async function getMonthBudgetCategories(
+  supabase: SupabaseClient,
+  userId: string,
+  yearMonth: string
+): Promise<MonthBudgetCategoriesDTO> {
+  const budget = await getBudgetByYearMonth(supabase, userId, yearMonth);
+
+  if (!budget) {
+    throw new MonthBudgetNotFoundError();
+  }
+
+  const [allocationsResult, categoryTotals, categories] = await Promise.all([
+    supabase.from("month_budget_categories").select("category_id, amount").eq("month_budget_id", budget.id),
+    getCategoryTotals(supabase, userId, yearMonth),
+    listExpenseCategories(supabase, userId),
+  ]);
+
+  if (allocationsResult.error) {
+    console.error("Error fetching month budget categories:", { userId, yearMonth, error: allocationsResult.error });
+    throw new Error("Failed to fetch month budget categories");
+  }
+
+  return buildMonthBudgetCategoryBreakdown(budget, allocationsResult.data || [], categoryTotals, categories);
+}
+
+/**
+ * Replaces the per-category allocations of a month's budget.
+ * The list is saved atomically by the set_month_budget_categories database function;
+ * its total may not exceed budget_set. current_balance is not affected - it stays
+ * budget_set minus all of the month's expenses.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param yearMonth - The year-month string in YYYY-MM format
+ * @param command - The complete list of allocations (empty removes all)
+ * @returns The updated breakdown
+ * @throws MonthBudgetNotFoundError if no budget is set for the month
+ * @throws CategoryNotFoundError if a category does not exist or isn't available to the user
+ * @throws Error if allocations exceed the budget ("Validation failed") or the database operation fails
+ */
+export async function setMonthBudgetCategories(
+  supabase: SupabaseClient,
+  userId: string,
+  yearMonth: string,
+  command: SetMonthBudgetCategoriesCommand
+): Promise<MonthBudgetCategoriesDTO> {
+  const budget = await getBudgetByYearMonth(supabase, userId, yearMonth);
+
+  if (!budget) {
+    throw new MonthBudgetNotFoundError();
+  }
+
+  const allocatedTotal = command.categories.reduce((sum, allocation) => sum + allocation.amount, 0);
+
+  if (Math.round(allocatedTotal * 100) > Math.round(Number(budget.budget_set) * 100)) {
+    throw new Error(
+      `Validation failed: Category allocations (${allocatedTotal.toFixed(2)}) exceed the month budget (${Number(budget.budget_set).toFixed(2)})`
+    );
+  }
+
+  const { error } = await supabase.rpc("set_month_budget_categories", {
+    target_month_budget_id: budget.id,
+    allocations: command.categories,
+  });
+
+  if (error) {
+    console.error("Error setting month budget categories:", { userId, yearMonth, error });
+
+    if (error.code === "23503") {
+      // Foreign key violation or category owned by another user
+      throw new CategoryNotFoundError("One or more categories do not exist");
+    }
+
+    if (error.code === "23514") {
+      // Total over budget_set (budget changed concurrently)
+      throw new Error("Validation failed: Category allocations exceed the month budget");
+    }
+
+    if (error.message?.includes("Month budget not found")) {
+      throw new MonthBudgetNotFoundError();
+    }
+
+    throw new Error("Failed to set month budget categories");
+  }
+
+  return getMonthBudgetCategories(supabase, userId, yearMonth);
+}
@@ -1,19 +1,43 @@
 import type { SupabaseClient } from "@/db/supabase.client";
-import type { DashboardStashSummary, DashboardBudgetSummary, DashboardData } from "@/types";
+import type {
+  DashboardStashSummary,
+  DashboardBudgetSummary,
+  DashboardGoalsSummary,
+  DashboardStashGoal,
+  DashboardData,
+  StashListItemDTO,
+} from "@/types";
+import { computeStashGoalProgress } from "@/lib/stash-goal";
+import { resolveBalanceHistoryRange } from "@/lib/balance-history";
+import { DEFAULT_CURRENCY, roundStashAmount } from "@/lib/currency";
+import type { CurrencyConverter } from "@/lib/currency";
+import { getCarriedOver, getTotalExpensesForMonth } from "./budget.service";
+import { getNetWorthHistory } from "./stash.service";
+import { getCurrencyConverter } from "./exchange-rate.service";
+import { getTagTotals } from "./report.service";
 
 /**
  * Retrieves a summary of all stashes for the dashboard.
- * Returns total count, total balance, and list of stashes.
+ * Returns total count, total balance converted into the base currency, and list of stashes.
  *
  * @param supabase - The Supabase client instance
  * @param userId - The authenticated user's ID
+ * @param baseCurrency - The currency balances are converted into
+ * @param convert - Converter into the base currency
  * @returns Dashboard stash summary
  * @throws Error if the database query fails
  */
-async function getStashesSummary(supabase: SupabaseClient, userId: string): Promise<DashboardStashSummary> {
+async function getStashesSummary(
+  supabase: SupabaseClient,
+  userId: string,
+  baseCurrency: string,
+  convert: CurrencyConverter
+): Promise<DashboardStashSummary> {
   const { data, error } = await supabase
     .from("stashes")
-    .select("id, name, current_balance, created_at, updated_at")
+    .select(
+      "id, name, currency, current_balance, goal_amount, goal_date, shared_with_household, created_at, updated_at"
+    )
     .eq("user_id", userId)
     .is("deleted_at", null)
     .order("created_at", { ascending: false });
@@ -23,19 +47,73 @@ async function getStashesSummary(supabase: SupabaseClient, userId: string): Prom
     throw new Error("Failed to fetch stashes summary");
   }
 
-  const stashes = data || [];
-  const totalBalance = stashes.reduce((sum, stash) => sum + Number(stash.current_balance), 0);
+  const stashes: StashListItemDTO[] = (data || []).map((stash) => ({
+    ...stash,
+    base_currency: baseCurrency,
+    converted_balance: convert(Number(stash.current_balance), stash.currency),
+  }));
+
+  const totalBalance = stashes.reduce((sum, stash) => sum + (stash.converted_balance ?? 0), 0);
+  const missingRates = [
+    ...new Set(stashes.filter((stash) => stash.converted_balance === null).map((stash) => stash.currency)),
+  ].sort();
 
   return {
+    baseCurrency,
     totalStashes: stashes.length,
-    totalBalance,
+    totalBalance: roundStashAmount(totalBalance),
+    missingRates,
     stashes,
   };
 }
 
+/**
+ * Summarizes the savings goals of the given stashes.
+ * Goals are ordered by target date (nearest first); goals without a date come last.
+ * Totals are converted into the base currency; goals in a currency without a known rate are left out of them.
+ *
+ * @param stashes - The user's active stashes
+ * @param convert - Converter into the base currency
+ * @returns Dashboard goals summary
+ */
+function getGoalsSummary(stashes: StashListItemDTO[], convert: CurrencyConverter): DashboardGoalsSummary {
+  const goals: DashboardStashGoal[] = [];
+
+  for (const stash of stashes) {
+    const progress = computeStashGoalProgress(stash);
+    if (progress) {
+      goals.push({
+        stashId: stash.id,
+        name: stash.name,
+        currency: stash.currency,
+        currentBalance: Number(stash.current_balance),
+        ...progress,
+      });
+    }
+  }
+
+  const sumConverted = (pick: (goal: DashboardStashGoal) => number) =>
+    roundStashAmount(goals.reduce((sum, goal) => sum + (convert(pick(goal), goal.currency) ?? 0), 0));
+
+  goals.sort((a, b) => {
+    if (a.goalDate === b.goalDate) return a.name.localeCompare(b.name);
+    if (!a.goalDate) return 1;
+    if (!b.goalDate) return -1;
+    return a.goalDate.localeCompare(b.goalDate);
+  });
+
+  return {
+    totalGoalAmount: sumConverted((goal) => goal.goalAmount),
+    totalSaved: sumConverted((goal) => Math.min(goal.currentBalance, goal.goalAmount)),
+    totalMonthlyNeeded: sumConverted((goal) => goal.monthlyNeeded ?? 0),
+    goals,
+  };
+}
+
 /**
  * Retrieves the budget summary for the current month.
  * Returns budget info and total expenses even if no budget is set.
+ * carriedOver is the amount rolled over from the previous month (0 unless rollover is enabled).
  *
  * @param supabase - The Supabase client instance
  * @param userId - The authenticated user's ID
@@ -51,8 +129,7 @@ async function getBudgetSummary(
   // Fetch budget for the specified month
   const { data: budget, error: budgetError } = await supabase
     .from("month_budget")
-    .select("id, year_month, budget_set, current_balance, created_at, updated_at")
-    .eq("user_id", userId)
+    .select("id, year_month, budget_set, current_balance, rollover_enabled, created_at, updated_at")
     .eq("year_month", yearMonth)
     .is("deleted_at", null)
     .maybeSingle();
@@ -62,55 +139,54 @@ async function getBudgetSummary(
     throw new Error("Failed to fetch budget summary");
   }
 
-  // Fetch total expenses for the month
-  const { data: expenses, error: expensesError } = await supabase
-    .from("expenses")
-    .select("amount")
-    .eq("user_id", userId)
-    .eq("year_month", yearMonth)
-    .is("deleted_at", null);
-
-  if (expensesError) {
-    console.error("Error fetching expenses for budget summary:", expensesError);
-    throw new Error("Failed to fetch expenses summary");
-  }
-
-  const totalExpenses = expenses?.reduce((sum, expense) => sum + Number(expense.amount), 0) || 0;
+  // Fetch total expenses for the month (summed by the database)
+  const totalExpenses = await getTotalExpensesForMonth(supabase, userId, yearMonth);
+  const carriedOver = budget ? await getCarriedOver(supabase, userId, budget) : null;
 
   return {
     yearMonth,
     budgetSet: budget?.budget_set ?? null,
     totalExpenses,
     currentBalance: budget?.current_balance ?? null,
+    carriedOver,
     hasNoBudget: !budget,
   };
 }
 
 /**
- * Retrieves complete dashboard data including stashes and budget summaries.
+ * Retrieves complete dashboard data including stashes, savings goals and budget summaries,
+ * plus the monthly net worth (total of all stashes) over the last 12 months and the spending per tag.
  *
  * @param supabase - The Supabase client instance
  * @param userId - The authenticated user's ID
  * @param yearMonth - Optional year-month string (defaults to current month)
+ * @param baseCurrency - Currency stash totals are converted into (defaults to PLN)
  * @returns Complete dashboard data
  * @throws Error if any database query fails
  */
 export async function getDashboardData(
   supabase: SupabaseClient,
   userId: string,
-  yearMonth?: string
+  yearMonth?: string,
+  baseCurrency: string = DEFAULT_CURRENCY
 ): Promise<DashboardData> {
   // Use current month if not specified
   const targetYearMonth = yearMonth || new Date().toISOString().slice(0, 7);
+  const convert = await getCurrencyConverter(supabase, userId, baseCurrency);
 
-  // Fetch both summaries in parallel
-  const [stashes, budget] = await Promise.all([
-    getStashesSummary(supabase, userId),
+  // Fetch the summaries and the net worth series in parallel
+  const [stashes, budget, netWorth, tags] = await Promise.all([
+    getStashesSummary(supabase, userId, baseCurrency, convert),
     getBudgetSummary(supabase, userId, targetYearMonth),
+    getNetWorthHistory(supabase, userId, resolveBalanceHistoryRange({ interval: "month" }), baseCurrency),
+    getTagTotals(supabase, userId, targetYearMonth, targetYearMonth),
   ]);
 
   return {
     stashes,
     budget,
+    goals: getGoalsSummary(stashes.stashes, convert),
+    netWorth,
+    tags,
   };
 }
@@ -0,0 +1,151 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type { CreateExchangeRateCommand, ExchangeRateDTO } from "@/types";
+import { createCurrencyConverter } from "@/lib/currency";
+import type { CurrencyConverter } from "@/lib/currency";
+
+/**
+ * Columns returned for exchange rates (everything except user_id)
+ */
+const EXCHANGE_RATE_COLUMNS = "id, from_currency, to_currency, rate, rate_date, created_at, updated_at";
+
+/**
+ * Custom error class for exchange rate not found
+ */
+export class ExchangeRateNotFoundError extends Error {
+  constructor(message = "Exchange rate not found") {
+    super(message);
+    this.name = "ExchangeRateNotFoundError";
+  }
+}
+
+/**
+ * Retrieves all exchange rates of a user.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @returns Rates ordered by pair, most recent first within a pair
+ * @throws Error if the database query fails
+ */
+export async function listExchangeRates(supabase: SupabaseClient, userId: string): Promise<ExchangeRateDTO[]> {
+  const { data, error } = await supabase
+    .from("exchange_rates")
+    .select(EXCHANGE_RATE_COLUMNS)
+    .eq("user_id", userId)
+    .order("from_currency", { ascending: true })
+    .order("to_currency", { ascending: true })
+    .order("rate_date", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching exchange rates:", error);
+    throw new Error("Failed to fetch exchange rates");
+  }
+
+  return data || [];
+}
+
+/**
+ * Saves exchange rates in one statement. A rate for a pair and day that already
+ * exists is replaced, so re-importing the same file is harmless.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param commands - The rates to save; rate_date defaults to today
+ * @returns The saved rates
+ * @throws Error if the database operation fails
+ */
+export async function saveExchangeRates(
+  supabase: SupabaseClient,
+  userId: string,
+  commands: CreateExchangeRateCommand[]
+): Promise<ExchangeRateDTO[]> {
+  const today = new Date().toISOString().split("T")[0];
+
+  // Later rows win when a file lists the same pair and day twice
+  const byKey = new Map<string, CreateExchangeRateCommand & { rate_date: string }>();
+  for (const command of commands) {
+    const rateDate = command.rate_date ?? today;
+    byKey.set(`${command.from_currency}:${command.to_currency}:${rateDate}`, { ...command, rate_date: rateDate });
+  }
+
+  const { data, error } = await supabase
+    .from("exchange_rates")
+    .upsert(
+      [...byKey.values()].map((command) => ({
+        user_id: userId,
+        from_currency: command.from_currency,
+        to_currency: command.to_currency,
+        rate: command.rate,
+        rate_date: command.rate_date,
+      })),
+      { onConflict: "user_id,from_currency,to_currency,rate_date" }
+    )
+    .select(EXCHANGE_RATE_COLUMNS);
+
+  if (error) {
+    console.error("Error saving exchange rates:", error);
+
+    // 23514: Check constraint violation (rate must be positive, currencies must differ)
+    if (error.code === "23514") {
+      throw new Error("Validation failed: " + error.message);
+    }
+
+    throw new Error("Failed to save exchange rates");
+  }
+
+  return data || [];
+}
+
+/**
+ * Deletes one of the user's exchange rates.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param rateId - The unique identifier of the rate
+ * @throws ExchangeRateNotFoundError if the rate is not found or doesn't belong to the user
+ * @throws Error if the database operation fails
+ */
+export async function deleteExchangeRate(supabase: SupabaseClient, userId: string, rateId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from("exchange_rates")
+    .delete()
+    .eq("id", rateId)
+    .eq("user_id", userId)
+    .select("id");
+
+  if (error) {
+    console.error("Error deleting exchange rate:", error);
+    throw new Error("Failed to delete exchange rate");
+  }
+
+  if (!data || data.length === 0) {
+    throw new ExchangeRateNotFoundError();
+  }
+}
+
+/**
+ * Loads the user's exchange rates and builds a converter into the base currency.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param baseCurrency - The currency amounts are converted into
+ * @returns A converter returning null for currencies without a known rate
+ * @throws Error if the database query fails
+ */
+export async function getCurrencyConverter(
+  supabase: SupabaseClient,
+  userId: string,
+  baseCurrency: string
+): Promise<CurrencyConverter> {
+  const { data, error } = await supabase
+    .from("exchange_rates")
+    .select("from_currency, to_currency, rate, rate_date")
+    .eq("user_id", userId)
+    .or(`from_currency.eq.${baseCurrency},to_currency.eq.${baseCurrency}`);
+
+  if (error) {
+    console.error("Error fetching exchange rates for conversion:", error);
+    throw new Error("Failed to fetch exchange rates");
+  }
+
+  return createCurrencyConverter(data || [], baseCurrency);
+}
@@ -1,18 +1,82 @@
 import type { SupabaseClient } from "@/db/supabase.client";
-import type { ExpenseCategoryDTO } from "@/types";
+import type {
+  CreateExpenseCategoryCommand,
+  ExpenseCategoryDTO,
+  MergeExpenseCategoriesResultDTO,
+  UpdateExpenseCategoryCommand,
+} from "@/types";
 
 /**
- * Retrieves all expense categories.
- * Categories are system-wide and available to all users.
+ * Custom error class for expense category not found
+ */
+export class ExpenseCategoryNotFoundError extends Error {
+  constructor(message = "Expense category not found") {
+    super(message);
+    this.name = "ExpenseCategoryNotFoundError";
+  }
+}
+
+/**
+ * Custom error class for attempts to modify a shared default category
+ */
+export class DefaultCategoryReadOnlyError extends Error {
+  constructor(message = "Default categories cannot be modified") {
+    super(message);
+    this.name = "DefaultCategoryReadOnlyError";
+  }
+}
+
+/**
+ * Custom error class for duplicate category names
+ */
+export class DuplicateCategoryError extends Error {
+  constructor(message = "A category with this name already exists") {
+    super(message);
+    this.name = "DuplicateCategoryError";
+  }
+}
+
+/**
+ * Custom error class for merging a category into itself
+ */
+export class InvalidCategoryMergeError extends Error {
+  constructor(message = "Cannot merge a category into itself") {
+    super(message);
+    this.name = "InvalidCategoryMergeError";
+  }
+}
+
+/**
+ * Builds a URL-friendly slug from a category name (diacritics are stripped).
+ */
+function slugifyCategoryName(name: string): string {
+  const slug = name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/ł/g, "l")
+    .replace(/Ł/g, "L")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+  return slug || "category";
+}
+
+/**
+ * Retrieves the expense categories visible to a user: the shared defaults plus the user's own.
+ * Archived categories are included so that old expenses can still show their label;
+ * pickers are expected to filter on archived_at.
  *
  * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
  * @returns Array of expense categories
  * @throws Error if the database query fails
  */
-export async function listExpenseCategories(supabase: SupabaseClient): Promise<ExpenseCategoryDTO[]> {
+export async function listExpenseCategories(supabase: SupabaseClient, userId: string): Promise<ExpenseCategoryDTO[]> {
   const { data, error } = await supabase
     .from("expense_categories")
     .select("*")
+    .or(`user_id.is.null,user_id.eq.${userId}`)
     .order("display_name", { ascending: true });
 
   if (error) {
@@ -22,3 +86,210 @@ export async function listExpenseCategories(supabase: SupabaseClient): Promise<E
 
   return data || [];
 }
+
+/**
+ * Resolves which of the given category IDs exist.
+ * Used to validate many rows at once without a lookup per row.
+ *
+ * @param supabase - The Supabase client instance
+ * @param categoryIds - Category IDs to look up (duplicates are ignored)
+ * @returns Set containing the IDs that exist
+ * @throws Error if the database query fails
+ */
+export async function getExistingCategoryIds(supabase: SupabaseClient, categoryIds: string[]): Promise<Set<string>> {
+  const uniqueIds = [...new Set(categoryIds)];
+
+  if (uniqueIds.length === 0) {
+    return new Set();
+  }
+
+  const { data, error } = await supabase.from("expense_categories").select("id").in("id", uniqueIds);
+
+  if (error) {
+    console.error("Error checking expense categories:", error);
+    throw new Error("Failed to check expense categories");
+  }
+
+  return new Set((data || []).map((category) => category.id));
+}
+
+/**
+ * Fetches a category visible to the user and ensures it's one of the user's own categories.
+ *
+ * @throws ExpenseCategoryNotFoundError if the category is not visible to the user
+ * @throws DefaultCategoryReadOnlyError if the category is a shared default
+ */
+async function getOwnCategory(
+  supabase: SupabaseClient,
+  userId: string,
+  categoryId: string
+): Promise<ExpenseCategoryDTO> {
+  const { data: category, error } = await supabase
+    .from("expense_categories")
+    .select("*")
+    .eq("id", categoryId)
+    .or(`user_id.is.null,user_id.eq.${userId}`)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching expense category:", error);
+    throw new Error("Failed to fetch expense category");
+  }
+
+  if (!category) {
+    throw new ExpenseCategoryNotFoundError();
+  }
+
+  if (category.user_id === null) {
+    throw new DefaultCategoryReadOnlyError();
+  }
+
+  return category;
+}
+
+/**
+ * Creates a new user-defined expense category.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param command - The category name and optional color
+ * @returns The newly created category
+ * @throws DuplicateCategoryError if the user already has an active category with this name
+ * @throws Error if the database operation fails
+ */
+export async function createExpenseCategory(
+  supabase: SupabaseClient,
+  userId: string,
+  command: CreateExpenseCategoryCommand
+): Promise<ExpenseCategoryDTO> {
+  const { data, error } = await supabase
+    .from("expense_categories")
+    .insert({
+      user_id: userId,
+      name: command.name,
+      display_name: command.name,
+      slug: slugifyCategoryName(command.name),
+      color: command.color ?? null,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    // Unique violation on (user_id, lower(name))
+    if (error.code === "23505") {
+      throw new DuplicateCategoryError();
+    }
+
+    console.error("Error creating expense category:", error);
+    throw new Error("Failed to create expense category");
+  }
+
+  return data;
+}
+
+/**
+ * Renames, recolors, archives or restores one of the user's expense categories.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param categoryId - The category to update
+ * @param command - Fields to change
+ * @returns The updated category
+ * @throws ExpenseCategoryNotFoundError if the category is not visible to the user
+ * @throws DefaultCategoryReadOnlyError if the category is a shared default
+ * @throws DuplicateCategoryError if the new name (or restoring) clashes with another active category
+ * @throws Error if the database operation fails
+ */
+export async function updateExpenseCategory(
+  supabase: SupabaseClient,
+  userId: string,
+  categoryId: string,
+  command: UpdateExpenseCategoryCommand
+): Promise<ExpenseCategoryDTO> {
+  const existing = await getOwnCategory(supabase, userId, categoryId);
+
+  const updates: Record<string, string | null> = {};
+
+  if (command.name !== undefined) {
+    updates.name = command.name;
+    updates.display_name = command.name;
+    updates.slug = slugifyCategoryName(command.name);
+  }
+
+  if (command.color !== undefined) {
+    updates.color = command.color;
+  }
+
+  if (command.archived !== undefined) {
+    // Keep the original archive date when archiving an already archived category
+    updates.archived_at = command.archived ? (existing.archived_at ?? new Date().toISOString()) : null;
+  }
+
+  const { data, error } = await supabase
+    .from("expense_categories")
+    .update(updates)
+    .eq("id", categoryId)
+    .eq("user_id", userId)
+    .select("*")
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      throw new DuplicateCategoryError();
+    }
+
+    console.error("Error updating expense category:", error);
+    throw new Error("Failed to update expense category");
+  }
+
+  return data;
+}
+
+/**
+ * Merges one of the user's categories into another category.
+ * All expenses in the user's budget scope (including other household members') are moved to the
+ * target and the source category is removed, atomically, by the merge_expense_categories database function.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param sourceCategoryId - The user's category to merge away
+ * @param targetCategoryId - The category that receives the expenses (own or default)
+ * @returns The target category ID and the number of moved expenses
+ * @throws InvalidCategoryMergeError if source and target are the same category
+ * @throws ExpenseCategoryNotFoundError if either category is not visible to the user
+ * @throws DefaultCategoryReadOnlyError if the source is a shared default
+ * @throws Error if the database operation fails
+ */
+export async function mergeExpenseCategories(
+  supabase: SupabaseClient,
+  userId: string,
+  sourceCategoryId: string,
+  targetCategoryId: string
+): Promise<MergeExpenseCategoriesResultDTO> {
+  if (sourceCategoryId === targetCategoryId) {
+    throw new InvalidCategoryMergeError();
+  }
+
+  await getOwnCategory(supabase, userId, sourceCategoryId);
+
+  const { data, error } = await supabase.rpc("merge_expense_categories", {
+    source_category_id: sourceCategoryId,
+    target_category_id: targetCategoryId,
+  });
+
+  if (error) {
+    if (error.code === "P0001" && error.message.includes("not found")) {
+      throw new ExpenseCategoryNotFoundError(
+        error.message.includes("Target") ? "Target category not found" : "Source category not found"
+      );
+    }
+
+    console.error("Error merging expense categories:", error);
+    throw new Error("Failed to merge expense categories");
+  }
+
+  return {
+    target_category_id: targetCategoryId,
+    moved_expenses: data ?? 0,
+  };
+}
@@ -5,7 +5,12 @@ import type {
   ApiPaginatedResponse,
   CreateExpenseCommand,
   UpdateExpenseCommand,
+  ExpenseSplitDTO,
+  BulkUpdateExpensesCommand,
+  BulkExpensesResultDTO,
+  BulkExpenseResultDTO,
 } from "@/types";
+import { listHouseholdMembers } from "./household.service";
 
 /**
  * Custom error thrown when a referenced expense category does not exist.
@@ -29,8 +34,154 @@ export class ExpenseNotFoundError extends Error {
   }
 }
 
+/**
+ * Columns returned for expenses, with the names of their tags, their split lines and who added them
+ */
+const EXPENSE_COLUMNS =
+  "id, category_id, amount, expense_date, year_month, description, recurring_expense_id, created_at, user_id, household_id, expense_tags(tags(name)), expense_splits(category_id, amount)";
+
+/**
+ * Expense row as selected with EXPENSE_COLUMNS
+ */
+type ExpenseRow = Omit<ExpenseListItemDTO, "tags" | "splits" | "added_by"> & {
+  user_id: string;
+  household_id: string | null;
+  expense_tags: { tags: { name: string } | null }[];
+  expense_splits: ExpenseSplitDTO[];
+};
+
+/**
+ * Looks up the e-mail addresses of the household members who added the given expenses.
+ * Personal expenses need no lookup, so the member list is only loaded for household expenses.
+ *
+ * @returns E-mail address by user ID
+ */
+async function getExpenseAuthors(supabase: SupabaseClient, rows: ExpenseRow[]): Promise<Map<string, string>> {
+  if (!rows.some((row) => row.household_id !== null)) {
+    return new Map();
+  }
+
+  const members = await listHouseholdMembers(supabase);
+  return new Map(members.map((member) => [member.user_id, member.email]));
+}
+
+/**
+ * Maps an expense row to the list item DTO, flattening the embedded tags into a sorted list of names
+ * and ordering split lines largest first.
+ * Columns are picked explicitly so helper embeds (like the tag filter) don't leak into responses.
+ */
+function toExpenseListItem(row: ExpenseRow, userId: string, authors: Map<string, string>): ExpenseListItemDTO {
+  return {
+    id: row.id,
+    category_id: row.category_id,
+    amount: row.amount,
+    expense_date: row.expense_date,
+    year_month: row.year_month,
+    description: row.description,
+    recurring_expense_id: row.recurring_expense_id,
+    created_at: row.created_at,
+    tags: row.expense_tags.flatMap((link) => (link.tags ? [link.tags.name] : [])).sort((a, b) => a.localeCompare(b)),
+    splits: row.expense_splits
+      .map((line) => ({ category_id: line.category_id, amount: line.amount }))
+      .sort((a, b) => b.amount - a.amount),
+    added_by: row.household_id
+      ? { email: authors.get(row.user_id) ?? null, is_current_user: row.user_id === userId }
+      : null,
+  };
+}
+
+/**
+ * Replaces the tags of an expense, creating tags that don't exist yet.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param expenseId - The ID of the expense to tag
+ * @param tags - The complete list of tag names (an empty list removes all tags)
+ * @returns The expense's tag names, normalized and sorted
+ * @throws ExpenseNotFoundError if the expense does not exist or doesn't belong to the user
+ * @throws Error if the database operation fails
+ */
+async function setExpenseTags(
+  supabase: SupabaseClient,
+  userId: string,
+  expenseId: string,
+  tags: string[]
+): Promise<string[]> {
+  const { data, error } = await supabase.rpc("set_expense_tags", {
+    target_expense_id: expenseId,
+    tag_names: tags,
+  });
+
+  if (error) {
+    console.error("setExpenseTags service error:", { userId, expenseId, error });
+
+    if (error.code === "P0001" && error.message === "Expense not found") {
+      throw new ExpenseNotFoundError(`Expense with ID ${expenseId} does not exist`);
+    }
+
+    throw new Error("Failed to update expense tags");
+  }
+
+  return data || [];
+}
+
+/**
+ * Replaces the split lines of an expense, atomically. Splitting clears the expense's own category.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param expenseId - The ID of the expense to split
+ * @param splits - The complete list of lines (an empty list removes the split)
+ * @returns The expense's split lines, largest first
+ * @throws ExpenseNotFoundError if the expense does not exist or doesn't belong to the user
+ * @throws CategoryNotFoundError if a line references a category that does not exist
+ * @throws Error with a "Validation failed" message if the lines don't add up to the expense amount
+ * @throws Error if the database operation fails
+ */
+async function setExpenseSplits(
+  supabase: SupabaseClient,
+  userId: string,
+  expenseId: string,
+  splits: ExpenseSplitDTO[]
+): Promise<ExpenseSplitDTO[]> {
+  const { error } = await supabase.rpc("set_expense_splits", {
+    target_expense_id: expenseId,
+    lines: splits,
+  });
+
+  if (error) {
+    console.error("setExpenseSplits service error:", { userId, expenseId, error });
+
+    if (error.code === "P0001") {
+      if (error.message === "Expense not found") {
+        throw new ExpenseNotFoundError(`Expense with ID ${expenseId} does not exist`);
+      }
+      // 'A split needs at least 2 lines', 'Split amounts must add up to the expense amount'
+      throw new Error(`Validation failed: ${error.message}`);
+    }
+
+    if (error.code === "23503") {
+      throw new CategoryNotFoundError("One or more split categories do not exist");
+    }
+
+    if (error.code === "23505") {
+      throw new Error("Validation failed: Each category can appear only once in a split");
+    }
+
+    if (error.code === "23514") {
+      throw new Error("Validation failed: Amount must be greater than 0");
+    }
+
+    throw new Error("Failed to update expense splits");
+  }
+
+  return [...splits].sort((a, b) => b.amount - a.amount);
+}
+
 /**
  * Retrieves a paginated and filterable list of expenses for a user.
+ * RLS limits the rows to the user's budget scope: their household's expenses, or their own
+ * when they are not in a household.
  *
  * @param supabase - The Supabase client instance
  * @param userId - The authenticated user's ID
@@ -43,16 +194,21 @@ export async function listExpenses(
   userId: string,
   query: ListExpensesQuery
 ): Promise<ApiPaginatedResponse<ExpenseListItemDTO>> {
-  const { page, limit, from, to, categoryId, yearMonth, search, sort, order } = query;
+  const { page, limit, from, to, categoryId, yearMonth, search, tags, sort, order } = query;
 
   // Calculate offset for pagination
   const offset = (page - 1) * limit;
 
+  // The tag filter needs a second, inner-joined embed so that filtering on it
+  // doesn't also hide the expense's other tags
+  const columns = tags ? `${EXPENSE_COLUMNS}, tag_filter:expense_tags!inner(tags!inner(name))` : EXPENSE_COLUMNS;
+
   // Build the base query with required filters
   let queryBuilder = supabase
     .from("expenses")
-    .select("id, category_id, amount, expense_date, year_month, description, created_at", { count: "exact" })
-    .eq("user_id", userId)
+    .select(columns, {
+      count: "exact",
+    })
     .is("deleted_at", null);
 
   // Apply optional filters
@@ -60,6 +216,11 @@ export async function listExpenses(
     queryBuilder = queryBuilder.eq("category_id", categoryId);
   }
 
+  // Match expenses with any of the given tags
+  if (tags) {
+    queryBuilder = queryBuilder.in("tag_filter.tags.name", tags);
+  }
+
   // Apply date filtering (mutually exclusive with yearMonth)
   if (yearMonth) {
     queryBuilder = queryBuilder.eq("year_month", yearMonth);
@@ -94,9 +255,12 @@ export async function listExpenses(
     throw new Error("Failed to fetch expenses");
   }
 
+  const rows = (data || []) as unknown as ExpenseRow[];
+  const authors = await getExpenseAuthors(supabase, rows);
+
   // Return formatted response
   return {
-    data: data || [],
+    data: rows.map((row) => toExpenseListItem(row, userId, authors)),
     pagination: {
       page,
       limit,
@@ -110,7 +274,7 @@ export async function listExpenses(
  *
  * @param supabase - The Supabase client instance
  * @param userId - The authenticated user's ID
- * @param command - The expense creation command containing amount, expense_date, description, and optional category_id
+ * @param command - The expense creation command containing amount, expense_date, description, and optional category_id, tags and splits
  * @returns The newly created expense
  * @throws CategoryNotFoundError if the specified category does not exist (when category_id is provided)
  * @throws Error if the database operation fails or validation constraints are violated
@@ -147,7 +311,7 @@ export async function createExpense(
       expense_date: command.expense_date,
       description: command.description,
     })
-    .select("id, category_id, amount, expense_date, year_month, description, created_at")
+    .select(EXPENSE_COLUMNS)
     .single();
 
   if (error) {
@@ -172,12 +336,26 @@ export async function createExpense(
     throw new Error("Failed to create expense: No data returned");
   }
 
-  return data;
+  const expense = toExpenseListItem(data, userId, await getExpenseAuthors(supabase, [data]));
+
+  if (command.tags && command.tags.length > 0) {
+    expense.tags = await setExpenseTags(supabase, userId, expense.id, command.tags);
+  }
+
+  if (command.splits && command.splits.length > 0) {
+    expense.splits = await setExpenseSplits(supabase, userId, expense.id, command.splits);
+    expense.category_id = null;
+  }
+
+  return expense;
 }
 
 /**
  * Updates an existing expense for a user.
- * Allows partial updates of category_id, amount, expense_date, and description.
+ * Allows partial updates of category_id, amount, expense_date, and description;
+ * tags and splits, when given, replace the expense's tags and split lines.
+ * A new amount rescales existing split lines and a new category removes them (done by the database);
+ * a split rescaled down to a single line becomes a regular expense in that line's category.
  *
  * @param supabase - The Supabase client instance
  * @param userId - The authenticated user's ID
@@ -227,15 +405,17 @@ export async function updateExpense(
     updates.description = command.description;
   }
 
-  // Update the expense
-  const { data, error } = await supabase
-    .from("expenses")
-    .update(updates)
-    .eq("id", expenseId)
-    .eq("user_id", userId)
-    .is("deleted_at", null)
-    .select("id, category_id, amount, expense_date, year_month, description, created_at")
-    .single();
+  // Update the expense (or only read it when just the tags change, as they are stored separately)
+  const { data, error } =
+    Object.keys(updates).length > 0
+      ? await supabase
+          .from("expenses")
+          .update(updates)
+          .eq("id", expenseId)
+          .is("deleted_at", null)
+          .select(EXPENSE_COLUMNS)
+          .single()
+      : await supabase.from("expenses").select(EXPENSE_COLUMNS).eq("id", expenseId).is("deleted_at", null).single();
 
   if (error) {
     console.error("updateExpense service error:", error);
@@ -263,7 +443,51 @@ export async function updateExpense(
     throw new ExpenseNotFoundError(`Expense with ID ${expenseId} does not exist`);
   }
 
-  return data;
+  const expense = toExpenseListItem(data, userId, await getExpenseAuthors(supabase, [data]));
+
+  if (command.tags !== undefined) {
+    expense.tags = await setExpenseTags(supabase, userId, expenseId, command.tags);
+  }
+
+  // Lines are checked against the amount saved above
+  if (command.splits !== undefined) {
+    expense.splits = await setExpenseSplits(supabase, userId, expenseId, command.splits);
+    if (expense.splits.length > 0) {
+      expense.category_id = null;
+    }
+  } else if (expense.splits.length > 0 && (command.category_id || command.amount !== undefined)) {
+    // The update's own result predates the trigger that removed or rescaled the lines
+    const { data: splits, error: splitsError } = await supabase
+      .from("expense_splits")
+      .select("category_id, amount")
+      .eq("expense_id", expenseId)
+      .order("amount", { ascending: false });
+
+    if (splitsError) {
+      console.error("updateExpense service error: Failed to reload splits", { expenseId, error: splitsError });
+      throw new Error("Failed to update expense");
+    }
+
+    expense.splits = splits || [];
+
+    // A split rescaled down to a single line became a regular expense in that line's category
+    if (expense.splits.length === 0 && !command.category_id) {
+      const { data: collapsed, error: collapsedError } = await supabase
+        .from("expenses")
+        .select("category_id")
+        .eq("id", expenseId)
+        .single();
+
+      if (collapsedError) {
+        console.error("updateExpense service error: Failed to reload category", { expenseId, error: collapsedError });
+        throw new Error("Failed to update expense");
+      }
+
+      expense.category_id = collapsed.category_id;
+    }
+  }
+
+  return expense;
 }
 
 /**
@@ -282,7 +506,6 @@ export async function softDeleteExpense(supabase: SupabaseClient, userId: string
     .from("expenses")
     .update({ deleted_at: new Date().toISOString() })
     .eq("id", expenseId)
-    .eq("user_id", userId)
     .is("deleted_at", null)
     .select("id")
     .single();
@@ -307,3 +530,195 @@ export async function softDeleteExpense(supabase: SupabaseClient, userId: string
     throw new ExpenseNotFoundError();
   }
 }
+
+/**
+ * Restores a soft-deleted expense of a user by clearing its deleted_at timestamp.
+ * The database trigger will automatically recalculate the month_budget.current_balance.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param expenseId - The ID of the expense to restore
+ * @returns Promise that resolves when the expense is restored
+ * @throws ExpenseNotFoundError if the expense does not exist, doesn't belong to the user, or is not deleted
+ * @throws Error if the database operation fails
+ */
+export async function restoreExpense(supabase: SupabaseClient, userId: string, expenseId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from("expenses")
+    .update({ deleted_at: null })
+    .eq("id", expenseId)
+    .not("deleted_at", "is", null)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    console.error("restoreExpense service error:", {
+      userId,
+      expenseId,
+      code: error.code,
+      message: error.message,
+    });
+
+    throw new Error("Failed to restore expense");
+  }
+
+  if (!data) {
+    throw new ExpenseNotFoundError();
+  }
+}
+
+/**
+ * Summarizes the per-ID rows returned by the bulk_* database functions.
+ */
+function toBulkResult(rows: { expense_id: string; status: string }[]): BulkExpensesResultDTO {
+  const results = rows.map((row) => ({
+    id: row.expense_id,
+    status: row.status as BulkExpenseResultDTO["status"],
+  }));
+  const notFound = results.filter((result) => result.status === "not_found").length;
+
+  return {
+    total: results.length,
+    succeeded: results.length - notFound,
+    not_found: notFound,
+    results,
+  };
+}
+
+/**
+ * Sets the category and/or date of many expenses in one transaction.
+ * Expenses that don't exist, are deleted or belong to someone else are reported as not found
+ * and don't stop the others from being changed.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param command - The expense IDs and the category_id (null to uncategorize) and/or expense_date to set
+ * @returns One result per ID, in request order
+ * @throws CategoryNotFoundError if the category does not exist
+ * @throws Error with a "Validation failed" message if a recurring expense would occur twice in a month
+ * @throws Error if the database operation fails
+ */
+export async function bulkUpdateExpenses(
+  supabase: SupabaseClient,
+  userId: string,
+  command: BulkUpdateExpensesCommand
+): Promise<BulkExpensesResultDTO> {
+  const { data, error } = await supabase.rpc("bulk_update_expenses", {
+    expense_ids: command.ids,
+    update_category: command.category_id !== undefined,
+    new_category_id: command.category_id ?? null,
+    new_expense_date: command.expense_date ?? null,
+  });
+
+  if (error) {
+    console.error("bulkUpdateExpenses service error:", { userId, count: command.ids.length, error });
+
+    if (error.code === "23503") {
+      throw new CategoryNotFoundError(`Category with ID ${command.category_id} does not exist`);
+    }
+
+    if (error.code === "23505") {
+      throw new Error("Validation failed: A recurring expense can only occur once per month");
+    }
+
+    throw new Error("Failed to update expenses");
+  }
+
+  return toBulkResult(data || []);
+}
+
+/**
+ * Soft-deletes many expenses in one transaction.
+ * Expenses that don't exist, are already deleted or belong to someone else are reported as not found.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param ids - The IDs of the expenses to delete
+ * @returns One result per ID, in request order
+ * @throws Error if the database operation fails
+ */
+export async function bulkSoftDeleteExpenses(
+  supabase: SupabaseClient,
+  userId: string,
+  ids: string[]
+): Promise<BulkExpensesResultDTO> {
+  const { data, error } = await supabase.rpc("bulk_soft_delete_expenses", { expense_ids: ids });
+
+  if (error) {
+    console.error("bulkSoftDeleteExpenses service error:", { userId, count: ids.length, error });
+    throw new Error("Failed to delete expenses");
+  }
+
+  return toBulkResult(data || []);
+}
+
+/**
+ * Creates many expenses for a user with a single insert statement.
+ * The row-level month_budget trigger still fires for every inserted expense,
+ * so the balance of each affected month is recalculated.
+ *
+ * Callers are expected to validate the commands (including category existence) beforehand.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param commands - The expenses to create
+ * @returns The newly created expenses
+ * @throws CategoryNotFoundError if one of the referenced categories does not exist
+ * @throws Error if the database operation fails or validation constraints are violated
+ */
+export async function bulkCreateExpenses(
+  supabase: SupabaseClient,
+  userId: string,
+  commands: CreateExpenseCommand[]
+): Promise<ExpenseListItemDTO[]> {
+  if (commands.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from("expenses")
+    .insert(
+      commands.map((command) => ({
+        user_id: userId,
+        category_id: command.category_id ?? null,
+        amount: command.amount,
+        expense_date: command.expense_date,
+        description: command.description,
+      }))
+    )
+    .select(EXPENSE_COLUMNS);
+
+  if (error) {
+    console.error("bulkCreateExpenses service error:", { userId, count: commands.length, error });
+
+    if (error.code === "23503") {
+      throw new CategoryNotFoundError("One or more referenced categories do not exist");
+    }
+
+    if (error.code === "23514") {
+      throw new Error("Validation failed: Amount must be greater than 0");
+    }
+
+    throw new Error("Failed to import expenses");
+  }
+
+  // Rows come back in insert order, so they line up with the commands
+  const rows = data || [];
+  const authors = await getExpenseAuthors(supabase, rows);
+  const expenses = rows.map((row) => toExpenseListItem(row, userId, authors));
+  await Promise.all(
+    expenses.map(async (expense, index) => {
+      const tags = commands[index]?.tags;
+      if (tags && tags.length > 0) {
+        expense.tags = await setExpenseTags(supabase, userId, expense.id, tags);
+      }
+      const splits = commands[index]?.splits;
+      if (splits && splits.length > 0) {
+        expense.splits = await setExpenseSplits(supabase, userId, expense.id, splits);
+        expense.category_id = null;
+      }
+    })
+  );
+
+  return expenses;
+}
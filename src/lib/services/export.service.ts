@@ -0,0 +1,351 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type {
+  ApiPaginatedResponse,
+  ExportQuery,
+  ListBudgetsQuery,
+  ListExpensesQuery,
+  ListTransactionsQuery,
+  StashDTO,
+} from "@/types";
+import { toCsvLine } from "@/lib/csv";
+import { listExpenses } from "./expense.service";
+import { listExpenseCategories } from "./expense-category.service";
+import { listMonthBudgets } from "./budget.service";
+import { getStashDetails, listStashes } from "./stash.service";
+import { listStashTransactions } from "./transaction.service";
+
+/**
+ * Options for a single export run.
+ * Filters are already validated; their `page` values are ignored because the export walks all pages.
+ */
+export interface ExportOptions extends ExportQuery {
+  expenses: ListExpensesQuery;
+  budgets: ListBudgetsQuery;
+  transactions: ListTransactionsQuery;
+}
+
+/**
+ * Columns of the CSV export. Every line starts with `record_type`; columns that don't apply
+ * to a record type are left empty so the file can be opened as a single sheet.
+ */
+const CSV_COLUMNS = [
+  "record_type",
+  "id",
+  "date",
+  "year_month",
+  "amount",
+  "currency",
+  "description",
+  "category_id",
+  "category",
+  "tags",
+  "budget_set",
+  "current_balance",
+  "stash_id",
+  "stash_name",
+  "transaction_type",
+  "created_at",
+  "updated_at",
+] as const;
+
+type CsvColumn = (typeof CSV_COLUMNS)[number];
+type CsvRecord = Partial<Record<CsvColumn, unknown>>;
+
+/**
+ * Page size used when walking through the list endpoints' service functions.
+ */
+const EXPORT_PAGE_SIZE = 100;
+
+/**
+ * Yields every item of a paginated service call, one page at a time.
+ */
+async function* paginate<T>(fetchPage: (page: number) => Promise<ApiPaginatedResponse<T>>): AsyncGenerator<T[]> {
+  let page = 1;
+
+  while (true) {
+    const result = await fetchPage(page);
+
+    if (result.data.length > 0) {
+      yield result.data;
+    }
+
+    if (result.data.length === 0 || page * result.pagination.limit >= result.pagination.total) {
+      return;
+    }
+
+    page++;
+  }
+}
+
+/**
+ * Yields the stashes included in the export: a single stash when `stashId` is set, otherwise all of them.
+ */
+async function* exportStashes(
+  supabase: SupabaseClient,
+  userId: string,
+  stashId: string | undefined
+): AsyncGenerator<StashDTO[]> {
+  if (stashId) {
+    const {
+      id,
+      name,
+      currency,
+      current_balance,
+      goal_amount,
+      goal_date,
+      shared_with_household,
+      created_at,
+      updated_at,
+    } = await getStashDetails(supabase, userId, stashId);
+    yield [
+      { id, name, currency, current_balance, goal_amount, goal_date, shared_with_household, created_at, updated_at },
+    ];
+    return;
+  }
+
+  // Balances are exported in each stash's own currency
+  for await (const stashes of paginate((page) =>
+    listStashes(supabase, userId, {
+      page,
+      limit: EXPORT_PAGE_SIZE,
+      sort: "name",
+      order: "asc",
+      baseCurrency: "PLN",
+    })
+  )) {
+    yield stashes.map(
+      ({
+        id,
+        name,
+        currency,
+        current_balance,
+        goal_amount,
+        goal_date,
+        shared_with_household,
+        created_at,
+        updated_at,
+      }) => ({
+        id,
+        name,
+        currency,
+        current_balance,
+        goal_amount,
+        goal_date,
+        shared_with_household,
+        created_at,
+        updated_at,
+      })
+    );
+  }
+}
+
+/**
+ * Yields the CSV export line by line (grouped per page).
+ */
+async function* generateCsv(supabase: SupabaseClient, userId: string, options: ExportOptions): AsyncGenerator<string> {
+  const { scope } = options;
+  const toLine = (record: CsvRecord) => toCsvLine(CSV_COLUMNS.map((column) => record[column]));
+
+  yield toCsvLine([...CSV_COLUMNS]);
+
+  if (scope === "expenses" || scope === "all") {
+    const categories = await listExpenseCategories(supabase, userId);
+    const categoryNames = new Map(categories.map((category) => [category.id, category.display_name]));
+
+    for await (const expenses of paginate((page) =>
+      listExpenses(supabase, userId, { ...options.expenses, page, limit: EXPORT_PAGE_SIZE })
+    )) {
+      yield expenses
+        .map((expense) =>
+          toLine({
+            record_type: "expense",
+            id: expense.id,
+            date: expense.expense_date,
+            year_month: expense.year_month,
+            amount: expense.amount,
+            description: expense.description,
+            category_id: expense.category_id,
+            // Split expenses list each line, e.g. "Groceries: 60.00; Household: 40.00"
+            category:
+              expense.splits.length > 0
+                ? expense.splits
+                    .map(
+                      (line) =>
+                        `${line.category_id ? categoryNames.get(line.category_id) : "Uncategorized"}: ${line.amount.toFixed(2)}`
+                    )
+                    .join("; ")
+                : expense.category_id
+                  ? categoryNames.get(expense.category_id)
+                  : null,
+            tags: expense.tags.join(", "),
+            created_at: expense.created_at,
+          })
+        )
+        .join("");
+    }
+  }
+
+  if (scope === "budgets" || scope === "all") {
+    for await (const budgets of paginate((page) =>
+      listMonthBudgets(supabase, userId, { ...options.budgets, page, limit: EXPORT_PAGE_SIZE })
+    )) {
+      yield budgets
+        .map((budget) =>
+          toLine({
+            record_type: "month_budget",
+            id: budget.id,
+            year_month: budget.year_month,
+            budget_set: budget.budget_set,
+            current_balance: budget.current_balance,
+            created_at: budget.created_at,
+            updated_at: budget.updated_at,
+          })
+        )
+        .join("");
+    }
+  }
+
+  if (scope === "stashes" || scope === "all") {
+    for await (const stashes of exportStashes(supabase, userId, options.stashId)) {
+      for (const stash of stashes) {
+        yield toLine({
+          record_type: "stash",
+          id: stash.id,
+          currency: stash.currency,
+          current_balance: stash.current_balance,
+          stash_id: stash.id,
+          stash_name: stash.name,
+          created_at: stash.created_at,
+          updated_at: stash.updated_at,
+        });
+
+        for await (const transactions of paginate((page) =>
+          listStashTransactions(supabase, userId, stash.id, { ...options.transactions, page, limit: EXPORT_PAGE_SIZE })
+        )) {
+          yield transactions
+            .map((transaction) =>
+              toLine({
+                record_type: "stash_transaction",
+                id: transaction.id,
+                date: transaction.created_at.slice(0, 10),
+                amount: transaction.amount,
+                currency: transaction.currency,
+                description: transaction.description,
+                stash_id: stash.id,
+                stash_name: stash.name,
+                transaction_type: transaction.transaction_type,
+                created_at: transaction.created_at,
+              })
+            )
+            .join("");
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Yields the JSON export as a single document, writing arrays item by item so that
+ * the whole data set never has to be held in memory.
+ */
+async function* generateJson(supabase: SupabaseClient, userId: string, options: ExportOptions): AsyncGenerator<string> {
+  const { scope } = options;
+
+  yield `{"exported_at":${JSON.stringify(new Date().toISOString())}`;
+
+  // Writes `items` as JSON array elements, prefixing each with a comma except the very first one
+  const writeItems = (items: unknown[], state: { first: boolean }) =>
+    items
+      .map((item) => {
+        const prefix = state.first ? "" : ",";
+        state.first = false;
+        return prefix + JSON.stringify(item);
+      })
+      .join("");
+
+  if (scope === "expenses" || scope === "all") {
+    const state = { first: true };
+    yield `,"expenses":[`;
+    for await (const expenses of paginate((page) =>
+      listExpenses(supabase, userId, { ...options.expenses, page, limit: EXPORT_PAGE_SIZE })
+    )) {
+      yield writeItems(expenses, state);
+    }
+    yield "]";
+  }
+
+  if (scope === "budgets" || scope === "all") {
+    const state = { first: true };
+    yield `,"month_budgets":[`;
+    for await (const budgets of paginate((page) =>
+      listMonthBudgets(supabase, userId, { ...options.budgets, page, limit: EXPORT_PAGE_SIZE })
+    )) {
+      yield writeItems(budgets, state);
+    }
+    yield "]";
+  }
+
+  if (scope === "stashes" || scope === "all") {
+    const stashState = { first: true };
+    yield `,"stashes":[`;
+    for await (const stashes of exportStashes(supabase, userId, options.stashId)) {
+      for (const stash of stashes) {
+        const serializedStash = JSON.stringify(stash);
+        yield (stashState.first ? "" : ",") + serializedStash.slice(0, -1) + `,"transactions":[`;
+        stashState.first = false;
+
+        const transactionState = { first: true };
+        for await (const transactions of paginate((page) =>
+          listStashTransactions(supabase, userId, stash.id, { ...options.transactions, page, limit: EXPORT_PAGE_SIZE })
+        )) {
+          yield writeItems(transactions, transactionState);
+        }
+        yield "]}";
+      }
+    }
+    yield "]";
+  }
+
+  yield "}\n";
+}
+
+/**
+ * Creates a streamed export of the user's data in CSV or JSON format.
+ * Records are fetched page by page through the regular list services, so the export honours
+ * the same filters and soft-delete rules as the list endpoints.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param options - Export format, scope and per-record filters
+ * @returns A byte stream with the export contents; errors are propagated to the stream consumer
+ */
+export function createExportStream(
+  supabase: SupabaseClient,
+  userId: string,
+  options: ExportOptions
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const chunks =
+    options.format === "csv" ? generateCsv(supabase, userId, options) : generateJson(supabase, userId, options);
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+
+        if (done) {
+          controller.close();
+          return;
+        }
+
+        controller.enqueue(encoder.encode(value));
+      } catch (err) {
+        console.error("Error generating export:", err);
+        controller.error(new Error("Failed to generate export"));
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
@@ -0,0 +1,321 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type {
+  CreateHouseholdCommand,
+  HouseholdDTO,
+  HouseholdInvitationDTO,
+  HouseholdMemberDTO,
+  InviteHouseholdMemberCommand,
+  ReceivedHouseholdInvitationDTO,
+} from "@/types";
+
+/**
+ * Custom error thrown when the user is not in a household, or an invitation does not exist
+ * or is not addressed to them.
+ */
+export class HouseholdNotFoundError extends Error {
+  name = "HouseholdNotFoundError";
+
+  constructor(message = "You are not in a household") {
+    super(message);
+  }
+}
+
+/**
+ * Custom error thrown for membership changes that conflict with the current state,
+ * e.g. creating a household while already in one or inviting an existing member.
+ */
+export class HouseholdStateError extends Error {
+  name = "HouseholdStateError";
+}
+
+/**
+ * Retrieves the members of the user's household with their e-mail addresses.
+ *
+ * @param supabase - The Supabase client instance
+ * @returns The members in the order they joined; empty when the user is not in a household
+ * @throws Error if the database query fails
+ */
+export async function listHouseholdMembers(
+  supabase: SupabaseClient
+): Promise<Omit<HouseholdMemberDTO, "is_current_user">[]> {
+  const { data, error } = await supabase.rpc("list_household_members");
+
+  if (error) {
+    console.error("Error fetching household members:", error);
+    throw new Error("Failed to fetch household members");
+  }
+
+  return data || [];
+}
+
+/**
+ * Retrieves the user's household with its members, pending invitations and shared stashes.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @returns The household, or null when the user is not in one
+ * @throws Error if a database query fails
+ */
+export async function getHousehold(supabase: SupabaseClient, userId: string): Promise<HouseholdDTO | null> {
+  // RLS only returns the user's own household
+  const { data: household, error } = await supabase.from("households").select("id, name, created_at").maybeSingle();
+
+  if (error) {
+    console.error("Error fetching household:", { userId, error });
+    throw new Error("Failed to fetch household");
+  }
+
+  if (!household) {
+    return null;
+  }
+
+  const [members, invitationsResult, stashesResult] = await Promise.all([
+    listHouseholdMembers(supabase),
+    supabase
+      .from("household_invitations")
+      .select("id, email, created_at")
+      .eq("household_id", household.id)
+      .order("created_at", { ascending: false }),
+    supabase
+      .from("stashes")
+      .select("id, name, currency, current_balance, user_id")
+      .eq("shared_with_household", true)
+      .is("deleted_at", null)
+      .order("name", { ascending: true }),
+  ]);
+
+  if (invitationsResult.error || stashesResult.error) {
+    console.error("Error fetching household details:", {
+      userId,
+      error: invitationsResult.error ?? stashesResult.error,
+    });
+    throw new Error("Failed to fetch household");
+  }
+
+  const emails = new Map(members.map((member) => [member.user_id, member.email]));
+
+  return {
+    ...household,
+    members: members.map((member) => ({ ...member, is_current_user: member.user_id === userId })),
+    invitations: invitationsResult.data || [],
+    // Stashes shared by someone who has since left are no longer readable, so every owner is a member
+    shared_stashes: (stashesResult.data || []).map(({ user_id: ownerId, ...stash }) => ({
+      ...stash,
+      owner_email: emails.get(ownerId) ?? null,
+      is_own: ownerId === userId,
+    })),
+  };
+}
+
+/**
+ * Retrieves the invitations sent to the user's e-mail address.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @returns The invitations, newest first
+ * @throws Error if the database query fails
+ */
+export async function listReceivedInvitations(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<ReceivedHouseholdInvitationDTO[]> {
+  const { data, error } = await supabase.rpc("list_household_invitations");
+
+  if (error) {
+    console.error("Error fetching household invitations:", { userId, error });
+    throw new Error("Failed to fetch household invitations");
+  }
+
+  return data || [];
+}
+
+/**
+ * Creates a household with the user as its first member.
+ * The user's month budgets and expenses move into the household.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param command - The household name
+ * @returns The new household
+ * @throws HouseholdStateError if the user is already in a household
+ * @throws Error if the database operation fails
+ */
+export async function createHousehold(
+  supabase: SupabaseClient,
+  userId: string,
+  command: CreateHouseholdCommand
+): Promise<HouseholdDTO> {
+  const { error } = await supabase.rpc("create_household", { household_name: command.name });
+
+  if (error) {
+    if (error.code === "P0001" && error.message === "Already in a household") {
+      throw new HouseholdStateError("You are already in a household");
+    }
+
+    console.error("createHousehold service error:", { userId, code: error.code, message: error.message });
+    throw new Error("Failed to create household");
+  }
+
+  const household = await getHousehold(supabase, userId);
+
+  if (!household) {
+    throw new Error("Failed to create household");
+  }
+
+  return household;
+}
+
+/**
+ * Invites someone to the user's household by e-mail address.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param command - The invitee's e-mail address (lower case)
+ * @returns The pending invitation
+ * @throws HouseholdNotFoundError if the user is not in a household
+ * @throws HouseholdStateError if the address belongs to a member or has already been invited
+ * @throws Error if the database operation fails
+ */
+export async function inviteHouseholdMember(
+  supabase: SupabaseClient,
+  userId: string,
+  command: InviteHouseholdMemberCommand
+): Promise<HouseholdInvitationDTO> {
+  const { data: household, error: householdError } = await supabase.from("households").select("id").maybeSingle();
+
+  if (householdError) {
+    console.error("Error fetching household for invitation:", { userId, error: householdError });
+    throw new Error("Failed to invite household member");
+  }
+
+  if (!household) {
+    throw new HouseholdNotFoundError();
+  }
+
+  const members = await listHouseholdMembers(supabase);
+
+  if (members.some((member) => member.email.toLowerCase() === command.email)) {
+    throw new HouseholdStateError(`${command.email} is already a member of your household`);
+  }
+
+  const { data, error } = await supabase
+    .from("household_invitations")
+    .insert({ household_id: household.id, email: command.email, invited_by: userId })
+    .select("id, email, created_at")
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      throw new HouseholdStateError(`${command.email} has already been invited`);
+    }
+
+    console.error("inviteHouseholdMember service error:", { userId, code: error.code, message: error.message });
+    throw new Error("Failed to invite household member");
+  }
+
+  return data;
+}
+
+/**
+ * Joins the household of an invitation sent to the user.
+ * The user's personal budgets and expenses are kept aside until they leave the household again.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param invitationId - The invitation to accept
+ * @returns The joined household
+ * @throws HouseholdNotFoundError if the invitation does not exist or is addressed to someone else
+ * @throws HouseholdStateError if the user is already in a household
+ * @throws Error if the database operation fails
+ */
+export async function acceptHouseholdInvitation(
+  supabase: SupabaseClient,
+  userId: string,
+  invitationId: string
+): Promise<HouseholdDTO> {
+  const { error } = await supabase.rpc("accept_household_invitation", { target_invitation_id: invitationId });
+
+  if (error) {
+    if (error.code === "P0001" && error.message === "Invitation not found") {
+      throw new HouseholdNotFoundError("Invitation not found");
+    }
+
+    if (error.code === "P0001" && error.message === "Already in a household") {
+      throw new HouseholdStateError("Leave your current household before joining another one");
+    }
+
+    console.error("acceptHouseholdInvitation service error:", {
+      userId,
+      invitationId,
+      code: error.code,
+      message: error.message,
+    });
+    throw new Error("Failed to accept invitation");
+  }
+
+  const household = await getHousehold(supabase, userId);
+
+  if (!household) {
+    throw new Error("Failed to accept invitation");
+  }
+
+  return household;
+}
+
+/**
+ * Removes an invitation: members cancel the ones their household sent, invitees decline theirs.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param invitationId - The invitation to remove
+ * @throws HouseholdNotFoundError if the invitation does not exist or is not visible to the user
+ * @throws Error if the database operation fails
+ */
+export async function deleteHouseholdInvitation(
+  supabase: SupabaseClient,
+  userId: string,
+  invitationId: string
+): Promise<void> {
+  const { data, error } = await supabase
+    .from("household_invitations")
+    .delete()
+    .eq("id", invitationId)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    console.error("deleteHouseholdInvitation service error:", {
+      userId,
+      invitationId,
+      code: error.code,
+      message: error.message,
+    });
+    throw new Error("Failed to delete invitation");
+  }
+
+  if (!data) {
+    throw new HouseholdNotFoundError("Invitation not found");
+  }
+}
+
+/**
+ * Leaves the user's household. Expenses the user added stay with the household;
+ * as its last member, the household's budgets and expenses become the user's personal ones.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @throws HouseholdNotFoundError if the user is not in a household
+ * @throws Error if the database operation fails
+ */
+export async function leaveHousehold(supabase: SupabaseClient, userId: string): Promise<void> {
+  const { error } = await supabase.rpc("leave_household");
+
+  if (error) {
+    if (error.code === "P0001" && error.message === "Not in a household") {
+      throw new HouseholdNotFoundError();
+    }
+
+    console.error("leaveHousehold service error:", { userId, code: error.code, message: error.message });
+    throw new Error("Failed to leave household");
+  }
+}
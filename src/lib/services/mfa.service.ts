@@ -0,0 +1,314 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import { generateRecoveryCodes, hashRecoveryCode } from "@/lib/mfa";
+import { MFA_RECOVERY_CODE_COUNT } from "@/types";
+import type { MfaEnrollmentDTO, MfaRecoveryCodesDTO, MfaStatusDTO } from "@/types";
+
+/**
+ * Custom error class for a wrong TOTP or recovery code
+ */
+export class InvalidMfaCodeError extends Error {
+  constructor(message = "Invalid code") {
+    super(message);
+    this.name = "InvalidMfaCodeError";
+  }
+}
+
+/**
+ * Custom error class for two-factor operations that need (or must not have) a verified factor
+ */
+export class MfaStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MfaStateError";
+  }
+}
+
+/**
+ * Retrieves the TOTP factors of the signed-in user.
+ *
+ * @returns The verified factor (at most one) and any unfinished enrolments
+ * @throws Error if the Auth API call fails
+ */
+async function listTotpFactors(
+  supabase: SupabaseClient
+): Promise<{ verifiedId: string | null; unverifiedIds: string[] }> {
+  const { data, error } = await supabase.auth.mfa.listFactors();
+
+  if (error) {
+    console.error("Error listing MFA factors:", { code: error.code, message: error.message });
+    throw new Error("Failed to list MFA factors");
+  }
+
+  const totpFactors = data.all.filter((factor) => factor.factor_type === "totp");
+
+  return {
+    verifiedId: totpFactors.find((factor) => factor.status === "verified")?.id ?? null,
+    unverifiedIds: totpFactors.filter((factor) => factor.status !== "verified").map((factor) => factor.id),
+  };
+}
+
+/**
+ * Verifies a TOTP code against a factor. On success the session is upgraded to aal2
+ * (the new session cookies are written by the server client).
+ *
+ * @throws InvalidMfaCodeError if the code is wrong or expired
+ * @throws Error if the Auth API call fails otherwise
+ */
+async function verifyTotpCode(supabase: SupabaseClient, factorId: string, code: string): Promise<void> {
+  const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+
+  if (error) {
+    if (error.code === "mfa_verification_failed" || error.code === "mfa_challenge_expired") {
+      throw new InvalidMfaCodeError("Invalid code. Check your authenticator app and try again.");
+    }
+
+    console.error("Error verifying MFA code:", { factorId, code: error.code, message: error.message });
+    throw new Error("Failed to verify MFA code");
+  }
+}
+
+/**
+ * Deletes all recovery codes of a user.
+ *
+ * @param adminClient - Service role client; recovery codes are not writable with the user's session
+ * @throws Error if the database operation fails
+ */
+async function deleteRecoveryCodes(adminClient: SupabaseClient, userId: string): Promise<void> {
+  const { error } = await adminClient.from("mfa_recovery_codes").delete().eq("user_id", userId);
+
+  if (error) {
+    console.error("Error deleting recovery codes:", { userId, error });
+    throw new Error("Failed to delete recovery codes");
+  }
+}
+
+/**
+ * Retrieves whether the user has two-factor authentication enabled and how many recovery codes are left.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @returns The two-factor status
+ * @throws Error if the Auth API call or the database query fails
+ */
+export async function getMfaStatus(supabase: SupabaseClient, userId: string): Promise<MfaStatusDTO> {
+  const { verifiedId } = await listTotpFactors(supabase);
+
+  const { count, error } = await supabase
+    .from("mfa_recovery_codes")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId);
+
+  if (error) {
+    console.error("Error counting recovery codes:", { userId, error });
+    throw new Error("Failed to fetch MFA status");
+  }
+
+  return {
+    enabled: verifiedId !== null,
+    factor_id: verifiedId,
+    recovery_codes_remaining: verifiedId ? count || 0 : 0,
+  };
+}
+
+/**
+ * Starts a TOTP enrolment. Unfinished earlier enrolments are discarded first.
+ *
+ * @param supabase - The Supabase client instance
+ * @returns The new (unverified) factor with its QR code and secret
+ * @throws MfaStateError if two-factor authentication is already enabled
+ * @throws Error if the Auth API call fails
+ */
+export async function startMfaEnrollment(supabase: SupabaseClient): Promise<MfaEnrollmentDTO> {
+  const { verifiedId, unverifiedIds } = await listTotpFactors(supabase);
+
+  if (verifiedId) {
+    throw new MfaStateError("Two-factor authentication is already enabled");
+  }
+
+  for (const factorId of unverifiedIds) {
+    const { error } = await supabase.auth.mfa.unenroll({ factorId });
+
+    if (error) {
+      console.error("Error removing unverified MFA factor:", { factorId, code: error.code, message: error.message });
+      throw new Error("Failed to start MFA enrollment");
+    }
+  }
+
+  const { data, error } = await supabase.auth.mfa.enroll({
+    factorType: "totp",
+    issuer: "StashTracker",
+    friendlyName: "Authenticator app",
+  });
+
+  if (error) {
+    console.error("Error enrolling MFA factor:", { code: error.code, message: error.message });
+    throw new Error("Failed to start MFA enrollment");
+  }
+
+  return {
+    factor_id: data.id,
+    qr_code: data.totp.qr_code,
+    secret: data.totp.secret,
+  };
+}
+
+/**
+ * Finishes a TOTP enrolment with the first code from the authenticator app and issues new recovery codes.
+ *
+ * @param supabase - The Supabase client instance
+ * @param adminClient - Service role client, used to store the recovery codes
+ * @param userId - The authenticated user's ID
+ * @param factorId - The factor returned by startMfaEnrollment
+ * @param code - The current code from the authenticator app
+ * @returns The plain recovery codes (only their hashes are stored)
+ * @throws InvalidMfaCodeError if the code is wrong
+ * @throws Error if the Auth API call or the database operation fails
+ */
+export async function activateMfa(
+  supabase: SupabaseClient,
+  adminClient: SupabaseClient,
+  userId: string,
+  factorId: string,
+  code: string
+): Promise<MfaRecoveryCodesDTO> {
+  await verifyTotpCode(supabase, factorId, code);
+
+  const recoveryCodes = generateRecoveryCodes(MFA_RECOVERY_CODE_COUNT);
+  const hashes = await Promise.all(recoveryCodes.map(hashRecoveryCode));
+
+  await deleteRecoveryCodes(adminClient, userId);
+
+  const { error } = await adminClient
+    .from("mfa_recovery_codes")
+    .insert(hashes.map((codeHash) => ({ user_id: userId, code_hash: codeHash })));
+
+  if (error) {
+    console.error("Error storing recovery codes:", { userId, error });
+    throw new Error("Failed to store recovery codes");
+  }
+
+  return { recovery_codes: recoveryCodes };
+}
+
+/**
+ * Completes a sign-in with the code from the authenticator app (the second login step).
+ *
+ * @param supabase - The Supabase client instance (a password-only session)
+ * @param code - The current code from the authenticator app
+ * @throws MfaStateError if the user has no verified factor
+ * @throws InvalidMfaCodeError if the code is wrong
+ * @throws Error if the Auth API call fails
+ */
+export async function verifyMfa(supabase: SupabaseClient, code: string): Promise<void> {
+  const { verifiedId } = await listTotpFactors(supabase);
+
+  if (!verifiedId) {
+    throw new MfaStateError("Two-factor authentication is not enabled");
+  }
+
+  await verifyTotpCode(supabase, verifiedId, code);
+}
+
+/**
+ * Completes a sign-in with a recovery code instead of the authenticator app.
+ * Using a code turns two-factor authentication off: the factor and all remaining codes are removed,
+ * and the user is expected to enrol again.
+ *
+ * @param supabase - The Supabase client instance (a password-only session)
+ * @param adminClient - Service role client, used to check the code and remove the factor
+ * @param userId - The authenticated user's ID
+ * @param code - The recovery code as typed by the user
+ * @throws InvalidMfaCodeError if the code does not match an unused recovery code
+ * @throws Error if the Auth API call or the database operation fails
+ */
+export async function recoverWithCode(
+  supabase: SupabaseClient,
+  adminClient: SupabaseClient,
+  userId: string,
+  code: string
+): Promise<void> {
+  const { data: match, error: matchError } = await adminClient
+    .from("mfa_recovery_codes")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("code_hash", await hashRecoveryCode(code))
+    .maybeSingle();
+
+  if (matchError) {
+    console.error("Error checking recovery code:", { userId, error: matchError });
+    throw new Error("Failed to check recovery code");
+  }
+
+  if (!match) {
+    throw new InvalidMfaCodeError("Invalid recovery code");
+  }
+
+  const { data: factors, error: listError } = await adminClient.auth.admin.mfa.listFactors({ userId });
+
+  if (listError) {
+    console.error("recoverWithCode service error:", { userId, code: listError.code, message: listError.message });
+    throw new Error("Failed to remove MFA factor");
+  }
+
+  for (const factor of factors.factors) {
+    const { error } = await adminClient.auth.admin.mfa.deleteFactor({ id: factor.id, userId });
+
+    if (error) {
+      console.error("recoverWithCode service error:", { userId, code: error.code, message: error.message });
+      throw new Error("Failed to remove MFA factor");
+    }
+  }
+
+  await deleteRecoveryCodes(adminClient, userId);
+
+  // The session still lists the removed factor until it is refreshed
+  const { error: refreshError } = await supabase.auth.refreshSession();
+
+  if (refreshError) {
+    console.error("recoverWithCode service error:", { userId, code: refreshError.code, message: refreshError.message });
+    throw new Error("Failed to refresh session");
+  }
+}
+
+/**
+ * Turns two-factor authentication off after checking a current code from the authenticator app.
+ *
+ * @param supabase - The Supabase client instance
+ * @param adminClient - Service role client, used to delete the recovery codes
+ * @param userId - The authenticated user's ID
+ * @param code - The current code from the authenticator app
+ * @throws MfaStateError if two-factor authentication is not enabled
+ * @throws InvalidMfaCodeError if the code is wrong
+ * @throws Error if the Auth API call or the database operation fails
+ */
+export async function disableMfa(
+  supabase: SupabaseClient,
+  adminClient: SupabaseClient,
+  userId: string,
+  code: string
+): Promise<void> {
+  const { verifiedId } = await listTotpFactors(supabase);
+
+  if (!verifiedId) {
+    throw new MfaStateError("Two-factor authentication is not enabled");
+  }
+
+  await verifyTotpCode(supabase, verifiedId, code);
+
+  const { error } = await supabase.auth.mfa.unenroll({ factorId: verifiedId });
+
+  if (error) {
+    console.error("disableMfa service error:", { userId, code: error.code, message: error.message });
+    throw new Error("Failed to remove MFA factor");
+  }
+
+  await deleteRecoveryCodes(adminClient, userId);
+
+  // Drop the removed factor from the session so the next request is not treated as needing a second step
+  const { error: refreshError } = await supabase.auth.refreshSession();
+
+  if (refreshError) {
+    console.error("disableMfa service error:", { userId, code: refreshError.code, message: refreshError.message });
+    throw new Error("Failed to refresh session");
+  }
+}
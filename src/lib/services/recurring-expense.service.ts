@@ -0,0 +1,266 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type {
+  CreateRecurringExpenseCommand,
+  MaterializeRecurringExpensesResultDTO,
+  RecurringExpenseDTO,
+  UpdateRecurringExpenseCommand,
+} from "@/types";
+import { getRecurringOccurrenceDate, isRecurringExpenseDue } from "@/lib/recurring-expense";
+import { CategoryNotFoundError } from "./expense.service";
+
+/**
+ * Custom error class for recurring expense not found
+ */
+export class RecurringExpenseNotFoundError extends Error {
+  constructor(message = "Recurring expense not found") {
+    super(message);
+    this.name = "RecurringExpenseNotFoundError";
+  }
+}
+
+/**
+ * Columns returned for recurring expense definitions
+ */
+const RECURRING_EXPENSE_COLUMNS =
+  "id, category_id, amount, description, day_of_month, start_month, end_month, interval_months, created_at, updated_at";
+
+/**
+ * Maps database errors shared by insert and update to domain errors.
+ */
+function mapRecurringExpenseError(error: { code?: string }, categoryId: string | null | undefined): Error | null {
+  if (error.code === "23503") {
+    // Foreign key violation or category owned by another user
+    return new CategoryNotFoundError(`Category with ID ${categoryId} does not exist`);
+  }
+
+  if (error.code === "23514") {
+    // Check constraint violation (amount, day or month range)
+    return new Error("Validation failed: Recurring expense violates a data constraint");
+  }
+
+  return null;
+}
+
+/**
+ * Retrieves all active recurring expense definitions of a user.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @returns Recurring expenses ordered by day of month
+ * @throws Error if the database query fails
+ */
+export async function listRecurringExpenses(supabase: SupabaseClient, userId: string): Promise<RecurringExpenseDTO[]> {
+  const { data, error } = await supabase
+    .from("recurring_expenses")
+    .select(RECURRING_EXPENSE_COLUMNS)
+    .eq("user_id", userId)
+    .is("deleted_at", null)
+    .order("day_of_month", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching recurring expenses:", error);
+    throw new Error("Failed to fetch recurring expenses");
+  }
+
+  return data || [];
+}
+
+/**
+ * Creates a new recurring expense definition.
+ * Occurrences are not created here; they are materialized when a month is opened.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param command - The definition fields
+ * @returns The newly created definition
+ * @throws CategoryNotFoundError if the category does not exist or isn't available to the user
+ * @throws Error if the database operation fails or validation constraints are violated
+ */
+export async function createRecurringExpense(
+  supabase: SupabaseClient,
+  userId: string,
+  command: CreateRecurringExpenseCommand
+): Promise<RecurringExpenseDTO> {
+  const { data, error } = await supabase
+    .from("recurring_expenses")
+    .insert({
+      user_id: userId,
+      category_id: command.category_id ?? null,
+      amount: command.amount,
+      description: command.description,
+      day_of_month: command.day_of_month,
+      start_month: command.start_month,
+      end_month: command.end_month ?? null,
+      interval_months: command.interval_months ?? 1,
+    })
+    .select(RECURRING_EXPENSE_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error("createRecurringExpense service error:", error);
+    throw mapRecurringExpenseError(error, command.category_id) ?? new Error("Failed to create recurring expense");
+  }
+
+  return data;
+}
+
+/**
+ * Updates a recurring expense definition.
+ * Already materialized expenses are left untouched; changes apply to months materialized afterwards.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param recurringExpenseId - The definition to update
+ * @param command - Fields to change
+ * @returns The updated definition
+ * @throws RecurringExpenseNotFoundError if the definition does not exist or doesn't belong to the user
+ * @throws CategoryNotFoundError if the category does not exist or isn't available to the user
+ * @throws Error if the database operation fails or validation constraints are violated
+ */
+export async function updateRecurringExpense(
+  supabase: SupabaseClient,
+  userId: string,
+  recurringExpenseId: string,
+  command: UpdateRecurringExpenseCommand
+): Promise<RecurringExpenseDTO> {
+  const { data: existing, error: fetchError } = await supabase
+    .from("recurring_expenses")
+    .select("start_month, end_month")
+    .eq("id", recurringExpenseId)
+    .eq("user_id", userId)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (fetchError) {
+    console.error("updateRecurringExpense service error:", fetchError);
+    throw new Error("Failed to update recurring expense");
+  }
+
+  if (!existing) {
+    throw new RecurringExpenseNotFoundError();
+  }
+
+  // Check the resulting month range against the stored values
+  const startMonth = command.start_month ?? existing.start_month;
+  const endMonth = command.end_month !== undefined ? command.end_month : existing.end_month;
+
+  if (endMonth && endMonth < startMonth) {
+    throw new Error("Validation failed: End month cannot be before start month");
+  }
+
+  const { data, error } = await supabase
+    .from("recurring_expenses")
+    .update(command)
+    .eq("id", recurringExpenseId)
+    .eq("user_id", userId)
+    .is("deleted_at", null)
+    .select(RECURRING_EXPENSE_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error("updateRecurringExpense service error:", error);
+
+    if (error.code === "PGRST116") {
+      throw new RecurringExpenseNotFoundError();
+    }
+
+    throw mapRecurringExpenseError(error, command.category_id) ?? new Error("Failed to update recurring expense");
+  }
+
+  return data;
+}
+
+/**
+ * Soft-deletes a recurring expense definition.
+ * Expenses that were already materialized are kept.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param recurringExpenseId - The definition to delete
+ * @throws RecurringExpenseNotFoundError if the definition does not exist, doesn't belong to the user, or is already deleted
+ * @throws Error if the database operation fails
+ */
+export async function softDeleteRecurringExpense(
+  supabase: SupabaseClient,
+  userId: string,
+  recurringExpenseId: string
+): Promise<void> {
+  const { data, error } = await supabase
+    .from("recurring_expenses")
+    .update({ deleted_at: new Date().toISOString() })
+    .eq("id", recurringExpenseId)
+    .eq("user_id", userId)
+    .is("deleted_at", null)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    console.error("softDeleteRecurringExpense service error:", error);
+    throw new Error("Failed to delete recurring expense");
+  }
+
+  if (!data) {
+    throw new RecurringExpenseNotFoundError();
+  }
+}
+
+/**
+ * Creates the missing occurrences of the user's recurring expenses for a month.
+ * Occurrences are regular expenses linked through recurring_expense_id and stamped with the month
+ * they were generated for (scheduled_month, which never changes). The insert ignores conflicts on the
+ * unique (recurring_expense_id, scheduled_month) index, so calling this repeatedly (or concurrently)
+ * never fills a month twice - not even after the user deleted an occurrence or moved it to another month.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param yearMonth - The month to fill, in YYYY-MM format
+ * @returns The month and the number of expenses created by this call
+ * @throws Error if the database operation fails
+ */
+export async function materializeRecurringExpenses(
+  supabase: SupabaseClient,
+  userId: string,
+  yearMonth: string
+): Promise<MaterializeRecurringExpensesResultDTO> {
+  const { data: definitions, error: fetchError } = await supabase
+    .from("recurring_expenses")
+    .select("id, category_id, amount, description, day_of_month, start_month, end_month, interval_months")
+    .eq("user_id", userId)
+    .is("deleted_at", null)
+    .lte("start_month", yearMonth)
+    .or(`end_month.is.null,end_month.gte.${yearMonth}`);
+
+  if (fetchError) {
+    console.error("Error fetching recurring expenses to materialize:", { userId, yearMonth, error: fetchError });
+    throw new Error("Failed to materialize recurring expenses");
+  }
+
+  const rows = (definitions || [])
+    .filter((definition) => isRecurringExpenseDue(definition, yearMonth))
+    .map((definition) => ({
+      user_id: userId,
+      recurring_expense_id: definition.id,
+      scheduled_month: yearMonth,
+      category_id: definition.category_id,
+      amount: definition.amount,
+      description: definition.description,
+      expense_date: getRecurringOccurrenceDate(definition.day_of_month, yearMonth),
+    }));
+
+  if (rows.length === 0) {
+    return { year_month: yearMonth, created: 0 };
+  }
+
+  const { data, error } = await supabase
+    .from("expenses")
+    .upsert(rows, { onConflict: "recurring_expense_id,scheduled_month", ignoreDuplicates: true })
+    .select("id");
+
+  if (error) {
+    console.error("Error materializing recurring expenses:", { userId, yearMonth, error });
+    throw new Error("Failed to materialize recurring expenses");
+  }
+
+  return { year_month: yearMonth, created: data?.length ?? 0 };
+}
@@ -0,0 +1,118 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type { CategoryTrend, SpendingReportDTO, SpendingReportQuery, TagTotal } from "@/types";
+
+/**
+ * Retrieves the spending per tag for a range of months, computed by report_tag_totals().
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param from - First month of the range (YYYY-MM)
+ * @param to - Last month of the range (YYYY-MM)
+ * @returns One entry per tag used in the range, largest total first
+ * @throws Error if the database query fails
+ */
+export async function getTagTotals(
+  supabase: SupabaseClient,
+  userId: string,
+  from: string,
+  to: string
+): Promise<TagTotal[]> {
+  const { data, error } = await supabase.rpc("report_tag_totals", { from_month: from, to_month: to });
+
+  if (error) {
+    console.error("getTagTotals service error:", { userId, from, to, error });
+    throw new Error("Failed to fetch tag totals");
+  }
+
+  return (data || []).map((row) => ({
+    tagId: row.tag_id,
+    name: row.tag_name,
+    total: Number(row.total),
+    expenseCount: Number(row.expense_count),
+  }));
+}
+
+/**
+ * Builds a spending report for a range of months.
+ * All aggregation is done by the report_* database functions; this service only
+ * reshapes their rows and converts numeric columns.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param query - Validated range (YYYY-MM, both ends inclusive) and grouping
+ * @returns Totals, grouped totals, category month-over-month trends, budget adherence and tag totals
+ * @throws Error if any of the database queries fails
+ */
+export async function getSpendingReport(
+  supabase: SupabaseClient,
+  userId: string,
+  query: SpendingReportQuery
+): Promise<SpendingReportDTO> {
+  const range = { from_month: query.from, to_month: query.to };
+
+  const [summaryResult, groupsResult, trendsResult, adherenceResult, tags] = await Promise.all([
+    supabase.rpc("report_spending_summary", range),
+    supabase.rpc("report_spending_groups", { ...range, group_by: query.groupBy }),
+    supabase.rpc("report_category_trends", range),
+    supabase.rpc("report_budget_adherence", range),
+    getTagTotals(supabase, userId, query.from, query.to),
+  ]);
+
+  const error = summaryResult.error ?? groupsResult.error ?? trendsResult.error ?? adherenceResult.error;
+  if (error) {
+    console.error("getSpendingReport service error:", { userId, query, error });
+    throw new Error("Failed to build spending report");
+  }
+
+  const summary = summaryResult.data?.[0];
+
+  // Trend rows come ordered by category and month; collect each category's months
+  const trendsByCategory = new Map<string, CategoryTrend>();
+  for (const row of trendsResult.data || []) {
+    let trend = trendsByCategory.get(row.category_key);
+    if (!trend) {
+      trend = {
+        categoryKey: row.category_key,
+        categoryName: row.category_name,
+        categoryColor: row.category_color,
+        months: [],
+      };
+      trendsByCategory.set(row.category_key, trend);
+    }
+    trend.months.push({
+      yearMonth: row.year_month,
+      total: Number(row.total),
+      previousTotal: Number(row.previous_total),
+      changeAmount: Number(row.change_amount),
+      changePercent: row.change_percent === null ? null : Number(row.change_percent),
+    });
+  }
+
+  return {
+    from: query.from,
+    to: query.to,
+    groupBy: query.groupBy,
+    totals: {
+      total: Number(summary?.total ?? 0),
+      expenseCount: Number(summary?.expense_count ?? 0),
+      monthCount: Number(summary?.month_count ?? 0),
+      monthlyAverage: Number(summary?.monthly_average ?? 0),
+    },
+    groups: (groupsResult.data || []).map((row) => ({
+      key: row.group_key,
+      label: row.label,
+      color: row.color,
+      total: Number(row.total),
+      expenseCount: Number(row.expense_count),
+    })),
+    categoryTrends: [...trendsByCategory.values()],
+    budgetAdherence: (adherenceResult.data || []).map((row) => ({
+      yearMonth: row.year_month,
+      budgetSet: row.budget_set === null ? null : Number(row.budget_set),
+      spent: Number(row.spent),
+      remaining: row.remaining === null ? null : Number(row.remaining),
+      usedPercent: row.used_percent === null ? null : Number(row.used_percent),
+    })),
+    tags,
+  };
+}
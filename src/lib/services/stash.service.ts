@@ -7,7 +7,20 @@ import type {
   CreateStashCommand,
   StashDetailsDTO,
   DeleteStashCommand,
+  UpdateStashCommand,
+  BalanceHistoryDTO,
+  StashBalanceHistoryDTO,
 } from "@/types";
+import { roundStashAmount } from "@/lib/currency";
+import { computeBalanceHistory } from "@/lib/balance-history";
+import { getCurrencyConverter } from "./exchange-rate.service";
+import type { BalanceHistoryRange, BalanceHistoryTransaction } from "@/lib/balance-history";
+
+/**
+ * Columns returned for stashes (everything except user_id and deleted_at)
+ */
+const STASH_COLUMNS =
+  "id, name, currency, current_balance, goal_amount, goal_date, shared_with_household, created_at, updated_at";
 
 /**
  * Custom error class for duplicate stash names
@@ -74,6 +87,7 @@ export async function createStash(supabase: SupabaseClient, userId: string, data
     .insert({
       user_id: userId,
       name: data.name,
+      currency: data.currency,
     })
     .select()
     .single();
@@ -95,8 +109,8 @@ export async function createStash(supabase: SupabaseClient, userId: string, data
  *
  * @param supabase - The Supabase client instance
  * @param userId - The authenticated user's ID
- * @param query - Query parameters for pagination and sorting
- * @returns Paginated response containing stashes and pagination metadata
+ * @param query - Query parameters for pagination, sorting and the base currency
+ * @returns Paginated response containing stashes (with their balance in the base currency) and pagination metadata
  * @throws Error if the database query fails
  */
 export async function listStashes(
@@ -104,7 +118,7 @@ export async function listStashes(
   userId: string,
   query: ListStashesQuery
 ): Promise<ApiPaginatedResponse<StashListItemDTO>> {
-  const { page, limit, sort, order } = query;
+  const { page, limit, sort, order, baseCurrency } = query;
 
   // Calculate offset for pagination
   const offset = (page - 1) * limit;
@@ -112,7 +126,7 @@ export async function listStashes(
   // Build the base query with filters
   let queryBuilder = supabase
     .from("stashes")
-    .select("id, name, current_balance, created_at, updated_at", { count: "exact" })
+    .select(STASH_COLUMNS, { count: "exact" })
     .eq("user_id", userId)
     .is("deleted_at", null);
 
@@ -122,8 +136,11 @@ export async function listStashes(
   // Apply pagination
   queryBuilder = queryBuilder.range(offset, offset + limit - 1);
 
-  // Execute the query
-  const { data, error, count } = await queryBuilder;
+  // Execute the query and load the exchange rates in parallel
+  const [{ data, error, count }, convert] = await Promise.all([
+    queryBuilder,
+    getCurrencyConverter(supabase, userId, baseCurrency),
+  ]);
 
   if (error) {
     console.error("Error fetching stashes:", error);
@@ -132,7 +149,11 @@ export async function listStashes(
 
   // Return formatted response
   return {
-    data: data || [],
+    data: (data || []).map((stash) => ({
+      ...stash,
+      base_currency: baseCurrency,
+      converted_balance: convert(Number(stash.current_balance), stash.currency),
+    })),
     pagination: {
       page,
       limit,
@@ -148,7 +169,7 @@ export async function listStashes(
  * @param userId - The authenticated user's ID
  * @param stashId - The unique identifier of the stash to retrieve
  * @param includeTransactions - Whether to include the 50 most recent transactions
- * @returns Stash details with optional transactions
+ * @returns Stash details (balance split into contributed capital and unrealized gain) with optional transactions
  * @throws StashNotFoundError if the stash is not found or doesn't belong to the user
  * @throws Error if the database query fails
  */
@@ -161,7 +182,7 @@ export async function getStashDetails(
   // Fetch the stash
   const { data: stash, error: stashError } = await supabase
     .from("stashes")
-    .select("id, name, current_balance, created_at, updated_at")
+    .select(STASH_COLUMNS)
     .eq("id", stashId)
     .eq("user_id", userId)
     .is("deleted_at", null)
@@ -176,11 +197,35 @@ export async function getStashDetails(
     throw new StashNotFoundError();
   }
 
+  // Valuation adjustments are the unrealized gain; everything else was contributed
+  const { data: adjustments, error: adjustmentsError } = await supabase
+    .from("stash_transactions")
+    .select("amount")
+    .eq("stash_id", stashId)
+    .eq("user_id", userId)
+    .eq("transaction_type", "adjustment")
+    .is("deleted_at", null);
+
+  if (adjustmentsError) {
+    console.error("Error fetching stash adjustments:", adjustmentsError);
+    throw new Error("Failed to fetch stash adjustments");
+  }
+
+  const unrealizedGain = roundStashAmount(
+    (adjustments || []).reduce((sum, adjustment) => sum + Number(adjustment.amount), 0)
+  );
+
   // Build the response DTO
   const stashDetails: StashDetailsDTO = {
     id: stash.id,
     name: stash.name,
+    currency: stash.currency,
     current_balance: stash.current_balance,
+    contributed: roundStashAmount(Number(stash.current_balance) - unrealizedGain),
+    unrealized_gain: unrealizedGain,
+    goal_amount: stash.goal_amount,
+    goal_date: stash.goal_date,
+    shared_with_household: stash.shared_with_household,
     created_at: stash.created_at,
     updated_at: stash.updated_at,
   };
@@ -189,7 +234,7 @@ export async function getStashDetails(
   if (includeTransactions) {
     const { data: transactions, error: transactionsError } = await supabase
       .from("stash_transactions")
-      .select("id, stash_id, transaction_type, amount, description, created_at")
+      .select("id, stash_id, transaction_type, amount, currency, description, created_at, transfer_id")
       .eq("stash_id", stashId)
       .eq("user_id", userId)
       .is("deleted_at", null)
@@ -208,27 +253,28 @@ export async function getStashDetails(
 }
 
 /**
- * Updates the name of an existing stash after validating ownership and checking for duplicates.
+ * Updates an existing stash after validating ownership: renames it (checking for duplicates)
+ * and/or sets or clears its savings goal. Fields left undefined are not changed.
  *
  * @param supabase - The Supabase client instance
  * @param userId - The authenticated user's ID
  * @param stashId - The unique identifier of the stash to update
- * @param newName - The new name for the stash
+ * @param command - The new name, goal_amount, goal_date (null clears the goal fields) and/or shared_with_household
  * @returns The updated stash entity
  * @throws StashNotFoundError if the stash is not found or doesn't belong to the user
  * @throws DuplicateStashError if another active stash with the same name already exists
  * @throws Error if the database operation fails
  */
-export async function updateStashName(
+export async function updateStash(
   supabase: SupabaseClient,
   userId: string,
   stashId: string,
-  newName: string
+  command: UpdateStashCommand
 ): Promise<Stash> {
   // First, verify the stash exists and belongs to the user
   const { data: existingStash, error: fetchError } = await supabase
     .from("stashes")
-    .select("id, name")
+    .select("id, name, goal_amount")
     .eq("id", stashId)
     .eq("user_id", userId)
     .is("deleted_at", null)
@@ -244,29 +290,43 @@ export async function updateStashName(
   }
 
   // Check if another active stash with the new name already exists
-  const { data: duplicateStash, error: duplicateError } = await supabase
-    .from("stashes")
-    .select("id")
-    .eq("user_id", userId)
-    .eq("name", newName)
-    .is("deleted_at", null)
-    .neq("id", stashId) // Exclude the current stash
-    .maybeSingle();
+  if (command.name !== undefined) {
+    const { data: duplicateStash, error: duplicateError } = await supabase
+      .from("stashes")
+      .select("id")
+      .eq("user_id", userId)
+      .eq("name", command.name)
+      .is("deleted_at", null)
+      .neq("id", stashId) // Exclude the current stash
+      .maybeSingle();
 
-  if (duplicateError) {
-    console.error("Error checking for duplicate stash name:", duplicateError);
-    throw new Error("Failed to check for duplicate stash name");
+    if (duplicateError) {
+      console.error("Error checking for duplicate stash name:", duplicateError);
+      throw new Error("Failed to check for duplicate stash name");
+    }
+
+    if (duplicateStash) {
+      throw new DuplicateStashError();
+    }
   }
 
-  if (duplicateStash) {
-    throw new DuplicateStashError();
+  // Clearing the goal amount also clears its target date
+  const clearsGoal = command.goal_amount === null;
+  const goalAmount = command.goal_amount === undefined ? existingStash.goal_amount : command.goal_amount;
+
+  if (command.goal_date && goalAmount === null) {
+    throw new Error("Validation failed: A target date needs a goal amount");
   }
 
-  // Update the stash name
+  // Update the stash
   const { data: updatedStash, error: updateError } = await supabase
     .from("stashes")
     .update({
-      name: newName,
+      ...(command.name !== undefined && { name: command.name }),
+      ...(command.goal_amount !== undefined && { goal_amount: command.goal_amount }),
+      ...(command.goal_date !== undefined && { goal_date: command.goal_date }),
+      ...(clearsGoal && { goal_date: null }),
+      ...(command.shared_with_household !== undefined && { shared_with_household: command.shared_with_household }),
       updated_at: new Date().toISOString(),
     })
     .eq("id", stashId)
@@ -276,8 +336,14 @@ export async function updateStashName(
     .single();
 
   if (updateError) {
-    console.error("Error updating stash name:", updateError);
-    throw new Error("Failed to update stash name");
+    console.error("Error updating stash:", updateError);
+
+    // 23514: Check constraint violation (goal amount must be positive, date needs an amount)
+    if (updateError.code === "23514") {
+      throw new Error("Validation failed: " + updateError.message);
+    }
+
+    throw new Error("Failed to update stash");
   }
 
   if (!updatedStash) {
@@ -329,3 +395,154 @@ export async function deleteStash(supabase: SupabaseClient, command: DeleteStash
     throw new StashNotFoundError();
   }
 }
+
+/**
+ * Restores a soft-deleted stash together with the transactions that were deleted with it.
+ * The restore_stash database function re-applies those transactions to the balance.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param stashId - The unique identifier of the stash to restore
+ * @throws StashNotFoundError if the stash is not in the trash or doesn't belong to the user
+ * @throws DuplicateStashError if an active stash with the same name was created in the meantime
+ * @throws Error if the database operation fails
+ */
+export async function restoreStash(supabase: SupabaseClient, userId: string, stashId: string): Promise<void> {
+  const { error } = await supabase.rpc("restore_stash", { target_stash_id: stashId });
+
+  if (error) {
+    console.error("restoreStash service error:", {
+      userId,
+      stashId,
+      code: error.code,
+      message: error.message,
+    });
+
+    // P0001: raise_exception from the function
+    if (error.code === "P0001" && error.message?.includes("Stash not found")) {
+      throw new StashNotFoundError();
+    }
+
+    // 23505: stashes_user_name_unique_idx - the name is used by an active stash
+    if (error.code === "23505") {
+      throw new DuplicateStashError("An active stash with this name already exists. Rename it before restoring.");
+    }
+
+    throw new Error("Failed to restore stash");
+  }
+}
+
+/**
+ * Fetches every transaction (soft-deleted included) created up to the end of the range.
+ * Soft-deleted rows are needed because they still counted towards the balance until deleted_at.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param to - Last day of the range (YYYY-MM-DD)
+ * @param stashId - Limits the result to one stash; all of the user's stashes when omitted
+ * @returns Transactions in the shape buildBalanceHistory expects, with their currency
+ * @throws Error if the database query fails
+ */
+async function fetchBalanceHistoryTransactions(
+  supabase: SupabaseClient,
+  userId: string,
+  to: string,
+  stashId?: string
+): Promise<(BalanceHistoryTransaction & { currency: string })[]> {
+  let query = supabase
+    .from("stash_transactions")
+    .select("transaction_type, amount, currency, created_at, deleted_at")
+    .eq("user_id", userId)
+    .lte("created_at", `${to}T23:59:59.999Z`)
+    .order("created_at", { ascending: true });
+
+  if (stashId) {
+    query = query.eq("stash_id", stashId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error fetching transactions for balance history:", error);
+    throw new Error("Failed to fetch balance history");
+  }
+
+  return data || [];
+}
+
+/**
+ * Rebuilds a stash's running balance (in the stash's own currency) over a date range.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param stashId - The unique identifier of the stash
+ * @param range - The resolved range and interval (see resolveBalanceHistoryRange)
+ * @returns One balance point per day, week or month
+ * @throws StashNotFoundError if the stash is not found or doesn't belong to the user
+ * @throws Error if a database query fails
+ */
+export async function getStashBalanceHistory(
+  supabase: SupabaseClient,
+  userId: string,
+  stashId: string,
+  range: BalanceHistoryRange
+): Promise<StashBalanceHistoryDTO> {
+  const { data: stash, error: stashError } = await supabase
+    .from("stashes")
+    .select("id")
+    .eq("id", stashId)
+    .eq("user_id", userId)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (stashError) {
+    console.error("Error fetching stash for balance history:", stashError);
+    throw new Error("Failed to fetch stash");
+  }
+
+  if (!stash) {
+    throw new StashNotFoundError();
+  }
+
+  const transactions = await fetchBalanceHistoryTransactions(supabase, userId, range.to, stashId);
+
+  return {
+    stash_id: stashId,
+    ...computeBalanceHistory(transactions, range),
+  };
+}
+
+/**
+ * Rebuilds the combined balance of all the user's stashes (net worth) over a date range.
+ * Deleted stashes count until they were deleted, since deleting a stash soft-deletes its transactions.
+ * Transactions are valued in the base currency at the latest known rate; currencies without
+ * a rate are left out.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param range - The resolved range and interval (see resolveBalanceHistoryRange)
+ * @param baseCurrency - The currency the net worth is expressed in
+ * @returns One net worth point per day, week or month
+ * @throws Error if a database query fails
+ */
+export async function getNetWorthHistory(
+  supabase: SupabaseClient,
+  userId: string,
+  range: BalanceHistoryRange,
+  baseCurrency: string
+): Promise<BalanceHistoryDTO> {
+  const [transactions, convert] = await Promise.all([
+    fetchBalanceHistoryTransactions(supabase, userId, range.to),
+    getCurrencyConverter(supabase, userId, baseCurrency),
+  ]);
+
+  const converted: BalanceHistoryTransaction[] = [];
+  for (const transaction of transactions) {
+    const amount = convert(Number(transaction.amount), transaction.currency);
+    if (amount !== null) {
+      converted.push({ ...transaction, amount });
+    }
+  }
+
+  return computeBalanceHistory(converted, range);
+}
@@ -0,0 +1,26 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import type { TagDTO } from "@/types";
+
+/**
+ * Retrieves the user's tags, alphabetically.
+ * Tags no longer used by any expense are included, so they can be suggested again.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @returns The user's tags
+ * @throws Error if the database query fails
+ */
+export async function listTags(supabase: SupabaseClient, userId: string): Promise<TagDTO[]> {
+  const { data, error } = await supabase
+    .from("tags")
+    .select("id, name, created_at")
+    .eq("user_id", userId)
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching tags:", { userId, error });
+    throw new Error("Failed to fetch tags");
+  }
+
+  return data || [];
+}
@@ -2,10 +2,19 @@ import type { SupabaseClient } from "@/db/supabase.client";
 import type {
   ListTransactionsQuery,
   StashTransactionDTO,
+  StashTransactionListItemDTO,
+  StashTransferDTO,
   ApiPaginatedResponse,
   CreateStashTransactionCommand,
+  CreateStashTransferCommand,
+  RecordStashValuationCommand,
 } from "@/types";
 
+/**
+ * Columns returned for stash transactions
+ */
+const TRANSACTION_COLUMNS = "id, stash_id, transaction_type, amount, currency, description, created_at, transfer_id";
+
 /**
  * Custom error class for stash not found
  */
@@ -36,6 +45,16 @@ export class TransactionNotFoundError extends Error {
   }
 }
 
+/**
+ * Custom error class for restoring a transaction whose stash is in the trash
+ */
+export class StashDeletedError extends Error {
+  constructor(message = "The stash of this transaction is deleted. Restore the stash first.") {
+    super(message);
+    this.name = "StashDeletedError";
+  }
+}
+
 /**
  * Retrieves a paginated and filterable list of transactions for a specific stash.
  *
@@ -43,7 +62,7 @@ export class TransactionNotFoundError extends Error {
  * @param userId - The authenticated user's ID
  * @param stashId - The unique identifier of the stash
  * @param query - Query parameters for pagination, filtering, and sorting
- * @returns Paginated response containing transactions and pagination metadata
+ * @returns Paginated response containing transactions (with the other stash of transfers) and pagination metadata
  * @throws StashNotFoundError if the stash is not found or doesn't belong to the user
  * @throws Error if the database query fails
  */
@@ -52,7 +71,7 @@ export async function listStashTransactions(
   userId: string,
   stashId: string,
   query: ListTransactionsQuery
-): Promise<ApiPaginatedResponse<StashTransactionDTO>> {
+): Promise<ApiPaginatedResponse<StashTransactionListItemDTO>> {
   // First, verify the stash exists and belongs to the user
   const { data: stash, error: stashError } = await supabase
     .from("stashes")
@@ -79,7 +98,7 @@ export async function listStashTransactions(
   // Build the base query with filters
   let queryBuilder = supabase
     .from("stash_transactions")
-    .select("id, stash_id, transaction_type, amount, description, created_at", { count: "exact" })
+    .select(TRANSACTION_COLUMNS, { count: "exact" })
     .eq("stash_id", stashId)
     .eq("user_id", userId)
     .is("deleted_at", null);
@@ -111,9 +130,36 @@ export async function listStashTransactions(
     throw new Error("Failed to fetch stash transactions");
   }
 
+  // Look up the stash on the other side of each transfer
+  const transferIds = (data || []).map((transaction) => transaction.transfer_id).filter((id): id is string => !!id);
+  const transferStashes = new Map<string, { id: string; name: string }>();
+
+  if (transferIds.length > 0) {
+    const { data: counterparts, error: counterpartsError } = await supabase
+      .from("stash_transactions")
+      .select("transfer_id, stash:stashes(id, name)")
+      .in("transfer_id", transferIds)
+      .neq("stash_id", stashId)
+      .eq("user_id", userId);
+
+    if (counterpartsError) {
+      console.error("Error fetching transfer counterparts:", counterpartsError);
+      throw new Error("Failed to fetch stash transactions");
+    }
+
+    (counterparts || []).forEach((counterpart) => {
+      if (counterpart.transfer_id && counterpart.stash) {
+        transferStashes.set(counterpart.transfer_id, counterpart.stash);
+      }
+    });
+  }
+
   // Return formatted response
   return {
-    data: data || [],
+    data: (data || []).map((transaction) => ({
+      ...transaction,
+      transfer_stash: (transaction.transfer_id && transferStashes.get(transaction.transfer_id)) || null,
+    })),
     pagination: {
       page,
       limit,
@@ -169,7 +215,7 @@ export async function createTransaction(
       amount: command.amount,
       description: command.description || null,
     })
-    .select("id, stash_id, transaction_type, amount, description, created_at")
+    .select(TRANSACTION_COLUMNS)
     .single();
 
   if (error) {
@@ -201,9 +247,144 @@ export async function createTransaction(
   return data;
 }
 
+/**
+ * Transfers money from one stash to another.
+ * Both rows are created by the create_stash_transfer database function in a single
+ * transaction, so the overdraft check on the source stash rolls back the whole transfer.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param stashId - The stash to withdraw from
+ * @param command - Target stash, amount and optional description
+ * @returns The transfer ID with its withdrawal and deposit rows
+ * @throws StashNotFoundError if either stash is not found or doesn't belong to the user
+ * @throws InsufficientBalanceError if the source stash balance is lower than the amount
+ * @throws Error if the database operation fails
+ */
+export async function createTransfer(
+  supabase: SupabaseClient,
+  userId: string,
+  stashId: string,
+  command: CreateStashTransferCommand
+): Promise<StashTransferDTO> {
+  const { data: transferId, error } = await supabase.rpc("create_stash_transfer", {
+    source_stash_id: stashId,
+    target_stash_id: command.target_stash_id,
+    transfer_amount: command.amount,
+    transfer_description: command.description || null,
+  });
+
+  if (error) {
+    console.error("Error creating transfer:", error);
+
+    // P0001: raise_exception from the function or the balance trigger
+    if (error.code === "P0001" && error.message?.includes("Insufficient balance")) {
+      throw new InsufficientBalanceError("Insufficient balance for transfer");
+    }
+
+    if (error.code === "P0001" && error.message?.includes("Target stash not found")) {
+      throw new StashNotFoundError("Target stash not found");
+    }
+
+    if (error.code === "P0001" && error.message?.includes("Stash not found")) {
+      throw new StashNotFoundError();
+    }
+
+    // 23514: Check constraint violation (e.g., amount must be positive, same stash)
+    if (error.code === "23514" && error.message?.includes("different currencies")) {
+      throw new Error("Validation failed: Cannot transfer between stashes in different currencies");
+    }
+
+    if (error.code === "23514") {
+      throw new Error("Transaction validation failed: " + error.message);
+    }
+
+    throw new Error("Failed to create transfer");
+  }
+
+  const { data, error: fetchError } = await supabase
+    .from("stash_transactions")
+    .select(TRANSACTION_COLUMNS)
+    .eq("transfer_id", transferId)
+    .eq("user_id", userId);
+
+  if (fetchError) {
+    console.error("Error fetching transfer:", fetchError);
+    throw new Error("Failed to fetch transfer");
+  }
+
+  const withdrawal = data?.find((transaction) => transaction.transaction_type === "withdrawal");
+  const deposit = data?.find((transaction) => transaction.transaction_type === "deposit");
+
+  if (!withdrawal || !deposit) {
+    throw new Error("Transfer created but no data returned");
+  }
+
+  return { transfer_id: transferId, withdrawal, deposit };
+}
+
+/**
+ * Records the current market value of a stash.
+ * The record_stash_valuation database function stores the difference to the current
+ * balance as an 'adjustment' transaction, so the balance follows the market without
+ * counting as a deposit or withdrawal.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param stashId - The unique identifier of the stash
+ * @param command - The market value and optional description
+ * @returns The adjustment transaction; its amount is the signed change in value
+ * @throws StashNotFoundError if the stash is not found or doesn't belong to the user
+ * @throws Error if the database operation fails
+ */
+export async function recordValuation(
+  supabase: SupabaseClient,
+  userId: string,
+  stashId: string,
+  command: RecordStashValuationCommand
+): Promise<StashTransactionDTO> {
+  const { data: transactionId, error } = await supabase.rpc("record_stash_valuation", {
+    target_stash_id: stashId,
+    market_value: command.market_value,
+    valuation_description: command.description || null,
+  });
+
+  if (error) {
+    console.error("Error recording valuation:", error);
+
+    // P0001: raise_exception from the function
+    if (error.code === "P0001" && error.message?.includes("Stash not found")) {
+      throw new StashNotFoundError();
+    }
+
+    // 23514: Check constraint violation (e.g., negative market value)
+    if (error.code === "23514") {
+      throw new Error("Transaction validation failed: " + error.message);
+    }
+
+    throw new Error("Failed to record valuation");
+  }
+
+  const { data, error: fetchError } = await supabase
+    .from("stash_transactions")
+    .select(TRANSACTION_COLUMNS)
+    .eq("id", transactionId)
+    .eq("user_id", userId)
+    .single();
+
+  if (fetchError) {
+    console.error("Error fetching valuation:", fetchError);
+    throw new Error("Failed to fetch valuation");
+  }
+
+  return data;
+}
+
 /**
  * Soft-deletes a transaction by setting its deleted_at timestamp.
  * This reverses the transaction's impact on the stash balance via database triggers.
+ * Deleting either side of a transfer deletes both rows in a single update, which
+ * reverses the transfer on both stashes.
  *
  * @param supabase - The Supabase client instance
  * @param userId - The authenticated user's ID
@@ -218,24 +399,96 @@ export async function softDeleteTransaction(
   stashId: string,
   transactionId: string
 ): Promise<void> {
-  // Soft-delete the transaction by setting deleted_at to current timestamp
-  // Include user_id and stash_id in WHERE clause for authorization
-  const { error, count } = await supabase
+  // Look up the transaction, including user_id and stash_id for authorization
+  const { data: transaction, error: fetchError } = await supabase
     .from("stash_transactions")
-    .update({ deleted_at: new Date().toISOString() })
+    .select("id, transfer_id")
     .eq("id", transactionId)
     .eq("stash_id", stashId)
     .eq("user_id", userId)
     .is("deleted_at", null)
-    .select("id", { count: "exact", head: true });
+    .maybeSingle();
+
+  if (fetchError) {
+    console.error("Error fetching transaction:", fetchError);
+    throw new Error("Failed to delete transaction");
+  }
+
+  if (!transaction) {
+    throw new TransactionNotFoundError();
+  }
+
+  // Soft-delete the transaction (or both sides of a transfer) by setting deleted_at
+  let queryBuilder = supabase
+    .from("stash_transactions")
+    .update({ deleted_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .is("deleted_at", null);
+
+  queryBuilder = transaction.transfer_id
+    ? queryBuilder.eq("transfer_id", transaction.transfer_id)
+    : queryBuilder.eq("id", transactionId);
+
+  const { data, error } = await queryBuilder.select("id");
 
   if (error) {
     console.error("Error soft-deleting transaction:", error);
     throw new Error("Failed to delete transaction");
   }
 
-  // If no rows were affected, the transaction doesn't exist or was already deleted
-  if (count === 0) {
+  // If no rows were affected, the transaction was deleted in the meantime
+  if (!data || data.length === 0) {
     throw new TransactionNotFoundError();
   }
 }
+
+/**
+ * Restores a soft-deleted transaction by clearing its deleted_at timestamp.
+ * The balance trigger applies the transaction to the stash again. Restoring either side
+ * of a transfer restores both sides.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @param stashId - The unique identifier of the stash
+ * @param transactionId - The unique identifier of the transaction to restore
+ * @throws TransactionNotFoundError if the transaction is not in the trash or doesn't belong to the user
+ * @throws StashDeletedError if the stash (or the other stash of a transfer) is deleted
+ * @throws InsufficientBalanceError if a restored withdrawal would result in a negative balance
+ * @throws Error if the database operation fails
+ */
+export async function restoreTransaction(
+  supabase: SupabaseClient,
+  userId: string,
+  stashId: string,
+  transactionId: string
+): Promise<void> {
+  const { error } = await supabase.rpc("restore_stash_transaction", {
+    target_stash_id: stashId,
+    target_transaction_id: transactionId,
+  });
+
+  if (error) {
+    console.error("restoreTransaction service error:", {
+      userId,
+      stashId,
+      transactionId,
+      code: error.code,
+      message: error.message,
+    });
+
+    // P0001: raise_exception from the function or the balance trigger
+    if (error.code === "P0001" && error.message?.includes("Transaction not found")) {
+      throw new TransactionNotFoundError();
+    }
+
+    if (error.code === "P0001" && error.message?.includes("Stash is deleted")) {
+      throw new StashDeletedError();
+    }
+
+    if (error.code === "P0001" && error.message?.includes("Insufficient balance")) {
+      throw new InsufficientBalanceError("Restoring this transaction would overdraw the stash");
+    }
+
+    throw new Error("Failed to restore transaction");
+  }
+}
@@ -0,0 +1,129 @@
+import type { SupabaseClient } from "@/db/supabase.client";
+import { TRASH_RETENTION_DAYS } from "@/types";
+import type { TrashDTO, TrashExpenseDTO, TrashPurgeResultDTO, TrashStashDTO, TrashStashTransactionDTO } from "@/types";
+
+/**
+ * Retrieves the user's soft-deleted expenses deleted after the cutoff.
+ */
+async function listDeletedExpenses(
+  supabase: SupabaseClient,
+  userId: string,
+  cutoff: string
+): Promise<TrashExpenseDTO[]> {
+  const { data, error } = await supabase
+    .from("expenses")
+    .select("id, amount, description, expense_date, deleted_at")
+    .gte("deleted_at", cutoff)
+    .order("deleted_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching deleted expenses:", { userId, error });
+    throw new Error("Failed to fetch trash");
+  }
+
+  return data || [];
+}
+
+/**
+ * Retrieves the user's soft-deleted stashes deleted after the cutoff.
+ */
+async function listDeletedStashes(supabase: SupabaseClient, userId: string, cutoff: string): Promise<TrashStashDTO[]> {
+  const { data, error } = await supabase
+    .from("stashes")
+    .select("id, name, currency, deleted_at")
+    .eq("user_id", userId)
+    .gte("deleted_at", cutoff)
+    .order("deleted_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching deleted stashes:", { userId, error });
+    throw new Error("Failed to fetch trash");
+  }
+
+  return data || [];
+}
+
+/**
+ * Retrieves the user's soft-deleted transactions of active stashes deleted after the cutoff.
+ * Transactions of deleted stashes are left out, and only one side of a deleted transfer is kept.
+ */
+async function listDeletedTransactions(
+  supabase: SupabaseClient,
+  userId: string,
+  cutoff: string
+): Promise<TrashStashTransactionDTO[]> {
+  const { data, error } = await supabase
+    .from("stash_transactions")
+    .select(
+      "id, stash_id, transaction_type, amount, currency, description, created_at, transfer_id, deleted_at, stash:stashes(name, deleted_at)"
+    )
+    .eq("user_id", userId)
+    .gte("deleted_at", cutoff)
+    .order("deleted_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching deleted transactions:", { userId, error });
+    throw new Error("Failed to fetch trash");
+  }
+
+  const seenTransfers = new Set<string>();
+  const transactions: TrashStashTransactionDTO[] = [];
+
+  (data || []).forEach(({ stash, ...transaction }) => {
+    if (!stash || stash.deleted_at !== null) return;
+
+    if (transaction.transfer_id) {
+      if (seenTransfers.has(transaction.transfer_id)) return;
+      seenTransfers.add(transaction.transfer_id);
+    }
+
+    transactions.push({ ...transaction, stash_name: stash.name });
+  });
+
+  return transactions;
+}
+
+/**
+ * Retrieves the user's trash: expenses, stashes and stash transactions deleted within the
+ * retention period. Older records are left out but not removed (see purgeTrash).
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @returns The deleted records, newest deletions first, with the retention period in days
+ * @throws Error if a database operation fails
+ */
+export async function listTrash(supabase: SupabaseClient, userId: string): Promise<TrashDTO> {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const [expenses, stashes, transactions] = await Promise.all([
+    listDeletedExpenses(supabase, userId, cutoff),
+    listDeletedStashes(supabase, userId, cutoff),
+    listDeletedTransactions(supabase, userId, cutoff),
+  ]);
+
+  return {
+    retention_days: TRASH_RETENTION_DAYS,
+    expenses,
+    stashes,
+    transactions,
+  };
+}
+
+/**
+ * Hard deletes the user's records that have been in the trash longer than the retention period.
+ *
+ * @param supabase - The Supabase client instance
+ * @param userId - The authenticated user's ID
+ * @returns The number of stashes, transactions and expenses deleted
+ * @throws Error if the database operation fails
+ */
+export async function purgeTrash(supabase: SupabaseClient, userId: string): Promise<TrashPurgeResultDTO> {
+  const { data, error } = await supabase.rpc("purge_deleted_items", { retention_days: TRASH_RETENTION_DAYS });
+
+  if (error) {
+    console.error("Error purging trash:", { userId, error });
+    throw new Error("Failed to purge trash");
+  }
+
+  return { purged: data ?? 0 };
+}
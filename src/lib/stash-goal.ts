@@ -0,0 +1,83 @@
+import type { StashDTO, StashGoalProgressDTO } from "@/types";
+import { DEFAULT_CURRENCY, currencyDecimals, roundStashAmount } from "./currency";
+
+/**
+ * Stash fields needed to work out goal progress; the currency defaults to PLN
+ */
+export type StashGoalFields = Pick<StashDTO, "current_balance" | "goal_amount" | "goal_date"> &
+  Partial<Pick<StashDTO, "currency">>;
+
+/**
+ * Formats a date as YYYY-MM-DD using its local calendar day.
+ */
+function toDateString(date: Date): string {
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+}
+
+/**
+ * Counts the monthly deposit days from today up to the target date, inclusive:
+ * one for every month where today's day of the month still falls on or before the target.
+ * E.g. 2025-11-15 -> 2025-12-31 is 2 (Nov 15, Dec 15), 2025-11-15 -> 2025-12-01 is 1.
+ */
+export function countDepositMonths(today: string, goalDate: string): number {
+  const [todayYear, todayMonth, todayDay] = today.split("-").map(Number);
+  const [goalYear, goalMonth, goalDay] = goalDate.split("-").map(Number);
+
+  const monthDiff = (goalYear - todayYear) * 12 + (goalMonth - todayMonth);
+  return Math.max(monthDiff + (goalDay >= todayDay ? 1 : 0), 0);
+}
+
+/**
+ * Computes how far a stash is from its savings goal.
+ *
+ * @param stash - The stash's balance and goal
+ * @param today - Reference date (defaults to now)
+ * @returns Goal progress, or null if the stash has no goal
+ */
+export function computeStashGoalProgress(
+  stash: StashGoalFields,
+  today: Date = new Date()
+): StashGoalProgressDTO | null {
+  if (stash.goal_amount === null || stash.goal_amount === undefined) {
+    return null;
+  }
+
+  const goalAmount = Number(stash.goal_amount);
+  const balance = Number(stash.current_balance);
+  const remaining = Math.max(roundStashAmount(goalAmount - balance), 0);
+  const isReached = remaining === 0;
+  const percentage = Math.min(Math.max((balance / goalAmount) * 100, 0), 100);
+
+  if (!stash.goal_date) {
+    return {
+      goalAmount,
+      goalDate: null,
+      percentage,
+      remaining,
+      monthsLeft: null,
+      monthlyNeeded: null,
+      isReached,
+      isOverdue: false,
+    };
+  }
+
+  const monthsLeft = countDepositMonths(toDateString(today), stash.goal_date);
+  // Round the monthly deposit up to the smallest unit of the currency (cents, satoshis...)
+  const unit = 10 ** currencyDecimals(stash.currency ?? DEFAULT_CURRENCY);
+  const isOverdue = !isReached && monthsLeft === 0;
+
+  return {
+    goalAmount,
+    goalDate: stash.goal_date,
+    percentage,
+    remaining,
+    monthsLeft,
+    monthlyNeeded: isReached ? 0 : isOverdue ? null : Math.ceil(Math.round(remaining * unit) / monthsLeft) / unit,
+    isReached,
+    isOverdue,
+  };
+}
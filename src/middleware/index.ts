@@ -1,6 +1,9 @@
 import { defineMiddleware } from "astro:middleware";
 
-import { createSupabaseServerInstance } from "../db/supabase.client.ts";
+import { createSupabaseServerInstance, createSupabaseSessionlessInstance } from "../db/supabase.client.ts";
+import { parseBearerToken, requiredApiTokenScope, signSupabaseAccessToken } from "../lib/api-tokens.ts";
+import { authenticateApiToken } from "../lib/services/api-token.service.ts";
+import type { ErrorResponse } from "../types.ts";
 
 // Public auth pages that don't require authentication
 const PUBLIC_AUTH_PATHS = ["/login", "/register", "/reset-password", "/update-password"];
@@ -16,12 +19,75 @@ const PUBLIC_API_PATHS = [
   "/api/auth/verify-recovery",
 ];
 
+// API endpoints that complete the second sign-in step; the only other endpoints a session
+// still waiting for its second factor may reach besides PUBLIC_API_PATHS
+const MFA_PENDING_API_PATHS = ["/api/auth/mfa/verify", "/api/auth/mfa/recover"];
+
 // Protected app routes
 const PROTECTED_PATH_PREFIX = "/app";
 
+/**
+ * JSON error response of the API token checks
+ */
+function apiTokenErrorResponse(status: number, errorResponse: ErrorResponse): Response {
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
 export const onRequest = defineMiddleware(async (context, next) => {
   const { cookies, url, request, redirect, locals } = context;
 
+  // Scripts call the API with a personal API token instead of the session cookie
+  const apiToken = url.pathname.startsWith("/api/") ? parseBearerToken(request.headers.get("Authorization")) : null;
+
+  if (apiToken) {
+    const jwtSecret = process.env.SUPABASE_JWT_SECRET;
+
+    if (!jwtSecret) {
+      console.error("API token authentication error: SUPABASE_JWT_SECRET is not configured");
+      return apiTokenErrorResponse(500, {
+        error: "Internal server error",
+        message: "An unexpected error occurred",
+      });
+    }
+
+    try {
+      const tokenOwner = await authenticateApiToken(createSupabaseSessionlessInstance(), apiToken);
+
+      if (!tokenOwner) {
+        return apiTokenErrorResponse(401, { error: "Unauthorized", message: "Invalid API token" });
+      }
+
+      const requiredScope = requiredApiTokenScope(request.method, url.pathname);
+
+      if (!requiredScope) {
+        return apiTokenErrorResponse(403, { error: "Forbidden", message: "API tokens cannot access this endpoint" });
+      }
+
+      if (!tokenOwner.scopes.includes(requiredScope)) {
+        return apiTokenErrorResponse(403, {
+          error: "Forbidden",
+          message: `This API token does not have the ${requiredScope} scope`,
+        });
+      }
+
+      // RLS sees the token's owner as the signed-in user
+      const accessToken = await signSupabaseAccessToken({ id: tokenOwner.userId, email: tokenOwner.email }, jwtSecret);
+      locals.supabase = createSupabaseSessionlessInstance(accessToken);
+      locals.user = { id: tokenOwner.userId, email: tokenOwner.email };
+    } catch (err) {
+      console.error("API token authentication error:", err);
+      return apiTokenErrorResponse(500, {
+        error: "Internal server error",
+        message: "An unexpected error occurred",
+      });
+    }
+
+    return next();
+  }
+
   // Create server-side Supabase client with SSR support
   const supabase = createSupabaseServerInstance({
     cookies,
@@ -42,20 +108,43 @@ export const onRequest = defineMiddleware(async (context, next) => {
       id: user.id,
       email: user.email ?? null,
     };
+
+    // A user with a verified TOTP factor has to pass it before the session counts as signed in
+    const { data: assurance } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+    locals.mfaPending = assurance?.nextLevel === "aal2" && assurance.currentLevel !== "aal2";
   }
 
   const pathname = url.pathname;
 
   // If user is authenticated and trying to access public auth pages, redirect to dashboard
-  if (user && PUBLIC_AUTH_PATHS.includes(pathname)) {
+  // (unless the second sign-in step is still open, which is shown on the login page)
+  if (user && !locals.mfaPending && PUBLIC_AUTH_PATHS.includes(pathname)) {
     return redirect("/app/dashboard");
   }
 
   // If user is not authenticated and trying to access protected routes, redirect to login
-  if (!user && pathname.startsWith(PROTECTED_PATH_PREFIX)) {
+  if ((!user || locals.mfaPending) && pathname.startsWith(PROTECTED_PATH_PREFIX)) {
     return redirect("/login");
   }
 
+  // A session without the second factor cannot reach the data APIs
+  if (
+    locals.mfaPending &&
+    pathname.startsWith("/api/") &&
+    !PUBLIC_API_PATHS.includes(pathname) &&
+    !MFA_PENDING_API_PATHS.includes(pathname)
+  ) {
+    const errorResponse: ErrorResponse = {
+      error: "Unauthorized",
+      message: "Two-factor verification required",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 401,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
   // Allow public API paths without authentication
   if (PUBLIC_API_PATHS.includes(pathname)) {
     return next();
@@ -0,0 +1,93 @@
+import type { APIRoute } from "astro";
+import { ListActivityQuerySchema } from "@/types";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import { listActivity } from "@/lib/services/activity.service";
+
+export const prerender = false;
+
+/**
+ * GET /api/activity
+ * Retrieves the authenticated user's audit log, newest first: every insert, update,
+ * (soft) delete and restore of their expenses, month budgets, stashes and stash transactions,
+ * including the balance changes made by database triggers. Includes the history of the
+ * household's expenses and month budgets added by other members.
+ *
+ * Query Parameters:
+ * - page: number (optional, default: 1) - Page number
+ * - limit: number (optional, default: 20, max: 100) - Entries per page
+ * - entity_type: "expense" | "month_budget" | "stash" | "stash_transaction" (optional) - Filter by kind of record
+ * - entity_id: string (UUID, optional) - History of a single record; requires entity_type
+ *
+ * Returns:
+ * - 200: { data: ActivityEntryDTO[], pagination }
+ * - 400: Invalid query parameters
+ * - 401: User not authenticated
+ * - 500: Internal server error
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to access this resource.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse and validate query parameters
+    const queryParams = {
+      page: url.searchParams.get("page") || undefined,
+      limit: url.searchParams.get("limit") || undefined,
+      entity_type: url.searchParams.get("entity_type") || undefined,
+      entity_id: url.searchParams.get("entity_id") || undefined,
+    };
+
+    const queryValidation = ListActivityQuerySchema.safeParse(queryParams);
+
+    if (!queryValidation.success) {
+      const errors: Record<string, string[]> = {};
+      queryValidation.error.errors.forEach((err) => {
+        const path = err.path.join(".") || "query";
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid query parameters",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const result = await listActivity(locals.supabase, locals.user.id, queryValidation.data);
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    console.error("List activity endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to retrieve activity. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
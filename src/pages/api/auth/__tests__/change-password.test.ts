@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const checkClient = {
+  auth: {
+    signInWithPassword: vi.fn(),
+    signOut: vi.fn(),
+  },
+};
+
+vi.mock("@/db/supabase.client", () => ({
+  createSupabaseSessionlessInstance: () => checkClient,
+}));
+
+import { POST } from "../change-password";
+
+/**
+ * A request session that has passed the second factor. Signing in on it again
+ * would replace it with a password-only (aal1) session, as the cookie client does.
+ */
+function createRequestSession() {
+  const state = { currentLevel: "aal2" };
+
+  return {
+    state,
+    auth: {
+      signInWithPassword: vi.fn(async () => {
+        state.currentLevel = "aal1";
+        return { error: null };
+      }),
+      updateUser: vi.fn(async () => ({ error: null })),
+    },
+  };
+}
+
+function callChangePassword(supabase: ReturnType<typeof createRequestSession>, currentPassword: string) {
+  const request = new Request("http://localhost/api/auth/change-password", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ currentPassword, password: "N3w-password!", confirmPassword: "N3w-password!" }),
+  });
+
+  return POST({
+    request,
+    locals: { supabase, user: { id: "user-1", email: "me@example.com" } },
+  } as unknown as Parameters<typeof POST>[0]);
+}
+
+describe("POST /api/auth/change-password", () => {
+  beforeEach(() => {
+    checkClient.auth.signInWithPassword.mockReset();
+    checkClient.auth.signOut.mockReset().mockResolvedValue({ error: null });
+  });
+
+  it("checks the password without touching the request's aal2 session", async () => {
+    checkClient.auth.signInWithPassword.mockResolvedValue({ error: null });
+    const session = createRequestSession();
+
+    const response = await callChangePassword(session, "0ld-password!");
+
+    expect(response.status).toBe(204);
+    expect(checkClient.auth.signInWithPassword).toHaveBeenCalledWith({
+      email: "me@example.com",
+      password: "0ld-password!",
+    });
+    expect(checkClient.auth.signOut).toHaveBeenCalledWith({ scope: "local" });
+    expect(session.auth.signInWithPassword).not.toHaveBeenCalled();
+    expect(session.state.currentLevel).toBe("aal2");
+    expect(session.auth.updateUser).toHaveBeenCalledWith({ password: "N3w-password!" });
+  });
+
+  it("rejects a wrong current password", async () => {
+    checkClient.auth.signInWithPassword.mockResolvedValue({ error: { message: "Invalid login credentials" } });
+    const session = createRequestSession();
+
+    const response = await callChangePassword(session, "wrong");
+
+    expect(response.status).toBe(403);
+    expect(checkClient.auth.signOut).not.toHaveBeenCalled();
+    expect(session.auth.updateUser).not.toHaveBeenCalled();
+  });
+});
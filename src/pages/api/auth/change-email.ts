@@ -0,0 +1,142 @@
+import type { APIRoute } from "astro";
+
+import { verifyPassword } from "@/lib/services/account.service";
+import { ChangeEmailSchema } from "@/types";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+
+export const prerender = false;
+
+/**
+ * POST /api/auth/change-email
+ * Starts an email change for the authenticated user. The new address only takes effect
+ * once the user follows the confirmation link sent to it; until then they keep signing in
+ * with the current one.
+ *
+ * Request Body:
+ * - email: string (required) - The new email address
+ * - password: string (required) - The user's current password
+ *
+ * Returns:
+ * - 200: Confirmation email sent
+ * - 400: Invalid request body, or the email is the current one
+ * - 401: User not authenticated
+ * - 403: Password is incorrect
+ * - 409: The email is already used by another account
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ request, locals, url }) => {
+  try {
+    const { user } = locals;
+
+    if (!user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to change your email",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = ChangeEmailSchema.safeParse(body);
+
+    if (!validation.success) {
+      const errors: Record<string, string[]> = {};
+      validation.error.errors.forEach((err) => {
+        const path = err.path.join(".");
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid input data",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { email, password } = validation.data;
+
+    if (email.toLowerCase() === user.email?.toLowerCase()) {
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid input data",
+        errors: { email: ["This is already your email address"] },
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const isPasswordCorrect = await verifyPassword(user.email, password);
+
+    if (!isPasswordCorrect) {
+      const errorResponse: ErrorResponse = {
+        error: "Forbidden",
+        message: "Password is incorrect",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Supabase sends the confirmation link and only switches the address once it is followed
+    const { error: updateError } = await locals.supabase.auth.updateUser(
+      { email },
+      { emailRedirectTo: `${url.origin}/app/settings` }
+    );
+
+    if (updateError) {
+      if (updateError.code === "email_exists") {
+        const errorResponse: ErrorResponse = {
+          error: "Conflict",
+          message: "This email is already used by another account",
+        };
+
+        return new Response(JSON.stringify(errorResponse), {
+          status: 409,
+          headers: { "Content-Type": "application/json" },
+        });
+      }
+
+      throw updateError;
+    }
+
+    return new Response(
+      JSON.stringify({
+        message: `We sent a confirmation link to ${email}. Your email changes once you follow it.`,
+      }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  } catch (err) {
+    console.error("Change email endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "We couldn't change your email right now. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,122 @@
+import type { APIRoute } from "astro";
+
+import { verifyPassword } from "@/lib/services/account.service";
+import { ChangePasswordSchema } from "@/types";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+
+export const prerender = false;
+
+/**
+ * POST /api/auth/change-password
+ * Changes the authenticated user's password after checking the current one.
+ *
+ * Request Body:
+ * - currentPassword: string (required) - The user's current password
+ * - password: string (required) - The new password (same rules as registration)
+ * - confirmPassword: string (required) - Must match password
+ *
+ * Returns:
+ * - 204: Password changed
+ * - 400: Invalid request body
+ * - 401: User not authenticated
+ * - 403: Current password is incorrect
+ * - 422: The new password was rejected by the auth server
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const { user } = locals;
+
+    if (!user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to change your password",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = ChangePasswordSchema.safeParse(body);
+
+    if (!validation.success) {
+      const errors: Record<string, string[]> = {};
+      validation.error.errors.forEach((err) => {
+        const path = err.path.join(".");
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid input data",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { currentPassword, password } = validation.data;
+
+    const isPasswordCorrect = await verifyPassword(user.email, currentPassword);
+
+    if (!isPasswordCorrect) {
+      const errorResponse: ErrorResponse = {
+        error: "Forbidden",
+        message: "Current password is incorrect",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { error: updateError } = await locals.supabase.auth.updateUser({ password });
+
+    if (updateError) {
+      const status = "status" in updateError ? (updateError.status as number) : 500;
+
+      if (status >= 500) {
+        throw updateError;
+      }
+
+      const errorResponse: ErrorResponse = {
+        error: "Password change failed",
+        message:
+          updateError.code === "same_password"
+            ? "New password must be different from the current one"
+            : "We couldn't change your password. Please choose a different one.",
+        details: { code: updateError.code },
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 422,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(null, { status: 204 });
+  } catch (err) {
+    console.error("Change password endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "We couldn't change your password right now. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,120 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+
+import { createSupabaseAdminClient } from "@/db/supabase.admin";
+import { deleteAccount, verifyPassword } from "@/lib/services/account.service";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+
+export const prerender = false;
+
+// Validation schema for account deletion request
+const deleteAccountSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+});
+
+/**
+ * POST /api/auth/delete-account
+ * Permanently deletes the authenticated user's account and all of their data, then signs them out.
+ *
+ * Request Body:
+ * - password: string (required) - The user's current password, re-checked before anything is deleted
+ *
+ * Returns:
+ * - 204: Account deleted
+ * - 400: Invalid request body
+ * - 401: User not authenticated
+ * - 403: Password is incorrect
+ * - 500: Internal server error (including a missing service role configuration)
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const { user } = locals;
+
+    if (!user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to delete your account",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = deleteAccountSchema.safeParse(body);
+
+    if (!validation.success) {
+      const errors: Record<string, string[]> = {};
+      validation.error.errors.forEach((err) => {
+        const path = err.path.join(".");
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid input data",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const adminClient = createSupabaseAdminClient();
+
+    if (!adminClient) {
+      console.error("Delete account endpoint error: SUPABASE_SERVICE_ROLE_KEY is not configured");
+
+      const errorResponse: ErrorResponse = {
+        error: "Internal server error",
+        message: "We couldn't delete your account right now. Please try again later.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const isPasswordCorrect = await verifyPassword(user.email, validation.data.password);
+
+    if (!isPasswordCorrect) {
+      const errorResponse: ErrorResponse = {
+        error: "Forbidden",
+        message: "Password is incorrect",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    await deleteAccount(adminClient, user.id);
+
+    // The user no longer exists on the server, so only the session cookies need clearing
+    await locals.supabase.auth.signOut({ scope: "local" });
+
+    return new Response(null, { status: 204 });
+  } catch (err) {
+    console.error("Delete account endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "We couldn't delete your account right now. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
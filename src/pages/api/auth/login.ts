@@ -70,6 +70,10 @@ export const POST: APIRoute = async ({ request, locals }) => {
       });
     }
 
+    // Users with two-factor authentication continue with POST /api/auth/mfa/verify
+    const { data: assurance } = await locals.supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+    const mfaRequired = assurance?.nextLevel === "aal2" && assurance.currentLevel !== "aal2";
+
     // Return success response with user data
     return new Response(
       JSON.stringify({
@@ -77,6 +81,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
           id: data.user.id,
           email: data.user.email,
         },
+        mfaRequired,
       }),
       {
         status: 200,
@@ -0,0 +1,105 @@
+import type { APIRoute } from "astro";
+
+import { createSupabaseAdminClient } from "@/db/supabase.admin";
+import { activateMfa, InvalidMfaCodeError } from "@/lib/services/mfa.service";
+import { ActivateMfaSchema } from "@/types";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+
+export const prerender = false;
+
+/**
+ * POST /api/auth/mfa/activate
+ * Confirms a factor started with POST /api/auth/mfa/enroll and turns two-factor authentication on.
+ *
+ * Request Body:
+ * - factorId: string (UUID, required) - The factor returned by the enroll endpoint
+ * - code: string (6 digits, required) - The current code from the authenticator app
+ *
+ * Returns:
+ * - 200: { data: MfaRecoveryCodesDTO } - The recovery codes, shown to the user once
+ * - 400: Invalid request body
+ * - 401: User not authenticated
+ * - 403: Wrong code
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const { user } = locals;
+
+    if (!user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to set up two-factor authentication",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = ActivateMfaSchema.safeParse(body);
+
+    if (!validation.success) {
+      const errors: Record<string, string[]> = {};
+      validation.error.errors.forEach((err) => {
+        const path = err.path.join(".");
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid input data",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const adminClient = createSupabaseAdminClient();
+
+    if (!adminClient) {
+      throw new Error("SUPABASE_SERVICE_ROLE_KEY is not configured");
+    }
+
+    const { factorId, code } = validation.data;
+    const recoveryCodes = await activateMfa(locals.supabase, adminClient, user.id, factorId, code);
+
+    return new Response(JSON.stringify({ data: recoveryCodes }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    if (err instanceof InvalidMfaCodeError) {
+      const errorResponse: ErrorResponse = {
+        error: "Forbidden",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("MFA activate endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "An unexpected error occurred",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,113 @@
+import type { APIRoute } from "astro";
+
+import { createSupabaseAdminClient } from "@/db/supabase.admin";
+import { disableMfa, InvalidMfaCodeError, MfaStateError } from "@/lib/services/mfa.service";
+import { MfaCodeSchema } from "@/types";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+
+export const prerender = false;
+
+/**
+ * POST /api/auth/mfa/disable
+ * Turns two-factor authentication off and deletes the remaining recovery codes.
+ *
+ * Request Body:
+ * - code: string (6 digits, required) - The current code from the authenticator app
+ *
+ * Returns:
+ * - 204: Two-factor authentication turned off
+ * - 400: Invalid request body
+ * - 401: User not authenticated
+ * - 403: Wrong code
+ * - 409: Two-factor authentication is not enabled
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const { user } = locals;
+
+    if (!user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to turn off two-factor authentication",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = MfaCodeSchema.safeParse(body);
+
+    if (!validation.success) {
+      const errors: Record<string, string[]> = {};
+      validation.error.errors.forEach((err) => {
+        const path = err.path.join(".");
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid input data",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const adminClient = createSupabaseAdminClient();
+
+    if (!adminClient) {
+      throw new Error("SUPABASE_SERVICE_ROLE_KEY is not configured");
+    }
+
+    await disableMfa(locals.supabase, adminClient, user.id, validation.data.code);
+
+    return new Response(null, { status: 204 });
+  } catch (err) {
+    if (err instanceof InvalidMfaCodeError) {
+      const errorResponse: ErrorResponse = {
+        error: "Forbidden",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (err instanceof MfaStateError) {
+      const errorResponse: ErrorResponse = {
+        error: "Conflict",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("MFA disable endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "An unexpected error occurred",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
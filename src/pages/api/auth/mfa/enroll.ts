@@ -0,0 +1,66 @@
+import type { APIRoute } from "astro";
+
+import { MfaStateError, startMfaEnrollment } from "@/lib/services/mfa.service";
+import type { ErrorResponse } from "@/types";
+
+export const prerender = false;
+
+/**
+ * POST /api/auth/mfa/enroll
+ * Starts setting up two-factor authentication with an authenticator app.
+ * The returned factor is confirmed with POST /api/auth/mfa/activate.
+ *
+ * Returns:
+ * - 200: { data: MfaEnrollmentDTO } with the QR code and secret
+ * - 401: User not authenticated
+ * - 409: Two-factor authentication is already enabled
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ locals }) => {
+  try {
+    const { user } = locals;
+
+    if (!user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to set up two-factor authentication",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const enrollment = await startMfaEnrollment(locals.supabase);
+
+    return new Response(JSON.stringify({ data: enrollment }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    if (err instanceof MfaStateError) {
+      const errorResponse: ErrorResponse = {
+        error: "Conflict",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("MFA enroll endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "An unexpected error occurred",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
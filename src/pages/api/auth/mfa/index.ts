@@ -0,0 +1,52 @@
+import type { APIRoute } from "astro";
+
+import { getMfaStatus } from "@/lib/services/mfa.service";
+import type { ErrorResponse } from "@/types";
+
+export const prerender = false;
+
+/**
+ * GET /api/auth/mfa
+ * Retrieves whether two-factor authentication is enabled for the authenticated user.
+ *
+ * Returns:
+ * - 200: { data: MfaStatusDTO }
+ * - 401: User not authenticated
+ * - 500: Internal server error
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    const { user } = locals;
+
+    if (!user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to view two-factor settings",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const status = await getMfaStatus(locals.supabase, user.id);
+
+    return new Response(JSON.stringify({ data: status }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    console.error("MFA status endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "An unexpected error occurred",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
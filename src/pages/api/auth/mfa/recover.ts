@@ -0,0 +1,101 @@
+import type { APIRoute } from "astro";
+
+import { createSupabaseAdminClient } from "@/db/supabase.admin";
+import { InvalidMfaCodeError, recoverWithCode } from "@/lib/services/mfa.service";
+import { MfaRecoverySchema } from "@/types";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+
+export const prerender = false;
+
+/**
+ * POST /api/auth/mfa/recover
+ * Second sign-in step with a recovery code, for users who lost their authenticator app.
+ * Two-factor authentication is turned off afterwards and can be set up again in the settings.
+ *
+ * Request Body:
+ * - code: string (required) - One of the recovery codes issued when two-factor authentication was enabled
+ *
+ * Returns:
+ * - 204: Signed in, two-factor authentication turned off
+ * - 400: Invalid request body
+ * - 401: User not authenticated
+ * - 403: Wrong recovery code
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const { user } = locals;
+
+    if (!user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "Sign in with your email and password first",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = MfaRecoverySchema.safeParse(body);
+
+    if (!validation.success) {
+      const errors: Record<string, string[]> = {};
+      validation.error.errors.forEach((err) => {
+        const path = err.path.join(".");
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid input data",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const adminClient = createSupabaseAdminClient();
+
+    if (!adminClient) {
+      throw new Error("SUPABASE_SERVICE_ROLE_KEY is not configured");
+    }
+
+    await recoverWithCode(locals.supabase, adminClient, user.id, validation.data.code);
+
+    return new Response(null, { status: 204 });
+  } catch (err) {
+    if (err instanceof InvalidMfaCodeError) {
+      const errorResponse: ErrorResponse = {
+        error: "Forbidden",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("MFA recover endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "An unexpected error occurred",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -1,6 +1,7 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
 
+import { NewPasswordSchema, refineNewPassword } from "@/types";
 import type { ErrorResponse, ValidationErrorResponse } from "@/types";
 
 export const prerender = false;
@@ -9,29 +10,10 @@ export const prerender = false;
 const registerSchema = z
   .object({
     email: z.string().trim().min(1, "Email is required").email("Enter a valid email"),
-    password: z
-      .string()
-      .min(6, "Password must be at least 6 characters long")
-      .regex(/[^A-Za-z0-9]/, "Include at least one special character"),
+    password: NewPasswordSchema,
     confirmPassword: z.string().min(1, "Confirm your password"),
   })
-  .superRefine((data, ctx) => {
-    if (data.password.trim() !== data.password) {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        path: ["password"],
-        message: "Password cannot include leading or trailing spaces",
-      });
-    }
-
-    if (data.password !== data.confirmPassword) {
-      ctx.addIssue({
-        code: z.ZodIssueCode.custom,
-        path: ["confirmPassword"],
-        message: "Passwords must match",
-      });
-    }
-  });
+  .superRefine(refineNewPassword);
 
 export const POST: APIRoute = async ({ request, locals }) => {
   try {
@@ -0,0 +1,85 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+
+import { ApiTokenNotFoundError, deleteApiToken } from "@/lib/services/api-token.service";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+
+export const prerender = false;
+
+/**
+ * DELETE /api/auth/tokens/{tokenId}
+ * Revokes a personal API token of the authenticated user.
+ *
+ * Path Parameters:
+ * - tokenId: string (UUID) - The ID of the token to revoke
+ *
+ * Returns:
+ * - 204: Token revoked (no content)
+ * - 400: Invalid token ID format
+ * - 401: User not authenticated
+ * - 404: Token not found or doesn't belong to user
+ * - 500: Internal server error
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    const { user } = locals;
+
+    if (!user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to revoke an API token.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate tokenId path parameter
+    const idValidation = z.string().uuid("Invalid token ID format").safeParse(params.tokenId);
+
+    if (!idValidation.success) {
+      const errorResponse: ValidationErrorResponse = {
+        error: "Bad Request",
+        message: "Invalid token ID format",
+        errors: { tokenId: idValidation.error.errors.map((err) => err.message) },
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    await deleteApiToken(locals.supabase, user.id, idValidation.data);
+
+    return new Response(null, {
+      status: 204,
+    });
+  } catch (err) {
+    if (err instanceof ApiTokenNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("Revoke API token endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "An unexpected error occurred",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
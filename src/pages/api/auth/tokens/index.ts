@@ -0,0 +1,146 @@
+import type { APIRoute } from "astro";
+
+import { createApiToken, listApiTokens } from "@/lib/services/api-token.service";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import { CreateApiTokenSchema } from "@/types";
+
+export const prerender = false;
+
+/**
+ * GET /api/auth/tokens
+ * Lists the personal API tokens of the authenticated user (without the tokens themselves).
+ *
+ * Returns:
+ * - 200: { data: ApiTokenDTO[] }, newest first
+ * - 401: User not authenticated
+ * - 500: Internal server error
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    const { user } = locals;
+
+    if (!user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to access this resource.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const tokens = await listApiTokens(locals.supabase, user.id);
+
+    return new Response(JSON.stringify({ data: tokens }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    console.error("List API tokens endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "An unexpected error occurred",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * POST /api/auth/tokens
+ * Creates a personal API token. Scripts send it as `Authorization: Bearer <token>`.
+ * Only available with a signed-in session, never with another API token.
+ *
+ * Request Body:
+ * - name: string (required, 1-100 characters) - What the token is used for
+ * - scopes: ("read" | "expenses:write")[] (required, at least one)
+ *
+ * Returns:
+ * - 201: { data: CreatedApiTokenDTO } including the plain token, which is not shown again
+ * - 400: Invalid request body
+ * - 401: User not authenticated
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    const { user } = locals;
+
+    if (!user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to create an API token.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      const errorResponse: ErrorResponse = {
+        error: "Invalid JSON",
+        message: "Request body must be valid JSON.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body
+    const validation = CreateApiTokenSchema.safeParse(body);
+
+    if (!validation.success) {
+      const errors: Record<string, string[]> = {};
+      validation.error.errors.forEach((err) => {
+        const path = err.path.join(".") || "body";
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid request body",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const token = await createApiToken(locals.supabase, user.id, validation.data);
+
+    return new Response(JSON.stringify({ data: token }), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    console.error("Create API token endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "An unexpected error occurred",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
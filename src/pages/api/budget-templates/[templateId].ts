@@ -0,0 +1,233 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { SaveBudgetTemplateDto } from "@/types";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import {
+  updateBudgetTemplate,
+  deleteBudgetTemplate,
+  BudgetTemplateNotFoundError,
+  DuplicateBudgetTemplateError,
+} from "@/lib/services/budget-template.service";
+import { CategoryNotFoundError } from "@/lib/services/expense.service";
+
+export const prerender = false;
+
+/**
+ * Zod schema for validating the templateId path parameter
+ */
+const TemplateIdParamSchema = z.string().uuid("Invalid budget template ID format");
+
+/**
+ * PUT /api/budget-templates/{templateId}
+ * Replaces a budget template of the authenticated user, including all its allocations.
+ * Months the template was applied to before are not changed.
+ *
+ * Path Parameters:
+ * - templateId: string (UUID) - The ID of the template to replace
+ *
+ * Request Body:
+ * - name, budget_set, categories (same rules as POST /api/budget-templates)
+ *
+ * Returns:
+ * - 200: Budget template updated successfully
+ * - 400: Invalid ID format or validation errors
+ * - 401: User not authenticated
+ * - 404: Budget template or category not found
+ * - 409: Another template with this name already exists
+ * - 500: Internal server error
+ */
+export const PUT: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to update a budget template.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate templateId path parameter
+    const idValidation = TemplateIdParamSchema.safeParse(params.templateId);
+
+    if (!idValidation.success) {
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid budget template ID format",
+        errors: { templateId: [idValidation.error.errors[0].message] },
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      const errorResponse: ErrorResponse = {
+        error: "Bad Request",
+        message: "Invalid JSON in request body.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body
+    const validation = SaveBudgetTemplateDto.safeParse(body);
+
+    if (!validation.success) {
+      const errors: Record<string, string[]> = {};
+      validation.error.errors.forEach((err) => {
+        const path = err.path.join(".") || "body";
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid request body",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const template = await updateBudgetTemplate(locals.supabase, locals.user.id, idValidation.data, validation.data);
+
+    return new Response(JSON.stringify({ data: template }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    if (err instanceof BudgetTemplateNotFoundError || err instanceof CategoryNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (err instanceof DuplicateBudgetTemplateError) {
+      const errorResponse: ErrorResponse = {
+        error: "Conflict",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("Update budget template endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to update budget template. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * DELETE /api/budget-templates/{templateId}
+ * Deletes a budget template of the authenticated user.
+ * Months the template was applied to keep their budgets.
+ *
+ * Path Parameters:
+ * - templateId: string (UUID) - The ID of the template to delete
+ *
+ * Returns:
+ * - 204: Budget template deleted successfully (no content)
+ * - 400: Invalid ID format
+ * - 401: User not authenticated
+ * - 404: Budget template not found or doesn't belong to user
+ * - 500: Internal server error
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to delete a budget template.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate templateId path parameter
+    const idValidation = TemplateIdParamSchema.safeParse(params.templateId);
+
+    if (!idValidation.success) {
+      const errorResponse: ValidationErrorResponse = {
+        error: "Bad Request",
+        message: "Invalid budget template ID format",
+        errors: { templateId: [idValidation.error.errors[0].message] },
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    await deleteBudgetTemplate(locals.supabase, locals.user.id, idValidation.data);
+
+    // Return 204 No Content on success
+    return new Response(null, {
+      status: 204,
+    });
+  } catch (err) {
+    if (err instanceof BudgetTemplateNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("Delete budget template endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to delete budget template. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
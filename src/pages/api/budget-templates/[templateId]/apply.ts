@@ -0,0 +1,138 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { ApplyBudgetTemplateDto } from "@/types";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import { applyBudgetTemplate, BudgetTemplateNotFoundError } from "@/lib/services/budget-template.service";
+import { CategoryNotFoundError } from "@/lib/services/expense.service";
+
+export const prerender = false;
+
+/**
+ * Zod schema for validating the templateId path parameter
+ */
+const TemplateIdParamSchema = z.string().uuid("Invalid budget template ID format");
+
+/**
+ * POST /api/budget-templates/{templateId}/apply
+ * Applies a budget template to every month of a range: sets budget_set and replaces the
+ * category allocations of each month, creating missing budgets. All months are set at once;
+ * if one fails, none are changed.
+ *
+ * Path Parameters:
+ * - templateId: string (UUID) - The ID of the template to apply
+ *
+ * Request Body:
+ * - from_month: string (YYYY-MM) - First month of the range
+ * - to_month: string (YYYY-MM) - Last month of the range (inclusive, at most 24 months)
+ *
+ * Returns:
+ * - 200: Template applied; returns the months that were set
+ * - 400: Invalid ID format, request body or validation errors
+ * - 401: User not authenticated
+ * - 404: Budget template or category not found
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to apply a budget template.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate templateId path parameter
+    const idValidation = TemplateIdParamSchema.safeParse(params.templateId);
+
+    if (!idValidation.success) {
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid budget template ID format",
+        errors: { templateId: [idValidation.error.errors[0].message] },
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      const errorResponse: ErrorResponse = {
+        error: "Bad Request",
+        message: "Invalid JSON in request body.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body
+    const validation = ApplyBudgetTemplateDto.safeParse(body);
+
+    if (!validation.success) {
+      const errors: Record<string, string[]> = {};
+      validation.error.errors.forEach((err) => {
+        const path = err.path.join(".") || "body";
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid request body",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const result = await applyBudgetTemplate(locals.supabase, locals.user.id, idValidation.data, validation.data);
+
+    return new Response(JSON.stringify({ data: result }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    if (err instanceof BudgetTemplateNotFoundError || err instanceof CategoryNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("Apply budget template endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to apply budget template. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
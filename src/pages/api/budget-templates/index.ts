@@ -0,0 +1,175 @@
+import type { APIRoute } from "astro";
+import { SaveBudgetTemplateDto } from "@/types";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import {
+  listBudgetTemplates,
+  createBudgetTemplate,
+  DuplicateBudgetTemplateError,
+} from "@/lib/services/budget-template.service";
+import { CategoryNotFoundError } from "@/lib/services/expense.service";
+
+export const prerender = false;
+
+/**
+ * GET /api/budget-templates
+ * Retrieves all budget templates of the authenticated user with their category allocations.
+ *
+ * Returns:
+ * - 200: List of budget templates
+ * - 401: User not authenticated
+ * - 500: Internal server error
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to access this resource.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const templates = await listBudgetTemplates(locals.supabase, locals.user.id);
+
+    return new Response(JSON.stringify({ data: templates }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    console.error("List budget templates endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to retrieve budget templates. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * POST /api/budget-templates
+ * Creates a named budget template for the authenticated user.
+ *
+ * Request Body:
+ * - name: string (required, max 100 chars, unique per user) - Template name
+ * - budget_set: number (positive, max 2 decimal places) - Monthly budget
+ * - categories: array (optional, max 100) of { category_id: UUID, amount: number } - Allocations,
+ *   each category at most once, total not above budget_set
+ *
+ * Returns:
+ * - 201: Budget template created successfully
+ * - 400: Invalid request body or validation errors
+ * - 401: User not authenticated
+ * - 404: Category not found
+ * - 409: A template with this name already exists
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to create a budget template.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      const errorResponse: ErrorResponse = {
+        error: "Bad Request",
+        message: "Invalid JSON in request body.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body
+    const validation = SaveBudgetTemplateDto.safeParse(body);
+
+    if (!validation.success) {
+      const errors: Record<string, string[]> = {};
+      validation.error.errors.forEach((err) => {
+        const path = err.path.join(".") || "body";
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid request body",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const template = await createBudgetTemplate(locals.supabase, locals.user.id, validation.data);
+
+    return new Response(JSON.stringify({ data: template }), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    if (err instanceof CategoryNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (err instanceof DuplicateBudgetTemplateError) {
+      const errorResponse: ErrorResponse = {
+        error: "Conflict",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("Create budget template endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to create budget template. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
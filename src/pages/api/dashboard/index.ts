@@ -1,4 +1,5 @@
 import type { APIRoute } from "astro";
+import { CurrencyCodeSchema } from "@/types";
 import { getDashboardData } from "@/lib/services/dashboard.service";
 
 export const prerender = false;
@@ -6,10 +7,12 @@ export const prerender = false;
 /**
  * GET /api/dashboard
  *
- * Retrieves dashboard data including stashes summary and current month's budget.
+ * Retrieves dashboard data including stashes summary, current month's budget,
+ * savings goals and the net worth over the last 12 months.
  *
  * Query Parameters:
  * - yearMonth (optional): Year-month in YYYY-MM format (defaults to current month)
+ * - baseCurrency (optional): Currency stash totals are converted into (defaults to PLN)
  *
  * Response:
  * - 200: Dashboard data with stashes and budget summaries
@@ -42,8 +45,22 @@ export const GET: APIRoute = async ({ locals, url }) => {
       );
     }
 
+    // Validate baseCurrency if provided
+    const baseCurrencyParam = url.searchParams.get("baseCurrency");
+    const baseCurrency = baseCurrencyParam ? CurrencyCodeSchema.safeParse(baseCurrencyParam) : null;
+
+    if (baseCurrency && !baseCurrency.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Invalid currency",
+          message: baseCurrency.error.errors[0].message,
+        }),
+        { status: 400, headers: { "Content-Type": "application/json" } }
+      );
+    }
+
     // Fetch dashboard data
-    const dashboardData = await getDashboardData(supabase, user.id, yearMonth);
+    const dashboardData = await getDashboardData(supabase, user.id, yearMonth, baseCurrency?.data);
 
     return new Response(JSON.stringify(dashboardData), {
       status: 200,
@@ -0,0 +1,90 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import { deleteExchangeRate, ExchangeRateNotFoundError } from "@/lib/services/exchange-rate.service";
+
+export const prerender = false;
+
+/**
+ * Zod schema for validating the rateId path parameter
+ */
+const RateIdParamSchema = z.string().uuid("Invalid exchange rate ID format");
+
+/**
+ * DELETE /api/exchange-rates/{rateId}
+ * Deletes an exchange rate of the authenticated user.
+ * Stashes in that currency fall back to an older rate of the pair, or are left out of totals.
+ *
+ * Path Parameters:
+ * - rateId: string (UUID) - The ID of the rate to delete
+ *
+ * Returns:
+ * - 204: Exchange rate deleted successfully (no content)
+ * - 400: Invalid ID format
+ * - 401: User not authenticated
+ * - 404: Exchange rate not found or doesn't belong to user
+ * - 500: Internal server error
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to delete an exchange rate.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate rateId path parameter
+    const idValidation = RateIdParamSchema.safeParse(params.rateId);
+
+    if (!idValidation.success) {
+      const errorResponse: ValidationErrorResponse = {
+        error: "Bad Request",
+        message: "Invalid exchange rate ID format",
+        errors: { rateId: [idValidation.error.errors[0].message] },
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    await deleteExchangeRate(locals.supabase, locals.user.id, idValidation.data);
+
+    // Return 204 No Content on success
+    return new Response(null, {
+      status: 204,
+    });
+  } catch (err) {
+    if (err instanceof ExchangeRateNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("Delete exchange rate endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to delete exchange rate. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
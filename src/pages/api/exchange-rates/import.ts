@@ -0,0 +1,163 @@
+import type { APIRoute } from "astro";
+import { CreateExchangeRateDto, ImportExchangeRatesDto } from "@/types";
+import type {
+  CreateExchangeRateCommand,
+  ErrorResponse,
+  ImportExchangeRateRowResultDTO,
+  ImportExchangeRatesResultDTO,
+  ValidationErrorResponse,
+} from "@/types";
+import { saveExchangeRates } from "@/lib/services/exchange-rate.service";
+
+export const prerender = false;
+
+/**
+ * POST /api/exchange-rates/import
+ * Imports a batch of exchange rates (e.g. parsed from a CSV file) for the authenticated user.
+ * Every row is validated with the same rules as POST /api/exchange-rates; valid rows are
+ * saved in a single statement and invalid rows are skipped. Rates for a pair and day that
+ * already exist are replaced.
+ *
+ * Request Body:
+ * - rows: object[] (1-1000 items) - Rates in the Create Exchange Rate format
+ *
+ * Returns:
+ * - 201: Valid rows imported, with per-row validation results
+ * - 400: Invalid request body
+ * - 401: User not authenticated
+ * - 422: No valid rows to import
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to import exchange rates.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      const errorResponse: ErrorResponse = {
+        error: "Bad Request",
+        message: "Invalid JSON in request body.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request envelope
+    const validation = ImportExchangeRatesDto.safeParse(body);
+
+    if (!validation.success) {
+      const errors: Record<string, string[]> = {};
+      validation.error.errors.forEach((err) => {
+        const path = err.path.join(".") || "body";
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid request body",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate each row individually
+    const acceptedRows: CreateExchangeRateCommand[] = [];
+    const results: ImportExchangeRateRowResultDTO[] = validation.data.rows.map((row, index) => {
+      const rowValidation = CreateExchangeRateDto.safeParse(row);
+
+      if (!rowValidation.success) {
+        const errors: Record<string, string[]> = {};
+        rowValidation.error.errors.forEach((err) => {
+          const path = err.path.join(".") || "row";
+          if (!errors[path]) {
+            errors[path] = [];
+          }
+          errors[path].push(err.message);
+        });
+
+        return { row: index + 1, valid: false, errors };
+      }
+
+      acceptedRows.push(rowValidation.data);
+      return { row: index + 1, valid: true, errors: {} };
+    });
+
+    if (acceptedRows.length === 0) {
+      const errorResponse: ErrorResponse = {
+        error: "Unprocessable Entity",
+        message: "None of the submitted rows are valid. Nothing was imported.",
+        details: { rows: results },
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 422,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Save all accepted rows in one go
+    const saved = await saveExchangeRates(locals.supabase, locals.user.id, acceptedRows);
+
+    const response: ImportExchangeRatesResultDTO = {
+      total: results.length,
+      imported: saved.length,
+      invalid: results.length - acceptedRows.length,
+      rows: results,
+    };
+
+    return new Response(JSON.stringify({ data: response }), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    // Handle validation errors from service (e.g., constraint violations)
+    if (err instanceof Error && err.message.includes("Validation failed")) {
+      const errorResponse: ErrorResponse = {
+        error: "Unprocessable Entity",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 422,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Log and handle unexpected errors
+    console.error("Import exchange rates endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to import exchange rates. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,159 @@
+import type { APIRoute } from "astro";
+import { CreateExchangeRateDto } from "@/types";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import { listExchangeRates, saveExchangeRates } from "@/lib/services/exchange-rate.service";
+
+export const prerender = false;
+
+/**
+ * GET /api/exchange-rates
+ * Retrieves all exchange rates of the authenticated user.
+ *
+ * Returns:
+ * - 200: List of exchange rates, ordered by pair and most recent first
+ * - 401: User not authenticated
+ * - 500: Internal server error
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to access this resource.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const rates = await listExchangeRates(locals.supabase, locals.user.id);
+
+    return new Response(JSON.stringify({ data: rates }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    console.error("List exchange rates endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to retrieve exchange rates. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * POST /api/exchange-rates
+ * Saves an exchange rate for the authenticated user.
+ * A rate for the same pair and day replaces the existing one.
+ *
+ * Request Body:
+ * - from_currency: string (required) - Currency code, e.g. "EUR"
+ * - to_currency: string (required, different from from_currency) - Currency code, e.g. "PLN"
+ * - rate: number (required, positive) - 1 from_currency = rate to_currency
+ * - rate_date: string (YYYY-MM-DD, optional) - Day the rate applies to (default: today)
+ *
+ * Returns:
+ * - 201: Exchange rate saved successfully
+ * - 400: Invalid request body or validation errors
+ * - 401: User not authenticated
+ * - 422: Rejected by a database constraint
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to save an exchange rate.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      const errorResponse: ErrorResponse = {
+        error: "Bad Request",
+        message: "Invalid JSON in request body.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body
+    const validation = CreateExchangeRateDto.safeParse(body);
+
+    if (!validation.success) {
+      const errors: Record<string, string[]> = {};
+      validation.error.errors.forEach((err) => {
+        const path = err.path.join(".") || "body";
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid request body",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const [rate] = await saveExchangeRates(locals.supabase, locals.user.id, [validation.data]);
+
+    return new Response(JSON.stringify({ data: rate }), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    // Handle validation errors from service (e.g., constraint violations)
+    if (err instanceof Error && err.message.includes("Validation failed")) {
+      const errorResponse: ErrorResponse = {
+        error: "Unprocessable Entity",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 422,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("Create exchange rate endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to save exchange rate. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
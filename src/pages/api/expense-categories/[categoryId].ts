@@ -0,0 +1,169 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { UpdateExpenseCategoryDto } from "@/types";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import {
+  updateExpenseCategory,
+  ExpenseCategoryNotFoundError,
+  DefaultCategoryReadOnlyError,
+  DuplicateCategoryError,
+} from "@/lib/services/expense-category.service";
+
+export const prerender = false;
+
+/**
+ * PATCH /api/expense-categories/{categoryId}
+ * Renames, recolors, archives or restores one of the authenticated user's categories.
+ * Archived categories are hidden from the add-expense picker but stay attached to existing expenses.
+ *
+ * Path Parameters:
+ * - categoryId: string (UUID) - The unique identifier of the category
+ *
+ * Request Body (at least one field):
+ * - name: string (1-100 characters) - The new name
+ * - color: string (#rrggbb) | null - The new color, or null to clear it
+ * - archived: boolean - Archive (true) or restore (false) the category
+ *
+ * Returns:
+ * - 200: Updated category
+ * - 400: Invalid category ID or validation error
+ * - 401: User not authenticated
+ * - 403: Default categories cannot be modified
+ * - 404: Category not found
+ * - 409: An active category with this name already exists
+ * - 500: Internal server error
+ */
+export const PATCH: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to access this resource.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate categoryId parameter
+    const categoryIdValidation = z.string().uuid("Invalid category ID format").safeParse(params.categoryId);
+
+    if (!categoryIdValidation.success) {
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid category ID format",
+        errors: { categoryId: [categoryIdValidation.error.errors[0].message] },
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      const errorResponse: ErrorResponse = {
+        error: "Bad Request",
+        message: "Invalid JSON in request body.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body
+    const validation = UpdateExpenseCategoryDto.safeParse(body);
+
+    if (!validation.success) {
+      const errors: Record<string, string[]> = {};
+      validation.error.errors.forEach((err) => {
+        const path = err.path.join(".") || "body";
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid request body",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Update category using the service
+    const category = await updateExpenseCategory(
+      locals.supabase,
+      locals.user.id,
+      categoryIdValidation.data,
+      validation.data
+    );
+
+    return new Response(JSON.stringify({ data: category }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    if (err instanceof ExpenseCategoryNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (err instanceof DefaultCategoryReadOnlyError) {
+      const errorResponse: ErrorResponse = {
+        error: "Forbidden",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (err instanceof DuplicateCategoryError) {
+      const errorResponse: ErrorResponse = {
+        error: "Conflict",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("Update expense category endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to update expense category. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,167 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { MergeExpenseCategoryDto } from "@/types";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import {
+  mergeExpenseCategories,
+  ExpenseCategoryNotFoundError,
+  DefaultCategoryReadOnlyError,
+  InvalidCategoryMergeError,
+} from "@/lib/services/expense-category.service";
+
+export const prerender = false;
+
+/**
+ * POST /api/expense-categories/{categoryId}/merge
+ * Merges one of the authenticated user's categories into another category.
+ * Every expense of the user pointing at the source category is moved to the target
+ * and the source category is removed, in a single database transaction.
+ *
+ * Path Parameters:
+ * - categoryId: string (UUID) - The user's category to merge away
+ *
+ * Request Body:
+ * - target_category_id: string (UUID) - The category receiving the expenses (own or default)
+ *
+ * Returns:
+ * - 200: Merge result with the number of moved expenses
+ * - 400: Invalid IDs, validation error or source equals target
+ * - 401: User not authenticated
+ * - 403: Default categories cannot be merged away
+ * - 404: Source or target category not found
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to access this resource.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate categoryId parameter
+    const categoryIdValidation = z.string().uuid("Invalid category ID format").safeParse(params.categoryId);
+
+    if (!categoryIdValidation.success) {
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid category ID format",
+        errors: { categoryId: [categoryIdValidation.error.errors[0].message] },
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      const errorResponse: ErrorResponse = {
+        error: "Bad Request",
+        message: "Invalid JSON in request body.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body
+    const validation = MergeExpenseCategoryDto.safeParse(body);
+
+    if (!validation.success) {
+      const errors: Record<string, string[]> = {};
+      validation.error.errors.forEach((err) => {
+        const path = err.path.join(".") || "body";
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid request body",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Merge categories using the service
+    const result = await mergeExpenseCategories(
+      locals.supabase,
+      locals.user.id,
+      categoryIdValidation.data,
+      validation.data.target_category_id
+    );
+
+    return new Response(JSON.stringify({ data: result }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    if (err instanceof InvalidCategoryMergeError) {
+      const errorResponse: ErrorResponse = {
+        error: "Bad Request",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (err instanceof ExpenseCategoryNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (err instanceof DefaultCategoryReadOnlyError) {
+      const errorResponse: ErrorResponse = {
+        error: "Forbidden",
+        message: "Default categories cannot be merged into another category",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("Merge expense categories endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to merge expense categories. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -1,13 +1,19 @@
 import type { APIRoute } from "astro";
-import type { ErrorResponse } from "@/types";
-import { listExpenseCategories } from "@/lib/services/expense-category.service";
+import { CreateExpenseCategoryDto } from "@/types";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import {
+  listExpenseCategories,
+  createExpenseCategory,
+  DuplicateCategoryError,
+} from "@/lib/services/expense-category.service";
 
 export const prerender = false;
 
 /**
  * GET /api/expense-categories
- * Retrieves all expense categories available in the system.
- * Categories are system-wide and available to all users.
+ * Retrieves the expense categories available to the authenticated user:
+ * the shared default categories plus the user's own categories.
+ * Archived categories are included (archived_at is set) so that existing expenses keep their label.
  *
  * Returns:
  * - 200: List of expense categories
@@ -30,7 +36,7 @@ export const GET: APIRoute = async ({ locals }) => {
     }
 
     // Fetch expense categories using the service
-    const categories = await listExpenseCategories(locals.supabase);
+    const categories = await listExpenseCategories(locals.supabase, locals.user.id);
 
     // Return success response
     return new Response(JSON.stringify({ data: categories }), {
@@ -51,3 +57,109 @@ export const GET: APIRoute = async ({ locals }) => {
     });
   }
 };
+
+/**
+ * POST /api/expense-categories
+ * Creates a new expense category owned by the authenticated user.
+ *
+ * Request Body:
+ * - name: string (1-100 characters) - The category name
+ * - color: string (#rrggbb, optional) - The category color
+ *
+ * Returns:
+ * - 201: Category created successfully
+ * - 400: Invalid request body or validation errors
+ * - 401: User not authenticated
+ * - 409: An active category with this name already exists
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to create a category.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      const errorResponse: ErrorResponse = {
+        error: "Bad Request",
+        message: "Invalid JSON in request body.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body
+    const validation = CreateExpenseCategoryDto.safeParse(body);
+
+    if (!validation.success) {
+      const errors: Record<string, string[]> = {};
+      validation.error.errors.forEach((err) => {
+        const path = err.path.join(".") || "body";
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid request body",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Create category using the service
+    const category = await createExpenseCategory(locals.supabase, locals.user.id, validation.data);
+
+    return new Response(JSON.stringify({ data: category }), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    // Handle duplicate name
+    if (err instanceof DuplicateCategoryError) {
+      const errorResponse: ErrorResponse = {
+        error: "Conflict",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("Create expense category endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to create expense category. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
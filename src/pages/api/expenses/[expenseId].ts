@@ -1,6 +1,8 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
+import { CreateExpenseDto, ExpenseSplitsSchema } from "@/types";
 import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import { splitsMatchAmount } from "@/lib/expense-split";
 import {
   updateExpense,
   softDeleteExpense,
@@ -13,6 +15,8 @@ export const prerender = false;
 /**
  * Zod schema for validating the Update Expense request body.
  * All fields are optional, but at least one must be provided.
+ * When splits and amount are both given, the lines must add up to the new amount;
+ * with splits alone the database checks them against the stored amount.
  */
 const UpdateExpenseDto = z
   .object({
@@ -31,6 +35,8 @@ const UpdateExpenseDto = z
       }, "Invalid date value")
       .optional(),
     description: z.string().trim().max(500, "Description cannot exceed 500 characters").nullable().optional(),
+    tags: CreateExpenseDto.innerType().shape.tags,
+    splits: ExpenseSplitsSchema.optional(),
   })
   .refine(
     (data) => {
@@ -41,12 +47,32 @@ const UpdateExpenseDto = z
     {
       message: "At least one updatable field must be provided",
     }
-  );
+  )
+  .superRefine((data, ctx) => {
+    if (!data.splits || data.splits.length === 0) return;
+
+    if (data.category_id) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["category_id"],
+        message: "Leave the category empty when splitting an expense",
+      });
+    }
+    if (data.amount !== undefined && !splitsMatchAmount(data.splits, data.amount)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["splits"],
+        message: "Split amounts must add up to the expense amount",
+      });
+    }
+  });
 
 /**
  * PATCH /api/expenses/{expenseId}
  * Updates an existing expense for the authenticated user.
- * Allows partial updates of category_id, amount, expense_date, and description.
+ * Allows partial updates of category_id, amount, expense_date, description, tags and splits.
+ * Changing the amount of a split expense rescales its lines (a split left with one line becomes a regular
+ * expense in that line's category); setting a category removes them.
  *
  * Path Parameters:
  * - expenseId: string (UUID) - The ID of the expense to update
@@ -56,6 +82,9 @@ const UpdateExpenseDto = z
  * - amount: number (positive, max 2 decimal places) - The expense amount
  * - expense_date: string (YYYY-MM-DD) - The date of the expense
  * - description: string | null (max 500 chars) - Additional details about the expense
+ * - tags: string[] (max 10) - Replaces the expense's tags; [] removes them all
+ * - splits: { category_id: string (UUID) | null, amount: number }[] (2-20 lines or []) - Replaces
+ *   the expense's category lines; [] turns it back into a single uncategorized expense
  *
  * Returns:
  * - 200: Expense updated successfully
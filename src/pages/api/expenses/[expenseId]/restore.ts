@@ -0,0 +1,87 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import { ExpenseNotFoundError, restoreExpense } from "@/lib/services/expense.service";
+
+export const prerender = false;
+
+/**
+ * POST /api/expenses/{expenseId}/restore
+ * Restores a soft-deleted expense from the trash (also used by the undo after a delete).
+ * The expense counts towards its month budget balance again.
+ *
+ * Path Parameters:
+ * - expenseId: string (UUID) - The unique identifier of the expense to restore
+ *
+ * Returns:
+ * - 204: Expense restored successfully (no content)
+ * - 400: Invalid expense ID format
+ * - 401: User not authenticated
+ * - 404: Expense not in the trash or doesn't belong to user
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ params, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to restore an expense.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate expenseId path parameter
+    const expenseIdValidation = z.string().uuid("Invalid expense ID format").safeParse(params.expenseId);
+
+    if (!expenseIdValidation.success) {
+      const errorResponse: ValidationErrorResponse = {
+        error: "Bad Request",
+        message: "Invalid expense ID format",
+        errors: { expenseId: expenseIdValidation.error.errors.map((err) => err.message) },
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    await restoreExpense(locals.supabase, locals.user.id, expenseIdValidation.data);
+
+    // Return 204 No Content on success
+    return new Response(null, {
+      status: 204,
+    });
+  } catch (err) {
+    // Handle ExpenseNotFoundError
+    if (err instanceof ExpenseNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Log and handle unexpected errors
+    console.error("Restore expense endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to restore expense. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,205 @@
+import type { APIRoute } from "astro";
+import type { ZodError } from "zod";
+import { BulkDeleteExpensesDto, BulkUpdateExpensesDto } from "@/types";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import { bulkSoftDeleteExpenses, bulkUpdateExpenses, CategoryNotFoundError } from "@/lib/services/expense.service";
+
+export const prerender = false;
+
+/**
+ * Builds the 401 response for unauthenticated requests
+ */
+function unauthorized(action: string): Response {
+  const errorResponse: ErrorResponse = {
+    error: "Unauthorized",
+    message: `You must be logged in to ${action} expenses.`,
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status: 401,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Reads the JSON request body, or returns a 400 response when it isn't valid JSON
+ */
+async function readJsonBody(request: Request): Promise<{ body: unknown } | { response: Response }> {
+  try {
+    return { body: await request.json() };
+  } catch {
+    const errorResponse: ErrorResponse = {
+      error: "Bad Request",
+      message: "Invalid JSON in request body.",
+    };
+
+    return {
+      response: new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      }),
+    };
+  }
+}
+
+/**
+ * Builds the 400 response for a request body that failed validation
+ */
+function validationFailed(error: ZodError): Response {
+  const errors: Record<string, string[]> = {};
+  error.errors.forEach((err) => {
+    const path = err.path.join(".") || "body";
+    if (!errors[path]) {
+      errors[path] = [];
+    }
+    errors[path].push(err.message);
+  });
+
+  const errorResponse: ValidationErrorResponse = {
+    error: "Validation failed",
+    message: "Invalid request body",
+    errors,
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status: 400,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * PATCH /api/expenses/bulk
+ * Recategorizes and/or moves many expenses of the authenticated user in one transaction.
+ * IDs that don't exist, are deleted or belong to another user are reported per ID and
+ * don't stop the other expenses from being changed.
+ *
+ * Request Body:
+ * - ids: string[] (UUID, 1-500 items) - The expenses to change
+ * - category_id: string (UUID) | null (optional) - Category to set; null makes them uncategorized
+ *   (split expenses lose their split lines when given a category)
+ * - expense_date: string (YYYY-MM-DD, optional) - Date to move the expenses to
+ * At least one of category_id and expense_date is required.
+ *
+ * Returns:
+ * - 200: Per-ID results ("updated" or "not_found") with totals
+ * - 400: Invalid request body
+ * - 401: User not authenticated
+ * - 404: Category not found
+ * - 422: A recurring expense would occur twice in the same month
+ * - 500: Internal server error
+ */
+export const PATCH: APIRoute = async ({ request, locals }) => {
+  try {
+    if (!locals.user) {
+      return unauthorized("update");
+    }
+
+    const parsed = await readJsonBody(request);
+    if ("response" in parsed) {
+      return parsed.response;
+    }
+
+    const validation = BulkUpdateExpensesDto.safeParse(parsed.body);
+    if (!validation.success) {
+      return validationFailed(validation.error);
+    }
+
+    const result = await bulkUpdateExpenses(locals.supabase, locals.user.id, validation.data);
+
+    return new Response(JSON.stringify({ data: result }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    // Handle CategoryNotFoundError
+    if (err instanceof CategoryNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Handle validation errors from service (e.g., constraint violations)
+    if (err instanceof Error && err.message.includes("Validation failed")) {
+      const errorResponse: ErrorResponse = {
+        error: "Unprocessable Entity",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 422,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Log and handle unexpected errors
+    console.error("Bulk update expenses endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to update expenses. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * DELETE /api/expenses/bulk
+ * Soft-deletes many expenses of the authenticated user in one transaction.
+ * IDs that don't exist, are already deleted or belong to another user are reported per ID.
+ *
+ * Request Body:
+ * - ids: string[] (UUID, 1-500 items) - The expenses to delete
+ *
+ * Returns:
+ * - 200: Per-ID results ("deleted" or "not_found") with totals
+ * - 400: Invalid request body
+ * - 401: User not authenticated
+ * - 500: Internal server error
+ */
+export const DELETE: APIRoute = async ({ request, locals }) => {
+  try {
+    if (!locals.user) {
+      return unauthorized("delete");
+    }
+
+    const parsed = await readJsonBody(request);
+    if ("response" in parsed) {
+      return parsed.response;
+    }
+
+    const validation = BulkDeleteExpensesDto.safeParse(parsed.body);
+    if (!validation.success) {
+      return validationFailed(validation.error);
+    }
+
+    const result = await bulkSoftDeleteExpenses(locals.supabase, locals.user.id, validation.data.ids);
+
+    return new Response(JSON.stringify({ data: result }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    // Log and handle unexpected errors
+    console.error("Bulk delete expenses endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to delete expenses. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
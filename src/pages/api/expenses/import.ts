@@ -0,0 +1,210 @@
+import type { APIRoute } from "astro";
+import { CreateExpenseDto, ImportExpensesDto } from "@/types";
+import type {
+  CreateExpenseCommand,
+  ErrorResponse,
+  ImportExpenseRowResultDTO,
+  ImportExpensesResultDTO,
+  ValidationErrorResponse,
+} from "@/types";
+import { bulkCreateExpenses, CategoryNotFoundError } from "@/lib/services/expense.service";
+import { getExistingCategoryIds } from "@/lib/services/expense-category.service";
+
+export const prerender = false;
+
+/**
+ * POST /api/expenses/import
+ * Validates and optionally imports a batch of expenses for the authenticated user.
+ * Every row is validated with the same rules as POST /api/expenses. In dry-run mode
+ * only the per-row validation result is returned; otherwise all valid rows are inserted
+ * in a single statement and invalid rows are skipped.
+ *
+ * Request Body:
+ * - rows: object[] (1-1000 items) - Expenses in the Create Expense format
+ * - dry_run: boolean (default: true) - When true, nothing is inserted
+ *
+ * Returns:
+ * - 200: Dry-run preview with per-row validation results
+ * - 201: Valid rows imported, with per-row validation results
+ * - 400: Invalid request body
+ * - 401: User not authenticated
+ * - 404: A referenced category disappeared between validation and insert
+ * - 422: No valid rows to import
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to import expenses.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      const errorResponse: ErrorResponse = {
+        error: "Bad Request",
+        message: "Invalid JSON in request body.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request envelope
+    const validation = ImportExpensesDto.safeParse(body);
+
+    if (!validation.success) {
+      const errors: Record<string, string[]> = {};
+      validation.error.errors.forEach((err) => {
+        const path = err.path.join(".") || "body";
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid request body",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { rows, dry_run: dryRun } = validation.data;
+
+    // Validate each row individually
+    const results: ImportExpenseRowResultDTO[] = rows.map((row, index) => {
+      const rowValidation = CreateExpenseDto.safeParse(row);
+
+      if (!rowValidation.success) {
+        const errors: Record<string, string[]> = {};
+        rowValidation.error.errors.forEach((err) => {
+          const path = err.path.join(".") || "row";
+          if (!errors[path]) {
+            errors[path] = [];
+          }
+          errors[path].push(err.message);
+        });
+
+        return { row: index + 1, valid: false, data: null, errors };
+      }
+
+      return { row: index + 1, valid: true, data: rowValidation.data, errors: {} };
+    });
+
+    // Verify that every referenced category exists
+    const referencedCategoryIds = results
+      .map((result) => result.data?.category_id)
+      .filter((categoryId): categoryId is string => !!categoryId);
+    const existingCategoryIds = await getExistingCategoryIds(locals.supabase, referencedCategoryIds);
+
+    results.forEach((result) => {
+      const categoryId = result.data?.category_id;
+      if (categoryId && !existingCategoryIds.has(categoryId)) {
+        result.valid = false;
+        result.data = null;
+        result.errors.category_id = [`Category with ID ${categoryId} does not exist`];
+      }
+    });
+
+    const acceptedRows = results
+      .filter((result) => result.valid && result.data)
+      .map((result) => result.data as CreateExpenseCommand);
+
+    const response: ImportExpensesResultDTO = {
+      dry_run: dryRun,
+      total: results.length,
+      valid: acceptedRows.length,
+      invalid: results.length - acceptedRows.length,
+      imported: 0,
+      months: [...new Set(acceptedRows.map((row) => row.expense_date.slice(0, 7)))].sort(),
+      rows: results,
+    };
+
+    if (dryRun) {
+      return new Response(JSON.stringify({ data: response }), {
+        status: 200,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (acceptedRows.length === 0) {
+      const errorResponse: ErrorResponse = {
+        error: "Unprocessable Entity",
+        message: "None of the submitted rows are valid. Nothing was imported.",
+        details: { rows: results },
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 422,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Insert all accepted rows in one go
+    const imported = await bulkCreateExpenses(locals.supabase, locals.user.id, acceptedRows);
+    response.imported = imported.length;
+
+    return new Response(JSON.stringify({ data: response }), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    // Handle CategoryNotFoundError
+    if (err instanceof CategoryNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Handle validation errors from service (e.g., constraint violations)
+    if (err instanceof Error && err.message.includes("Validation failed")) {
+      const errorResponse: ErrorResponse = {
+        error: "Unprocessable Entity",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 422,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Log and handle unexpected errors
+    console.error("Import expenses endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to import expenses. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -1,30 +1,10 @@
 import type { APIRoute } from "astro";
-import { z } from "zod";
-import { ListExpensesQuerySchema } from "@/types";
+import { ListExpensesQuerySchema, CreateExpenseDto } from "@/types";
 import type { ErrorResponse, ValidationErrorResponse } from "@/types";
 import { listExpenses, createExpense, CategoryNotFoundError } from "@/lib/services/expense.service";
 
 export const prerender = false;
 
-/**
- * Zod schema for validating the Create Expense request body.
- */
-const CreateExpenseDto = z.object({
-  category_id: z.string().uuid("Invalid category ID format").optional(),
-  amount: z
-    .number()
-    .positive("Amount must be greater than 0")
-    .refine((n) => Number.isInteger(n * 100), "Amount must have at most 2 decimal places"),
-  expense_date: z
-    .string()
-    .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format. Use YYYY-MM-DD")
-    .refine((dateStr) => {
-      const date = new Date(dateStr);
-      return !isNaN(date.getTime()) && dateStr === date.toISOString().split("T")[0];
-    }, "Invalid date value"),
-  description: z.string().trim().min(1, "Description is required").max(500, "Description cannot exceed 500 characters"),
-});
-
 /**
  * GET /api/expenses
  * Retrieves a paginated and filterable list of expenses for the authenticated user.
@@ -37,6 +17,7 @@ const CreateExpenseDto = z.object({
  * - categoryId: string (UUID) - Filter by expense category
  * - yearMonth: string (YYYY-MM) - Filter by year-month (mutually exclusive with from/to)
  * - search: string (1-200 chars) - Search in expense descriptions
+ * - tags: string (comma-separated, max 10) - Only expenses with any of the tags
  * - sort: 'expense_date' | 'amount' (default: 'expense_date') - The field to sort by
  * - order: 'asc' | 'desc' (default: 'desc') - The sort order
  *
@@ -70,6 +51,7 @@ export const GET: APIRoute = async ({ url, locals }) => {
       categoryId: url.searchParams.get("categoryId") || undefined,
       yearMonth: url.searchParams.get("yearMonth") || undefined,
       search: url.searchParams.get("search") || undefined,
+      tags: url.searchParams.get("tags") || undefined,
       sort: url.searchParams.get("sort") || undefined,
       order: url.searchParams.get("order") || undefined,
     };
@@ -130,6 +112,9 @@ export const GET: APIRoute = async ({ url, locals }) => {
  * - amount: number (positive, max 2 decimal places) - The expense amount
  * - expense_date: string (YYYY-MM-DD) - The date of the expense
  * - category_id: string (UUID, optional) - The expense category ID
+ * - tags: string[] (optional, max 10) - Tag names; missing tags are created
+ * - splits: { category_id: string (UUID) | null, amount: number }[] (optional, 2-20 lines) - Category
+ *   lines adding up to amount; leave category_id empty when splitting
  *
  * Returns:
  * - 201: Expense created successfully
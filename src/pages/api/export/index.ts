@@ -0,0 +1,190 @@
+import type { APIRoute } from "astro";
+import type { ZodError } from "zod";
+import {
+  ExportQuerySchema,
+  ListBudgetsQuerySchema,
+  ListExpensesQuerySchema,
+  ListTransactionsQuerySchema,
+} from "@/types";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import { createExportStream } from "@/lib/services/export.service";
+import { getStashDetails, StashNotFoundError } from "@/lib/services/stash.service";
+
+export const prerender = false;
+
+/**
+ * Collects Zod issues into the field -> messages map used by ValidationErrorResponse.
+ * `rename` maps schema keys back to the query parameter names used by this endpoint.
+ */
+function collectErrors(error: ZodError, errors: Record<string, string[]>, rename: Record<string, string> = {}) {
+  error.errors.forEach((err) => {
+    const key = err.path.join(".");
+    const path = rename[key] ?? key;
+    if (!errors[path]) {
+      errors[path] = [];
+    }
+    errors[path].push(err.message);
+  });
+}
+
+/**
+ * GET /api/export
+ * Streams an export of the authenticated user's data as a downloadable CSV or JSON file.
+ *
+ * Query Parameters:
+ * - format: 'csv' | 'json' (default: 'csv') - Output format
+ * - scope: 'expenses' | 'budgets' | 'stashes' | 'all' (default: 'all') - Which records to export
+ * - stashId: string (UUID, optional) - Limit the stashes scope to a single stash
+ *
+ * Expense filters (same rules as GET /api/expenses):
+ * - from, to: string (YYYY-MM-DD) - Expense date range (inclusive)
+ * - categoryId: string (UUID) - Filter by expense category
+ * - yearMonth: string (YYYY-MM) - Filter by year-month (mutually exclusive with from/to)
+ * - search: string (1-200 chars) - Search in expense descriptions
+ * - tags: string (comma-separated) - Only expenses with any of the tags
+ * - sort: 'expense_date' | 'amount', order: 'asc' | 'desc' - Expense ordering
+ *
+ * Budget filters (same rules as GET /api/month-budgets):
+ * - year: string (YYYY) - Only budgets of the given year
+ *
+ * Transaction filters (same rules as GET /api/stashes/{stashId}/transactions):
+ * - type: 'deposit' | 'withdrawal' | 'adjustment' - Filter by transaction type
+ * - transactionsFrom, transactionsTo: string (ISO 8601) - Transaction date range (inclusive)
+ *
+ * Returns:
+ * - 200: File download (text/csv or application/json)
+ * - 400: Invalid query parameters
+ * - 401: User not authenticated
+ * - 404: Stash not found or doesn't belong to user
+ * - 500: Internal server error
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to export data.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const param = (name: string) => url.searchParams.get(name) || undefined;
+
+    // Parse and validate query parameters
+    const exportValidation = ExportQuerySchema.safeParse({
+      format: param("format"),
+      scope: param("scope"),
+      stashId: param("stashId"),
+    });
+    const expensesValidation = ListExpensesQuerySchema.safeParse({
+      from: param("from"),
+      to: param("to"),
+      categoryId: param("categoryId"),
+      yearMonth: param("yearMonth"),
+      search: param("search"),
+      tags: param("tags"),
+      sort: param("sort"),
+      order: param("order"),
+    });
+    const budgetsValidation = ListBudgetsQuerySchema.safeParse({
+      year: param("year"),
+      order: param("order"),
+    });
+    const transactionsValidation = ListTransactionsQuerySchema.safeParse({
+      type: param("type"),
+      from: param("transactionsFrom"),
+      to: param("transactionsTo"),
+      order: param("order"),
+    });
+
+    const errors: Record<string, string[]> = {};
+    if (!exportValidation.success) {
+      collectErrors(exportValidation.error, errors);
+    }
+    if (!expensesValidation.success) {
+      collectErrors(expensesValidation.error, errors);
+    }
+    if (!budgetsValidation.success) {
+      collectErrors(budgetsValidation.error, errors);
+    }
+    if (!transactionsValidation.success) {
+      collectErrors(transactionsValidation.error, errors, { from: "transactionsFrom", to: "transactionsTo" });
+    }
+
+    if (
+      !exportValidation.success ||
+      !expensesValidation.success ||
+      !budgetsValidation.success ||
+      !transactionsValidation.success
+    ) {
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid query parameters",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { format, scope, stashId } = exportValidation.data;
+
+    // Verify the requested stash up front so a missing stash is a 404 rather than a broken download
+    if (stashId) {
+      await getStashDetails(locals.supabase, locals.user.id, stashId);
+    }
+
+    const stream = createExportStream(locals.supabase, locals.user.id, {
+      format,
+      scope,
+      stashId,
+      expenses: expensesValidation.data,
+      budgets: budgetsValidation.data,
+      transactions: transactionsValidation.data,
+    });
+
+    const filename = `stashtracker-${scope}-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    // Handle stash not found error
+    if (err instanceof StashNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: "Stash not found or you don't have permission to access it.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Log and handle unexpected errors
+    console.error("Export endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to export data. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,85 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import { deleteHouseholdInvitation, HouseholdNotFoundError } from "@/lib/services/household.service";
+
+export const prerender = false;
+
+/**
+ * DELETE /api/household/invitations/{invitationId}
+ * Removes a household invitation: members cancel the ones their household sent,
+ * invitees decline the ones addressed to them.
+ *
+ * Path Parameters:
+ * - invitationId: string (UUID) - The unique identifier of the invitation
+ *
+ * Returns:
+ * - 204: Invitation removed successfully (no content)
+ * - 400: Invalid invitation ID format
+ * - 401: User not authenticated
+ * - 404: Invitation not found or not visible to the user
+ * - 500: Internal server error
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to remove an invitation.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate invitationId path parameter
+    const idValidation = z.string().uuid("Invalid invitation ID format").safeParse(params.invitationId);
+
+    if (!idValidation.success) {
+      const errorResponse: ValidationErrorResponse = {
+        error: "Bad Request",
+        message: "Invalid invitation ID format",
+        errors: { invitationId: idValidation.error.errors.map((err) => err.message) },
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    await deleteHouseholdInvitation(locals.supabase, locals.user.id, idValidation.data);
+
+    // Return 204 No Content on success
+    return new Response(null, {
+      status: 204,
+    });
+  } catch (err) {
+    if (err instanceof HouseholdNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("Delete household invitation endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to remove invitation. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
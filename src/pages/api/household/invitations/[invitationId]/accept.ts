@@ -0,0 +1,102 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import {
+  acceptHouseholdInvitation,
+  HouseholdNotFoundError,
+  HouseholdStateError,
+} from "@/lib/services/household.service";
+
+export const prerender = false;
+
+/**
+ * POST /api/household/invitations/{invitationId}/accept
+ * Joins the household of an invitation sent to the authenticated user.
+ * The user's personal budgets and expenses are kept aside until they leave the household.
+ *
+ * Path Parameters:
+ * - invitationId: string (UUID) - The unique identifier of the invitation
+ *
+ * Returns:
+ * - 200: { data: HouseholdDTO } of the joined household
+ * - 400: Invalid invitation ID format
+ * - 401: User not authenticated
+ * - 404: Invitation not found or addressed to someone else
+ * - 409: User is already in a household
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ params, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to accept an invitation.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate invitationId path parameter
+    const idValidation = z.string().uuid("Invalid invitation ID format").safeParse(params.invitationId);
+
+    if (!idValidation.success) {
+      const errorResponse: ValidationErrorResponse = {
+        error: "Bad Request",
+        message: "Invalid invitation ID format",
+        errors: { invitationId: idValidation.error.errors.map((err) => err.message) },
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const household = await acceptHouseholdInvitation(locals.supabase, locals.user.id, idValidation.data);
+
+    return new Response(JSON.stringify({ data: household }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    if (err instanceof HouseholdNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (err instanceof HouseholdStateError) {
+      const errorResponse: ErrorResponse = {
+        error: "Conflict",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("Accept household invitation endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to accept invitation. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
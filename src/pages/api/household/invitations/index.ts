@@ -0,0 +1,173 @@
+import type { APIRoute } from "astro";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import { InviteHouseholdMemberSchema } from "@/types";
+import {
+  HouseholdNotFoundError,
+  HouseholdStateError,
+  inviteHouseholdMember,
+  listReceivedInvitations,
+} from "@/lib/services/household.service";
+
+export const prerender = false;
+
+/**
+ * GET /api/household/invitations
+ * Retrieves the household invitations sent to the authenticated user's e-mail address.
+ *
+ * Returns:
+ * - 200: { data: ReceivedHouseholdInvitationDTO[] }
+ * - 401: User not authenticated
+ * - 500: Internal server error
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to access this resource.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const invitations = await listReceivedInvitations(locals.supabase, locals.user.id);
+
+    return new Response(JSON.stringify({ data: invitations }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    console.error("List household invitations endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to fetch invitations. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * POST /api/household/invitations
+ * Invites someone to the authenticated user's household. The invitee sees the invitation
+ * in their account settings after signing in with that e-mail address.
+ *
+ * Request Body:
+ * - email: string (required) - The invitee's e-mail address
+ *
+ * Returns:
+ * - 201: { data: HouseholdInvitationDTO }
+ * - 400: Invalid request body
+ * - 401: User not authenticated
+ * - 404: User is not in a household
+ * - 409: Address belongs to a member or has already been invited
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to invite household members.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse request body
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      const errorResponse: ErrorResponse = {
+        error: "Invalid JSON",
+        message: "Request body must be valid JSON.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body
+    const validation = InviteHouseholdMemberSchema.safeParse(body);
+
+    if (!validation.success) {
+      const errors: Record<string, string[]> = {};
+      validation.error.errors.forEach((err) => {
+        const path = err.path.join(".") || "body";
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid request body",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const invitation = await inviteHouseholdMember(locals.supabase, locals.user.id, validation.data);
+
+    return new Response(JSON.stringify({ data: invitation }), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    if (err instanceof HouseholdNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (err instanceof HouseholdStateError) {
+      const errorResponse: ErrorResponse = {
+        error: "Conflict",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("Invite household member endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to send invitation. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
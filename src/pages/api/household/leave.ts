@@ -0,0 +1,65 @@
+import type { APIRoute } from "astro";
+import type { ErrorResponse } from "@/types";
+import { HouseholdNotFoundError, leaveHousehold } from "@/lib/services/household.service";
+
+export const prerender = false;
+
+/**
+ * POST /api/household/leave
+ * Leaves the authenticated user's household. Expenses the user added stay with the household,
+ * and the user's personal budgets and expenses become visible again.
+ * The last member to leave keeps the household's budgets and expenses as personal ones.
+ *
+ * Returns:
+ * - 204: Left the household (no content)
+ * - 401: User not authenticated
+ * - 404: User is not in a household
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to leave a household.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    await leaveHousehold(locals.supabase, locals.user.id);
+
+    // Return 204 No Content on success
+    return new Response(null, {
+      status: 204,
+    });
+  } catch (err) {
+    if (err instanceof HouseholdNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("Leave household endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to leave household. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -1,7 +1,7 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
 import type { ErrorResponse, ValidationErrorResponse } from "@/types";
-import { upsertMonthBudget, getBudgetByYearMonth } from "@/lib/services/budget.service";
+import { upsertMonthBudget, getMonthBudgetDetails } from "@/lib/services/budget.service";
 
 export const prerender = false;
 
@@ -22,7 +22,7 @@ const YearMonthParamSchema = z
 
 /**
  * Zod schema for validating the request body
- * Requires a positive budget_set value
+ * Requires a positive budget_set value; rollover_enabled is optional
  */
 const UpsertBudgetBodySchema = z.object({
   budget_set: z.coerce
@@ -31,11 +31,13 @@ const UpsertBudgetBodySchema = z.object({
       invalid_type_error: "budget_set must be a number",
     })
     .positive("budget_set must be greater than 0"),
+  rollover_enabled: z.boolean({ invalid_type_error: "rollover_enabled must be a boolean" }).optional(),
 });
 
 /**
  * GET /api/month-budgets/{yearMonth}
- * Retrieves a specific monthly budget for the authenticated user.
+ * Retrieves a specific monthly budget for the authenticated user,
+ * including the amount carried over from the previous month (carried_over).
  *
  * Path Parameters:
  * - yearMonth: string (YYYY-MM format, month must be 01-12)
@@ -88,7 +90,7 @@ export const GET: APIRoute = async ({ params, locals }) => {
     }
 
     // Call service to get the budget
-    const budget = await getBudgetByYearMonth(locals.supabase, locals.user.id, yearMonthValidation.data);
+    const budget = await getMonthBudgetDetails(locals.supabase, locals.user.id, yearMonthValidation.data);
 
     if (!budget) {
       const errorResponse: ErrorResponse = {
@@ -130,13 +132,15 @@ export const GET: APIRoute = async ({ params, locals }) => {
  *
  * Request Body:
  * - budget_set: number (positive, > 0)
+ * - rollover_enabled: boolean (optional) - Carry the previous month's remainder into this month.
+ *   New budgets default to the previous month's setting.
  *
  * Returns:
  * - 201 Created: Budget was created (first time for this month)
  * - 200 OK: Budget was updated (already existed)
  * - 400 Bad Request: Invalid request body
  * - 401 Unauthorized: User not authenticated
- * - 422 Unprocessable Entity: Invalid yearMonth format
+ * - 422 Unprocessable Entity: Invalid yearMonth format or budget_set below the category allocations
  * - 500 Internal Server Error: Unexpected error
  */
 export const PUT: APIRoute = async ({ params, request, locals }) => {
@@ -235,6 +239,19 @@ export const PUT: APIRoute = async ({ params, request, locals }) => {
       headers: { "Content-Type": "application/json" },
     });
   } catch (err) {
+    // Handle validation errors from service (e.g., budget below category allocations)
+    if (err instanceof Error && err.message.includes("Validation failed")) {
+      const errorResponse: ErrorResponse = {
+        error: "Unprocessable Entity",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 422,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
     console.error("Upsert month budget endpoint error:", err);
 
     const errorResponse: ErrorResponse = {
@@ -0,0 +1,252 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { SetMonthBudgetCategoriesDto } from "@/types";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import {
+  getMonthBudgetCategories,
+  setMonthBudgetCategories,
+  MonthBudgetNotFoundError,
+} from "@/lib/services/budget.service";
+import { CategoryNotFoundError } from "@/lib/services/expense.service";
+
+export const prerender = false;
+
+/**
+ * Zod schema for validating the yearMonth path parameter
+ * Format: YYYY-MM with valid month range (01-12)
+ */
+const YearMonthParamSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}$/, "Invalid year-month format. Expected YYYY-MM")
+  .refine(
+    (value) => {
+      const month = Number(value.slice(5, 7));
+      return month >= 1 && month <= 12;
+    },
+    { message: "Invalid month. Month must be between 01 and 12" }
+  );
+
+/**
+ * GET /api/month-budgets/{yearMonth}/categories
+ * Retrieves the per-category breakdown of a monthly budget: allocated vs spent for every
+ * allocated category, plus spending in categories without an allocation.
+ *
+ * Path Parameters:
+ * - yearMonth: string (YYYY-MM format, month must be 01-12)
+ *
+ * Returns:
+ * - 200 OK: Breakdown with allocated_total, unallocated, total_spent and categories
+ * - 401 Unauthorized: User not authenticated
+ * - 404 Not Found: No budget exists for this month
+ * - 422 Unprocessable Entity: Invalid yearMonth format
+ * - 500 Internal Server Error: Unexpected error
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    // Guard: Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to access this resource.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate path parameter (yearMonth)
+    const yearMonthValidation = YearMonthParamSchema.safeParse(params.yearMonth);
+
+    if (!yearMonthValidation.success) {
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid year-month parameter",
+        errors: { yearMonth: yearMonthValidation.error.errors.map((err) => err.message) },
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 422,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const breakdown = await getMonthBudgetCategories(locals.supabase, locals.user.id, yearMonthValidation.data);
+
+    return new Response(JSON.stringify({ data: breakdown }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    if (err instanceof MonthBudgetNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("Get month budget categories endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to retrieve budget categories. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * PUT /api/month-budgets/{yearMonth}/categories
+ * Replaces the per-category allocations of a monthly budget.
+ * The budget for the month must already exist. current_balance is unaffected:
+ * it stays budget_set minus all expenses of the month.
+ *
+ * Path Parameters:
+ * - yearMonth: string (YYYY-MM format, month must be 01-12)
+ *
+ * Request Body:
+ * - categories: array (max 100) of
+ *   - category_id: string (UUID) - Default or own expense category, each at most once
+ *   - amount: number (positive, max 2 decimal places) - Amount allocated to the category
+ *   Categories left out lose their allocation; an empty array removes all allocations.
+ *
+ * Returns:
+ * - 200 OK: Allocations saved; returns the updated breakdown
+ * - 400 Bad Request: Invalid request body
+ * - 401 Unauthorized: User not authenticated
+ * - 404 Not Found: No budget exists for this month, or a category does not exist
+ * - 422 Unprocessable Entity: Invalid yearMonth format or allocations exceed budget_set
+ * - 500 Internal Server Error: Unexpected error
+ */
+export const PUT: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Guard: Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to access this resource.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate path parameter (yearMonth)
+    const yearMonthValidation = YearMonthParamSchema.safeParse(params.yearMonth);
+
+    if (!yearMonthValidation.success) {
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid year-month parameter",
+        errors: { yearMonth: yearMonthValidation.error.errors.map((err) => err.message) },
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 422,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      const errorResponse: ErrorResponse = {
+        error: "Bad Request",
+        message: "Invalid JSON in request body.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body
+    const validation = SetMonthBudgetCategoriesDto.safeParse(body);
+
+    if (!validation.success) {
+      const errors: Record<string, string[]> = {};
+      validation.error.errors.forEach((err) => {
+        const path = err.path.join(".") || "body";
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid request body",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const breakdown = await setMonthBudgetCategories(
+      locals.supabase,
+      locals.user.id,
+      yearMonthValidation.data,
+      validation.data
+    );
+
+    return new Response(JSON.stringify({ data: breakdown }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    if (err instanceof MonthBudgetNotFoundError || err instanceof CategoryNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Handle validation errors from service (e.g., allocations over budget)
+    if (err instanceof Error && err.message.includes("Validation failed")) {
+      const errorResponse: ErrorResponse = {
+        error: "Unprocessable Entity",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 422,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("Set month budget categories endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to save budget categories. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,149 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import {
+  closeMonthBudget,
+  reopenMonthBudget,
+  MonthBudgetNotFoundError,
+  MonthBudgetAlreadyClosedError,
+  MonthBudgetNotClosedError,
+} from "@/lib/services/budget.service";
+
+export const prerender = false;
+
+/**
+ * Zod schema for validating the yearMonth path parameter
+ * Format: YYYY-MM with valid month range (01-12)
+ */
+const YearMonthParamSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}$/, "Invalid year-month format. Expected YYYY-MM")
+  .refine(
+    (value) => {
+      const month = Number(value.slice(5, 7));
+      return month >= 1 && month <= 12;
+    },
+    { message: "Invalid month. Month must be between 01 and 12" }
+  );
+
+/**
+ * Handles a close or reopen request; both share validation and error mapping.
+ */
+async function handleCloseRequest(
+  params: Record<string, string | undefined>,
+  locals: App.Locals,
+  action: "close" | "reopen"
+): Promise<Response> {
+  try {
+    // Guard: Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to access this resource.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate path parameter (yearMonth)
+    const yearMonthValidation = YearMonthParamSchema.safeParse(params.yearMonth);
+
+    if (!yearMonthValidation.success) {
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid year-month parameter",
+        errors: { yearMonth: yearMonthValidation.error.errors.map((err) => err.message) },
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 422,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const budget =
+      action === "close"
+        ? await closeMonthBudget(locals.supabase, locals.user.id, yearMonthValidation.data)
+        : await reopenMonthBudget(locals.supabase, locals.user.id, yearMonthValidation.data);
+
+    return new Response(JSON.stringify({ data: budget }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    if (err instanceof MonthBudgetNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (err instanceof MonthBudgetAlreadyClosedError || err instanceof MonthBudgetNotClosedError) {
+      const errorResponse: ErrorResponse = {
+        error: "Conflict",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error(`${action === "close" ? "Close" : "Reopen"} month budget endpoint error:`, err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: `Unable to ${action} month. Please try again later.`,
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
+
+/**
+ * POST /api/month-budgets/{yearMonth}/close
+ * Closes a month: its remainder (current_balance + carried_over) is frozen in closing_balance.
+ * Months after it with rollover enabled receive the frozen value, so later edits to the
+ * closed month's expenses don't shift them.
+ *
+ * Path Parameters:
+ * - yearMonth: string (YYYY-MM format, month must be 01-12)
+ *
+ * Returns:
+ * - 200 OK: Month closed; returns the budget with closed_at, closing_balance and carried_over
+ * - 401 Unauthorized: User not authenticated
+ * - 404 Not Found: No budget exists for this month
+ * - 409 Conflict: Month is already closed
+ * - 422 Unprocessable Entity: Invalid yearMonth format
+ * - 500 Internal Server Error: Unexpected error
+ */
+export const POST: APIRoute = async ({ params, locals }) => handleCloseRequest(params, locals, "close");
+
+/**
+ * DELETE /api/month-budgets/{yearMonth}/close
+ * Reopens a closed month. Later months with rollover follow its live remainder again.
+ *
+ * Path Parameters:
+ * - yearMonth: string (YYYY-MM format, month must be 01-12)
+ *
+ * Returns:
+ * - 200 OK: Month reopened; returns the budget with carried_over
+ * - 401 Unauthorized: User not authenticated
+ * - 404 Not Found: No budget exists for this month
+ * - 409 Conflict: Month is not closed
+ * - 422 Unprocessable Entity: Invalid yearMonth format
+ * - 500 Internal Server Error: Unexpected error
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => handleCloseRequest(params, locals, "reopen");
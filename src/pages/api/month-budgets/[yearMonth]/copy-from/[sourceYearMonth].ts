@@ -0,0 +1,130 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import { copyMonthBudget, MonthBudgetNotFoundError } from "@/lib/services/budget.service";
+import { CategoryNotFoundError } from "@/lib/services/expense.service";
+
+export const prerender = false;
+
+/**
+ * Zod schema for validating the yearMonth and sourceYearMonth path parameters
+ * Format: YYYY-MM with valid month range (01-12)
+ */
+const YearMonthParamSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}$/, "Invalid year-month format. Expected YYYY-MM")
+  .refine(
+    (value) => {
+      const month = Number(value.slice(5, 7));
+      return month >= 1 && month <= 12;
+    },
+    { message: "Invalid month. Month must be between 01 and 12" }
+  );
+
+/**
+ * POST /api/month-budgets/{yearMonth}/copy-from/{sourceYearMonth}
+ * Copies the budget of sourceYearMonth to yearMonth: budget_set, rollover mode and
+ * category allocations. An existing budget in yearMonth is overwritten.
+ *
+ * Path Parameters:
+ * - yearMonth: string (YYYY-MM format) - The month to set
+ * - sourceYearMonth: string (YYYY-MM format) - The month to copy from
+ *
+ * Returns:
+ * - 201 Created: Budget was created in yearMonth
+ * - 200 OK: Existing budget in yearMonth was overwritten
+ * - 401 Unauthorized: User not authenticated
+ * - 404 Not Found: sourceYearMonth has no budget, or a copied category no longer exists
+ * - 422 Unprocessable Entity: Invalid month format or both months are the same
+ * - 500 Internal Server Error: Unexpected error
+ */
+export const POST: APIRoute = async ({ params, locals }) => {
+  try {
+    // Guard: Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to access this resource.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate path parameters
+    const yearMonthValidation = YearMonthParamSchema.safeParse(params.yearMonth);
+    const sourceValidation = YearMonthParamSchema.safeParse(params.sourceYearMonth);
+
+    if (!yearMonthValidation.success || !sourceValidation.success) {
+      const errors: Record<string, string[]> = {};
+      if (!yearMonthValidation.success) {
+        errors.yearMonth = yearMonthValidation.error.errors.map((err) => err.message);
+      }
+      if (!sourceValidation.success) {
+        errors.sourceYearMonth = sourceValidation.error.errors.map((err) => err.message);
+      }
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid year-month parameter",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 422,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (yearMonthValidation.data === sourceValidation.data) {
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid year-month parameter",
+        errors: { sourceYearMonth: ["Cannot copy a month's budget onto itself"] },
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 422,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const result = await copyMonthBudget(
+      locals.supabase,
+      locals.user.id,
+      yearMonthValidation.data,
+      sourceValidation.data
+    );
+
+    return new Response(JSON.stringify({ data: result.item }), {
+      status: result.created ? 201 : 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    if (err instanceof MonthBudgetNotFoundError || err instanceof CategoryNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("Copy month budget endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to copy month budget. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
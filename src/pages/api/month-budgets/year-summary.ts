@@ -0,0 +1,83 @@
+import type { APIRoute } from "astro";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import { BudgetYearSummaryQuerySchema } from "@/types";
+import { getBudgetYearSummary } from "@/lib/services/budget.service";
+
+export const prerender = false;
+
+/**
+ * GET /api/month-budgets/year-summary
+ * Provides the overview of one year: all twelve months with their budget, spending,
+ * balance, top category and daily spending, plus year totals and a category-by-month breakdown.
+ *
+ * Query Parameters:
+ * - year: string (required, format YYYY) - same filter as GET /api/month-budgets
+ *
+ * Returns:
+ * - 200: { data: BudgetYearSummaryDTO }
+ * - 400: Invalid query parameters
+ * - 401: User not authenticated
+ * - 500: Internal server error
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+  try {
+    // Authentication check
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to access this resource.",
+      };
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse and validate query parameters
+    const queryParams = {
+      year: url.searchParams.get("year") || undefined,
+    };
+
+    const validation = BudgetYearSummaryQuerySchema.safeParse(queryParams);
+
+    if (!validation.success) {
+      const errors: Record<string, string[]> = {};
+      validation.error.errors.forEach((err) => {
+        const path = err.path.join(".") || "query";
+        if (!errors[path]) errors[path] = [];
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid query parameters",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Invoke service
+    const summary = await getBudgetYearSummary(locals.supabase, locals.user.id, validation.data.year);
+
+    return new Response(JSON.stringify({ data: summary }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    console.error("Budget year summary endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to retrieve budget year summary. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
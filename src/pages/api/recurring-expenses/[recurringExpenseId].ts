@@ -0,0 +1,239 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { UpdateRecurringExpenseDto } from "@/types";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import {
+  updateRecurringExpense,
+  softDeleteRecurringExpense,
+  RecurringExpenseNotFoundError,
+} from "@/lib/services/recurring-expense.service";
+import { CategoryNotFoundError } from "@/lib/services/expense.service";
+
+export const prerender = false;
+
+/**
+ * Zod schema for validating the recurringExpenseId path parameter
+ */
+const RecurringExpenseIdParamSchema = z.string().uuid("Invalid recurring expense ID format");
+
+/**
+ * PATCH /api/recurring-expenses/{recurringExpenseId}
+ * Updates a recurring expense definition of the authenticated user.
+ * Already materialized expenses are not changed.
+ *
+ * Path Parameters:
+ * - recurringExpenseId: string (UUID) - The ID of the definition to update
+ *
+ * Request Body (all optional, at least one required):
+ * - description, amount, category_id, day_of_month, start_month, end_month, interval_months
+ *   (same rules as POST /api/recurring-expenses; end_month and category_id accept null)
+ *
+ * Returns:
+ * - 200: Recurring expense updated successfully
+ * - 400: Invalid ID format or validation errors
+ * - 401: User not authenticated
+ * - 404: Recurring expense or category not found
+ * - 422: Unprocessable entity (e.g., end month before start month)
+ * - 500: Internal server error
+ */
+export const PATCH: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to update a recurring expense.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate recurringExpenseId path parameter
+    const idValidation = RecurringExpenseIdParamSchema.safeParse(params.recurringExpenseId);
+
+    if (!idValidation.success) {
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid recurring expense ID format",
+        errors: { recurringExpenseId: [idValidation.error.errors[0].message] },
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      const errorResponse: ErrorResponse = {
+        error: "Bad Request",
+        message: "Invalid JSON in request body.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body
+    const validation = UpdateRecurringExpenseDto.safeParse(body);
+
+    if (!validation.success) {
+      const errors: Record<string, string[]> = {};
+      validation.error.errors.forEach((err) => {
+        const path = err.path.join(".") || "body";
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid request body",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const recurringExpense = await updateRecurringExpense(
+      locals.supabase,
+      locals.user.id,
+      idValidation.data,
+      validation.data
+    );
+
+    return new Response(JSON.stringify({ data: recurringExpense }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    if (err instanceof RecurringExpenseNotFoundError || err instanceof CategoryNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Handle validation errors from service (e.g., month range, constraint violations)
+    if (err instanceof Error && err.message.includes("Validation failed")) {
+      const errorResponse: ErrorResponse = {
+        error: "Unprocessable Entity",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 422,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("Update recurring expense endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to update recurring expense. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * DELETE /api/recurring-expenses/{recurringExpenseId}
+ * Soft-deletes a recurring expense definition of the authenticated user.
+ * Expenses that were already materialized are kept.
+ *
+ * Path Parameters:
+ * - recurringExpenseId: string (UUID) - The ID of the definition to delete
+ *
+ * Returns:
+ * - 204: Recurring expense deleted successfully (no content)
+ * - 400: Invalid ID format
+ * - 401: User not authenticated
+ * - 404: Recurring expense not found, already deleted, or doesn't belong to user
+ * - 500: Internal server error
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to delete a recurring expense.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate recurringExpenseId path parameter
+    const idValidation = RecurringExpenseIdParamSchema.safeParse(params.recurringExpenseId);
+
+    if (!idValidation.success) {
+      const errorResponse: ValidationErrorResponse = {
+        error: "Bad Request",
+        message: "Invalid recurring expense ID format",
+        errors: { recurringExpenseId: [idValidation.error.errors[0].message] },
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    await softDeleteRecurringExpense(locals.supabase, locals.user.id, idValidation.data);
+
+    // Return 204 No Content on success
+    return new Response(null, {
+      status: 204,
+    });
+  } catch (err) {
+    if (err instanceof RecurringExpenseNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("Delete recurring expense endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to delete recurring expense. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
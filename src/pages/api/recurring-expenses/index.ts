@@ -0,0 +1,177 @@
+import type { APIRoute } from "astro";
+import { CreateRecurringExpenseDto } from "@/types";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import { listRecurringExpenses, createRecurringExpense } from "@/lib/services/recurring-expense.service";
+import { CategoryNotFoundError } from "@/lib/services/expense.service";
+
+export const prerender = false;
+
+/**
+ * GET /api/recurring-expenses
+ * Retrieves all active recurring expense definitions of the authenticated user.
+ *
+ * Returns:
+ * - 200: List of recurring expenses
+ * - 401: User not authenticated
+ * - 500: Internal server error
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to access this resource.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const recurringExpenses = await listRecurringExpenses(locals.supabase, locals.user.id);
+
+    return new Response(JSON.stringify({ data: recurringExpenses }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    console.error("List recurring expenses endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to retrieve recurring expenses. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
+
+/**
+ * POST /api/recurring-expenses
+ * Creates a recurring expense definition for the authenticated user.
+ * Occurrences are created when a month is opened or its budget is saved.
+ *
+ * Request Body:
+ * - description: string (required, max 500 chars) - What the expense is for
+ * - amount: number (positive, max 2 decimal places) - The amount of every occurrence
+ * - category_id: string (UUID, optional) - The expense category ID
+ * - day_of_month: number (1-31) - Day of the occurrence (clamped to the month length)
+ * - start_month: string (YYYY-MM) - First month with an occurrence
+ * - end_month: string (YYYY-MM, optional) - Last month with an occurrence (inclusive)
+ * - interval_months: number (1-12, default: 1) - Months between occurrences
+ *
+ * Returns:
+ * - 201: Recurring expense created successfully
+ * - 400: Invalid request body or validation errors
+ * - 401: User not authenticated
+ * - 404: Category not found
+ * - 422: Unprocessable entity (domain validation failed)
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to create a recurring expense.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      const errorResponse: ErrorResponse = {
+        error: "Bad Request",
+        message: "Invalid JSON in request body.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body
+    const validation = CreateRecurringExpenseDto.safeParse(body);
+
+    if (!validation.success) {
+      const errors: Record<string, string[]> = {};
+      validation.error.errors.forEach((err) => {
+        const path = err.path.join(".") || "body";
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid request body",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const recurringExpense = await createRecurringExpense(locals.supabase, locals.user.id, validation.data);
+
+    return new Response(JSON.stringify({ data: recurringExpense }), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    // Handle CategoryNotFoundError
+    if (err instanceof CategoryNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Handle validation errors from service (e.g., constraint violations)
+    if (err instanceof Error && err.message.includes("Validation failed")) {
+      const errorResponse: ErrorResponse = {
+        error: "Unprocessable Entity",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 422,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    console.error("Create recurring expense endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to create recurring expense. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
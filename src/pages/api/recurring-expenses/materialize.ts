@@ -0,0 +1,98 @@
+import type { APIRoute } from "astro";
+import { MaterializeRecurringExpensesDto } from "@/types";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import { materializeRecurringExpenses } from "@/lib/services/recurring-expense.service";
+
+export const prerender = false;
+
+/**
+ * POST /api/recurring-expenses/materialize
+ * Creates the missing occurrences of the authenticated user's recurring expenses for a month.
+ * Idempotent: occurrences that already exist (or were deleted by the user) are never created again.
+ * Called by the budget view whenever a month is opened.
+ *
+ * Request Body:
+ * - year_month: string (YYYY-MM) - The month to fill
+ *
+ * Returns:
+ * - 200: Number of expenses created by this call
+ * - 400: Invalid request body or validation errors
+ * - 401: User not authenticated
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to access this resource.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      const errorResponse: ErrorResponse = {
+        error: "Bad Request",
+        message: "Invalid JSON in request body.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body
+    const validation = MaterializeRecurringExpensesDto.safeParse(body);
+
+    if (!validation.success) {
+      const errors: Record<string, string[]> = {};
+      validation.error.errors.forEach((err) => {
+        const path = err.path.join(".") || "body";
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid request body",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const result = await materializeRecurringExpenses(locals.supabase, locals.user.id, validation.data.year_month);
+
+    return new Response(JSON.stringify({ data: result }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    console.error("Materialize recurring expenses endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to create recurring expenses. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,91 @@
+import type { APIRoute } from "astro";
+import { SpendingReportQuerySchema } from "@/types";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import { getSpendingReport } from "@/lib/services/report.service";
+
+export const prerender = false;
+
+/**
+ * GET /api/reports/spending
+ * Spending analytics for a range of months, aggregated by the database.
+ *
+ * Query Parameters:
+ * - from: string (YYYY-MM, required) - First month of the range
+ * - to: string (YYYY-MM, required) - Last month of the range (at most 36 months after `from`, inclusive)
+ * - groupBy: 'category' | 'month' | 'week' (default: 'category') - How `groups` are split
+ *
+ * Returns:
+ * - 200: { data: SpendingReportDTO } - totals and monthly average, grouped totals,
+ *   each category's month-over-month change and budget adherence per month
+ * - 400: Invalid query parameters
+ * - 401: User not authenticated
+ * - 500: Internal server error
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to access this resource.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse and validate query parameters
+    const queryParams = {
+      from: url.searchParams.get("from") || undefined,
+      to: url.searchParams.get("to") || undefined,
+      groupBy: url.searchParams.get("groupBy") || undefined,
+    };
+
+    const queryValidation = SpendingReportQuerySchema.safeParse(queryParams);
+
+    if (!queryValidation.success) {
+      const errors: Record<string, string[]> = {};
+      queryValidation.error.errors.forEach((err) => {
+        const path = err.path.join(".");
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid query parameters",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Build the report using the service
+    const report = await getSpendingReport(locals.supabase, locals.user.id, queryValidation.data);
+
+    return new Response(JSON.stringify({ data: report }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    // Handle unexpected errors
+    console.error("Spending report endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to build spending report. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
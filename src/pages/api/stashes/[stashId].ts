@@ -1,10 +1,10 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
 import type { ErrorResponse, ValidationErrorResponse, StashDTO } from "@/types";
-import { UpdateStashNameDto } from "@/types";
+import { UpdateStashDto } from "@/types";
 import {
   getStashDetails,
-  updateStashName,
+  updateStash,
   deleteStash,
   StashNotFoundError,
   DuplicateStashError,
@@ -36,7 +36,7 @@ const GetStashParamsSchema = z.object({
  * - includeTransactions: boolean (default: false) - Include 50 most recent transactions
  *
  * Returns:
- * - 200: Stash details with optional transactions
+ * - 200: Stash details (with contributed and unrealized_gain) and optional transactions
  * - 400: Invalid stash ID format
  * - 401: User not authenticated
  * - 404: Stash not found
@@ -131,13 +131,18 @@ export const GET: APIRoute = async ({ params, url, locals }) => {
 
 /**
  * PATCH /api/stashes/{stashId}
- * Updates the name of a specific stash belonging to the authenticated user.
+ * Updates a specific stash belonging to the authenticated user: its name, savings goal and/or whether
+ * it is shared with the user's household.
  *
  * Path Parameters:
  * - stashId: string (UUID) - The unique identifier of the stash
  *
- * Request Body:
- * - name: string (1-100 characters) - The new name for the stash
+ * Request Body (at least one field):
+ * - name: string (1-100 characters, optional) - The new name for the stash
+ * - goal_amount: number | null (optional, positive, max 8 decimal places) - Savings goal; null removes the goal
+ *   (and its target date)
+ * - goal_date: string | null (optional, YYYY-MM-DD) - Date the goal should be reached by; null removes it
+ * - shared_with_household: boolean (optional) - Whether the other household members can see the stash
  *
  * Returns:
  * - 200: Updated stash data
@@ -145,6 +150,7 @@ export const GET: APIRoute = async ({ params, url, locals }) => {
  * - 401: User not authenticated
  * - 404: Stash not found
  * - 409: Duplicate stash name conflict
+ * - 422: Target date set on a stash without a goal amount
  * - 500: Internal server error
  */
 export const PATCH: APIRoute = async ({ params, request, locals }) => {
@@ -198,12 +204,12 @@ export const PATCH: APIRoute = async ({ params, request, locals }) => {
       });
     }
 
-    const bodyValidation = UpdateStashNameDto.safeParse(requestBody);
+    const bodyValidation = UpdateStashDto.safeParse(requestBody);
 
     if (!bodyValidation.success) {
       const errors: Record<string, string[]> = {};
       bodyValidation.error.errors.forEach((err) => {
-        const path = err.path.join(".");
+        const path = err.path.join(".") || "body";
         if (!errors[path]) {
           errors[path] = [];
         }
@@ -222,19 +228,23 @@ export const PATCH: APIRoute = async ({ params, request, locals }) => {
       });
     }
 
-    // Update the stash name using the service
-    const updatedStash = await updateStashName(
+    // Update the stash using the service
+    const updatedStash = await updateStash(
       locals.supabase,
       locals.user.id,
       stashIdValidation.data,
-      bodyValidation.data.name
+      bodyValidation.data
     );
 
     // Transform to DTO (exclude internal fields)
     const stashDTO: StashDTO = {
       id: updatedStash.id,
       name: updatedStash.name,
+      currency: updatedStash.currency,
       current_balance: updatedStash.current_balance,
+      goal_amount: updatedStash.goal_amount,
+      goal_date: updatedStash.goal_date,
+      shared_with_household: updatedStash.shared_with_household,
       created_at: updatedStash.created_at,
       updated_at: updatedStash.updated_at,
     };
@@ -271,12 +281,25 @@ export const PATCH: APIRoute = async ({ params, request, locals }) => {
       });
     }
 
+    // Handle goal validation errors from the service or database
+    if (err instanceof Error && err.message.includes("Validation failed")) {
+      const errorResponse: ErrorResponse = {
+        error: "Unprocessable Entity",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 422,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
     // Handle unexpected errors
-    console.error("Update stash name endpoint error:", err);
+    console.error("Update stash endpoint error:", err);
 
     const errorResponse: ErrorResponse = {
       error: "Internal server error",
-      message: "Unable to update stash name. Please try again later.",
+      message: "Unable to update stash. Please try again later.",
     };
 
     return new Response(JSON.stringify(errorResponse), {
@@ -0,0 +1,169 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { BalanceHistoryQuerySchema } from "@/types";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import { getStashBalanceHistory, StashNotFoundError } from "@/lib/services/stash.service";
+import { getBalanceHistoryDates, MAX_BALANCE_HISTORY_POINTS, resolveBalanceHistoryRange } from "@/lib/balance-history";
+
+export const prerender = false;
+
+/**
+ * Zod schema for validating the stashId path parameter
+ */
+const StashIdParamSchema = z.string().uuid("Invalid stash ID format");
+
+/**
+ * GET /api/stashes/{stashId}/balance-history
+ * Rebuilds the stash's running balance from its transactions, for a line chart.
+ * Soft-deleted transactions count until their deleted_at, so past points show
+ * the balance as it was on that day.
+ *
+ * Path Parameters:
+ * - stashId: string (UUID) - The unique identifier of the stash
+ *
+ * Query Parameters:
+ * - from: string (YYYY-MM-DD, optional) - First day of the range
+ *   (default: 30 days, 12 weeks or 12 months before `to`, depending on the interval)
+ * - to: string (YYYY-MM-DD, optional) - Last day of the range (default: today, UTC)
+ * - interval: 'day' | 'week' | 'month' (default: 'month') - One point per day, week or month
+ *
+ * Returns:
+ * - 200: { data: StashBalanceHistoryDTO } - points hold the balance at the end of each day, week or month
+ * - 400: Invalid path or query parameters, or the range has too many points for the interval
+ * - 401: User not authenticated
+ * - 404: Stash not found or doesn't belong to user
+ * - 500: Internal server error
+ */
+export const GET: APIRoute = async ({ params, url, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to access this resource.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate stashId path parameter
+    const stashIdValidation = StashIdParamSchema.safeParse(params.stashId);
+
+    if (!stashIdValidation.success) {
+      const errors: Record<string, string[]> = {};
+      stashIdValidation.error.errors.forEach((err) => {
+        errors["stashId"] = [err.message];
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid stash ID",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse and validate query parameters
+    const queryParams = {
+      from: url.searchParams.get("from") || undefined,
+      to: url.searchParams.get("to") || undefined,
+      interval: url.searchParams.get("interval") || undefined,
+    };
+
+    const queryValidation = BalanceHistoryQuerySchema.safeParse(queryParams);
+
+    if (!queryValidation.success) {
+      const errors: Record<string, string[]> = {};
+      queryValidation.error.errors.forEach((err) => {
+        const path = err.path.join(".");
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid query parameters",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Fill in the default range and keep the series to a chartable size
+    const range = resolveBalanceHistoryRange(queryValidation.data);
+
+    if (range.from > range.to) {
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid query parameters",
+        errors: { from: ["from date must be less than or equal to to date"] },
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    if (getBalanceHistoryDates(range.from, range.to, range.interval).length > MAX_BALANCE_HISTORY_POINTS) {
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid query parameters",
+        errors: {
+          from: [`Range is too long for a ${range.interval} interval (max ${MAX_BALANCE_HISTORY_POINTS} points)`],
+        },
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Rebuild the balance history using the service
+    const history = await getStashBalanceHistory(locals.supabase, locals.user.id, stashIdValidation.data, range);
+
+    return new Response(JSON.stringify({ data: history }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    // Handle stash not found error
+    if (err instanceof StashNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Handle unexpected errors
+    console.error("Stash balance history endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to retrieve balance history. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,106 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import { DuplicateStashError, restoreStash, StashNotFoundError } from "@/lib/services/stash.service";
+
+export const prerender = false;
+
+/**
+ * Zod schema for validating the stashId path parameter
+ */
+const StashIdParamSchema = z.string().uuid("Invalid stash ID format");
+
+/**
+ * POST /api/stashes/{stashId}/restore
+ * Restores a soft-deleted stash from the trash (also used by the undo after a delete).
+ * The transactions deleted together with the stash are restored and count towards its balance again.
+ *
+ * Path Parameters:
+ * - stashId: string (UUID) - The unique identifier of the stash to restore
+ *
+ * Returns:
+ * - 204: Stash restored successfully (no content)
+ * - 400: Invalid stash ID format
+ * - 401: User not authenticated
+ * - 404: Stash not in the trash or doesn't belong to user
+ * - 409: An active stash with the same name exists
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ params, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to access this resource.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate stashId path parameter
+    const stashIdValidation = StashIdParamSchema.safeParse(params.stashId);
+
+    if (!stashIdValidation.success) {
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid stash ID format",
+        errors: { stashId: stashIdValidation.error.errors.map((err) => err.message) },
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    await restoreStash(locals.supabase, locals.user.id, stashIdValidation.data);
+
+    // Return 204 No Content on success
+    return new Response(null, {
+      status: 204,
+    });
+  } catch (err) {
+    // Handle stash not found error
+    if (err instanceof StashNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Handle duplicate stash name error
+    if (err instanceof DuplicateStashError) {
+      const errorResponse: ErrorResponse = {
+        error: "Conflict",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Handle unexpected errors
+    console.error("Restore stash endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to restore stash. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
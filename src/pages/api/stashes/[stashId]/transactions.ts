@@ -1,5 +1,6 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
+import { roundStashAmount } from "@/lib/currency";
 import { ListTransactionsQuerySchema } from "@/types";
 import type { ErrorResponse, ValidationErrorResponse, CreateStashTransactionCommand } from "@/types";
 import {
@@ -21,7 +22,7 @@ const StashIdParamSchema = z.string().uuid("Invalid stash ID format");
  *
  * Validation rules:
  * - transaction_type: Must be either 'deposit' or 'withdrawal'
- * - amount: Must be a positive number (database stores as numeric(12,2))
+ * - amount: Must be a positive number with at most 8 decimal places (database stores as numeric(20,8))
  * - description: Optional text field for transaction notes
  */
 const CreateTransactionDto = z.object({
@@ -34,7 +35,8 @@ const CreateTransactionDto = z.object({
       invalid_type_error: "Amount must be a number",
     })
     .positive("Amount must be greater than zero")
-    .finite("Amount must be a finite number"),
+    .finite("Amount must be a finite number")
+    .refine((n) => roundStashAmount(n) === n, "Amount must have at most 8 decimal places"),
   description: z.string().max(1000, "Description cannot exceed 1000 characters").optional(),
 });
 
@@ -48,13 +50,13 @@ const CreateTransactionDto = z.object({
  * Query Parameters:
  * - page: number (default: 1) - The page number to retrieve
  * - limit: number (default: 20, max: 100) - The number of items per page
- * - type: 'deposit' | 'withdrawal' (optional) - Filter by transaction type
+ * - type: 'deposit' | 'withdrawal' | 'adjustment' (optional) - Filter by transaction type
  * - from: string (ISO 8601, optional) - Start date for filtering (inclusive)
  * - to: string (ISO 8601, optional) - End date for filtering (inclusive)
  * - order: 'asc' | 'desc' (default: 'desc') - Sort order by created_at
  *
  * Returns:
- * - 200: Paginated list of transactions
+ * - 200: Paginated list of transactions; transfers include the stash on the other side (transfer_stash)
  * - 400: Invalid path or query parameters
  * - 401: User not authenticated
  * - 404: Stash not found or doesn't belong to user
@@ -181,6 +183,7 @@ export const GET: APIRoute = async ({ params, url, locals }) => {
  *
  * Request Body:
  * - transaction_type: 'deposit' | 'withdrawal' (required) - The type of transaction
+ *   (adjustments are recorded through POST /api/stashes/{stashId}/valuations)
  * - amount: number (required) - The transaction amount (must be positive)
  * - description: string (optional) - An optional note for the transaction
  *
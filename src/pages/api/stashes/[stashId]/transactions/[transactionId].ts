@@ -19,6 +19,7 @@ const TransactionIdParamSchema = z.string().uuid("Invalid transaction ID format"
  * DELETE /api/stashes/{stashId}/transactions/{transactionId}
  * Soft-deletes a specific transaction by setting its deleted_at timestamp.
  * This action reverses the transaction's impact on the stash balance.
+ * Deleting either side of a transfer deletes both sides and reverses it on both stashes.
  *
  * Path Parameters:
  * - stashId: string (UUID) - The unique identifier of the stash
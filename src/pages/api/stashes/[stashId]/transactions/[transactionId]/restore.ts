@@ -0,0 +1,126 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import {
+  InsufficientBalanceError,
+  restoreTransaction,
+  StashDeletedError,
+  TransactionNotFoundError,
+} from "@/lib/services/transaction.service";
+
+export const prerender = false;
+
+/**
+ * Zod schema for validating the path parameters
+ */
+const RestoreTransactionParamsSchema = z.object({
+  stashId: z.string().uuid("Invalid stash ID format"),
+  transactionId: z.string().uuid("Invalid transaction ID format"),
+});
+
+/**
+ * POST /api/stashes/{stashId}/transactions/{transactionId}/restore
+ * Restores a soft-deleted transaction from the trash (also used by the undo after a delete).
+ * The transaction counts towards the stash balance again; restoring either side of a
+ * transfer restores both sides.
+ *
+ * Path Parameters:
+ * - stashId: string (UUID) - The unique identifier of the stash
+ * - transactionId: string (UUID) - The unique identifier of the transaction to restore
+ *
+ * Returns:
+ * - 204: Transaction restored successfully (no content)
+ * - 400: Invalid path parameters
+ * - 401: User not authenticated
+ * - 404: Transaction not in the trash or doesn't belong to user
+ * - 409: The stash is deleted, or restoring a withdrawal would overdraw the stash
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ params, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to access this resource.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate path parameters
+    const paramsValidation = RestoreTransactionParamsSchema.safeParse(params);
+
+    if (!paramsValidation.success) {
+      const errors: Record<string, string[]> = {};
+      paramsValidation.error.errors.forEach((err) => {
+        const path = err.path.join(".");
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid path parameters",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const { stashId, transactionId } = paramsValidation.data;
+    await restoreTransaction(locals.supabase, locals.user.id, stashId, transactionId);
+
+    // Return 204 No Content on success
+    return new Response(null, {
+      status: 204,
+    });
+  } catch (err) {
+    // Handle transaction not found error
+    if (err instanceof TransactionNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Handle restores that conflict with the current state of the stashes
+    if (err instanceof StashDeletedError || err instanceof InsufficientBalanceError) {
+      const errorResponse: ErrorResponse = {
+        error: "Conflict",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 409,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Log and handle unexpected errors
+    console.error("Restore transaction endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to restore transaction. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -0,0 +1,199 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { roundStashAmount } from "@/lib/currency";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import { createTransfer, StashNotFoundError, InsufficientBalanceError } from "@/lib/services/transaction.service";
+
+export const prerender = false;
+
+/**
+ * Zod schema for validating the stashId path parameter
+ */
+const StashIdParamSchema = z.string().uuid("Invalid stash ID format");
+
+/**
+ * Zod schema for validating the request body when creating a transfer
+ *
+ * Validation rules:
+ * - target_stash_id: UUID of the stash receiving the money
+ * - amount: Must be a positive number with at most 8 decimal places (database stores as numeric(20,8))
+ * - description: Optional text field stored on both sides of the transfer
+ */
+const CreateTransferDto = z.object({
+  target_stash_id: z.string().uuid("Invalid target stash ID format"),
+  amount: z
+    .number({
+      required_error: "Amount is required",
+      invalid_type_error: "Amount must be a number",
+    })
+    .positive("Amount must be greater than zero")
+    .finite("Amount must be a finite number")
+    .refine((n) => roundStashAmount(n) === n, "Amount must have at most 8 decimal places"),
+  description: z.string().max(1000, "Description cannot exceed 1000 characters").optional(),
+});
+
+/**
+ * POST /api/stashes/{stashId}/transfers
+ * Moves money from this stash to another one of the user's stashes.
+ * The withdrawal and the deposit are created atomically and share a transfer_id;
+ * if the source balance is too low, neither is created.
+ *
+ * Path Parameters:
+ * - stashId: string (UUID) - The stash to withdraw from
+ *
+ * Request Body:
+ * - target_stash_id: string (UUID, required) - The stash to deposit to
+ * - amount: number (required) - The amount to transfer (must be positive)
+ * - description: string (optional) - An optional note, stored on both transactions
+ *
+ * Returns:
+ * - 201: Transfer created successfully
+ * - 400: Invalid path parameter or request body, or target is the same stash
+ * - 401: User not authenticated
+ * - 403: Insufficient balance in the source stash
+ * - 404: Source or target stash not found or doesn't belong to user
+ * - 422: The stashes hold different currencies
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to access this resource.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate stashId path parameter
+    const stashIdValidation = StashIdParamSchema.safeParse(params.stashId);
+
+    if (!stashIdValidation.success) {
+      const errors: Record<string, string[]> = {};
+      stashIdValidation.error.errors.forEach((err) => {
+        errors["stashId"] = [err.message];
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid stash ID",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      const errorResponse: ErrorResponse = {
+        error: "Bad Request",
+        message: "Invalid JSON in request body",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body
+    const bodyValidation = CreateTransferDto.refine((body) => body.target_stash_id !== stashIdValidation.data, {
+      message: "Cannot transfer to the same stash",
+      path: ["target_stash_id"],
+    }).safeParse(requestBody);
+
+    if (!bodyValidation.success) {
+      const errors: Record<string, string[]> = {};
+      bodyValidation.error.errors.forEach((err) => {
+        const path = err.path.join(".") || "body";
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid request body",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Create the transfer using the service
+    const transfer = await createTransfer(locals.supabase, locals.user.id, stashIdValidation.data, bodyValidation.data);
+
+    // Return success response with 201 Created
+    return new Response(JSON.stringify(transfer), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    // Handle stash not found error (source or target)
+    if (err instanceof StashNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Handle insufficient balance error
+    if (err instanceof InsufficientBalanceError) {
+      const errorResponse: ErrorResponse = {
+        error: "Forbidden",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 403,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Handle domain validation errors (e.g., stashes in different currencies)
+    if (err instanceof Error && err.message.includes("Validation failed")) {
+      const errorResponse: ErrorResponse = {
+        error: "Unprocessable Entity",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 422,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Handle unexpected errors
+    console.error("Create transfer endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to create transfer. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
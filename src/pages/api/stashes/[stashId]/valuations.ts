@@ -0,0 +1,170 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { roundStashAmount } from "@/lib/currency";
+import type { ErrorResponse, ValidationErrorResponse } from "@/types";
+import { recordValuation, StashNotFoundError } from "@/lib/services/transaction.service";
+
+export const prerender = false;
+
+/**
+ * Zod schema for validating the stashId path parameter
+ */
+const StashIdParamSchema = z.string().uuid("Invalid stash ID format");
+
+/**
+ * Zod schema for validating the request body when recording a valuation
+ *
+ * Validation rules:
+ * - market_value: Must be zero or a positive number with at most 8 decimal places (database stores as numeric(20,8))
+ * - description: Optional text field
+ */
+const RecordValuationDto = z.object({
+  market_value: z
+    .number({
+      required_error: "Market value is required",
+      invalid_type_error: "Market value must be a number",
+    })
+    .nonnegative("Market value cannot be negative")
+    .finite("Market value must be a finite number")
+    .refine((n) => roundStashAmount(n) === n, "Market value must have at most 8 decimal places"),
+  description: z.string().max(1000, "Description cannot exceed 1000 characters").optional(),
+});
+
+/**
+ * POST /api/stashes/{stashId}/valuations
+ * Records the current market value of an investment stash.
+ * The difference to the current balance is stored as an 'adjustment' transaction,
+ * which changes the balance without counting as a contribution.
+ *
+ * Path Parameters:
+ * - stashId: string (UUID) - The stash to revalue
+ *
+ * Request Body:
+ * - market_value: number (required) - The stash's value now, in its currency (zero or positive)
+ * - description: string (optional) - An optional note
+ *
+ * Returns:
+ * - 201: Valuation recorded; the created adjustment transaction (amount is the signed change)
+ * - 400: Invalid path parameter or request body
+ * - 401: User not authenticated
+ * - 404: Stash not found or doesn't belong to user
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to access this resource.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate stashId path parameter
+    const stashIdValidation = StashIdParamSchema.safeParse(params.stashId);
+
+    if (!stashIdValidation.success) {
+      const errors: Record<string, string[]> = {};
+      stashIdValidation.error.errors.forEach((err) => {
+        errors["stashId"] = [err.message];
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid stash ID",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Parse request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch {
+      const errorResponse: ErrorResponse = {
+        error: "Bad Request",
+        message: "Invalid JSON in request body",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Validate request body
+    const bodyValidation = RecordValuationDto.safeParse(requestBody);
+
+    if (!bodyValidation.success) {
+      const errors: Record<string, string[]> = {};
+      bodyValidation.error.errors.forEach((err) => {
+        const path = err.path.join(".") || "body";
+        if (!errors[path]) {
+          errors[path] = [];
+        }
+        errors[path].push(err.message);
+      });
+
+      const errorResponse: ValidationErrorResponse = {
+        error: "Validation failed",
+        message: "Invalid request body",
+        errors,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Record the valuation using the service
+    const transaction = await recordValuation(
+      locals.supabase,
+      locals.user.id,
+      stashIdValidation.data,
+      bodyValidation.data
+    );
+
+    // Return success response with 201 Created
+    return new Response(JSON.stringify(transaction), {
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    // Handle stash not found error
+    if (err instanceof StashNotFoundError) {
+      const errorResponse: ErrorResponse = {
+        error: "Not Found",
+        message: err.message,
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Handle unexpected errors
+    console.error("Record valuation endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to record valuation. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
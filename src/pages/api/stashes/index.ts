@@ -1,6 +1,6 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
-import { ListStashesQuerySchema } from "@/types";
+import { CurrencyCodeSchema, ListStashesQuerySchema } from "@/types";
 import type { ErrorResponse, ValidationErrorResponse, StashDTO } from "@/types";
 import { listStashes, createStash, DuplicateStashError } from "@/lib/services/stash.service";
 
@@ -11,6 +11,7 @@ export const prerender = false;
  */
 const CreateStashDto = z.object({
   name: z.string().min(1, "Name is required").max(100, "Name must be 100 characters or fewer"),
+  currency: CurrencyCodeSchema.default("PLN"),
 });
 
 /**
@@ -22,9 +23,10 @@ const CreateStashDto = z.object({
  * - limit: number (default: 20, max: 100) - The number of items per page
  * - sort: 'created_at' | 'name' (default: 'created_at') - The field to sort by
  * - order: 'asc' | 'desc' (default: 'desc') - The sort order
+ * - baseCurrency: string (default: 'PLN') - Currency converted_balance is expressed in
  *
  * Returns:
- * - 200: Paginated list of stashes
+ * - 200: Paginated list of stashes; converted_balance is null when no exchange rate is known
  * - 400: Invalid query parameters
  * - 401: User not authenticated
  * - 500: Internal server error
@@ -50,6 +52,7 @@ export const GET: APIRoute = async ({ url, locals }) => {
       limit: url.searchParams.get("limit") || undefined,
       sort: url.searchParams.get("sort") || undefined,
       order: url.searchParams.get("order") || undefined,
+      baseCurrency: url.searchParams.get("baseCurrency") || undefined,
     };
 
     const validation = ListStashesQuerySchema.safeParse(queryParams);
@@ -105,6 +108,7 @@ export const GET: APIRoute = async ({ url, locals }) => {
  *
  * Request Body:
  * - name: string (required, 1-100 characters) - The name of the stash
+ * - currency: string (optional, default: 'PLN') - Currency code of the stash (ISO 4217 or a crypto ticker); cannot be changed later
  *
  * Returns:
  * - 201: Successfully created stash
@@ -176,7 +180,11 @@ export const POST: APIRoute = async ({ request, locals }) => {
     const stashDto: StashDTO = {
       id: newStash.id,
       name: newStash.name,
+      currency: newStash.currency,
       current_balance: newStash.current_balance,
+      goal_amount: newStash.goal_amount,
+      goal_date: newStash.goal_date,
+      shared_with_household: newStash.shared_with_household,
       created_at: newStash.created_at,
       updated_at: newStash.updated_at,
     };
@@ -0,0 +1,52 @@
+import type { APIRoute } from "astro";
+import type { ErrorResponse } from "@/types";
+import { listTags } from "@/lib/services/tag.service";
+
+export const prerender = false;
+
+/**
+ * GET /api/tags
+ * Retrieves the authenticated user's expense tags, alphabetically.
+ * Tags are created when they are first used on an expense (POST/PATCH /api/expenses).
+ *
+ * Returns:
+ * - 200: { data: TagDTO[] }
+ * - 401: User not authenticated
+ * - 500: Internal server error
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to access this resource.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Fetch tags using the service
+    const tags = await listTags(locals.supabase, locals.user.id);
+
+    return new Response(JSON.stringify({ data: tags }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    console.error("List tags endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to retrieve tags. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -1,5 +1,5 @@
 import type { APIRoute } from "astro";
-import { createClient } from "@supabase/supabase-js";
+import { createSupabaseAdminClient } from "@/db/supabase.admin";
 
 // Only allow cleanup in development/test environments
 const isTestEnvironment = process.env.NODE_ENV !== "production";
@@ -12,15 +12,12 @@ export const POST: APIRoute = async () => {
 
   try {
     // Use service role key to bypass RLS policies
-    const supabaseUrl = process.env.SUPABASE_URL;
-    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    const supabase = createSupabaseAdminClient();
 
-    if (!supabaseUrl || !supabaseServiceKey) {
+    if (!supabase) {
       return new Response(JSON.stringify({ error: "Supabase credentials not configured" }), { status: 500 });
     }
 
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
     console.log(`🧹 Cleaning up all test data...`);
 
     // Delete all stash transactions
@@ -0,0 +1,54 @@
+import type { APIRoute } from "astro";
+import type { ErrorResponse } from "@/types";
+import { listTrash } from "@/lib/services/trash.service";
+
+export const prerender = false;
+
+/**
+ * GET /api/trash
+ * Retrieves the authenticated user's soft-deleted expenses, stashes and stash transactions,
+ * newest deletions first. Records deleted longer ago than the retention period are left out;
+ * POST /api/trash/purge removes them.
+ * Restore with POST /api/expenses/{id}/restore, /api/stashes/{id}/restore and
+ * /api/stashes/{stashId}/transactions/{id}/restore.
+ *
+ * Returns:
+ * - 200: { data: TrashDTO }
+ * - 401: User not authenticated
+ * - 500: Internal server error
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to access this resource.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const trash = await listTrash(locals.supabase, locals.user.id);
+
+    return new Response(JSON.stringify({ data: trash }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    console.error("List trash endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to retrieve the trash. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
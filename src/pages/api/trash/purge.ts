@@ -0,0 +1,51 @@
+import type { APIRoute } from "astro";
+import type { ErrorResponse } from "@/types";
+import { purgeTrash } from "@/lib/services/trash.service";
+
+export const prerender = false;
+
+/**
+ * POST /api/trash/purge
+ * Permanently deletes the authenticated user's expenses, stashes and stash transactions
+ * that have been in the trash longer than the retention period. Called when the trash page opens.
+ *
+ * Returns:
+ * - 200: { data: TrashPurgeResultDTO }
+ * - 401: User not authenticated
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ locals }) => {
+  try {
+    // Check authentication
+    if (!locals.user) {
+      const errorResponse: ErrorResponse = {
+        error: "Unauthorized",
+        message: "You must be logged in to access this resource.",
+      };
+
+      return new Response(JSON.stringify(errorResponse), {
+        status: 401,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    const result = await purgeTrash(locals.supabase, locals.user.id);
+
+    return new Response(JSON.stringify({ data: result }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    console.error("Purge trash endpoint error:", err);
+
+    const errorResponse: ErrorResponse = {
+      error: "Internal server error",
+      message: "Unable to purge the trash. Please try again later.",
+    };
+
+    return new Response(JSON.stringify(errorResponse), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+};
@@ -1,5 +1,7 @@
 import type { Tables, TablesInsert, TablesUpdate } from "./db/database.types";
 import { z } from "zod";
+import { splitsMatchAmount } from "./lib/expense-split";
+import { roundStashAmount } from "./lib/currency";
 
 // ============================================================================
 // Entity Types (Direct references to database tables)
@@ -7,7 +9,7 @@ import { z } from "zod";
 
 /**
  * Expense Category entity from database
- * Used for read-only category listings
+ * Rows with user_id = null are the shared default categories
  */
 export type ExpenseCategory = Tables<"expense_categories">;
 
@@ -26,18 +28,80 @@ export type StashTransaction = Tables<"stash_transactions">;
  */
 export type MonthBudget = Tables<"month_budget">;
 
+/**
+ * Per-category allocation of a monthly budget entity from database
+ */
+export type MonthBudgetCategory = Tables<"month_budget_categories">;
+
+/**
+ * Named budget template entity from database
+ */
+export type BudgetTemplate = Tables<"budget_templates">;
+
+/**
+ * Per-category allocation of a budget template entity from database
+ */
+export type BudgetTemplateCategory = Tables<"budget_template_categories">;
+
 /**
  * Expense entity from database
  */
 export type Expense = Tables<"expenses">;
 
+/**
+ * Expense split line entity from database
+ * Part of an expense's amount assigned to one category
+ */
+export type ExpenseSplit = Tables<"expense_splits">;
+
+/**
+ * Recurring Expense definition entity from database
+ */
+export type RecurringExpense = Tables<"recurring_expenses">;
+
+/**
+ * Exchange Rate entity from database
+ * 1 from_currency = rate to_currency on rate_date
+ */
+export type ExchangeRate = Tables<"exchange_rates">;
+
+/**
+ * Tag entity from database
+ * Free-form label attached to expenses next to their category
+ */
+export type Tag = Tables<"tags">;
+
+/**
+ * Household entity from database
+ * Users who share month budgets and expenses
+ */
+export type Household = Tables<"households">;
+
+/**
+ * Pending household invitation entity from database
+ */
+export type HouseholdInvitation = Tables<"household_invitations">;
+
+/**
+ * Personal API token entity from database
+ * Only the SHA-256 hash of the token is stored
+ */
+export type ApiToken = Tables<"api_tokens">;
+
+/**
+ * Audit log entry from database
+ * Written by triggers on every change to expenses, month budgets, stashes and stash transactions
+ */
+export type AuditLogEntry = Tables<"audit_log">;
+
 // ============================================================================
 // Response DTOs (Data Transfer Objects)
 // ============================================================================
 
 /**
  * DTO for expense category responses
- * Exposes all fields as categories are read-only and not user-specific
+ * Exposes all fields; user_id = null marks a shared default category,
+ * archived_at marks a category hidden from pickers but kept on old expenses
  */
 export type ExpenseCategoryDTO = ExpenseCategory;
 
@@ -55,15 +119,30 @@ export type StashTransactionDTO = Omit<StashTransaction, "deleted_at" | "user_id
 
 /**
  * DTO for monthly budget responses
- * Excludes internal fields (deleted_at, user_id)
+ * Excludes internal fields (deleted_at, user_id, household_id)
+ */
+export type MonthBudgetDTO = Omit<MonthBudget, "deleted_at" | "user_id" | "household_id">;
+
+/**
+ * DTO for a single monthly budget with its rollover amount
+ * carried_over comes from the previous month (0 unless rollover_enabled);
+ * the effective budget is budget_set + carried_over
  */
-export type MonthBudgetDTO = Omit<MonthBudget, "deleted_at" | "user_id">;
+export interface MonthBudgetDetailsDTO extends MonthBudgetDTO {
+  carried_over: number;
+}
 
 /**
  * DTO for expense responses
+ * Excludes internal fields (deleted_at, user_id, household_id)
+ */
+export type ExpenseDTO = Omit<Expense, "deleted_at" | "user_id" | "household_id">;
+
+/**
+ * DTO for recurring expense definition responses
  * Excludes internal fields (deleted_at, user_id)
  */
-export type ExpenseDTO = Omit<Expense, "deleted_at" | "user_id">;
+export type RecurringExpenseDTO = Omit<RecurringExpense, "deleted_at" | "user_id">;
 
 /**
  * DTO for expense list item responses
@@ -76,24 +155,334 @@ export interface ExpenseListItemDTO {
   expense_date: string;
   year_month: string;
   description: string;
+  recurring_expense_id: string | null;
   created_at: string;
+  /** Tag names, alphabetically */
+  tags: string[];
+  /** Category lines of a split expense (category_id is then null); empty when not split */
+  splits: ExpenseSplitDTO[];
+  /** Household member who added the expense; null for personal expenses */
+  added_by: ExpenseAuthorDTO | null;
+}
+
+/**
+ * DTO for the member who added a household expense
+ */
+export interface ExpenseAuthorDTO {
+  /** null once the member has left the household */
+  email: string | null;
+  is_current_user: boolean;
+}
+
+/**
+ * DTO for one category line of a split expense
+ */
+export type ExpenseSplitDTO = Pick<ExpenseSplit, "category_id" | "amount">;
+
+/**
+ * DTO for the outcome of a bulk expense operation for one expense ID.
+ * `not_found` covers IDs that don't exist, are already deleted or belong to another user.
+ */
+export interface BulkExpenseResultDTO {
+  id: string;
+  status: "updated" | "deleted" | "not_found";
+}
+
+/**
+ * DTO for the response of the PATCH and DELETE /api/expenses/bulk endpoints.
+ * `results` has one entry per requested ID, in request order.
+ */
+export interface BulkExpensesResultDTO {
+  total: number;
+  succeeded: number;
+  not_found: number;
+  results: BulkExpenseResultDTO[];
+}
+
+/**
+ * DTO for tag responses
+ * Excludes internal fields (user_id)
+ */
+export type TagDTO = Omit<Tag, "user_id">;
+
+/**
+ * DTO for the validation outcome of a single imported expense row.
+ * `row` is the 1-based position of the row in the submitted list.
+ */
+export interface ImportExpenseRowResultDTO {
+  row: number;
+  valid: boolean;
+  data: CreateExpenseCommand | null;
+  errors: Record<string, string[]>;
+}
+
+/**
+ * DTO for the response of the POST /api/expenses/import endpoint.
+ * In dry-run mode nothing is inserted and `imported` is always 0.
+ */
+export interface ImportExpensesResultDTO {
+  dry_run: boolean;
+  total: number;
+  valid: number;
+  invalid: number;
+  imported: number;
+  months: string[];
+  rows: ImportExpenseRowResultDTO[];
+}
+
+/**
+ * DTO for the result of merging one expense category into another.
+ */
+export interface MergeExpenseCategoriesResultDTO {
+  target_category_id: string;
+  moved_expenses: number;
+}
+
+/**
+ * DTO for the result of materializing recurring expenses for a month.
+ * `created` counts only the expenses added by this call.
+ */
+export interface MaterializeRecurringExpensesResultDTO {
+  year_month: string;
+  created: number;
+}
+
+/**
+ * DTO for one category in a month's budget breakdown.
+ * `category_id` = null groups uncategorized expenses; `allocated` and `remaining`
+ * are null for categories with spending but no allocation.
+ */
+export interface MonthBudgetCategoryBreakdownItemDTO {
+  category_id: string | null;
+  category_name: string;
+  color: string | null;
+  allocated: number | null;
+  spent: number;
+  remaining: number | null;
+  is_overspent: boolean;
+}
+
+/**
+ * DTO for the response of the GET/PUT /api/month-budgets/{yearMonth}/categories endpoints.
+ * `unallocated` is the part of budget_set not assigned to any category.
+ */
+export interface MonthBudgetCategoriesDTO {
+  year_month: string;
+  budget_set: number;
+  allocated_total: number;
+  unallocated: number;
+  total_spent: number;
+  categories: MonthBudgetCategoryBreakdownItemDTO[];
+}
+
+/**
+ * DTO for budget template responses
+ * Excludes user_id; includes the template's category allocations
+ */
+export interface BudgetTemplateDTO extends Omit<BudgetTemplate, "user_id"> {
+  categories: Pick<BudgetTemplateCategory, "category_id" | "amount">[];
+}
+
+/**
+ * DTO for the result of applying a budget template to a range of months.
+ */
+export interface ApplyBudgetTemplateResultDTO {
+  template_id: string;
+  months: string[];
 }
 
 /**
  * DTO for a single stash with optional recent transactions.
- * Used by the GET /api/stashes/{stashId} endpoint
+ * Used by the GET /api/stashes/{stashId} endpoint.
+ * current_balance = contributed + unrealized_gain: deposits and withdrawals (transfers included)
+ * are contributed capital, valuation adjustments are the unrealized gain or loss.
  */
 export interface StashDetailsDTO extends StashDTO {
+  contributed: number;
+  unrealized_gain: number;
   transactions?: StashTransactionDTO[];
 }
 
+/**
+ * DTO for the progress of a stash towards its savings goal
+ * Computed from current_balance, goal_amount and goal_date (see src/lib/stash-goal.ts)
+ */
+export interface StashGoalProgressDTO {
+  goalAmount: number;
+  goalDate: string | null;
+  /** Share of the goal already saved, 0-100 */
+  percentage: number;
+  remaining: number;
+  /** Monthly deposits left until the target date (including this month), null without a date */
+  monthsLeft: number | null;
+  /** Deposit needed each month to reach the goal on time, null without a date or once overdue */
+  monthlyNeeded: number | null;
+  isReached: boolean;
+  isOverdue: boolean;
+}
+
+/**
+ * DTO for a row of the stash transaction list.
+ * transfer_stash is the stash on the other side of a transfer, null for plain deposits and withdrawals
+ */
+export interface StashTransactionListItemDTO extends StashTransactionDTO {
+  transfer_stash: Pick<StashDTO, "id" | "name"> | null;
+}
+
+/**
+ * DTO for a transfer between two stashes
+ * Both rows share transfer_id; the withdrawal is on the source stash, the deposit on the target
+ */
+export interface StashTransferDTO {
+  transfer_id: string;
+  withdrawal: StashTransactionDTO;
+  deposit: StashTransactionDTO;
+}
+
+/**
+ * Bucket size of a balance history series
+ */
+export type BalanceHistoryInterval = "day" | "week" | "month";
+
+/**
+ * Balance at the end of a day (UTC); for week and month series, the last day of the bucket
+ */
+export interface BalanceHistoryPointDTO {
+  date: string;
+  balance: number;
+}
+
+/**
+ * Running balance over a date range, rebuilt from the transaction log
+ */
+export interface BalanceHistoryDTO {
+  from: string;
+  to: string;
+  interval: BalanceHistoryInterval;
+  points: BalanceHistoryPointDTO[];
+}
+
+/**
+ * DTO for the balance history of a single stash
+ */
+export interface StashBalanceHistoryDTO extends BalanceHistoryDTO {
+  stash_id: string;
+}
+
+/**
+ * DTO for exchange rate responses
+ * Excludes internal fields (user_id)
+ */
+export type ExchangeRateDTO = Omit<ExchangeRate, "user_id">;
+
+/**
+ * DTO for the validation outcome of a single imported exchange rate row.
+ * `row` is the 1-based position of the row in the submitted list.
+ */
+export interface ImportExchangeRateRowResultDTO {
+  row: number;
+  valid: boolean;
+  errors: Record<string, string[]>;
+}
+
+/**
+ * DTO for the response of the POST /api/exchange-rates/import endpoint
+ */
+export interface ImportExchangeRatesResultDTO {
+  total: number;
+  imported: number;
+  invalid: number;
+  rows: ImportExchangeRateRowResultDTO[];
+}
+
 /**
  * DTO for expense summary aggregation
- * Returns category-wise totals for a given month
+ * Category-wise totals for a given month, as returned by category_totals();
+ * category_id is null for uncategorized expenses
  */
 export interface ExpenseSummaryDTO {
-  category_id: string;
+  category_id: string | null;
   total: number;
+  expense_count: number;
+}
+
+/**
+ * Kinds of records tracked in the audit log
+ */
+export const ACTIVITY_ENTITY_TYPES = ["expense", "month_budget", "stash", "stash_transaction"] as const;
+
+export type ActivityEntityType = (typeof ACTIVITY_ENTITY_TYPES)[number];
+
+/**
+ * Audit log operations; soft_delete and restore are updates of deleted_at,
+ * delete is a permanent removal (e.g. purged from the trash)
+ */
+export type ActivityOperation = "insert" | "update" | "soft_delete" | "restore" | "delete";
+
+/**
+ * DTO for an entry of the activity feed
+ * old_values and new_values are whole rows (without user_id); old is null for inserts, new for deletes
+ */
+export interface ActivityEntryDTO
+  extends Omit<AuditLogEntry, "user_id" | "household_id" | "entity_type" | "operation" | "old_values" | "new_values"> {
+  entity_type: ActivityEntityType;
+  operation: ActivityOperation;
+  old_values: Record<string, unknown> | null;
+  new_values: Record<string, unknown> | null;
+}
+
+/**
+ * Number of days soft-deleted records stay in the trash before they are purged
+ */
+export const TRASH_RETENTION_DAYS = 30;
+
+/**
+ * DTO for a deleted expense in the trash
+ */
+export type TrashExpenseDTO = Pick<Expense, "id" | "amount" | "description" | "expense_date" | "deleted_at">;
+
+/**
+ * DTO for a deleted stash in the trash
+ */
+export type TrashStashDTO = Pick<Stash, "id" | "name" | "currency" | "deleted_at">;
+
+/**
+ * DTO for a deleted stash transaction in the trash.
+ * Transactions of deleted stashes are not listed (they come back with the stash),
+ * and a deleted transfer is listed once.
+ */
+export interface TrashStashTransactionDTO
+  extends Pick<
+    StashTransaction,
+    | "id"
+    | "stash_id"
+    | "transaction_type"
+    | "amount"
+    | "currency"
+    | "description"
+    | "created_at"
+    | "transfer_id"
+    | "deleted_at"
+  > {
+  stash_name: string;
+}
+
+/**
+ * DTO for the response of the GET /api/trash endpoint, newest deletions first
+ */
+export interface TrashDTO {
+  retention_days: number;
+  expenses: TrashExpenseDTO[];
+  stashes: TrashStashDTO[];
+  transactions: TrashStashTransactionDTO[];
+}
+
+/**
+ * DTO for the response of the POST /api/trash/purge endpoint
+ */
+export interface TrashPurgeResultDTO {
+  /** Stashes, stash transactions and expenses removed for good */
+  purged: number;
 }
 
 // ============================================================================
@@ -102,15 +491,18 @@ export interface ExpenseSummaryDTO {
 
 /**
  * Command to create a new stash
- * Only requires name; other fields are generated server-side
+ * Requires a name; currency defaults to PLN, other fields are generated server-side
  */
-export type CreateStashCommand = Pick<TablesInsert<"stashes">, "name">;
+export type CreateStashCommand = Pick<TablesInsert<"stashes">, "name" | "currency">;
 
 /**
  * Command to update an existing stash
- * Only allows renaming the stash
+ * Allows renaming the stash, setting or clearing its savings goal and sharing it with the household
  */
-export type UpdateStashCommand = Pick<TablesUpdate<"stashes">, "name">;
+export type UpdateStashCommand = Pick<
+  TablesUpdate<"stashes">,
+  "name" | "goal_amount" | "goal_date" | "shared_with_household"
+>;
 
 /**
  * Command to delete a stash
@@ -131,6 +523,25 @@ export type CreateStashTransactionCommand = Pick<
   "transaction_type" | "amount" | "description"
 >;
 
+/**
+ * Command to transfer money from one stash to another
+ * The source stash_id is derived from URL parameter
+ */
+export interface CreateStashTransferCommand {
+  target_stash_id: string;
+  amount: number;
+  description?: string | null;
+}
+
+/**
+ * Command to record the market value of a stash
+ * Stored as an 'adjustment' transaction holding the change in value
+ */
+export interface RecordStashValuationCommand {
+  market_value: number;
+  description?: string | null;
+}
+
 /**
  * Command to update an existing stash transaction
  * All fields are optional for partial updates
@@ -141,27 +552,66 @@ export type UpdateStashTransactionCommand = Partial<
 
 /**
  * Command to upsert a monthly budget
- * Only requires budget_set amount; year_month comes from URL
+ * Requires budget_set amount; year_month comes from URL
+ * rollover_enabled defaults to the previous month's setting for new budgets
+ */
+export type UpsertBudgetCommand = Pick<TablesInsert<"month_budget">, "budget_set" | "rollover_enabled">;
+
+/**
+ * Command to replace the per-category allocations of a monthly budget
+ * The list is saved as a whole; categories left out lose their allocation
  */
-export type UpsertBudgetCommand = Pick<TablesInsert<"month_budget">, "budget_set">;
+export interface SetMonthBudgetCategoriesCommand {
+  categories: Pick<TablesInsert<"month_budget_categories">, "category_id" | "amount">[];
+}
+
+/**
+ * Command to create or replace a budget template
+ * Allocations are saved as a whole, like SetMonthBudgetCategoriesCommand
+ */
+export type SaveBudgetTemplateCommand = Pick<TablesInsert<"budget_templates">, "name" | "budget_set"> & {
+  categories: Pick<TablesInsert<"budget_template_categories">, "category_id" | "amount">[];
+};
+
+/**
+ * Command to apply a budget template to every month from from_month to to_month (inclusive)
+ */
+export interface ApplyBudgetTemplateCommand {
+  from_month: string;
+  to_month: string;
+}
 
 /**
  * Command to create a new expense
- * Requires amount, expense_date, description, and optional category_id
+ * Requires amount, expense_date, description, and optional category_id, tags and splits
  * year_month is auto-generated from expense_date
  */
 export type CreateExpenseCommand = Pick<
   TablesInsert<"expenses">,
   "amount" | "category_id" | "expense_date" | "description"
->;
+> & {
+  tags?: string[];
+  splits?: ExpenseSplitDTO[];
+};
 
 /**
  * Command to update an existing expense
- * All fields are optional for partial updates
+ * All fields are optional for partial updates; tags and splits replace the whole list
  */
 export type UpdateExpenseCommand = Partial<
   Pick<TablesUpdate<"expenses">, "amount" | "category_id" | "expense_date" | "description">
->;
+> & {
+  tags?: string[];
+  splits?: ExpenseSplitDTO[];
+};
+
+/**
+ * Command to change many expenses at once
+ * category_id (null for uncategorized) and expense_date are applied to every expense when given
+ */
+export type BulkUpdateExpensesCommand = Partial<Pick<TablesUpdate<"expenses">, "category_id" | "expense_date">> & {
+  ids: string[];
+};
 
 /**
  * Command to delete an expense
@@ -172,10 +622,48 @@ export interface DeleteExpenseCommand {
   userId: string;
 }
 
+/**
+ * Command to create a user-defined expense category
+ * slug and display_name are derived from name server-side
+ */
+export type CreateExpenseCategoryCommand = Pick<TablesInsert<"expense_categories">, "name" | "color">;
+
+/**
+ * Command to update a user-defined expense category
+ * All fields are optional; `archived` toggles archived_at
+ */
+export type UpdateExpenseCategoryCommand = Partial<Pick<TablesUpdate<"expense_categories">, "name" | "color">> & {
+  archived?: boolean;
+};
+
+/**
+ * Command to create a recurring expense definition
+ */
+export type CreateRecurringExpenseCommand = Pick<
+  TablesInsert<"recurring_expenses">,
+  "amount" | "category_id" | "description" | "day_of_month" | "start_month" | "end_month" | "interval_months"
+>;
+
+/**
+ * Command to update a recurring expense definition
+ * All fields are optional for partial updates
+ */
+export type UpdateRecurringExpenseCommand = Partial<CreateRecurringExpenseCommand>;
+
 // ============================================================================
 // Pagination & Query Types
 // ============================================================================
 
+/**
+ * Zod schema for a currency code: ISO 4217 (PLN, EUR) or a crypto ticker (BTC, USDT).
+ * Lower-case input is accepted and upper-cased.
+ */
+export const CurrencyCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z][A-Z0-9]{2,9}$/, "Invalid currency code. Use 3-10 letters or digits, e.g. EUR or BTC");
+
 /**
  * Common pagination parameters for list endpoints
  */
@@ -204,6 +692,7 @@ export const ListStashesQuerySchema = z.object({
   limit: z.coerce.number().int().min(1).max(100).default(20),
   sort: z.enum(["created_at", "name"]).default("created_at"),
   order: z.enum(["asc", "desc"]).default("desc"),
+  baseCurrency: CurrencyCodeSchema.default("PLN"),
 });
 
 /**
@@ -217,7 +706,7 @@ export type ListStashesQuery = z.infer<typeof ListStashesQuerySchema>;
 export const ListTransactionsQuerySchema = z.object({
   page: z.coerce.number().int().min(1).default(1),
   limit: z.coerce.number().int().min(1).max(100).default(20),
-  type: z.enum(["deposit", "withdrawal"]).optional(),
+  type: z.enum(["deposit", "withdrawal", "adjustment"]).optional(),
   from: z.string().datetime().optional(),
   to: z.string().datetime().optional(),
   order: z.enum(["asc", "desc"]).default("desc"),
@@ -228,6 +717,53 @@ export const ListTransactionsQuerySchema = z.object({
  */
 export type ListTransactionsQuery = z.infer<typeof ListTransactionsQuerySchema>;
 
+/**
+ * Zod schema for validating query parameters of the Activity endpoint.
+ * entity_id narrows the feed to the history of a single record and needs entity_type.
+ */
+export const ListActivityQuerySchema = z
+  .object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    entity_type: z.enum(ACTIVITY_ENTITY_TYPES).optional(),
+    entity_id: z.string().uuid("Invalid entity ID format").optional(),
+  })
+  .refine((data) => !data.entity_id || data.entity_type, {
+    message: "entity_id requires entity_type",
+    path: ["entity_type"],
+  });
+
+/**
+ * Type derived from the ListActivityQuerySchema for use in the service layer.
+ */
+export type ListActivityQuery = z.infer<typeof ListActivityQuerySchema>;
+
+/**
+ * Zod schema for validating the query parameters of the Stash Balance History endpoint.
+ * from/to default to a range that fits the interval (see resolveBalanceHistoryRange).
+ */
+export const BalanceHistoryQuerySchema = z
+  .object({
+    from: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format. Use YYYY-MM-DD")
+      .optional(),
+    to: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format. Use YYYY-MM-DD")
+      .optional(),
+    interval: z.enum(["day", "week", "month"]).default("month"),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: "from date must be less than or equal to to date",
+    path: ["from"],
+  });
+
+/**
+ * Type derived from the BalanceHistoryQuerySchema for use in the service layer.
+ */
+export type BalanceHistoryQuery = z.infer<typeof BalanceHistoryQuerySchema>;
+
 /**
  * Zod schema for validating the query parameters of the List Month Budgets endpoint.
  */
@@ -246,6 +782,33 @@ export const ListBudgetsQuerySchema = z.object({
  */
 export type ListBudgetsQuery = z.infer<typeof ListBudgetsQuerySchema>;
 
+/**
+ * Zod schema for validating the query parameters of the Budget Year Summary endpoint.
+ * Reuses the year filter of ListBudgetsQuerySchema, but requires it.
+ */
+export const BudgetYearSummaryQuerySchema = ListBudgetsQuerySchema.pick({ year: true }).required();
+
+/**
+ * Type derived from the BudgetYearSummaryQuerySchema for use in the service layer.
+ */
+export type BudgetYearSummaryQuery = z.infer<typeof BudgetYearSummaryQuerySchema>;
+
+/**
+ * Maximum number of tags on a single expense (and in a single tags filter)
+ */
+export const MAX_EXPENSE_TAGS = 10;
+
+/**
+ * Zod schema for a tag name. Names are stored trimmed and in lower case.
+ */
+export const TagNameSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1, "Tag cannot be empty")
+  .max(50, "Tag cannot exceed 50 characters")
+  .refine((name) => !name.includes(","), "Tag cannot contain a comma");
+
 /**
  * Zod schema for validating the query parameters of the List Expenses endpoint.
  * Includes mutual exclusivity validation between yearMonth and from/to filters.
@@ -268,6 +831,12 @@ export const ListExpensesQuerySchema = z
       .regex(/^\d{4}-\d{2}$/, "Invalid year-month format. Use YYYY-MM")
       .optional(),
     search: z.string().trim().min(1).max(200).optional(),
+    // Comma-separated; matches expenses with any of the tags
+    tags: z
+      .string()
+      .transform((value) => value.split(",").filter((tag) => tag.trim() !== ""))
+      .pipe(z.array(TagNameSchema).min(1, "At least one tag is required").max(MAX_EXPENSE_TAGS))
+      .optional(),
     sort: z.enum(["expense_date", "amount"]).default("expense_date"),
     order: z.enum(["asc", "desc"]).default("desc"),
   })
@@ -303,17 +872,436 @@ export const ListExpensesQuerySchema = z
 export type ListExpensesQuery = z.infer<typeof ListExpensesQuerySchema>;
 
 /**
- * Zod schema for validating the request body of the Update Stash Name endpoint.
+ * Maximum number of category lines of a split expense.
+ */
+export const MAX_EXPENSE_SPLITS = 20;
+
+/**
+ * Zod schema for the category lines of a split expense.
+ * An empty list means the expense is not split; a split needs at least two lines,
+ * each category at most once.
+ */
+export const ExpenseSplitsSchema = z
+  .array(
+    z.object({
+      category_id: z.string().uuid("Invalid category ID format").nullable(),
+      amount: z
+        .number()
+        .positive("Amount must be greater than 0")
+        .refine((n) => Number.isInteger(n * 100), "Amount must have at most 2 decimal places"),
+    })
+  )
+  .max(MAX_EXPENSE_SPLITS, `An expense can be split into at most ${MAX_EXPENSE_SPLITS} lines`)
+  .refine((lines) => lines.length !== 1, "A split needs at least 2 lines")
+  .refine((lines) => {
+    const categoryIds = lines.map((line) => line.category_id ?? "uncategorized");
+    return new Set(categoryIds).size === categoryIds.length;
+  }, "Each category can appear only once in a split");
+
+/**
+ * Zod schema for validating the request body of the Create Expense endpoint.
+ * Shared with the expense import endpoint so every imported row follows the same rules.
+ */
+export const CreateExpenseDto = z
+  .object({
+    category_id: z.string().uuid("Invalid category ID format").optional(),
+    amount: z
+      .number()
+      .positive("Amount must be greater than 0")
+      .refine((n) => Number.isInteger(n * 100), "Amount must have at most 2 decimal places"),
+    expense_date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format. Use YYYY-MM-DD")
+      .refine((dateStr) => {
+        const date = new Date(dateStr);
+        return !isNaN(date.getTime()) && dateStr === date.toISOString().split("T")[0];
+      }, "Invalid date value"),
+    description: z
+      .string()
+      .trim()
+      .min(1, "Description is required")
+      .max(500, "Description cannot exceed 500 characters"),
+    tags: z
+      .array(TagNameSchema)
+      .max(MAX_EXPENSE_TAGS, `An expense can have at most ${MAX_EXPENSE_TAGS} tags`)
+      .optional(),
+    splits: ExpenseSplitsSchema.optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (!data.splits || data.splits.length === 0) return;
+
+    if (data.category_id) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["category_id"],
+        message: "Leave the category empty when splitting an expense",
+      });
+    }
+    if (!splitsMatchAmount(data.splits, data.amount)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["splits"],
+        message: "Split amounts must add up to the expense amount",
+      });
+    }
+  });
+
+/**
+ * Maximum number of rows accepted by a single expense import request.
+ */
+export const MAX_EXPENSE_IMPORT_ROWS = 1000;
+
+/**
+ * Zod schema for validating the request body of the Import Expenses endpoint.
+ * Rows are validated individually against CreateExpenseDto so that a single bad row
+ * doesn't reject the whole file.
+ */
+export const ImportExpensesDto = z.object({
+  rows: z
+    .array(z.unknown())
+    .min(1, "At least one row is required")
+    .max(MAX_EXPENSE_IMPORT_ROWS, `Cannot import more than ${MAX_EXPENSE_IMPORT_ROWS} rows at once`),
+  dry_run: z.boolean().default(true),
+});
+
+/**
+ * Maximum number of expenses changed by a single bulk request.
+ */
+export const MAX_BULK_EXPENSES = 500;
+
+/**
+ * Zod schema for validating the request body of the Bulk Delete Expenses endpoint.
+ * Duplicate IDs are dropped.
+ */
+export const BulkDeleteExpensesDto = z.object({
+  ids: z
+    .array(z.string().uuid("Invalid expense ID format"))
+    .min(1, "At least one expense ID is required")
+    .max(MAX_BULK_EXPENSES, `Cannot change more than ${MAX_BULK_EXPENSES} expenses at once`)
+    .transform((ids) => [...new Set(ids)]),
+});
+
+/**
+ * Zod schema for validating the request body of the Bulk Update Expenses endpoint.
+ * At least one of category_id (null to uncategorize) and expense_date is required.
+ */
+export const BulkUpdateExpensesDto = BulkDeleteExpensesDto.extend({
+  category_id: z.string().uuid("Invalid category ID format").nullable().optional(),
+  expense_date: CreateExpenseDto.innerType().shape.expense_date.optional(),
+}).refine((data) => data.category_id !== undefined || data.expense_date !== undefined, {
+  message: "Provide a category_id or an expense_date to change",
+});
+
+/**
+ * Zod schema for validating the query parameters of the Export endpoint.
+ * Record filters are validated separately with ListExpensesQuerySchema,
+ * ListBudgetsQuerySchema and ListTransactionsQuerySchema.
+ */
+export const ExportQuerySchema = z.object({
+  format: z.enum(["csv", "json"]).default("csv"),
+  scope: z.enum(["expenses", "budgets", "stashes", "all"]).default("all"),
+  stashId: z.string().uuid("Invalid stash ID format").optional(),
+});
+
+/**
+ * Type derived from the ExportQuerySchema for use in the service layer.
+ */
+export type ExportQuery = z.infer<typeof ExportQuerySchema>;
+
+/**
+ * Zod schema for a YYYY-MM month value.
+ */
+const YearMonthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Invalid year-month format. Use YYYY-MM");
+
+/**
+ * Zod schema for the fields of a recurring expense definition (shared by create and update).
+ */
+const RecurringExpenseFieldsSchema = z.object({
+  amount: z
+    .number()
+    .positive("Amount must be greater than 0")
+    .refine((n) => Number.isInteger(n * 100), "Amount must have at most 2 decimal places"),
+  category_id: z.string().uuid("Invalid category ID format").nullable().optional(),
+  description: z.string().trim().min(1, "Description is required").max(500, "Description cannot exceed 500 characters"),
+  day_of_month: z
+    .number({ required_error: "Day of month is required" })
+    .int("Day of month must be an integer")
+    .min(1, "Day of month must be between 1 and 31")
+    .max(31, "Day of month must be between 1 and 31"),
+  start_month: YearMonthSchema,
+  end_month: YearMonthSchema.nullable().optional(),
+  interval_months: z
+    .number()
+    .int("Interval must be an integer")
+    .min(1, "Interval must be between 1 and 12 months")
+    .max(12, "Interval must be between 1 and 12 months")
+    .default(1),
+});
+
+/**
+ * Zod schema for validating the request body of the Create Recurring Expense endpoint.
+ */
+export const CreateRecurringExpenseDto = RecurringExpenseFieldsSchema.refine(
+  (data) => !data.end_month || data.end_month >= data.start_month,
+  { message: "End month cannot be before start month", path: ["end_month"] }
+);
+
+/**
+ * Zod schema for validating the request body of the Update Recurring Expense endpoint.
+ * At least one field must be provided; the month range is re-checked against the stored row.
+ */
+export const UpdateRecurringExpenseDto = RecurringExpenseFieldsSchema.partial()
+  .extend({ interval_months: RecurringExpenseFieldsSchema.shape.interval_months.removeDefault().optional() })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided for update",
+  });
+
+/**
+ * Zod schema for validating the request body of the Materialize Recurring Expenses endpoint.
+ */
+export const MaterializeRecurringExpensesDto = z.object({
+  year_month: YearMonthSchema,
+});
+
+/**
+ * Zod schema for a list of per-category allocations (shared by month budgets and templates).
+ * Each category may appear only once.
+ */
+const CategoryAllocationsSchema = z
+  .array(
+    z.object({
+      category_id: z.string().uuid("Invalid category ID format"),
+      amount: z
+        .number({ required_error: "Amount is required", invalid_type_error: "Amount must be a number" })
+        .positive("Amount must be greater than 0")
+        .refine((n) => Number.isInteger(n * 100), "Amount must have at most 2 decimal places"),
+    })
+  )
+  .max(100, "Cannot allocate more than 100 categories")
+  .refine((items) => new Set(items.map((item) => item.category_id)).size === items.length, {
+    message: "Each category can only be allocated once",
+  });
+
+/**
+ * Zod schema for validating the request body of the Set Month Budget Categories endpoint.
+ * An empty list removes all allocations.
+ */
+export const SetMonthBudgetCategoriesDto = z.object({
+  categories: CategoryAllocationsSchema,
+});
+
+/**
+ * Zod schema for validating the request body of the Create/Update Budget Template endpoints.
+ * The allocations may not exceed the template's budget_set.
+ */
+export const SaveBudgetTemplateDto = z
+  .object({
+    name: z
+      .string({ required_error: "Name is required" })
+      .trim()
+      .min(1, "Name cannot be empty")
+      .max(100, "Name cannot exceed 100 characters"),
+    budget_set: z
+      .number({ required_error: "budget_set is required", invalid_type_error: "budget_set must be a number" })
+      .positive("budget_set must be greater than 0")
+      .refine((n) => Number.isInteger(n * 100), "budget_set must have at most 2 decimal places"),
+    categories: CategoryAllocationsSchema.default([]),
+  })
+  .refine(
+    (data) =>
+      Math.round(data.categories.reduce((sum, item) => sum + item.amount, 0) * 100) <=
+      Math.round(data.budget_set * 100),
+    { message: "Category allocations cannot exceed budget_set", path: ["categories"] }
+  );
+
+/**
+ * Zod schema for validating the request body of the Apply Budget Template endpoint.
+ * The range is inclusive and limited to 24 months.
+ */
+export const ApplyBudgetTemplateDto = z
+  .object({
+    from_month: YearMonthSchema,
+    to_month: YearMonthSchema,
+  })
+  .refine((data) => data.to_month >= data.from_month, {
+    message: "End month cannot be before start month",
+    path: ["to_month"],
+  })
+  .refine(
+    (data) => {
+      const [fromYear, fromMonth] = data.from_month.split("-").map(Number);
+      const [toYear, toMonth] = data.to_month.split("-").map(Number);
+      return (toYear - fromYear) * 12 + (toMonth - fromMonth) < 24;
+    },
+    { message: "A template can be applied to at most 24 months at once", path: ["to_month"] }
+  );
+
+/**
+ * Zod schema for the optional color of an expense category (#rrggbb).
+ */
+const CategoryColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex value like #22c55e");
+
+/**
+ * Zod schema for validating the request body of the Create Expense Category endpoint.
+ */
+export const CreateExpenseCategoryDto = z.object({
+  name: z
+    .string({ required_error: "Name is required" })
+    .trim()
+    .min(1, "Name cannot be empty")
+    .max(100, "Name cannot exceed 100 characters"),
+  color: CategoryColorSchema.nullable().optional(),
+});
+
+/**
+ * Zod schema for validating the request body of the Update Expense Category endpoint.
+ * At least one field must be provided.
+ */
+export const UpdateExpenseCategoryDto = z
+  .object({
+    name: z.string().trim().min(1, "Name cannot be empty").max(100, "Name cannot exceed 100 characters").optional(),
+    color: CategoryColorSchema.nullable().optional(),
+    archived: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: "At least one field must be provided for update",
+  });
+
+/**
+ * Zod schema for validating the request body of the Merge Expense Category endpoint.
+ */
+export const MergeExpenseCategoryDto = z.object({
+  target_category_id: z.string().uuid("Invalid target category ID format"),
+});
+
+/**
+ * Zod schema for validating the request body of the Update Stash Name endpoint.
  */
 export const UpdateStashNameDto = z.object({
   name: z.string().min(1, "Name cannot be empty.").max(100, "Name cannot exceed 100 characters."),
 });
 
+/**
+ * Zod schema for validating the request body of the Update Stash endpoint.
+ * Every field is optional; goal_amount and goal_date accept null to clear the goal.
+ */
+export const UpdateStashDto = UpdateStashNameDto.partial()
+  .extend({
+    goal_amount: z
+      .number()
+      .positive("Goal amount must be greater than 0")
+      .refine((n) => roundStashAmount(n) === n, "Goal amount must have at most 8 decimal places")
+      .nullable()
+      .optional(),
+    goal_date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format. Use YYYY-MM-DD")
+      .refine((dateStr) => {
+        const date = new Date(dateStr);
+        return !isNaN(date.getTime()) && dateStr === date.toISOString().split("T")[0];
+      }, "Invalid date value")
+      .nullable()
+      .optional(),
+    shared_with_household: z.boolean().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "At least one field must be provided",
+  })
+  .refine((data) => !(data.goal_date && data.goal_amount === null), {
+    message: "A target date needs a goal amount",
+    path: ["goal_date"],
+  });
+
+/**
+ * Zod schema for validating the request body of the Create Exchange Rate endpoint.
+ * Shared with the exchange rate import endpoint so every imported row follows the same rules.
+ */
+export const CreateExchangeRateDto = z
+  .object({
+    from_currency: CurrencyCodeSchema,
+    to_currency: CurrencyCodeSchema,
+    rate: z.coerce.number().positive("Rate must be greater than 0").finite("Rate must be a finite number"),
+    rate_date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format. Use YYYY-MM-DD")
+      .refine((dateStr) => {
+        const date = new Date(dateStr);
+        return !isNaN(date.getTime()) && dateStr === date.toISOString().split("T")[0];
+      }, "Invalid date value")
+      .optional(),
+  })
+  .refine((data) => data.from_currency !== data.to_currency, {
+    message: "Currencies must be different",
+    path: ["to_currency"],
+  });
+
+/**
+ * Command to create (or replace, for the same pair and day) an exchange rate
+ */
+export type CreateExchangeRateCommand = z.infer<typeof CreateExchangeRateDto>;
+
+/**
+ * Maximum number of rows accepted by a single exchange rate import request
+ */
+export const MAX_EXCHANGE_RATE_IMPORT_ROWS = 1000;
+
+/**
+ * Zod schema for validating the request body of the Import Exchange Rates endpoint.
+ * Rows are validated one by one with CreateExchangeRateDto.
+ */
+export const ImportExchangeRatesDto = z.object({
+  rows: z
+    .array(z.unknown())
+    .min(1, "At least one row is required")
+    .max(MAX_EXCHANGE_RATE_IMPORT_ROWS, `Cannot import more than ${MAX_EXCHANGE_RATE_IMPORT_ROWS} rows at once`),
+});
+
+/**
+ * Maximum number of months covered by a single spending report
+ */
+export const MAX_REPORT_MONTHS = 36;
+
+/**
+ * Number of months from one YYYY-MM value to another, both ends included
+ */
+const countMonths = (from: string, to: string): number => {
+  const [fromYear, fromMonth] = from.split("-").map(Number);
+  const [toYear, toMonth] = to.split("-").map(Number);
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth) + 1;
+};
+
+/**
+ * Zod schema for validating the query parameters of the Spending Report endpoint.
+ */
+export const SpendingReportQuerySchema = z
+  .object({
+    from: YearMonthSchema,
+    to: YearMonthSchema,
+    groupBy: z.enum(["category", "month", "week"]).default("category"),
+  })
+  .refine((data) => data.from <= data.to, {
+    message: "from month must be less than or equal to to month",
+    path: ["from"],
+  })
+  .refine((data) => data.from > data.to || countMonths(data.from, data.to) <= MAX_REPORT_MONTHS, {
+    message: `A report can cover at most ${MAX_REPORT_MONTHS} months`,
+    path: ["to"],
+  });
+
+/**
+ * Type derived from the SpendingReportQuerySchema for use in the service layer.
+ */
+export type SpendingReportQuery = z.infer<typeof SpendingReportQuerySchema>;
+
 /**
  * DTO for the items in the stash list response.
- * Reuses the existing StashDTO.
+ * converted_balance is current_balance in the requested base currency,
+ * or null when no exchange rate between the two currencies is known.
  */
-export type StashListItemDTO = StashDTO;
+export interface StashListItemDTO extends StashDTO {
+  base_currency: string;
+  converted_balance: number | null;
+}
 
 /**
  * DTO for the items in the month budgets list response.
@@ -349,7 +1337,7 @@ export interface ExpenseQueryParams extends PaginationParams {
  * Extends pagination with transaction-specific filters
  */
 export interface StashTransactionQueryParams extends PaginationParams {
-  type?: "deposit" | "withdrawal";
+  type?: "deposit" | "withdrawal" | "adjustment";
 }
 
 /**
@@ -387,9 +1375,37 @@ export interface ValidationErrorResponse extends ErrorResponse {
  * DTO for dashboard stash summary
  */
 export interface DashboardStashSummary {
+  /** Currency totalBalance and converted_balance are expressed in */
+  baseCurrency: string;
   totalStashes: number;
+  /** Sum of the converted balances; stashes without a known rate are left out */
   totalBalance: number;
-  stashes: StashDTO[];
+  /** Currencies of stashes that could not be converted for lack of an exchange rate */
+  missingRates: string[];
+  stashes: StashListItemDTO[];
+}
+
+/**
+ * A stash with a savings goal, as shown in the dashboard goals section
+ */
+export interface DashboardStashGoal extends StashGoalProgressDTO {
+  stashId: string;
+  name: string;
+  /** Currency of the stash; goal amounts are in this currency */
+  currency: string;
+  currentBalance: number;
+}
+
+/**
+ * Savings goals across all stashes, nearest target date first
+ * Totals are in the dashboard's base currency; goals without a known rate are left out of them
+ */
+export interface DashboardGoalsSummary {
+  totalGoalAmount: number;
+  totalSaved: number;
+  /** Sum of the monthly deposits needed for every goal with a target date */
+  totalMonthlyNeeded: number;
+  goals: DashboardStashGoal[];
 }
 
 /**
@@ -400,6 +1416,8 @@ export interface DashboardBudgetSummary {
   budgetSet: number | null;
   totalExpenses: number;
   currentBalance: number | null;
+  /** Amount rolled over from the previous month (null without a budget) */
+  carriedOver: number | null;
   hasNoBudget: boolean;
 }
 
@@ -409,4 +1427,381 @@ export interface DashboardBudgetSummary {
 export interface DashboardData {
   stashes: DashboardStashSummary;
   budget: DashboardBudgetSummary;
+  goals: DashboardGoalsSummary;
+  /** Total balance across all stashes (in the base currency) at the end of each of the last 12 months */
+  netWorth: BalanceHistoryDTO;
+  /** Spending per tag in the dashboard month, largest first */
+  tags: TagTotal[];
 }
+
+// ============================================================================
+// Report Types
+// ============================================================================
+
+/**
+ * Totals of a spending report
+ */
+export interface SpendingReportTotals {
+  total: number;
+  expenseCount: number;
+  monthCount: number;
+  /** total divided by the number of months in the range, including months without expenses */
+  monthlyAverage: number;
+}
+
+/**
+ * Spending of one group (category, month or week) in a spending report
+ */
+export interface SpendingReportGroup {
+  /** Category ID ('uncategorized' for expenses without one), YYYY-MM or the Monday starting the week */
+  key: string;
+  label: string;
+  color: string | null;
+  total: number;
+  expenseCount: number;
+}
+
+/**
+ * A category's spending in one month, compared with the month before
+ */
+export interface CategoryTrendMonth {
+  yearMonth: string;
+  total: number;
+  previousTotal: number;
+  changeAmount: number;
+  /** null when nothing was spent in the month before */
+  changePercent: number | null;
+}
+
+/**
+ * Month-over-month spending of one category across the report range
+ */
+export interface CategoryTrend {
+  categoryKey: string;
+  categoryName: string;
+  categoryColor: string | null;
+  months: CategoryTrendMonth[];
+}
+
+/**
+ * Budget vs. spending for one month of a spending report
+ * Budget fields are null for months without a budget
+ */
+export interface BudgetAdherenceMonth {
+  yearMonth: string;
+  budgetSet: number | null;
+  spent: number;
+  remaining: number | null;
+  usedPercent: number | null;
+}
+
+/**
+ * Spending on one tag
+ * An expense counts towards each of its tags, so tag totals can add up to more than the total spent
+ */
+export interface TagTotal {
+  tagId: string;
+  name: string;
+  total: number;
+  expenseCount: number;
+}
+
+/**
+ * DTO for the Spending Report endpoint
+ */
+export interface SpendingReportDTO {
+  from: string;
+  to: string;
+  groupBy: SpendingReportQuery["groupBy"];
+  totals: SpendingReportTotals;
+  groups: SpendingReportGroup[];
+  categoryTrends: CategoryTrend[];
+  budgetAdherence: BudgetAdherenceMonth[];
+  /** Spending per tag, largest first */
+  tags: TagTotal[];
+}
+
+/**
+ * One month of the budget year overview
+ * Budget fields are null for months without a budget
+ */
+export interface BudgetYearMonthSummary {
+  yearMonth: string;
+  budgetSet: number | null;
+  spent: number;
+  /** The month's current_balance (budget_set - spent), without amounts carried over */
+  balance: number | null;
+  usedPercent: number | null;
+  isClosed: boolean;
+  /** Category the most was spent on, null for months without expenses */
+  topCategory: { key: string; name: string; color: string | null; total: number } | null;
+  /** Amount spent on each day of the month, for a sparkline */
+  dailySpending: number[];
+}
+
+/**
+ * DTO for the Budget Year Summary endpoint
+ */
+export interface BudgetYearSummaryDTO {
+  year: string;
+  totals: {
+    /** Sum of the budgets set; months without a budget are left out */
+    budgetSet: number;
+    spent: number;
+    /** Sum of the balances of months with a budget */
+    balance: number;
+    monthlyAverage: number;
+    monthsOverBudget: number;
+  };
+  /** All twelve months, January first */
+  months: BudgetYearMonthSummary[];
+  /** Monthly spending per category, for the category-by-month heatmap */
+  categories: CategoryTrend[];
+}
+
+// ============================================================================
+// Account Types
+// ============================================================================
+
+/**
+ * Rules for a new password, shared by registration and password changes.
+ * Kept in line with the requirements shown by usePasswordStrength.
+ */
+export const NewPasswordSchema = z
+  .string()
+  .min(6, "Password must be at least 6 characters long")
+  .regex(/[^A-Za-z0-9]/, "Include at least one special character");
+
+/**
+ * Cross-field checks of a new password and its confirmation
+ */
+export function refineNewPassword(data: { password: string; confirmPassword: string }, ctx: z.RefinementCtx) {
+  if (data.password.trim() !== data.password) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["password"],
+      message: "Password cannot include leading or trailing spaces",
+    });
+  }
+
+  if (data.password !== data.confirmPassword) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["confirmPassword"],
+      message: "Passwords must match",
+    });
+  }
+}
+
+/**
+ * Validation schema for POST /api/auth/change-password
+ * The new password follows the registration rules and must differ from the current one
+ */
+export const ChangePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, "Current password is required"),
+    password: NewPasswordSchema,
+    confirmPassword: z.string().min(1, "Confirm your password"),
+  })
+  .superRefine((data, ctx) => {
+    refineNewPassword(data, ctx);
+
+    if (data.currentPassword && data.password === data.currentPassword) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["password"],
+        message: "New password must be different from the current one",
+      });
+    }
+  });
+
+export type ChangePasswordCommand = z.infer<typeof ChangePasswordSchema>;
+
+/**
+ * Validation schema for POST /api/auth/change-email
+ * The password is re-checked before the confirmation email is sent to the new address
+ */
+export const ChangeEmailSchema = z.object({
+  email: z.string().trim().min(1, "Email is required").email("Enter a valid email"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export type ChangeEmailCommand = z.infer<typeof ChangeEmailSchema>;
+
+/**
+ * Number of recovery codes issued when two-factor authentication is enabled
+ */
+export const MFA_RECOVERY_CODE_COUNT = 10;
+
+/**
+ * DTO for GET /api/auth/mfa
+ */
+export interface MfaStatusDTO {
+  enabled: boolean;
+  /** The verified TOTP factor, null while two-factor authentication is off */
+  factor_id: string | null;
+  recovery_codes_remaining: number;
+}
+
+/**
+ * DTO for POST /api/auth/mfa/enroll
+ * The factor stays unverified until a code from the authenticator app is confirmed
+ */
+export interface MfaEnrollmentDTO {
+  factor_id: string;
+  /** SVG data URI of the otpauth:// QR code */
+  qr_code: string;
+  /** The TOTP secret, for entering the key by hand */
+  secret: string;
+}
+
+/**
+ * DTO for POST /api/auth/mfa/activate
+ * The plain recovery codes are only ever returned here
+ */
+export interface MfaRecoveryCodesDTO {
+  recovery_codes: string[];
+}
+
+/**
+ * A six-digit code from an authenticator app
+ */
+const TotpCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app");
+
+/**
+ * Validation schema for POST /api/auth/mfa/verify and POST /api/auth/mfa/disable
+ */
+export const MfaCodeSchema = z.object({
+  code: TotpCodeSchema,
+});
+
+export type MfaCodeCommand = z.infer<typeof MfaCodeSchema>;
+
+/**
+ * Validation schema for POST /api/auth/mfa/activate
+ */
+export const ActivateMfaSchema = z.object({
+  factorId: z.string().uuid("Invalid factor ID"),
+  code: TotpCodeSchema,
+});
+
+export type ActivateMfaCommand = z.infer<typeof ActivateMfaSchema>;
+
+/**
+ * Validation schema for POST /api/auth/mfa/recover
+ */
+export const MfaRecoverySchema = z.object({
+  code: z.string().trim().min(1, "Recovery code is required").max(20, "Invalid recovery code"),
+});
+
+export type MfaRecoveryCommand = z.infer<typeof MfaRecoverySchema>;
+
+// ============================================================================
+// Household Types
+// ============================================================================
+
+/**
+ * DTO for a member of the caller's household
+ */
+export interface HouseholdMemberDTO {
+  user_id: string;
+  email: string;
+  joined_at: string;
+  is_current_user: boolean;
+}
+
+/**
+ * DTO for an invitation sent by the caller's household
+ */
+export type HouseholdInvitationDTO = Pick<HouseholdInvitation, "id" | "email" | "created_at">;
+
+/**
+ * DTO for an invitation sent to the caller
+ */
+export interface ReceivedHouseholdInvitationDTO {
+  id: string;
+  household_id: string;
+  household_name: string;
+  /** null when the member who sent it has deleted their account */
+  invited_by_email: string | null;
+  created_at: string;
+}
+
+/**
+ * DTO for a stash shared with the household by one of its members
+ */
+export interface SharedStashDTO extends Pick<Stash, "id" | "name" | "currency" | "current_balance"> {
+  owner_email: string | null;
+  is_own: boolean;
+}
+
+/**
+ * DTO for GET /api/household
+ */
+export interface HouseholdDTO extends Pick<Household, "id" | "name" | "created_at"> {
+  members: HouseholdMemberDTO[];
+  invitations: HouseholdInvitationDTO[];
+  shared_stashes: SharedStashDTO[];
+}
+
+/**
+ * Validation schema for POST /api/household
+ */
+export const CreateHouseholdSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be at most 100 characters"),
+});
+
+export type CreateHouseholdCommand = z.infer<typeof CreateHouseholdSchema>;
+
+/**
+ * Validation schema for POST /api/household/invitations
+ */
+export const InviteHouseholdMemberSchema = z.object({
+  email: z.string().trim().toLowerCase().min(1, "Email is required").email("Enter a valid email"),
+});
+
+export type InviteHouseholdMemberCommand = z.infer<typeof InviteHouseholdMemberSchema>;
+
+// ============================================================================
+// API Token Types
+// ============================================================================
+
+/**
+ * Permissions an API token can carry:
+ * - read: GET requests to every data endpoint
+ * - expenses:write: creating, changing and deleting expenses
+ */
+export const API_TOKEN_SCOPES = ["read", "expenses:write"] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+/**
+ * DTO for GET /api/auth/tokens (never includes the token or its hash)
+ */
+export interface ApiTokenDTO extends Pick<ApiToken, "id" | "name" | "token_prefix" | "last_used_at" | "created_at"> {
+  scopes: ApiTokenScope[];
+}
+
+/**
+ * DTO for POST /api/auth/tokens
+ * The plain token is only ever returned here
+ */
+export interface CreatedApiTokenDTO extends ApiTokenDTO {
+  token: string;
+}
+
+/**
+ * Validation schema for POST /api/auth/tokens
+ */
+export const CreateApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be at most 100 characters"),
+  scopes: z
+    .array(z.enum(API_TOKEN_SCOPES))
+    .min(1, "Choose at least one scope")
+    .transform((scopes) => [...new Set(scopes)]),
+});
+
+export type CreateApiTokenCommand = z.infer<typeof CreateApiTokenSchema>;
@@ -0,0 +1,246 @@
+-- ============================================================================
+-- Migration: User-defined expense categories
+-- Description: Lets users create, rename, recolor, archive and merge their own
+--              expense categories next to the shared default categories
+-- Created: 2025-11-02 10:00:00 UTC
+--
+-- Changes:
+--   - expense_categories gains user_id, color, archived_at and updated_at
+--   - Rows with user_id = null are the seeded, shared default categories
+--   - name/slug uniqueness moves to partial indexes (defaults vs. per user)
+--   - RLS: users see defaults plus their own categories and manage only their own
+--   - Expenses may only reference a default category or one of the owner's categories
+--   - merge_expense_categories() moves expenses between categories atomically
+--
+-- Notes:
+--   - Archived categories stay readable so that old expenses keep their label
+--   - Default categories remain read-only (managed via migrations)
+-- ============================================================================
+
+-- ============================================================================
+-- 1. EXPENSE CATEGORIES COLUMNS
+-- ============================================================================
+
+alter table expense_categories
+  add column if not exists user_id uuid null references auth.users(id) on delete cascade,
+  add column if not exists color varchar(7) null,
+  add column if not exists archived_at timestamptz null,
+  add column if not exists updated_at timestamptz not null default now();
+
+-- Validate color format (#rrggbb)
+alter table expense_categories
+  add constraint expense_categories_color_format check (color is null or color ~ '^#[0-9a-fA-F]{6}$');
+
+-- ============================================================================
+-- 2. UNIQUENESS
+-- ============================================================================
+-- Purpose: Names and slugs were globally unique; they now only need to be unique
+--          among the defaults and among the active categories of a single user
+-- ============================================================================
+
+alter table expense_categories drop constraint if exists expense_categories_name_key;
+alter table expense_categories drop constraint if exists expense_categories_slug_key;
+
+-- Default categories keep unique slugs (used by the seed migration and imports)
+create unique index expense_categories_default_slug_unique_idx
+  on expense_categories(slug)
+  where user_id is null;
+
+create unique index expense_categories_default_name_unique_idx
+  on expense_categories(name)
+  where user_id is null;
+
+-- A user cannot have two active categories with the same name (case-insensitive)
+create unique index expense_categories_user_name_unique_idx
+  on expense_categories(user_id, lower(name))
+  where user_id is not null and archived_at is null;
+
+-- Index: Optimize listing a user's categories
+create index idx_expense_categories_user
+  on expense_categories(user_id)
+  where user_id is not null;
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+drop policy if exists expense_categories_select_policy_authenticated on expense_categories;
+drop policy if exists expense_categories_select_policy_anon on expense_categories;
+
+-- RLS Policy: Authenticated users can read default categories and their own (authenticated)
+-- Rationale: Defaults are shared; user categories are private to their owner
+create policy expense_categories_select_policy_authenticated on expense_categories
+  for select
+  to authenticated
+  using (user_id is null or user_id = auth.uid());
+
+-- RLS Policy: Anonymous users can read default categories only (anon)
+-- Rationale: Defaults may be shown on public pages; user categories are private
+create policy expense_categories_select_policy_anon on expense_categories
+  for select
+  to anon
+  using (user_id is null);
+
+-- RLS Policy: Users can create categories for themselves (authenticated)
+-- Rationale: Prevents creating shared defaults or categories for other users
+create policy expense_categories_insert_policy_authenticated on expense_categories
+  for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+-- RLS Policy: Users can update their own categories (authenticated)
+-- Rationale: Default categories stay read-only
+create policy expense_categories_update_policy_authenticated on expense_categories
+  for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- RLS Policy: Users can delete their own categories (authenticated)
+-- Rationale: Needed to remove the source category after a merge
+create policy expense_categories_delete_policy_authenticated on expense_categories
+  for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+-- Apply updated_at trigger to expense_categories
+create trigger trigger_expense_categories_updated_at
+  before update on expense_categories
+  for each row
+  execute function update_updated_at_column();
+
+-- ============================================================================
+-- 4. EXPENSE CATEGORY OWNERSHIP
+-- ============================================================================
+
+-- Check the category reference at the end of the statement so that deleting a user
+-- (which cascades to both expenses and categories) doesn't trip over statement order
+alter table expenses drop constraint if exists expenses_category_id_fkey;
+
+alter table expenses
+  add constraint expenses_category_id_fkey
+  foreign key (category_id)
+  references expense_categories(id)
+  on delete no action;
+
+-- ----------------------------------------------------------------------------
+-- Function: Validate expense category ownership
+-- ----------------------------------------------------------------------------
+-- Purpose: The foreign key only proves the category exists; this also makes sure it
+--          is a default category or belongs to the owner of the expense
+-- Errors: Raises foreign_key_violation (23503) so callers treat it like a missing category
+-- Security: SECURITY DEFINER so the lookup isn't limited by the caller's RLS view
+-- ----------------------------------------------------------------------------
+
+create or replace function validate_expense_category()
+returns trigger as $$
+begin
+  if new.category_id is not null and not exists (
+    select 1
+    from expense_categories
+    where id = new.category_id
+      and (user_id is null or user_id = new.user_id)
+  ) then
+    raise exception 'Expense category % does not exist', new.category_id
+      using errcode = 'foreign_key_violation';
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Apply trigger to expenses
+create trigger trigger_validate_expense_category
+  before insert or update of category_id on expenses
+  for each row
+  execute function validate_expense_category();
+
+-- ============================================================================
+-- 5. MERGE CATEGORIES
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Merge one of the user's categories into another category
+-- ----------------------------------------------------------------------------
+-- Purpose: Move every expense (including soft-deleted ones) from the source category
+--          to the target category and remove the source, in a single transaction
+-- Rules:
+--   - Source must be one of the caller's own categories
+--   - Target must be a default category or one of the caller's own categories
+--   - Source and target must differ
+-- Returns: Number of moved expenses
+-- Security: SECURITY INVOKER - all reads and writes go through the caller's RLS
+-- ----------------------------------------------------------------------------
+
+create or replace function merge_expense_categories(source_category_id uuid, target_category_id uuid)
+returns integer as $$
+declare
+  v_moved integer;
+begin
+  if source_category_id = target_category_id then
+    raise exception 'Cannot merge a category into itself';
+  end if;
+
+  if not exists (
+    select 1 from expense_categories
+    where id = source_category_id and user_id = auth.uid()
+  ) then
+    raise exception 'Source category not found';
+  end if;
+
+  if not exists (
+    select 1 from expense_categories
+    where id = target_category_id and (user_id is null or user_id = auth.uid())
+  ) then
+    raise exception 'Target category not found';
+  end if;
+
+  update expenses
+  set category_id = target_category_id
+  where category_id = source_category_id
+    and user_id = auth.uid();
+
+  get diagnostics v_moved = row_count;
+
+  delete from expense_categories where id = source_category_id;
+
+  return v_moved;
+end;
+$$ language plpgsql security invoker;
+
+grant execute on function merge_expense_categories(uuid, uuid) to authenticated;
+
+-- ============================================================================
+-- 6. ACCOUNT DELETION
+-- ============================================================================
+-- Purpose: Also remove the user's own categories when deleting an account
+-- ============================================================================
+
+create or replace function delete_user_account(target_user_id uuid)
+returns void as $$
+begin
+  -- Delete in order to respect foreign key constraints
+
+  -- 1. Delete stash transactions (will be cascaded by FK, but explicit for clarity)
+  delete from stash_transactions where user_id = target_user_id;
+
+  -- 2. Delete stashes (will cascade to transactions via FK)
+  delete from stashes where user_id = target_user_id;
+
+  -- 3. Delete expenses
+  delete from expenses where user_id = target_user_id;
+
+  -- 4. Delete month budgets
+  delete from month_budget where user_id = target_user_id;
+
+  -- 5. Delete user-defined expense categories (after the expenses referencing them)
+  delete from expense_categories where user_id = target_user_id;
+
+  -- Note: Auth user deletion handled separately via Supabase Auth API
+  -- This function only cleans up application data
+
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
@@ -0,0 +1,193 @@
+-- ============================================================================
+-- Migration: Recurring expenses
+-- Description: Adds recurring expense definitions (rent, subscriptions, insurance)
+--              that are materialized into regular expenses month by month
+-- Created: 2025-11-04 09:00:00 UTC
+--
+-- Changes:
+--   - New table recurring_expenses (user-owned, soft-delete, RLS)
+--   - expenses.recurring_expense_id links a materialized expense to its definition
+--   - Unique (recurring_expense_id, year_month) makes materialization idempotent
+--   - merge_expense_categories() and delete_user_account() handle the new table
+--
+-- Notes:
+--   - Materialization is done by the application (recurring-expense.service.ts) with
+--     an insert that ignores conflicts on the unique index
+--   - Soft-deleted occurrences still hold their slot, so an occurrence the user removed
+--     is never recreated for the same month
+-- ============================================================================
+
+-- ============================================================================
+-- 1. RECURRING EXPENSES TABLE
+-- ============================================================================
+-- Purpose: Templates for expenses that repeat every `interval_months` months
+-- Notes:
+--   - start_month/end_month are inclusive YYYY-MM bounds (end_month null = open-ended)
+--   - day_of_month is clamped to the last day of shorter months when materialized
+-- ============================================================================
+
+create table if not exists recurring_expenses (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  category_id uuid null references expense_categories(id) on delete no action,
+  amount numeric(12,2) not null check (amount > 0),
+  description text not null,
+  day_of_month smallint not null check (day_of_month between 1 and 31),
+  start_month varchar(7) not null,
+  end_month varchar(7) null,
+  interval_months smallint not null default 1 check (interval_months between 1 and 12),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz null,
+
+  -- Validate month formats and ordering
+  constraint recurring_expenses_start_month_format check (start_month ~ '^\d{4}-\d{2}$'),
+  constraint recurring_expenses_end_month_format check (end_month is null or end_month ~ '^\d{4}-\d{2}$'),
+  constraint recurring_expenses_month_range check (end_month is null or end_month >= start_month)
+);
+
+-- Enable RLS for recurring_expenses
+alter table recurring_expenses enable row level security;
+
+-- RLS Policy: Users can view their own recurring expenses (authenticated)
+-- Rationale: Users should only see definitions they created
+create policy recurring_expenses_select_policy_authenticated on recurring_expenses
+  for select
+  to authenticated
+  using (user_id = auth.uid());
+
+-- RLS Policy: Users can create recurring expenses for themselves (authenticated)
+-- Rationale: Users can only create definitions for their own account
+create policy recurring_expenses_insert_policy_authenticated on recurring_expenses
+  for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+-- RLS Policy: Users can update their own recurring expenses (authenticated)
+-- Rationale: Users can only modify (and soft-delete) definitions they created
+create policy recurring_expenses_update_policy_authenticated on recurring_expenses
+  for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- RLS Policy: Users can delete their own recurring expenses (authenticated)
+-- Rationale: Users can only delete definitions they created
+create policy recurring_expenses_delete_policy_authenticated on recurring_expenses
+  for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+-- Index: Optimize loading a user's active definitions
+create index idx_recurring_expenses_user
+  on recurring_expenses(user_id, start_month)
+  where deleted_at is null;
+
+-- Apply updated_at trigger to recurring_expenses
+create trigger trigger_recurring_expenses_updated_at
+  before update on recurring_expenses
+  for each row
+  execute function update_updated_at_column();
+
+-- Apply category ownership check to recurring_expenses (same rule as expenses)
+create trigger trigger_validate_recurring_expense_category
+  before insert or update of category_id on recurring_expenses
+  for each row
+  execute function validate_expense_category();
+
+-- ============================================================================
+-- 2. LINK EXPENSES TO THEIR DEFINITION
+-- ============================================================================
+
+alter table expenses
+  add column if not exists recurring_expense_id uuid null references recurring_expenses(id) on delete set null;
+
+-- One occurrence per definition and month (nulls are distinct, so manual expenses are unaffected)
+-- Note: Not partial on deleted_at on purpose - a removed occurrence must not be recreated
+alter table expenses
+  add constraint expenses_recurring_month_unique unique (recurring_expense_id, year_month);
+
+-- ============================================================================
+-- 3. MERGE CATEGORIES
+-- ============================================================================
+-- Purpose: Also move recurring definitions when merging categories, otherwise
+--          deleting the source category would violate the new foreign key
+-- ============================================================================
+
+create or replace function merge_expense_categories(source_category_id uuid, target_category_id uuid)
+returns integer as $$
+declare
+  v_moved integer;
+begin
+  if source_category_id = target_category_id then
+    raise exception 'Cannot merge a category into itself';
+  end if;
+
+  if not exists (
+    select 1 from expense_categories
+    where id = source_category_id and user_id = auth.uid()
+  ) then
+    raise exception 'Source category not found';
+  end if;
+
+  if not exists (
+    select 1 from expense_categories
+    where id = target_category_id and (user_id is null or user_id = auth.uid())
+  ) then
+    raise exception 'Target category not found';
+  end if;
+
+  update expenses
+  set category_id = target_category_id
+  where category_id = source_category_id
+    and user_id = auth.uid();
+
+  get diagnostics v_moved = row_count;
+
+  update recurring_expenses
+  set category_id = target_category_id
+  where category_id = source_category_id
+    and user_id = auth.uid();
+
+  delete from expense_categories where id = source_category_id;
+
+  return v_moved;
+end;
+$$ language plpgsql security invoker;
+
+-- ============================================================================
+-- 4. ACCOUNT DELETION
+-- ============================================================================
+
+create or replace function delete_user_account(target_user_id uuid)
+returns void as $$
+begin
+  -- Delete in order to respect foreign key constraints
+
+  -- 1. Delete stash transactions (will be cascaded by FK, but explicit for clarity)
+  delete from stash_transactions where user_id = target_user_id;
+
+  -- 2. Delete stashes (will cascade to transactions via FK)
+  delete from stashes where user_id = target_user_id;
+
+  -- 3. Delete expenses
+  delete from expenses where user_id = target_user_id;
+
+  -- 4. Delete recurring expense definitions
+  delete from recurring_expenses where user_id = target_user_id;
+
+  -- 5. Delete month budgets
+  delete from month_budget where user_id = target_user_id;
+
+  -- 6. Delete user-defined expense categories (after everything referencing them)
+  delete from expense_categories where user_id = target_user_id;
+
+  -- Note: Auth user deletion handled separately via Supabase Auth API
+  -- This function only cleans up application data
+
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
@@ -0,0 +1,298 @@
+-- ============================================================================
+-- Migration: Per-category budget allocations
+-- Description: Splits a month's budget into per-category allocations
+--              (e.g. 1500 PLN for groceries, 400 PLN for dining out)
+-- Created: 2025-11-06 10:00:00 UTC
+--
+-- Changes:
+--   - New table month_budget_categories (one allocation per budget and category, RLS)
+--   - Allocations of a month may never exceed its budget_set (checked on both tables)
+--   - set_month_budget_categories() replaces a month's allocations atomically
+--   - merge_expense_categories() and delete_user_account() handle the new table
+--
+-- Notes:
+--   - month_budget.current_balance keeps meaning budget_set - all expenses of the month;
+--     update_month_budget_balance() is unchanged, allocations only split budget_set
+--   - Unallocated budget (budget_set - sum of allocations) covers uncategorized spending
+-- ============================================================================
+
+-- ============================================================================
+-- 1. MONTH BUDGET CATEGORIES TABLE
+-- ============================================================================
+-- Purpose: Amount of a month's budget set aside for one expense category
+-- Notes:
+--   - Rows belong to a month_budget row and go away with it
+--   - category_id may point to a default or one of the user's own categories
+-- ============================================================================
+
+create table if not exists month_budget_categories (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  month_budget_id uuid not null references month_budget(id) on delete cascade,
+  category_id uuid not null references expense_categories(id) on delete no action,
+  amount numeric(12,2) not null check (amount > 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+
+  -- One allocation per category within a month
+  constraint month_budget_categories_budget_category_unique unique (month_budget_id, category_id)
+);
+
+-- Enable RLS for month_budget_categories
+alter table month_budget_categories enable row level security;
+
+-- RLS Policy: Users can view their own allocations (authenticated)
+-- Rationale: Users should only see allocations of their own budgets
+create policy month_budget_categories_select_policy_authenticated on month_budget_categories
+  for select
+  to authenticated
+  using (user_id = auth.uid());
+
+-- RLS Policy: Users can create allocations for themselves (authenticated)
+-- Rationale: Users can only allocate their own budgets
+create policy month_budget_categories_insert_policy_authenticated on month_budget_categories
+  for insert
+  to authenticated
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1 from month_budget
+      where id = month_budget_id and user_id = auth.uid()
+    )
+  );
+
+-- RLS Policy: Users can update their own allocations (authenticated)
+-- Rationale: Users can only modify allocations of their own budgets
+create policy month_budget_categories_update_policy_authenticated on month_budget_categories
+  for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- RLS Policy: Users can delete their own allocations (authenticated)
+-- Rationale: Users can only remove allocations of their own budgets
+create policy month_budget_categories_delete_policy_authenticated on month_budget_categories
+  for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+-- Index: Optimize loading allocations of a month
+create index idx_month_budget_categories_budget
+  on month_budget_categories(month_budget_id);
+
+-- Apply updated_at trigger to month_budget_categories
+create trigger trigger_month_budget_categories_updated_at
+  before update on month_budget_categories
+  for each row
+  execute function update_updated_at_column();
+
+-- Apply category ownership check to month_budget_categories (same rule as expenses)
+create trigger trigger_validate_month_budget_category
+  before insert or update of category_id on month_budget_categories
+  for each row
+  execute function validate_expense_category();
+
+-- ============================================================================
+-- 2. ALLOCATION LIMIT
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Keep allocations within the month's budget
+-- ----------------------------------------------------------------------------
+-- Purpose: Reject allocations whose total would exceed budget_set, and budget_set
+--          changes that would drop below the allocated total
+-- Behavior:
+--   - Fires after insert/update on month_budget_categories and after
+--     budget_set updates on month_budget
+--   - Raises check_violation so callers can map it like a check constraint
+-- Security: SECURITY DEFINER so the check sees every allocation of the budget
+-- ----------------------------------------------------------------------------
+
+create or replace function check_month_budget_allocations()
+returns trigger as $$
+declare
+  v_month_budget_id uuid;
+  v_budget_set numeric(12,2);
+  v_allocated numeric(12,2);
+begin
+  if tg_table_name = 'month_budget' then
+    v_month_budget_id := new.id;
+  else
+    v_month_budget_id := new.month_budget_id;
+  end if;
+
+  select budget_set into v_budget_set
+  from month_budget
+  where id = v_month_budget_id;
+
+  select coalesce(sum(amount), 0) into v_allocated
+  from month_budget_categories
+  where month_budget_id = v_month_budget_id;
+
+  if v_allocated > v_budget_set then
+    raise exception 'Category allocations (%) exceed the month budget (%)', v_allocated, v_budget_set
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- Apply limit check to allocation changes
+create trigger trigger_check_month_budget_categories_total
+  after insert or update of amount, month_budget_id on month_budget_categories
+  for each row
+  execute function check_month_budget_allocations();
+
+-- Apply limit check to budget changes
+create trigger trigger_check_month_budget_allocations
+  after update of budget_set on month_budget
+  for each row
+  execute function check_month_budget_allocations();
+
+-- ============================================================================
+-- 3. REPLACE ALLOCATIONS
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Replace all allocations of one of the user's month budgets
+-- ----------------------------------------------------------------------------
+-- Purpose: Save the whole allocation list in a single transaction, so a failed
+--          row (unknown category, total over budget) leaves the previous list intact
+-- Arguments:
+--   - target_month_budget_id: The caller's month_budget row
+--   - allocations: jsonb array of { "category_id": uuid, "amount": number }
+-- Security: SECURITY INVOKER - all reads and writes go through the caller's RLS
+-- ----------------------------------------------------------------------------
+
+create or replace function set_month_budget_categories(target_month_budget_id uuid, allocations jsonb)
+returns void as $$
+begin
+  if not exists (
+    select 1 from month_budget
+    where id = target_month_budget_id
+      and user_id = auth.uid()
+      and deleted_at is null
+  ) then
+    raise exception 'Month budget not found';
+  end if;
+
+  delete from month_budget_categories
+  where month_budget_id = target_month_budget_id;
+
+  insert into month_budget_categories (user_id, month_budget_id, category_id, amount)
+  select auth.uid(), target_month_budget_id, a.category_id, a.amount
+  from jsonb_to_recordset(allocations) as a(category_id uuid, amount numeric);
+end;
+$$ language plpgsql security invoker;
+
+-- ============================================================================
+-- 4. MERGE CATEGORIES
+-- ============================================================================
+-- Purpose: Also move allocations when merging categories. When a month already
+--          has an allocation for the target, the source amount is added to it.
+-- ============================================================================
+
+create or replace function merge_expense_categories(source_category_id uuid, target_category_id uuid)
+returns integer as $$
+declare
+  v_moved integer;
+begin
+  if source_category_id = target_category_id then
+    raise exception 'Cannot merge a category into itself';
+  end if;
+
+  if not exists (
+    select 1 from expense_categories
+    where id = source_category_id and user_id = auth.uid()
+  ) then
+    raise exception 'Source category not found';
+  end if;
+
+  if not exists (
+    select 1 from expense_categories
+    where id = target_category_id and (user_id is null or user_id = auth.uid())
+  ) then
+    raise exception 'Target category not found';
+  end if;
+
+  update expenses
+  set category_id = target_category_id
+  where category_id = source_category_id
+    and user_id = auth.uid();
+
+  get diagnostics v_moved = row_count;
+
+  update recurring_expenses
+  set category_id = target_category_id
+  where category_id = source_category_id
+    and user_id = auth.uid();
+
+  -- Fold source allocations into existing target allocations of the same month
+  update month_budget_categories t
+  set amount = t.amount + s.amount
+  from month_budget_categories s
+  where s.category_id = source_category_id
+    and s.user_id = auth.uid()
+    and t.category_id = target_category_id
+    and t.month_budget_id = s.month_budget_id;
+
+  delete from month_budget_categories s
+  where s.category_id = source_category_id
+    and s.user_id = auth.uid()
+    and exists (
+      select 1 from month_budget_categories t
+      where t.month_budget_id = s.month_budget_id
+        and t.category_id = target_category_id
+    );
+
+  update month_budget_categories
+  set category_id = target_category_id
+  where category_id = source_category_id
+    and user_id = auth.uid();
+
+  delete from expense_categories where id = source_category_id;
+
+  return v_moved;
+end;
+$$ language plpgsql security invoker;
+
+-- ============================================================================
+-- 5. ACCOUNT DELETION
+-- ============================================================================
+
+create or replace function delete_user_account(target_user_id uuid)
+returns void as $$
+begin
+  -- Delete in order to respect foreign key constraints
+
+  -- 1. Delete stash transactions (will be cascaded by FK, but explicit for clarity)
+  delete from stash_transactions where user_id = target_user_id;
+
+  -- 2. Delete stashes (will cascade to transactions via FK)
+  delete from stashes where user_id = target_user_id;
+
+  -- 3. Delete expenses
+  delete from expenses where user_id = target_user_id;
+
+  -- 4. Delete recurring expense definitions
+  delete from recurring_expenses where user_id = target_user_id;
+
+  -- 5. Delete category allocations (would be cascaded by month_budget, but explicit for clarity)
+  delete from month_budget_categories where user_id = target_user_id;
+
+  -- 6. Delete month budgets
+  delete from month_budget where user_id = target_user_id;
+
+  -- 7. Delete user-defined expense categories (after everything referencing them)
+  delete from expense_categories where user_id = target_user_id;
+
+  -- Note: Auth user deletion handled separately via Supabase Auth API
+  -- This function only cleans up application data
+
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
@@ -0,0 +1,34 @@
+-- ============================================================================
+-- Migration: Budget rollover
+-- Description: Opt-in carrying of a month's unspent budget (or overspend) into
+--              the next month, and closing a month to freeze the carried value
+-- Created: 2025-11-08 10:00:00 UTC
+--
+-- Changes:
+--   - month_budget.rollover_enabled: the month receives the previous month's remainder
+--   - month_budget.closed_at / closing_balance: remainder frozen when the month is closed
+--
+-- Notes:
+--   - The carried amount is computed by the application (budget.service.ts):
+--       carried(M)   = rollover_enabled(M) ? remainder(M - 1) : 0
+--       remainder(M) = closed ? closing_balance : current_balance + carried(M)
+--     A missing previous month carries nothing
+--   - current_balance keeps meaning budget_set - expenses of the month;
+--     update_month_budget_balance() is unchanged
+--   - Closing stores the remainder at that moment, so editing an expense of a closed
+--     month later changes its current_balance but not what later months receive
+-- ============================================================================
+
+alter table month_budget
+  add column if not exists rollover_enabled boolean not null default false,
+  add column if not exists closed_at timestamptz null,
+  add column if not exists closing_balance numeric(12,2) null;
+
+-- A closed month always has a frozen remainder, an open month never has one
+alter table month_budget
+  add constraint month_budget_closing_consistency
+  check ((closed_at is null) = (closing_balance is null));
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
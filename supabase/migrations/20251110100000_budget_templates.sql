@@ -0,0 +1,456 @@
+-- ============================================================================
+-- Migration: Budget copying and templates
+-- Description: Copies a month's budget (with its category allocations) to another
+--              month, and adds named budget templates that can be applied to a
+--              range of months at once
+-- Created: 2025-11-10 10:00:00 UTC
+--
+-- Changes:
+--   - New tables budget_templates and budget_template_categories (user-owned, RLS)
+--   - apply_month_budget() sets budget_set and allocations of one month atomically
+--   - save_budget_template() creates or replaces a template with its allocations
+--   - apply_budget_template() applies a template to every month of a range atomically
+--   - merge_expense_categories() and delete_user_account() handle the new tables
+--
+-- Notes:
+--   - Applying a budget replaces the month's allocations; current_balance is
+--     recalculated as budget_set - expenses of the month, like the upsert endpoint
+--   - rollover_enabled of an existing month is kept; new months inherit it from
+--     the previous month (same rule as PUT /api/month-budgets/{yearMonth})
+-- ============================================================================
+
+-- ============================================================================
+-- 1. BUDGET TEMPLATES TABLE
+-- ============================================================================
+
+create table if not exists budget_templates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name varchar(100) not null,
+  budget_set numeric(12,2) not null check (budget_set > 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Template names are unique per user (case-insensitive)
+create unique index budget_templates_user_name_unique_idx
+  on budget_templates(user_id, lower(name));
+
+-- Enable RLS for budget_templates
+alter table budget_templates enable row level security;
+
+-- RLS Policy: Users can view their own templates (authenticated)
+-- Rationale: Templates are private to the user who created them
+create policy budget_templates_select_policy_authenticated on budget_templates
+  for select
+  to authenticated
+  using (user_id = auth.uid());
+
+-- RLS Policy: Users can create templates for themselves (authenticated)
+-- Rationale: Users can only create templates for their own account
+create policy budget_templates_insert_policy_authenticated on budget_templates
+  for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+-- RLS Policy: Users can update their own templates (authenticated)
+-- Rationale: Users can only modify templates they created
+create policy budget_templates_update_policy_authenticated on budget_templates
+  for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- RLS Policy: Users can delete their own templates (authenticated)
+-- Rationale: Users can only delete templates they created
+create policy budget_templates_delete_policy_authenticated on budget_templates
+  for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+-- Apply updated_at trigger to budget_templates
+create trigger trigger_budget_templates_updated_at
+  before update on budget_templates
+  for each row
+  execute function update_updated_at_column();
+
+-- ============================================================================
+-- 2. BUDGET TEMPLATE CATEGORIES TABLE
+-- ============================================================================
+
+create table if not exists budget_template_categories (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  template_id uuid not null references budget_templates(id) on delete cascade,
+  category_id uuid not null references expense_categories(id) on delete no action,
+  amount numeric(12,2) not null check (amount > 0),
+
+  -- One allocation per category within a template
+  constraint budget_template_categories_template_category_unique unique (template_id, category_id)
+);
+
+-- Enable RLS for budget_template_categories
+alter table budget_template_categories enable row level security;
+
+-- RLS Policy: Users can view allocations of their own templates (authenticated)
+-- Rationale: Template allocations are private like the template
+create policy budget_template_categories_select_policy_authenticated on budget_template_categories
+  for select
+  to authenticated
+  using (user_id = auth.uid());
+
+-- RLS Policy: Users can add allocations to their own templates (authenticated)
+-- Rationale: Users can only change templates they created
+create policy budget_template_categories_insert_policy_authenticated on budget_template_categories
+  for insert
+  to authenticated
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1 from budget_templates
+      where id = template_id and user_id = auth.uid()
+    )
+  );
+
+-- RLS Policy: Users can update allocations of their own templates (authenticated)
+-- Rationale: Users can only change templates they created
+create policy budget_template_categories_update_policy_authenticated on budget_template_categories
+  for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- RLS Policy: Users can delete allocations of their own templates (authenticated)
+-- Rationale: Users can only change templates they created
+create policy budget_template_categories_delete_policy_authenticated on budget_template_categories
+  for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+-- Index: Optimize loading allocations of a template
+create index idx_budget_template_categories_template
+  on budget_template_categories(template_id);
+
+-- Apply category ownership check to budget_template_categories (same rule as expenses)
+create trigger trigger_validate_budget_template_category
+  before insert or update of category_id on budget_template_categories
+  for each row
+  execute function validate_expense_category();
+
+-- ============================================================================
+-- 3. APPLY A BUDGET TO A MONTH
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Set budget_set and category allocations of one of the caller's months
+-- ----------------------------------------------------------------------------
+-- Purpose: Shared by copying a month and applying templates. Old allocations are
+--          removed before budget_set changes, so a lower budget never collides
+--          with the previous allocations
+-- Arguments:
+--   - target_year_month: Month to set (YYYY-MM); the budget is created if missing
+--   - new_budget_set: The month's budget
+--   - new_rollover_enabled: Rollover mode, or null to keep/inherit it
+--   - allocations: jsonb array of { "category_id": uuid, "amount": number }
+-- Returns: true when the month budget was created, false when it was updated
+-- Security: SECURITY INVOKER - all reads and writes go through the caller's RLS
+-- ----------------------------------------------------------------------------
+
+create or replace function apply_month_budget(
+  target_year_month varchar,
+  new_budget_set numeric,
+  new_rollover_enabled boolean,
+  allocations jsonb
+)
+returns boolean as $$
+declare
+  v_budget_id uuid;
+  v_total_expenses numeric(12,2);
+  v_previous_rollover boolean;
+  v_created boolean := false;
+begin
+  select coalesce(sum(amount), 0) into v_total_expenses
+  from expenses
+  where user_id = auth.uid()
+    and year_month = target_year_month
+    and deleted_at is null;
+
+  select id into v_budget_id
+  from month_budget
+  where user_id = auth.uid()
+    and year_month = target_year_month
+    and deleted_at is null
+  for update;
+
+  if v_budget_id is null then
+    select rollover_enabled into v_previous_rollover
+    from month_budget
+    where user_id = auth.uid()
+      and year_month = to_char(to_date(target_year_month || '-01', 'YYYY-MM-DD') - interval '1 month', 'YYYY-MM')
+      and deleted_at is null;
+
+    insert into month_budget (user_id, year_month, budget_set, current_balance, rollover_enabled)
+    values (
+      auth.uid(),
+      target_year_month,
+      new_budget_set,
+      new_budget_set - v_total_expenses,
+      coalesce(new_rollover_enabled, v_previous_rollover, false)
+    )
+    returning id into v_budget_id;
+
+    v_created := true;
+  else
+    delete from month_budget_categories
+    where month_budget_id = v_budget_id;
+
+    update month_budget
+    set budget_set = new_budget_set,
+        current_balance = new_budget_set - v_total_expenses,
+        rollover_enabled = coalesce(new_rollover_enabled, rollover_enabled),
+        updated_at = now()
+    where id = v_budget_id;
+  end if;
+
+  insert into month_budget_categories (user_id, month_budget_id, category_id, amount)
+  select auth.uid(), v_budget_id, a.category_id, a.amount
+  from jsonb_to_recordset(coalesce(allocations, '[]'::jsonb)) as a(category_id uuid, amount numeric);
+
+  return v_created;
+end;
+$$ language plpgsql security invoker;
+
+-- ============================================================================
+-- 4. SAVE AND APPLY TEMPLATES
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Create or replace one of the caller's budget templates
+-- ----------------------------------------------------------------------------
+-- Arguments:
+--   - target_template_id: Template to replace, or null to create a new one
+--   - template_name / template_budget_set: Template fields
+--   - allocations: jsonb array of { "category_id": uuid, "amount": number }
+-- Returns: The template ID
+-- Security: SECURITY INVOKER - all reads and writes go through the caller's RLS
+-- ----------------------------------------------------------------------------
+
+create or replace function save_budget_template(
+  target_template_id uuid,
+  template_name varchar,
+  template_budget_set numeric,
+  allocations jsonb
+)
+returns uuid as $$
+declare
+  v_template_id uuid;
+begin
+  if target_template_id is null then
+    insert into budget_templates (user_id, name, budget_set)
+    values (auth.uid(), template_name, template_budget_set)
+    returning id into v_template_id;
+  else
+    update budget_templates
+    set name = template_name,
+        budget_set = template_budget_set
+    where id = target_template_id
+      and user_id = auth.uid()
+    returning id into v_template_id;
+
+    if v_template_id is null then
+      raise exception 'Budget template not found';
+    end if;
+
+    delete from budget_template_categories
+    where template_id = v_template_id;
+  end if;
+
+  insert into budget_template_categories (user_id, template_id, category_id, amount)
+  select auth.uid(), v_template_id, a.category_id, a.amount
+  from jsonb_to_recordset(coalesce(allocations, '[]'::jsonb)) as a(category_id uuid, amount numeric);
+
+  return v_template_id;
+end;
+$$ language plpgsql security invoker;
+
+-- ----------------------------------------------------------------------------
+-- Function: Apply one of the caller's templates to every month of a range
+-- ----------------------------------------------------------------------------
+-- Purpose: All months are set in one transaction; if any month fails nothing is changed
+-- Returns: Number of months set
+-- Security: SECURITY INVOKER - all reads and writes go through the caller's RLS
+-- ----------------------------------------------------------------------------
+
+create or replace function apply_budget_template(source_template_id uuid, from_month varchar, to_month varchar)
+returns integer as $$
+declare
+  v_budget_set numeric(12,2);
+  v_allocations jsonb;
+  v_month date;
+  v_count integer := 0;
+begin
+  select budget_set into v_budget_set
+  from budget_templates
+  where id = source_template_id
+    and user_id = auth.uid();
+
+  if v_budget_set is null then
+    raise exception 'Budget template not found';
+  end if;
+
+  select coalesce(jsonb_agg(jsonb_build_object('category_id', category_id, 'amount', amount)), '[]'::jsonb)
+  into v_allocations
+  from budget_template_categories
+  where template_id = source_template_id;
+
+  for v_month in
+    select generate_series(
+      to_date(from_month || '-01', 'YYYY-MM-DD'),
+      to_date(to_month || '-01', 'YYYY-MM-DD'),
+      interval '1 month'
+    )::date
+  loop
+    perform apply_month_budget(to_char(v_month, 'YYYY-MM'), v_budget_set, null, v_allocations);
+    v_count := v_count + 1;
+  end loop;
+
+  return v_count;
+end;
+$$ language plpgsql security invoker;
+
+-- ============================================================================
+-- 5. MERGE CATEGORIES
+-- ============================================================================
+-- Purpose: Also fold template allocations when merging categories
+-- ============================================================================
+
+create or replace function merge_expense_categories(source_category_id uuid, target_category_id uuid)
+returns integer as $$
+declare
+  v_moved integer;
+begin
+  if source_category_id = target_category_id then
+    raise exception 'Cannot merge a category into itself';
+  end if;
+
+  if not exists (
+    select 1 from expense_categories
+    where id = source_category_id and user_id = auth.uid()
+  ) then
+    raise exception 'Source category not found';
+  end if;
+
+  if not exists (
+    select 1 from expense_categories
+    where id = target_category_id and (user_id is null or user_id = auth.uid())
+  ) then
+    raise exception 'Target category not found';
+  end if;
+
+  update expenses
+  set category_id = target_category_id
+  where category_id = source_category_id
+    and user_id = auth.uid();
+
+  get diagnostics v_moved = row_count;
+
+  update recurring_expenses
+  set category_id = target_category_id
+  where category_id = source_category_id
+    and user_id = auth.uid();
+
+  -- Fold source allocations into existing target allocations of the same month
+  update month_budget_categories t
+  set amount = t.amount + s.amount
+  from month_budget_categories s
+  where s.category_id = source_category_id
+    and s.user_id = auth.uid()
+    and t.category_id = target_category_id
+    and t.month_budget_id = s.month_budget_id;
+
+  delete from month_budget_categories s
+  where s.category_id = source_category_id
+    and s.user_id = auth.uid()
+    and exists (
+      select 1 from month_budget_categories t
+      where t.month_budget_id = s.month_budget_id
+        and t.category_id = target_category_id
+    );
+
+  update month_budget_categories
+  set category_id = target_category_id
+  where category_id = source_category_id
+    and user_id = auth.uid();
+
+  -- Same for template allocations
+  update budget_template_categories t
+  set amount = t.amount + s.amount
+  from budget_template_categories s
+  where s.category_id = source_category_id
+    and s.user_id = auth.uid()
+    and t.category_id = target_category_id
+    and t.template_id = s.template_id;
+
+  delete from budget_template_categories s
+  where s.category_id = source_category_id
+    and s.user_id = auth.uid()
+    and exists (
+      select 1 from budget_template_categories t
+      where t.template_id = s.template_id
+        and t.category_id = target_category_id
+    );
+
+  update budget_template_categories
+  set category_id = target_category_id
+  where category_id = source_category_id
+    and user_id = auth.uid();
+
+  delete from expense_categories where id = source_category_id;
+
+  return v_moved;
+end;
+$$ language plpgsql security invoker;
+
+-- ============================================================================
+-- 6. ACCOUNT DELETION
+-- ============================================================================
+
+create or replace function delete_user_account(target_user_id uuid)
+returns void as $$
+begin
+  -- Delete in order to respect foreign key constraints
+
+  -- 1. Delete stash transactions (will be cascaded by FK, but explicit for clarity)
+  delete from stash_transactions where user_id = target_user_id;
+
+  -- 2. Delete stashes (will cascade to transactions via FK)
+  delete from stashes where user_id = target_user_id;
+
+  -- 3. Delete expenses
+  delete from expenses where user_id = target_user_id;
+
+  -- 4. Delete recurring expense definitions
+  delete from recurring_expenses where user_id = target_user_id;
+
+  -- 5. Delete category allocations (would be cascaded by month_budget, but explicit for clarity)
+  delete from month_budget_categories where user_id = target_user_id;
+
+  -- 6. Delete month budgets
+  delete from month_budget where user_id = target_user_id;
+
+  -- 7. Delete budget templates and their allocations
+  delete from budget_template_categories where user_id = target_user_id;
+  delete from budget_templates where user_id = target_user_id;
+
+  -- 8. Delete user-defined expense categories (after everything referencing them)
+  delete from expense_categories where user_id = target_user_id;
+
+  -- Note: Auth user deletion handled separately via Supabase Auth API
+  -- This function only cleans up application data
+
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
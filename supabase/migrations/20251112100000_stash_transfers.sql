@@ -0,0 +1,90 @@
+-- ============================================================================
+-- Migration: Transfers between stashes
+-- Description: Moves money from one stash to another as a single atomic
+--              operation instead of a separate withdrawal and deposit
+-- Created: 2025-11-12 10:00:00 UTC
+--
+-- Changes:
+--   - stash_transactions.transfer_id links the withdrawal and deposit of a transfer
+--   - create_stash_transfer() inserts both sides in one transaction
+--
+-- Notes:
+--   - Both rows go through update_stash_balance(), so the overdraft check on the
+--     source stash rolls back the whole transfer
+--   - Deleting either side soft-deletes both rows with a single UPDATE on
+--     transfer_id (see softDeleteTransaction), which reverses both balances
+--   - Soft-deleting a stash only cascades to its own rows; the other side of
+--     its transfers stays in place
+-- ============================================================================
+
+-- ============================================================================
+-- 1. TRANSFER LINK
+-- ============================================================================
+
+alter table stash_transactions
+  add column if not exists transfer_id uuid null;
+
+-- Index: Find the other side of a transfer
+create index if not exists idx_stash_transactions_transfer
+  on stash_transactions(transfer_id)
+  where transfer_id is not null;
+
+-- ============================================================================
+-- 2. CREATE TRANSFER
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Move an amount from one of the caller's stashes to another
+-- ----------------------------------------------------------------------------
+-- Arguments:
+--   - source_stash_id: Stash to withdraw from
+--   - target_stash_id: Stash to deposit to (must differ from the source)
+--   - transfer_amount: Amount to move (> 0)
+--   - transfer_description: Optional note, stored on both rows
+-- Returns: The transfer ID shared by both rows
+-- Raises:
+--   - 'Stash not found' / 'Target stash not found' for missing, deleted or
+--     foreign stashes
+--   - 'Insufficient balance in stash' (from update_stash_balance) on overdraft
+-- Security: SECURITY INVOKER - all reads and writes go through the caller's RLS
+-- ----------------------------------------------------------------------------
+
+create or replace function create_stash_transfer(
+  source_stash_id uuid,
+  target_stash_id uuid,
+  transfer_amount numeric,
+  transfer_description text
+)
+returns uuid as $$
+declare
+  v_transfer_id uuid := gen_random_uuid();
+  v_created_at timestamptz := now();
+begin
+  if source_stash_id = target_stash_id then
+    raise exception 'Cannot transfer to the same stash' using errcode = 'check_violation';
+  end if;
+
+  if not exists (
+    select 1 from stashes
+    where id = source_stash_id and user_id = auth.uid() and deleted_at is null
+  ) then
+    raise exception 'Stash not found';
+  end if;
+
+  if not exists (
+    select 1 from stashes
+    where id = target_stash_id and user_id = auth.uid() and deleted_at is null
+  ) then
+    raise exception 'Target stash not found';
+  end if;
+
+  -- Withdrawal first so the overdraft check runs before any money arrives
+  insert into stash_transactions (stash_id, user_id, transaction_type, amount, description, created_at, transfer_id)
+  values (source_stash_id, auth.uid(), 'withdrawal', transfer_amount, transfer_description, v_created_at, v_transfer_id);
+
+  insert into stash_transactions (stash_id, user_id, transaction_type, amount, description, created_at, transfer_id)
+  values (target_stash_id, auth.uid(), 'deposit', transfer_amount, transfer_description, v_created_at, v_transfer_id);
+
+  return v_transfer_id;
+end;
+$$ language plpgsql security invoker;
@@ -0,0 +1,23 @@
+-- ============================================================================
+-- Migration: Savings goals for stashes
+-- Description: Lets a stash have an optional goal amount and target date
+-- Created: 2025-11-14 10:00:00 UTC
+--
+-- Changes:
+--   - stashes.goal_amount: amount the user wants to save in the stash
+--   - stashes.goal_date: date the goal should be reached by
+--
+-- Notes:
+--   - Both columns are optional; a target date needs a goal amount
+--   - Progress, remaining amount and the monthly deposit needed are derived from
+--     current_balance in the application (src/lib/stash-goal.ts)
+-- ============================================================================
+
+alter table stashes
+  add column if not exists goal_amount numeric(12,2) null check (goal_amount > 0),
+  add column if not exists goal_date date null;
+
+-- A target date without an amount has nothing to reach
+alter table stashes
+  add constraint stashes_goal_date_requires_amount
+  check (goal_date is null or goal_amount is not null);
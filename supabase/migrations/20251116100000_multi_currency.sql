@@ -0,0 +1,240 @@
+-- ============================================================================
+-- Migration: Multi-currency stashes
+-- Description: Lets a stash hold a currency other than PLN (EUR, USD, crypto...)
+--              and adds a per-user exchange-rate table used to value stashes
+--              in a common base currency
+-- Created: 2025-11-16 10:00:00 UTC
+--
+-- Changes:
+--   - stashes.currency and stash_transactions.currency (default 'PLN')
+--   - A transaction always takes the currency of its stash (trigger)
+--   - New table exchange_rates (user-owned, RLS), filled in manually or imported
+--   - create_stash_transfer() refuses transfers between different currencies
+--   - delete_user_account() handles the new table
+--
+-- Notes:
+--   - Existing stashes and transactions become PLN, which is what they were
+--   - Currency codes are upper-case letters/digits (ISO 4217 or a crypto ticker)
+--   - A rate means 1 from_currency = rate to_currency on rate_date; the
+--     application uses the latest rate of a pair, or the inverse of the
+--     opposite pair when only that one is known
+--   - A stash's currency cannot be changed once it is created
+-- ============================================================================
+
+-- ============================================================================
+-- 1. STASH AND TRANSACTION CURRENCY
+-- ============================================================================
+
+alter table stashes
+  add column if not exists currency varchar(10) not null default 'PLN'
+    constraint stashes_currency_format check (currency ~ '^[A-Z][A-Z0-9]{2,9}$');
+
+alter table stash_transactions
+  add column if not exists currency varchar(10) not null default 'PLN'
+    constraint stash_transactions_currency_format check (currency ~ '^[A-Z][A-Z0-9]{2,9}$');
+
+-- ----------------------------------------------------------------------------
+-- Function: Copy the stash's currency onto a new transaction
+-- ----------------------------------------------------------------------------
+-- Purpose: Balances are kept per stash, so a transaction in another currency
+--          would silently corrupt current_balance
+-- ----------------------------------------------------------------------------
+
+create or replace function set_stash_transaction_currency()
+returns trigger as $$
+begin
+  select currency into new.currency
+  from stashes
+  where id = new.stash_id;
+
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger trigger_set_stash_transaction_currency
+  before insert on stash_transactions
+  for each row
+  execute function set_stash_transaction_currency();
+
+-- ----------------------------------------------------------------------------
+-- Function: Keep a stash's currency fixed
+-- ----------------------------------------------------------------------------
+
+create or replace function prevent_stash_currency_change()
+returns trigger as $$
+begin
+  if new.currency <> old.currency then
+    raise exception 'Stash currency cannot be changed' using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger trigger_prevent_stash_currency_change
+  before update of currency on stashes
+  for each row
+  execute function prevent_stash_currency_change();
+
+-- ============================================================================
+-- 2. EXCHANGE RATES TABLE
+-- ============================================================================
+
+create table if not exists exchange_rates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  from_currency varchar(10) not null check (from_currency ~ '^[A-Z][A-Z0-9]{2,9}$'),
+  to_currency varchar(10) not null check (to_currency ~ '^[A-Z][A-Z0-9]{2,9}$'),
+  rate numeric(20,10) not null check (rate > 0),
+  rate_date date not null default current_date,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+
+  constraint exchange_rates_distinct_currencies check (from_currency <> to_currency),
+  -- One rate per pair and day; importing the same day again replaces it
+  constraint exchange_rates_user_pair_date_unique unique (user_id, from_currency, to_currency, rate_date)
+);
+
+-- Enable RLS for exchange_rates
+alter table exchange_rates enable row level security;
+
+-- RLS Policy: Users can view their own rates (authenticated)
+-- Rationale: Rates are entered by each user and private to them
+create policy exchange_rates_select_policy_authenticated on exchange_rates
+  for select
+  to authenticated
+  using (user_id = auth.uid());
+
+-- RLS Policy: Users can create rates for themselves (authenticated)
+-- Rationale: Users can only add rates to their own account
+create policy exchange_rates_insert_policy_authenticated on exchange_rates
+  for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+-- RLS Policy: Users can update their own rates (authenticated)
+-- Rationale: Users can only modify rates they created
+create policy exchange_rates_update_policy_authenticated on exchange_rates
+  for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- RLS Policy: Users can delete their own rates (authenticated)
+-- Rationale: Users can only delete rates they created
+create policy exchange_rates_delete_policy_authenticated on exchange_rates
+  for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+-- Index: Optimize finding the latest rate of a pair
+create index idx_exchange_rates_user_pair_date
+  on exchange_rates(user_id, from_currency, to_currency, rate_date desc);
+
+-- Apply updated_at trigger to exchange_rates
+create trigger trigger_exchange_rates_updated_at
+  before update on exchange_rates
+  for each row
+  execute function update_updated_at_column();
+
+-- ============================================================================
+-- 3. TRANSFERS
+-- ============================================================================
+-- Purpose: A transfer moves the same amount out of one stash and into another,
+--          which only makes sense when both hold the same currency
+-- ============================================================================
+
+create or replace function create_stash_transfer(
+  source_stash_id uuid,
+  target_stash_id uuid,
+  transfer_amount numeric,
+  transfer_description text
+)
+returns uuid as $$
+declare
+  v_transfer_id uuid := gen_random_uuid();
+  v_created_at timestamptz := now();
+  v_source_currency varchar(10);
+  v_target_currency varchar(10);
+begin
+  if source_stash_id = target_stash_id then
+    raise exception 'Cannot transfer to the same stash' using errcode = 'check_violation';
+  end if;
+
+  select currency into v_source_currency
+  from stashes
+  where id = source_stash_id and user_id = auth.uid() and deleted_at is null;
+
+  if v_source_currency is null then
+    raise exception 'Stash not found';
+  end if;
+
+  select currency into v_target_currency
+  from stashes
+  where id = target_stash_id and user_id = auth.uid() and deleted_at is null;
+
+  if v_target_currency is null then
+    raise exception 'Target stash not found';
+  end if;
+
+  if v_source_currency <> v_target_currency then
+    raise exception 'Cannot transfer between stashes in different currencies' using errcode = 'check_violation';
+  end if;
+
+  -- Withdrawal first so the overdraft check runs before any money arrives
+  insert into stash_transactions (stash_id, user_id, transaction_type, amount, description, created_at, transfer_id)
+  values (source_stash_id, auth.uid(), 'withdrawal', transfer_amount, transfer_description, v_created_at, v_transfer_id);
+
+  insert into stash_transactions (stash_id, user_id, transaction_type, amount, description, created_at, transfer_id)
+  values (target_stash_id, auth.uid(), 'deposit', transfer_amount, transfer_description, v_created_at, v_transfer_id);
+
+  return v_transfer_id;
+end;
+$$ language plpgsql security invoker;
+
+-- ============================================================================
+-- 4. ACCOUNT DELETION
+-- ============================================================================
+
+create or replace function delete_user_account(target_user_id uuid)
+returns void as $$
+begin
+  -- Delete in order to respect foreign key constraints
+
+  -- 1. Delete stash transactions (will be cascaded by FK, but explicit for clarity)
+  delete from stash_transactions where user_id = target_user_id;
+
+  -- 2. Delete stashes (will cascade to transactions via FK)
+  delete from stashes where user_id = target_user_id;
+
+  -- 3. Delete exchange rates
+  delete from exchange_rates where user_id = target_user_id;
+
+  -- 4. Delete expenses
+  delete from expenses where user_id = target_user_id;
+
+  -- 5. Delete recurring expense definitions
+  delete from recurring_expenses where user_id = target_user_id;
+
+  -- 6. Delete category allocations (would be cascaded by month_budget, but explicit for clarity)
+  delete from month_budget_categories where user_id = target_user_id;
+
+  -- 7. Delete month budgets
+  delete from month_budget where user_id = target_user_id;
+
+  -- 8. Delete budget templates and their allocations
+  delete from budget_template_categories where user_id = target_user_id;
+  delete from budget_templates where user_id = target_user_id;
+
+  -- 9. Delete user-defined expense categories (after everything referencing them)
+  delete from expense_categories where user_id = target_user_id;
+
+  -- Note: Auth user deletion handled separately via Supabase Auth API
+  -- This function only cleans up application data
+
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
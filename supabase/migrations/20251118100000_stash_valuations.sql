@@ -0,0 +1,171 @@
+-- ============================================================================
+-- Migration: Stash valuations
+-- Description: Lets investment stashes (broker accounts, crypto) follow their
+--              market value without recording fake deposits or withdrawals
+-- Created: 2025-11-18 10:00:00 UTC
+--
+-- Changes:
+--   - New transaction type 'adjustment' next to 'deposit' and 'withdrawal'
+--   - update_stash_balance() applies adjustments as a signed change
+--   - record_stash_valuation() turns a market-value snapshot into an adjustment
+--
+-- Notes:
+--   - An adjustment's amount is the change in value: positive for a gain,
+--     negative for a loss, zero when the snapshot confirms the balance
+--   - Deposits and withdrawals (transfers included) are the contributed capital;
+--     the sum of adjustments is the unrealized gain or loss
+--   - Deleting a valuation reverses its adjustment like any other transaction
+-- ============================================================================
+
+-- ============================================================================
+-- 1. TRANSACTION TYPE
+-- ============================================================================
+
+alter table stash_transactions
+  drop constraint if exists stash_transactions_transaction_type_check,
+  drop constraint if exists stash_transactions_amount_check;
+
+alter table stash_transactions
+  add constraint stash_transactions_transaction_type_check
+    check (transaction_type in ('deposit', 'withdrawal', 'adjustment')),
+  add constraint stash_transactions_amount_check
+    check (amount > 0 or transaction_type = 'adjustment');
+
+-- ============================================================================
+-- 2. BALANCE TRIGGER
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Update stash balance on transaction changes
+-- ----------------------------------------------------------------------------
+-- Purpose: Maintain stash current_balance based on transactions
+-- Behavior:
+--   - Deposits add their amount, withdrawals subtract it, adjustments add
+--     their (signed) amount
+--   - INSERT: Apply the transaction
+--   - UPDATE: Reverse old transaction and apply new one
+--   - DELETE: Reverse transaction if not soft-deleted
+--   - Prevents negative balances for withdrawals and downward adjustments
+-- Security: SECURITY DEFINER allows trigger to update stash despite RLS
+-- ----------------------------------------------------------------------------
+
+create or replace function stash_transaction_balance_change(transaction_type varchar, amount numeric)
+returns numeric as $$
+  select case when transaction_type = 'withdrawal' then -amount else amount end;
+$$ language sql immutable;
+
+create or replace function update_stash_balance()
+returns trigger as $$
+begin
+  if tg_op = 'INSERT' then
+    update stashes
+    set current_balance = current_balance + stash_transaction_balance_change(new.transaction_type, new.amount),
+        updated_at = now()
+    where id = new.stash_id;
+
+    -- Check if balance would go negative (prevent overdraft)
+    if (select current_balance from stashes where id = new.stash_id) < 0 then
+      raise exception 'Insufficient balance in stash';
+    end if;
+    return new;
+
+  elsif tg_op = 'UPDATE' then
+    -- Only process if not soft-deleted and amount/type changed
+    if old.deleted_at is null and new.deleted_at is null then
+      -- Reverse old transaction
+      update stashes
+      set current_balance = current_balance - stash_transaction_balance_change(old.transaction_type, old.amount)
+      where id = old.stash_id;
+
+      -- Apply new transaction
+      update stashes
+      set current_balance = current_balance + stash_transaction_balance_change(new.transaction_type, new.amount)
+      where id = new.stash_id;
+
+      -- Check balance (prevent negative balance)
+      if (select current_balance from stashes where id = new.stash_id) < 0 then
+        raise exception 'Insufficient balance in stash';
+      end if;
+    elsif old.deleted_at is null and new.deleted_at is not null then
+      -- Soft delete: reverse the transaction
+      update stashes
+      set current_balance = current_balance - stash_transaction_balance_change(old.transaction_type, old.amount)
+      where id = old.stash_id;
+    end if;
+
+    update stashes set updated_at = now() where id = new.stash_id;
+    return new;
+
+  elsif tg_op = 'DELETE' then
+    -- Hard delete: reverse the transaction if it wasn't soft-deleted
+    if old.deleted_at is null then
+      update stashes
+      set current_balance = current_balance - stash_transaction_balance_change(old.transaction_type, old.amount),
+          updated_at = now()
+      where id = old.stash_id;
+    end if;
+    return old;
+  end if;
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- 3. RECORD VALUATION
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Record the current market value of one of the caller's stashes
+-- ----------------------------------------------------------------------------
+-- Arguments:
+--   - target_stash_id: Stash to revalue
+--   - market_value: The stash's value now (>= 0), in the stash's currency
+--   - valuation_description: Optional note
+-- Returns: The ID of the adjustment transaction
+-- Raises:
+--   - 'Stash not found' for missing, deleted or foreign stashes
+--   - check_violation when the market value is negative
+-- Security: SECURITY INVOKER - all reads and writes go through the caller's RLS
+-- ----------------------------------------------------------------------------
+
+create or replace function record_stash_valuation(
+  target_stash_id uuid,
+  market_value numeric,
+  valuation_description text
+)
+returns uuid as $$
+declare
+  v_transaction_id uuid;
+  v_current_balance numeric;
+begin
+  if market_value < 0 then
+    raise exception 'Market value cannot be negative' using errcode = 'check_violation';
+  end if;
+
+  -- Lock the stash so a concurrent transaction cannot change the balance the
+  -- adjustment is computed from
+  select current_balance into v_current_balance
+  from stashes
+  where id = target_stash_id and user_id = auth.uid() and deleted_at is null
+  for update;
+
+  if v_current_balance is null then
+    raise exception 'Stash not found';
+  end if;
+
+  insert into stash_transactions (stash_id, user_id, transaction_type, amount, description)
+  values (
+    target_stash_id,
+    auth.uid(),
+    'adjustment',
+    round(market_value, 2) - v_current_balance,
+    valuation_description
+  )
+  returning id into v_transaction_id;
+
+  return v_transaction_id;
+end;
+$$ language plpgsql security invoker;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
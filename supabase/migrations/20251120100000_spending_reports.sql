@@ -0,0 +1,293 @@
+-- ============================================================================
+-- Migration: Spending reports
+-- Description: Aggregation functions behind GET /api/reports/spending, so
+--              multi-month analytics are computed by the database instead of
+--              loading every expense into the application
+-- Created: 2025-11-20 10:00:00 UTC
+--
+-- Changes:
+--   - report_spending_summary(): totals and monthly average for a range of months
+--   - report_spending_groups(): totals grouped by category, month or week
+--   - report_category_trends(): each category's monthly totals with the change
+--     from the previous month
+--   - report_budget_adherence(): budget vs. spending for each month
+--
+-- Notes:
+--   - Ranges are whole months given as 'YYYY-MM', both ends inclusive
+--   - All functions are SECURITY INVOKER and also filter on auth.uid(), so they
+--     only ever see the caller's rows
+--   - Months and weeks without expenses are returned with a zero total, so
+--     series can be charted without gaps
+--   - Budget adherence compares against budget_set only; amounts carried over
+--     from the previous month (rollover) are computed by the application and
+--     not included
+-- ============================================================================
+
+-- ============================================================================
+-- 1. SUMMARY
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Totals for a range of months
+-- ----------------------------------------------------------------------------
+-- Arguments:
+--   - from_month, to_month: First and last month of the range ('YYYY-MM')
+-- Returns: One row with the total spent, the number of expenses, the number
+--          of months in the range and the average spent per month
+-- ----------------------------------------------------------------------------
+
+create or replace function report_spending_summary(from_month varchar, to_month varchar)
+returns table (
+  total numeric,
+  expense_count bigint,
+  month_count integer,
+  monthly_average numeric
+) as $$
+  with range as (
+    select count(*)::integer as months
+    from generate_series(
+      to_date(from_month || '-01', 'YYYY-MM-DD'),
+      to_date(to_month || '-01', 'YYYY-MM-DD'),
+      interval '1 month'
+    )
+  ),
+  spent as (
+    select coalesce(sum(amount), 0) as total, count(*) as expense_count
+    from expenses
+    where user_id = auth.uid()
+      and deleted_at is null
+      and year_month between from_month and to_month
+  )
+  select
+    spent.total,
+    spent.expense_count,
+    range.months,
+    round(spent.total / range.months, 2)
+  from spent, range;
+$$ language sql stable security invoker;
+
+-- ============================================================================
+-- 2. GROUPED TOTALS
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Totals grouped by category, month or week
+-- ----------------------------------------------------------------------------
+-- Arguments:
+--   - from_month, to_month: First and last month of the range ('YYYY-MM')
+--   - group_by: 'category' | 'month' | 'week'
+-- Returns: One row per group, with
+--   - group_key: category ID ('uncategorized' for expenses without one),
+--     'YYYY-MM' or the Monday starting the week ('YYYY-MM-DD')
+--   - label: Category display name; same as group_key for months and weeks
+--   - total, expense_count
+-- Order: Categories by total (largest first), months and weeks chronologically
+-- Raises: invalid_parameter_value for an unknown group_by
+-- ----------------------------------------------------------------------------
+
+create or replace function report_spending_groups(from_month varchar, to_month varchar, group_by varchar)
+returns table (
+  group_key text,
+  label text,
+  color text,
+  total numeric,
+  expense_count bigint
+) as $$
+declare
+  v_from date := to_date(from_month || '-01', 'YYYY-MM-DD');
+  v_to date := (to_date(to_month || '-01', 'YYYY-MM-DD') + interval '1 month - 1 day')::date;
+begin
+  if group_by = 'category' then
+    return query
+      select
+        coalesce(e.category_id::text, 'uncategorized'),
+        coalesce(c.display_name, 'Uncategorized')::text,
+        c.color::text,
+        sum(e.amount),
+        count(*)
+      from expenses e
+      left join expense_categories c on c.id = e.category_id
+      where e.user_id = auth.uid()
+        and e.deleted_at is null
+        and e.year_month between from_month and to_month
+      group by e.category_id, c.display_name, c.color
+      order by sum(e.amount) desc;
+
+  elsif group_by = 'month' then
+    return query
+      select
+        to_char(m.month_start, 'YYYY-MM'),
+        to_char(m.month_start, 'YYYY-MM'),
+        null::text,
+        coalesce(sum(e.amount), 0),
+        count(e.id)
+      from generate_series(v_from, v_to, interval '1 month') as m(month_start)
+      left join expenses e
+        on e.user_id = auth.uid()
+        and e.deleted_at is null
+        and e.year_month = to_char(m.month_start, 'YYYY-MM')
+      group by m.month_start
+      order by m.month_start;
+
+  elsif group_by = 'week' then
+    -- Weeks start on Monday; the first and last week may reach outside the range,
+    -- but only expenses inside the range are counted
+    return query
+      select
+        to_char(w.week_start, 'YYYY-MM-DD'),
+        to_char(w.week_start, 'YYYY-MM-DD'),
+        null::text,
+        coalesce(sum(e.amount), 0),
+        count(e.id)
+      from generate_series(date_trunc('week', v_from), v_to, interval '1 week') as w(week_start)
+      left join expenses e
+        on e.user_id = auth.uid()
+        and e.deleted_at is null
+        and e.expense_date between v_from and v_to
+        and date_trunc('week', e.expense_date) = w.week_start
+      group by w.week_start
+      order by w.week_start;
+
+  else
+    raise exception 'Unknown group_by: %', group_by using errcode = 'invalid_parameter_value';
+  end if;
+end;
+$$ language plpgsql stable security invoker;
+
+-- ============================================================================
+-- 3. CATEGORY TRENDS
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Monthly totals per category with the month-over-month change
+-- ----------------------------------------------------------------------------
+-- Arguments:
+--   - from_month, to_month: First and last month of the range ('YYYY-MM')
+-- Returns: One row per category with expenses in the range and per month, with
+--   - total: Spent in that month (0 when nothing was spent)
+--   - previous_total: Spent in the month before (for the first month, the
+--     month before the range)
+--   - change_amount: total - previous_total
+--   - change_percent: Change relative to previous_total, null when it was 0
+-- ----------------------------------------------------------------------------
+
+create or replace function report_category_trends(from_month varchar, to_month varchar)
+returns table (
+  category_key text,
+  category_name text,
+  category_color text,
+  year_month text,
+  total numeric,
+  previous_total numeric,
+  change_amount numeric,
+  change_percent numeric
+) as $$
+  with months as (
+    select to_char(m, 'YYYY-MM') as year_month
+    from generate_series(
+      to_date(from_month || '-01', 'YYYY-MM-DD') - interval '1 month',
+      to_date(to_month || '-01', 'YYYY-MM-DD'),
+      interval '1 month'
+    ) as m
+  ),
+  monthly as (
+    select e.category_id, e.year_month, sum(e.amount) as total
+    from expenses e
+    where e.user_id = auth.uid()
+      and e.deleted_at is null
+      and e.year_month between (select min(year_month) from months) and to_month
+    group by e.category_id, e.year_month
+  ),
+  categories as (
+    select distinct category_id
+    from monthly
+    where year_month between from_month and to_month
+  ),
+  series as (
+    select
+      cat.category_id,
+      months.year_month,
+      coalesce(monthly.total, 0) as total,
+      lag(coalesce(monthly.total, 0)) over (partition by cat.category_id order by months.year_month) as previous_total
+    from categories cat
+    cross join months
+    left join monthly
+      on monthly.category_id is not distinct from cat.category_id
+      and monthly.year_month = months.year_month
+  )
+  select
+    coalesce(series.category_id::text, 'uncategorized'),
+    coalesce(c.display_name, 'Uncategorized')::text,
+    c.color::text,
+    series.year_month,
+    series.total,
+    series.previous_total,
+    series.total - series.previous_total,
+    case
+      when series.previous_total = 0 then null
+      else round((series.total - series.previous_total) / series.previous_total * 100, 1)
+    end
+  from series
+  left join expense_categories c on c.id = series.category_id
+  where series.year_month >= from_month
+  order by coalesce(c.display_name, 'Uncategorized'), series.year_month;
+$$ language sql stable security invoker;
+
+-- ============================================================================
+-- 4. BUDGET ADHERENCE
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Budget vs. spending for each month of a range
+-- ----------------------------------------------------------------------------
+-- Arguments:
+--   - from_month, to_month: First and last month of the range ('YYYY-MM')
+-- Returns: One row per month, with
+--   - budget_set: The month's budget, null when none was set
+--   - spent: Total expenses of the month
+--   - remaining: budget_set - spent, null without a budget
+--   - used_percent: Share of the budget spent, null without a budget
+-- ----------------------------------------------------------------------------
+
+create or replace function report_budget_adherence(from_month varchar, to_month varchar)
+returns table (
+  year_month text,
+  budget_set numeric,
+  spent numeric,
+  remaining numeric,
+  used_percent numeric
+) as $$
+  with months as (
+    select to_char(m, 'YYYY-MM') as year_month
+    from generate_series(
+      to_date(from_month || '-01', 'YYYY-MM-DD'),
+      to_date(to_month || '-01', 'YYYY-MM-DD'),
+      interval '1 month'
+    ) as m
+  ),
+  spent as (
+    select e.year_month, sum(e.amount) as total
+    from expenses e
+    where e.user_id = auth.uid()
+      and e.deleted_at is null
+      and e.year_month between from_month and to_month
+    group by e.year_month
+  )
+  select
+    months.year_month,
+    b.budget_set,
+    coalesce(spent.total, 0),
+    b.budget_set - coalesce(spent.total, 0),
+    round(coalesce(spent.total, 0) / b.budget_set * 100, 1)
+  from months
+  left join spent on spent.year_month = months.year_month
+  left join month_budget b
+    on b.user_id = auth.uid()
+    and b.deleted_at is null
+    and b.year_month = months.year_month
+  order by months.year_month;
+$$ language sql stable security invoker;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
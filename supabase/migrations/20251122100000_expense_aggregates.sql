@@ -0,0 +1,73 @@
+-- ============================================================================
+-- Migration: Expense aggregates
+-- Description: Month totals computed by the database, so the dashboard and
+--              budget endpoints no longer load every expense of a month to
+--              add them up in the application
+-- Created: 2025-11-22 10:00:00 UTC
+--
+-- Changes:
+--   - month_expense_totals(): total and count of a month's expenses
+--   - category_totals(): a month's expenses totalled per category
+--
+-- Notes:
+--   - Both functions are SECURITY INVOKER and also filter on auth.uid(), so they
+--     only ever see the caller's rows
+--   - Both are served by idx_expenses_user_year_month
+-- ============================================================================
+
+-- ============================================================================
+-- 1. MONTH TOTALS
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Total of the caller's expenses in a month
+-- ----------------------------------------------------------------------------
+-- Arguments:
+--   - target_year_month: The month ('YYYY-MM')
+-- Returns: One row with the total spent (0 without expenses) and the number
+--          of expenses
+-- ----------------------------------------------------------------------------
+
+create or replace function month_expense_totals(target_year_month varchar)
+returns table (
+  total numeric,
+  expense_count bigint
+) as $$
+  select coalesce(sum(amount), 0), count(*)
+  from expenses
+  where user_id = auth.uid()
+    and deleted_at is null
+    and year_month = target_year_month;
+$$ language sql stable security invoker;
+
+-- ============================================================================
+-- 2. CATEGORY TOTALS
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: The caller's expenses in a month, totalled per category
+-- ----------------------------------------------------------------------------
+-- Arguments:
+--   - target_year_month: The month ('YYYY-MM')
+-- Returns: One row per category with expenses in the month (category_id is
+--          null for uncategorized expenses), largest total first
+-- ----------------------------------------------------------------------------
+
+create or replace function category_totals(target_year_month varchar)
+returns table (
+  category_id uuid,
+  total numeric,
+  expense_count bigint
+) as $$
+  select e.category_id, sum(e.amount), count(*)
+  from expenses e
+  where e.user_id = auth.uid()
+    and e.deleted_at is null
+    and e.year_month = target_year_month
+  group by e.category_id
+  order by sum(e.amount) desc;
+$$ language sql stable security invoker;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
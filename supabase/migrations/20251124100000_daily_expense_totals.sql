@@ -0,0 +1,44 @@
+-- ============================================================================
+-- Migration: Daily expense totals
+-- Description: Per-day spending for the sparklines of the budget year overview
+-- Created: 2025-11-24 10:00:00 UTC
+--
+-- Changes:
+--   - report_daily_totals(): the caller's expenses totalled per day
+--
+-- Notes:
+--   - Only days with expenses are returned; the application fills in the rest
+--     with zeros when it lays out a month
+--   - SECURITY INVOKER and filtered on auth.uid(), like the other report_*
+--     functions
+-- ============================================================================
+
+-- ============================================================================
+-- 1. DAILY TOTALS
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Totals per day for a range of months
+-- ----------------------------------------------------------------------------
+-- Arguments:
+--   - from_month, to_month: First and last month of the range ('YYYY-MM')
+-- Returns: One row per day with expenses, chronologically
+-- ----------------------------------------------------------------------------
+
+create or replace function report_daily_totals(from_month varchar, to_month varchar)
+returns table (
+  expense_date date,
+  total numeric
+) as $$
+  select e.expense_date, sum(e.amount)
+  from expenses e
+  where e.user_id = auth.uid()
+    and e.deleted_at is null
+    and e.year_month between from_month and to_month
+  group by e.expense_date
+  order by e.expense_date;
+$$ language sql stable security invoker;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
@@ -0,0 +1,241 @@
+-- ============================================================================
+-- Migration: Expense tags
+-- Description: Free-form tags ("vacation-2026", "kids", "business") that cut
+--              across expense categories
+-- Created: 2025-11-26 10:00:00 UTC
+--
+-- Changes:
+--   - New table tags (user-owned, RLS)
+--   - New table expense_tags joining expenses and tags (RLS)
+--   - set_expense_tags() replaces the tags of an expense atomically
+--   - report_tag_totals(): spending per tag for a range of months
+--   - delete_user_account() handles the new tables
+--
+-- Notes:
+--   - Tag names are stored trimmed and in lower case, so "Kids" and "kids "
+--     are the same tag; they cannot contain commas (the list filter separates
+--     tags with commas)
+--   - Tags are created on first use and kept when no expense uses them any
+--     more, so they stay available as suggestions
+--   - An expense counts fully towards every one of its tags, so per-tag totals
+--     can add up to more than the total spent
+-- ============================================================================
+
+-- ============================================================================
+-- 1. TAGS TABLE
+-- ============================================================================
+
+create table if not exists tags (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name varchar(50) not null,
+  created_at timestamptz not null default now(),
+
+  constraint tags_name_format check (
+    name = lower(btrim(name)) and char_length(name) >= 1 and position(',' in name) = 0
+  ),
+  constraint tags_user_name_unique unique (user_id, name)
+);
+
+-- Enable RLS for tags
+alter table tags enable row level security;
+
+-- RLS Policy: Users can view their own tags (authenticated)
+-- Rationale: Tags are created by each user and private to them
+create policy tags_select_policy_authenticated on tags
+  for select
+  to authenticated
+  using (user_id = auth.uid());
+
+-- RLS Policy: Users can create tags for themselves (authenticated)
+-- Rationale: Users can only add tags to their own account
+create policy tags_insert_policy_authenticated on tags
+  for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+-- RLS Policy: Users can delete their own tags (authenticated)
+-- Rationale: Deleting a tag removes it from every expense (cascade)
+create policy tags_delete_policy_authenticated on tags
+  for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+-- ============================================================================
+-- 2. EXPENSE TAGS TABLE
+-- ============================================================================
+
+create table if not exists expense_tags (
+  expense_id uuid not null references expenses(id) on delete cascade,
+  tag_id uuid not null references tags(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+
+  primary key (expense_id, tag_id)
+);
+
+-- Index: Optimize filtering and totalling expenses by tag
+create index idx_expense_tags_tag on expense_tags(tag_id);
+
+-- Enable RLS for expense_tags
+alter table expense_tags enable row level security;
+
+-- RLS Policy: Users can view the tags of their own expenses (authenticated)
+-- Rationale: Tagging is private, like the expenses themselves
+create policy expense_tags_select_policy_authenticated on expense_tags
+  for select
+  to authenticated
+  using (user_id = auth.uid());
+
+-- RLS Policy: Users can tag their own expenses with their own tags (authenticated)
+-- Rationale: Both ends of the link must belong to the user, not only the link row
+create policy expense_tags_insert_policy_authenticated on expense_tags
+  for insert
+  to authenticated
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from expenses e where e.id = expense_id and e.user_id = auth.uid())
+    and exists (select 1 from tags t where t.id = tag_id and t.user_id = auth.uid())
+  );
+
+-- RLS Policy: Users can untag their own expenses (authenticated)
+-- Rationale: Users can only remove links they own
+create policy expense_tags_delete_policy_authenticated on expense_tags
+  for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+-- ============================================================================
+-- 3. SET EXPENSE TAGS
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Replace the tags of one of the caller's expenses
+-- ----------------------------------------------------------------------------
+-- Arguments:
+--   - target_expense_id: Expense to tag
+--   - tag_names: The complete list of tags; missing tags are created, tags not
+--     in the list are removed from the expense, an empty list removes all
+-- Returns: The expense's tag names after the change, alphabetically
+-- Raises: 'Expense not found' for missing, deleted or foreign expenses
+-- Security: SECURITY INVOKER - all reads and writes go through the caller's RLS
+-- ----------------------------------------------------------------------------
+
+create or replace function set_expense_tags(target_expense_id uuid, tag_names text[])
+returns text[] as $$
+declare
+  v_names text[];
+begin
+  if not exists (
+    select 1 from expenses
+    where id = target_expense_id and user_id = auth.uid() and deleted_at is null
+  ) then
+    raise exception 'Expense not found';
+  end if;
+
+  select coalesce(array_agg(distinct lower(btrim(n))), '{}')
+  into v_names
+  from unnest(tag_names) as n
+  where btrim(n) <> '';
+
+  insert into tags (user_id, name)
+  select auth.uid(), n
+  from unnest(v_names) as n
+  on conflict (user_id, name) do nothing;
+
+  delete from expense_tags et
+  using tags t
+  where et.expense_id = target_expense_id
+    and t.id = et.tag_id
+    and not (t.name = any(v_names));
+
+  insert into expense_tags (expense_id, tag_id, user_id)
+  select target_expense_id, t.id, auth.uid()
+  from tags t
+  where t.user_id = auth.uid() and t.name = any(v_names)
+  on conflict (expense_id, tag_id) do nothing;
+
+  return array(select n from unnest(v_names) as n order by n);
+end;
+$$ language plpgsql security invoker;
+
+-- ============================================================================
+-- 4. TAG TOTALS
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Spending per tag for a range of months
+-- ----------------------------------------------------------------------------
+-- Arguments:
+--   - from_month, to_month: First and last month of the range ('YYYY-MM')
+-- Returns: One row per tag used in the range, largest total first
+-- ----------------------------------------------------------------------------
+
+create or replace function report_tag_totals(from_month varchar, to_month varchar)
+returns table (
+  tag_id uuid,
+  tag_name text,
+  total numeric,
+  expense_count bigint
+) as $$
+  select t.id, t.name::text, sum(e.amount), count(*)
+  from expense_tags et
+  join tags t on t.id = et.tag_id
+  join expenses e on e.id = et.expense_id
+  where et.user_id = auth.uid()
+    and e.deleted_at is null
+    and e.year_month between from_month and to_month
+  group by t.id, t.name
+  order by sum(e.amount) desc, t.name;
+$$ language sql stable security invoker;
+
+-- ============================================================================
+-- 5. ACCOUNT DELETION
+-- ============================================================================
+
+create or replace function delete_user_account(target_user_id uuid)
+returns void as $$
+begin
+  -- Delete in order to respect foreign key constraints
+
+  -- 1. Delete stash transactions (will be cascaded by FK, but explicit for clarity)
+  delete from stash_transactions where user_id = target_user_id;
+
+  -- 2. Delete stashes (will cascade to transactions via FK)
+  delete from stashes where user_id = target_user_id;
+
+  -- 3. Delete exchange rates
+  delete from exchange_rates where user_id = target_user_id;
+
+  -- 4. Delete expense tags (would be cascaded by expenses and tags, but explicit for clarity)
+  delete from expense_tags where user_id = target_user_id;
+  delete from tags where user_id = target_user_id;
+
+  -- 5. Delete expenses
+  delete from expenses where user_id = target_user_id;
+
+  -- 6. Delete recurring expense definitions
+  delete from recurring_expenses where user_id = target_user_id;
+
+  -- 7. Delete category allocations (would be cascaded by month_budget, but explicit for clarity)
+  delete from month_budget_categories where user_id = target_user_id;
+
+  -- 8. Delete month budgets
+  delete from month_budget where user_id = target_user_id;
+
+  -- 9. Delete budget templates and their allocations
+  delete from budget_template_categories where user_id = target_user_id;
+  delete from budget_templates where user_id = target_user_id;
+
+  -- 10. Delete user-defined expense categories (after everything referencing them)
+  delete from expense_categories where user_id = target_user_id;
+
+  -- Note: Auth user deletion handled separately via Supabase Auth API
+  -- This function only cleans up application data
+
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
@@ -0,0 +1,535 @@
+-- ============================================================================
+-- Migration: Split expenses
+-- Description: One expense (e.g. a supermarket receipt) divided into several
+--              category lines whose amounts add up to the expense amount
+-- Created: 2025-11-28 10:00:00 UTC
+--
+-- Changes:
+--   - New table expense_splits (RLS), one line per expense and category
+--   - set_expense_splits() replaces the lines of an expense atomically
+--   - Changing the amount of a split expense rescales its lines; giving it a
+--     single category again removes them
+--   - category_totals(), report_spending_groups() and report_category_trends()
+--     count each split line in its own category
+--   - merge_expense_categories() and delete_user_account() handle the new table
+--
+-- Notes:
+--   - A split expense keeps one row in expenses (so it stays one entry in lists,
+--     month totals and the month_budget balance); its category_id is null and
+--     the lines carry the categories
+--   - Expense counts per category count a split expense once in each of its
+--     categories
+-- ============================================================================
+
+-- ============================================================================
+-- 1. EXPENSE SPLITS TABLE
+-- ============================================================================
+
+create table if not exists expense_splits (
+  id uuid primary key default gen_random_uuid(),
+  expense_id uuid not null references expenses(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  category_id uuid null references expense_categories(id) on delete no action,
+  amount numeric(12,2) not null,
+  created_at timestamptz not null default now(),
+
+  constraint expense_splits_amount_positive check (amount > 0),
+  constraint expense_splits_expense_category_unique unique (expense_id, category_id)
+);
+
+-- Index: Optimize loading the lines of an expense
+create index idx_expense_splits_expense on expense_splits(expense_id);
+
+-- Apply category ownership check to split lines (same rule as expenses)
+create trigger trigger_validate_expense_split_category
+  before insert or update of category_id on expense_splits
+  for each row
+  execute function validate_expense_category();
+
+-- Enable RLS for expense_splits
+alter table expense_splits enable row level security;
+
+-- RLS Policy: Users can view the split lines of their own expenses (authenticated)
+-- Rationale: Split lines are part of the expense and just as private
+create policy expense_splits_select_policy_authenticated on expense_splits
+  for select
+  to authenticated
+  using (user_id = auth.uid());
+
+-- RLS Policy: Users can split their own expenses (authenticated)
+-- Rationale: The line and the expense it belongs to must both be the user's
+create policy expense_splits_insert_policy_authenticated on expense_splits
+  for insert
+  to authenticated
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from expenses e where e.id = expense_id and e.user_id = auth.uid())
+  );
+
+-- RLS Policy: Users can update the split lines of their own expenses (authenticated)
+-- Rationale: Needed to rescale lines when the expense amount changes and to merge categories
+create policy expense_splits_update_policy_authenticated on expense_splits
+  for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- RLS Policy: Users can remove the split lines of their own expenses (authenticated)
+-- Rationale: Lines are replaced as a whole by set_expense_splits()
+create policy expense_splits_delete_policy_authenticated on expense_splits
+  for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+-- ============================================================================
+-- 2. SET EXPENSE SPLITS
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Replace the split lines of one of the caller's expenses
+-- ----------------------------------------------------------------------------
+-- Purpose: Save the whole list in a single transaction, so a rejected list
+--          leaves the previous lines intact
+-- Arguments:
+--   - target_expense_id: Expense to split
+--   - lines: jsonb array of { "category_id": uuid | null, "amount": number };
+--     an empty array turns the expense back into an uncategorized single line
+-- Raises:
+--   - 'Expense not found' for missing, deleted or foreign expenses
+--   - 'A split needs at least 2 lines' for a single line
+--   - 'Split amounts must add up to the expense amount'
+-- Notes: Splitting clears the expense's own category_id
+-- Security: SECURITY INVOKER - all reads and writes go through the caller's RLS
+-- ----------------------------------------------------------------------------
+
+create or replace function set_expense_splits(target_expense_id uuid, lines jsonb)
+returns void as $$
+declare
+  v_amount numeric(12,2);
+begin
+  select amount into v_amount
+  from expenses
+  where id = target_expense_id and user_id = auth.uid() and deleted_at is null;
+
+  if not found then
+    raise exception 'Expense not found';
+  end if;
+
+  if jsonb_array_length(lines) = 1 then
+    raise exception 'A split needs at least 2 lines';
+  end if;
+
+  if jsonb_array_length(lines) > 0 and (
+    select sum(l.amount) from jsonb_to_recordset(lines) as l(amount numeric)
+  ) <> v_amount then
+    raise exception 'Split amounts must add up to the expense amount';
+  end if;
+
+  delete from expense_splits
+  where expense_id = target_expense_id;
+
+  if jsonb_array_length(lines) > 0 then
+    update expenses
+    set category_id = null
+    where id = target_expense_id and category_id is not null;
+
+    insert into expense_splits (expense_id, user_id, category_id, amount)
+    select target_expense_id, auth.uid(), l.category_id, l.amount
+    from jsonb_to_recordset(lines) as l(category_id uuid, amount numeric);
+  end if;
+end;
+$$ language plpgsql security invoker;
+
+-- ----------------------------------------------------------------------------
+-- Function: Keep split lines consistent with their expense
+-- ----------------------------------------------------------------------------
+-- Purpose:
+--   - A new amount rescales the lines proportionally; the rounding remainder
+--     goes to the largest line so the lines still add up to the amount
+--   - A category assigned to the expense itself replaces its lines
+-- Security: SECURITY INVOKER - runs with the rights of the user editing the expense
+-- ----------------------------------------------------------------------------
+
+create or replace function sync_expense_splits()
+returns trigger as $$
+begin
+  if new.category_id is not null then
+    delete from expense_splits where expense_id = new.id;
+    return new;
+  end if;
+
+  if new.amount is distinct from old.amount
+    and exists (select 1 from expense_splits where expense_id = new.id) then
+    update expense_splits
+    set amount = round(amount * new.amount / old.amount, 2)
+    where expense_id = new.id;
+
+    update expense_splits
+    set amount = amount + new.amount - (select sum(amount) from expense_splits where expense_id = new.id)
+    where id = (
+      select id from expense_splits
+      where expense_id = new.id
+      order by amount desc, id
+      limit 1
+    );
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security invoker;
+
+-- Apply trigger to expenses
+create trigger trigger_sync_expense_splits
+  after update of amount, category_id on expenses
+  for each row
+  execute function sync_expense_splits();
+
+-- ============================================================================
+-- 3. CATEGORY TOTALS
+-- ============================================================================
+-- Purpose: Count split lines in their own category. Each expense contributes
+--          its split lines when it has any, otherwise itself:
+--            from expenses e left join expense_splits s on s.expense_id = e.id
+--          with the line's category and amount taking precedence.
+-- ============================================================================
+
+create or replace function category_totals(target_year_month varchar)
+returns table (
+  category_id uuid,
+  total numeric,
+  expense_count bigint
+) as $$
+  select
+    case when s.id is null then e.category_id else s.category_id end,
+    sum(coalesce(s.amount, e.amount)),
+    count(distinct e.id)
+  from expenses e
+  left join expense_splits s on s.expense_id = e.id
+  where e.user_id = auth.uid()
+    and e.deleted_at is null
+    and e.year_month = target_year_month
+  group by 1
+  order by 2 desc;
+$$ language sql stable security invoker;
+
+-- ============================================================================
+-- 4. GROUPED TOTALS
+-- ============================================================================
+
+create or replace function report_spending_groups(from_month varchar, to_month varchar, group_by varchar)
+returns table (
+  group_key text,
+  label text,
+  color text,
+  total numeric,
+  expense_count bigint
+) as $$
+declare
+  v_from date := to_date(from_month || '-01', 'YYYY-MM-DD');
+  v_to date := (to_date(to_month || '-01', 'YYYY-MM-DD') + interval '1 month - 1 day')::date;
+begin
+  if group_by = 'category' then
+    return query
+      with lines as (
+        select
+          case when s.id is null then e.category_id else s.category_id end as category_id,
+          coalesce(s.amount, e.amount) as amount,
+          e.id as expense_id
+        from expenses e
+        left join expense_splits s on s.expense_id = e.id
+        where e.user_id = auth.uid()
+          and e.deleted_at is null
+          and e.year_month between from_month and to_month
+      )
+      select
+        coalesce(lines.category_id::text, 'uncategorized'),
+        coalesce(c.display_name, 'Uncategorized')::text,
+        c.color::text,
+        sum(lines.amount),
+        count(distinct lines.expense_id)
+      from lines
+      left join expense_categories c on c.id = lines.category_id
+      group by lines.category_id, c.display_name, c.color
+      order by sum(lines.amount) desc;
+
+  elsif group_by = 'month' then
+    return query
+      select
+        to_char(m.month_start, 'YYYY-MM'),
+        to_char(m.month_start, 'YYYY-MM'),
+        null::text,
+        coalesce(sum(e.amount), 0),
+        count(e.id)
+      from generate_series(v_from, v_to, interval '1 month') as m(month_start)
+      left join expenses e
+        on e.user_id = auth.uid()
+        and e.deleted_at is null
+        and e.year_month = to_char(m.month_start, 'YYYY-MM')
+      group by m.month_start
+      order by m.month_start;
+
+  elsif group_by = 'week' then
+    -- Weeks start on Monday; the first and last week may reach outside the range,
+    -- but only expenses inside the range are counted
+    return query
+      select
+        to_char(w.week_start, 'YYYY-MM-DD'),
+        to_char(w.week_start, 'YYYY-MM-DD'),
+        null::text,
+        coalesce(sum(e.amount), 0),
+        count(e.id)
+      from generate_series(date_trunc('week', v_from), v_to, interval '1 week') as w(week_start)
+      left join expenses e
+        on e.user_id = auth.uid()
+        and e.deleted_at is null
+        and e.expense_date between v_from and v_to
+        and date_trunc('week', e.expense_date) = w.week_start
+      group by w.week_start
+      order by w.week_start;
+
+  else
+    raise exception 'Unknown group_by: %', group_by using errcode = 'invalid_parameter_value';
+  end if;
+end;
+$$ language plpgsql stable security invoker;
+
+-- ============================================================================
+-- 5. CATEGORY TRENDS
+-- ============================================================================
+
+create or replace function report_category_trends(from_month varchar, to_month varchar)
+returns table (
+  category_key text,
+  category_name text,
+  category_color text,
+  year_month text,
+  total numeric,
+  previous_total numeric,
+  change_amount numeric,
+  change_percent numeric
+) as $$
+  with months as (
+    select to_char(m, 'YYYY-MM') as year_month
+    from generate_series(
+      to_date(from_month || '-01', 'YYYY-MM-DD') - interval '1 month',
+      to_date(to_month || '-01', 'YYYY-MM-DD'),
+      interval '1 month'
+    ) as m
+  ),
+  monthly as (
+    select
+      case when s.id is null then e.category_id else s.category_id end as category_id,
+      e.year_month,
+      sum(coalesce(s.amount, e.amount)) as total
+    from expenses e
+    left join expense_splits s on s.expense_id = e.id
+    where e.user_id = auth.uid()
+      and e.deleted_at is null
+      and e.year_month between (select min(year_month) from months) and to_month
+    group by 1, e.year_month
+  ),
+  categories as (
+    select distinct category_id
+    from monthly
+    where year_month between from_month and to_month
+  ),
+  series as (
+    select
+      cat.category_id,
+      months.year_month,
+      coalesce(monthly.total, 0) as total,
+      lag(coalesce(monthly.total, 0)) over (partition by cat.category_id order by months.year_month) as previous_total
+    from categories cat
+    cross join months
+    left join monthly
+      on monthly.category_id is not distinct from cat.category_id
+      and monthly.year_month = months.year_month
+  )
+  select
+    coalesce(series.category_id::text, 'uncategorized'),
+    coalesce(c.display_name, 'Uncategorized')::text,
+    c.color::text,
+    series.year_month,
+    series.total,
+    series.previous_total,
+    series.total - series.previous_total,
+    case
+      when series.previous_total = 0 then null
+      else round((series.total - series.previous_total) / series.previous_total * 100, 1)
+    end
+  from series
+  left join expense_categories c on c.id = series.category_id
+  where series.year_month >= from_month
+  order by coalesce(c.display_name, 'Uncategorized'), series.year_month;
+$$ language sql stable security invoker;
+
+-- ============================================================================
+-- 6. MERGE CATEGORIES
+-- ============================================================================
+-- Purpose: Also move split lines when merging categories. When an expense
+--          already has a line for the target, the source amount is added to it.
+-- ============================================================================
+
+create or replace function merge_expense_categories(source_category_id uuid, target_category_id uuid)
+returns integer as $$
+declare
+  v_moved integer;
+begin
+  if source_category_id = target_category_id then
+    raise exception 'Cannot merge a category into itself';
+  end if;
+
+  if not exists (
+    select 1 from expense_categories
+    where id = source_category_id and user_id = auth.uid()
+  ) then
+    raise exception 'Source category not found';
+  end if;
+
+  if not exists (
+    select 1 from expense_categories
+    where id = target_category_id and (user_id is null or user_id = auth.uid())
+  ) then
+    raise exception 'Target category not found';
+  end if;
+
+  update expenses
+  set category_id = target_category_id
+  where category_id = source_category_id
+    and user_id = auth.uid();
+
+  get diagnostics v_moved = row_count;
+
+  update recurring_expenses
+  set category_id = target_category_id
+  where category_id = source_category_id
+    and user_id = auth.uid();
+
+  -- Fold source allocations into existing target allocations of the same month
+  update month_budget_categories t
+  set amount = t.amount + s.amount
+  from month_budget_categories s
+  where s.category_id = source_category_id
+    and s.user_id = auth.uid()
+    and t.category_id = target_category_id
+    and t.month_budget_id = s.month_budget_id;
+
+  delete from month_budget_categories s
+  where s.category_id = source_category_id
+    and s.user_id = auth.uid()
+    and exists (
+      select 1 from month_budget_categories t
+      where t.month_budget_id = s.month_budget_id
+        and t.category_id = target_category_id
+    );
+
+  update month_budget_categories
+  set category_id = target_category_id
+  where category_id = source_category_id
+    and user_id = auth.uid();
+
+  -- Same for template allocations
+  update budget_template_categories t
+  set amount = t.amount + s.amount
+  from budget_template_categories s
+  where s.category_id = source_category_id
+    and s.user_id = auth.uid()
+    and t.category_id = target_category_id
+    and t.template_id = s.template_id;
+
+  delete from budget_template_categories s
+  where s.category_id = source_category_id
+    and s.user_id = auth.uid()
+    and exists (
+      select 1 from budget_template_categories t
+      where t.template_id = s.template_id
+        and t.category_id = target_category_id
+    );
+
+  update budget_template_categories
+  set category_id = target_category_id
+  where category_id = source_category_id
+    and user_id = auth.uid();
+
+  -- Same for split lines: a line for the source joins the expense's line for the target
+  update expense_splits t
+  set amount = t.amount + s.amount
+  from expense_splits s
+  where s.category_id = source_category_id
+    and s.user_id = auth.uid()
+    and t.category_id = target_category_id
+    and t.expense_id = s.expense_id;
+
+  delete from expense_splits s
+  where s.category_id = source_category_id
+    and s.user_id = auth.uid()
+    and exists (
+      select 1 from expense_splits t
+      where t.expense_id = s.expense_id
+        and t.category_id = target_category_id
+    );
+
+  update expense_splits
+  set category_id = target_category_id
+  where category_id = source_category_id
+    and user_id = auth.uid();
+
+  delete from expense_categories where id = source_category_id;
+
+  return v_moved;
+end;
+$$ language plpgsql security invoker;
+
+-- ============================================================================
+-- 7. ACCOUNT DELETION
+-- ============================================================================
+
+create or replace function delete_user_account(target_user_id uuid)
+returns void as $$
+begin
+  -- Delete in order to respect foreign key constraints
+
+  -- 1. Delete stash transactions (will be cascaded by FK, but explicit for clarity)
+  delete from stash_transactions where user_id = target_user_id;
+
+  -- 2. Delete stashes (will cascade to transactions via FK)
+  delete from stashes where user_id = target_user_id;
+
+  -- 3. Delete exchange rates
+  delete from exchange_rates where user_id = target_user_id;
+
+  -- 4. Delete expense tags (would be cascaded by expenses and tags, but explicit for clarity)
+  delete from expense_tags where user_id = target_user_id;
+  delete from tags where user_id = target_user_id;
+
+  -- 5. Delete expense split lines (would be cascaded by expenses, but explicit for clarity)
+  delete from expense_splits where user_id = target_user_id;
+
+  -- 6. Delete expenses
+  delete from expenses where user_id = target_user_id;
+
+  -- 7. Delete recurring expense definitions
+  delete from recurring_expenses where user_id = target_user_id;
+
+  -- 8. Delete category allocations (would be cascaded by month_budget, but explicit for clarity)
+  delete from month_budget_categories where user_id = target_user_id;
+
+  -- 9. Delete month budgets
+  delete from month_budget where user_id = target_user_id;
+
+  -- 10. Delete budget templates and their allocations
+  delete from budget_template_categories where user_id = target_user_id;
+  delete from budget_templates where user_id = target_user_id;
+
+  -- 11. Delete user-defined expense categories (after everything referencing them)
+  delete from expense_categories where user_id = target_user_id;
+
+  -- Note: Auth user deletion handled separately via Supabase Auth API
+  -- This function only cleans up application data
+
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
@@ -0,0 +1,101 @@
+-- ============================================================================
+-- Migration: Bulk expense operations
+-- Description: Recategorize, move or soft delete many expenses at once, for
+--              multi-select in the expense list
+-- Created: 2025-11-30 10:00:00 UTC
+--
+-- Changes:
+--   - bulk_update_expenses(): sets the category and/or date of many expenses
+--   - bulk_soft_delete_expenses(): soft deletes many expenses
+--
+-- Notes:
+--   - Each function is a single statement, so the change is applied to all
+--     found expenses or (on error) to none
+--   - IDs that don't exist, are already deleted or belong to another user are
+--     reported as 'not_found' instead of failing the whole request
+--   - The existing row triggers still run for every changed expense (month
+--     budget balances, category ownership, split lines)
+-- ============================================================================
+
+-- ============================================================================
+-- 1. BULK UPDATE
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Set the category and/or date of many of the caller's expenses
+-- ----------------------------------------------------------------------------
+-- Arguments:
+--   - expense_ids: Expenses to change
+--   - update_category: Whether to set the category (new_category_id may be
+--     null to make the expenses uncategorized)
+--   - new_category_id: The category to set when update_category is true
+--   - new_expense_date: The date to move the expenses to, null to keep dates
+-- Returns: One row per given ID, in order, with status 'updated' or 'not_found'
+-- Raises:
+--   - foreign_key_violation (23503) for a category the caller can't use
+--   - unique_violation (23505) when a recurring expense would get two
+--     occurrences in the same month
+-- Security: SECURITY INVOKER - all reads and writes go through the caller's RLS
+-- ----------------------------------------------------------------------------
+
+create or replace function bulk_update_expenses(
+  expense_ids uuid[],
+  update_category boolean,
+  new_category_id uuid,
+  new_expense_date date
+)
+returns table (
+  expense_id uuid,
+  status text
+) as $$
+  with updated as (
+    update expenses e
+    set
+      category_id = case when update_category then new_category_id else e.category_id end,
+      expense_date = coalesce(new_expense_date, e.expense_date)
+    where e.id = any(expense_ids)
+      and e.user_id = auth.uid()
+      and e.deleted_at is null
+    returning e.id
+  )
+  select ids.id, case when updated.id is null then 'not_found' else 'updated' end
+  from unnest(expense_ids) with ordinality as ids(id, position)
+  left join updated on updated.id = ids.id
+  order by ids.position;
+$$ language sql volatile security invoker;
+
+-- ============================================================================
+-- 2. BULK SOFT DELETE
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Soft delete many of the caller's expenses
+-- ----------------------------------------------------------------------------
+-- Arguments:
+--   - expense_ids: Expenses to delete
+-- Returns: One row per given ID, in order, with status 'deleted' or 'not_found'
+-- Security: SECURITY INVOKER - all reads and writes go through the caller's RLS
+-- ----------------------------------------------------------------------------
+
+create or replace function bulk_soft_delete_expenses(expense_ids uuid[])
+returns table (
+  expense_id uuid,
+  status text
+) as $$
+  with deleted as (
+    update expenses e
+    set deleted_at = now()
+    where e.id = any(expense_ids)
+      and e.user_id = auth.uid()
+      and e.deleted_at is null
+    returning e.id
+  )
+  select ids.id, case when deleted.id is null then 'not_found' else 'deleted' end
+  from unnest(expense_ids) with ordinality as ids(id, position)
+  left join deleted on deleted.id = ids.id
+  order by ids.position;
+$$ language sql volatile security invoker;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
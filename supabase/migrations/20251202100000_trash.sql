@@ -0,0 +1,287 @@
+-- ============================================================================
+-- Migration: Trash
+-- Description: Restore soft-deleted stashes and stash transactions, and purge
+--              soft-deleted records once they have been in the trash too long
+-- Created: 2025-12-02 10:00:00 UTC
+--
+-- Changes:
+--   - update_stash_balance() applies a transaction again when it is restored
+--     (deleted_at set back to null), with the usual overdraft check
+--   - restore_stash(): restores a stash together with the transactions that
+--     were deleted with it
+--   - restore_stash_transaction(): restores a transaction, or both sides of a
+--     transfer
+--   - purge_deleted_items(): hard deletes the caller's records that were
+--     soft-deleted longer ago than the retention period
+--
+-- Notes:
+--   - Expenses are restored with a plain update: update_month_budget_balance()
+--     already recalculates the month of any expense whose deleted_at is null
+--     after the update
+--   - Restoring a stash whose name was taken by another active stash fails on
+--     stashes_user_name_unique_idx (unique_violation)
+--   - Deleted occurrences of recurring expenses are never purged: the unique
+--     (recurring_expense_id, scheduled_month) constraint (see
+--     20251216120000_recurring_scheduled_month.sql) relies on them to keep the
+--     occurrence from being generated again
+--   - Purged transactions no longer show up in balance history
+-- ============================================================================
+
+-- ============================================================================
+-- 1. STASH BALANCE TRIGGER
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Purpose: Maintain stash current_balance based on transactions
+-- Behavior:
+--   - Deposits add their amount, withdrawals subtract it, adjustments add
+--     their (signed) amount
+--   - INSERT: Apply the transaction
+--   - UPDATE: Reverse old transaction and apply new one; soft delete reverses
+--     the transaction, restore applies it again
+--   - DELETE: Reverse transaction if not soft-deleted
+--   - Prevents negative balances for withdrawals and downward adjustments
+-- Security: SECURITY DEFINER allows trigger to update stash despite RLS
+-- ----------------------------------------------------------------------------
+
+create or replace function update_stash_balance()
+returns trigger as $$
+begin
+  if tg_op = 'INSERT' then
+    update stashes
+    set current_balance = current_balance + stash_transaction_balance_change(new.transaction_type, new.amount),
+        updated_at = now()
+    where id = new.stash_id;
+
+    -- Check if balance would go negative (prevent overdraft)
+    if (select current_balance from stashes where id = new.stash_id) < 0 then
+      raise exception 'Insufficient balance in stash';
+    end if;
+    return new;
+
+  elsif tg_op = 'UPDATE' then
+    -- Only process if not soft-deleted and amount/type changed
+    if old.deleted_at is null and new.deleted_at is null then
+      -- Reverse old transaction
+      update stashes
+      set current_balance = current_balance - stash_transaction_balance_change(old.transaction_type, old.amount)
+      where id = old.stash_id;
+
+      -- Apply new transaction
+      update stashes
+      set current_balance = current_balance + stash_transaction_balance_change(new.transaction_type, new.amount)
+      where id = new.stash_id;
+
+      -- Check balance (prevent negative balance)
+      if (select current_balance from stashes where id = new.stash_id) < 0 then
+        raise exception 'Insufficient balance in stash';
+      end if;
+    elsif old.deleted_at is null and new.deleted_at is not null then
+      -- Soft delete: reverse the transaction
+      update stashes
+      set current_balance = current_balance - stash_transaction_balance_change(old.transaction_type, old.amount)
+      where id = old.stash_id;
+    elsif old.deleted_at is not null and new.deleted_at is null then
+      -- Restore: apply the transaction again
+      update stashes
+      set current_balance = current_balance + stash_transaction_balance_change(new.transaction_type, new.amount)
+      where id = new.stash_id;
+
+      -- Check balance (a restored withdrawal must not overdraw the stash)
+      if (select current_balance from stashes where id = new.stash_id) < 0 then
+        raise exception 'Insufficient balance in stash';
+      end if;
+    end if;
+
+    update stashes set updated_at = now() where id = new.stash_id;
+    return new;
+
+  elsif tg_op = 'DELETE' then
+    -- Hard delete: reverse the transaction if it wasn't soft-deleted
+    if old.deleted_at is null then
+      update stashes
+      set current_balance = current_balance - stash_transaction_balance_change(old.transaction_type, old.amount),
+          updated_at = now()
+      where id = old.stash_id;
+    end if;
+    return old;
+  end if;
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- 2. RESTORE STASH
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Restore one of the caller's soft-deleted stashes
+-- ----------------------------------------------------------------------------
+-- Arguments:
+--   - target_stash_id: Stash to restore
+-- Returns: The number of transactions restored with the stash
+-- Raises:
+--   - 'Stash not found' for missing, active or foreign stashes
+--   - unique_violation (23505) when an active stash already has the name
+-- Notes:
+--   - Only the transactions deleted together with the stash (same deleted_at,
+--     see cascade_stash_soft_delete) come back; transactions deleted before
+--     the stash stay in the trash
+--   - Transactions that add to the balance are restored first, so the balance
+--     never dips below zero on the way back to its old value
+-- Security: SECURITY INVOKER - all reads and writes go through the caller's RLS
+-- ----------------------------------------------------------------------------
+
+create or replace function restore_stash(target_stash_id uuid)
+returns integer as $$
+declare
+  v_deleted_at timestamptz;
+  v_transaction_id uuid;
+  v_restored integer := 0;
+begin
+  select deleted_at into v_deleted_at
+  from stashes
+  where id = target_stash_id and user_id = auth.uid() and deleted_at is not null
+  for update;
+
+  if v_deleted_at is null then
+    raise exception 'Stash not found';
+  end if;
+
+  update stashes
+  set deleted_at = null,
+      updated_at = now()
+  where id = target_stash_id;
+
+  for v_transaction_id in
+    select id
+    from stash_transactions
+    where stash_id = target_stash_id and deleted_at = v_deleted_at
+    order by stash_transaction_balance_change(transaction_type, amount) desc, created_at
+  loop
+    update stash_transactions set deleted_at = null where id = v_transaction_id;
+    v_restored := v_restored + 1;
+  end loop;
+
+  return v_restored;
+end;
+$$ language plpgsql security invoker;
+
+-- ============================================================================
+-- 3. RESTORE STASH TRANSACTION
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Restore one of the caller's soft-deleted stash transactions
+-- ----------------------------------------------------------------------------
+-- Arguments:
+--   - target_stash_id: Stash the transaction belongs to
+--   - target_transaction_id: Transaction to restore; for a transfer, both
+--     sides are restored
+-- Returns: The number of transaction rows restored (2 for a transfer)
+-- Raises:
+--   - 'Transaction not found' for missing, active or foreign transactions
+--   - 'Stash is deleted' when the stash (or the other stash of a transfer)
+--     is in the trash; it has to be restored first
+--   - 'Insufficient balance in stash' when a restored withdrawal would
+--     overdraw its stash
+-- Security: SECURITY INVOKER - all reads and writes go through the caller's RLS
+-- ----------------------------------------------------------------------------
+
+create or replace function restore_stash_transaction(target_stash_id uuid, target_transaction_id uuid)
+returns integer as $$
+declare
+  v_transfer_id uuid;
+  v_found boolean;
+  v_restored integer;
+begin
+  select true, transfer_id into v_found, v_transfer_id
+  from stash_transactions
+  where id = target_transaction_id
+    and stash_id = target_stash_id
+    and user_id = auth.uid()
+    and deleted_at is not null;
+
+  if v_found is null then
+    raise exception 'Transaction not found';
+  end if;
+
+  if exists (
+    select 1
+    from stash_transactions t
+    join stashes s on s.id = t.stash_id
+    where t.user_id = auth.uid()
+      and (t.id = target_transaction_id or t.transfer_id = v_transfer_id)
+      and s.deleted_at is not null
+  ) then
+    raise exception 'Stash is deleted';
+  end if;
+
+  update stash_transactions
+  set deleted_at = null
+  where user_id = auth.uid()
+    and deleted_at is not null
+    and (id = target_transaction_id or transfer_id = v_transfer_id);
+
+  get diagnostics v_restored = row_count;
+  return v_restored;
+end;
+$$ language plpgsql security invoker;
+
+-- ============================================================================
+-- 4. PURGE
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Hard delete the caller's records that have been in the trash
+--           for longer than the retention period
+-- ----------------------------------------------------------------------------
+-- Arguments:
+--   - retention_days: How many days soft-deleted records are kept (>= 1)
+-- Returns: The number of stashes, transactions and expenses deleted
+--          (transactions removed along with their stash are not counted)
+-- Raises:
+--   - invalid_parameter_value when retention_days is below 1
+-- Notes:
+--   - Called through POST /api/trash/purge when the trash page is opened, so
+--     each user's trash is cleaned up without a scheduled job. Never called
+--     from a GET request, which must not change data
+-- Security: SECURITY INVOKER - all reads and writes go through the caller's RLS
+-- ----------------------------------------------------------------------------
+
+create or replace function purge_deleted_items(retention_days integer)
+returns integer as $$
+declare
+  v_cutoff timestamptz;
+  v_count integer;
+  v_purged integer := 0;
+begin
+  if retention_days is null or retention_days < 1 then
+    raise exception 'Retention must be at least one day' using errcode = 'invalid_parameter_value';
+  end if;
+
+  v_cutoff := now() - make_interval(days => retention_days);
+
+  -- Deleting a stash cascades to all of its transactions
+  delete from stashes
+  where user_id = auth.uid() and deleted_at < v_cutoff;
+  get diagnostics v_count = row_count;
+  v_purged := v_purged + v_count;
+
+  delete from stash_transactions
+  where user_id = auth.uid() and deleted_at < v_cutoff;
+  get diagnostics v_count = row_count;
+  v_purged := v_purged + v_count;
+
+  -- Tags and split lines cascade with the expense
+  delete from expenses
+  where user_id = auth.uid() and deleted_at < v_cutoff and recurring_expense_id is null;
+  get diagnostics v_count = row_count;
+  v_purged := v_purged + v_count;
+
+  return v_purged;
+end;
+$$ language plpgsql security invoker;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
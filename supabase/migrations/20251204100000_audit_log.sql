@@ -0,0 +1,228 @@
+-- ============================================================================
+-- Migration: Audit log
+-- Description: Append-only history of every change to expenses, month budgets,
+--              stashes and stash transactions
+-- Created: 2025-12-04 10:00:00 UTC
+--
+-- Changes:
+--   - New table audit_log (RLS, read-only for its owner)
+--   - record_audit_log() trigger on expenses, month_budget, stashes and
+--     stash_transactions
+--   - delete_user_account() also removes the user's audit log
+--
+-- Notes:
+--   - Rows are written by the triggers only (SECURITY DEFINER); there are no
+--     insert, update or delete policies, and updates are rejected outright
+--   - Balance changes made by other triggers (update_stash_balance,
+--     update_month_budget_balance) are logged too, which is what makes a
+--     wrong current_balance traceable
+--   - Updates that only touch updated_at are not logged
+--   - old_values/new_values hold the whole row (without user_id); the
+--     application works out which columns changed
+-- ============================================================================
+
+-- ============================================================================
+-- 1. AUDIT LOG TABLE
+-- ============================================================================
+
+create table if not exists audit_log (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  actor_id uuid null,
+  entity_type varchar(20) not null,
+  entity_id uuid not null,
+  operation varchar(20) not null,
+  old_values jsonb null,
+  new_values jsonb null,
+  created_at timestamptz not null default now(),
+
+  constraint audit_log_entity_type_check
+    check (entity_type in ('expense', 'month_budget', 'stash', 'stash_transaction')),
+  constraint audit_log_operation_check
+    check (operation in ('insert', 'update', 'soft_delete', 'restore', 'delete'))
+);
+
+-- Index: Optimize the activity feed (newest first)
+create index idx_audit_log_user_created
+  on audit_log(user_id, created_at desc);
+
+-- Index: Optimize the history of a single record
+create index idx_audit_log_entity
+  on audit_log(entity_type, entity_id, created_at desc);
+
+alter table audit_log enable row level security;
+
+-- RLS Policy: Users can view their own audit log (authenticated)
+-- Rationale: The history of a record belongs to the owner of the record
+create policy audit_log_select_policy_authenticated on audit_log
+  for select
+  to authenticated
+  using (user_id = auth.uid());
+
+-- ----------------------------------------------------------------------------
+-- Function: Reject changes to logged entries
+-- ----------------------------------------------------------------------------
+-- Purpose: Keep the audit log append-only, also for roles that bypass RLS
+-- Notes: Deletes stay possible so account deletion can remove the log
+-- ----------------------------------------------------------------------------
+
+create or replace function prevent_audit_log_update()
+returns trigger as $$
+begin
+  raise exception 'The audit log is append-only';
+end;
+$$ language plpgsql;
+
+create trigger trigger_prevent_audit_log_update
+  before update on audit_log
+  for each row
+  execute function prevent_audit_log_update();
+
+-- ============================================================================
+-- 2. AUDIT TRIGGER
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Record a change to an audited table
+-- ----------------------------------------------------------------------------
+-- Arguments (trigger): entity type stored with the entry
+-- Behavior:
+--   - INSERT: 'insert' with the new row
+--   - UPDATE: 'soft_delete' or 'restore' when deleted_at is set or cleared,
+--     'update' otherwise; skipped when only updated_at changed
+--   - DELETE: 'delete' with the old row
+--   - Skipped while the owner's auth user is being deleted (the entries
+--     would reference a user that no longer exists)
+-- Security: SECURITY DEFINER so entries can be written despite RLS
+-- ----------------------------------------------------------------------------
+
+create or replace function record_audit_log()
+returns trigger as $$
+declare
+  v_old jsonb;
+  v_new jsonb;
+  v_row jsonb;
+  v_operation varchar(20);
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    v_old := to_jsonb(old) - 'user_id';
+  end if;
+
+  if tg_op in ('INSERT', 'UPDATE') then
+    v_new := to_jsonb(new) - 'user_id';
+  end if;
+
+  if tg_op = 'INSERT' then
+    v_operation := 'insert';
+    v_row := to_jsonb(new);
+  elsif tg_op = 'DELETE' then
+    v_operation := 'delete';
+    v_row := to_jsonb(old);
+  else
+    if (v_old - 'updated_at') = (v_new - 'updated_at') then
+      return null;
+    end if;
+
+    v_operation := case
+      when v_old ->> 'deleted_at' is null and v_new ->> 'deleted_at' is not null then 'soft_delete'
+      when v_old ->> 'deleted_at' is not null and v_new ->> 'deleted_at' is null then 'restore'
+      else 'update'
+    end;
+    v_row := to_jsonb(new);
+  end if;
+
+  if not exists (select 1 from auth.users where id = (v_row ->> 'user_id')::uuid) then
+    return null;
+  end if;
+
+  insert into audit_log (user_id, actor_id, entity_type, entity_id, operation, old_values, new_values)
+  values (
+    (v_row ->> 'user_id')::uuid,
+    auth.uid(),
+    tg_argv[0],
+    (v_row ->> 'id')::uuid,
+    v_operation,
+    v_old,
+    v_new
+  );
+
+  return null;
+end;
+$$ language plpgsql security definer;
+
+create trigger trigger_audit_expenses
+  after insert or update or delete on expenses
+  for each row
+  execute function record_audit_log('expense');
+
+create trigger trigger_audit_month_budget
+  after insert or update or delete on month_budget
+  for each row
+  execute function record_audit_log('month_budget');
+
+create trigger trigger_audit_stashes
+  after insert or update or delete on stashes
+  for each row
+  execute function record_audit_log('stash');
+
+create trigger trigger_audit_stash_transactions
+  after insert or update or delete on stash_transactions
+  for each row
+  execute function record_audit_log('stash_transaction');
+
+-- ============================================================================
+-- 3. ACCOUNT DELETION
+-- ============================================================================
+
+create or replace function delete_user_account(target_user_id uuid)
+returns void as $$
+begin
+  -- Delete in order to respect foreign key constraints
+
+  -- 1. Delete stash transactions (will be cascaded by FK, but explicit for clarity)
+  delete from stash_transactions where user_id = target_user_id;
+
+  -- 2. Delete stashes (will cascade to transactions via FK)
+  delete from stashes where user_id = target_user_id;
+
+  -- 3. Delete exchange rates
+  delete from exchange_rates where user_id = target_user_id;
+
+  -- 4. Delete expense tags (would be cascaded by expenses and tags, but explicit for clarity)
+  delete from expense_tags where user_id = target_user_id;
+  delete from tags where user_id = target_user_id;
+
+  -- 5. Delete expense split lines (would be cascaded by expenses, but explicit for clarity)
+  delete from expense_splits where user_id = target_user_id;
+
+  -- 6. Delete expenses
+  delete from expenses where user_id = target_user_id;
+
+  -- 7. Delete recurring expense definitions
+  delete from recurring_expenses where user_id = target_user_id;
+
+  -- 8. Delete category allocations (would be cascaded by month_budget, but explicit for clarity)
+  delete from month_budget_categories where user_id = target_user_id;
+
+  -- 9. Delete month budgets
+  delete from month_budget where user_id = target_user_id;
+
+  -- 10. Delete budget templates and their allocations
+  delete from budget_template_categories where user_id = target_user_id;
+  delete from budget_templates where user_id = target_user_id;
+
+  -- 11. Delete user-defined expense categories (after everything referencing them)
+  delete from expense_categories where user_id = target_user_id;
+
+  -- 12. Delete the audit log last (the deletes above add entries to it)
+  delete from audit_log where user_id = target_user_id;
+
+  -- Note: Auth user deletion handled separately via Supabase Auth API
+  -- This function only cleans up application data
+
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
@@ -0,0 +1,34 @@
+-- ============================================================================
+-- Migration: Account deletion
+-- Description: Restrict delete_user_account() to the service role
+-- Created: 2025-12-06 10:00:00 UTC
+--
+-- Changes:
+--   - Revoke execute on delete_user_account() from public, anon and authenticated
+--   - Grant execute on delete_user_account() to service_role
+--
+-- Notes:
+--   - delete_user_account() is SECURITY DEFINER and takes the target user as
+--     an argument, so any signed-in user could wipe another user's data with
+--     it; it is now only called by POST /api/auth/delete-account through the
+--     server-only service role client, after the password has been re-checked
+--   - Supabase's default privileges grant execute on new functions to anon
+--     explicitly, so revoking from public alone would leave it callable with
+--     the public anon key
+--   - The auth.users record is removed by the same endpoint through the Auth
+--     admin API once this function has deleted the application data
+-- ============================================================================
+
+-- ============================================================================
+-- 1. PERMISSIONS
+-- ============================================================================
+
+revoke execute on function delete_user_account(uuid) from public;
+revoke execute on function delete_user_account(uuid) from anon;
+revoke execute on function delete_user_account(uuid) from authenticated;
+
+grant execute on function delete_user_account(uuid) to service_role;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
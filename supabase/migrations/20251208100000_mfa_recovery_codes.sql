@@ -0,0 +1,108 @@
+-- ============================================================================
+-- Migration: Two-factor recovery codes
+-- Description: One-time recovery codes for users who enabled TOTP two-factor
+--              authentication
+-- Created: 2025-12-08 10:00:00 UTC
+--
+-- Changes:
+--   - New table mfa_recovery_codes (RLS, read-only for its owner)
+--   - delete_user_account() handles the new table
+--
+-- Notes:
+--   - The TOTP factors themselves live in Supabase Auth (auth.mfa_factors);
+--     this table only holds the fallback codes shown once after enrolment
+--   - Only SHA-256 hashes of the codes are stored
+--   - Rows are written by the server with the service role only: a session
+--     that has not passed the second factor yet (aal1) must not be able to
+--     add a code it knows, or remove codes, through the REST API
+--   - A used code disables two-factor authentication (the factor is removed
+--     through the Auth admin API) together with all remaining codes
+-- ============================================================================
+
+-- ============================================================================
+-- 1. RECOVERY CODES TABLE
+-- ============================================================================
+
+create table if not exists mfa_recovery_codes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  code_hash varchar(64) not null,
+  created_at timestamptz not null default now(),
+
+  constraint mfa_recovery_codes_user_hash_unique unique (user_id, code_hash)
+);
+
+alter table mfa_recovery_codes enable row level security;
+
+-- RLS Policy: Users can view their own recovery codes (authenticated)
+-- Rationale: The settings page shows how many unused codes are left; the
+--            hashes are useless without the codes
+create policy mfa_recovery_codes_select_policy_authenticated on mfa_recovery_codes
+  for select
+  to authenticated
+  using (user_id = auth.uid());
+
+-- ============================================================================
+-- 2. ACCOUNT DELETION
+-- ============================================================================
+
+create or replace function delete_user_account(target_user_id uuid)
+returns void as $$
+begin
+  -- Delete in order to respect foreign key constraints
+
+  -- 1. Delete stash transactions (will be cascaded by FK, but explicit for clarity)
+  delete from stash_transactions where user_id = target_user_id;
+
+  -- 2. Delete stashes (will cascade to transactions via FK)
+  delete from stashes where user_id = target_user_id;
+
+  -- 3. Delete exchange rates
+  delete from exchange_rates where user_id = target_user_id;
+
+  -- 4. Delete expense tags (would be cascaded by expenses and tags, but explicit for clarity)
+  delete from expense_tags where user_id = target_user_id;
+  delete from tags where user_id = target_user_id;
+
+  -- 5. Delete expense split lines (would be cascaded by expenses, but explicit for clarity)
+  delete from expense_splits where user_id = target_user_id;
+
+  -- 6. Delete expenses
+  delete from expenses where user_id = target_user_id;
+
+  -- 7. Delete recurring expense definitions
+  delete from recurring_expenses where user_id = target_user_id;
+
+  -- 8. Delete category allocations (would be cascaded by month_budget, but explicit for clarity)
+  delete from month_budget_categories where user_id = target_user_id;
+
+  -- 9. Delete month budgets
+  delete from month_budget where user_id = target_user_id;
+
+  -- 10. Delete budget templates and their allocations
+  delete from budget_template_categories where user_id = target_user_id;
+  delete from budget_templates where user_id = target_user_id;
+
+  -- 11. Delete user-defined expense categories (after everything referencing them)
+  delete from expense_categories where user_id = target_user_id;
+
+  -- 12. Delete two-factor recovery codes
+  delete from mfa_recovery_codes where user_id = target_user_id;
+
+  -- 13. Delete the audit log last (the deletes above add entries to it)
+  delete from audit_log where user_id = target_user_id;
+
+  -- Note: Auth user deletion handled separately via Supabase Auth API
+  -- This function only cleans up application data
+
+end;
+$$ language plpgsql security definer;
+
+-- Still for the service role only (see 20251206100000_account_deletion.sql)
+revoke execute on function delete_user_account(uuid) from public;
+revoke execute on function delete_user_account(uuid) from anon;
+revoke execute on function delete_user_account(uuid) from authenticated;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
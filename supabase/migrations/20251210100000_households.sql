@@ -0,0 +1,1339 @@
+-- ============================================================================
+-- Migration: Households
+-- Description: Lets several users share month budgets and expenses as one
+--              household that members join by invitation
+-- Created: 2025-12-10 10:00:00 UTC
+--
+-- Changes:
+--   - New tables households, household_members and household_invitations (RLS)
+--   - create_household(), accept_household_invitation() and leave_household()
+--     manage membership; list_household_members() and
+--     list_household_invitations() add the e-mail addresses from auth.users
+--   - month_budget and expenses gain household_id, filled in on insert from
+--     the creator's membership
+--   - RLS on month_budget, expenses, month_budget_categories and
+--     expense_splits checks the budget scope (see in_budget_scope()) instead
+--     of user_id = auth.uid()
+--   - One month budget per month and household, next to one per month and
+--     user for personal budgets
+--   - update_month_budget_balance() and every function that reads or writes
+--     the caller's budgets and expenses work on the budget scope
+--   - stashes gain shared_with_household; shared stashes are readable by the
+--     other members of the owner's household
+--   - delete_user_account() removes the user from their household first and
+--     hands the household's budgets over to the remaining members
+--
+-- Notes:
+--   - A user belongs to at most one household. While they do, their budget
+--     scope is the household: they see and edit the household's budgets and
+--     expenses, and their personal ones are kept aside until they leave
+--   - Creating a household moves the creator's budgets and expenses into it;
+--     joining one leaves the new member's personal data where it is
+--   - Rows keep user_id as the member who added them, so lists can show who
+--     added an expense; it no longer decides who may read or change the row
+--   - When the last member leaves, the household's budgets and expenses
+--     become their personal ones again; a household budget for a month that
+--     already has a personal budget goes to the trash
+--   - Expense categories, tags, recurring expenses, budget templates and
+--     stashes stay personal. Members can use the default categories and
+--     their own on shared expenses; the custom categories of other members
+--     are not visible to them
+--   - Invitations are addressed to an e-mail address and accepted by the
+--     signed-in user with that address
+-- ============================================================================
+
+-- ============================================================================
+-- 1. HOUSEHOLDS TABLES
+-- ============================================================================
+
+create table if not exists households (
+  id uuid primary key default gen_random_uuid(),
+  name varchar(100) not null,
+  created_by uuid null references auth.users(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+
+  constraint households_name_not_blank check (char_length(btrim(name)) >= 1)
+);
+
+-- Members of a household; the unique user_id keeps everyone in one household at most
+create table if not exists household_members (
+  household_id uuid not null references households(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  joined_at timestamptz not null default now(),
+
+  primary key (household_id, user_id),
+  constraint household_members_user_unique unique (user_id)
+);
+
+-- Pending invitations; a row is removed once it is accepted or declined
+create table if not exists household_invitations (
+  id uuid primary key default gen_random_uuid(),
+  household_id uuid not null references households(id) on delete cascade,
+  email varchar(255) not null,
+  invited_by uuid not null references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+
+  constraint household_invitations_email_format check (email = lower(btrim(email)) and position('@' in email) > 1),
+  constraint household_invitations_household_email_unique unique (household_id, email)
+);
+
+-- Index: Optimize looking up the invitations sent to an address
+create index idx_household_invitations_email on household_invitations(email);
+
+-- Apply updated_at trigger to households
+create trigger trigger_households_updated_at
+  before update on households
+  for each row
+  execute function update_updated_at_column();
+
+-- ============================================================================
+-- 2. MEMBERSHIP HELPERS
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Household of the caller
+-- ----------------------------------------------------------------------------
+-- Returns: The caller's household, or null when they are not in one
+-- Security: SECURITY DEFINER so policies on household_members can use it
+--           without recursing into themselves
+-- ----------------------------------------------------------------------------
+
+create or replace function current_household_id()
+returns uuid as $$
+  select household_id from household_members where user_id = auth.uid();
+$$ language sql stable security definer;
+
+-- ----------------------------------------------------------------------------
+-- Function: Whether a user is in the caller's household
+-- ----------------------------------------------------------------------------
+-- Returns: false for the caller themselves and when the caller has no household
+-- Security: SECURITY DEFINER so policies of other tables can see memberships
+-- ----------------------------------------------------------------------------
+
+create or replace function is_household_member(target_user_id uuid)
+returns boolean as $$
+  select exists (
+    select 1
+    from household_members m
+    where m.user_id = target_user_id
+      and m.user_id <> auth.uid()
+      and m.household_id = current_household_id()
+  );
+$$ language sql stable security definer;
+
+-- ----------------------------------------------------------------------------
+-- Function: E-mail address of the caller
+-- ----------------------------------------------------------------------------
+-- Returns: The address in lower case, as invitations store it
+-- Security: SECURITY DEFINER - authenticated users cannot read auth.users
+-- ----------------------------------------------------------------------------
+
+create or replace function current_user_email()
+returns text as $$
+  select lower(email) from auth.users where id = auth.uid();
+$$ language sql stable security definer;
+
+-- ----------------------------------------------------------------------------
+-- Function: Whether a budget or expense row is in the caller's budget scope
+-- ----------------------------------------------------------------------------
+-- Purpose: Single rule behind the RLS policies and queries of month_budget
+--          and expenses (and the rows that hang off them)
+-- Rules:
+--   - A household row is in scope for every member of that household
+--   - A personal row is in scope for its owner while they are not in a household
+-- ----------------------------------------------------------------------------
+
+create or replace function in_budget_scope(row_user_id uuid, row_household_id uuid)
+returns boolean as $$
+  select case
+    when row_household_id is not null then row_household_id = current_household_id()
+    else row_user_id = auth.uid() and current_household_id() is null
+  end;
+$$ language sql stable security invoker;
+
+-- ============================================================================
+-- 3. HOUSEHOLDS ROW LEVEL SECURITY
+-- ============================================================================
+
+alter table households enable row level security;
+alter table household_members enable row level security;
+alter table household_invitations enable row level security;
+
+-- RLS Policy: Members can view their household (authenticated)
+-- Rationale: Households are created, joined and left through the functions
+--            below, so there are no write policies
+create policy households_select_policy_authenticated on households
+  for select
+  to authenticated
+  using (id = current_household_id());
+
+-- RLS Policy: Members can rename their household (authenticated)
+-- Rationale: Every member manages the household equally
+create policy households_update_policy_authenticated on households
+  for update
+  to authenticated
+  using (id = current_household_id())
+  with check (id = current_household_id());
+
+-- RLS Policy: Members can view who else is in their household (authenticated)
+-- Rationale: Needed to list members; e-mail addresses come from list_household_members()
+create policy household_members_select_policy_authenticated on household_members
+  for select
+  to authenticated
+  using (household_id = current_household_id());
+
+-- RLS Policy: Members see their household's invitations, invitees the ones sent to them (authenticated)
+-- Rationale: Both sides of an invitation need to list it
+create policy household_invitations_select_policy_authenticated on household_invitations
+  for select
+  to authenticated
+  using (household_id = current_household_id() or email = current_user_email());
+
+-- RLS Policy: Members can invite to their own household (authenticated)
+-- Rationale: Invitations are always sent in the inviter's name
+create policy household_invitations_insert_policy_authenticated on household_invitations
+  for insert
+  to authenticated
+  with check (invited_by = auth.uid() and household_id = current_household_id());
+
+-- RLS Policy: Members can cancel invitations, invitees can decline them (authenticated)
+-- Rationale: Accepting removes the invitation through accept_household_invitation()
+create policy household_invitations_delete_policy_authenticated on household_invitations
+  for delete
+  to authenticated
+  using (household_id = current_household_id() or email = current_user_email());
+
+-- ============================================================================
+-- 4. BUDGET SCOPE
+-- ============================================================================
+
+alter table month_budget
+  add column if not exists household_id uuid null references households(id) on delete cascade;
+
+alter table expenses
+  add column if not exists household_id uuid null references households(id) on delete cascade;
+
+-- Index: Optimize loading a household's months and expenses
+create index idx_month_budget_household_month on month_budget(household_id, year_month) where household_id is not null;
+create index idx_expenses_household_month on expenses(household_id, year_month) where household_id is not null;
+
+-- One active budget per month: per user for personal budgets, per household otherwise
+drop index if exists month_budget_user_month_unique_idx;
+
+create unique index month_budget_user_month_unique_idx
+  on month_budget(user_id, year_month)
+  where deleted_at is null and household_id is null;
+
+create unique index month_budget_household_month_unique_idx
+  on month_budget(household_id, year_month)
+  where deleted_at is null and household_id is not null;
+
+-- ----------------------------------------------------------------------------
+-- Function: File new budgets and expenses under the creator's household
+-- ----------------------------------------------------------------------------
+-- Purpose: The application keeps inserting rows with its user_id only; rows
+--          of household members land in the household automatically
+-- Notes: Keys on new.user_id rather than auth.uid(), so rows created for a
+--        user by the server (e.g. recurring expenses) are filed the same way
+-- Security: SECURITY DEFINER so the membership lookup isn't limited by RLS
+-- ----------------------------------------------------------------------------
+
+create or replace function set_household_id()
+returns trigger as $$
+begin
+  if new.household_id is null then
+    select household_id into new.household_id
+    from household_members
+    where user_id = new.user_id;
+  end if;
+  return new;
+end;
+$$ language plpgsql security definer;
+
+create trigger trigger_month_budget_household
+  before insert on month_budget
+  for each row
+  execute function set_household_id();
+
+create trigger trigger_expenses_household
+  before insert on expenses
+  for each row
+  execute function set_household_id();
+
+-- ----------------------------------------------------------------------------
+-- Month budget and expense policies
+-- ----------------------------------------------------------------------------
+
+drop policy if exists month_budget_select_policy_authenticated on month_budget;
+drop policy if exists month_budget_insert_policy_authenticated on month_budget;
+drop policy if exists month_budget_update_policy_authenticated on month_budget;
+drop policy if exists month_budget_delete_policy_authenticated on month_budget;
+
+-- RLS Policy: Users can view the budgets in their budget scope (authenticated)
+-- Rationale: Household budgets are shared by all members, personal ones stay private
+create policy month_budget_select_policy_authenticated on month_budget
+  for select
+  to authenticated
+  using (in_budget_scope(user_id, household_id));
+
+-- RLS Policy: Users can create budgets in their budget scope (authenticated)
+-- Rationale: The row is recorded as created by the caller
+create policy month_budget_insert_policy_authenticated on month_budget
+  for insert
+  to authenticated
+  with check (user_id = auth.uid() and in_budget_scope(user_id, household_id));
+
+-- RLS Policy: Users can update the budgets in their budget scope (authenticated)
+-- Rationale: Any member may change a household budget; it cannot be moved out of the scope
+create policy month_budget_update_policy_authenticated on month_budget
+  for update
+  to authenticated
+  using (in_budget_scope(user_id, household_id))
+  with check (in_budget_scope(user_id, household_id));
+
+-- RLS Policy: Users can delete the budgets in their budget scope (authenticated)
+-- Rationale: Same rule as updates
+create policy month_budget_delete_policy_authenticated on month_budget
+  for delete
+  to authenticated
+  using (in_budget_scope(user_id, household_id));
+
+drop policy if exists expenses_select_policy_authenticated on expenses;
+drop policy if exists expenses_insert_policy_authenticated on expenses;
+drop policy if exists expenses_update_policy_authenticated on expenses;
+drop policy if exists expenses_delete_policy_authenticated on expenses;
+
+-- RLS Policy: Users can view the expenses in their budget scope (authenticated)
+-- Rationale: Household expenses are shared by all members, personal ones stay private
+create policy expenses_select_policy_authenticated on expenses
+  for select
+  to authenticated
+  using (in_budget_scope(user_id, household_id));
+
+-- RLS Policy: Users can add expenses to their budget scope (authenticated)
+-- Rationale: The row is recorded as added by the caller
+create policy expenses_insert_policy_authenticated on expenses
+  for insert
+  to authenticated
+  with check (user_id = auth.uid() and in_budget_scope(user_id, household_id));
+
+-- RLS Policy: Users can update the expenses in their budget scope (authenticated)
+-- Rationale: Any member may correct a household expense; it cannot be moved out of the scope
+create policy expenses_update_policy_authenticated on expenses
+  for update
+  to authenticated
+  using (in_budget_scope(user_id, household_id))
+  with check (in_budget_scope(user_id, household_id));
+
+-- RLS Policy: Users can delete the expenses in their budget scope (authenticated)
+-- Rationale: Same rule as updates
+create policy expenses_delete_policy_authenticated on expenses
+  for delete
+  to authenticated
+  using (in_budget_scope(user_id, household_id));
+
+-- ----------------------------------------------------------------------------
+-- Category allocation and split line policies
+-- ----------------------------------------------------------------------------
+-- Rationale: Allocations and split lines are part of their budget or expense,
+--            so they follow its scope instead of the member who wrote them
+-- ----------------------------------------------------------------------------
+
+drop policy if exists month_budget_categories_select_policy_authenticated on month_budget_categories;
+drop policy if exists month_budget_categories_insert_policy_authenticated on month_budget_categories;
+drop policy if exists month_budget_categories_update_policy_authenticated on month_budget_categories;
+drop policy if exists month_budget_categories_delete_policy_authenticated on month_budget_categories;
+
+create policy month_budget_categories_select_policy_authenticated on month_budget_categories
+  for select
+  to authenticated
+  using (exists (select 1 from month_budget b where b.id = month_budget_id));
+
+create policy month_budget_categories_insert_policy_authenticated on month_budget_categories
+  for insert
+  to authenticated
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from month_budget b where b.id = month_budget_id)
+  );
+
+create policy month_budget_categories_update_policy_authenticated on month_budget_categories
+  for update
+  to authenticated
+  using (exists (select 1 from month_budget b where b.id = month_budget_id))
+  with check (exists (select 1 from month_budget b where b.id = month_budget_id));
+
+create policy month_budget_categories_delete_policy_authenticated on month_budget_categories
+  for delete
+  to authenticated
+  using (exists (select 1 from month_budget b where b.id = month_budget_id));
+
+drop policy if exists expense_splits_select_policy_authenticated on expense_splits;
+drop policy if exists expense_splits_insert_policy_authenticated on expense_splits;
+drop policy if exists expense_splits_update_policy_authenticated on expense_splits;
+drop policy if exists expense_splits_delete_policy_authenticated on expense_splits;
+
+create policy expense_splits_select_policy_authenticated on expense_splits
+  for select
+  to authenticated
+  using (exists (select 1 from expenses e where e.id = expense_id));
+
+create policy expense_splits_insert_policy_authenticated on expense_splits
+  for insert
+  to authenticated
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from expenses e where e.id = expense_id)
+  );
+
+create policy expense_splits_update_policy_authenticated on expense_splits
+  for update
+  to authenticated
+  using (exists (select 1 from expenses e where e.id = expense_id))
+  with check (exists (select 1 from expenses e where e.id = expense_id));
+
+create policy expense_splits_delete_policy_authenticated on expense_splits
+  for delete
+  to authenticated
+  using (exists (select 1 from expenses e where e.id = expense_id));
+
+-- RLS Policy: Users can tag the expenses in their budget scope with their own tags (authenticated)
+-- Rationale: Tags stay personal, so each member sees only their own tags on a shared expense
+drop policy if exists expense_tags_insert_policy_authenticated on expense_tags;
+
+create policy expense_tags_insert_policy_authenticated on expense_tags
+  for insert
+  to authenticated
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from expenses e where e.id = expense_id)
+    and exists (select 1 from tags t where t.id = tag_id and t.user_id = auth.uid())
+  );
+
+-- ----------------------------------------------------------------------------
+-- Function: Recalculate the balance of one month in one budget scope
+-- ----------------------------------------------------------------------------
+-- Arguments:
+--   - target_user_id / target_household_id: Owner of the changed expense;
+--     household expenses count towards the household's budget, personal
+--     ones towards the owner's personal budget
+--   - target_year_month: Month to recalculate
+-- Security: SECURITY DEFINER, only called from update_month_budget_balance()
+--           (also SECURITY DEFINER); not callable by users
+-- ----------------------------------------------------------------------------
+
+create or replace function recalculate_month_budget_balance(
+  target_user_id uuid,
+  target_household_id uuid,
+  target_year_month varchar
+)
+returns void as $$
+  update month_budget b
+  set current_balance = b.budget_set - (
+        select coalesce(sum(e.amount), 0)
+        from expenses e
+        where e.year_month = b.year_month
+          and e.deleted_at is null
+          and e.household_id is not distinct from b.household_id
+          and (b.household_id is not null or e.user_id = b.user_id)
+      ),
+      updated_at = now()
+  where b.year_month = target_year_month
+    and b.deleted_at is null
+    and b.household_id is not distinct from target_household_id
+    and (target_household_id is not null or b.user_id = target_user_id);
+$$ language sql security definer;
+
+-- Supabase grants execute on new functions to anon and authenticated explicitly
+revoke execute on function recalculate_month_budget_balance(uuid, uuid, varchar) from public;
+revoke execute on function recalculate_month_budget_balance(uuid, uuid, varchar) from anon;
+revoke execute on function recalculate_month_budget_balance(uuid, uuid, varchar) from authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Function: Update month budget balance when expenses change
+-- ----------------------------------------------------------------------------
+-- Purpose: Same rules as before, matching budgets by budget scope instead of
+--          user_id; an expense moved to another scope (creating or leaving a
+--          household) updates both months
+-- ----------------------------------------------------------------------------
+
+create or replace function update_month_budget_balance()
+returns trigger as $$
+begin
+  if tg_op = 'INSERT' then
+    perform recalculate_month_budget_balance(new.user_id, new.household_id, new.year_month);
+    return new;
+
+  elsif tg_op = 'UPDATE' then
+    -- Update the old month if the expense left it
+    if old.year_month <> new.year_month
+      or old.user_id <> new.user_id
+      or old.household_id is distinct from new.household_id
+      or (old.deleted_at is null and new.deleted_at is not null) then
+      perform recalculate_month_budget_balance(old.user_id, old.household_id, old.year_month);
+    end if;
+
+    if new.deleted_at is null then
+      perform recalculate_month_budget_balance(new.user_id, new.household_id, new.year_month);
+    end if;
+    return new;
+
+  elsif tg_op = 'DELETE' then
+    if old.deleted_at is null then
+      perform recalculate_month_budget_balance(old.user_id, old.household_id, old.year_month);
+    end if;
+    return old;
+  end if;
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- 5. MEMBERSHIP FUNCTIONS
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Create a household with the caller as its first member
+-- ----------------------------------------------------------------------------
+-- Arguments:
+--   - household_name: Display name of the household
+-- Returns: The new household's id
+-- Raises: 'Already in a household' when the caller is a member of one
+-- Notes: The caller's budgets and expenses (including those in the trash)
+--        move into the household, so nothing disappears from their view
+-- Security: SECURITY DEFINER - memberships are not writable through RLS
+-- ----------------------------------------------------------------------------
+
+create or replace function create_household(household_name varchar)
+returns uuid as $$
+declare
+  v_household_id uuid;
+begin
+  if exists (select 1 from household_members where user_id = auth.uid()) then
+    raise exception 'Already in a household';
+  end if;
+
+  insert into households (name, created_by)
+  values (btrim(household_name), auth.uid())
+  returning id into v_household_id;
+
+  insert into household_members (household_id, user_id)
+  values (v_household_id, auth.uid());
+
+  -- Budgets first, so the expense trigger recalculates the moved budgets
+  update month_budget
+  set household_id = v_household_id
+  where user_id = auth.uid() and household_id is null;
+
+  update expenses
+  set household_id = v_household_id
+  where user_id = auth.uid() and household_id is null;
+
+  return v_household_id;
+end;
+$$ language plpgsql security definer;
+
+-- ----------------------------------------------------------------------------
+-- Function: Join a household through an invitation sent to the caller
+-- ----------------------------------------------------------------------------
+-- Arguments:
+--   - target_invitation_id: Invitation addressed to the caller's e-mail
+-- Returns: The joined household's id
+-- Raises:
+--   - 'Invitation not found' for missing invitations or ones sent to
+--     another address
+--   - 'Already in a household' when the caller is a member of one
+-- Notes: All other invitations to the caller are removed
+-- Security: SECURITY DEFINER - memberships are not writable through RLS
+-- ----------------------------------------------------------------------------
+
+create or replace function accept_household_invitation(target_invitation_id uuid)
+returns uuid as $$
+declare
+  v_household_id uuid;
+begin
+  select household_id into v_household_id
+  from household_invitations
+  where id = target_invitation_id and email = current_user_email();
+
+  if v_household_id is null then
+    raise exception 'Invitation not found';
+  end if;
+
+  if exists (select 1 from household_members where user_id = auth.uid()) then
+    raise exception 'Already in a household';
+  end if;
+
+  insert into household_members (household_id, user_id)
+  values (v_household_id, auth.uid());
+
+  delete from household_invitations
+  where email = current_user_email();
+
+  return v_household_id;
+end;
+$$ language plpgsql security definer;
+
+-- ----------------------------------------------------------------------------
+-- Function: Remove a user from their household
+-- ----------------------------------------------------------------------------
+-- Purpose: Shared by leave_household() and delete_user_account()
+-- Notes:
+--   - Rows the user added stay with the household
+--   - When nobody is left, the household's budgets and expenses become the
+--     user's personal ones and the household is deleted; a household budget
+--     for a month the user already has a personal budget for is soft-deleted
+-- Security: SECURITY DEFINER, not callable by users (see permissions below)
+-- ----------------------------------------------------------------------------
+
+create or replace function remove_household_member(target_user_id uuid)
+returns void as $$
+declare
+  v_household_id uuid;
+begin
+  delete from household_members
+  where user_id = target_user_id
+  returning household_id into v_household_id;
+
+  if v_household_id is null
+    or exists (select 1 from household_members where household_id = v_household_id) then
+    return;
+  end if;
+
+  update month_budget b
+  set deleted_at = now(),
+      updated_at = now()
+  where b.household_id = v_household_id
+    and b.deleted_at is null
+    and exists (
+      select 1 from month_budget p
+      where p.user_id = target_user_id
+        and p.household_id is null
+        and p.year_month = b.year_month
+        and p.deleted_at is null
+    );
+
+  -- Budgets first, so the expense trigger recalculates the moved budgets
+  update month_budget
+  set user_id = target_user_id,
+      household_id = null
+  where household_id = v_household_id;
+
+  update expenses
+  set user_id = target_user_id,
+      household_id = null
+  where household_id = v_household_id;
+
+  delete from households where id = v_household_id;
+end;
+$$ language plpgsql security definer;
+
+revoke execute on function remove_household_member(uuid) from public;
+revoke execute on function remove_household_member(uuid) from anon;
+revoke execute on function remove_household_member(uuid) from authenticated;
+
+-- ----------------------------------------------------------------------------
+-- Function: Leave the caller's household
+-- ----------------------------------------------------------------------------
+-- Raises: 'Not in a household' when the caller has none
+-- Security: SECURITY DEFINER - memberships are not writable through RLS
+-- ----------------------------------------------------------------------------
+
+create or replace function leave_household()
+returns void as $$
+begin
+  if not exists (select 1 from household_members where user_id = auth.uid()) then
+    raise exception 'Not in a household';
+  end if;
+
+  perform remove_household_member(auth.uid());
+end;
+$$ language plpgsql security definer;
+
+-- ----------------------------------------------------------------------------
+-- Function: Members of the caller's household with their e-mail addresses
+-- ----------------------------------------------------------------------------
+-- Returns: One row per member, in the order they joined; no rows when the
+--          caller is not in a household
+-- Security: SECURITY DEFINER - authenticated users cannot read auth.users
+-- ----------------------------------------------------------------------------
+
+create or replace function list_household_members()
+returns table (
+  user_id uuid,
+  email text,
+  joined_at timestamptz
+) as $$
+  select m.user_id, u.email::text, m.joined_at
+  from household_members m
+  join auth.users u on u.id = m.user_id
+  where m.household_id = current_household_id()
+  order by m.joined_at, u.email;
+$$ language sql stable security definer;
+
+-- ----------------------------------------------------------------------------
+-- Function: Invitations sent to the caller's e-mail address
+-- ----------------------------------------------------------------------------
+-- Returns: The invitations with the name of the household and the address of
+--          the member who sent them, newest first
+-- Security: SECURITY DEFINER - invitees cannot read the household or auth.users
+-- ----------------------------------------------------------------------------
+
+create or replace function list_household_invitations()
+returns table (
+  id uuid,
+  household_id uuid,
+  household_name text,
+  invited_by_email text,
+  created_at timestamptz
+) as $$
+  select i.id, i.household_id, h.name::text, u.email::text, i.created_at
+  from household_invitations i
+  join households h on h.id = i.household_id
+  left join auth.users u on u.id = i.invited_by
+  where i.email = current_user_email()
+  order by i.created_at desc;
+$$ language sql stable security definer;
+
+-- ============================================================================
+-- 6. FUNCTIONS USING THE BUDGET SCOPE
+-- ============================================================================
+-- Purpose: Same definitions as before with user_id = auth.uid() on expenses
+--          and month_budget replaced by in_budget_scope()
+-- ============================================================================
+
+create or replace function month_expense_totals(target_year_month varchar)
+returns table (
+  total numeric,
+  expense_count bigint
+) as $$
+  select coalesce(sum(amount), 0), count(*)
+  from expenses
+  where in_budget_scope(user_id, household_id)
+    and deleted_at is null
+    and year_month = target_year_month;
+$$ language sql stable security invoker;
+
+create or replace function category_totals(target_year_month varchar)
+returns table (
+  category_id uuid,
+  total numeric,
+  expense_count bigint
+) as $$
+  select
+    case when s.id is null then e.category_id else s.category_id end,
+    sum(coalesce(s.amount, e.amount)),
+    count(distinct e.id)
+  from expenses e
+  left join expense_splits s on s.expense_id = e.id
+  where in_budget_scope(e.user_id, e.household_id)
+    and e.deleted_at is null
+    and e.year_month = target_year_month
+  group by 1
+  order by 2 desc;
+$$ language sql stable security invoker;
+
+create or replace function report_spending_summary(from_month varchar, to_month varchar)
+returns table (
+  total numeric,
+  expense_count bigint,
+  month_count integer,
+  monthly_average numeric
+) as $$
+  with range as (
+    select count(*)::integer as months
+    from generate_series(
+      to_date(from_month || '-01', 'YYYY-MM-DD'),
+      to_date(to_month || '-01', 'YYYY-MM-DD'),
+      interval '1 month'
+    )
+  ),
+  spent as (
+    select coalesce(sum(amount), 0) as total, count(*) as expense_count
+    from expenses
+    where in_budget_scope(user_id, household_id)
+      and deleted_at is null
+      and year_month between from_month and to_month
+  )
+  select
+    spent.total,
+    spent.expense_count,
+    range.months,
+    round(spent.total / range.months, 2)
+  from spent, range;
+$$ language sql stable security invoker;
+
+create or replace function report_spending_groups(from_month varchar, to_month varchar, group_by varchar)
+returns table (
+  group_key text,
+  label text,
+  color text,
+  total numeric,
+  expense_count bigint
+) as $$
+declare
+  v_from date := to_date(from_month || '-01', 'YYYY-MM-DD');
+  v_to date := (to_date(to_month || '-01', 'YYYY-MM-DD') + interval '1 month - 1 day')::date;
+begin
+  if group_by = 'category' then
+    return query
+      with lines as (
+        select
+          case when s.id is null then e.category_id else s.category_id end as category_id,
+          coalesce(s.amount, e.amount) as amount,
+          e.id as expense_id
+        from expenses e
+        left join expense_splits s on s.expense_id = e.id
+        where in_budget_scope(e.user_id, e.household_id)
+          and e.deleted_at is null
+          and e.year_month between from_month and to_month
+      )
+      select
+        coalesce(lines.category_id::text, 'uncategorized'),
+        coalesce(c.display_name, 'Uncategorized')::text,
+        c.color::text,
+        sum(lines.amount),
+        count(distinct lines.expense_id)
+      from lines
+      left join expense_categories c on c.id = lines.category_id
+      group by lines.category_id, c.display_name, c.color
+      order by sum(lines.amount) desc;
+
+  elsif group_by = 'month' then
+    return query
+      select
+        to_char(m.month_start, 'YYYY-MM'),
+        to_char(m.month_start, 'YYYY-MM'),
+        null::text,
+        coalesce(sum(e.amount), 0),
+        count(e.id)
+      from generate_series(v_from, v_to, interval '1 month') as m(month_start)
+      left join expenses e
+        on in_budget_scope(e.user_id, e.household_id)
+        and e.deleted_at is null
+        and e.year_month = to_char(m.month_start, 'YYYY-MM')
+      group by m.month_start
+      order by m.month_start;
+
+  elsif group_by = 'week' then
+    -- Weeks start on Monday; the first and last week may reach outside the range,
+    -- but only expenses inside the range are counted
+    return query
+      select
+        to_char(w.week_start, 'YYYY-MM-DD'),
+        to_char(w.week_start, 'YYYY-MM-DD'),
+        null::text,
+        coalesce(sum(e.amount), 0),
+        count(e.id)
+      from generate_series(date_trunc('week', v_from), v_to, interval '1 week') as w(week_start)
+      left join expenses e
+        on in_budget_scope(e.user_id, e.household_id)
+        and e.deleted_at is null
+        and e.expense_date between v_from and v_to
+        and date_trunc('week', e.expense_date) = w.week_start
+      group by w.week_start
+      order by w.week_start;
+
+  else
+    raise exception 'Unknown group_by: %', group_by using errcode = 'invalid_parameter_value';
+  end if;
+end;
+$$ language plpgsql stable security invoker;
+
+create or replace function report_category_trends(from_month varchar, to_month varchar)
+returns table (
+  category_key text,
+  category_name text,
+  category_color text,
+  year_month text,
+  total numeric,
+  previous_total numeric,
+  change_amount numeric,
+  change_percent numeric
+) as $$
+  with months as (
+    select to_char(m, 'YYYY-MM') as year_month
+    from generate_series(
+      to_date(from_month || '-01', 'YYYY-MM-DD') - interval '1 month',
+      to_date(to_month || '-01', 'YYYY-MM-DD'),
+      interval '1 month'
+    ) as m
+  ),
+  monthly as (
+    select
+      case when s.id is null then e.category_id else s.category_id end as category_id,
+      e.year_month,
+      sum(coalesce(s.amount, e.amount)) as total
+    from expenses e
+    left join expense_splits s on s.expense_id = e.id
+    where in_budget_scope(e.user_id, e.household_id)
+      and e.deleted_at is null
+      and e.year_month between (select min(year_month) from months) and to_month
+    group by 1, e.year_month
+  ),
+  categories as (
+    select distinct category_id
+    from monthly
+    where year_month between from_month and to_month
+  ),
+  series as (
+    select
+      cat.category_id,
+      months.year_month,
+      coalesce(monthly.total, 0) as total,
+      lag(coalesce(monthly.total, 0)) over (partition by cat.category_id order by months.year_month) as previous_total
+    from categories cat
+    cross join months
+    left join monthly
+      on monthly.category_id is not distinct from cat.category_id
+      and monthly.year_month = months.year_month
+  )
+  select
+    coalesce(series.category_id::text, 'uncategorized'),
+    coalesce(c.display_name, 'Uncategorized')::text,
+    c.color::text,
+    series.year_month,
+    series.total,
+    series.previous_total,
+    series.total - series.previous_total,
+    case
+      when series.previous_total = 0 then null
+      else round((series.total - series.previous_total) / series.previous_total * 100, 1)
+    end
+  from series
+  left join expense_categories c on c.id = series.category_id
+  where series.year_month >= from_month
+  order by coalesce(c.display_name, 'Uncategorized'), series.year_month;
+$$ language sql stable security invoker;
+
+create or replace function report_budget_adherence(from_month varchar, to_month varchar)
+returns table (
+  year_month text,
+  budget_set numeric,
+  spent numeric,
+  remaining numeric,
+  used_percent numeric
+) as $$
+  with months as (
+    select to_char(m, 'YYYY-MM') as year_month
+    from generate_series(
+      to_date(from_month || '-01', 'YYYY-MM-DD'),
+      to_date(to_month || '-01', 'YYYY-MM-DD'),
+      interval '1 month'
+    ) as m
+  ),
+  spent as (
+    select e.year_month, sum(e.amount) as total
+    from expenses e
+    where in_budget_scope(e.user_id, e.household_id)
+      and e.deleted_at is null
+      and e.year_month between from_month and to_month
+    group by e.year_month
+  )
+  select
+    months.year_month,
+    b.budget_set,
+    coalesce(spent.total, 0),
+    b.budget_set - coalesce(spent.total, 0),
+    round(coalesce(spent.total, 0) / b.budget_set * 100, 1)
+  from months
+  left join spent on spent.year_month = months.year_month
+  left join month_budget b
+    on in_budget_scope(b.user_id, b.household_id)
+    and b.deleted_at is null
+    and b.year_month = months.year_month
+  order by months.year_month;
+$$ language sql stable security invoker;
+
+create or replace function report_daily_totals(from_month varchar, to_month varchar)
+returns table (
+  expense_date date,
+  total numeric
+) as $$
+  select e.expense_date, sum(e.amount)
+  from expenses e
+  where in_budget_scope(e.user_id, e.household_id)
+    and e.deleted_at is null
+    and e.year_month between from_month and to_month
+  group by e.expense_date
+  order by e.expense_date;
+$$ language sql stable security invoker;
+
+-- Tags stay personal: each member totals the shared expenses they tagged themselves
+create or replace function report_tag_totals(from_month varchar, to_month varchar)
+returns table (
+  tag_id uuid,
+  tag_name text,
+  total numeric,
+  expense_count bigint
+) as $$
+  select t.id, t.name::text, sum(e.amount), count(*)
+  from expense_tags et
+  join tags t on t.id = et.tag_id
+  join expenses e on e.id = et.expense_id
+  where et.user_id = auth.uid()
+    and in_budget_scope(e.user_id, e.household_id)
+    and e.deleted_at is null
+    and e.year_month between from_month and to_month
+  group by t.id, t.name
+  order by sum(e.amount) desc, t.name;
+$$ language sql stable security invoker;
+
+create or replace function set_expense_tags(target_expense_id uuid, tag_names text[])
+returns text[] as $$
+declare
+  v_names text[];
+begin
+  if not exists (
+    select 1 from expenses
+    where id = target_expense_id and in_budget_scope(user_id, household_id) and deleted_at is null
+  ) then
+    raise exception 'Expense not found';
+  end if;
+
+  select coalesce(array_agg(distinct lower(btrim(n))), '{}')
+  into v_names
+  from unnest(tag_names) as n
+  where btrim(n) <> '';
+
+  insert into tags (user_id, name)
+  select auth.uid(), n
+  from unnest(v_names) as n
+  on conflict (user_id, name) do nothing;
+
+  delete from expense_tags et
+  using tags t
+  where et.expense_id = target_expense_id
+    and t.id = et.tag_id
+    and not (t.name = any(v_names));
+
+  insert into expense_tags (expense_id, tag_id, user_id)
+  select target_expense_id, t.id, auth.uid()
+  from tags t
+  where t.user_id = auth.uid() and t.name = any(v_names)
+  on conflict (expense_id, tag_id) do nothing;
+
+  return array(select n from unnest(v_names) as n order by n);
+end;
+$$ language plpgsql security invoker;
+
+create or replace function set_expense_splits(target_expense_id uuid, lines jsonb)
+returns void as $$
+declare
+  v_amount numeric(12,2);
+begin
+  select amount into v_amount
+  from expenses
+  where id = target_expense_id and in_budget_scope(user_id, household_id) and deleted_at is null;
+
+  if not found then
+    raise exception 'Expense not found';
+  end if;
+
+  if jsonb_array_length(lines) = 1 then
+    raise exception 'A split needs at least 2 lines';
+  end if;
+
+  if jsonb_array_length(lines) > 0 and (
+    select sum(l.amount) from jsonb_to_recordset(lines) as l(amount numeric)
+  ) <> v_amount then
+    raise exception 'Split amounts must add up to the expense amount';
+  end if;
+
+  delete from expense_splits
+  where expense_id = target_expense_id;
+
+  if jsonb_array_length(lines) > 0 then
+    update expenses
+    set category_id = null
+    where id = target_expense_id and category_id is not null;
+
+    insert into expense_splits (expense_id, user_id, category_id, amount)
+    select target_expense_id, auth.uid(), l.category_id, l.amount
+    from jsonb_to_recordset(lines) as l(category_id uuid, amount numeric);
+  end if;
+end;
+$$ language plpgsql security invoker;
+
+create or replace function bulk_update_expenses(
+  expense_ids uuid[],
+  update_category boolean,
+  new_category_id uuid,
+  new_expense_date date
+)
+returns table (
+  expense_id uuid,
+  status text
+) as $$
+  with updated as (
+    update expenses e
+    set
+      category_id = case when update_category then new_category_id else e.category_id end,
+      expense_date = coalesce(new_expense_date, e.expense_date)
+    where e.id = any(expense_ids)
+      and in_budget_scope(e.user_id, e.household_id)
+      and e.deleted_at is null
+    returning e.id
+  )
+  select ids.id, case when updated.id is null then 'not_found' else 'updated' end
+  from unnest(expense_ids) with ordinality as ids(id, position)
+  left join updated on updated.id = ids.id
+  order by ids.position;
+$$ language sql volatile security invoker;
+
+create or replace function bulk_soft_delete_expenses(expense_ids uuid[])
+returns table (
+  expense_id uuid,
+  status text
+) as $$
+  with deleted as (
+    update expenses e
+    set deleted_at = now()
+    where e.id = any(expense_ids)
+      and in_budget_scope(e.user_id, e.household_id)
+      and e.deleted_at is null
+    returning e.id
+  )
+  select ids.id, case when deleted.id is null then 'not_found' else 'deleted' end
+  from unnest(expense_ids) with ordinality as ids(id, position)
+  left join deleted on deleted.id = ids.id
+  order by ids.position;
+$$ language sql volatile security invoker;
+
+create or replace function set_month_budget_categories(target_month_budget_id uuid, allocations jsonb)
+returns void as $$
+begin
+  if not exists (
+    select 1 from month_budget
+    where id = target_month_budget_id
+      and in_budget_scope(user_id, household_id)
+      and deleted_at is null
+  ) then
+    raise exception 'Month budget not found';
+  end if;
+
+  delete from month_budget_categories
+  where month_budget_id = target_month_budget_id;
+
+  insert into month_budget_categories (user_id, month_budget_id, category_id, amount)
+  select auth.uid(), target_month_budget_id, a.category_id, a.amount
+  from jsonb_to_recordset(allocations) as a(category_id uuid, amount numeric);
+end;
+$$ language plpgsql security invoker;
+
+create or replace function apply_month_budget(
+  target_year_month varchar,
+  new_budget_set numeric,
+  new_rollover_enabled boolean,
+  allocations jsonb
+)
+returns boolean as $$
+declare
+  v_budget_id uuid;
+  v_total_expenses numeric(12,2);
+  v_previous_rollover boolean;
+  v_created boolean := false;
+begin
+  select coalesce(sum(amount), 0) into v_total_expenses
+  from expenses
+  where in_budget_scope(user_id, household_id)
+    and year_month = target_year_month
+    and deleted_at is null;
+
+  select id into v_budget_id
+  from month_budget
+  where in_budget_scope(user_id, household_id)
+    and year_month = target_year_month
+    and deleted_at is null
+  for update;
+
+  if v_budget_id is null then
+    select rollover_enabled into v_previous_rollover
+    from month_budget
+    where in_budget_scope(user_id, household_id)
+      and year_month = to_char(to_date(target_year_month || '-01', 'YYYY-MM-DD') - interval '1 month', 'YYYY-MM')
+      and deleted_at is null;
+
+    insert into month_budget (user_id, year_month, budget_set, current_balance, rollover_enabled)
+    values (
+      auth.uid(),
+      target_year_month,
+      new_budget_set,
+      new_budget_set - v_total_expenses,
+      coalesce(new_rollover_enabled, v_previous_rollover, false)
+    )
+    returning id into v_budget_id;
+
+    v_created := true;
+  else
+    delete from month_budget_categories
+    where month_budget_id = v_budget_id;
+
+    update month_budget
+    set budget_set = new_budget_set,
+        current_balance = new_budget_set - v_total_expenses,
+        rollover_enabled = coalesce(new_rollover_enabled, rollover_enabled),
+        updated_at = now()
+    where id = v_budget_id;
+  end if;
+
+  insert into month_budget_categories (user_id, month_budget_id, category_id, amount)
+  select auth.uid(), v_budget_id, a.category_id, a.amount
+  from jsonb_to_recordset(coalesce(allocations, '[]'::jsonb)) as a(category_id uuid, amount numeric);
+
+  return v_created;
+end;
+$$ language plpgsql security invoker;
+
+create or replace function purge_deleted_items(retention_days integer)
+returns integer as $$
+declare
+  v_cutoff timestamptz;
+  v_count integer;
+  v_purged integer := 0;
+begin
+  if retention_days is null or retention_days < 1 then
+    raise exception 'Retention must be at least one day' using errcode = 'invalid_parameter_value';
+  end if;
+
+  v_cutoff := now() - make_interval(days => retention_days);
+
+  -- Deleting a stash cascades to all of its transactions
+  delete from stashes
+  where user_id = auth.uid() and deleted_at < v_cutoff;
+  get diagnostics v_count = row_count;
+  v_purged := v_purged + v_count;
+
+  delete from stash_transactions
+  where user_id = auth.uid() and deleted_at < v_cutoff;
+  get diagnostics v_count = row_count;
+  v_purged := v_purged + v_count;
+
+  -- Tags and split lines cascade with the expense
+  delete from expenses
+  where in_budget_scope(user_id, household_id) and deleted_at < v_cutoff and recurring_expense_id is null;
+  get diagnostics v_count = row_count;
+  v_purged := v_purged + v_count;
+
+  return v_purged;
+end;
+$$ language plpgsql security invoker;
+
+-- ============================================================================
+-- 7. STASH SHARING
+-- ============================================================================
+-- Purpose: Stashes stay private unless their owner shares them; a shared
+--          stash is readable (not writable) by the other members of the
+--          owner's household, and stops being visible when either side leaves
+-- ============================================================================
+
+alter table stashes
+  add column if not exists shared_with_household boolean not null default false;
+
+drop policy if exists stashes_select_policy_authenticated on stashes;
+
+-- RLS Policy: Users can view their own stashes and the ones shared by their household (authenticated)
+-- Rationale: Sharing is opt-in per stash; changes stay with the owner
+create policy stashes_select_policy_authenticated on stashes
+  for select
+  to authenticated
+  using (user_id = auth.uid() or (shared_with_household and is_household_member(user_id)));
+
+-- ============================================================================
+-- 8. ACCOUNT DELETION
+-- ============================================================================
+
+create or replace function delete_user_account(target_user_id uuid)
+returns void as $$
+declare
+  v_successor_id uuid;
+begin
+  -- Delete in order to respect foreign key constraints
+
+  -- 0. Leave the household. The household's budgets, their allocations and the split lines
+  --    the user wrote on other members' expenses are handed to the member who joined first;
+  --    the user's own expenses are deleted below. As its last member, the household's data
+  --    becomes the user's and is deleted below.
+  select m.user_id into v_successor_id
+  from household_members m
+  join household_members self on self.household_id = m.household_id
+  where self.user_id = target_user_id
+    and m.user_id <> target_user_id
+  order by m.joined_at
+  limit 1;
+
+  if v_successor_id is not null then
+    update month_budget
+    set user_id = v_successor_id
+    where user_id = target_user_id and household_id is not null;
+
+    update month_budget_categories c
+    set user_id = v_successor_id
+    from month_budget b
+    where b.id = c.month_budget_id and b.household_id is not null and c.user_id = target_user_id;
+
+    update expense_splits s
+    set user_id = v_successor_id
+    from expenses e
+    where e.id = s.expense_id and e.household_id is not null and e.user_id <> target_user_id
+      and s.user_id = target_user_id;
+  end if;
+
+  perform remove_household_member(target_user_id);
+  delete from household_invitations where invited_by = target_user_id;
+
+  -- 1. Delete stash transactions (will be cascaded by FK, but explicit for clarity)
+  delete from stash_transactions where user_id = target_user_id;
+
+  -- 2. Delete stashes (will cascade to transactions via FK)
+  delete from stashes where user_id = target_user_id;
+
+  -- 3. Delete exchange rates
+  delete from exchange_rates where user_id = target_user_id;
+
+  -- 4. Delete expense tags (would be cascaded by expenses and tags, but explicit for clarity)
+  delete from expense_tags where user_id = target_user_id;
+  delete from tags where user_id = target_user_id;
+
+  -- 5. Delete expense split lines (would be cascaded by expenses, but explicit for clarity)
+  delete from expense_splits where user_id = target_user_id;
+
+  -- 6. Delete expenses (including the ones the user added to a household)
+  delete from expenses where user_id = target_user_id;
+
+  -- 7. Delete recurring expense definitions
+  delete from recurring_expenses where user_id = target_user_id;
+
+  -- 8. Delete category allocations (would be cascaded by month_budget, but explicit for clarity)
+  delete from month_budget_categories where user_id = target_user_id;
+
+  -- 9. Delete month budgets
+  delete from month_budget where user_id = target_user_id;
+
+  -- 10. Delete budget templates and their allocations
+  delete from budget_template_categories where user_id = target_user_id;
+  delete from budget_templates where user_id = target_user_id;
+
+  -- 11. Delete user-defined expense categories (after everything referencing them)
+  delete from expense_categories where user_id = target_user_id;
+
+  -- 12. Delete two-factor recovery codes
+  delete from mfa_recovery_codes where user_id = target_user_id;
+
+  -- 13. Delete the audit log last (the deletes above add entries to it)
+  delete from audit_log where user_id = target_user_id;
+
+  -- Note: Auth user deletion handled separately via Supabase Auth API
+  -- This function only cleans up application data
+
+end;
+$$ language plpgsql security definer;
+
+-- Still for the service role only (see 20251206100000_account_deletion.sql)
+revoke execute on function delete_user_account(uuid) from public;
+revoke execute on function delete_user_account(uuid) from anon;
+revoke execute on function delete_user_account(uuid) from authenticated;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
@@ -0,0 +1,200 @@
+-- ============================================================================
+-- Migration: Personal API tokens
+-- Description: Long-lived tokens that let scripts call the API with
+--              Authorization: Bearer instead of the session cookie
+-- Created: 2025-12-12 10:00:00 UTC
+--
+-- Changes:
+--   - New table api_tokens (RLS, readable and revocable by its owner)
+--   - authenticate_api_token() resolves a token hash to its user and scopes
+--     and records when the token was last used
+--   - delete_user_account() handles the new table
+--
+-- Notes:
+--   - Only SHA-256 hashes of the tokens are stored; the plain token is shown
+--     once after it is created. token_prefix keeps its first characters so
+--     the settings page can tell tokens apart
+--   - Scopes: 'read' allows GET requests, 'expenses:write' allows creating,
+--     changing and deleting expenses. The middleware enforces them; a token
+--     never reaches the account endpoints under /api/auth
+--   - Revoking a token deletes its row
+-- ============================================================================
+
+-- ============================================================================
+-- 1. API TOKENS TABLE
+-- ============================================================================
+
+create table if not exists api_tokens (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name varchar(100) not null,
+  token_hash varchar(64) not null,
+  token_prefix varchar(16) not null,
+  scopes text[] not null,
+  last_used_at timestamptz null,
+  created_at timestamptz not null default now(),
+
+  constraint api_tokens_token_hash_unique unique (token_hash),
+  constraint api_tokens_name_not_blank check (char_length(btrim(name)) >= 1),
+  constraint api_tokens_scopes_valid check (
+    cardinality(scopes) >= 1 and scopes <@ array['read', 'expenses:write']::text[]
+  )
+);
+
+-- Index: Optimize listing the tokens of a user
+create index idx_api_tokens_user_id on api_tokens(user_id);
+
+alter table api_tokens enable row level security;
+
+-- RLS Policy: Users can view their own tokens (authenticated)
+-- Rationale: The settings page lists names, prefixes, scopes and last use;
+--            the hashes are useless without the tokens
+create policy api_tokens_select_policy_authenticated on api_tokens
+  for select
+  to authenticated
+  using (user_id = auth.uid());
+
+-- RLS Policy: Users can create tokens for themselves (authenticated)
+-- Rationale: The server generates the token and stores only its hash
+create policy api_tokens_insert_policy_authenticated on api_tokens
+  for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+-- RLS Policy: Users can revoke their own tokens (authenticated)
+-- Rationale: Revoking deletes the row, after which the token is rejected
+create policy api_tokens_delete_policy_authenticated on api_tokens
+  for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+-- ============================================================================
+-- 2. TOKEN AUTHENTICATION
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Resolve an API token
+-- ----------------------------------------------------------------------------
+-- Purpose: Called by the middleware for requests with Authorization: Bearer,
+--          before there is a session
+-- Returns: The token's user, their e-mail address and the token's scopes;
+--          no row for an unknown (or revoked) token
+-- Side effects: Sets last_used_at of the token
+-- Security: SECURITY DEFINER, callable without a session; only someone who
+--           knows the token can produce its hash
+-- ----------------------------------------------------------------------------
+
+create or replace function authenticate_api_token(target_token_hash text)
+returns table (user_id uuid, email text, scopes text[]) as $$
+  update api_tokens t
+  set last_used_at = now()
+  from auth.users u
+  where t.token_hash = target_token_hash
+    and u.id = t.user_id
+  returning t.user_id, u.email::text, t.scopes;
+$$ language sql volatile security definer;
+
+revoke execute on function authenticate_api_token(text) from public;
+grant execute on function authenticate_api_token(text) to anon, authenticated;
+
+-- ============================================================================
+-- 3. ACCOUNT DELETION
+-- ============================================================================
+
+create or replace function delete_user_account(target_user_id uuid)
+returns void as $$
+declare
+  v_successor_id uuid;
+begin
+  -- Delete in order to respect foreign key constraints
+
+  -- 0. Leave the household. The household's budgets, their allocations and the split lines
+  --    the user wrote on other members' expenses are handed to the member who joined first;
+  --    the user's own expenses are deleted below. As its last member, the household's data
+  --    becomes the user's and is deleted below.
+  select m.user_id into v_successor_id
+  from household_members m
+  join household_members self on self.household_id = m.household_id
+  where self.user_id = target_user_id
+    and m.user_id <> target_user_id
+  order by m.joined_at
+  limit 1;
+
+  if v_successor_id is not null then
+    update month_budget
+    set user_id = v_successor_id
+    where user_id = target_user_id and household_id is not null;
+
+    update month_budget_categories c
+    set user_id = v_successor_id
+    from month_budget b
+    where b.id = c.month_budget_id and b.household_id is not null and c.user_id = target_user_id;
+
+    update expense_splits s
+    set user_id = v_successor_id
+    from expenses e
+    where e.id = s.expense_id and e.household_id is not null and e.user_id <> target_user_id
+      and s.user_id = target_user_id;
+  end if;
+
+  perform remove_household_member(target_user_id);
+  delete from household_invitations where invited_by = target_user_id;
+
+  -- 1. Delete stash transactions (will be cascaded by FK, but explicit for clarity)
+  delete from stash_transactions where user_id = target_user_id;
+
+  -- 2. Delete stashes (will cascade to transactions via FK)
+  delete from stashes where user_id = target_user_id;
+
+  -- 3. Delete exchange rates
+  delete from exchange_rates where user_id = target_user_id;
+
+  -- 4. Delete expense tags (would be cascaded by expenses and tags, but explicit for clarity)
+  delete from expense_tags where user_id = target_user_id;
+  delete from tags where user_id = target_user_id;
+
+  -- 5. Delete expense split lines (would be cascaded by expenses, but explicit for clarity)
+  delete from expense_splits where user_id = target_user_id;
+
+  -- 6. Delete expenses (including the ones the user added to a household)
+  delete from expenses where user_id = target_user_id;
+
+  -- 7. Delete recurring expense definitions
+  delete from recurring_expenses where user_id = target_user_id;
+
+  -- 8. Delete category allocations (would be cascaded by month_budget, but explicit for clarity)
+  delete from month_budget_categories where user_id = target_user_id;
+
+  -- 9. Delete month budgets
+  delete from month_budget where user_id = target_user_id;
+
+  -- 10. Delete budget templates and their allocations
+  delete from budget_template_categories where user_id = target_user_id;
+  delete from budget_templates where user_id = target_user_id;
+
+  -- 11. Delete user-defined expense categories (after everything referencing them)
+  delete from expense_categories where user_id = target_user_id;
+
+  -- 12. Delete two-factor recovery codes
+  delete from mfa_recovery_codes where user_id = target_user_id;
+
+  -- 13. Delete personal API tokens
+  delete from api_tokens where user_id = target_user_id;
+
+  -- 14. Delete the audit log last (the deletes above add entries to it)
+  delete from audit_log where user_id = target_user_id;
+
+  -- Note: Auth user deletion handled separately via Supabase Auth API
+  -- This function only cleans up application data
+
+end;
+$$ language plpgsql security definer;
+
+-- Still for the service role only (see 20251206100000_account_deletion.sql)
+revoke execute on function delete_user_account(uuid) from public;
+revoke execute on function delete_user_account(uuid) from anon;
+revoke execute on function delete_user_account(uuid) from authenticated;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
@@ -0,0 +1,75 @@
+-- ============================================================================
+-- Migration: Household expense categories
+-- Description: Lets household members put their own categories on expenses
+--              that another member added
+-- Created: 2025-12-14 10:00:00 UTC
+--
+-- Changes:
+--   - validate_expense_category() also accepts a category of the caller on
+--     a household expense of the caller's household
+--
+-- Notes:
+--   - Before, an expense only accepted the default categories and those of
+--     the member who added it (expenses.user_id), so recategorizing, bulk
+--     updating or splitting another member's expense with one of your own
+--     categories failed with foreign_key_violation
+--   - Split lines and category allocations are written with the caller as
+--     user_id (set_expense_splits(), set_month_budget_categories()), so the
+--     existing rule already covers them
+--   - The trigger is shared with tables that have no household_id column;
+--     the household lookup only runs for expenses
+-- ============================================================================
+
+-- ============================================================================
+-- 1. CATEGORY OWNERSHIP CHECK
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Validate expense category ownership
+-- ----------------------------------------------------------------------------
+-- Purpose: The foreign key only proves the category exists; this also makes sure it
+--          is a default category, belongs to the owner of the row, or - on an expense
+--          of the caller's household - belongs to the caller
+-- Errors: Raises foreign_key_violation (23503) so callers treat it like a missing category
+-- Security: SECURITY DEFINER so the lookup isn't limited by the caller's RLS view
+-- ----------------------------------------------------------------------------
+
+create or replace function validate_expense_category()
+returns trigger as $$
+declare
+  v_household_id uuid;
+begin
+  if new.category_id is null then
+    return new;
+  end if;
+
+  -- Separate statement: the other tables using this trigger have no household_id
+  if tg_table_name = 'expenses' then
+    v_household_id := new.household_id;
+  end if;
+
+  if not exists (
+    select 1
+    from expense_categories
+    where id = new.category_id
+      and (
+        user_id is null
+        or user_id = new.user_id
+        or (
+          user_id = auth.uid()
+          and v_household_id is not null
+          and v_household_id = current_household_id()
+        )
+      )
+  ) then
+    raise exception 'Expense category % does not exist', new.category_id
+      using errcode = 'foreign_key_violation';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
@@ -0,0 +1,90 @@
+-- ============================================================================
+-- Migration: Stash amount precision
+-- Description: Stores stash amounts with 8 decimal places so crypto stashes
+--              (BTC, ETH...) can hold fractions like 0.00012345
+-- Created: 2025-12-16 10:00:00 UTC
+--
+-- Changes:
+--   - stashes.current_balance, stashes.goal_amount and stash_transactions.amount
+--     become numeric(20,8) (were numeric(12,2))
+--   - record_stash_valuation() rounds the market value to 8 decimal places
+--
+-- Notes:
+--   - numeric(12,2) rounded small crypto amounts to 0.00, which then failed
+--     the amount > 0 check, and cut every balance to whole cents
+--   - 12 integer digits are kept, so the largest amount accepted before is
+--     still accepted; existing values are unchanged
+--   - Expenses and budgets stay numeric(12,2): they are always in PLN
+-- ============================================================================
+
+-- ============================================================================
+-- 1. COLUMN TYPES
+-- ============================================================================
+
+alter table stashes
+  alter column current_balance type numeric(20,8),
+  alter column goal_amount type numeric(20,8);
+
+alter table stash_transactions
+  alter column amount type numeric(20,8);
+
+-- ============================================================================
+-- 2. VALUATIONS
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Record the current market value of one of the caller's stashes
+-- ----------------------------------------------------------------------------
+-- Arguments:
+--   - target_stash_id: Stash to revalue
+--   - market_value: The stash's value now (>= 0), in the stash's currency
+--   - valuation_description: Optional note
+-- Returns: The ID of the adjustment transaction
+-- Raises:
+--   - 'Stash not found' for missing, deleted or foreign stashes
+--   - check_violation when the market value is negative
+-- Security: SECURITY INVOKER - all reads and writes go through the caller's RLS
+-- ----------------------------------------------------------------------------
+
+create or replace function record_stash_valuation(
+  target_stash_id uuid,
+  market_value numeric,
+  valuation_description text
+)
+returns uuid as $$
+declare
+  v_transaction_id uuid;
+  v_current_balance numeric;
+begin
+  if market_value < 0 then
+    raise exception 'Market value cannot be negative' using errcode = 'check_violation';
+  end if;
+
+  -- Lock the stash so a concurrent transaction cannot change the balance the
+  -- adjustment is computed from
+  select current_balance into v_current_balance
+  from stashes
+  where id = target_stash_id and user_id = auth.uid() and deleted_at is null
+  for update;
+
+  if v_current_balance is null then
+    raise exception 'Stash not found';
+  end if;
+
+  insert into stash_transactions (stash_id, user_id, transaction_type, amount, description)
+  values (
+    target_stash_id,
+    auth.uid(),
+    'adjustment',
+    round(market_value, 8) - v_current_balance,
+    valuation_description
+  )
+  returning id into v_transaction_id;
+
+  return v_transaction_id;
+end;
+$$ language plpgsql security invoker;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
@@ -0,0 +1,107 @@
+-- ============================================================================
+-- Migration: Expense split rescaling
+-- Description: Keeps split lines valid when the amount of a split expense
+--              shrinks so much that a line rounds to zero
+-- Created: 2025-12-16 11:00:00 UTC
+--
+-- Changes:
+--   - sync_expense_splits() rounds rescaled lines down, drops lines that would
+--     reach 0.00 and folds their share into the largest line; a split left
+--     with one line becomes a regular expense in that line's category
+--   - expense_splits allows a single uncategorized line per expense
+--     (unique nulls not distinct)
+--
+-- Notes:
+--   - Before, e.g. a 0.01 line of an expense reduced from 10.00 to 4.00 was
+--     rescaled to 0.00 and failed expense_splits_amount_positive, so the
+--     expense update itself failed
+--   - The old unique (expense_id, category_id) treated nulls as distinct, so
+--     nothing below the API stopped two uncategorized lines
+-- ============================================================================
+
+-- ============================================================================
+-- 1. ONE LINE PER CATEGORY
+-- ============================================================================
+
+alter table expense_splits
+  drop constraint if exists expense_splits_expense_category_unique;
+
+alter table expense_splits
+  add constraint expense_splits_expense_category_unique unique nulls not distinct (expense_id, category_id);
+
+-- ============================================================================
+-- 2. RESCALING
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Keep split lines consistent with their expense
+-- ----------------------------------------------------------------------------
+-- Purpose:
+--   - A new amount rescales the lines proportionally (rounded down); the
+--     remainder goes to the largest line so the lines still add up to the amount
+--   - Lines that round to zero are removed (their share goes to the largest
+--     line too); when only one line is left, the expense takes its category
+--     and the split is removed, since a split needs at least 2 lines
+--   - A category assigned to the expense itself replaces its lines
+-- Security: SECURITY INVOKER - runs with the rights of the user editing the expense
+-- ----------------------------------------------------------------------------
+
+create or replace function sync_expense_splits()
+returns trigger as $$
+declare
+  v_largest_id uuid;
+  v_category_id uuid;
+begin
+  if new.category_id is not null then
+    delete from expense_splits where expense_id = new.id;
+    return new;
+  end if;
+
+  if new.amount is distinct from old.amount
+    and exists (select 1 from expense_splits where expense_id = new.id) then
+    -- Picked before rescaling so the line taking the remainder is never removed
+    select id into v_largest_id
+    from expense_splits
+    where expense_id = new.id
+    order by amount desc, id
+    limit 1;
+
+    -- Removed before rescaling: a 0.00 line would fail expense_splits_amount_positive
+    delete from expense_splits
+    where expense_id = new.id and id <> v_largest_id
+      and trunc(amount * new.amount / old.amount, 2) <= 0;
+
+    -- Rounded down, so the other lines never add up to more than the amount
+    update expense_splits
+    set amount = trunc(amount * new.amount / old.amount, 2)
+    where expense_id = new.id and id <> v_largest_id;
+
+    update expense_splits
+    set amount = new.amount - coalesce((
+      select sum(amount) from expense_splits
+      where expense_id = new.id and id <> v_largest_id
+    ), 0)
+    where id = v_largest_id;
+
+    if (select count(*) from expense_splits where expense_id = new.id) = 1 then
+      select category_id into v_category_id
+      from expense_splits
+      where id = v_largest_id;
+
+      delete from expense_splits where expense_id = new.id;
+
+      if v_category_id is not null then
+        update expenses
+        set category_id = v_category_id
+        where id = new.id;
+      end if;
+    end if;
+  end if;
+
+  return new;
+end;
+$$ language plpgsql security invoker;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
@@ -0,0 +1,82 @@
+-- ============================================================================
+-- Migration: Recurring expense scheduled month
+-- Description: Remembers which month an occurrence of a recurring expense was
+--              generated for, so moving it to another date cannot create a
+--              duplicate or a conflict
+-- Created: 2025-12-16 12:00:00 UTC
+--
+-- Changes:
+--   - expenses.scheduled_month: the month an occurrence was materialized for;
+--     set once on insert (required for occurrences) and never changed afterwards
+--   - Unique (recurring_expense_id, scheduled_month) replaces
+--     unique (recurring_expense_id, year_month)
+--
+-- Notes:
+--   - Keyed on year_month, an occurrence moved to another month freed its
+--     original month, which was then generated again (a second charge), and
+--     moving two occurrences into the same month (e.g. with a bulk date
+--     change) failed on the unique constraint
+--   - Existing occurrences are backfilled from year_month; one that was already
+--     moved keeps its current month as its slot
+--   - Soft-deleted occurrences still hold their slot, so deleted occurrences of
+--     recurring expenses are still never purged from the trash
+-- ============================================================================
+
+-- ============================================================================
+-- 1. SCHEDULED MONTH
+-- ============================================================================
+
+alter table expenses
+  add column if not exists scheduled_month varchar(7) null
+    constraint expenses_scheduled_month_format check (scheduled_month ~ '^\d{4}-\d{2}$');
+
+-- Backfill without the row triggers: nothing about the expenses changes, so
+-- no audit entries, updated_at bumps or budget recalculations are needed
+alter table expenses disable trigger user;
+
+update expenses
+set scheduled_month = year_month
+where recurring_expense_id is not null;
+
+alter table expenses enable trigger user;
+
+-- Every occurrence needs its slot; manual expenses have none
+alter table expenses
+  add constraint expenses_recurring_scheduled_month_required
+    check (recurring_expense_id is null or scheduled_month is not null);
+
+-- ----------------------------------------------------------------------------
+-- Function: Keep an occurrence's scheduled month fixed
+-- ----------------------------------------------------------------------------
+
+create or replace function prevent_scheduled_month_change()
+returns trigger as $$
+begin
+  if new.scheduled_month is distinct from old.scheduled_month then
+    raise exception 'Scheduled month cannot be changed' using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$ language plpgsql;
+
+create trigger trigger_prevent_scheduled_month_change
+  before update of scheduled_month on expenses
+  for each row
+  execute function prevent_scheduled_month_change();
+
+-- ============================================================================
+-- 2. ONE OCCURRENCE PER SCHEDULED MONTH
+-- ============================================================================
+
+-- One occurrence per definition and scheduled month (nulls are distinct, so manual expenses are unaffected)
+-- Note: Not partial on deleted_at on purpose - a removed occurrence must not be recreated
+alter table expenses
+  drop constraint if exists expenses_recurring_month_unique;
+
+alter table expenses
+  add constraint expenses_recurring_scheduled_month_unique unique (recurring_expense_id, scheduled_month);
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
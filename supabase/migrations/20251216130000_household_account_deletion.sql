@@ -0,0 +1,140 @@
+-- ============================================================================
+-- Migration: Household account deletion
+-- Description: Lets a household member delete their account while the
+--              household still uses their categories
+-- Created: 2025-12-16 13:00:00 UTC
+--
+-- Changes:
+--   - delete_user_account() hands the user's categories that household rows
+--     still use to a member owning such a row (archived) instead of failing
+--     on the category foreign keys
+--   - delete_user_account() only deletes the user's personal month budgets
+--
+-- Notes:
+--   - Members can put their own categories on each other's expenses (see
+--     20251214100000_household_expense_categories.sql), and split lines and
+--     allocations handed to the successor keep their categories, so deleting
+--     every category of the user failed with foreign_key_violation
+--   - Also covers categories still used by a household the user left earlier
+--   - Execute stays revoked from public, anon and authenticated
+-- ============================================================================
+
+-- ============================================================================
+-- 1. ACCOUNT DELETION
+-- ============================================================================
+
+create or replace function delete_user_account(target_user_id uuid)
+returns void as $$
+declare
+  v_successor_id uuid;
+begin
+  -- Delete in order to respect foreign key constraints
+
+  -- 0. Leave the household. The household's budgets, their allocations and the split lines
+  --    the user wrote on other members' expenses are handed to the member who joined first;
+  --    the user's own expenses are deleted below. As its last member, the household's data
+  --    becomes the user's and is deleted below.
+  select m.user_id into v_successor_id
+  from household_members m
+  join household_members self on self.household_id = m.household_id
+  where self.user_id = target_user_id
+    and m.user_id <> target_user_id
+  order by m.joined_at
+  limit 1;
+
+  if v_successor_id is not null then
+    update month_budget
+    set user_id = v_successor_id
+    where user_id = target_user_id and household_id is not null;
+
+    update month_budget_categories c
+    set user_id = v_successor_id
+    from month_budget b
+    where b.id = c.month_budget_id and b.household_id is not null and c.user_id = target_user_id;
+
+    update expense_splits s
+    set user_id = v_successor_id
+    from expenses e
+    where e.id = s.expense_id and e.household_id is not null and e.user_id <> target_user_id
+      and s.user_id = target_user_id;
+  end if;
+
+  perform remove_household_member(target_user_id);
+  delete from household_invitations where invited_by = target_user_id;
+
+  -- 1. Delete stash transactions (will be cascaded by FK, but explicit for clarity)
+  delete from stash_transactions where user_id = target_user_id;
+
+  -- 2. Delete stashes (will cascade to transactions via FK)
+  delete from stashes where user_id = target_user_id;
+
+  -- 3. Delete exchange rates
+  delete from exchange_rates where user_id = target_user_id;
+
+  -- 4. Delete expense tags (would be cascaded by expenses and tags, but explicit for clarity)
+  delete from expense_tags where user_id = target_user_id;
+  delete from tags where user_id = target_user_id;
+
+  -- 5. Delete expense split lines (would be cascaded by expenses, but explicit for clarity)
+  delete from expense_splits where user_id = target_user_id;
+
+  -- 6. Delete expenses (including the ones the user added to a household)
+  delete from expenses where user_id = target_user_id;
+
+  -- 7. Delete recurring expense definitions
+  delete from recurring_expenses where user_id = target_user_id;
+
+  -- 8. Delete category allocations (would be cascaded by month_budget, but explicit for clarity)
+  delete from month_budget_categories where user_id = target_user_id;
+
+  -- 9. Delete month budgets (household budgets were handed over above and stay)
+  delete from month_budget where user_id = target_user_id and household_id is null;
+
+  -- 10. Delete budget templates and their allocations
+  delete from budget_template_categories where user_id = target_user_id;
+  delete from budget_templates where user_id = target_user_id;
+
+  -- 11. Hand over the user's categories that household rows still use (another member's
+  --     expense, or a split line or allocation handed over above) to a member owning such
+  --     a row. They are archived, so they keep their name on those rows without clashing
+  --     with the new owner's categories or being offered for new expenses.
+  update expense_categories c
+  set user_id = coalesce(
+        (select e.user_id from expenses e where e.category_id = c.id limit 1),
+        (select s.user_id from expense_splits s where s.category_id = c.id limit 1),
+        (select a.user_id from month_budget_categories a where a.category_id = c.id limit 1)
+      ),
+      archived_at = coalesce(c.archived_at, now())
+  where c.user_id = target_user_id
+    and (
+      exists (select 1 from expenses e where e.category_id = c.id)
+      or exists (select 1 from expense_splits s where s.category_id = c.id)
+      or exists (select 1 from month_budget_categories a where a.category_id = c.id)
+    );
+
+  -- 12. Delete the remaining user-defined expense categories (after everything referencing them)
+  delete from expense_categories where user_id = target_user_id;
+
+  -- 13. Delete two-factor recovery codes
+  delete from mfa_recovery_codes where user_id = target_user_id;
+
+  -- 14. Delete personal API tokens
+  delete from api_tokens where user_id = target_user_id;
+
+  -- 15. Delete the audit log last (the deletes above add entries to it)
+  delete from audit_log where user_id = target_user_id;
+
+  -- Note: Auth user deletion handled separately via Supabase Auth API
+  -- This function only cleans up application data
+
+end;
+$$ language plpgsql security definer;
+
+-- Still for the service role only (see 20251206100000_account_deletion.sql)
+revoke execute on function delete_user_account(uuid) from public;
+revoke execute on function delete_user_account(uuid) from anon;
+revoke execute on function delete_user_account(uuid) from authenticated;
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
@@ -0,0 +1,149 @@
+-- ============================================================================
+-- Migration: Household category merge
+-- Description: Merging a category also moves the household rows other members
+--              wrote with it
+-- Created: 2025-12-16 14:00:00 UTC
+--
+-- Changes:
+--   - merge_expense_categories() moves the source category on every expense,
+--     split line and allocation in the caller's budget scope, not only on the
+--     rows the caller wrote
+--   - Moved split lines and allocations are rewritten by the caller
+--
+-- Notes:
+--   - Members can put their own categories on each other's expenses (see
+--     20251214100000_household_expense_categories.sql), so a partner's
+--     expense, split line or allocation could still use the source category
+--     and the final delete failed with foreign_key_violation
+--   - validate_expense_category() checks split lines and allocations against
+--     their user_id, so a line moved to the caller's category must be the
+--     caller's, as set_expense_splits() and set_month_budget_categories()
+--     already do
+--   - Recurring expenses and budget templates stay per user
+-- ============================================================================
+
+-- ============================================================================
+-- 1. MERGE CATEGORIES
+-- ============================================================================
+-- Purpose: Move the source category on the caller's rows and on the rows of
+--          the caller's household. Split lines and allocations for the source
+--          still join an existing line for the target.
+-- ============================================================================
+
+create or replace function merge_expense_categories(source_category_id uuid, target_category_id uuid)
+returns integer as $$
+declare
+  v_moved integer;
+begin
+  if source_category_id = target_category_id then
+    raise exception 'Cannot merge a category into itself';
+  end if;
+
+  if not exists (
+    select 1 from expense_categories
+    where id = source_category_id and user_id = auth.uid()
+  ) then
+    raise exception 'Source category not found';
+  end if;
+
+  if not exists (
+    select 1 from expense_categories
+    where id = target_category_id and (user_id is null or user_id = auth.uid())
+  ) then
+    raise exception 'Target category not found';
+  end if;
+
+  update expenses
+  set category_id = target_category_id
+  where category_id = source_category_id
+    and (user_id = auth.uid() or household_id = current_household_id());
+
+  get diagnostics v_moved = row_count;
+
+  update recurring_expenses
+  set category_id = target_category_id
+  where category_id = source_category_id
+    and user_id = auth.uid();
+
+  -- Fold source allocations into existing target allocations of the same month
+  update month_budget_categories t
+  set amount = t.amount + s.amount
+  from month_budget_categories s
+  where s.category_id = source_category_id
+    and (s.user_id = auth.uid() or s.month_budget_id in (select id from month_budget where household_id = current_household_id()))
+    and t.category_id = target_category_id
+    and t.month_budget_id = s.month_budget_id;
+
+  delete from month_budget_categories s
+  where s.category_id = source_category_id
+    and (s.user_id = auth.uid() or s.month_budget_id in (select id from month_budget where household_id = current_household_id()))
+    and exists (
+      select 1 from month_budget_categories t
+      where t.month_budget_id = s.month_budget_id
+        and t.category_id = target_category_id
+    );
+
+  -- Rewritten by the caller, like set_month_budget_categories() does, so the target passes
+  -- the category ownership check on another member's allocation
+  update month_budget_categories
+  set category_id = target_category_id,
+      user_id = auth.uid()
+  where category_id = source_category_id
+    and (user_id = auth.uid() or month_budget_id in (select id from month_budget where household_id = current_household_id()));
+
+  -- Same for template allocations
+  update budget_template_categories t
+  set amount = t.amount + s.amount
+  from budget_template_categories s
+  where s.category_id = source_category_id
+    and s.user_id = auth.uid()
+    and t.category_id = target_category_id
+    and t.template_id = s.template_id;
+
+  delete from budget_template_categories s
+  where s.category_id = source_category_id
+    and s.user_id = auth.uid()
+    and exists (
+      select 1 from budget_template_categories t
+      where t.template_id = s.template_id
+        and t.category_id = target_category_id
+    );
+
+  update budget_template_categories
+  set category_id = target_category_id
+  where category_id = source_category_id
+    and user_id = auth.uid();
+
+  -- Same for split lines: a line for the source joins the expense's line for the target
+  update expense_splits t
+  set amount = t.amount + s.amount
+  from expense_splits s
+  where s.category_id = source_category_id
+    and (s.user_id = auth.uid() or s.expense_id in (select id from expenses where household_id = current_household_id()))
+    and t.category_id = target_category_id
+    and t.expense_id = s.expense_id;
+
+  delete from expense_splits s
+  where s.category_id = source_category_id
+    and (s.user_id = auth.uid() or s.expense_id in (select id from expenses where household_id = current_household_id()))
+    and exists (
+      select 1 from expense_splits t
+      where t.expense_id = s.expense_id
+        and t.category_id = target_category_id
+    );
+
+  -- Rewritten by the caller, like set_expense_splits() does (see above)
+  update expense_splits
+  set category_id = target_category_id,
+      user_id = auth.uid()
+  where category_id = source_category_id
+    and (user_id = auth.uid() or expense_id in (select id from expenses where household_id = current_household_id()));
+
+  delete from expense_categories where id = source_category_id;
+
+  return v_moved;
+end;
+$$ language plpgsql security invoker;
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
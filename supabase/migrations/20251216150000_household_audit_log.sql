@@ -0,0 +1,127 @@
+-- ============================================================================
+-- Migration: Household audit log
+-- Description: Household members see the history of the household's month
+--              budgets and expenses, whoever created them
+-- Created: 2025-12-16 15:00:00 UTC
+--
+-- Changes:
+--   - audit_log.household_id: the household the logged row belonged to when
+--     the change was made
+--   - record_audit_log() fills it in from the row
+--   - The select policy also returns the entries of the caller's household
+--
+-- Notes:
+--   - Entries were only readable by the owner of the logged row, so the
+--     history of a shared expense or budget added by another member was
+--     hidden from the rest of the household
+--   - Stashes and stash transactions carry no household, so their history
+--     stays with their owner, shared or not
+--   - Existing entries take the household from their logged values when that
+--     household still exists
+--   - When a household is deleted its entries keep only their owner
+-- ============================================================================
+
+-- ============================================================================
+-- 1. HOUSEHOLD COLUMN
+-- ============================================================================
+
+alter table audit_log
+  add column if not exists household_id uuid null references households(id) on delete set null;
+
+-- Index: Optimize the household's activity feed (newest first)
+create index if not exists idx_audit_log_household_created
+  on audit_log(household_id, created_at desc)
+  where household_id is not null;
+
+-- Backfill past the append-only trigger: only the new column is written
+alter table audit_log disable trigger trigger_prevent_audit_log_update;
+
+update audit_log a
+set household_id = h.id
+from households h
+where h.id = (coalesce(a.new_values, a.old_values) ->> 'household_id')::uuid;
+
+alter table audit_log enable trigger trigger_prevent_audit_log_update;
+
+-- ============================================================================
+-- 2. AUDIT TRIGGER
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- Function: Record a change to an audited table
+-- ----------------------------------------------------------------------------
+-- Purpose: Also store the household of the logged row (null for personal rows,
+--          stashes and stash transactions)
+-- ----------------------------------------------------------------------------
+
+create or replace function record_audit_log()
+returns trigger as $$
+declare
+  v_old jsonb;
+  v_new jsonb;
+  v_row jsonb;
+  v_operation varchar(20);
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    v_old := to_jsonb(old) - 'user_id';
+  end if;
+
+  if tg_op in ('INSERT', 'UPDATE') then
+    v_new := to_jsonb(new) - 'user_id';
+  end if;
+
+  if tg_op = 'INSERT' then
+    v_operation := 'insert';
+    v_row := to_jsonb(new);
+  elsif tg_op = 'DELETE' then
+    v_operation := 'delete';
+    v_row := to_jsonb(old);
+  else
+    if (v_old - 'updated_at') = (v_new - 'updated_at') then
+      return null;
+    end if;
+
+    v_operation := case
+      when v_old ->> 'deleted_at' is null and v_new ->> 'deleted_at' is not null then 'soft_delete'
+      when v_old ->> 'deleted_at' is not null and v_new ->> 'deleted_at' is null then 'restore'
+      else 'update'
+    end;
+    v_row := to_jsonb(new);
+  end if;
+
+  if not exists (select 1 from auth.users where id = (v_row ->> 'user_id')::uuid) then
+    return null;
+  end if;
+
+  insert into audit_log (user_id, household_id, actor_id, entity_type, entity_id, operation, old_values, new_values)
+  values (
+    (v_row ->> 'user_id')::uuid,
+    (v_row ->> 'household_id')::uuid,
+    auth.uid(),
+    tg_argv[0],
+    (v_row ->> 'id')::uuid,
+    v_operation,
+    v_old,
+    v_new
+  );
+
+  return null;
+end;
+$$ language plpgsql security definer;
+
+-- ============================================================================
+-- 3. RLS POLICY
+-- ============================================================================
+
+drop policy if exists audit_log_select_policy_authenticated on audit_log;
+
+-- RLS Policy: Users can view their own audit log and their household's (authenticated)
+-- Rationale: The history of a shared record belongs to every member of its household
+create policy audit_log_select_policy_authenticated on audit_log
+  for select
+  to authenticated
+  using (user_id = (select auth.uid()) or household_id = (select current_household_id()));
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
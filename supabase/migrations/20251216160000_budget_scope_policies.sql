@@ -0,0 +1,137 @@
+-- ============================================================================
+-- Migration: Budget scope policies
+-- Description: Lets the month_budget and expenses policies use their indexes
+-- Created: 2025-12-16 16:00:00 UTC
+--
+-- Changes:
+--   - The month_budget and expenses policies spell out the budget scope rule
+--     of in_budget_scope() with auth.uid() and current_household_id() wrapped
+--     in sub-selects
+--
+-- Notes:
+--   - Called from a policy, in_budget_scope() ran once per row and hid the
+--     household_id and user_id comparisons from the planner, so every query
+--     scanned the whole table instead of using the (household_id, ...) and
+--     (user_id, ...) indexes
+--   - A sub-select is evaluated once per statement (an InitPlan), after which
+--     the comparisons are plain column = value conditions
+--   - The rule itself is unchanged; in_budget_scope() stays for the functions
+--   - Allocation, split line and tag policies look up their budget or expense
+--     by primary key through these policies and are unchanged
+-- ============================================================================
+
+-- ============================================================================
+-- 1. MONTH BUDGET POLICIES
+-- ============================================================================
+
+drop policy if exists month_budget_select_policy_authenticated on month_budget;
+drop policy if exists month_budget_insert_policy_authenticated on month_budget;
+drop policy if exists month_budget_update_policy_authenticated on month_budget;
+drop policy if exists month_budget_delete_policy_authenticated on month_budget;
+
+-- RLS Policy: Users can view the budgets in their budget scope (authenticated)
+-- Rationale: Household budgets are shared by all members, personal ones stay private
+create policy month_budget_select_policy_authenticated on month_budget
+  for select
+  to authenticated
+  using (
+    household_id = (select current_household_id())
+    or (household_id is null and user_id = (select auth.uid()) and (select current_household_id()) is null)
+  );
+
+-- RLS Policy: Users can create budgets in their budget scope (authenticated)
+-- Rationale: The row is recorded as created by the caller
+create policy month_budget_insert_policy_authenticated on month_budget
+  for insert
+  to authenticated
+  with check (
+    user_id = (select auth.uid())
+    and (
+      household_id = (select current_household_id())
+      or (household_id is null and (select current_household_id()) is null)
+    )
+  );
+
+-- RLS Policy: Users can update the budgets in their budget scope (authenticated)
+-- Rationale: Any member may change a household budget; it cannot be moved out of the scope
+create policy month_budget_update_policy_authenticated on month_budget
+  for update
+  to authenticated
+  using (
+    household_id = (select current_household_id())
+    or (household_id is null and user_id = (select auth.uid()) and (select current_household_id()) is null)
+  )
+  with check (
+    household_id = (select current_household_id())
+    or (household_id is null and user_id = (select auth.uid()) and (select current_household_id()) is null)
+  );
+
+-- RLS Policy: Users can delete the budgets in their budget scope (authenticated)
+-- Rationale: Same rule as updates
+create policy month_budget_delete_policy_authenticated on month_budget
+  for delete
+  to authenticated
+  using (
+    household_id = (select current_household_id())
+    or (household_id is null and user_id = (select auth.uid()) and (select current_household_id()) is null)
+  );
+
+-- ============================================================================
+-- 2. EXPENSE POLICIES
+-- ============================================================================
+
+drop policy if exists expenses_select_policy_authenticated on expenses;
+drop policy if exists expenses_insert_policy_authenticated on expenses;
+drop policy if exists expenses_update_policy_authenticated on expenses;
+drop policy if exists expenses_delete_policy_authenticated on expenses;
+
+-- RLS Policy: Users can view the expenses in their budget scope (authenticated)
+-- Rationale: Household expenses are shared by all members, personal ones stay private
+create policy expenses_select_policy_authenticated on expenses
+  for select
+  to authenticated
+  using (
+    household_id = (select current_household_id())
+    or (household_id is null and user_id = (select auth.uid()) and (select current_household_id()) is null)
+  );
+
+-- RLS Policy: Users can add expenses to their budget scope (authenticated)
+-- Rationale: The row is recorded as added by the caller
+create policy expenses_insert_policy_authenticated on expenses
+  for insert
+  to authenticated
+  with check (
+    user_id = (select auth.uid())
+    and (
+      household_id = (select current_household_id())
+      or (household_id is null and (select current_household_id()) is null)
+    )
+  );
+
+-- RLS Policy: Users can update the expenses in their budget scope (authenticated)
+-- Rationale: Any member may correct a household expense; it cannot be moved out of the scope
+create policy expenses_update_policy_authenticated on expenses
+  for update
+  to authenticated
+  using (
+    household_id = (select current_household_id())
+    or (household_id is null and user_id = (select auth.uid()) and (select current_household_id()) is null)
+  )
+  with check (
+    household_id = (select current_household_id())
+    or (household_id is null and user_id = (select auth.uid()) and (select current_household_id()) is null)
+  );
+
+-- RLS Policy: Users can delete the expenses in their budget scope (authenticated)
+-- Rationale: Same rule as updates
+create policy expenses_delete_policy_authenticated on expenses
+  for delete
+  to authenticated
+  using (
+    household_id = (select current_household_id())
+    or (household_id is null and user_id = (select auth.uid()) and (select current_household_id()) is null)
+  );
+
+-- ============================================================================
+-- Migration Complete
+-- ============================================================================
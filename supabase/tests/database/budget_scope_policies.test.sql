@@ -0,0 +1,74 @@
+-- ============================================================================
+-- Test: The month_budget and expenses policies keep the budget scope rule
+-- Run with: supabase test db
+-- ============================================================================
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(5);
+
+select ok(
+  not exists (
+    select 1 from pg_policies
+    where tablename in ('month_budget', 'expenses')
+      and (qual like '%in_budget_scope%' or with_check like '%in_budget_scope%')
+  ),
+  'the policies do not call in_budget_scope() per row'
+);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com'),
+  ('00000000-0000-0000-0000-00000000000b', 'bob@example.com');
+
+set local role authenticated;
+
+-- Bob adds a personal expense, then Alice creates a household and adds one to it
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000b", "role": "authenticated"}', true);
+
+insert into expenses (id, user_id, amount, expense_date, description)
+values ('00000000-0000-0000-0000-0000000000e1', auth.uid(), 10, '2025-12-01', 'Bob alone');
+
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+select create_household('Home');
+
+insert into household_invitations (household_id, email, invited_by)
+values (current_household_id(), 'bob@example.com', auth.uid());
+
+insert into expenses (id, user_id, amount, expense_date, description)
+values ('00000000-0000-0000-0000-0000000000e2', auth.uid(), 20, '2025-12-02', 'Shared');
+
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000b", "role": "authenticated"}', true);
+
+select results_eq(
+  $$ select id from expenses order by id $$,
+  $$ values ('00000000-0000-0000-0000-0000000000e1'::uuid) $$,
+  'outside the household only personal expenses are visible'
+);
+
+select accept_household_invitation((select id from household_invitations where email = 'bob@example.com'));
+
+select results_eq(
+  $$ select id from expenses order by id $$,
+  $$ values ('00000000-0000-0000-0000-0000000000e2'::uuid) $$,
+  'inside the household only household expenses are visible'
+);
+
+select throws_ok(
+  $$ insert into expenses (user_id, amount, expense_date, description)
+     values ('00000000-0000-0000-0000-00000000000a', 5, '2025-12-03', 'As Alice') $$,
+  '42501',
+  null,
+  'an expense cannot be added for another member'
+);
+
+select lives_ok(
+  $$ update expenses set amount = 25 where id = '00000000-0000-0000-0000-0000000000e2' $$,
+  'a member can correct another member''s household expense'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,75 @@
+-- ============================================================================
+-- Test: Applying a budget template overwrites the months of the range
+-- Run with: supabase test db
+-- ============================================================================
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(5);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com');
+
+insert into expense_categories (id, user_id, name, slug, display_name, archived_at) values
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-00000000000a', 'food', 'food', 'Food', null),
+  ('00000000-0000-0000-0000-0000000000c2', '00000000-0000-0000-0000-00000000000a', 'home', 'home', 'Home', null),
+  ('00000000-0000-0000-0000-0000000000c3', '00000000-0000-0000-0000-00000000000a', 'gym', 'gym', 'Gym', now());
+
+set local role authenticated;
+
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+-- December already has a budget with two allocations
+insert into month_budget (id, user_id, year_month, budget_set)
+values ('00000000-0000-0000-0000-0000000000b1', auth.uid(), '2025-12', 1000);
+
+select set_month_budget_categories('00000000-0000-0000-0000-0000000000b1', '[
+  {"category_id": "00000000-0000-0000-0000-0000000000c1", "amount": 100.00},
+  {"category_id": "00000000-0000-0000-0000-0000000000c2", "amount": 50.00}
+]'::jsonb);
+
+-- The template still allocates to the archived category
+select save_budget_template(null, 'Regular month', 2000, '[
+  {"category_id": "00000000-0000-0000-0000-0000000000c1", "amount": 500.00},
+  {"category_id": "00000000-0000-0000-0000-0000000000c3", "amount": 200.00}
+]'::jsonb);
+
+select is(
+  apply_budget_template((select id from budget_templates where name = 'Regular month'), '2025-12', '2026-01'),
+  2,
+  'the template is applied to both months'
+);
+
+select is(
+  (select budget_set from month_budget where id = '00000000-0000-0000-0000-0000000000b1'),
+  2000.00::numeric(12,2),
+  'the existing budget takes the template''s amount'
+);
+
+select results_eq(
+  $$ select category_id, amount from month_budget_categories
+     where month_budget_id = '00000000-0000-0000-0000-0000000000b1' order by amount desc $$,
+  $$ values ('00000000-0000-0000-0000-0000000000c1'::uuid, 500.00::numeric(12,2)),
+            ('00000000-0000-0000-0000-0000000000c3'::uuid, 200.00::numeric(12,2)) $$,
+  'the existing allocations are replaced, not merged, including the archived category'
+);
+
+select is(
+  (select budget_set from month_budget where year_month = '2026-01' and deleted_at is null),
+  2000.00::numeric(12,2),
+  'a month without a budget gets one'
+);
+
+select is(
+  (select count(*)::int from month_budget_categories c
+   join month_budget b on b.id = c.month_budget_id
+   where b.year_month = '2026-01'),
+  2,
+  'the new month gets the template''s allocations'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,102 @@
+-- ============================================================================
+-- Test: Split lines stay valid when the expense amount shrinks
+-- Run with: supabase test db
+-- ============================================================================
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(8);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com');
+
+insert into expense_categories (id, user_id, name, slug, display_name) values
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-00000000000a', 'food', 'food', 'Food'),
+  ('00000000-0000-0000-0000-0000000000c2', '00000000-0000-0000-0000-00000000000a', 'home', 'home', 'Home'),
+  ('00000000-0000-0000-0000-0000000000c3', '00000000-0000-0000-0000-00000000000a', 'treats', 'treats', 'Treats');
+
+set local role authenticated;
+
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+insert into expenses (id, user_id, amount, expense_date, description) values
+  ('00000000-0000-0000-0000-0000000000e1', auth.uid(), 10, '2025-12-10', 'Supermarket'),
+  ('00000000-0000-0000-0000-0000000000e2', auth.uid(), 10, '2025-12-10', 'Bakery');
+
+select set_expense_splits('00000000-0000-0000-0000-0000000000e1', '[
+  {"category_id": "00000000-0000-0000-0000-0000000000c1", "amount": 5.00},
+  {"category_id": "00000000-0000-0000-0000-0000000000c2", "amount": 4.99},
+  {"category_id": "00000000-0000-0000-0000-0000000000c3", "amount": 0.01}
+]'::jsonb);
+
+select set_expense_splits('00000000-0000-0000-0000-0000000000e2', '[
+  {"category_id": "00000000-0000-0000-0000-0000000000c1", "amount": 9.99},
+  {"category_id": "00000000-0000-0000-0000-0000000000c3", "amount": 0.01}
+]'::jsonb);
+
+-- A 0.01 line rescaled to 40% would be 0.00
+select lives_ok(
+  $$ update expenses set amount = 4 where id = '00000000-0000-0000-0000-0000000000e1' $$,
+  'reducing the amount of a split with a 0.01 line succeeds'
+);
+
+select results_eq(
+  $$ select category_id, amount from expense_splits
+     where expense_id = '00000000-0000-0000-0000-0000000000e1' order by amount desc $$,
+  $$ values ('00000000-0000-0000-0000-0000000000c1'::uuid, 2.01::numeric(12,2)),
+            ('00000000-0000-0000-0000-0000000000c2'::uuid, 1.99::numeric(12,2)) $$,
+  'the line that reached zero is dropped and its share goes to the largest line'
+);
+
+select lives_ok(
+  $$ update expenses set amount = 4 where id = '00000000-0000-0000-0000-0000000000e2' $$,
+  'reducing a two-line split with a 0.01 line succeeds'
+);
+
+select is(
+  (select count(*)::int from expense_splits where expense_id = '00000000-0000-0000-0000-0000000000e2'),
+  0,
+  'a split left with one line is removed'
+);
+
+select is(
+  (select category_id from expenses where id = '00000000-0000-0000-0000-0000000000e2'),
+  '00000000-0000-0000-0000-0000000000c1'::uuid,
+  'the expense takes the category of the remaining line'
+);
+
+select is(
+  (select amount from expenses where id = '00000000-0000-0000-0000-0000000000e2'),
+  4.00::numeric(12,2),
+  'the expense keeps its new amount'
+);
+
+-- One uncategorized line per expense
+select set_expense_splits('00000000-0000-0000-0000-0000000000e1', '[
+  {"category_id": null, "amount": 3.00},
+  {"category_id": "00000000-0000-0000-0000-0000000000c1", "amount": 1.00}
+]'::jsonb);
+
+select throws_ok(
+  $$ insert into expense_splits (expense_id, user_id, category_id, amount)
+     values ('00000000-0000-0000-0000-0000000000e1', auth.uid(), null, 1) $$,
+  '23505',
+  null,
+  'an expense cannot have two uncategorized lines'
+);
+
+select throws_ok(
+  $$ select set_expense_splits('00000000-0000-0000-0000-0000000000e1', '[
+       {"category_id": null, "amount": 2.00},
+       {"category_id": null, "amount": 2.00}
+     ]'::jsonb) $$,
+  '23505',
+  null,
+  'set_expense_splits() refuses two uncategorized lines'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,49 @@
+-- ============================================================================
+-- Test: SECURITY DEFINER functions that act on any user stay server-only
+-- Run with: supabase test db
+-- ============================================================================
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(7);
+
+select ok(
+  not has_function_privilege('anon', 'delete_user_account(uuid)', 'execute'),
+  'anon cannot call delete_user_account()'
+);
+
+select ok(
+  not has_function_privilege('authenticated', 'delete_user_account(uuid)', 'execute'),
+  'authenticated cannot call delete_user_account()'
+);
+
+select ok(
+  has_function_privilege('service_role', 'delete_user_account(uuid)', 'execute'),
+  'the service role can call delete_user_account()'
+);
+
+select ok(
+  not has_function_privilege('anon', 'remove_household_member(uuid)', 'execute'),
+  'anon cannot call remove_household_member()'
+);
+
+select ok(
+  not has_function_privilege('authenticated', 'remove_household_member(uuid)', 'execute'),
+  'authenticated cannot call remove_household_member()'
+);
+
+select ok(
+  not has_function_privilege('anon', 'recalculate_month_budget_balance(uuid, uuid, varchar)', 'execute'),
+  'anon cannot call recalculate_month_budget_balance()'
+);
+
+select ok(
+  not has_function_privilege('authenticated', 'recalculate_month_budget_balance(uuid, uuid, varchar)', 'execute'),
+  'authenticated cannot call recalculate_month_budget_balance()'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,102 @@
+-- ============================================================================
+-- Test: A household member whose categories the household uses deletes their account
+-- Run with: supabase test db
+-- ============================================================================
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(6);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com'),
+  ('00000000-0000-0000-0000-00000000000b', 'bob@example.com');
+
+insert into expense_categories (id, user_id, name, slug, display_name) values
+  ('00000000-0000-0000-0000-0000000000cb', '00000000-0000-0000-0000-00000000000b', 'bob-hobby', 'bob-hobby', 'Hobby');
+
+set local role authenticated;
+
+-- Alice creates the household, its December budget and two expenses
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+select create_household('Home');
+
+insert into household_invitations (household_id, email, invited_by)
+values (current_household_id(), 'bob@example.com', auth.uid());
+
+insert into month_budget (id, user_id, year_month, budget_set)
+values ('00000000-0000-0000-0000-0000000000b1', auth.uid(), '2025-12', 1000);
+
+insert into expenses (id, user_id, amount, expense_date, description) values
+  ('00000000-0000-0000-0000-0000000000e1', auth.uid(), 25, '2025-12-10', 'Paint'),
+  ('00000000-0000-0000-0000-0000000000e2', auth.uid(), 30, '2025-12-11', 'Market');
+
+-- Bob joins and uses his category on Alice's expense, a split line and an allocation
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000b", "role": "authenticated"}', true);
+
+select accept_household_invitation((select id from household_invitations where email = 'bob@example.com'));
+
+update expenses set category_id = '00000000-0000-0000-0000-0000000000cb'
+where id = '00000000-0000-0000-0000-0000000000e1';
+
+select set_expense_splits('00000000-0000-0000-0000-0000000000e2', '[
+  {"category_id": "00000000-0000-0000-0000-0000000000cb", "amount": 20.00},
+  {"category_id": null, "amount": 10.00}
+]'::jsonb);
+
+select set_month_budget_categories('00000000-0000-0000-0000-0000000000b1', '[
+  {"category_id": "00000000-0000-0000-0000-0000000000cb", "amount": 100.00}
+]'::jsonb);
+
+-- The server deletes Bob's account with the service role
+reset role;
+
+select lives_ok(
+  $$ select delete_user_account('00000000-0000-0000-0000-00000000000b') $$,
+  'a member whose category the household uses can delete their account'
+);
+
+select is(
+  (select category_id from expenses where id = '00000000-0000-0000-0000-0000000000e1'),
+  '00000000-0000-0000-0000-0000000000cb'::uuid,
+  'the other member''s expense keeps its category'
+);
+
+select is(
+  (select count(*)::int from expense_splits
+   where expense_id = '00000000-0000-0000-0000-0000000000e2' and category_id = '00000000-0000-0000-0000-0000000000cb'),
+  1,
+  'the split line keeps its category'
+);
+
+select ok(
+  exists (
+    select 1 from expense_categories
+    where id = '00000000-0000-0000-0000-0000000000cb'
+      and user_id = '00000000-0000-0000-0000-00000000000a'
+      and archived_at is not null
+  ),
+  'the category is handed to the remaining member, archived'
+);
+
+select ok(
+  exists (
+    select 1 from month_budget_categories
+    where month_budget_id = '00000000-0000-0000-0000-0000000000b1'
+      and category_id = '00000000-0000-0000-0000-0000000000cb'
+  ),
+  'the household budget keeps its allocation'
+);
+
+select is(
+  (select count(*)::int from month_budget
+   where id = '00000000-0000-0000-0000-0000000000b1' and deleted_at is null),
+  1,
+  'the household budget is not deleted'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,60 @@
+-- ============================================================================
+-- Test: Household members see the history of each other's shared rows
+-- Run with: supabase test db
+-- ============================================================================
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(3);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com'),
+  ('00000000-0000-0000-0000-00000000000b', 'bob@example.com'),
+  ('00000000-0000-0000-0000-00000000000c', 'carol@example.com');
+
+set local role authenticated;
+
+-- Alice creates the household, invites Bob and adds an expense
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+select create_household('Home');
+
+insert into household_invitations (household_id, email, invited_by)
+values (current_household_id(), 'bob@example.com', auth.uid());
+
+insert into expenses (id, user_id, amount, expense_date, description)
+values ('00000000-0000-0000-0000-0000000000e1', auth.uid(), 25, '2025-12-10', 'Paint');
+
+update expenses set amount = 30 where id = '00000000-0000-0000-0000-0000000000e1';
+
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000b", "role": "authenticated"}', true);
+
+select accept_household_invitation((select id from household_invitations where email = 'bob@example.com'));
+
+select is(
+  (select count(*)::int from audit_log
+   where entity_type = 'expense' and entity_id = '00000000-0000-0000-0000-0000000000e1'),
+  2,
+  'a member sees the history of an expense another member added'
+);
+
+select is(
+  (select actor_id from audit_log
+   where entity_id = '00000000-0000-0000-0000-0000000000e1' and operation = 'update'),
+  '00000000-0000-0000-0000-00000000000a'::uuid,
+  'the entry names the member who made the change'
+);
+
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000c", "role": "authenticated"}', true);
+
+select is(
+  (select count(*)::int from audit_log where entity_id = '00000000-0000-0000-0000-0000000000e1'),
+  0,
+  'someone outside the household does not see it'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,95 @@
+-- ============================================================================
+-- Test: Merging a category moves the rows other household members wrote with it
+-- Run with: supabase test db
+-- ============================================================================
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(6);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com'),
+  ('00000000-0000-0000-0000-00000000000b', 'bob@example.com');
+
+insert into expense_categories (id, user_id, name, slug, display_name) values
+  ('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-00000000000b', 'hobby', 'hobby', 'Hobby'),
+  ('00000000-0000-0000-0000-0000000000c2', '00000000-0000-0000-0000-00000000000b', 'leisure', 'leisure', 'Leisure');
+
+set local role authenticated;
+
+-- Alice creates the household, its December budget and two expenses
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+select create_household('Home');
+
+insert into household_invitations (household_id, email, invited_by)
+values (current_household_id(), 'bob@example.com', auth.uid());
+
+insert into month_budget (id, user_id, year_month, budget_set)
+values ('00000000-0000-0000-0000-0000000000b1', auth.uid(), '2025-12', 1000);
+
+insert into expenses (id, user_id, amount, expense_date, description) values
+  ('00000000-0000-0000-0000-0000000000e1', auth.uid(), 25, '2025-12-10', 'Paint'),
+  ('00000000-0000-0000-0000-0000000000e2', auth.uid(), 30, '2025-12-11', 'Market');
+
+-- Bob joins and uses his category on Alice's expense, a split line and an allocation
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000b", "role": "authenticated"}', true);
+
+select accept_household_invitation((select id from household_invitations where email = 'bob@example.com'));
+
+update expenses set category_id = '00000000-0000-0000-0000-0000000000c1'
+where id = '00000000-0000-0000-0000-0000000000e1';
+
+select set_expense_splits('00000000-0000-0000-0000-0000000000e2', '[
+  {"category_id": "00000000-0000-0000-0000-0000000000c1", "amount": 20.00},
+  {"category_id": null, "amount": 10.00}
+]'::jsonb);
+
+select set_month_budget_categories('00000000-0000-0000-0000-0000000000b1', '[
+  {"category_id": "00000000-0000-0000-0000-0000000000c1", "amount": 100.00}
+]'::jsonb);
+
+-- Bob merges the category into his other one
+select lives_ok(
+  $$ select merge_expense_categories('00000000-0000-0000-0000-0000000000c1', '00000000-0000-0000-0000-0000000000c2') $$,
+  'a category used on another member''s rows can be merged'
+);
+
+select is(
+  (select category_id from expenses where id = '00000000-0000-0000-0000-0000000000e1'),
+  '00000000-0000-0000-0000-0000000000c2'::uuid,
+  'the other member''s expense is moved to the target'
+);
+
+select is(
+  (select count(*)::int from expense_splits
+   where expense_id = '00000000-0000-0000-0000-0000000000e2' and category_id = '00000000-0000-0000-0000-0000000000c2'),
+  1,
+  'the other member''s split line is moved to the target'
+);
+
+select is(
+  (select amount from month_budget_categories
+   where month_budget_id = '00000000-0000-0000-0000-0000000000b1' and category_id = '00000000-0000-0000-0000-0000000000c2'),
+  100.00::numeric(12,2),
+  'the other member''s allocation is moved to the target'
+);
+
+select is(
+  (select count(*)::int from expense_categories where id = '00000000-0000-0000-0000-0000000000c1'),
+  0,
+  'the source category is removed'
+);
+
+select is(
+  (select count(*)::int from expense_splits where category_id = '00000000-0000-0000-0000-0000000000c1')
+  + (select count(*)::int from month_budget_categories where category_id = '00000000-0000-0000-0000-0000000000c1'),
+  0,
+  'no row uses the source category anymore'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,88 @@
+-- ============================================================================
+-- Test: Household members recategorize each other's expenses
+-- Run with: supabase test db
+-- ============================================================================
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(4);
+
+-- Two users, each with a custom category
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com'),
+  ('00000000-0000-0000-0000-00000000000b', 'bob@example.com');
+
+insert into expense_categories (id, user_id, name, slug, display_name) values
+  ('00000000-0000-0000-0000-0000000000ca', '00000000-0000-0000-0000-00000000000a', 'alice-food', 'alice-food', 'Food'),
+  ('00000000-0000-0000-0000-0000000000cb', '00000000-0000-0000-0000-00000000000b', 'bob-hobby', 'bob-hobby', 'Hobby');
+
+set local role authenticated;
+
+-- Alice creates the household, invites Bob and adds an expense with her category
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+select create_household('Home');
+
+insert into household_invitations (household_id, email, invited_by)
+values (current_household_id(), 'bob@example.com', auth.uid());
+
+insert into expenses (id, user_id, category_id, amount, expense_date, description)
+values (
+  '00000000-0000-0000-0000-0000000000e1',
+  auth.uid(),
+  '00000000-0000-0000-0000-0000000000ca',
+  25,
+  '2025-12-10',
+  'Groceries'
+);
+
+-- Bob joins
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000b", "role": "authenticated"}', true);
+
+select accept_household_invitation((select id from household_invitations where email = 'bob@example.com'));
+
+select lives_ok(
+  $$ update expenses set category_id = '00000000-0000-0000-0000-0000000000cb'
+     where id = '00000000-0000-0000-0000-0000000000e1' $$,
+  'a member can put their own category on an expense another member added'
+);
+
+select is(
+  (select category_id from expenses where id = '00000000-0000-0000-0000-0000000000e1'),
+  '00000000-0000-0000-0000-0000000000cb'::uuid,
+  'the expense has the member''s category'
+);
+
+update expenses set category_id = '00000000-0000-0000-0000-0000000000ca'
+where id = '00000000-0000-0000-0000-0000000000e1';
+
+select ok(
+  exists (
+    select 1
+    from bulk_update_expenses(
+      array['00000000-0000-0000-0000-0000000000e1']::uuid[],
+      true,
+      '00000000-0000-0000-0000-0000000000cb',
+      null
+    )
+    where status = 'updated'
+  ),
+  'bulk updates accept the member''s category too'
+);
+
+-- Alice cannot use Bob's category: categories stay personal
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+select throws_ok(
+  $$ update expenses set category_id = '00000000-0000-0000-0000-0000000000cb'
+     where id = '00000000-0000-0000-0000-0000000000e1' $$,
+  '23503',
+  null,
+  'a member cannot use the category of another member'
+);
+
+select * from finish();
+
+rollback;
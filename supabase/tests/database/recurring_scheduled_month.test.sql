@@ -0,0 +1,83 @@
+-- ============================================================================
+-- Test: Moved occurrences of recurring expenses keep their scheduled month
+-- Run with: supabase test db
+-- ============================================================================
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(6);
+
+insert into auth.users (id, email) values
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com');
+
+set local role authenticated;
+
+select set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+insert into recurring_expenses (id, user_id, amount, description, day_of_month, start_month)
+values ('00000000-0000-0000-0000-0000000000d1', auth.uid(), 100, 'Gym', 10, '2025-11');
+
+-- Materialize November and December the way recurring-expense.service.ts does
+insert into expenses (id, user_id, recurring_expense_id, scheduled_month, amount, description, expense_date) values
+  ('00000000-0000-0000-0000-0000000000e1', auth.uid(), '00000000-0000-0000-0000-0000000000d1', '2025-11', 100, 'Gym', '2025-11-10'),
+  ('00000000-0000-0000-0000-0000000000e2', auth.uid(), '00000000-0000-0000-0000-0000000000d1', '2025-12', 100, 'Gym', '2025-12-10')
+on conflict (recurring_expense_id, scheduled_month) do nothing;
+
+-- The November charge was actually paid in December
+update expenses set expense_date = '2025-12-02'
+where id = '00000000-0000-0000-0000-0000000000e1';
+
+insert into expenses (user_id, recurring_expense_id, scheduled_month, amount, description, expense_date)
+values (auth.uid(), '00000000-0000-0000-0000-0000000000d1', '2025-11', 100, 'Gym', '2025-11-10')
+on conflict (recurring_expense_id, scheduled_month) do nothing;
+
+select is(
+  (select count(*)::int from expenses where recurring_expense_id = '00000000-0000-0000-0000-0000000000d1'),
+  2,
+  'a moved occurrence is not generated again for its scheduled month'
+);
+
+select is(
+  (select scheduled_month from expenses where id = '00000000-0000-0000-0000-0000000000e1'),
+  '2025-11',
+  'the moved occurrence keeps its scheduled month'
+);
+
+select lives_ok(
+  $$ select * from bulk_update_expenses(
+       array['00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000e2']::uuid[],
+       false,
+       null,
+       '2026-01-15'
+     ) $$,
+  'two occurrences can be moved into the same month'
+);
+
+select is(
+  (select count(*)::int from expenses
+   where recurring_expense_id = '00000000-0000-0000-0000-0000000000d1' and year_month = '2026-01'),
+  2,
+  'both occurrences are in the new month'
+);
+
+select throws_ok(
+  $$ update expenses set scheduled_month = '2026-01'
+     where id = '00000000-0000-0000-0000-0000000000e1' $$,
+  '23514',
+  null,
+  'the scheduled month cannot be changed'
+);
+
+select throws_ok(
+  $$ insert into expenses (user_id, recurring_expense_id, amount, description, expense_date)
+     values (auth.uid(), '00000000-0000-0000-0000-0000000000d1', 100, 'Gym', '2026-02-10') $$,
+  '23514',
+  null,
+  'an occurrence needs a scheduled month'
+);
+
+select * from finish();
+
+rollback;